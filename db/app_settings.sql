@@ -17,6 +17,8 @@ create table if not exists public.app_settings (
   code_length integer default 4,
   code_format text default 'numeric',
   code_pattern text default null,
+  result_notification_template text default null,
+  result_notification_subject text default null,
   updated_at timestamptz default now()
 );
 
@@ -31,7 +33,9 @@ alter table if exists public.app_settings
   add column if not exists enable_multi_exam boolean default true,
   add column if not exists code_length integer default 4,
   add column if not exists code_format text default 'numeric',
-  add column if not exists code_pattern text default null;
+  add column if not exists code_pattern text default null,
+  add column if not exists result_notification_template text default null,
+  add column if not exists result_notification_subject text default null;
 
 -- Create key-value settings table for system configuration
 create table if not exists public.app_config (
@@ -190,14 +190,14 @@ BEGIN
         jsonb_build_object(
           'exam_id', e.id,
           'title', e.title,
-          'can_attempt', (sea.id IS NULL AND e.status = 'published')
+          'can_attempt', (coalesce(public.student_attempts_remaining(e.id, s.id), 1) > 0 AND e.status = 'published')
         ) ORDER BY e.created_at DESC
       ) FILTER (WHERE e.id IS NOT NULL),
       '[]'::jsonb
     ) as available_exams
   FROM public.students s
   LEFT JOIN public.student_exam_attempts sea ON sea.student_id = s.id
-  LEFT JOIN public.exams e ON (e.access_type = 'code_based' AND e.status = 'published')
+  LEFT JOIN public.exams e ON (e.access_type = 'code_based' AND e.status = 'published' AND public.student_assigned_to_exam(e.id, s.id))
   WHERE s.id = v_student_id
   GROUP BY s.id, s.code, s.student_name, s.mobile_number;
 END;
@@ -380,12 +380,12 @@ BEGIN
               code_item->>'code' as code,
               EXISTS(SELECT 1 FROM public.students s WHERE s.code = code_item->>'code') as exists,
               CASE WHEN (code_item->>'exam_id') IS NOT NULL THEN
-                NOT EXISTS(
-                  SELECT 1 FROM public.student_exam_attempts sea 
-                  JOIN public.students s ON s.id = sea.student_id
-                  WHERE s.code = code_item->>'code' 
-                    AND sea.exam_id = (code_item->>'exam_id')::uuid
-                )
+                coalesce((
+                  SELECT coalesce(public.student_attempts_remaining((code_item->>'exam_id')::uuid, s.id), 1) > 0
+                     AND public.student_assigned_to_exam((code_item->>'exam_id')::uuid, s.id)
+                  FROM public.students s
+                  WHERE s.code = code_item->>'code'
+                ), false)
               ELSE true END as available
             FROM jsonb_array_elements(op_params->'codes') as code_item
           )
@@ -165,7 +165,8 @@ BEGIN
       
     WHEN 'create_user' THEN
       SELECT user_id, username, email, is_admin INTO v_user_id, p_username, p_email, true
-      FROM public.admin_create_user(p_username, p_email, p_password, COALESCE((p_params->>'is_admin')::boolean, false));
+      FROM public.admin_create_user(p_username, p_email, p_password, COALESCE((p_params->>'is_admin')::boolean, false),
+                                    COALESCE(p_params->>'role', 'viewer'));
       
       v_result := jsonb_build_object(
         'success', true,
@@ -209,13 +210,13 @@ BEGIN
         );
       END;
       
-    WHEN 'reset_student_attempts' THEN
-      SELECT deleted_count INTO v_count
-      FROM public.admin_reset_student_attempts(p_student_id, p_exam_id);
+    WHEN 'grant_student_attempt' THEN
+      SELECT g.attempts_remaining INTO v_count
+      FROM public.admin_grant_student_attempt(p_student_id, p_exam_id) g;
       
       v_result := jsonb_build_object(
         'success', true,
-        'deleted_count', v_count
+        'attempts_remaining', v_count
       );
       
     WHEN 'cleanup_expired' THEN
@@ -313,10 +314,12 @@ BEGIN
         END IF;
         
         IF p_exam_id IS NOT NULL THEN
-          SELECT EXISTS(
-            SELECT 1 FROM public.student_exam_attempts 
-            WHERE student_id = v_student_id AND exam_id = p_exam_id
-          ) INTO v_attempt_exists;
+          IF NOT public.student_assigned_to_exam(p_exam_id, v_student_id) THEN
+            RAISE EXCEPTION 'exam_not_assigned';
+          END IF;
+
+          SELECT coalesce(public.student_attempts_remaining(p_exam_id, v_student_id), 1) <= 0
+          INTO v_attempt_exists;
           
           IF v_attempt_exists THEN
             RAISE EXCEPTION 'code_already_used';
@@ -16,9 +16,10 @@
  create index if not exists idx_results_attempt_id on public.exam_results (attempt_id);
 
  -- Global tables performance
- -- Ensure fast lookups and enforce single attempt per student per exam
+ -- Ensure fast lookups; students may have several attempts per exam (exams.settings.attempt_limit)
  create index if not exists idx_attempts_student_id on public.exam_attempts (student_id);
- create unique index if not exists uniq_sea_exam_student on public.student_exam_attempts (exam_id, student_id);
+ drop index if exists public.uniq_sea_exam_student;
+ create index if not exists idx_sea_exam_student on public.student_exam_attempts (exam_id, student_id, started_at desc);
  create index if not exists idx_sea_exam on public.student_exam_attempts (exam_id, started_at desc);
  create index if not exists idx_sea_student on public.student_exam_attempts (student_id);
  create index if not exists idx_sea_attempt_id on public.student_exam_attempts (attempt_id);
@@ -47,6 +48,18 @@
  -- Students performance
  create index if not exists idx_students_code_lower on public.students (lower(code));
  create index if not exists idx_students_name_lower on public.students (lower(student_name)) where student_name is not null;
+ -- Group membership lookups by student (the primary keys cover lookups by group and exam)
+ create index if not exists idx_group_members_student on public.student_group_members (student_id);
+ create index if not exists idx_exam_groups_group on public.exam_groups (group_id);
+ -- Recent imports first on the Students page
+ create index if not exists idx_student_import_batches_created on public.student_import_batches (created_at desc);
+ -- Message queue: due deliveries and a job's recipients
+ create index if not exists idx_message_deliveries_due on public.message_deliveries (next_attempt_at) where status in ('pending', 'sending');
+ create index if not exists idx_message_deliveries_job on public.message_deliveries (job_id, id);
+ -- Scheduled result releases picked up by the exam scheduler
+ create index if not exists idx_exams_results_release_at on public.exams (results_release_at) where results_release_at is not null;
+ -- Result notification jobs per exam
+ create index if not exists idx_message_jobs_exam on public.message_jobs (exam_id, created_at desc) where exam_id is not null;
  
  -- Audit logs performance
  create index if not exists idx_audit_logs_created_actor on public.audit_logs (created_at desc, actor);
@@ -4,6 +4,8 @@
 
 -- Ensure pgcrypto for gen_random_uuid/gen_random_bytes
 create extension if not exists pgcrypto;
+-- levenshtein() for fuzzy short_answer matching
+create extension if not exists fuzzystrmatch;
 
 -- resolved merge marker
 -- Ensure exam_attempts has device_info column (idempotent)
@@ -40,9 +42,10 @@ BEGIN
   INSERT INTO public.attempt_activity_events (attempt_id, event_type, event_time, payload)
   SELECT
     p_attempt_id,
-    left(coalesce(e->>'event_type', 'unknown'), 64),
+    -- The attempt page sends activity_type/details; other callers event_type/payload
+    left(coalesce(e->>'event_type', e->>'activity_type', 'unknown'), 64),
     COALESCE((e->>'event_time')::timestamptz, now()),
-    COALESCE(e->'payload', '{}'::jsonb)
+    COALESCE(e->'payload', e->'details', '{}'::jsonb)
   FROM jsonb_array_elements(COALESCE(p_events, '[]'::jsonb)) AS e;
   GET DIAGNOSTICS v_count = ROW_COUNT;
 
@@ -75,6 +78,500 @@ $function$;
 
 GRANT EXECUTE ON FUNCTION public.exec_sql(text) TO service_role;
 
+-- Grade an image_annotation answer: every target region must contain a point and
+-- no point may fall outside all regions. Coordinates and radii are percentages of the
+-- image; tolerance widens every region. Mirrors src/lib/imageAnnotation.ts.
+CREATE OR REPLACE FUNCTION public.grade_image_annotation(p_answer jsonb, p_key jsonb)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+SET search_path TO public, extensions
+AS $function$
+  WITH pts AS (
+    SELECT (p->>'x')::numeric AS x, (p->>'y')::numeric AS y
+    FROM jsonb_array_elements(CASE WHEN jsonb_typeof(p_answer) = 'array' THEN p_answer ELSE '[]'::jsonb END) AS p
+    WHERE jsonb_typeof(p->'x') = 'number' AND jsonb_typeof(p->'y') = 'number'
+  ),
+  regs AS (
+    SELECT (r->>'x')::numeric AS x, (r->>'y')::numeric AS y,
+           COALESCE((r->>'radius')::numeric, 5) + COALESCE((p_key->>'tolerance')::numeric, 2) AS reach
+    FROM jsonb_array_elements(CASE WHEN jsonb_typeof(p_key->'regions') = 'array' THEN p_key->'regions' ELSE '[]'::jsonb END) AS r
+    WHERE jsonb_typeof(r->'x') = 'number' AND jsonb_typeof(r->'y') = 'number'
+  )
+  SELECT EXISTS (SELECT 1 FROM regs)
+     AND EXISTS (SELECT 1 FROM pts)
+     AND NOT EXISTS (
+       SELECT 1 FROM regs r
+       WHERE NOT EXISTS (SELECT 1 FROM pts p WHERE sqrt(power(p.x - r.x, 2) + power(p.y - r.y, 2)) <= r.reach)
+     )
+     AND NOT EXISTS (
+       SELECT 1 FROM pts p
+       WHERE NOT EXISTS (SELECT 1 FROM regs r WHERE sqrt(power(p.x - r.x, 2) + power(p.y - r.y, 2)) <= r.reach)
+     );
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.grade_image_annotation(jsonb, jsonb) TO service_role;
+
+-- Grade a numeric answer (string like "9.81 m/s^2" or a JSON number) against
+-- {value, tolerance, tolerance_type: absolute|relative(%), units[], unit_required, sig_figs}.
+-- A bare number or numeric string key is treated as {value}. Mirrors src/lib/numericAnswer.ts.
+CREATE OR REPLACE FUNCTION public.grade_numeric(p_answer jsonb, p_key jsonb)
+RETURNS boolean
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path TO public, extensions
+AS $function$
+DECLARE
+  v_key jsonb := p_key;
+  v_text text;
+  v_match text[];
+  v_num_text text;
+  v_unit text;
+  v_value numeric;
+  v_expected numeric;
+  v_tol numeric;
+  v_allowed numeric;
+  v_units text[];
+  v_sig int;
+  v_mantissa text;
+  v_digits text;
+  v_sig_min int;
+  v_sig_max int;
+BEGIN
+  IF v_key IS NULL OR p_answer IS NULL THEN RETURN FALSE; END IF;
+  IF jsonb_typeof(v_key) IN ('number','string') THEN
+    v_key := jsonb_build_object('value', v_key #>> '{}');
+  ELSIF jsonb_typeof(v_key) <> 'object' THEN
+    RETURN FALSE;
+  END IF;
+
+  BEGIN
+    v_expected := (v_key->>'value')::numeric;
+    v_tol := abs(COALESCE(NULLIF(v_key->>'tolerance', '')::numeric, 0));
+    v_sig := floor(NULLIF(v_key->>'sig_figs', '')::numeric)::int;
+  EXCEPTION WHEN others THEN
+    RETURN FALSE;
+  END;
+  IF v_expected IS NULL THEN RETURN FALSE; END IF;
+
+  IF jsonb_typeof(p_answer) NOT IN ('number','string') THEN RETURN FALSE; END IF;
+  -- Trim tabs and newlines too, like String.prototype.trim in the TS grader
+  v_text := translate(regexp_replace(p_answer #>> '{}', '^\s+|\s+$', '', 'g'), '٠١٢٣٤٥٦٧٨٩۰۱۲۳۴۵۶۷۸۹٫', '01234567890123456789.');
+  v_match := regexp_match(v_text, '^([+-]?(?:[0-9]+\.?[0-9]*|\.[0-9]+)(?:[eE][+-]?[0-9]+)?)\s*(.*)$');
+  IF v_match IS NULL THEN RETURN FALSE; END IF;
+  v_num_text := v_match[1];
+  v_unit := btrim(v_match[2]);
+  v_value := v_num_text::numeric;
+
+  -- Units: a given unit must be one of the accepted ones; omitting it only fails when required
+  SELECT COALESCE(array_agg(lower(regexp_replace(u, '\s+', '', 'g'))), ARRAY[]::text[])
+    INTO v_units
+    FROM jsonb_array_elements_text(CASE WHEN jsonb_typeof(v_key->'units') = 'array' THEN v_key->'units' ELSE '[]'::jsonb END) AS u
+    WHERE btrim(u) <> '';
+  IF v_unit <> '' THEN
+    IF NOT (lower(regexp_replace(v_unit, '\s+', '', 'g')) = ANY(v_units)) THEN RETURN FALSE; END IF;
+  ELSIF cardinality(v_units) > 0 AND COALESCE(v_key->'unit_required' = 'true'::jsonb, FALSE) THEN
+    RETURN FALSE;
+  END IF;
+
+  -- Significant figures; trailing zeros of a whole number without a point are ambiguous
+  IF v_sig IS NOT NULL AND v_sig > 0 THEN
+    v_mantissa := split_part(lower(regexp_replace(v_num_text, '^[+-]', '')), 'e', 1);
+    v_digits := ltrim(replace(v_mantissa, '.', ''), '0');
+    IF v_digits = '' THEN
+      v_sig_min := GREATEST(1, length(split_part(v_mantissa, '.', 2)));
+      v_sig_max := v_sig_min;
+    ELSIF position('.' in v_mantissa) > 0 THEN
+      v_sig_min := length(v_digits);
+      v_sig_max := v_sig_min;
+    ELSE
+      v_sig_min := length(rtrim(v_digits, '0'));
+      v_sig_max := length(v_digits);
+    END IF;
+    IF v_sig < v_sig_min OR v_sig > v_sig_max THEN RETURN FALSE; END IF;
+  END IF;
+
+  v_allowed := CASE WHEN v_key->>'tolerance_type' = 'relative' THEN abs(v_expected) * v_tol / 100 ELSE v_tol END;
+  RETURN abs(v_value - v_expected) <= v_allowed;
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.grade_numeric(jsonb, jsonb) TO service_role;
+
+-- Normalize free-text answers before comparison. Mirrors normalizeAnswerText in src/lib/textUtils.ts:
+-- trim, collapse whitespace, strip Arabic harakat/tatweel, fold alef/ya/ta marbuta variants and
+-- Arabic-Indic digits, then lowercase unless case sensitive. Trimming covers tabs and newlines like
+-- String.prototype.trim (btrim only strips spaces).
+CREATE OR REPLACE FUNCTION public.normalize_answer_text(
+  p_text text,
+  p_case_sensitive boolean DEFAULT false,
+  p_whitespace boolean DEFAULT true,
+  p_arabic boolean DEFAULT true
+)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+SET search_path TO public, extensions
+AS $function$
+  SELECT CASE WHEN p_case_sensitive THEN t ELSE lower(t) END
+  FROM (
+    SELECT CASE WHEN p_arabic THEN
+             translate(
+               translate(w, 'ًٌٍَُِّْٰـ', ''),
+               'أإآٱىة٠١٢٣٤٥٦٧٨٩۰۱۲۳۴۵۶۷۸۹٫',
+               'اااايه01234567890123456789.'
+             )
+           ELSE w END AS t
+    FROM (
+      SELECT CASE WHEN p_whitespace THEN regexp_replace(s, '\s+', ' ', 'g') ELSE s END AS w
+      FROM (SELECT regexp_replace(p_text, '^\s+|\s+$', '', 'g') AS s) trimmed
+    ) a
+  ) b;
+$function$;
+
+-- Grade a short_answer against {accepted[], patterns[], case_sensitive, normalize_whitespace,
+-- normalize_arabic, max_distance}. A string or string array key is the accepted list with defaults.
+-- Mirrors src/lib/shortAnswer.ts.
+CREATE OR REPLACE FUNCTION public.grade_short_answer(p_answer jsonb, p_key jsonb)
+RETURNS boolean
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path TO public, extensions
+AS $function$
+DECLARE
+  v_key jsonb := p_key;
+  v_case boolean;
+  v_ws boolean;
+  v_ar boolean;
+  v_dist int := 0;
+  v_given text;
+  v_want text;
+  v_item text;
+BEGIN
+  IF p_answer IS NULL OR jsonb_typeof(p_answer) <> 'string' OR (p_answer #>> '{}') !~ '\S' THEN
+    RETURN FALSE;
+  END IF;
+  IF v_key IS NULL THEN RETURN FALSE; END IF;
+  IF jsonb_typeof(v_key) IN ('string','array') THEN
+    v_key := jsonb_build_object('accepted', CASE WHEN jsonb_typeof(v_key) = 'string' THEN jsonb_build_array(v_key) ELSE v_key END);
+  ELSIF jsonb_typeof(v_key) <> 'object' THEN
+    RETURN FALSE;
+  END IF;
+
+  v_case := COALESCE(v_key->'case_sensitive' = 'true'::jsonb, FALSE);
+  v_ws := NOT COALESCE(v_key->'normalize_whitespace' = 'false'::jsonb, FALSE);
+  v_ar := NOT COALESCE(v_key->'normalize_arabic' = 'false'::jsonb, FALSE);
+  BEGIN
+    v_dist := GREATEST(0, floor(COALESCE(NULLIF(v_key->>'max_distance', '')::numeric, 0)))::int;
+  EXCEPTION WHEN others THEN
+    v_dist := 0;
+  END;
+
+  v_given := public.normalize_answer_text(p_answer #>> '{}', v_case, v_ws, v_ar);
+
+  FOR v_item IN
+    SELECT e #>> '{}' FROM jsonb_array_elements(CASE WHEN jsonb_typeof(v_key->'accepted') = 'array' THEN v_key->'accepted' ELSE '[]'::jsonb END) AS e
+    WHERE jsonb_typeof(e) = 'string' AND (e #>> '{}') ~ '\S'
+  LOOP
+    v_want := public.normalize_answer_text(v_item, v_case, v_ws, v_ar);
+    IF v_given = v_want THEN RETURN TRUE; END IF;
+    -- levenshtein() is limited to 255 characters; longer answers must match exactly
+    IF v_dist > 0 AND length(v_given) <= 255 AND length(v_want) <= 255
+       AND levenshtein(v_given, v_want) <= v_dist THEN
+      RETURN TRUE;
+    END IF;
+  END LOOP;
+
+  FOR v_item IN
+    SELECT e #>> '{}' FROM jsonb_array_elements(CASE WHEN jsonb_typeof(v_key->'patterns') = 'array' THEN v_key->'patterns' ELSE '[]'::jsonb END) AS e
+    WHERE jsonb_typeof(e) = 'string' AND (e #>> '{}') ~ '\S'
+  LOOP
+    BEGIN
+      IF (v_case AND v_given ~ v_item) OR (NOT v_case AND v_given ~* v_item) THEN RETURN TRUE; END IF;
+    EXCEPTION WHEN invalid_regular_expression THEN
+      -- invalid patterns never match
+      NULL;
+    END;
+  END LOOP;
+
+  RETURN FALSE;
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.normalize_answer_text(text, boolean, boolean, boolean) TO service_role;
+GRANT EXECUTE ON FUNCTION public.grade_short_answer(jsonb, jsonb) TO service_role;
+
+-- Share (0..1) of positions where a matching/ordering answer array agrees with the key.
+-- The key is a plain array or an object holding it under p_field ('matches' or 'order').
+-- Items are compared trimmed of all whitespace, like String.prototype.trim.
+-- Mirrors src/lib/sequenceAnswer.ts.
+CREATE OR REPLACE FUNCTION public.grade_positional(p_answer jsonb, p_key jsonb, p_field text)
+RETURNS numeric
+LANGUAGE sql
+IMMUTABLE
+SET search_path TO public, extensions
+AS $function$
+  WITH expected AS (
+    SELECT regexp_replace(e.value #>> '{}', '^\s+|\s+$', '', 'g') AS v, e.ord
+    FROM jsonb_array_elements(
+      CASE
+        WHEN jsonb_typeof(p_key) = 'array' THEN p_key
+        WHEN jsonb_typeof(p_key -> p_field) = 'array' THEN p_key -> p_field
+        ELSE '[]'::jsonb
+      END
+    ) WITH ORDINALITY AS e(value, ord)
+  ),
+  given AS (
+    SELECT regexp_replace(a.value #>> '{}', '^\s+|\s+$', '', 'g') AS v, a.ord
+    FROM jsonb_array_elements(CASE WHEN jsonb_typeof(p_answer) = 'array' THEN p_answer ELSE '[]'::jsonb END)
+      WITH ORDINALITY AS a(value, ord)
+  )
+  SELECT CASE WHEN COUNT(*) = 0 THEN 0
+              ELSE COUNT(*) FILTER (WHERE g.v = x.v)::numeric / COUNT(*)
+         END
+  FROM expected x
+  LEFT JOIN given g ON g.ord = x.ord;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.grade_positional(jsonb, jsonb, text) TO service_role;
+
+-- Questions of an attempt at the revision it was shown (exam questions plus drawn pool questions).
+-- With p_for_grading, revisions a regrade applied via key_revisions take precedence.
+-- Questions without a recorded revision (attempts started before versioning) use the live row.
+CREATE OR REPLACE FUNCTION public.attempt_questions(p_attempt_id uuid, p_for_grading boolean DEFAULT false)
+RETURNS TABLE(
+  id uuid,
+  question_text text,
+  question_type text,
+  options jsonb,
+  correct_answers jsonb,
+  points integer,
+  required boolean,
+  order_index integer,
+  question_image_url text,
+  option_image_urls jsonb,
+  revision integer,
+  created_at timestamptz,
+  pool_position integer
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO public, extensions
+AS $function$
+  SELECT q.id,
+         CASE WHEN r.id IS NULL THEN q.question_text ELSE r.question_text END,
+         CASE WHEN r.id IS NULL THEN q.question_type ELSE r.question_type END,
+         CASE WHEN r.id IS NULL THEN q.options ELSE r.options END,
+         CASE WHEN r.id IS NULL THEN q.correct_answers ELSE r.correct_answers END,
+         CASE WHEN r.id IS NULL THEN q.points ELSE r.points END,
+         q.required,
+         q.order_index,
+         CASE WHEN r.id IS NULL THEN q.question_image_url ELSE r.question_image_url END,
+         CASE WHEN r.id IS NULL THEN q.option_image_urls ELSE r.option_image_urls END,
+         COALESCE(r.revision, q.revision),
+         q.created_at,
+         array_position(COALESCE(a.pool_question_ids, ARRAY[]::uuid[]), q.id)
+  FROM public.exam_attempts a
+  JOIN public.questions q
+    ON q.exam_id = a.exam_id OR q.id = ANY(COALESCE(a.pool_question_ids, ARRAY[]::uuid[]))
+  LEFT JOIN public.question_revisions r
+    ON r.question_id = q.id
+   AND r.revision = (
+     CASE WHEN p_for_grading THEN COALESCE(a.key_revisions ->> q.id::text, a.question_revisions ->> q.id::text)
+          ELSE a.question_revisions ->> q.id::text
+     END
+   )::int
+  WHERE a.id = p_attempt_id;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.attempt_questions(uuid, boolean) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.attempt_questions(uuid, boolean) TO service_role;
+
+-- Sections of an attempt from exams.settings.sections: [{id, title, instructions, duration_minutes, question_ids[]}].
+-- A question listed in several sections belongs to the first; questions not listed anywhere
+-- (including drawn pool questions) join the last section. No rows when the exam is not sectioned.
+CREATE OR REPLACE FUNCTION public.attempt_sections(p_attempt_id uuid)
+RETURNS TABLE(
+  section_index integer,
+  section_id text,
+  title text,
+  instructions text,
+  duration_minutes integer,
+  question_ids uuid[]
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO public, extensions
+AS $function$
+  WITH cfg AS (
+    SELECT e.settings -> 'sections' AS sections
+    FROM public.exam_attempts a
+    JOIN public.exams e ON e.id = a.exam_id
+    WHERE a.id = p_attempt_id AND jsonb_typeof(e.settings -> 'sections') = 'array'
+  ),
+  s AS (
+    SELECT (t.ord - 1)::int AS idx, t.sec, count(*) OVER () AS n
+    FROM cfg, jsonb_array_elements(cfg.sections) WITH ORDINALITY AS t(sec, ord)
+  ),
+  q AS (
+    SELECT aq.id, aq.pool_position, aq.order_index, aq.created_at
+    FROM public.attempt_questions(p_attempt_id) aq
+  ),
+  listed AS (
+    SELECT DISTINCT ON (q.id) q.id, s.idx
+    FROM s
+    CROSS JOIN LATERAL jsonb_array_elements_text(COALESCE(s.sec -> 'question_ids', '[]'::jsonb)) AS l(qid)
+    JOIN q ON q.id::text = l.qid
+    ORDER BY q.id, s.idx
+  )
+  SELECT s.idx,
+         COALESCE(NULLIF(s.sec ->> 'id', ''), 'section-' || (s.idx + 1)),
+         COALESCE(s.sec ->> 'title', ''),
+         NULLIF(s.sec ->> 'instructions', ''),
+         CASE WHEN s.sec ->> 'duration_minutes' ~ '^[0-9]+$' AND (s.sec ->> 'duration_minutes')::int > 0
+              THEN (s.sec ->> 'duration_minutes')::int END,
+         ARRAY(
+           SELECT q.id
+           FROM q LEFT JOIN listed l ON l.id = q.id
+           WHERE l.idx = s.idx OR (l.id IS NULL AND s.idx = s.n - 1)
+           ORDER BY q.pool_position NULLS FIRST, q.order_index NULLS LAST, q.created_at
+         )
+  FROM s
+  ORDER BY s.idx;
+$function$;
+
+-- Status of each section of an attempt from exam_attempts.section_state:
+--   active (current), open (left earlier, return allowed), upcoming, closed (left without return,
+--   out of time, or attempt submitted). remaining_seconds is null for untimed sections and goes
+--   negative once a section overruns. Attempts without section_state are in section 0 since start.
+CREATE OR REPLACE FUNCTION public.attempt_section_status(p_attempt_id uuid)
+RETURNS TABLE(section_index integer, status text, remaining_seconds integer)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO public, extensions
+AS $function$
+  WITH a AS (
+    SELECT (a.submitted_at IS NOT NULL OR a.completion_status = 'submitted') AS submitted,
+           COALESCE(a.section_state, jsonb_build_object('current', 0, 'entered_at', a.started_at)) AS st,
+           COALESCE((e.settings ->> 'allow_section_return')::boolean, false) AS allow_return
+    FROM public.exam_attempts a
+    JOIN public.exams e ON e.id = a.exam_id
+    WHERE a.id = p_attempt_id
+  ),
+  s AS (
+    SELECT sec.section_index AS idx,
+           sec.duration_minutes,
+           a.submitted,
+           a.allow_return,
+           COALESCE((a.st ->> 'current')::int, 0) AS cur,
+           GREATEST(COALESCE((a.st ->> 'reached')::int, 0), COALESCE((a.st ->> 'current')::int, 0)) AS reached,
+           COALESCE(a.st -> 'closed', '[]'::jsonb) @> to_jsonb(sec.section_index) AS left_closed,
+           COALESCE((a.st -> 'used' ->> sec.section_index::text)::numeric, 0)
+             + CASE WHEN sec.section_index = COALESCE((a.st ->> 'current')::int, 0)
+                    THEN GREATEST(0, extract(epoch FROM now() - (a.st ->> 'entered_at')::timestamptz))
+                    ELSE 0 END AS used
+    FROM public.attempt_sections(p_attempt_id) sec, a
+  )
+  SELECT s.idx,
+         CASE
+           WHEN s.submitted OR s.left_closed THEN 'closed'
+           WHEN s.duration_minutes IS NOT NULL AND s.used >= s.duration_minutes * 60 THEN 'closed'
+           WHEN s.idx = s.cur THEN 'active'
+           WHEN s.idx <= s.reached THEN CASE WHEN s.allow_return THEN 'open' ELSE 'closed' END
+           ELSE 'upcoming'
+         END,
+         CASE WHEN s.duration_minutes IS NOT NULL THEN floor(s.duration_minutes * 60 - s.used)::int END
+  FROM s
+  ORDER BY s.idx;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.attempt_sections(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.attempt_section_status(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.attempt_sections(uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION public.attempt_section_status(uuid) TO service_role;
+
+-- Extra minutes an attempt gets beyond the exam's timing: the student's accommodation
+-- (duration scaled by time_multiplier, plus extra_time_minutes) and live extensions.
+-- Mirrored by src/lib/timeAccommodations.ts; keep both in sync.
+CREATE OR REPLACE FUNCTION public.attempt_extra_minutes(p_attempt_id uuid)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO public, extensions
+AS $function$
+  SELECT (
+    CASE WHEN e.duration_minutes IS NOT NULL AND COALESCE(s.time_multiplier, 1) > 1
+         THEN ceil(e.duration_minutes * (s.time_multiplier - 1))::int ELSE 0 END
+    + COALESCE(s.extra_time_minutes, 0)
+    + COALESCE(a.extra_minutes, 0)
+  )::int
+  FROM public.exam_attempts a
+  JOIN public.exams e ON e.id = a.exam_id
+  LEFT JOIN public.students s ON s.id = a.student_id
+  WHERE a.id = p_attempt_id;
+$function$;
+
+-- When an attempt must be submitted: the earlier of its (extended) duration and the exam
+-- end_time pushed back by the same extra minutes. NULL for untimed exams.
+CREATE OR REPLACE FUNCTION public.attempt_deadline(p_attempt_id uuid)
+RETURNS timestamptz
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO public, extensions
+AS $function$
+  SELECT LEAST(
+    a.started_at + make_interval(mins => e.duration_minutes + public.attempt_extra_minutes(a.id)),
+    e.end_time + make_interval(mins => public.attempt_extra_minutes(a.id))
+  )
+  FROM public.exam_attempts a
+  JOIN public.exams e ON e.id = a.exam_id
+  WHERE a.id = p_attempt_id;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.attempt_extra_minutes(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.attempt_extra_minutes(uuid) TO service_role;
+REVOKE EXECUTE ON FUNCTION public.attempt_deadline(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.attempt_deadline(uuid) TO service_role;
+
+-- Whether a question has a key the auto-grader can mark answers against (a keyless short answer
+-- is left to a manual grader). Negative marking penalizes wrong answers only on these.
+-- Mirrors hasAnswerKey in src/lib/scoring.ts.
+CREATE OR REPLACE FUNCTION public.has_answer_key(p_type text, p_key jsonb)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+SET search_path TO public, extensions
+AS $function$
+  SELECT CASE
+    WHEN p_type IN ('paragraph','photo_upload') OR p_key IS NULL OR jsonb_typeof(p_key) = 'null' THEN FALSE
+    WHEN p_type = 'short_answer' THEN EXISTS (
+      SELECT 1
+      FROM jsonb_array_elements(
+        CASE
+          WHEN jsonb_typeof(p_key) = 'string' THEN jsonb_build_array(p_key)
+          WHEN jsonb_typeof(p_key) = 'array' THEN p_key
+          WHEN jsonb_typeof(p_key) = 'object' THEN
+            (CASE WHEN jsonb_typeof(p_key->'accepted') = 'array' THEN p_key->'accepted' ELSE '[]'::jsonb END)
+            || (CASE WHEN jsonb_typeof(p_key->'patterns') = 'array' THEN p_key->'patterns' ELSE '[]'::jsonb END)
+          ELSE '[]'::jsonb
+        END
+      ) AS e
+      WHERE jsonb_typeof(e) = 'string' AND (e #>> '{}') ~ '\S'
+    )
+    WHEN jsonb_typeof(p_key) = 'array' THEN jsonb_array_length(p_key) > 0
+    WHEN jsonb_typeof(p_key) = 'object' THEN p_key <> '{}'::jsonb
+    WHEN jsonb_typeof(p_key) = 'string' THEN (p_key #>> '{}') ~ '\S'
+    ELSE TRUE
+  END
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.has_answer_key(text, jsonb) TO service_role;
+
 -- Calculate/refresh results for a specific attempt (points-based with manual grades)
 CREATE OR REPLACE FUNCTION public.calculate_result_for_attempt(p_attempt_id uuid)
 RETURNS TABLE(
@@ -99,14 +596,30 @@ DECLARE
   v_manual_points numeric;
   v_max_points numeric;
   v_final numeric;
+  v_policy jsonb;
+  v_mode text;
+  v_penalty numeric;
+  v_practice boolean;
 BEGIN
   SELECT * INTO v_row FROM public.exam_attempts WHERE id = p_attempt_id;
   IF NOT FOUND THEN RAISE EXCEPTION 'attempt_not_found'; END IF;
 
+  -- Scoring policy (exams.settings.scoring_policy); see src/lib/scoring.ts for the same rules
+  SELECT COALESCE(e.settings->'scoring_policy', '{}'::jsonb), COALESCE(e.settings->'practice_mode' = 'true'::jsonb, FALSE)
+  INTO v_policy, v_practice
+  FROM public.exams e WHERE e.id = v_row.exam_id;
+  v_mode := COALESCE(v_policy->>'mode', 'all_or_nothing');
+  IF v_mode NOT IN ('all_or_nothing','partial','right_minus_wrong','negative') THEN v_mode := 'all_or_nothing'; END IF;
+  BEGIN
+    v_penalty := LEAST(GREATEST(COALESCE(NULLIF(v_policy->>'penalty', '')::numeric, 0.25), 0), 1);
+  EXCEPTION WHEN others THEN
+    v_penalty := 0.25;
+  END;
+
+  -- Grade against the revision each question was shown at (or the one a regrade applied)
   WITH q AS (
     SELECT q.id, q.question_type, q.correct_answers, COALESCE(q.points, 1) AS points
-    FROM public.questions q
-    WHERE q.exam_id = v_row.exam_id
+    FROM public.attempt_questions(p_attempt_id, true) q
   ),
   ans AS (
     SELECT q.id, q.question_type, q.correct_answers, q.points,
@@ -124,7 +637,16 @@ BEGIN
     FROM ans a
   ),
   graded AS (
-    SELECT n.id, n.question_type, n.points,
+    SELECT n.id, n.question_type, n.points, n.s_arr, n.c_arr,
+           -- per-position credit for matching/ordering questions that opt in
+           CASE WHEN n.question_type IN ('matching','ordering') AND n.correct_answers -> 'partial_credit' = 'true'::jsonb THEN
+             public.grade_positional(n.student_json, n.correct_answers,
+                                     CASE WHEN n.question_type = 'matching' THEN 'matches' ELSE 'order' END)
+           ELSE NULL END AS seq_fraction,
+           NOT (n.student_json IS NULL OR jsonb_typeof(n.student_json) = 'null'
+                OR (jsonb_typeof(n.student_json) = 'array' AND jsonb_array_length(n.student_json) = 0)
+                OR (jsonb_typeof(n.student_json) = 'string' AND btrim(n.student_json #>> '{}') = '')) AS answered,
+           public.has_answer_key(n.question_type, n.correct_answers) AS keyed,
            CASE
              WHEN n.question_type IN ('paragraph','photo_upload') THEN NULL
              WHEN n.question_type IN ('true_false','single_choice') THEN
@@ -136,28 +658,67 @@ BEGIN
                END
              WHEN n.question_type IN ('multiple_choice','multi_select') THEN
                COALESCE(n.s_arr, ARRAY[]::text[]) = COALESCE(n.c_arr, ARRAY[]::text[])
+             WHEN n.question_type = 'image_annotation' THEN
+               public.grade_image_annotation(n.student_json, n.correct_answers)
+             WHEN n.question_type = 'numeric' THEN
+               public.grade_numeric(n.student_json, n.correct_answers)
+             WHEN n.question_type = 'short_answer' THEN
+               public.grade_short_answer(n.student_json, n.correct_answers)
+             WHEN n.question_type IN ('matching','ordering') THEN
+               public.grade_positional(n.student_json, n.correct_answers,
+                                       CASE WHEN n.question_type = 'matching' THEN 'matches' ELSE 'order' END) = 1
              ELSE FALSE
            END AS is_correct
     FROM norm n
+  ),
+  scored AS (
+    SELECT g.*,
+           CASE
+             WHEN g.is_correct IS NULL THEN 0
+             WHEN g.is_correct THEN g.points
+             WHEN g.seq_fraction > 0 THEN g.points * g.seq_fraction
+             -- partial: share of correct options picked, diluted by extra picks
+             WHEN v_mode = 'partial' AND cardinality(g.c_arr) > 0 THEN
+               g.points::numeric * cardinality(ARRAY(SELECT unnest(g.s_arr) INTERSECT SELECT unnest(g.c_arr)))
+                 / GREATEST(cardinality(g.c_arr), cardinality(g.s_arr))
+             -- right_minus_wrong: each wrong pick cancels one correct pick
+             WHEN v_mode = 'right_minus_wrong' AND cardinality(g.c_arr) > 0 THEN
+               g.points::numeric * GREATEST(0,
+                 cardinality(ARRAY(SELECT unnest(g.s_arr) INTERSECT SELECT unnest(g.c_arr)))
+                 - cardinality(ARRAY(SELECT unnest(g.s_arr) EXCEPT SELECT unnest(g.c_arr))))
+                 / cardinality(g.c_arr)
+             -- negative: answered-but-wrong loses a share of the question's points, where a key says it is wrong
+             WHEN v_mode = 'negative' AND g.answered AND g.keyed THEN -g.points * v_penalty
+             ELSE 0
+           END AS earned
+    FROM graded g
   )
   SELECT
     COUNT(*) FILTER (WHERE question_type NOT IN ('paragraph','photo_upload')) AS total_q,
     COUNT(*) FILTER (WHERE is_correct IS TRUE) AS correct_cnt,
     SUM(points) AS all_points,
-    SUM(CASE WHEN is_correct IS TRUE THEN points ELSE 0 END) AS auto_pts
+    GREATEST(0, SUM(earned)) AS auto_pts
   INTO v_total, v_correct, v_max_points, v_auto_points
-  FROM graded;
+  FROM scored;
 
   v_score := CASE WHEN v_total > 0 THEN ROUND((v_correct::numeric * 100.0) / v_total, 2) ELSE 0 END;
 
   SELECT COALESCE(SUM(LEAST(mg.awarded_points, COALESCE(q.points, 1))), 0)
   INTO v_manual_points
   FROM public.manual_grades mg
-  JOIN public.questions q ON q.id = mg.question_id
-  WHERE mg.attempt_id = p_attempt_id AND q.exam_id = v_row.exam_id;
+  JOIN public.attempt_questions(p_attempt_id, true) q ON q.id = mg.question_id
+  WHERE mg.attempt_id = p_attempt_id;
 
   v_final := CASE WHEN COALESCE(v_max_points,0) > 0 THEN ROUND(((COALESCE(v_auto_points,0) + COALESCE(v_manual_points,0)) / v_max_points) * 100.0, 2) ELSE 0 END;
 
+  -- Practice attempts are ungraded: the score is returned but never stored, so they stay out of
+  -- results, official scores and release notifications
+  IF v_practice THEN
+    DELETE FROM public.exam_results er WHERE er.attempt_id = p_attempt_id;
+    RETURN QUERY SELECT v_total, v_correct, v_score, COALESCE(v_auto_points,0), COALESCE(v_manual_points,0), COALESCE(v_max_points,0), v_final;
+    RETURN;
+  END IF;
+
   INSERT INTO public.exam_results(
     attempt_id, total_questions, correct_count, score_percentage,
     auto_points, manual_points, max_points, final_score_percentage, calculated_at
@@ -213,7 +774,10 @@ BEGIN
     'auto_save_data', v_row.auto_save_data,
     'answers', v_row.answers,
     'completion_status', v_row.completion_status,
-    'submitted_at', v_row.submitted_at
+    'submitted_at', v_row.submitted_at,
+    'extra_minutes', public.attempt_extra_minutes(p_attempt_id),
+    'deadline_at', public.attempt_deadline(p_attempt_id),
+    'paused_at', v_row.paused_at
   );
 
   v_json := v_json || jsonb_build_object(
@@ -227,12 +791,35 @@ BEGIN
         'required', q.required,
         'order_index', q.order_index,
         'question_image_url', q.question_image_url,
-        'option_image_urls', q.option_image_urls
-      ) order by q.order_index nulls last, q.created_at), '[]'::jsonb)
-      from public.questions q where q.exam_id = v_row.exam_id
+        'option_image_urls', q.option_image_urls,
+        'revision', q.revision
+      ) order by q.pool_position nulls first, q.order_index nulls last, q.created_at), '[]'::jsonb)
+      from public.attempt_questions(p_attempt_id) q
     )
   );
 
+  -- Sectioned exams: per-section status and remaining time, clamped at zero
+  v_json := v_json || jsonb_build_object(
+    'sections', (
+      select coalesce(jsonb_agg(jsonb_build_object(
+        'index', s.section_index,
+        'id', s.section_id,
+        'title', s.title,
+        'instructions', s.instructions,
+        'duration_minutes', s.duration_minutes,
+        'question_ids', to_jsonb(s.question_ids),
+        'status', st.status,
+        'remaining_seconds', case when st.remaining_seconds is null then null else greatest(0, st.remaining_seconds) end
+      ) order by s.section_index), '[]'::jsonb)
+      from public.attempt_sections(p_attempt_id) s
+      join public.attempt_section_status(p_attempt_id) st on st.section_index = s.section_index
+    ),
+    'current_section', case
+      when exists (select 1 from public.attempt_sections(p_attempt_id))
+        then coalesce((v_row.section_state->>'current')::int, 0)
+    end
+  );
+
   return v_json;
 END;
 $function$;
@@ -246,14 +833,30 @@ CREATE OR REPLACE FUNCTION public.save_attempt(p_attempt_id uuid, p_answers json
 AS $function$
 DECLARE
   v_row public.exam_attempts%rowtype;
+  v_answers jsonb := coalesce(p_answers, '{}'::jsonb);
+  v_writable text[];
 BEGIN
   select * into v_row from public.exam_attempts where id=p_attempt_id for update;
   if not found then raise exception 'attempt_not_found'; end if;
   if v_row.submitted_at is not null or v_row.completion_status='submitted' then raise exception 'attempt_already_submitted'; end if;
+  if v_row.paused_at is not null then raise exception 'attempt_paused'; end if;
   if v_row.version <> p_expected_version then raise exception 'version_mismatch'; end if;
 
+  -- Sectioned exams only take answers for the current section while its time lasts
+  -- (plus a short grace for the save sent as the section timer runs out); the rest keep their stored value
+  if exists (select 1 from public.attempt_sections(p_attempt_id)) then
+    select coalesce(array(select unnest(s.question_ids)::text), '{}') into v_writable
+    from public.attempt_sections(p_attempt_id) s
+    join public.attempt_section_status(p_attempt_id) st on st.section_index = s.section_index
+    where s.section_index = coalesce((v_row.section_state->>'current')::int, 0)
+      and (st.status = 'active' or st.remaining_seconds > -15);
+    v_writable := coalesce(v_writable, '{}');
+    v_answers := (coalesce(v_row.answers, '{}'::jsonb) - v_writable)
+      || coalesce((select jsonb_object_agg(key, value) from jsonb_each(v_answers) where key = any(v_writable)), '{}'::jsonb);
+  end if;
+
   update public.exam_attempts
-  set answers = coalesce(p_answers, '{}'::jsonb),
+  set answers = v_answers,
       auto_save_data = coalesce(p_auto_save_data, '{}'::jsonb),
       version = v_row.version + 1,
       updated_at = now()
@@ -263,6 +866,380 @@ BEGIN
 END;
 $function$;
 
+-- advance_section(uuid,int) -> jsonb (attempt state)
+-- Moves a sectioned attempt to section p_target. Time spent in the section being left is banked;
+-- unless exams.settings.allow_section_return is set, that section closes for good. Forward moves
+-- are one section at a time past the furthest section reached.
+CREATE OR REPLACE FUNCTION public.advance_section(p_attempt_id uuid, p_target integer)
+ RETURNS jsonb
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO public, extensions
+AS $function$
+DECLARE
+  v_row public.exam_attempts%rowtype;
+  v_state jsonb;
+  v_count integer;
+  v_current integer;
+  v_reached integer;
+  v_allow boolean;
+  v_status text;
+  v_used numeric;
+BEGIN
+  select * into v_row from public.exam_attempts where id=p_attempt_id for update;
+  if not found then raise exception 'attempt_not_found'; end if;
+  if v_row.submitted_at is not null or v_row.completion_status='submitted' then raise exception 'attempt_already_submitted'; end if;
+
+  if v_row.paused_at is not null then raise exception 'attempt_paused'; end if;
+
+  select count(*) into v_count from public.attempt_sections(p_attempt_id);
+  if v_count = 0 then raise exception 'exam_not_sectioned'; end if;
+  if p_target is null or p_target < 0 or p_target >= v_count then raise exception 'invalid_section'; end if;
+
+  v_state := coalesce(v_row.section_state, jsonb_build_object('current', 0, 'entered_at', v_row.started_at));
+  v_current := coalesce((v_state->>'current')::int, 0);
+  v_reached := greatest(coalesce((v_state->>'reached')::int, 0), v_current);
+  if p_target = v_current then return public.get_attempt_state(p_attempt_id); end if;
+
+  select coalesce((e.settings->>'allow_section_return')::boolean, false) into v_allow
+  from public.exams e where e.id = v_row.exam_id;
+  if p_target > v_reached + 1 or (p_target < v_current and not v_allow) then
+    raise exception 'section_locked';
+  end if;
+
+  select s.status into v_status from public.attempt_section_status(p_attempt_id) s where s.section_index = p_target;
+  if v_status = 'closed' then raise exception 'section_closed'; end if;
+
+  v_used := coalesce((v_state->'used'->>v_current::text)::numeric, 0)
+          + greatest(0, extract(epoch from now() - (v_state->>'entered_at')::timestamptz));
+  v_state := v_state || jsonb_build_object(
+    'used', coalesce(v_state->'used', '{}'::jsonb) || jsonb_build_object(v_current::text, round(v_used)),
+    'current', p_target,
+    'entered_at', now(),
+    'reached', greatest(v_reached, p_target)
+  );
+  if not v_allow then
+    v_state := v_state || jsonb_build_object('closed', coalesce(v_state->'closed', '[]'::jsonb) || to_jsonb(v_current));
+  end if;
+
+  update public.exam_attempts
+  set section_state = v_state,
+      updated_at = now()
+  where id = p_attempt_id;
+
+  return public.get_attempt_state(p_attempt_id);
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.advance_section(uuid, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.advance_section(uuid, integer) TO service_role;
+
+-- extend_attempt(uuid,int) -> table(extra_minutes int, deadline_at timestamptz)
+-- Adds minutes to an in-progress attempt; the student's timer picks it up over SSE.
+CREATE OR REPLACE FUNCTION public.extend_attempt(p_attempt_id uuid, p_minutes integer)
+ RETURNS TABLE(extra_minutes integer, deadline_at timestamptz)
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO public, extensions
+AS $function$
+DECLARE
+  v_row public.exam_attempts%rowtype;
+BEGIN
+  if p_minutes is null or p_minutes < 1 or p_minutes > 600 then raise exception 'invalid_minutes'; end if;
+  select * into v_row from public.exam_attempts where id=p_attempt_id for update;
+  if not found then raise exception 'attempt_not_found'; end if;
+  if v_row.submitted_at is not null or v_row.completion_status='submitted' then raise exception 'attempt_already_submitted'; end if;
+
+  update public.exam_attempts a
+  set extra_minutes = coalesce(a.extra_minutes, 0) + p_minutes,
+      updated_at = now()
+  where a.id = p_attempt_id;
+
+  return query select coalesce(v_row.extra_minutes, 0) + p_minutes, public.attempt_deadline(p_attempt_id);
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.extend_attempt(uuid, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.extend_attempt(uuid, integer) TO service_role;
+
+-- proctor_attempt(uuid,text,text,uuid) -> table(action_id bigint, completion_status text, paused_at timestamptz)
+-- Applies a proctor action to an in-progress attempt and records it in proctor_actions, where the
+-- attempt's SSE stream picks it up. Resuming credits the paused time back as extra minutes and moves
+-- the current section's clock forward by the same amount.
+CREATE OR REPLACE FUNCTION public.proctor_attempt(p_attempt_id uuid, p_action text, p_message text, p_admin_id uuid)
+ RETURNS TABLE(action_id bigint, completion_status text, paused_at timestamptz)
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO public, extensions
+AS $function$
+DECLARE
+  v_row public.exam_attempts%rowtype;
+  v_paused interval;
+  v_message text := nullif(btrim(p_message), '');
+  v_action_id bigint;
+BEGIN
+  if p_action is null or p_action not in ('force_submit', 'pause', 'resume', 'invalidate', 'message') then
+    raise exception 'invalid_action';
+  end if;
+  select * into v_row from public.exam_attempts a where a.id=p_attempt_id for update;
+  if not found then raise exception 'attempt_not_found'; end if;
+  if v_row.submitted_at is not null or v_row.completion_status <> 'in_progress' then raise exception 'attempt_already_submitted'; end if;
+
+  if p_action = 'pause' and v_row.paused_at is not null then raise exception 'attempt_already_paused'; end if;
+  if p_action = 'resume' and v_row.paused_at is null then raise exception 'attempt_not_paused'; end if;
+  if p_action = 'message' and v_message is null then raise exception 'message_required'; end if;
+
+  -- Any end of a pause gives the student the paused time back
+  if v_row.paused_at is not null and p_action in ('resume', 'force_submit', 'invalidate') then
+    v_paused := now() - v_row.paused_at;
+    update public.exam_attempts a
+    set paused_at = null,
+        extra_minutes = coalesce(a.extra_minutes, 0) + ceil(extract(epoch from v_paused) / 60)::int,
+        section_state = case
+          when a.section_state ? 'entered_at'
+            then jsonb_set(a.section_state, '{entered_at}', to_jsonb((a.section_state->>'entered_at')::timestamptz + v_paused))
+          else a.section_state
+        end,
+        updated_at = now()
+    where a.id = p_attempt_id;
+  end if;
+
+  if p_action = 'pause' then
+    update public.exam_attempts a set paused_at = now(), updated_at = now() where a.id = p_attempt_id;
+  elsif p_action = 'force_submit' then
+    perform * from public.submit_attempt(p_attempt_id);
+    update public.student_exam_attempts sea
+      set completed_at = now(), status = 'completed'
+      where sea.attempt_id = p_attempt_id and sea.completed_at is null;
+  elsif p_action = 'invalidate' then
+    update public.exam_attempts a
+    set completion_status = 'invalid', submitted_at = now(), updated_at = now()
+    where a.id = p_attempt_id;
+    update public.student_exam_attempts sea
+      set completed_at = now(), status = 'invalid'
+      where sea.attempt_id = p_attempt_id and sea.completed_at is null;
+  end if;
+
+  insert into public.proctor_actions(attempt_id, action, message, created_by)
+  values (p_attempt_id, p_action, v_message, p_admin_id)
+  returning id into v_action_id;
+
+  return query
+    select v_action_id, a.completion_status, a.paused_at
+    from public.exam_attempts a where a.id = p_attempt_id;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.proctor_attempt(uuid, text, text, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.proctor_attempt(uuid, text, text, uuid) TO service_role;
+
+-- record_attempt_ip(uuid,inet) -> void
+-- Notes the address an attempt is saved from; a change is logged as an ip_changed activity event.
+CREATE OR REPLACE FUNCTION public.record_attempt_ip(p_attempt_id uuid, p_ip inet)
+ RETURNS void
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO public, extensions
+AS $function$
+DECLARE
+  v_previous inet;
+BEGIN
+  if p_ip is null then return; end if;
+  select coalesce(a.last_ip, a.ip_address) into v_previous from public.exam_attempts a where a.id = p_attempt_id;
+  if not found or v_previous is not distinct from p_ip then return; end if;
+
+  update public.exam_attempts set last_ip = p_ip where id = p_attempt_id;
+  if v_previous is not null then
+    insert into public.attempt_activity_events(attempt_id, event_type, event_time, payload)
+    values (p_attempt_id, 'ip_changed', now(), jsonb_build_object('from', host(v_previous), 'to', host(p_ip)));
+  end if;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.record_attempt_ip(uuid, inet) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_attempt_ip(uuid, inet) TO service_role;
+
+-- record_lockdown_violation(uuid,text) -> table(violations int, max_violations int, action_taken text)
+-- Logs a lockdown violation (leaving full screen, hiding the tab, navigating away) as an activity event.
+-- Once the exam's settings.lockdown.max_violations is reached, on_limit decides what happens: 'warn' only
+-- reports the count, 'pause' pauses the attempt for a proctor to resume, 'submit' submits it. Both go
+-- through proctor_attempt so the student's SSE stream and the proctor console see them.
+CREATE OR REPLACE FUNCTION public.record_lockdown_violation(p_attempt_id uuid, p_kind text)
+ RETURNS TABLE(violations integer, max_violations integer, action_taken text)
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO public, extensions
+AS $function$
+DECLARE
+  v_row public.exam_attempts%rowtype;
+  v_lockdown jsonb;
+  v_count integer;
+  v_max integer;
+  v_on_limit text;
+  v_action text := null;
+BEGIN
+  select * into v_row from public.exam_attempts a where a.id = p_attempt_id for update;
+  if not found then raise exception 'attempt_not_found'; end if;
+  if v_row.submitted_at is not null or v_row.completion_status <> 'in_progress' then raise exception 'attempt_already_submitted'; end if;
+
+  select coalesce(e.settings->'lockdown', '{}'::jsonb) into v_lockdown from public.exams e where e.id = v_row.exam_id;
+  if not coalesce((v_lockdown->>'enabled')::boolean, false) then raise exception 'lockdown_not_enabled'; end if;
+  v_max := greatest(1, coalesce(nullif(v_lockdown->>'max_violations', '')::int, 3));
+  v_on_limit := coalesce(v_lockdown->>'on_limit', 'warn');
+
+  insert into public.attempt_activity_events(attempt_id, event_type, event_time, payload)
+  values (p_attempt_id, 'lockdown_violation', now(), jsonb_build_object('kind', coalesce(nullif(btrim(p_kind), ''), 'unknown')));
+
+  select count(*)::int into v_count
+  from public.attempt_activity_events ev
+  where ev.attempt_id = p_attempt_id and ev.event_type = 'lockdown_violation';
+
+  if v_count >= v_max then
+    if v_on_limit = 'pause' and v_row.paused_at is null then
+      perform * from public.proctor_attempt(p_attempt_id, 'pause', null, null);
+      v_action := 'pause';
+    elsif v_on_limit = 'submit' then
+      perform * from public.proctor_attempt(p_attempt_id, 'force_submit', null, null);
+      v_action := 'submit';
+    end if;
+  end if;
+
+  return query select v_count, v_max, v_action;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.record_lockdown_violation(uuid, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_lockdown_violation(uuid, text) TO service_role;
+
+-- draw_pool_questions(jsonb,text) -> uuid[]
+-- Draws a per-attempt subset of pool questions according to settings.question_pool:
+--   { enabled, pool_ids[], question_count, tags[], balance_by_difficulty, difficulty_distribution{easy,medium,hard} }
+-- The draw is deterministic for a given seed so an attempt can always be reproduced.
+-- Returns NULL when the exam does not draw from pools.
+CREATE OR REPLACE FUNCTION public.draw_pool_questions(p_settings jsonb, p_seed text)
+ RETURNS uuid[]
+ LANGUAGE plpgsql
+ STABLE
+ SECURITY DEFINER
+ SET search_path TO public, extensions
+AS $function$
+DECLARE
+  v_cfg jsonb := p_settings->'question_pool';
+  v_count int;
+  v_pool_ids uuid[];
+  v_tags text[];
+  v_dist jsonb;
+  v_ids uuid[];
+BEGIN
+  if v_cfg is null or jsonb_typeof(v_cfg) <> 'object' or not coalesce((v_cfg->>'enabled')::boolean, false) then
+    return null;
+  end if;
+
+  v_count := coalesce((v_cfg->>'question_count')::int, 0);
+  if v_count <= 0 then
+    return null;
+  end if;
+
+  select coalesce(array_agg(x::uuid), array[]::uuid[]) into v_pool_ids
+  from jsonb_array_elements_text(coalesce(v_cfg->'pool_ids', '[]'::jsonb)) as x;
+  select coalesce(array_agg(x), array[]::text[]) into v_tags
+  from jsonb_array_elements_text(coalesce(v_cfg->'tags', '[]'::jsonb)) as x;
+
+  v_dist := v_cfg->'difficulty_distribution';
+  if v_dist is not null and jsonb_typeof(v_dist) <> 'object' then
+    v_dist := null;
+  end if;
+  -- Balanced draw without explicit quotas: split evenly, remainder goes to medium then easy
+  if v_dist is null and coalesce((v_cfg->>'balance_by_difficulty')::boolean, false) then
+    v_dist := jsonb_build_object(
+      'easy', v_count / 3 + case when v_count % 3 = 2 then 1 else 0 end,
+      'medium', v_count / 3 + case when v_count % 3 >= 1 then 1 else 0 end,
+      'hard', v_count / 3
+    );
+  end if;
+
+  -- Questions inside their difficulty quota are picked first; any shortfall is
+  -- topped up from the remaining eligible questions in seeded order.
+  with eligible as (
+    select q.id,
+           coalesce(q.difficulty, 'medium') as difficulty,
+           md5(p_seed || ':' || q.id::text) as draw_key
+    from public.questions q
+    where q.pool_id = any(v_pool_ids)
+      and (cardinality(v_tags) = 0 or q.tags && v_tags)
+  ),
+  ranked as (
+    select e.id, e.draw_key,
+           case
+             when v_dist is null then false
+             else row_number() over (partition by e.difficulty order by e.draw_key)
+                  <= coalesce((v_dist->>e.difficulty)::int, 0)
+           end as in_quota
+    from eligible e
+  ),
+  picked as (
+    select r.id, r.draw_key
+    from ranked r
+    order by r.in_quota desc, r.draw_key
+    limit v_count
+  )
+  select array_agg(p.id order by p.draw_key) into v_ids from picked p;
+
+  return coalesce(v_ids, array[]::uuid[]);
+END;
+$function$;
+
+-- student_attempts_remaining(uuid,uuid) -> attempts a student may still start on an exam; null when unlimited.
+-- exams.settings.attempt_limit defaults to 1 (0 = unlimited), plus any granted in student_exam_extra_attempts.
+-- Mirrored by parseAttemptPolicy in src/lib/attemptPolicy.ts; keep both in sync.
+CREATE OR REPLACE FUNCTION public.student_attempts_remaining(p_exam_id uuid, p_student_id uuid)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO public, extensions
+AS $function$
+  SELECT CASE
+    WHEN coalesce((e.settings->>'attempt_limit')::int, 1) = 0 THEN NULL
+    ELSE greatest(0,
+      coalesce((e.settings->>'attempt_limit')::int, 1)
+      + coalesce((
+          SELECT x.extra_attempts FROM public.student_exam_extra_attempts x
+          WHERE x.student_id = p_student_id AND x.exam_id = p_exam_id
+        ), 0)
+      - (
+          SELECT count(*)::int FROM public.student_exam_attempts sea
+          WHERE sea.student_id = p_student_id AND sea.exam_id = p_exam_id
+        ))
+  END
+  FROM public.exams e
+  WHERE e.id = p_exam_id;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.student_attempts_remaining(uuid, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.student_attempts_remaining(uuid, uuid) TO service_role;
+
+-- student_assigned_to_exam(uuid,uuid) -> whether a student may take an exam: exams without
+-- assigned groups (exam_groups) are open to every student, otherwise only to group members.
+CREATE OR REPLACE FUNCTION public.student_assigned_to_exam(p_exam_id uuid, p_student_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO public, extensions
+AS $function$
+  SELECT NOT EXISTS (SELECT 1 FROM public.exam_groups eg WHERE eg.exam_id = p_exam_id)
+      OR EXISTS (
+        SELECT 1
+        FROM public.exam_groups eg
+        JOIN public.student_group_members m ON m.group_id = eg.group_id
+        WHERE eg.exam_id = p_exam_id AND m.student_id = p_student_id
+      );
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.student_assigned_to_exam(uuid, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.student_assigned_to_exam(uuid, uuid) TO service_role;
+
 -- start_attempt(uuid,text,text,inet) -> table(attempt_id uuid, seed text)
 CREATE OR REPLACE FUNCTION public.start_attempt(p_exam_id uuid, p_code text, p_student_name text, p_ip inet)
  RETURNS TABLE(attempt_id uuid, seed text)
@@ -276,8 +1253,11 @@ DECLARE
   v_attempt_id uuid;
   v_seed text;
   v_attempt_limit int;
+  v_remaining int;
+  v_cooldown int;
   v_clean_name text;
   v_clean_norm text;
+  v_pool_question_ids uuid[];
 BEGIN
   select * into v_exam from public.exams e where e.id = p_exam_id;
   if not found then
@@ -296,6 +1276,7 @@ BEGIN
   end if;
 
   v_attempt_limit := coalesce((v_exam.settings->>'attempt_limit')::int, 1);
+  v_cooldown := coalesce((v_exam.settings->>'attempt_cooldown_minutes')::int, 0);
 
   if v_exam.access_type = 'code_based' then
     if p_code is null then
@@ -305,14 +1286,25 @@ BEGIN
     if not found then
       raise exception 'invalid_code';
     end if;
+    if not public.student_assigned_to_exam(p_exam_id, v_student.id) then
+      raise exception 'exam_not_assigned';
+    end if;
     -- Lock on (exam_id, student_id) to avoid race conditions starting multiple attempts
     PERFORM pg_advisory_xact_lock(hashtext(p_exam_id::text), hashtext(v_student.id::text));
-    -- Ensure no prior attempt exists for this student in this exam
-    if exists (
-      select 1 from public.student_exam_attempts sea
-      where sea.exam_id = p_exam_id and sea.student_id = v_student.id
+    -- Enforce the student's attempt allowance (attempt_limit plus any granted attempts)
+    v_remaining := public.student_attempts_remaining(p_exam_id, v_student.id);
+    if v_remaining is not null and v_remaining <= 0 then
+      if v_attempt_limit = 1 then
+        raise exception 'code_already_used';
+      end if;
+      raise exception 'attempt_limit_reached';
+    end if;
+    if v_cooldown > 0 and exists (
+      select 1 from public.exam_attempts a
+      where a.exam_id = p_exam_id and a.student_id = v_student.id
+        and coalesce(a.submitted_at, a.started_at) > now() - make_interval(mins => v_cooldown)
     ) then
-      raise exception 'code_already_used';
+      raise exception 'attempt_cooldown';
     end if;
   end if;
 
@@ -327,7 +1319,7 @@ BEGIN
   end if;
 
   -- Attempt limiting
-  -- code_based: no IP-based limiting (each code limited via student_exam_attempts)
+  -- code_based: no IP-based limiting (each student limited via student_attempts_remaining above)
   -- ip_restricted/open: enforce per-IP-per-exam using attempt_limit from settings
   if v_attempt_limit > 0 then
     if v_exam.access_type in ('ip_restricted','open') then
@@ -342,6 +1334,13 @@ BEGIN
       end if;
     end if;
   end if;
+  if v_cooldown > 0 and v_exam.access_type in ('ip_restricted','open') and exists (
+    select 1 from public.exam_attempts a
+    where a.exam_id = p_exam_id and a.ip_address = p_ip
+      and coalesce(a.submitted_at, a.started_at) > now() - make_interval(mins => v_cooldown)
+  ) then
+    raise exception 'attempt_cooldown';
+  end if;
 
   -- IP rules
   if exists (select 1 from public.exam_ips ip where ip.exam_id = p_exam_id and ip.rule_type='whitelist') then
@@ -355,8 +1354,9 @@ BEGIN
 
   v_seed := encode(gen_random_bytes(16), 'hex');
   v_attempt_id := gen_random_uuid();
+  v_pool_question_ids := public.draw_pool_questions(v_exam.settings, v_seed);
 
-  insert into public.exam_attempts(id, exam_id, student_id, ip_address, student_name, answers, auto_save_data, completion_status, version)
+  insert into public.exam_attempts(id, exam_id, student_id, ip_address, student_name, answers, auto_save_data, completion_status, version, pool_question_ids, question_revisions)
   values(
     v_attempt_id,
     p_exam_id,
@@ -366,7 +1366,14 @@ BEGIN
     '{}'::jsonb,
     jsonb_build_object('seed', v_seed, 'progress', jsonb_build_object('answered',0,'total',0)),
     'in_progress',
-    1
+    1,
+    v_pool_question_ids,
+    (
+      select coalesce(jsonb_object_agg(q.id::text, q.revision), '{}'::jsonb)
+      from public.questions q
+      where q.exam_id = p_exam_id
+         or q.id = any(coalesce(v_pool_question_ids, array[]::uuid[]))
+    )
   );
 
   if v_exam.access_type='code_based' then
@@ -378,17 +1385,49 @@ BEGIN
 END;
 $function$;
 
--- Compatibility wrapper: start_attempt_v2 delegates to start_attempt
--- Ensures API calling start_attempt_v2 uses the same per-exam attempt limiting and IP rules
+-- start_attempt_v2 runs start_attempt and opens a student session on the attempt.
+-- A code-based student re-entering while their attempt is still running gets that
+-- attempt back with a fresh session; the previous session stops working.
+DROP FUNCTION IF EXISTS public.start_attempt_v2(uuid, text, text, inet);
 CREATE OR REPLACE FUNCTION public.start_attempt_v2(p_exam_id uuid, p_code text, p_student_name text, p_ip inet)
- RETURNS TABLE(attempt_id uuid, seed text)
+ RETURNS TABLE(attempt_id uuid, seed text, session_id uuid, bind_device boolean)
  LANGUAGE plpgsql
  SECURITY DEFINER
  SET search_path TO public, extensions
 AS $function$
+DECLARE
+  v_exam public.exams%rowtype;
+  v_attempt_id uuid;
+  v_seed text;
+  v_session uuid := gen_random_uuid();
 BEGIN
-  -- Delegate to the primary implementation
-  RETURN QUERY SELECT * FROM public.start_attempt(p_exam_id, p_code, p_student_name, p_ip);
+  select * into v_exam from public.exams e where e.id = p_exam_id;
+  if not found then
+    raise exception 'exam_not_found';
+  end if;
+
+  if v_exam.access_type = 'code_based' and p_code is not null then
+    select a.id, a.auto_save_data->>'seed' into v_attempt_id, v_seed
+    from public.exam_attempts a
+    join public.students s on s.id = a.student_id
+    where a.exam_id = p_exam_id
+      and s.code = p_code
+      and a.completion_status = 'in_progress'
+      and a.submitted_at is null
+      and (public.attempt_deadline(a.id) is null or now() < public.attempt_deadline(a.id))
+    order by a.started_at desc
+    limit 1;
+  end if;
+
+  if v_attempt_id is null then
+    select s.attempt_id, s.seed into v_attempt_id, v_seed
+    from public.start_attempt(p_exam_id, p_code, p_student_name, p_ip) s;
+  end if;
+
+  update public.exam_attempts set session_id = v_session where id = v_attempt_id;
+
+  return query select v_attempt_id, v_seed, v_session,
+    coalesce((v_exam.settings->>'bind_device')::boolean, false);
 END;
 $function$;
 
@@ -424,52 +1463,64 @@ BEGIN
 END;
 $function$;
 
--- cleanup_expired_attempts() -> auto-submit expired in-progress attempts
-CREATE OR REPLACE FUNCTION public.cleanup_expired_attempts()
- RETURNS TABLE(auto_submitted_count integer)
+-- auto_submit_expired_attempts() -> table(attempt_id uuid, exam_id uuid)
+-- Submits and grades every in-progress attempt past its deadline (duration or exam end_time, plus any
+-- extra time) and returns the ones it submitted, so the exam scheduler can audit each.
+CREATE OR REPLACE FUNCTION public.auto_submit_expired_attempts()
+ RETURNS TABLE(attempt_id uuid, exam_id uuid)
  LANGUAGE plpgsql
  SECURITY DEFINER
  SET search_path TO public, extensions
 AS $function$
 DECLARE
-  v_id uuid;
-  v_count integer := 0;
+  v_row record;
 BEGIN
-  -- Iterate over all attempts that have expired by duration or exam end_time
-  FOR v_id IN
-    SELECT a.id
+  FOR v_row IN
+    SELECT a.id, a.exam_id
     FROM public.exam_attempts a
-    JOIN public.exams e ON e.id = a.exam_id
     WHERE a.submitted_at IS NULL
       AND a.completion_status = 'in_progress'
-      AND (
-        (e.duration_minutes IS NOT NULL AND now() >= a.started_at + make_interval(mins => e.duration_minutes))
-        OR (e.end_time IS NOT NULL AND now() >= e.end_time)
-      )
+      AND a.paused_at IS NULL
+      AND now() >= public.attempt_deadline(a.id)
   LOOP
     BEGIN
       -- Use existing grading + submission logic
-      PERFORM * FROM public.submit_attempt(v_id);
-      v_count := v_count + 1;
+      PERFORM * FROM public.submit_attempt(v_row.id);
 
       -- Update per-exam tracking if present
-      UPDATE public.student_exam_attempts
+      UPDATE public.student_exam_attempts sea
         SET completed_at = now(), status = 'completed'
-        WHERE attempt_id = v_id AND completed_at IS NULL;
+        WHERE sea.attempt_id = v_row.id AND sea.completed_at IS NULL;
+
+      attempt_id := v_row.id;
+      exam_id := v_row.exam_id;
+      RETURN NEXT;
     EXCEPTION WHEN others THEN
       -- Ignore races (e.g., attempt already submitted) and continue
       CONTINUE;
     END;
   END LOOP;
+END;
+$function$;
 
-  RETURN QUERY SELECT v_count;
+-- cleanup_expired_attempts() -> auto-submit expired in-progress attempts
+CREATE OR REPLACE FUNCTION public.cleanup_expired_attempts()
+ RETURNS TABLE(auto_submitted_count integer)
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO public, extensions
+AS $function$
+BEGIN
+  RETURN QUERY SELECT count(*)::int FROM public.auto_submit_expired_attempts();
 END;
 $function$;
 
+DROP FUNCTION IF EXISTS public.admin_list_attempts(uuid);
 CREATE OR REPLACE FUNCTION public.admin_list_attempts(p_exam_id uuid)
 RETURNS TABLE (
   id uuid,
   exam_id uuid,
+  student_id uuid,
   started_at timestamptz,
   submitted_at timestamptz,
   completion_status text,
@@ -490,6 +1541,7 @@ BEGIN
   RETURN QUERY
   SELECT a.id,
          a.exam_id,
+         a.student_id,
          a.started_at,
          a.submitted_at,
          a.completion_status,
@@ -505,14 +1557,24 @@ BEGIN
 END;
 $function$;
 
--- Grants (RPCs are called by anon or service role depending on server config)
-grant execute on function public.get_attempt_state(uuid) to anon, authenticated;
-grant execute on function public.save_attempt(uuid, jsonb, jsonb, integer) to anon, authenticated;
-grant execute on function public.start_attempt(uuid, text, text, inet) to anon, authenticated;
-grant execute on function public.start_attempt_v2(uuid, text, text, inet) to anon, authenticated;
-grant execute on function public.submit_attempt(uuid) to anon, authenticated;
+-- Grants. Attempt RPCs run only behind the API routes, which check the attempt session cookie;
+-- the anon key is public, so direct PostgREST calls must not reach them.
+REVOKE EXECUTE ON FUNCTION public.get_attempt_state(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.save_attempt(uuid, jsonb, jsonb, integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.start_attempt(uuid, text, text, inet) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.start_attempt_v2(uuid, text, text, inet) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.submit_attempt(uuid) FROM PUBLIC, anon, authenticated;
+grant execute on function public.get_attempt_state(uuid) to service_role;
+grant execute on function public.save_attempt(uuid, jsonb, jsonb, integer) to service_role;
+grant execute on function public.start_attempt(uuid, text, text, inet) to service_role;
+grant execute on function public.start_attempt_v2(uuid, text, text, inet) to service_role;
+grant execute on function public.submit_attempt(uuid) to service_role;
 grant execute on function public.admin_list_attempts(uuid) to service_role;
+REVOKE EXECUTE ON FUNCTION public.auto_submit_expired_attempts() FROM PUBLIC, anon, authenticated;
+grant execute on function public.auto_submit_expired_attempts() to service_role;
 grant execute on function public.cleanup_expired_attempts() to service_role;
+REVOKE EXECUTE ON FUNCTION public.draw_pool_questions(jsonb, text) FROM PUBLIC, anon, authenticated;
+grant execute on function public.draw_pool_questions(jsonb, text) to service_role;
 
 -- Regrade a single attempt (admin only), returns recalculated values
 CREATE OR REPLACE FUNCTION public.regrade_attempt(p_attempt_id uuid)
@@ -533,6 +1595,7 @@ DECLARE
   v_old_score numeric;
   v_old_final numeric;
   v_res record;
+  v_meta jsonb;
 BEGIN
   IF NOT public.is_admin() THEN RAISE EXCEPTION 'forbidden'; END IF;
 
@@ -543,13 +1606,21 @@ BEGIN
 
   SELECT * INTO v_res FROM public.calculate_result_for_attempt(p_attempt_id);
 
+  -- Record which question revisions the new score was computed against
+  SELECT jsonb_build_object(
+           'question_revisions', COALESCE(a.question_revisions, '{}'::jsonb),
+           'key_revisions', a.key_revisions
+         )
+  INTO v_meta
+  FROM public.exam_attempts a WHERE a.id = p_attempt_id;
+
   INSERT INTO public.exam_results_history(
     attempt_id, old_score_percentage, new_score_percentage,
     old_final_score_percentage, new_final_score_percentage, meta, changed_at
   )
   VALUES (
     p_attempt_id, v_old_score, v_res.score_percentage,
-    v_old_final, v_res.final_score_percentage, '{}'::jsonb, now()
+    v_old_final, v_res.final_score_percentage, COALESCE(v_meta, '{}'::jsonb), now()
   );
 
   RETURN QUERY SELECT v_res.total_questions, v_res.correct_count, v_res.score_percentage, v_res.auto_points, v_res.manual_points, v_res.max_points, v_res.final_score_percentage;
@@ -558,8 +1629,11 @@ $function$;
 
 GRANT EXECUTE ON FUNCTION public.regrade_attempt(uuid) TO service_role;
 
--- Regrade all attempts for an exam (admin only)
-CREATE OR REPLACE FUNCTION public.regrade_exam(p_exam_id uuid)
+-- Regrade all attempts for an exam (admin only).
+-- p_apply_latest = true grades every attempt against the current revision of each question
+-- (e.g. after fixing a wrong key); false grades against the revisions the students were shown.
+DROP FUNCTION IF EXISTS public.regrade_exam(uuid);
+CREATE OR REPLACE FUNCTION public.regrade_exam(p_exam_id uuid, p_apply_latest boolean DEFAULT false)
 RETURNS TABLE(regraded_count integer)
 LANGUAGE plpgsql
 SECURITY DEFINER
@@ -571,6 +1645,18 @@ DECLARE
 BEGIN
   IF NOT public.is_admin() THEN RAISE EXCEPTION 'forbidden'; END IF;
 
+  IF p_apply_latest THEN
+    UPDATE public.exam_attempts a
+      SET key_revisions = (
+        SELECT COALESCE(jsonb_object_agg(q.id::text, q.revision), '{}'::jsonb)
+        FROM public.questions q
+        WHERE q.exam_id = a.exam_id OR q.id = ANY(COALESCE(a.pool_question_ids, ARRAY[]::uuid[]))
+      )
+      WHERE a.exam_id = p_exam_id;
+  ELSE
+    UPDATE public.exam_attempts SET key_revisions = NULL WHERE exam_id = p_exam_id AND key_revisions IS NOT NULL;
+  END IF;
+
   FOR v_id IN SELECT id FROM public.exam_attempts WHERE exam_id = p_exam_id LOOP
     PERFORM * FROM public.regrade_attempt(v_id);
     v_count := v_count + 1;
@@ -580,48 +1666,204 @@ BEGIN
 END;
 $function$;
 
-GRANT EXECUTE ON FUNCTION public.regrade_exam(uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION public.regrade_exam(uuid, boolean) TO service_role;
 
 -- Admin management RPCs
--- Reset a student's attempts (admin only). This deletes rows from student_exam_attempts
--- so the student can retake exams. Historical exam_attempts and exam_results remain.
-CREATE OR REPLACE FUNCTION public.admin_reset_student_attempts(p_student_id uuid, p_exam_id uuid DEFAULT NULL)
- RETURNS TABLE(deleted_count integer)
+-- Grant a student one more attempt on an exam (admin only) on top of exams.settings.attempt_limit.
+-- Earlier attempts and their results stay in place and keep counting toward the official score.
+DROP FUNCTION IF EXISTS public.admin_reset_student_attempts(uuid, uuid);
+CREATE OR REPLACE FUNCTION public.admin_grant_student_attempt(p_student_id uuid, p_exam_id uuid)
+ RETURNS TABLE(extra_attempts integer, attempts_remaining integer)
  LANGUAGE plpgsql
  SECURITY DEFINER
  SET search_path TO public, extensions
 AS $function$
 DECLARE
-  v_deleted integer := 0;
+  v_extra integer;
 BEGIN
   IF NOT public.is_admin() THEN
     RAISE EXCEPTION 'forbidden';
   END IF;
 
-  IF p_student_id IS NULL THEN
+  IF p_student_id IS NULL OR NOT EXISTS (SELECT 1 FROM public.students s WHERE s.id = p_student_id) THEN
     RAISE EXCEPTION 'invalid_student_id';
   END IF;
+  IF p_exam_id IS NULL OR NOT EXISTS (SELECT 1 FROM public.exams e WHERE e.id = p_exam_id) THEN
+    RAISE EXCEPTION 'invalid_exam_id';
+  END IF;
 
-  IF p_exam_id IS NULL THEN
-    DELETE FROM public.student_exam_attempts
-    WHERE student_id = p_student_id;
-    GET DIAGNOSTICS v_deleted = ROW_COUNT;
-  ELSE
-    DELETE FROM public.student_exam_attempts
-    WHERE student_id = p_student_id AND exam_id = p_exam_id;
-    GET DIAGNOSTICS v_deleted = ROW_COUNT;
+  INSERT INTO public.student_exam_extra_attempts AS x (student_id, exam_id, extra_attempts)
+  VALUES (p_student_id, p_exam_id, 1)
+  ON CONFLICT (student_id, exam_id)
+  DO UPDATE SET extra_attempts = x.extra_attempts + 1, updated_at = now()
+  RETURNING x.extra_attempts INTO v_extra;
+
+  RETURN QUERY SELECT v_extra, public.student_attempts_remaining(p_exam_id, p_student_id);
+END;
+$function$;
+
+grant execute on function public.admin_grant_student_attempt(uuid, uuid) to service_role;
+
+-- admin_import_students(jsonb,jsonb,text,text,uuid) -> uuid
+-- Applies a planned student import in one transaction and records it as a batch. Creates are
+-- {code, student_name, mobile_number}; updates are {student_id, code?, student_name?, mobile_number?}
+-- where a missing field keeps the stored value. Returns the batch id.
+CREATE OR REPLACE FUNCTION public.admin_import_students(
+  p_creates jsonb,
+  p_updates jsonb,
+  p_match_on text,
+  p_file_name text,
+  p_admin_id uuid
+)
+ RETURNS uuid
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO public, extensions
+AS $function$
+DECLARE
+  v_batch uuid;
+  v_created integer;
+  v_updated integer;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'forbidden';
   END IF;
+  IF p_match_on IS NULL OR p_match_on NOT IN ('code', 'mobile_number') THEN
+    RAISE EXCEPTION 'invalid_match_on';
+  END IF;
+
+  INSERT INTO public.student_import_batches(file_name, match_on, created_by)
+  VALUES (nullif(btrim(p_file_name), ''), p_match_on, p_admin_id)
+  RETURNING id INTO v_batch;
 
-  RETURN QUERY SELECT v_deleted;
+  WITH ins AS (
+    INSERT INTO public.students(code, student_name, mobile_number)
+    SELECT x.code, x.student_name, x.mobile_number
+    FROM jsonb_to_recordset(coalesce(p_creates, '[]'::jsonb)) AS x(code text, student_name text, mobile_number text)
+    RETURNING id
+  )
+  INSERT INTO public.student_import_changes(batch_id, student_id, action)
+  SELECT v_batch, ins.id, 'create' FROM ins;
+  GET DIAGNOSTICS v_created = ROW_COUNT;
+
+  INSERT INTO public.student_import_changes(batch_id, student_id, action, previous)
+  SELECT v_batch, s.id, 'update',
+         jsonb_build_object('code', s.code, 'student_name', s.student_name, 'mobile_number', s.mobile_number)
+  FROM jsonb_to_recordset(coalesce(p_updates, '[]'::jsonb)) AS x(student_id uuid)
+  JOIN public.students s ON s.id = x.student_id;
+
+  UPDATE public.students s
+  SET code = coalesce(x.code, s.code),
+      student_name = coalesce(x.student_name, s.student_name),
+      mobile_number = coalesce(x.mobile_number, s.mobile_number)
+  FROM jsonb_to_recordset(coalesce(p_updates, '[]'::jsonb))
+    AS x(student_id uuid, code text, student_name text, mobile_number text)
+  WHERE s.id = x.student_id;
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+
+  UPDATE public.student_import_batches b
+  SET created_count = v_created, updated_count = v_updated
+  WHERE b.id = v_batch;
+
+  RETURN v_batch;
 END;
 $function$;
 
-grant execute on function public.admin_reset_student_attempts(uuid, uuid) to service_role;
-grant execute on function public.admin_reset_student_attempts(uuid, uuid) to anon, authenticated;
+grant execute on function public.admin_import_students(jsonb, jsonb, text, text, uuid) to service_role;
+
+-- admin_rollback_student_import(uuid,uuid) -> table(restored integer, deleted integer, kept integer)
+-- Undoes an import batch: updated students get their previous values back (a code taken since
+-- stays as is) and created students are deleted unless they have attempts, which are kept.
+CREATE OR REPLACE FUNCTION public.admin_rollback_student_import(p_batch_id uuid, p_admin_id uuid)
+ RETURNS TABLE(restored integer, deleted integer, kept integer)
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO public, extensions
+AS $function$
+DECLARE
+  v_batch public.student_import_batches%rowtype;
+  v_restored integer;
+  v_deleted integer;
+  v_created integer;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'forbidden';
+  END IF;
 
--- List admins (requires caller to be admin)
+  SELECT * INTO v_batch FROM public.student_import_batches b WHERE b.id = p_batch_id FOR UPDATE;
+  IF NOT FOUND THEN RAISE EXCEPTION 'batch_not_found'; END IF;
+  IF v_batch.rolled_back_at IS NOT NULL THEN RAISE EXCEPTION 'batch_already_rolled_back'; END IF;
+
+  UPDATE public.students s
+  SET code = CASE
+        WHEN EXISTS (SELECT 1 FROM public.students o WHERE o.code = c.previous->>'code' AND o.id <> s.id) THEN s.code
+        ELSE c.previous->>'code'
+      END,
+      student_name = c.previous->>'student_name',
+      mobile_number = c.previous->>'mobile_number'
+  FROM public.student_import_changes c
+  WHERE c.batch_id = p_batch_id AND c.action = 'update' AND s.id = c.student_id;
+  GET DIAGNOSTICS v_restored = ROW_COUNT;
+
+  SELECT count(*)::int INTO v_created
+  FROM public.student_import_changes c
+  JOIN public.students s ON s.id = c.student_id
+  WHERE c.batch_id = p_batch_id AND c.action = 'create';
+
+  DELETE FROM public.students s
+  USING public.student_import_changes c
+  WHERE c.batch_id = p_batch_id AND c.action = 'create' AND s.id = c.student_id
+    AND NOT EXISTS (SELECT 1 FROM public.exam_attempts a WHERE a.student_id = s.id);
+  GET DIAGNOSTICS v_deleted = ROW_COUNT;
+
+  UPDATE public.student_import_batches b
+  SET rolled_back_at = now(), rolled_back_by = p_admin_id
+  WHERE b.id = p_batch_id;
+
+  RETURN QUERY SELECT v_restored, v_deleted, v_created - v_deleted;
+END;
+$function$;
+
+grant execute on function public.admin_rollback_student_import(uuid, uuid) to service_role;
+
+-- claim_message_deliveries(integer) -> table(id bigint, recipient text, body text, attempts integer, channel text, subject text)
+-- Leases up to p_limit due deliveries to the caller for five minutes and counts the attempt.
+-- Deliveries left 'sending' by a pass that died become due again when the lease runs out.
+CREATE OR REPLACE FUNCTION public.claim_message_deliveries(p_limit integer)
+ RETURNS TABLE(id bigint, recipient text, body text, attempts integer, channel text, subject text)
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO public, extensions
+AS $function$
+BEGIN
+  RETURN QUERY
+  WITH due AS (
+    SELECT x.id FROM public.message_deliveries x
+    WHERE x.status IN ('pending', 'sending') AND x.next_attempt_at <= now()
+    ORDER BY x.next_attempt_at, x.id
+    LIMIT greatest(coalesce(p_limit, 50), 1)
+    FOR UPDATE SKIP LOCKED
+  ), claimed AS (
+    UPDATE public.message_deliveries d
+    SET status = 'sending', attempts = d.attempts + 1, next_attempt_at = now() + interval '5 minutes', updated_at = now()
+    FROM due
+    WHERE d.id = due.id
+    RETURNING d.id, d.job_id, d.recipient, d.body, d.attempts
+  )
+  SELECT c.id, c.recipient, c.body, c.attempts, j.channel, j.subject
+  FROM claimed c
+  JOIN public.message_jobs j ON j.id = c.job_id
+  ORDER BY c.id;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_message_deliveries(integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_message_deliveries(integer) TO service_role;
+
+-- List admins with their role (requires caller to be admin)
+DROP FUNCTION IF EXISTS public.admin_list_admins();
 CREATE OR REPLACE FUNCTION public.admin_list_admins()
- RETURNS TABLE(user_id uuid, username text, email text)
+ RETURNS TABLE(user_id uuid, username text, email text, role text, created_at timestamptz)
  LANGUAGE plpgsql
  SECURITY DEFINER
  SET search_path TO public, extensions
@@ -632,15 +1874,16 @@ BEGIN
   END IF;
 
   RETURN QUERY
-    SELECT au.user_id, u.username, au.email
+    SELECT au.user_id, u.username, au.email, au.role, au.created_at
     FROM public.admin_users au
     LEFT JOIN public.users u ON u.id = au.user_id
     ORDER BY coalesce(u.username, '') ASC, au.email NULLS LAST, au.user_id;
 END;
 $function$;
 
--- Add admin by email (requires caller to be admin). Finds the user in auth.users by email.
-CREATE OR REPLACE FUNCTION public.admin_add_admin_by_email(p_email text)
+-- Add admin by email with a role (requires caller to be admin). Finds or creates the user in public.users by email.
+DROP FUNCTION IF EXISTS public.admin_add_admin_by_email(text);
+CREATE OR REPLACE FUNCTION public.admin_add_admin_by_email(p_email text, p_role text DEFAULT 'super_admin')
  RETURNS TABLE(user_id uuid, email text)
  LANGUAGE plpgsql
  SECURITY DEFINER
@@ -658,6 +1901,9 @@ BEGIN
   IF v_email IS NULL OR v_email = '' THEN
     RAISE EXCEPTION 'invalid_email';
   END IF;
+  IF p_role IS NULL OR p_role NOT IN ('super_admin', 'exam_author', 'grader', 'proctor', 'viewer') THEN
+    RAISE EXCEPTION 'invalid_role';
+  END IF;
 
   -- Find or create a user by email in public.users
   SELECT u.id INTO v_uid
@@ -675,8 +1921,14 @@ BEGIN
     RAISE EXCEPTION 'user_create_failed';
   END IF;
 
-  INSERT INTO public.admin_users (user_id, email)
-  VALUES (v_uid, v_email)
+  -- Re-adding an existing admin must not change their role silently; admin_set_admin_role
+  -- does that and keeps the last super admin in place
+  IF EXISTS (SELECT 1 FROM public.admin_users au WHERE au.user_id = v_uid AND au.role <> p_role) THEN
+    RAISE EXCEPTION 'admin_exists: use admin_set_admin_role to change the role';
+  END IF;
+
+  INSERT INTO public.admin_users (user_id, email, role)
+  VALUES (v_uid, v_email, p_role)
   ON CONFLICT ON CONSTRAINT admin_users_pkey DO UPDATE SET email = EXCLUDED.email;
 
   RETURN QUERY SELECT v_uid, v_email;
@@ -733,19 +1985,62 @@ BEGIN
     RAISE EXCEPTION 'cannot_remove_last_admin';
   END IF;
 
+  -- Someone must still be able to manage admins afterwards
+  IF EXISTS (SELECT 1 FROM public.admin_users WHERE user_id = p_user_id AND role = 'super_admin')
+     AND (SELECT count(*) FROM public.admin_users WHERE role = 'super_admin') <= 1 THEN
+    RAISE EXCEPTION 'cannot_remove_last_super_admin';
+  END IF;
+
   DELETE FROM public.admin_users WHERE user_id = p_user_id;
 END;
 $function$;
 
+-- Change an admin's role (requires caller to be admin). Takes effect at their next login.
+CREATE OR REPLACE FUNCTION public.admin_set_admin_role(p_user_id uuid, p_role text)
+ RETURNS TABLE(user_id uuid, role text)
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO public, extensions
+AS $function$
+DECLARE
+  v_current text;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'forbidden';
+  END IF;
+
+  IF p_role IS NULL OR p_role NOT IN ('super_admin', 'exam_author', 'grader', 'proctor', 'viewer') THEN
+    RAISE EXCEPTION 'invalid_role';
+  END IF;
+
+  SELECT au.role INTO v_current FROM public.admin_users au WHERE au.user_id = p_user_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'admin_not_found';
+  END IF;
+
+  IF v_current = 'super_admin' AND p_role <> 'super_admin'
+     AND (SELECT count(*) FROM public.admin_users au WHERE au.role = 'super_admin') <= 1 THEN
+    RAISE EXCEPTION 'cannot_demote_last_super_admin';
+  END IF;
+
+  UPDATE public.admin_users au SET role = p_role WHERE au.user_id = p_user_id;
+
+  RETURN QUERY SELECT p_user_id, p_role;
+END;
+$function$;
+
 -- Grants for admin management RPCs
 grant execute on function public.admin_list_admins() to service_role;
-grant execute on function public.admin_add_admin_by_email(text) to service_role;
+grant execute on function public.admin_add_admin_by_email(text, text) to service_role;
+grant execute on function public.admin_set_admin_role(uuid, text) to service_role;
 grant execute on function public.admin_update_admin_email(uuid, text) to service_role;
 grant execute on function public.admin_remove_admin(uuid) to service_role;
 
--- Custom auth: login against public.users (username or email) using pgcrypto's crypt
+-- Custom auth: login against public.users (username or email) using pgcrypto's crypt.
+-- role is the admin_users role, null for non-admins.
+DROP FUNCTION IF EXISTS public.auth_login(text, text);
 CREATE OR REPLACE FUNCTION public.auth_login(p_identifier text, p_password text)
- RETURNS TABLE(user_id uuid, email text, username text, is_admin boolean)
+ RETURNS TABLE(user_id uuid, email text, username text, is_admin boolean, role text)
  LANGUAGE plpgsql
  SECURITY DEFINER
  SET search_path TO public, extensions
@@ -769,20 +2064,23 @@ BEGIN
 
   RETURN QUERY
   SELECT v_user.id, v_user.email, v_user.username,
-         EXISTS(SELECT 1 FROM public.admin_users au WHERE au.user_id = v_user.id);
+         EXISTS(SELECT 1 FROM public.admin_users au WHERE au.user_id = v_user.id),
+         (SELECT au.role FROM public.admin_users au WHERE au.user_id = v_user.id);
 END;
 $function$;
 
 grant execute on function public.auth_login(text, text) to service_role;
 
--- Create users with hashed passwords (admin only)
+-- Create users with hashed passwords (admin only); new admins get p_role
+DROP FUNCTION IF EXISTS public.admin_create_user(text, text, text, boolean);
 CREATE OR REPLACE FUNCTION public.admin_create_user(
   p_username text,
   p_email text,
   p_password text,
-  p_is_admin boolean DEFAULT false
+  p_is_admin boolean DEFAULT false,
+  p_role text DEFAULT 'viewer'
 )
-RETURNS TABLE(user_id uuid, username text, email text, is_admin boolean)
+RETURNS TABLE(user_id uuid, username text, email text, is_admin boolean, role text)
 LANGUAGE plpgsql
 SECURITY DEFINER
 SET search_path TO public, extensions
@@ -808,6 +2106,10 @@ BEGIN
     RAISE EXCEPTION 'weak_password';
   END IF;
 
+  IF p_is_admin AND (p_role IS NULL OR p_role NOT IN ('super_admin', 'exam_author', 'grader', 'proctor', 'viewer')) THEN
+    RAISE EXCEPTION 'invalid_role';
+  END IF;
+
   -- enforce uniqueness manually to provide clearer errors
   IF v_username IS NOT NULL AND EXISTS(SELECT 1 FROM public.users u WHERE lower(u.username) = lower(v_username)) THEN
     RAISE EXCEPTION 'duplicate_username';
@@ -823,12 +2125,12 @@ BEGIN
   RETURNING id INTO v_uid;
 
   IF p_is_admin THEN
-    INSERT INTO public.admin_users (user_id, email)
-    VALUES (v_uid, v_email)
+    INSERT INTO public.admin_users (user_id, email, role)
+    VALUES (v_uid, v_email, p_role)
     ON CONFLICT ON CONSTRAINT admin_users_pkey DO UPDATE SET email = EXCLUDED.email;
   END IF;
 
-  RETURN QUERY SELECT v_uid, v_username, v_email, p_is_admin;
+  RETURN QUERY SELECT v_uid, v_username, v_email, p_is_admin, CASE WHEN p_is_admin THEN p_role END;
 END;
 $function$;
 
@@ -856,5 +2158,5 @@ END;
 $function$;
 
 -- Grants
-grant execute on function public.admin_create_user(text, text, text, boolean) to service_role;
+grant execute on function public.admin_create_user(text, text, text, boolean, text) to service_role;
 grant execute on function public.admin_set_user_password(uuid, text) to service_role;
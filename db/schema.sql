@@ -48,6 +48,143 @@ do $$ begin
   end if;
 end $$;
 
+-- Per-question explanation, shown to students after they check an answer on a practice exam (idempotent)
+do $$ begin
+  if not exists (
+    select 1 from information_schema.columns
+    where table_schema = 'public' and table_name = 'questions' and column_name = 'explanation'
+  ) then
+    alter table public.questions add column explanation text null;
+  end if;
+end $$;
+
+-- Question pools: reusable banks of questions shared across exams
+create table if not exists public.question_pools (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  description text null,
+  category text null,
+  tags text[] not null default '{}',
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- Pool questions live in public.questions with pool_id set and exam_id null (idempotent)
+do $$ begin
+  if not exists (
+    select 1 from information_schema.columns
+    where table_schema = 'public' and table_name = 'questions' and column_name = 'pool_id'
+  ) then
+    alter table public.questions add column pool_id uuid null references public.question_pools(id) on delete cascade;
+  end if;
+  if not exists (
+    select 1 from information_schema.columns
+    where table_schema = 'public' and table_name = 'questions' and column_name = 'difficulty'
+  ) then
+    alter table public.questions add column difficulty text null check (difficulty in ('easy','medium','hard'));
+  end if;
+  if not exists (
+    select 1 from information_schema.columns
+    where table_schema = 'public' and table_name = 'questions' and column_name = 'tags'
+  ) then
+    alter table public.questions add column tags text[] not null default '{}';
+  end if;
+  alter table public.questions alter column exam_id drop not null;
+  if not exists (
+    select 1 from pg_constraint c
+    join pg_class t on t.oid = c.conrelid
+    where t.relname = 'questions' and c.conname = 'questions_owner_check'
+  ) then
+    alter table public.questions
+      add constraint questions_owner_check check (exam_id is not null or pool_id is not null);
+  end if;
+end $$;
+
+-- Question revisions: immutable snapshots of a question's content, one per edit (idempotent)
+create table if not exists public.question_revisions (
+  id uuid primary key default gen_random_uuid(),
+  question_id uuid not null references public.questions(id) on delete cascade,
+  revision integer not null,
+  question_text text not null,
+  question_type text not null,
+  options jsonb null,
+  correct_answers jsonb null,
+  points integer null,
+  question_image_url text null,
+  option_image_urls jsonb null,
+  created_at timestamptz not null default now(),
+  unique (question_id, revision)
+);
+
+do $$ begin
+  if not exists (
+    select 1 from information_schema.columns
+    where table_schema = 'public' and table_name = 'questions' and column_name = 'revision'
+  ) then
+    alter table public.questions add column revision integer not null default 1;
+  end if;
+end $$;
+
+-- Bump questions.revision when shown or graded content changes; clients cannot set it
+create or replace function public.bump_question_revision()
+returns trigger
+language plpgsql
+as $$
+begin
+  if (new.question_text, new.question_type, new.options, new.correct_answers, new.points,
+      new.question_image_url, new.option_image_urls)
+     is distinct from
+     (old.question_text, old.question_type, old.options, old.correct_answers, old.points,
+      old.question_image_url, old.option_image_urls) then
+    new.revision := old.revision + 1;
+  else
+    new.revision := old.revision;
+  end if;
+  return new;
+end;
+$$;
+
+-- Snapshot the current content into question_revisions
+create or replace function public.snapshot_question_revision()
+returns trigger
+language plpgsql
+security definer
+set search_path to public, extensions
+as $$
+begin
+  insert into public.question_revisions(
+    question_id, revision, question_text, question_type, options, correct_answers,
+    points, question_image_url, option_image_urls
+  )
+  values (
+    new.id, new.revision, new.question_text, new.question_type, new.options, new.correct_answers,
+    new.points, new.question_image_url, new.option_image_urls
+  )
+  on conflict (question_id, revision) do nothing;
+  return null;
+end;
+$$;
+
+drop trigger if exists trg_questions_bump_revision on public.questions;
+create trigger trg_questions_bump_revision
+  before update on public.questions
+  for each row execute function public.bump_question_revision();
+
+drop trigger if exists trg_questions_snapshot_revision on public.questions;
+create trigger trg_questions_snapshot_revision
+  after insert or update on public.questions
+  for each row execute function public.snapshot_question_revision();
+
+-- Backfill revision 1 for questions created before versioning
+insert into public.question_revisions(
+  question_id, revision, question_text, question_type, options, correct_answers,
+  points, question_image_url, option_image_urls
+)
+select q.id, q.revision, q.question_text, q.question_type, q.options, q.correct_answers,
+       q.points, q.question_image_url, q.option_image_urls
+from public.questions q
+on conflict (question_id, revision) do nothing;
+
 -- legacy exam_codes table removed after migration to global students
 
 create table if not exists public.exam_attempts (
@@ -156,6 +293,20 @@ create table if not exists public.admin_users (
   created_at timestamptz not null default now()
 );
 
+-- Admin role; the permissions each role grants live in src/lib/auth/edge-permissions.ts (ROLES).
+-- Admins from before roles existed are backfilled as super admins; new ones default to the
+-- least privileged role.
+do $$ begin
+  if not exists (
+    select 1 from information_schema.columns
+    where table_schema = 'public' and table_name = 'admin_users' and column_name = 'role'
+  ) then
+    alter table public.admin_users add column role text not null default 'super_admin'
+      check (role in ('super_admin', 'exam_author', 'grader', 'proctor', 'viewer'));
+  end if;
+  alter table public.admin_users alter column role set default 'viewer';
+end $$;
+
 -- Global students table
 create table if not exists public.students (
   id uuid primary key default gen_random_uuid(),
@@ -165,6 +316,49 @@ create table if not exists public.students (
   created_at timestamptz not null default now()
 );
 
+-- Documented time accommodations: the exam duration is scaled by time_multiplier, then
+-- extra_time_minutes is added. The same extra time also pushes back the exam end_time for the student.
+do $$ begin
+  if not exists (
+    select 1 from information_schema.columns
+    where table_schema = 'public' and table_name = 'students' and column_name = 'time_multiplier'
+  ) then
+    alter table public.students add column time_multiplier numeric null check (time_multiplier is null or time_multiplier >= 1);
+  end if;
+  if not exists (
+    select 1 from information_schema.columns
+    where table_schema = 'public' and table_name = 'students' and column_name = 'extra_time_minutes'
+  ) then
+    alter table public.students add column extra_time_minutes integer null check (extra_time_minutes is null or extra_time_minutes >= 0);
+  end if;
+  -- Address for codes and notifications sent by email
+  if not exists (
+    select 1 from information_schema.columns
+    where table_schema = 'public' and table_name = 'students' and column_name = 'email'
+  ) then
+    alter table public.students add column email text null;
+  end if;
+  -- Optional guardian contact, also notified when results are released
+  if not exists (
+    select 1 from information_schema.columns
+    where table_schema = 'public' and table_name = 'students' and column_name = 'guardian_name'
+  ) then
+    alter table public.students add column guardian_name text null;
+  end if;
+  if not exists (
+    select 1 from information_schema.columns
+    where table_schema = 'public' and table_name = 'students' and column_name = 'guardian_mobile'
+  ) then
+    alter table public.students add column guardian_mobile text null;
+  end if;
+  if not exists (
+    select 1 from information_schema.columns
+    where table_schema = 'public' and table_name = 'students' and column_name = 'guardian_email'
+  ) then
+    alter table public.students add column guardian_email text null;
+  end if;
+end $$;
+
 -- Per-exam attempt tracking for students
 create table if not exists public.student_exam_attempts (
   id uuid primary key default gen_random_uuid(),
@@ -176,6 +370,119 @@ create table if not exists public.student_exam_attempts (
   status text not null default 'in_progress'
 );
 
+-- Attempts granted to a student on top of exams.settings.attempt_limit
+create table if not exists public.student_exam_extra_attempts (
+  student_id uuid not null references public.students(id) on delete cascade,
+  exam_id uuid not null references public.exams(id) on delete cascade,
+  extra_attempts integer not null default 0 check (extra_attempts >= 0),
+  updated_at timestamptz not null default now(),
+  primary key (student_id, exam_id)
+);
+
+-- Student groups (classes). Students may belong to several groups.
+create table if not exists public.student_groups (
+  id uuid primary key default gen_random_uuid(),
+  name text not null unique,
+  description text null,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.student_group_members (
+  group_id uuid not null references public.student_groups(id) on delete cascade,
+  student_id uuid not null references public.students(id) on delete cascade,
+  added_at timestamptz not null default now(),
+  primary key (group_id, student_id)
+);
+
+-- Groups an exam is assigned to. An exam with no rows here is open to every student code.
+create table if not exists public.exam_groups (
+  exam_id uuid not null references public.exams(id) on delete cascade,
+  group_id uuid not null references public.student_groups(id) on delete cascade,
+  primary key (exam_id, group_id)
+);
+
+-- Committed student imports. Each change keeps the student's values from before the import so the
+-- batch can be rolled back; student_id has no foreign key because rolled-back creates are deleted.
+create table if not exists public.student_import_batches (
+  id uuid primary key default gen_random_uuid(),
+  file_name text null,
+  match_on text not null check (match_on in ('code', 'mobile_number')),
+  created_count integer not null default 0,
+  updated_count integer not null default 0,
+  created_by uuid null,
+  created_at timestamptz not null default now(),
+  rolled_back_at timestamptz null,
+  rolled_back_by uuid null
+);
+
+create table if not exists public.student_import_changes (
+  batch_id uuid not null references public.student_import_batches(id) on delete cascade,
+  student_id uuid not null,
+  action text not null check (action in ('create', 'update')),
+  previous jsonb null,
+  primary key (batch_id, student_id)
+);
+
+-- Messages queued to students through a MessageProvider (src/lib/messaging): one job per send,
+-- one delivery per recipient with its own status and retry schedule
+create table if not exists public.message_jobs (
+  id uuid primary key default gen_random_uuid(),
+  channel text not null check (channel in ('whatsapp', 'sms', 'email')),
+  provider text not null,
+  subject text null,
+  template text not null,
+  created_by uuid null,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.message_deliveries (
+  id bigint generated always as identity primary key,
+  job_id uuid not null references public.message_jobs(id) on delete cascade,
+  student_id uuid null references public.students(id) on delete set null,
+  recipient text not null,
+  body text not null,
+  status text not null default 'pending' check (status in ('pending', 'sending', 'sent', 'failed')),
+  attempts integer not null default 0,
+  next_attempt_at timestamptz not null default now(),
+  last_error text null,
+  provider_message_id text null,
+  sent_at timestamptz null,
+  updated_at timestamptz not null default now()
+);
+
+-- Result release: when an exam's results were released, and the notification jobs it queued.
+-- results_visibility is what students see once released; results_release_at embargoes results
+-- until then. Existing exams are backfilled to keep showing results with details, as before;
+-- new exams start hidden until an admin releases them.
+do $$ begin
+  if not exists (
+    select 1 from information_schema.columns
+    where table_schema = 'public' and table_name = 'exams' and column_name = 'results_released_at'
+  ) then
+    alter table public.exams add column results_released_at timestamptz null;
+  end if;
+  if not exists (
+    select 1 from information_schema.columns
+    where table_schema = 'public' and table_name = 'exams' and column_name = 'results_visibility'
+  ) then
+    alter table public.exams add column results_visibility text not null default 'released_with_details'
+      check (results_visibility in ('hidden', 'released', 'released_with_details'));
+  end if;
+  alter table public.exams alter column results_visibility set default 'hidden';
+  if not exists (
+    select 1 from information_schema.columns
+    where table_schema = 'public' and table_name = 'exams' and column_name = 'results_release_at'
+  ) then
+    alter table public.exams add column results_release_at timestamptz null;
+  end if;
+  if not exists (
+    select 1 from information_schema.columns
+    where table_schema = 'public' and table_name = 'message_jobs' and column_name = 'exam_id'
+  ) then
+    alter table public.message_jobs add column exam_id uuid null references public.exams(id) on delete set null;
+  end if;
+end $$;
+
 -- Ensure exam_attempts has student_id and device_info (legacy code_id retained for compat but unused)
 do $$ begin
   if not exists (
@@ -190,6 +497,62 @@ do $$ begin
   ) then
     alter table public.exam_attempts add column device_info jsonb null;
   end if;
+  -- Pool questions drawn for this attempt at start (in draw order)
+  if not exists (
+    select 1 from information_schema.columns
+    where table_schema = 'public' and table_name = 'exam_attempts' and column_name = 'pool_question_ids'
+  ) then
+    alter table public.exam_attempts add column pool_question_ids uuid[] null;
+  end if;
+  -- Question revision each question was shown at ({question_id: revision}), set at start
+  if not exists (
+    select 1 from information_schema.columns
+    where table_schema = 'public' and table_name = 'exam_attempts' and column_name = 'question_revisions'
+  ) then
+    alter table public.exam_attempts add column question_revisions jsonb null;
+  end if;
+  -- Newer revisions whose keys a regrade applied instead of the shown ones
+  if not exists (
+    select 1 from information_schema.columns
+    where table_schema = 'public' and table_name = 'exam_attempts' and column_name = 'key_revisions'
+  ) then
+    alter table public.exam_attempts add column key_revisions jsonb null;
+  end if;
+  -- Section navigation ({current, entered_at, used: {index: seconds}, closed: [index], reached}) for sectioned exams
+  if not exists (
+    select 1 from information_schema.columns
+    where table_schema = 'public' and table_name = 'exam_attempts' and column_name = 'section_state'
+  ) then
+    alter table public.exam_attempts add column section_state jsonb null;
+  end if;
+  -- Minutes added live by admins to an in-progress attempt, on top of the student's accommodation
+  if not exists (
+    select 1 from information_schema.columns
+    where table_schema = 'public' and table_name = 'exam_attempts' and column_name = 'extra_minutes'
+  ) then
+    alter table public.exam_attempts add column extra_minutes integer not null default 0;
+  end if;
+  -- Current student session; attempt tokens carrying any other value are rejected
+  if not exists (
+    select 1 from information_schema.columns
+    where table_schema = 'public' and table_name = 'exam_attempts' and column_name = 'session_id'
+  ) then
+    alter table public.exam_attempts add column session_id uuid null;
+  end if;
+  -- Set while a proctor has paused the attempt
+  if not exists (
+    select 1 from information_schema.columns
+    where table_schema = 'public' and table_name = 'exam_attempts' and column_name = 'paused_at'
+  ) then
+    alter table public.exam_attempts add column paused_at timestamptz null;
+  end if;
+  -- Address of the latest save, to spot IP changes during an attempt
+  if not exists (
+    select 1 from information_schema.columns
+    where table_schema = 'public' and table_name = 'exam_attempts' and column_name = 'last_ip'
+  ) then
+    alter table public.exam_attempts add column last_ip inet null;
+  end if;
   if not exists (
     select 1 from pg_constraint c
     join pg_class t on t.oid = c.conrelid
@@ -210,6 +573,46 @@ create table if not exists public.attempt_activity_events (
   created_at timestamptz not null default now()
 );
 
+-- Columns written by log_attempt_activity and read by the admin activity views (idempotent)
+do $$ begin
+  if not exists (
+    select 1 from information_schema.columns
+    where table_schema = 'public' and table_name = 'attempt_activity_events' and column_name = 'event_time'
+  ) then
+    alter table public.attempt_activity_events add column event_time timestamptz not null default now();
+  end if;
+  if not exists (
+    select 1 from information_schema.columns
+    where table_schema = 'public' and table_name = 'attempt_activity_events' and column_name = 'payload'
+  ) then
+    alter table public.attempt_activity_events add column payload jsonb not null default '{}'::jsonb;
+  end if;
+end $$;
+
+-- Proctor actions on a live attempt; the student's attempt page picks them up over SSE
+create table if not exists public.proctor_actions (
+  id bigint generated always as identity primary key,
+  attempt_id uuid not null references public.exam_attempts(id) on delete cascade,
+  action text not null check (action in ('force_submit', 'pause', 'resume', 'invalidate', 'message')),
+  message text null,
+  created_by uuid null,
+  created_at timestamptz not null default now()
+);
+
+-- Answer-similarity (collusion) reports; each run stores its ranked pairs so reviewers can drill in later
+create table if not exists public.collusion_reports (
+  id bigint generated always as identity primary key,
+  exam_id uuid not null references public.exams(id) on delete cascade,
+  status text not null default 'running' check (status in ('running', 'completed', 'failed')),
+  attempt_count integer not null default 0,
+  pair_count integer not null default 0,
+  pairs jsonb not null default '[]'::jsonb,
+  error text null,
+  created_by uuid null,
+  created_at timestamptz not null default now(),
+  completed_at timestamptz null
+);
+
 -- Global summary view
 create or replace view public.student_exam_summary with (security_invoker = true) as
   select
@@ -217,13 +620,42 @@ create or replace view public.student_exam_summary with (security_invoker = true
     s.code,
     s.student_name,
     s.mobile_number,
-    count(sea.id) as total_exams_attempted,
-    count(case when sea.status = 'completed' then 1 end) as completed_exams,
-    count(case when sea.status = 'in_progress' then 1 end) as in_progress_exams,
-    s.created_at as student_created_at
+    count(distinct sea.exam_id) as total_exams_attempted,
+    count(distinct case when sea.status = 'completed' then sea.exam_id end) as completed_exams,
+    count(distinct case when sea.status = 'in_progress' then sea.exam_id end) as in_progress_exams,
+    s.created_at as student_created_at,
+    s.time_multiplier,
+    s.extra_time_minutes,
+    array(
+      select m.group_id from public.student_group_members m where m.student_id = s.id order by m.added_at
+    ) as group_ids,
+    s.email,
+    s.guardian_name,
+    s.guardian_mobile,
+    s.guardian_email
   from public.students s
   left join public.student_exam_attempts sea on sea.student_id = s.id
-  group by s.id, s.code, s.student_name, s.mobile_number, s.created_at;
+  group by s.id, s.code, s.student_name, s.mobile_number, s.created_at, s.time_multiplier, s.extra_time_minutes, s.email,
+    s.guardian_name, s.guardian_mobile, s.guardian_email;
+
+-- Message jobs with their recipients counted by delivery status ('sending' counts as pending)
+create or replace view public.message_job_summary with (security_invoker = true) as
+  select
+    j.id,
+    j.channel,
+    j.provider,
+    j.subject,
+    j.template,
+    j.created_by,
+    j.created_at,
+    count(d.id)::int as total,
+    count(d.id) filter (where d.status in ('pending', 'sending'))::int as pending,
+    count(d.id) filter (where d.status = 'sent')::int as sent,
+    count(d.id) filter (where d.status = 'failed')::int as failed,
+    j.exam_id
+  from public.message_jobs j
+  left join public.message_deliveries d on d.job_id = j.id
+  group by j.id;
 
 create table if not exists public.app_config (
   key text primary key,
@@ -249,6 +681,8 @@ end $$;
 -- Indexes (some duplicated in indexes.sql; IF NOT EXISTS prevents errors)
 -- legacy index for exam_codes removed
 create index if not exists idx_questions_exam_order on public.questions (exam_id, order_index);
+create index if not exists idx_question_revisions_question on public.question_revisions (question_id, revision desc);
+create index if not exists idx_questions_pool_difficulty on public.questions (pool_id, difficulty) where pool_id is not null;
 create index if not exists idx_attempts_exam_started on public.exam_attempts (exam_id, started_at desc);
 create index if not exists idx_attempts_exam_student_lower on public.exam_attempts (exam_id, lower(student_name));
 create index if not exists idx_attempts_submitted_at on public.exam_attempts (submitted_at desc);
@@ -256,6 +690,8 @@ create index if not exists idx_results_attempt_id on public.exam_results (attemp
 create index if not exists idx_ips_exam_rule on public.exam_ips (exam_id, rule_type);
 create index if not exists idx_ips_ip_range on public.exam_ips (ip_range);
 create index if not exists idx_activity_events_attempt on public.attempt_activity_events (attempt_id, created_at desc);
+create index if not exists idx_proctor_actions_attempt on public.proctor_actions (attempt_id, id);
+create index if not exists idx_collusion_reports_exam on public.collusion_reports (exam_id, id desc);
 -- Insert default system configuration
 insert into public.app_config (key, value, description) values
   ('system_disabled', 'false', 'Whether the system is disabled for students'),
@@ -85,6 +85,13 @@ ALTER TABLE public.users ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.admin_users ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.students ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.student_exam_attempts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.student_groups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.student_group_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.exam_groups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.student_import_batches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.student_import_changes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.message_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.message_deliveries ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.app_config ENABLE ROW LEVEL SECURITY;
 
 -- Admin ALL policies (service role and admins)
@@ -158,6 +165,55 @@ DO $do$ BEGIN
   EXECUTE 'CREATE POLICY student_exam_attempts_admin_all ON public.student_exam_attempts FOR ALL USING (public.is_admin()) WITH CHECK (public.is_admin())';
 END $do$;
 
+DO $do$ BEGIN
+  IF EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='student_groups' AND policyname='student_groups_admin_all') THEN
+    EXECUTE 'DROP POLICY student_groups_admin_all ON public.student_groups';
+  END IF;
+  EXECUTE 'CREATE POLICY student_groups_admin_all ON public.student_groups FOR ALL USING (public.is_admin()) WITH CHECK (public.is_admin())';
+END $do$;
+
+DO $do$ BEGIN
+  IF EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='student_group_members' AND policyname='student_group_members_admin_all') THEN
+    EXECUTE 'DROP POLICY student_group_members_admin_all ON public.student_group_members';
+  END IF;
+  EXECUTE 'CREATE POLICY student_group_members_admin_all ON public.student_group_members FOR ALL USING (public.is_admin()) WITH CHECK (public.is_admin())';
+END $do$;
+
+DO $do$ BEGIN
+  IF EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='exam_groups' AND policyname='exam_groups_admin_all') THEN
+    EXECUTE 'DROP POLICY exam_groups_admin_all ON public.exam_groups';
+  END IF;
+  EXECUTE 'CREATE POLICY exam_groups_admin_all ON public.exam_groups FOR ALL USING (public.is_admin()) WITH CHECK (public.is_admin())';
+END $do$;
+
+DO $do$ BEGIN
+  IF EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='student_import_batches' AND policyname='student_import_batches_admin_all') THEN
+    EXECUTE 'DROP POLICY student_import_batches_admin_all ON public.student_import_batches';
+  END IF;
+  EXECUTE 'CREATE POLICY student_import_batches_admin_all ON public.student_import_batches FOR ALL USING (public.is_admin()) WITH CHECK (public.is_admin())';
+END $do$;
+
+DO $do$ BEGIN
+  IF EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='student_import_changes' AND policyname='student_import_changes_admin_all') THEN
+    EXECUTE 'DROP POLICY student_import_changes_admin_all ON public.student_import_changes';
+  END IF;
+  EXECUTE 'CREATE POLICY student_import_changes_admin_all ON public.student_import_changes FOR ALL USING (public.is_admin()) WITH CHECK (public.is_admin())';
+END $do$;
+
+DO $do$ BEGIN
+  IF EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='message_jobs' AND policyname='message_jobs_admin_all') THEN
+    EXECUTE 'DROP POLICY message_jobs_admin_all ON public.message_jobs';
+  END IF;
+  EXECUTE 'CREATE POLICY message_jobs_admin_all ON public.message_jobs FOR ALL USING (public.is_admin()) WITH CHECK (public.is_admin())';
+END $do$;
+
+DO $do$ BEGIN
+  IF EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='message_deliveries' AND policyname='message_deliveries_admin_all') THEN
+    EXECUTE 'DROP POLICY message_deliveries_admin_all ON public.message_deliveries';
+  END IF;
+  EXECUTE 'CREATE POLICY message_deliveries_admin_all ON public.message_deliveries FOR ALL USING (public.is_admin()) WITH CHECK (public.is_admin())';
+END $do$;
+
 DO $do$ BEGIN
   IF EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='app_config' AND policyname='app_config_admin_all') THEN
     EXECUTE 'DROP POLICY app_config_admin_all ON public.app_config';
@@ -177,6 +233,7 @@ DO $do$ BEGIN
 END $do$;
 
 -- Exam attempts readable publicly only if they have results and belong to a published exam
+-- whose results are released (not hidden and past any embargo)
 DO $do$ BEGIN
   IF EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='exam_attempts' AND policyname='exam_attempts_public_results_read') THEN
     EXECUTE 'DROP POLICY exam_attempts_public_results_read ON public.exam_attempts';
@@ -188,11 +245,13 @@ DO $do$ BEGIN
       AND EXISTS (
         SELECT 1 FROM public.exams ex
         WHERE ex.id = public.exam_attempts.exam_id AND ex.status = 'published'
+          AND ex.results_visibility <> 'hidden'
+          AND (ex.results_release_at IS NULL OR ex.results_release_at <= now())
       )
     )$$;
 END $do$;
 
--- Exam results readable publicly only when the related exam is published
+-- Exam results readable publicly only when the related exam is published and its results released
 DO $do$ BEGIN
   IF EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='exam_results' AND policyname='exam_results_public_read') THEN
     EXECUTE 'DROP POLICY exam_results_public_read ON public.exam_results';
@@ -205,11 +264,13 @@ DO $do$ BEGIN
         FROM public.exam_attempts ea
         JOIN public.exams ex ON ex.id = ea.exam_id
         WHERE ea.id = public.exam_results.attempt_id AND ex.status = 'published'
+          AND ex.results_visibility <> 'hidden'
+          AND (ex.results_release_at IS NULL OR ex.results_release_at <= now())
       )
     )$$;
 END $do$;
 
--- Students readable for public results search (only those tied to published attempts)
+-- Students readable for public results search (only those tied to released results)
 -- and for by-code flows (only those tied to published code_based exams)
 DO $do$ BEGIN
   IF EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='students' AND policyname='students_public_read') THEN
@@ -224,6 +285,8 @@ DO $do$ BEGIN
         JOIN public.exam_results er ON er.attempt_id = ea.id
         JOIN public.exams ex ON ex.id = ea.exam_id
         WHERE ea.student_id = public.students.id AND ex.status = 'published'
+          AND ex.results_visibility <> 'hidden'
+          AND (ex.results_release_at IS NULL OR ex.results_release_at <= now())
       )
       OR EXISTS (
         SELECT 1
@@ -264,6 +327,11 @@ END $do$;
 -- Enable RLS for new tables
 ALTER TABLE IF EXISTS public.manual_grades ENABLE ROW LEVEL SECURITY;
 ALTER TABLE IF EXISTS public.exam_results_history ENABLE ROW LEVEL SECURITY;
+ALTER TABLE IF EXISTS public.question_pools ENABLE ROW LEVEL SECURITY;
+ALTER TABLE IF EXISTS public.question_revisions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE IF EXISTS public.proctor_actions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE IF EXISTS public.collusion_reports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE IF EXISTS public.student_exam_extra_attempts ENABLE ROW LEVEL SECURITY;
 
 -- Admin ALL policies for new tables
 DO $do$ BEGIN
@@ -280,6 +348,42 @@ DO $do$ BEGIN
   EXECUTE 'CREATE POLICY exam_results_history_admin_all ON public.exam_results_history FOR ALL USING (public.is_admin()) WITH CHECK (public.is_admin())';
 END $do$;
 
+DO $do$ BEGIN
+  IF EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='question_pools' AND policyname='question_pools_admin_all') THEN
+    EXECUTE 'DROP POLICY question_pools_admin_all ON public.question_pools';
+  END IF;
+  EXECUTE 'CREATE POLICY question_pools_admin_all ON public.question_pools FOR ALL USING (public.is_admin()) WITH CHECK (public.is_admin())';
+END $do$;
+
+DO $do$ BEGIN
+  IF EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='proctor_actions' AND policyname='proctor_actions_admin_all') THEN
+    EXECUTE 'DROP POLICY proctor_actions_admin_all ON public.proctor_actions';
+  END IF;
+  EXECUTE 'CREATE POLICY proctor_actions_admin_all ON public.proctor_actions FOR ALL USING (public.is_admin()) WITH CHECK (public.is_admin())';
+END $do$;
+
+DO $do$ BEGIN
+  IF EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='collusion_reports' AND policyname='collusion_reports_admin_all') THEN
+    EXECUTE 'DROP POLICY collusion_reports_admin_all ON public.collusion_reports';
+  END IF;
+  EXECUTE 'CREATE POLICY collusion_reports_admin_all ON public.collusion_reports FOR ALL USING (public.is_admin()) WITH CHECK (public.is_admin())';
+END $do$;
+
+DO $do$ BEGIN
+  IF EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='student_exam_extra_attempts' AND policyname='student_exam_extra_attempts_admin_all') THEN
+    EXECUTE 'DROP POLICY student_exam_extra_attempts_admin_all ON public.student_exam_extra_attempts';
+  END IF;
+  EXECUTE 'CREATE POLICY student_exam_extra_attempts_admin_all ON public.student_exam_extra_attempts FOR ALL USING (public.is_admin()) WITH CHECK (public.is_admin())';
+END $do$;
+
+-- Revisions are written by trigger only; admins may read but not rewrite history
+DO $do$ BEGIN
+  IF EXISTS (SELECT 1 FROM pg_policies WHERE schemaname='public' AND tablename='question_revisions' AND policyname='question_revisions_admin_read') THEN
+    EXECUTE 'DROP POLICY question_revisions_admin_read ON public.question_revisions';
+  END IF;
+  EXECUTE 'CREATE POLICY question_revisions_admin_read ON public.question_revisions FOR SELECT USING (public.is_admin())';
+END $do$;
+
 -- Set immutable search_path for all functions in public
 DO $do$
 DECLARE r record;
@@ -0,0 +1,17 @@
+import nextJest from "next/jest.js";
+
+// Unit tests: `npm test`. next/jest compiles TypeScript with the app's SWC setup; the graders that
+// also exist in SQL are checked against db/rpc_functions.sql running in PGlite (in-process Postgres).
+const createJestConfig = nextJest({ dir: "./" });
+
+const config = {
+  testEnvironment: "node",
+  moduleNameMapper: { "^@/(.*)$": "<rootDir>/src/$1" },
+  testMatch: ["<rootDir>/src/**/__tests__/**/*.test.ts"],
+  // Written against APIs these modules no longer have (and vitest); kept for reference only
+  testPathIgnorePatterns: ["/node_modules/", "<rootDir>/src/lib/api/__tests__/", "<rootDir>/src/lib/benchmarking/__tests__/"],
+  // PGlite loads a WASM Postgres per suite
+  testTimeout: 60000,
+};
+
+export default createJestConfig(config);
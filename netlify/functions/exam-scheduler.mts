@@ -0,0 +1,27 @@
+/**
+ * Netlify Scheduled Function for the exam scheduler
+ * Runs every five minutes and calls the app's scheduler endpoint, which publishes and
+ * closes scheduled exams and submits attempts past their deadline.
+ */
+
+export default async function handler(): Promise<Response> {
+  const base = process.env.URL || process.env.SCHEDULER_URL;
+  const secret = process.env.CRON_SECRET;
+  if (!base || !secret) {
+    console.error("exam-scheduler: URL and CRON_SECRET must be set");
+    return new Response("not configured", { status: 500 });
+  }
+
+  const res = await fetch(`${base}/api/cron/exam-scheduler`, {
+    method: "POST",
+    headers: { Authorization: `Bearer ${secret}` },
+  });
+  const body = await res.text();
+  if (!res.ok) console.error(`exam-scheduler: ${res.status} ${body}`);
+  else console.log(`exam-scheduler: ${body}`);
+  return new Response(body, { status: res.status });
+}
+
+export const config = {
+  schedule: "*/5 * * * *",
+};
@@ -0,0 +1,27 @@
+/**
+ * Netlify Scheduled Function for the message queue
+ * Runs every minute and calls the app's message queue endpoint, which sends queued codes and
+ * notifications and retries deliveries that failed temporarily.
+ */
+
+export default async function handler(): Promise<Response> {
+  const base = process.env.URL || process.env.SCHEDULER_URL;
+  const secret = process.env.CRON_SECRET;
+  if (!base || !secret) {
+    console.error("message-queue: URL and CRON_SECRET must be set");
+    return new Response("not configured", { status: 500 });
+  }
+
+  const res = await fetch(`${base}/api/cron/message-queue`, {
+    method: "POST",
+    headers: { Authorization: `Bearer ${secret}` },
+  });
+  const body = await res.text();
+  if (!res.ok) console.error(`message-queue: ${res.status} ${body}`);
+  else console.log(`message-queue: ${body}`);
+  return new Response(body, { status: res.status });
+}
+
+export const config = {
+  schedule: "* * * * *",
+};
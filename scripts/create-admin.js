@@ -4,12 +4,13 @@ const { createClient } = require('@supabase/supabase-js');
 const { loadEnv } = require('./utils/load-env');
 
 function parseArgs(argv) {
-  const args = { admin: true };
+  const args = { admin: true, role: 'super_admin' };
   for (let i = 2; i < argv.length; i++) {
     const a = argv[i];
     if (a === '--email') args.email = argv[++i];
     else if (a === '--username') args.username = argv[++i];
     else if (a === '--password') args.password = argv[++i];
+    else if (a === '--role') args.role = argv[++i];
     else if (a === '--no-admin') args.admin = false;
   }
   return args;
@@ -24,9 +25,9 @@ function parseArgs(argv) {
     process.exit(1);
   }
 
-  const { email, username, password, admin } = parseArgs(process.argv);
+  const { email, username, password, admin, role } = parseArgs(process.argv);
   if ((!email && !username) || !password) {
-    console.log('Usage: node scripts/create-admin.js --email you@example.com [--username admin] --password "StrongPass123!" [--no-admin]');
+    console.log('Usage: node scripts/create-admin.js --email you@example.com [--username admin] --password "StrongPass123!" [--role super_admin] [--no-admin]');
     process.exit(2);
   }
 
@@ -38,6 +39,7 @@ function parseArgs(argv) {
     p_email: email || null,
     p_password: password,
     p_is_admin: !!admin,
+    p_role: role,
   });
 
   if (error) {
@@ -51,5 +53,6 @@ function parseArgs(argv) {
     username: row?.username || username || null,
     email: row?.email || email || null,
     is_admin: !!admin,
+    role: row?.role || null,
   });
 })();
@@ -86,7 +86,8 @@ const RPC_MIGRATIONS = {
       'p_username': 'username',
       'p_email': 'email',
       'p_password': 'password',
-      'p_is_admin': 'additionalParams.is_admin'
+      'p_is_admin': 'additionalParams.is_admin',
+      'p_role': 'additionalParams.role'
     }
   },
   'regrade_exam': {
@@ -103,9 +104,9 @@ const RPC_MIGRATIONS = {
       'p_attempt_id': 'attemptId'
     }
   },
-  'admin_reset_student_attempts': {
+  'admin_grant_student_attempt': {
     newFunction: 'admin_manager',
-    operation: 'reset_student_attempts',
+    operation: 'grant_student_attempt',
     paramMapping: {
       'p_student_id': 'studentId',
       'p_exam_id': 'examId'
@@ -0,0 +1,56 @@
+#!/usr/bin/env node
+
+/**
+ * Exam Scheduler Runner
+ * Runs one pass of the exam scheduler against a running app, the same way the
+ * Netlify scheduled function does. Use --watch to repeat every five minutes.
+ *
+ *   CRON_SECRET=... SCHEDULER_URL=http://localhost:3000 node scripts/run-scheduler.js [--watch]
+ */
+
+const INTERVAL_MS = 5 * 60 * 1000;
+
+const config = {
+  baseUrl: process.env.SCHEDULER_URL || 'http://localhost:3000',
+  secret: process.env.CRON_SECRET,
+};
+
+async function runOnce() {
+  const res = await fetch(`${config.baseUrl}/api/cron/exam-scheduler`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${config.secret}` },
+  });
+  const body = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    throw new Error(`Scheduler failed (${res.status}): ${body.error || 'unknown error'}`);
+  }
+  const transitions = body.transitions || [];
+  console.log(`[${body.ran_at}] ${transitions.length} transition(s)`);
+  for (const t of transitions) {
+    console.log(`  ${t.kind.padEnd(14)} exam ${t.exam_id}${t.attempt_id ? ` attempt ${t.attempt_id}` : ''}${t.detail ? ` (${t.detail})` : ''}`);
+  }
+}
+
+async function main() {
+  if (!config.secret) {
+    console.error('❌ CRON_SECRET is not set');
+    process.exit(1);
+  }
+  if (!process.argv.includes('--watch')) {
+    await runOnce();
+    return;
+  }
+  for (;;) {
+    try {
+      await runOnce();
+    } catch (error) {
+      console.error('❌', error.message);
+    }
+    await new Promise((resolve) => setTimeout(resolve, INTERVAL_MS));
+  }
+}
+
+main().catch((error) => {
+  console.error('❌', error.message);
+  process.exit(1);
+});
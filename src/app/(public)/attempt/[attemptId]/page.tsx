@@ -2,10 +2,17 @@
 
 import { useEffect, useMemo, useRef, useState } from "react";
 import ExamQuestion, { type AnswerValue } from "@/components/ExamQuestion";
-import type { AttemptState, Question } from "@/lib/types";
+import type { AttemptState, Question, QuestionFeedback } from "@/lib/types";
 import ProgressBar from "@/components/ProgressBar";
 import Timer from "@/components/Timer";
 import { shuffle } from "@/lib/randomization";
+import { parseMatchingOptions } from "@/lib/sequenceAnswer";
+import { allowSectionReturn } from "@/lib/examSections";
+import { attemptDeadline } from "@/lib/timeAccommodations";
+import type { ProctorEvent } from "@/lib/proctoring";
+import { parseLockdownPolicy, type LockdownViolationKind } from "@/lib/lockdown";
+import { isPracticeMode } from "@/lib/practice";
+import { useLockdown } from "@/hooks/useLockdown";
 import { useStudentLocale } from "@/components/public/PublicLocaleProvider";
 import { t } from "@/i18n/student";
 import { useParams } from "next/navigation";
@@ -35,8 +42,13 @@ function isQuestionAnswered(question: Question, answer: AnswerValue): boolean {
     case "true_false":
       return typeof answer === "boolean"; // Fix: true/false answers are boolean, not string
     case "multi_select":
+    case "image_annotation":
+    case "ordering":
       return Array.isArray(answer) && answer.length > 0;
+    case "matching":
+      return Array.isArray(answer) && answer.some((a) => typeof a === "string" && a !== "");
     case "short_answer":
+    case "numeric":
     case "paragraph":
     case "photo_upload":
       return typeof answer === "string" && answer.trim() !== "";
@@ -62,6 +74,7 @@ export default function AttemptPage() {
   const inFlightRef = useRef(false);
   const queuedRef = useRef(false);
   const answersRef = useRef<Record<string, AnswerValue>>({});
+  const answeredLoggedRef = useRef<Set<string>>(new Set());
   const versionRef = useRef<number>(1);
 
   // Keep refs in sync to avoid stale closures during saves
@@ -75,6 +88,15 @@ export default function AttemptPage() {
   const [showSubmitConfirm, setShowSubmitConfirm] = useState(false);
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false);
   const [headerHeight, setHeaderHeight] = useState(200); // Dynamic header height
+  const [sectionBusy, setSectionBusy] = useState(false);
+  // Set by the proctor console over SSE
+  const [paused, setPaused] = useState(false);
+  const [proctorMessage, setProctorMessage] = useState<string | null>(null);
+  const [lockdownWarning, setLockdownWarning] = useState<string | null>(null);
+  // Practice exams: the last check of each question, cleared when its answer changes
+  const [feedback, setFeedback] = useState<Record<string, QuestionFeedback>>({});
+  const [checkingId, setCheckingId] = useState<string | null>(null);
+  const sectionBusyRef = useRef(false);
   const { locale, dir } = useStudentLocale();
   const mainRef = useRef<HTMLDivElement | null>(null);
   const headerRef = useRef<HTMLDivElement | null>(null);
@@ -114,19 +136,44 @@ export default function AttemptPage() {
     const s = state?.exam?.settings as any;
     return Boolean(s?.randomize_questions);
   }, [state?.exam?.settings]);
+  const lockdownPolicy = useMemo(() => parseLockdownPolicy(state?.exam?.settings), [state?.exam?.settings]);
+  const practice = useMemo(() => isPracticeMode(state?.exam?.settings), [state?.exam?.settings]);
+  const lockdown = useLockdown({
+    enabled: lockdownPolicy.enabled && !!state && state.completion_status !== "submitted" && state.completion_status !== "invalid" && !paused,
+    onViolation: (kind) => { void reportLockdownViolation(kind); },
+  });
+  const sections = useMemo(() => state?.sections ?? [], [state?.sections]);
+  const currentSection = sections.find((s) => s.index === state?.current_section) ?? null;
+  const allowReturn = allowSectionReturn(state?.exam?.settings);
+  const nextSection = currentSection
+    ? sections.find((s) => s.index > currentSection.index && s.status !== "closed") ?? null
+    : null;
+  // Remaining section time is sent relative to the server clock, so anchor it when the state arrives
+  const sectionEndsAt = useMemo(() => {
+    const remaining = currentSection?.remaining_seconds;
+    return typeof remaining === "number" ? new Date(Date.now() + remaining * 1000).toISOString() : null;
+  }, [currentSection]);
   const questions = useMemo(() => {
     if (!state) return [] as Question[];
     let qs = state.questions.slice();
+    // Sectioned exams only show the current section's questions
+    if (currentSection) qs = qs.filter((q) => currentSection.question_ids.includes(q.id));
     if (randomize && attemptId) qs = shuffle(qs, attemptId);
     // Shuffle options per question deterministically
     qs = qs.map((q) => {
-      const opts = (q.options as string[] | null) ?? null;
+      if (q.question_type === "matching") {
+        // Prompts keep their order (answers are aligned to it); only the answer bank is shuffled
+        const m = parseMatchingOptions(q.options);
+        if (m.right.length === 0 || !attemptId) return q;
+        return { ...q, options: { ...m, right: shuffle(m.right, `${attemptId}:${q.id}`) } } as Question;
+      }
+      const opts = Array.isArray(q.options) ? q.options : null;
       if (!opts || opts.length === 0) return q;
       const shuffled = attemptId ? shuffle(opts, `${attemptId}:${q.id}`) : opts;
       return { ...q, options: shuffled } as Question;
     });
     return qs;
-  }, [state, randomize, attemptId]);
+  }, [state, currentSection, randomize, attemptId]);
 
   useEffect(() => {
     if (!attemptId) return;
@@ -137,6 +184,8 @@ export default function AttemptPage() {
         if (!res.ok) {
           if (res.status === 404) {
             setError(t(locale, "no_attempt_found"));
+          } else if (res.status === 401 || res.status === 403) {
+            setError(t(locale, "attempt_session_lost"));
           } else {
             setError(t(locale, "unable_load_exam"));
           }
@@ -178,9 +227,12 @@ export default function AttemptPage() {
       try {
         const res = await fetch(`/api/attempts/${attemptId}/state`);
         const data = await res.json();
+        // A lost attempt session is reported by the info request
+        if (res.status === 401 || res.status === 403) return;
         if (!res.ok) throw new Error(data?.error || "Failed to load state");
         if (cancelled) return;
         setState(data as AttemptState);
+        setPaused(Boolean(data?.paused_at));
         setAnswers((data?.answers as any) || {});
         setVersion((data?.version as number) || 1);
         // Try recovery from localStorage
@@ -254,6 +306,10 @@ export default function AttemptPage() {
           continue;
         }
         const data = await res.json();
+        if (res.status === 401 || res.status === 403) {
+          // Retrying cannot help once the attempt session is gone
+          setError(t(locale, "attempt_session_lost"));
+        }
         if (!res.ok) throw new Error(data?.error || "Save failed");
         if (data?.new_version) {
           setVersion(data.new_version);
@@ -307,6 +363,7 @@ export default function AttemptPage() {
       
       const data = await res.json();
       
+      if (res.status === 401 || res.status === 403) throw new Error(t(locale, "attempt_session_lost"));
       if (!res.ok) throw new Error(data?.error || "Submit failed");
       
       // Update state to prevent further submissions
@@ -314,6 +371,8 @@ export default function AttemptPage() {
       
       console.log("Exam submitted successfully, redirecting to thank you page");
       
+      lockdown.release();
+
       // Use a more reliable redirect method for old browsers
       const thankYouUrl = `/thank-you/${attemptId}`;
       
@@ -342,11 +401,144 @@ export default function AttemptPage() {
     }
   }
 
+  async function goToSection(target: number) {
+    if (!state || !attemptId || sectionBusyRef.current) return;
+    sectionBusyRef.current = true;
+    setSectionBusy(true);
+    try {
+      // Flush pending answers first: the server stops accepting them once the section changes
+      if (debounceTimer.current) clearTimeout(debounceTimer.current);
+      while (inFlightRef.current) await new Promise((r) => setTimeout(r, 100));
+      await saveNow();
+
+      const res = await fetch(`/api/attempts/${attemptId}/section`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ section: target }),
+      });
+      const data = await res.json();
+      if (res.status === 409 && data?.latest) {
+        setState(data.latest as AttemptState);
+        setTimeWarning(t(locale, 'section_unavailable'));
+        setTimeout(() => setTimeWarning(null), 10000);
+      } else if (!res.ok) {
+        throw new Error(data?.error || "Section change failed");
+      } else {
+        setState(data as AttemptState);
+      }
+      setCurrentIdx(0);
+      try { mainRef.current?.scrollTo({ top: 0 }); } catch {}
+    } catch (e) {
+      console.error("Section change error:", e);
+      setSaveStatus("error");
+    } finally {
+      sectionBusyRef.current = false;
+      setSectionBusy(false);
+    }
+  }
+
+  function onNextSection() {
+    if (!nextSection) return;
+    if (!window.confirm(t(locale, allowReturn ? 'next_section_confirm' : 'next_section_confirm_locked'))) return;
+    void goToSection(nextSection.index);
+  }
+
+  // Leave a section whose time ran out: the next section if any, else an earlier one still open, else submit
+  function leaveExpiredSection() {
+    const target = nextSection ?? sections.find((s) => s.status === "open") ?? null;
+    if (!target) {
+      void onSubmit();
+      return;
+    }
+    setTimeWarning(t(locale, 'section_time_up'));
+    setTimeout(() => setTimeWarning(null), 10000);
+    void goToSection(target.index);
+  }
+
+  function onTimerExpire() {
+    const examDeadline = state
+      ? attemptDeadline({
+          startedAt: state.started_at,
+          durationMinutes: state.exam.duration_minutes,
+          endTime: state.exam.end_time,
+          extraMinutes: state.extra_minutes ?? 0,
+        })
+      : null;
+    const examOver = examDeadline !== null && Date.now() >= examDeadline - 1000;
+    if (currentSection && sectionEndsAt && !examOver) leaveExpiredSection();
+    else void onSubmit();
+  }
+
   function onAnswerChange(q: Question, val: AnswerValue) {
+    // Answer pacing feeds the integrity risk score; only the first answer to each question counts
+    if (!answers[q.id] && !answeredLoggedRef.current.has(q.id)) {
+      answeredLoggedRef.current.add(q.id);
+      logActivity('question_answered', { question_id: q.id });
+    }
     setAnswers((prev) => ({ ...prev, [q.id]: val }));
+    if (feedback[q.id]) {
+      setFeedback((prev) => {
+        const next = { ...prev };
+        delete next[q.id];
+        return next;
+      });
+    }
     scheduleSave(800);
   }
 
+  async function checkAnswer(q: Question) {
+    if (!attemptId || checkingId) return;
+    setCheckingId(q.id);
+    try {
+      await saveNow();
+      const res = await fetch(`/api/attempts/${attemptId}/feedback`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ question_id: q.id, answer: answersRef.current[q.id] ?? null }),
+      });
+      const data = await res.json();
+      if (res.ok) setFeedback((prev) => ({ ...prev, [q.id]: data as QuestionFeedback }));
+    } catch {
+      // The button comes back, so the student can simply check again
+    } finally {
+      setCheckingId(null);
+    }
+  }
+
+  // The server counts lockdown violations and applies the exam's limit; we only show the outcome
+  async function reportLockdownViolation(kind: LockdownViolationKind) {
+    if (!attemptId) return;
+    // Reaching the limit can submit the attempt, so get the latest answers in first
+    if (lockdownPolicy.on_limit === "submit") await saveNow();
+    try {
+      const res = await fetch(`/api/attempts/${attemptId}/lockdown`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ kind }),
+      });
+      const data = await res.json();
+      if (!res.ok) return;
+      const vars = { count: Number(data.violations) || 0, max: Number(data.max_violations) || lockdownPolicy.max_violations };
+      if (data.action_taken === "submit") {
+        lockdown.release();
+        setState((prev) => prev ? { ...prev, completion_status: "submitted", submitted_at: new Date().toISOString() } : prev);
+        window.location.replace(`/thank-you/${attemptId}`);
+        return;
+      }
+      if (data.action_taken === "pause") {
+        setPaused(true);
+        setLockdownWarning(t(locale, 'lockdown_paused', vars));
+        return;
+      }
+      const consequence = vars.count < vars.max && lockdownPolicy.on_limit !== "warn"
+        ? ` ${t(locale, lockdownPolicy.on_limit === "pause" ? 'lockdown_limit_pause' : 'lockdown_limit_submit', vars)}`
+        : "";
+      setLockdownWarning(t(locale, 'lockdown_warning', vars) + consequence);
+    } catch (error) {
+      console.warn('Failed to report lockdown violation:', error);
+    }
+  }
+
   // Activity logging function
   async function logActivity(activity: string, details?: any) {
     if (!attemptId) return;
@@ -412,6 +604,64 @@ export default function AttemptPage() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [state, version, answered, total]);
 
+  // Live time extensions and proctor actions arrive over SSE
+  useEffect(() => {
+    if (!attemptId || !state || state.completion_status === "submitted") return;
+    if (typeof EventSource === "undefined") return;
+    // EventSource resends the last proctor action id on reconnect; keep it across reloads too
+    const cursorKey = `attempt:${attemptId}:proctor_event`;
+    let lastEventId: string | null = null;
+    try { lastEventId = localStorage.getItem(cursorKey); } catch {}
+    const query = lastEventId ? `?lastEventId=${encodeURIComponent(lastEventId)}` : "";
+    const source = new EventSource(`/api/attempts/${attemptId}/sse${query}`);
+    source.onmessage = (event) => {
+      try {
+        if (event.lastEventId) {
+          try { localStorage.setItem(cursorKey, event.lastEventId); } catch {}
+        }
+        const data = JSON.parse(event.data);
+        if (data?.type === "session_superseded") {
+          // The attempt was opened in another browser; this one must stop
+          source.close();
+          setError(t(locale, "attempt_session_lost"));
+          return;
+        }
+        if (data?.type === "proctor") {
+          const action = (data as ProctorEvent).action;
+          if (action === "pause") setPaused(true);
+          else if (action === "resume") setPaused(false);
+          else if (action === "message") setProctorMessage(data.message ?? null);
+          else if (action === "force_submit") {
+            lockdown.release();
+            setState((prev) => prev ? { ...prev, completion_status: "submitted", submitted_at: new Date().toISOString() } : prev);
+            window.location.replace(`/thank-you/${attemptId}`);
+          } else if (action === "invalidate") {
+            setState((prev) => prev ? { ...prev, completion_status: "invalid" } : prev);
+            setError(t(locale, 'attempt_invalidated'));
+          }
+          return;
+        }
+        if (data?.type !== "time_extended") return;
+        setState((prev) => prev ? { ...prev, extra_minutes: Number(data.extra_minutes) || 0, deadline_at: data.deadline_at ?? prev.deadline_at } : prev);
+        if (Number(data.added_minutes) > 0) {
+          setTimeWarning(t(locale, 'time_extended', { minutes: Number(data.added_minutes) }));
+          setTimeout(() => setTimeWarning(null), 10000);
+        }
+      } catch {}
+    };
+    return () => source.close();
+    // Reconnect only when the attempt loads or is submitted, not on every state update
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [attemptId, state?.completion_status, locale]);
+
+  // A refresh after the section's time ran out lands on a closed section; move on from it
+  useEffect(() => {
+    if (!currentSection || currentSection.status !== "closed") return;
+    if (state?.completion_status === "submitted") return;
+    leaveExpiredSection();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currentSection?.index, currentSection?.status]);
+
   // Keyboard navigation for per-question mode
   useEffect(() => {
     if (displayMode !== "per_question") return;
@@ -590,7 +840,7 @@ export default function AttemptPage() {
     );
   }
 
-  const disabled = state.completion_status === "submitted";
+  const disabled = state.completion_status === "submitted" || paused;
   const progressPercentage = total ? Math.round((answered / total) * 100) : 0;
   const unansweredCount = Math.max(0, total - answered);
 
@@ -669,7 +919,13 @@ export default function AttemptPage() {
           color: 'var(--muted-foreground)',
           marginBottom: '1rem'
         }}>
-          <span>{t(locale, 'question_of_total', { current: currentIdx + 1, total })}</span>
+          {currentSection && (
+            <>
+              <span>{t(locale, 'section_of_total', { current: currentSection.index + 1, total: sections.length })}</span>
+              <span>•</span>
+            </>
+          )}
+          <span>{t(locale, 'question_of_total', { current: currentIdx + 1, total: questions.length })}</span>
           <span>•</span>
           <span>{t(locale, 'x_answered', { count: answered })}</span>
           {!isOnline && (
@@ -695,10 +951,13 @@ export default function AttemptPage() {
           marginBottom: '1rem'
         }}>
           <Timer 
+            key={currentSection ? `section-${currentSection.index}` : "exam"}
             startedAt={state.started_at} 
             durationMinutes={state.exam.duration_minutes} 
             examEndsAt={state.exam.end_time} 
-            onExpire={onSubmit} 
+            sectionEndsAt={sectionEndsAt}
+            extraMinutes={state.extra_minutes ?? 0}
+            onExpire={onTimerExpire} 
             onWarning={handleTimeWarning}
             disabled={disabled}
           />
@@ -905,9 +1164,64 @@ export default function AttemptPage() {
             boxSizing: 'border-box',
             ...mainPaddingProps,
           }}
-          onCopy={(e) => e.preventDefault()} 
-          onCut={(e) => e.preventDefault()}
+          onCopy={(e) => { e.preventDefault(); logActivity('copy_blocked', { kind: 'copy' }); }}
+          onCut={(e) => { e.preventDefault(); logActivity('copy_blocked', { kind: 'cut' }); }}
+          onPaste={(e) => logActivity('paste', { length: e.clipboardData.getData('text').length })}
         >
+          {practice && (
+            <div style={{
+              backgroundColor: '#eff6ff',
+              border: '1px solid #bfdbfe',
+              color: '#1e40af',
+              borderRadius: '0.5rem',
+              padding: '0.75rem 1rem',
+              marginBottom: '1rem',
+              fontSize: '0.875rem',
+              boxSizing: 'border-box'
+            }}>
+              {t(locale, 'practice_mode_banner')}
+            </div>
+          )}
+          {currentSection && (
+            <div style={{
+              backgroundColor: 'var(--card)',
+              border: '1px solid var(--border)',
+              borderRadius: '0.5rem',
+              padding: '1rem 1.5rem',
+              marginBottom: '1.5rem',
+              width: '100%',
+              boxSizing: 'border-box'
+            }}>
+              <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.5rem', marginBottom: '0.75rem' }}>
+                {sections.map((s) => {
+                  const isCurrent = s.index === currentSection.index;
+                  const canOpen = s.status === "open" && !disabled && !sectionBusy;
+                  return (
+                    <button
+                      key={s.id}
+                      type="button"
+                      className={`btn btn-sm ${isCurrent ? 'btn-primary' : 'btn-outline'}`}
+                      disabled={!isCurrent && !canOpen}
+                      onClick={() => { if (canOpen) void goToSection(s.index); }}
+                      title={s.status === "closed" ? t(locale, 'section_closed_label') : undefined}
+                    >
+                      {s.index + 1}. {s.title || t(locale, 'section_of_total', { current: s.index + 1, total: sections.length })}
+                      {s.status === "closed" && !isCurrent ? ` · ${t(locale, 'section_closed_label')}` : ''}
+                    </button>
+                  );
+                })}
+              </div>
+              <h2 style={{ fontSize: '1.125rem', fontWeight: 600, margin: 0 }}>
+                {currentSection.title || t(locale, 'section_of_total', { current: currentSection.index + 1, total: sections.length })}
+              </h2>
+              {currentSection.instructions && (
+                <p style={{ margin: '0.5rem 0 0 0', color: 'var(--muted-foreground)', whiteSpace: 'pre-wrap' }}>
+                  {currentSection.instructions}
+                </p>
+              )}
+            </div>
+          )}
+
           {displayMode === "per_question" ? (
             <div style={{ width: '100%' }}>
               {/* Current Question */}
@@ -928,6 +1242,9 @@ export default function AttemptPage() {
                     onSave={saveNow}
                     disabled={disabled}
                     attemptId={attemptId}
+                    feedback={feedback[questions[currentIdx].id] ?? null}
+                    onCheck={practice ? () => void checkAnswer(questions[currentIdx]) : undefined}
+                    checking={checkingId === questions[currentIdx].id}
                   />
                 </div>
               )}
@@ -964,7 +1281,15 @@ export default function AttemptPage() {
                     {t(locale, 'save')}
                   </button>
 
-                  {currentIdx === questions.length - 1 ? (
+                  {currentIdx === questions.length - 1 && nextSection ? (
+                    <button 
+                      className="btn btn-primary"
+                      onClick={onNextSection}
+                      disabled={disabled || sectionBusy}
+                    >
+                      {t(locale, 'next_section')} <span style={{ marginLeft: '0.25rem' }}>→</span>
+                    </button>
+                  ) : currentIdx === questions.length - 1 ? (
                     <button 
                       className="btn btn-primary"
                       onClick={() => setShowSubmitConfirm(true)}
@@ -1029,6 +1354,9 @@ export default function AttemptPage() {
                       onSave={saveNow}
                       disabled={disabled}
                       attemptId={attemptId}
+                      feedback={feedback[q.id] ?? null}
+                      onCheck={practice ? () => void checkAnswer(q) : undefined}
+                      checking={checkingId === q.id}
                     />
                   </div>
                 ))}
@@ -1041,34 +1369,45 @@ export default function AttemptPage() {
                 justifyContent: 'center',
                 width: '100%'
               }}>
-                <button 
-                  className="btn btn-primary"
-                  onClick={() => setShowSubmitConfirm(true)}
-                  disabled={disabled || submitting}
-                  style={{ minWidth: '200px' }}
-                >
-                  {submitting ? (
-                    <>
-                      <div style={{ 
-                        width: '16px', 
-                        height: '16px', 
-                        border: '2px solid white', 
-                        borderTop: '2px solid transparent', 
-                        borderRadius: '50%',
-                        animation: 'spin 1s linear infinite',
-                        marginRight: '0.5rem'
-                      }}></div>
-                      {t(locale, 'submitting')}
-                    </>
-                  ) : (
-                    <>
-                      <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" style={{ marginRight: '0.5rem' }}>
-                        <path d="M20 6L9 17l-5-5"/>
-                      </svg>
-                      {t(locale, 'submit_exam')}
-                    </>
-                  )}
-                </button>
+                {nextSection ? (
+                  <button 
+                    className="btn btn-primary"
+                    onClick={onNextSection}
+                    disabled={disabled || sectionBusy}
+                    style={{ minWidth: '200px' }}
+                  >
+                    {t(locale, 'next_section')} <span style={{ marginLeft: '0.5rem' }}>→</span>
+                  </button>
+                ) : (
+                  <button 
+                    className="btn btn-primary"
+                    onClick={() => setShowSubmitConfirm(true)}
+                    disabled={disabled || submitting}
+                    style={{ minWidth: '200px' }}
+                  >
+                    {submitting ? (
+                      <>
+                        <div style={{ 
+                          width: '16px', 
+                          height: '16px', 
+                          border: '2px solid white', 
+                          borderTop: '2px solid transparent', 
+                          borderRadius: '50%',
+                          animation: 'spin 1s linear infinite',
+                          marginRight: '0.5rem'
+                        }}></div>
+                        {t(locale, 'submitting')}
+                      </>
+                    ) : (
+                      <>
+                        <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" style={{ marginRight: '0.5rem' }}>
+                          <path d="M20 6L9 17l-5-5"/>
+                        </svg>
+                        {t(locale, 'submit_exam')}
+                      </>
+                    )}
+                  </button>
+                )}
               </div>
             </div>
           )}
@@ -1298,6 +1637,160 @@ export default function AttemptPage() {
         </div>
       )}
 
+      {/* Proctor pause: the timer is stopped and answers are locked until resumed */}
+      {paused && (
+        <div style={{
+          position: 'fixed',
+          inset: 0,
+          backgroundColor: 'rgba(17, 24, 39, 0.75)',
+          zIndex: 70,
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          padding: '1rem'
+        }}>
+          <div style={{
+            backgroundColor: 'white',
+            borderRadius: '0.5rem',
+            padding: '1.5rem',
+            maxWidth: '400px',
+            width: '100%',
+            textAlign: 'center'
+          }}>
+            <h3 style={{ fontSize: '1.125rem', fontWeight: '600', margin: '0 0 0.75rem 0', color: '#111827' }}>
+              {t(locale, 'exam_paused')}
+            </h3>
+            <p style={{ color: '#4b5563', margin: 0, fontSize: '0.95rem' }}>
+              {t(locale, 'exam_paused_hint')}
+            </p>
+          </div>
+        </div>
+      )}
+
+      {/* Lockdown: questions stay hidden until the page is in full screen */}
+      {lockdownPolicy.enabled && lockdown.supported && !lockdown.isFullscreen && !disabled && (
+        <div style={{
+          position: 'fixed',
+          inset: 0,
+          backgroundColor: 'rgba(17, 24, 39, 0.95)',
+          zIndex: 65,
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          padding: '1rem'
+        }}>
+          <div style={{
+            backgroundColor: 'white',
+            borderRadius: '0.5rem',
+            padding: '1.5rem',
+            maxWidth: '420px',
+            width: '100%',
+            textAlign: 'center'
+          }}>
+            <h3 style={{ fontSize: '1.125rem', fontWeight: '600', margin: '0 0 0.75rem 0', color: '#111827' }}>
+              {t(locale, 'lockdown_title')}
+            </h3>
+            <p style={{ color: '#4b5563', margin: '0 0 1rem 0', fontSize: '0.95rem' }}>
+              {t(locale, 'lockdown_hint')}
+            </p>
+            <button
+              onClick={() => { void lockdown.enterFullscreen(); }}
+              style={{
+                backgroundColor: '#3b82f6',
+                color: 'white',
+                border: 'none',
+                borderRadius: '0.375rem',
+                padding: '0.5rem 1rem',
+                fontSize: '0.875rem',
+                fontWeight: '500',
+                cursor: 'pointer'
+              }}
+            >
+              {t(locale, 'lockdown_enter')}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Lockdown violation warning */}
+      {lockdownWarning && (
+        <div style={{
+          position: 'fixed',
+          top: '50%',
+          left: '50%',
+          transform: 'translate(-50%, -50%)',
+          backgroundColor: '#fef2f2',
+          border: '2px solid #ef4444',
+          borderRadius: '0.5rem',
+          padding: '1.5rem',
+          zIndex: 75,
+          maxWidth: '400px',
+          width: '90%',
+          textAlign: 'center',
+          boxShadow: '0 10px 25px rgba(0, 0, 0, 0.1)'
+        }}>
+          <p style={{ color: '#991b1b', margin: '0 0 1rem 0', fontSize: '1rem' }}>
+            {lockdownWarning}
+          </p>
+          <button
+            onClick={() => setLockdownWarning(null)}
+            style={{
+              backgroundColor: '#ef4444',
+              color: 'white',
+              border: 'none',
+              borderRadius: '0.375rem',
+              padding: '0.5rem 1rem',
+              fontSize: '0.875rem',
+              fontWeight: '500',
+              cursor: 'pointer'
+            }}
+          >
+            {t(locale, 'understood')}
+          </button>
+        </div>
+      )}
+
+      {/* Message from the proctor */}
+      {proctorMessage && (
+        <div style={{
+          position: 'fixed',
+          top: '50%',
+          left: '50%',
+          transform: 'translate(-50%, -50%)',
+          backgroundColor: '#eff6ff',
+          border: '2px solid #3b82f6',
+          borderRadius: '0.5rem',
+          padding: '1.5rem',
+          zIndex: 80,
+          maxWidth: '400px',
+          width: '90%',
+          textAlign: 'center',
+          boxShadow: '0 10px 25px rgba(0, 0, 0, 0.1)'
+        }}>
+          <h3 style={{ fontSize: '1.125rem', fontWeight: '600', margin: '0 0 1rem 0', color: '#1d4ed8' }}>
+            {t(locale, 'proctor_message')}
+          </h3>
+          <p style={{ color: '#1e3a8a', margin: '0 0 1rem 0', fontSize: '1rem', whiteSpace: 'pre-wrap' }}>
+            {proctorMessage}
+          </p>
+          <button
+            onClick={() => setProctorMessage(null)}
+            style={{
+              backgroundColor: '#3b82f6',
+              color: 'white',
+              border: 'none',
+              borderRadius: '0.375rem',
+              padding: '0.5rem 1rem',
+              fontSize: '0.875rem',
+              fontWeight: '500',
+              cursor: 'pointer'
+            }}
+          >
+            {t(locale, 'understood')}
+          </button>
+        </div>
+      )}
+
       {/* Add CSS animation for spinner */}
       <style dangerouslySetInnerHTML={{
         __html: `
@@ -18,6 +18,20 @@ interface ExamResult {
   score_percentage: number | null;
   is_pass?: boolean | null;
   pass_threshold?: number | null;
+  grade?: string | null;
+  // Results not released yet; release_at is set when the release is scheduled
+  results_pending?: boolean;
+  release_at?: string | null;
+  score_policy?: "best" | "last" | "average" | "first";
+  review_available?: boolean;
+  attempts?: {
+    id: string;
+    attempt_number: number;
+    submitted_at: string | null;
+    score_percentage: number | null;
+    is_official: boolean;
+    review_available?: boolean;
+  }[];
 }
 
 interface PublicSettings {
@@ -344,9 +358,23 @@ export default function PublicResultsPage({
                         <div className="text-sm text-gray-500">
                           {r.submitted_at ? new Date(r.submitted_at).toLocaleString() : '—'}
                         </div>
+                        {r.review_available && (
+                          <a href={`/review/${r.id}`} className="text-sm text-blue-600 hover:underline">
+                            {t(locale, 'review_answers')}
+                          </a>
+                        )}
+                        {r.results_pending && r.release_at && (
+                          <div className="text-sm text-gray-500">
+                            {t(locale, 'results_release_on', { date: new Date(r.release_at).toLocaleString() })}
+                          </div>
+                        )}
                       </div>
                       <div className="flex items-center gap-3">
-                        {typeof r.score_percentage === 'number' ? (
+                        {r.results_pending ? (
+                          <span className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-gray-100 text-gray-700">
+                            {t(locale, 'results_pending')}
+                          </span>
+                        ) : typeof r.score_percentage === 'number' ? (
                           <div className={`font-bold text-lg px-3 py-1 rounded-lg ${
                             r.score_percentage >= 80 ? 'bg-green-50 text-green-700' :
                             r.score_percentage >= 60 ? 'bg-yellow-50 text-yellow-700' : 'bg-red-50 text-red-700'
@@ -370,15 +398,40 @@ export default function PublicResultsPage({
                             </svg>
                             {t(locale, 'fail')}
                           </span>
-                        ) : (typeof r.score_percentage === 'number' && typeof r.pass_threshold === 'number') ? (
-                          (r.score_percentage >= r.pass_threshold ? (
-                            <span className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-green-100 text-green-800">{t(locale, 'pass')}</span>
-                          ) : (
-                            <span className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-red-100 text-red-800">{t(locale, 'fail')}</span>
-                          ))
                         ) : null}
+                        {r.grade && (
+                          <span className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-indigo-100 text-indigo-800">
+                            {t(locale, 'grade_label', { grade: r.grade })}
+                          </span>
+                        )}
                       </div>
                     </div>
+                    {r.attempts && r.attempts.length > 1 && (
+                      <div className="mt-3 rounded-lg bg-gray-50 px-3 py-2 text-sm">
+                        {r.score_policy && (
+                          <div className="text-xs text-gray-500 mb-1">{t(locale, `score_policy_${r.score_policy}`)}</div>
+                        )}
+                        <ul className="space-y-1">
+                          {r.attempts.map((a) => (
+                            <li key={a.id} className={`flex items-center justify-between ${a.is_official ? 'font-semibold text-gray-900' : 'text-gray-600'}`}>
+                              <span>
+                                {t(locale, 'attempt_n', { n: a.attempt_number })}
+                                {a.submitted_at ? ` · ${new Date(a.submitted_at).toLocaleString()}` : ''}
+                              </span>
+                              <span>
+                                {a.review_available && !a.is_official && (
+                                  <a href={`/review/${a.id}`} className="text-blue-600 hover:underline font-normal" style={{ marginInlineEnd: '0.5rem' }}>
+                                    {t(locale, 'review_answers')}
+                                  </a>
+                                )}
+                                {typeof a.score_percentage === 'number' ? `${a.score_percentage}%` : '-'}
+                                {a.is_official && <span className="text-amber-500" style={{ marginInlineStart: '0.25rem' }}>★</span>}
+                              </span>
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
                   </li>
                 ))}
               </ul>
@@ -0,0 +1,188 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useParams } from "next/navigation";
+import BrandLogo from "@/components/BrandLogo";
+import ExamQuestion, { type AnswerValue } from "@/components/ExamQuestion";
+import { useStudentLocale } from "@/components/public/PublicLocaleProvider";
+import { t } from "@/i18n/student";
+import type { AttemptReview } from "@/lib/types";
+
+function isAnswered(v: unknown): boolean {
+  if (v === null || v === undefined) return false;
+  if (Array.isArray(v)) return v.length > 0;
+  if (typeof v === "string") return v.trim() !== "";
+  return true;
+}
+
+const fmtPts = (n: number) => String(Math.round(n * 100) / 100);
+
+export default function ReviewPage() {
+  const [attemptId, setAttemptId] = useState<string | null>(null);
+  const [code, setCode] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [review, setReview] = useState<AttemptReview | null>(null);
+  const { locale, dir } = useStudentLocale();
+
+  const routeParams = useParams();
+  // Resolve attemptId from router params with fallback from pathname; the thank-you page passes ?code=
+  useEffect(() => {
+    let id: string | null = null;
+    const v = routeParams?.attemptId;
+    id = typeof v === "string" ? v : Array.isArray(v) ? v[0] : null;
+    if (!id) {
+      try {
+        const m = window.location.pathname.match(/\/review\/([^\/?#]+)/);
+        if (m) id = decodeURIComponent(m[1]);
+      } catch {}
+    }
+    setAttemptId(id);
+    try {
+      const fromUrl = new URLSearchParams(window.location.search).get("code")?.trim();
+      if (fromUrl && id) {
+        setCode(fromUrl);
+        void openReview(id, fromUrl);
+      }
+    } catch {}
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [routeParams]);
+
+  function formatDate(iso: string) {
+    try { return new Date(iso).toLocaleString(locale); } catch { return iso; }
+  }
+
+  async function openReview(id: string, value: string) {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/attempts/${id}/review`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ code: value }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        switch (data?.error) {
+          case "code_required": setError(t(locale, "err_code_required")); break;
+          case "review_not_allowed": setError(t(locale, "review_not_allowed")); break;
+          case "attempt_not_submitted": setError(t(locale, "review_not_submitted")); break;
+          case "review_not_released":
+            setError(t(locale, "review_not_released", { date: data?.release_at ? formatDate(data.release_at) : "" }));
+            break;
+          case "results_not_released":
+            setError(
+              data?.release_at
+                ? t(locale, "results_release_on", { date: formatDate(data.release_at) })
+                : t(locale, "results_not_released")
+            );
+            break;
+          case "attempt_not_found": setError(t(locale, "review_not_found")); break;
+          default: setError(data?.error || t(locale, "unable_load_exam"));
+        }
+        return;
+      }
+      setReview(data as AttemptReview);
+    } catch {
+      setError(t(locale, "unable_load_exam"));
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  if (!review) {
+    return (
+      <main dir={dir} lang={locale} className="min-h-screen bg-[var(--background)] flex items-center justify-center p-4">
+        <div className="w-full max-w-md bg-[var(--card)] rounded-lg border border-[var(--border)] p-8 shadow-sm">
+          <div className="mb-6 text-center">
+            <BrandLogo useAppSettings={true} size="md" />
+          </div>
+          <h1 className="text-2xl font-bold text-[var(--foreground)] mb-2 text-center">{t(locale, "review_title")}</h1>
+          <p className="text-[var(--muted-foreground)] mb-6 text-center">{t(locale, "review_enter_code")}</p>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (attemptId) void openReview(attemptId, code.trim());
+            }}
+            className="space-y-4"
+          >
+            <label className="block">
+              <span className="block text-sm font-medium mb-1">{t(locale, "exam_code")}</span>
+              <input
+                type="text"
+                className="w-full px-4 py-3 text-center text-xl font-mono tracking-[0.3em] border-2 border-gray-300 rounded-xl focus:border-blue-500 focus:ring-4 focus:ring-blue-100 transition-all duration-200 bg-gray-50 focus:bg-white"
+                value={code}
+                onChange={(e) => setCode(e.target.value.toUpperCase())}
+                autoComplete="off"
+                inputMode="text"
+                dir="ltr"
+              />
+            </label>
+            {error && (
+              <div role="alert" className="bg-red-50 border border-red-200 text-red-800 rounded-lg p-3 text-sm">{error}</div>
+            )}
+            <button type="submit" className="btn btn-primary w-full" disabled={loading || !attemptId || !code.trim()}>
+              {loading ? t(locale, "loading_generic") : t(locale, "review_open")}
+            </button>
+          </form>
+        </div>
+      </main>
+    );
+  }
+
+  return (
+    <main dir={dir} lang={locale} className="min-h-screen bg-[var(--background)] p-4">
+      <div className="w-full max-w-3xl mx-auto space-y-6">
+        <div className="bg-[var(--card)] rounded-lg border border-[var(--border)] p-6 shadow-sm">
+          <div className="mb-4">
+            <BrandLogo useAppSettings={true} size="sm" />
+          </div>
+          <h1 className="text-2xl font-bold text-[var(--foreground)]">{review.exam_title}</h1>
+          <p className="text-sm text-[var(--muted-foreground)] mt-1">
+            {t(locale, "review_title")}
+            {review.student_name ? ` · ${review.student_name}` : ""}
+            {` · ${formatDate(review.submitted_at)}`}
+          </p>
+          {typeof review.score_percentage === "number" && (
+            <p className="mt-3 text-lg font-semibold text-[var(--foreground)]">
+              {t(locale, "review_score", { score: fmtPts(review.score_percentage) })}
+            </p>
+          )}
+        </div>
+
+        {review.questions.map((rq, i) => {
+          const max = rq.question.points ?? 1;
+          return (
+            <section key={rq.question.id} className="bg-[var(--card)] rounded-lg border border-[var(--border)] p-6 shadow-sm space-y-3">
+              <div className="flex items-center justify-between text-sm text-[var(--muted-foreground)]">
+                <span>{t(locale, "question_of_total", { current: i + 1, total: review.questions.length })}</span>
+                <span className="font-medium text-[var(--foreground)]">
+                  {rq.earned_points === null
+                    ? t(locale, "review_points_pending", { max })
+                    : t(locale, "review_points", { earned: fmtPts(rq.earned_points), max })}
+                </span>
+              </div>
+              <ExamQuestion
+                q={rq.question}
+                value={rq.answer as AnswerValue}
+                onChange={() => {}}
+                disabled
+                feedback={rq.feedback}
+                reviewing
+              />
+              {!isAnswered(rq.answer) && (
+                <p className="text-sm text-[var(--muted-foreground)]">{t(locale, "review_not_answered")}</p>
+              )}
+              {rq.notes && (
+                <div className="rounded-lg border border-blue-200 bg-blue-50 p-4 text-sm text-blue-900">
+                  <p className="font-medium">{t(locale, "review_notes")}</p>
+                  <p className="whitespace-pre-line" dir="auto">{rq.notes}</p>
+                </div>
+              )}
+            </section>
+          );
+        })}
+      </div>
+    </main>
+  );
+}
@@ -24,6 +24,7 @@ interface AttemptInfo {
   student_name?: string;
   exam_title?: string;
   submitted_at?: string;
+  review_available?: boolean;
 }
 
 export default function ThankYouPage() {
@@ -321,6 +322,20 @@ export default function ThankYouPage() {
             <p className="text-blue-800 text-sm">{t(locale, "thank_you_default_message")}</p>
           </div>
 
+          {/* Post-exam review, when the exam allows it and it has been released */}
+          {attemptInfo?.review_available && attemptInfo.student_code && (
+            <button
+              onClick={() => {
+                const url = `/review/${attemptId}?code=${encodeURIComponent(attemptInfo.student_code ?? "")}`;
+                try { router.push(url); } catch { window.location.href = url; }
+              }}
+              className="btn btn-outline"
+              style={{ marginInlineEnd: '0.5rem' }}
+            >
+              {t(locale, "review_answers")}
+            </button>
+          )}
+
           {/* Action Button */}
           <button
             onClick={() => window.close()}
@@ -4,6 +4,8 @@ import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { authFetch } from "@/lib/authFetch";
 import { useToast } from "@/components/ToastProvider";
+import { useAdmin } from "@/hooks/useAdmin";
+import { PERMISSIONS } from "@/lib/auth/edge-permissions";
 
 interface BlockedEntry {
   id: string;
@@ -22,6 +24,7 @@ export default function AdminEasterEggPage() {
 
   const toast = useToast();
   const queryClient = useQueryClient();
+  const { can } = useAdmin();
 
   // Query blocked entries
   const { data: blockedEntries = [], isLoading, error } = useQuery({
@@ -116,85 +119,87 @@ export default function AdminEasterEggPage() {
       </div>
 
       {/* Add New Block Form */}
-      <div className="bg-white rounded-xl shadow-lg border border-purple-100 overflow-hidden">
-        <div className="bg-gradient-to-r from-purple-50 to-blue-50 px-6 py-4 border-b border-purple-100">
-          <div className="flex items-center justify-between">
-            <div className="flex items-center gap-3">
-              <div className="text-2xl">🚫</div>
-              <h2 className="text-xl font-semibold text-gray-900">Block New Entry</h2>
+      {can(PERMISSIONS.ATTEMPTS_MANAGE) && (
+        <div className="bg-white rounded-xl shadow-lg border border-purple-100 overflow-hidden">
+          <div className="bg-gradient-to-r from-purple-50 to-blue-50 px-6 py-4 border-b border-purple-100">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-3">
+                <div className="text-2xl">🚫</div>
+                <h2 className="text-xl font-semibold text-gray-900">Block New Entry</h2>
+              </div>
+              <button
+                onClick={() => setShowForm(!showForm)}
+                className="px-4 py-2 bg-gradient-to-r from-red-500 to-pink-500 text-white rounded-lg hover:from-red-600 hover:to-pink-600 transition-all transform hover:scale-105 shadow-md"
+              >
+                {showForm ? "❌ Cancel" : "➕ Add Block"}
+              </button>
             </div>
-            <button
-              onClick={() => setShowForm(!showForm)}
-              className="px-4 py-2 bg-gradient-to-r from-red-500 to-pink-500 text-white rounded-lg hover:from-red-600 hover:to-pink-600 transition-all transform hover:scale-105 shadow-md"
-            >
-              {showForm ? "❌ Cancel" : "➕ Add Block"}
-            </button>
           </div>
-        </div>
 
-        {showForm && (
-          <div className="p-6">
-            <form onSubmit={handleSubmit} className="space-y-6">
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">
-                    🎯 Block Type
-                  </label>
-                  <select
-                    value={newType}
-                    onChange={(e) => setNewType(e.target.value as "name" | "ip" | "mobile")}
-                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent transition-all"
-                  >
-                    <option value="name">👤 Student Name</option>
-                    <option value="ip">🌐 IP Address</option>
-                    <option value="mobile">📱 Mobile Number</option>
-                  </select>
+          {showForm && (
+            <div className="p-6">
+              <form onSubmit={handleSubmit} className="space-y-6">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      🎯 Block Type
+                    </label>
+                    <select
+                      value={newType}
+                      onChange={(e) => setNewType(e.target.value as "name" | "ip" | "mobile")}
+                      className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent transition-all"
+                    >
+                      <option value="name">👤 Student Name</option>
+                      <option value="ip">🌐 IP Address</option>
+                      <option value="mobile">📱 Mobile Number</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      {newType === "name" ? "👤 Student Name" : newType === "ip" ? "🌐 IP Address" : "📱 Mobile Number"}
+                    </label>
+                    <input
+                      type={newType === "mobile" ? "tel" : "text"}
+                      value={newValue}
+                      onChange={(e) => setNewValue(e.target.value)}
+                      placeholder={
+                        newType === "name" 
+                          ? "Enter student name..." 
+                          : newType === "ip" 
+                          ? "Enter IP address..." 
+                          : "Enter mobile number..."
+                      }
+                      className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent transition-all"
+                      required
+                    />
+                  </div>
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
-                    {newType === "name" ? "👤 Student Name" : newType === "ip" ? "🌐 IP Address" : "📱 Mobile Number"}
+                    📝 Reason (Optional)
                   </label>
                   <input
-                    type={newType === "mobile" ? "tel" : "text"}
-                    value={newValue}
-                    onChange={(e) => setNewValue(e.target.value)}
-                    placeholder={
-                      newType === "name" 
-                        ? "Enter student name..." 
-                        : newType === "ip" 
-                        ? "Enter IP address..." 
-                        : "Enter mobile number..."
-                    }
+                    type="text"
+                    value={newReason}
+                    onChange={(e) => setNewReason(e.target.value)}
+                    placeholder="Why is this being blocked?"
                     className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent transition-all"
-                    required
                   />
                 </div>
-              </div>
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  📝 Reason (Optional)
-                </label>
-                <input
-                  type="text"
-                  value={newReason}
-                  onChange={(e) => setNewReason(e.target.value)}
-                  placeholder="Why is this being blocked?"
-                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent transition-all"
-                />
-              </div>
-              <div className="flex justify-end">
-                <button
-                  type="submit"
-                  disabled={addMutation.isPending}
-                  className="px-6 py-3 bg-gradient-to-r from-red-500 to-pink-500 text-white rounded-lg hover:from-red-600 hover:to-pink-600 disabled:opacity-50 transition-all transform hover:scale-105 shadow-md font-medium"
-                >
-                  {addMutation.isPending ? "🔄 Adding..." : "🚫 Block Entry"}
-                </button>
-              </div>
-            </form>
-          </div>
-        )}
-      </div>
+                <div className="flex justify-end">
+                  <button
+                    type="submit"
+                    disabled={addMutation.isPending}
+                    className="px-6 py-3 bg-gradient-to-r from-red-500 to-pink-500 text-white rounded-lg hover:from-red-600 hover:to-pink-600 disabled:opacity-50 transition-all transform hover:scale-105 shadow-md font-medium"
+                  >
+                    {addMutation.isPending ? "🔄 Adding..." : "🚫 Block Entry"}
+                  </button>
+                </div>
+              </form>
+            </div>
+          )}
+        </div>
+      )}
 
       {/* Blocked Entries List */}
       <div className="bg-white rounded-xl shadow-lg border border-purple-100 overflow-hidden">
@@ -283,13 +288,15 @@ export default function AdminEasterEggPage() {
                         Blocked on {new Date(entry.created_at).toLocaleString()} by {entry.created_by}
                       </p>
                     </div>
-                    <button
-                      onClick={() => removeMutation.mutate(entry.id)}
-                      disabled={removeMutation.isPending}
-                      className="ml-6 px-4 py-2 bg-gradient-to-r from-gray-100 to-gray-200 text-gray-700 rounded-lg hover:from-gray-200 hover:to-gray-300 disabled:opacity-50 transition-all transform hover:scale-105 shadow-sm font-medium"
-                    >
-                      {removeMutation.isPending ? "🔄" : "🔓 Unblock"}
-                    </button>
+                    {can(PERMISSIONS.ATTEMPTS_MANAGE) && (
+                      <button
+                        onClick={() => removeMutation.mutate(entry.id)}
+                        disabled={removeMutation.isPending}
+                        className="ml-6 px-4 py-2 bg-gradient-to-r from-gray-100 to-gray-200 text-gray-700 rounded-lg hover:from-gray-200 hover:to-gray-300 disabled:opacity-50 transition-all transform hover:scale-105 shadow-sm font-medium"
+                      >
+                        {removeMutation.isPending ? "🔄" : "🔓 Unblock"}
+                      </button>
+                    )}
                   </div>
                 </div>
               ))}
@@ -9,11 +9,21 @@ import { useToast } from "@/components/ToastProvider";
 import ModernCard from "@/components/admin/ModernCard";
 import ActionButton from "@/components/admin/ActionButton";
 import StatusBadge from "@/components/admin/StatusBadge";
+import type { QuestionPoolSettings } from "@/lib/questionPools";
+import type { ExamSection, LockdownAction, ScheduleError, ScoringMode, StudentGroup } from "@/lib/types";
+import { SCORING_MODES, parseScoringPolicy } from "@/lib/scoring";
+import { LOCKDOWN_ACTIONS, parseLockdownPolicy } from "@/lib/lockdown";
+import { parseReviewPolicy } from "@/lib/review";
+import { SCORE_POLICIES, parseAttemptPolicy } from "@/lib/attemptPolicy";
+import { allowSectionReturn, newSection, parseSections, sectionIssues } from "@/lib/examSections";
+import { useAdmin } from "@/hooks/useAdmin";
+import { PERMISSIONS } from "@/lib/auth/edge-permissions";
 
 export default function AdminEditExamPage() {
   const queryClient = useQueryClient();
   const router = useRouter();
   const toast = useToast();
+  const { can } = useAdmin();
   const { examId } = useParams<{ examId: string }>();
 
   const { data, isLoading, error } = useQuery({
@@ -27,8 +37,69 @@ export default function AdminEditExamPage() {
     },
   });
 
+  const { data: pools } = useQuery({
+    queryKey: ["admin", "pools"],
+    queryFn: async () => {
+      const res = await authFetch(`/api/admin/pools`);
+      const result = await res.json();
+      if (!res.ok) throw new Error(result?.error || "Load failed");
+      return (result.items || []) as { id: string; name: string; category: string | null; question_count: number }[];
+    },
+  });
+
+  const { data: questions } = useQuery({
+    queryKey: ["admin", "exam", examId, "questions"],
+    enabled: !!examId,
+    queryFn: async () => {
+      const res = await authFetch(`/api/admin/exams/${examId}/questions`);
+      const result = await res.json();
+      if (!res.ok) throw new Error(result?.error || "Load failed");
+      return (result.items || []) as { id: string; question_text: string }[];
+    },
+  });
+
+  const { data: groups } = useQuery({
+    queryKey: ["admin", "groups"],
+    queryFn: async () => {
+      const res = await authFetch(`/api/admin/groups`);
+      const result = await res.json();
+      if (!res.ok) throw new Error(result?.error || "Load failed");
+      return (result.items || []) as StudentGroup[];
+    },
+  });
+
+  const { data: assignedGroupIds } = useQuery({
+    queryKey: ["admin", "exam", examId, "groups"],
+    enabled: !!examId,
+    queryFn: async () => {
+      const res = await authFetch(`/api/admin/exams/${examId}/groups`);
+      const result = await res.json();
+      if (!res.ok) throw new Error(result?.error || "Load failed");
+      return (result.group_ids || []) as string[];
+    },
+  });
+
+  // Unsaved group assignment; null until the admin changes it
+  const [groupSelection, setGroupSelection] = useState<string[] | null>(null);
+  const selectedGroupIds = groupSelection ?? assignedGroupIds ?? [];
+
   const [localChanges, setLocalChanges] = useState<any>(null);
   const exam = localChanges ?? data;
+  const questionPool: Partial<QuestionPoolSettings> = exam?.settings?.question_pool || {};
+  const scoringPolicy = parseScoringPolicy(exam?.settings);
+  const lockdownPolicy = parseLockdownPolicy(exam?.settings);
+  const reviewPolicy = parseReviewPolicy(exam?.settings);
+  const attemptPolicy = parseAttemptPolicy(exam?.settings);
+  // Edited as entered; parseResultPolicy drops incomplete bands when results are graded
+  const gradeBands: { label: string; min_percentage: number | string }[] = Array.isArray(exam?.settings?.grade_bands)
+    ? exam.settings.grade_bands
+    : [];
+  const setGradeBand = (index: number, patch: Partial<{ label: string; min_percentage: number | string }>) =>
+    updateSetting("grade_bands", gradeBands.map((b, i) => (i === index ? { ...b, ...patch } : b)));
+  const scheduleErr = (exam?.settings?.schedule_error ?? null) as ScheduleError | null;
+  const sections = parseSections(exam?.settings);
+  const sectionProblems = sectionIssues(sections);
+  const sectionMinutes = sections.reduce((sum, s) => sum + (s.duration_minutes || 0), 0);
 
   const publishMutation = useMutation({
     mutationFn: async () => {
@@ -66,6 +137,7 @@ export default function AdminEditExamPage() {
 
   const saveMutation = useMutation({
     mutationFn: async () => {
+      if (sectionProblems.length > 0) throw new Error(sectionProblems[0]);
       const res = await authFetch(`/api/admin/exams/${examId}`, {
         method: "PATCH",
         headers: { "Content-Type": "application/json" },
@@ -85,6 +157,30 @@ export default function AdminEditExamPage() {
     },
   });
 
+  const groupsMutation = useMutation({
+    mutationFn: async () => {
+      const res = await authFetch(`/api/admin/exams/${examId}/groups`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ group_ids: selectedGroupIds }),
+      });
+      const result = await res.json();
+      if (!res.ok) throw new Error(result?.error || "Save failed");
+      return result.group_ids as string[];
+    },
+    onSuccess: (ids) => {
+      queryClient.setQueryData(["admin", "exam", examId, "groups"], ids);
+      setGroupSelection(null);
+      toast.success({
+        title: "Assignment Saved",
+        message: ids.length > 0 ? `Only members of ${ids.length} group(s) can take this exam` : "Every student code can take this exam",
+      });
+    },
+    onError: (error: any) => {
+      toast.error({ title: "Save Failed", message: error.message || "Unknown error" });
+    },
+  });
+
   const deleteMutation = useMutation({
     mutationFn: async () => {
       const res = await authFetch(`/api/admin/exams/${examId}`, { method: "DELETE" });
@@ -120,6 +216,39 @@ export default function AdminEditExamPage() {
     });
   };
 
+  const updatePoolSetting = (updates: Partial<QuestionPoolSettings>) => {
+    updateSetting("question_pool", { ...questionPool, ...updates });
+  };
+
+  const updateSection = (index: number, updates: Partial<ExamSection>) => {
+    updateSetting("sections", sections.map((s, i) => (i === index ? { ...s, ...updates } : s)));
+  };
+
+  const moveSection = (index: number, delta: number) => {
+    const next = [...sections];
+    const [moved] = next.splice(index, 1);
+    next.splice(index + delta, 0, moved);
+    updateSetting("sections", next);
+  };
+
+  // A question lives in one section; checking it elsewhere moves it
+  const assignQuestion = (index: number, questionId: string, checked: boolean) => {
+    updateSetting(
+      "sections",
+      sections.map((s, i) => {
+        const rest = s.question_ids.filter((id) => id !== questionId);
+        return { ...s, question_ids: checked && i === index ? [...rest, questionId] : rest };
+      })
+    );
+  };
+
+  const togglePool = (poolId: string, checked: boolean) => {
+    const current = questionPool.pool_ids || [];
+    updatePoolSetting({
+      pool_ids: checked ? [...current, poolId] : current.filter((id) => id !== poolId),
+    });
+  };
+
   if (!examId || isLoading) {
     return (
       <div className="space-y-6">
@@ -187,7 +316,7 @@ export default function AdminEditExamPage() {
           </Link>
 
           
-          {exam.status === "draft" && (
+          {exam.status === "draft" && can(PERMISSIONS.EXAMS_PUBLISH) && (
             <ActionButton
               variant="success"
               size="sm"
@@ -198,7 +327,7 @@ export default function AdminEditExamPage() {
             </ActionButton>
           )}
           
-          {exam.status === "published" && (
+          {exam.status === "published" && can(PERMISSIONS.EXAMS_PUBLISH) && (
             <ActionButton
               variant="warning"
               size="sm"
@@ -319,9 +448,82 @@ export default function AdminEditExamPage() {
               onChange={(e) => updateExam({ duration_minutes: Number(e.target.value) || null })}
             />
           </div>
+
+          <div className="md:col-span-2 lg:col-span-3">
+            <div className="flex items-center gap-3">
+              <input
+                type="checkbox"
+                id="auto-schedule-edit"
+                className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                checked={exam.settings?.auto_schedule || false}
+                onChange={(e) => updateSetting("auto_schedule", e.target.checked)}
+              />
+              <label htmlFor="auto-schedule-edit" className="text-sm font-medium text-gray-700">
+                Automatic Scheduling
+              </label>
+            </div>
+            <p className="text-gray-500 text-xs mt-1 ml-7">
+              Publish the exam at its start time and close it at its end time. Attempts past their deadline are submitted either way.
+            </p>
+            {scheduleErr && (
+              <div className="mt-2 ml-7 flex items-center gap-3 text-sm text-red-700">
+                <span>Automatic publishing failed {new Date(scheduleErr.at).toLocaleString()}: {scheduleErr.reason}</span>
+                <button type="button" className="underline" onClick={() => updateSetting("schedule_error", null)}>
+                  Retry after saving
+                </button>
+              </div>
+            )}
+          </div>
         </div>
       </ModernCard>
 
+      {/* Group assignment */}
+      <ModernCard>
+        <div className="mb-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-2">Assigned Groups</h2>
+          <p className="text-gray-600 text-sm">
+            Limit a code-based exam to students in the selected groups. With no group selected, every student code can take it.
+            Manage groups on the Students page.
+          </p>
+        </div>
+        {exam.access_type !== "code_based" && (
+          <p className="text-amber-700 text-sm mb-3">Group assignment only applies to code-based exams.</p>
+        )}
+        {(groups ?? []).length === 0 ? (
+          <p className="text-gray-500 text-sm">No groups yet.</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
+            {(groups ?? []).map((g) => (
+              <label key={g.id} className="flex items-center gap-3 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  checked={selectedGroupIds.includes(g.id)}
+                  onChange={(e) =>
+                    setGroupSelection(
+                      e.target.checked ? [...selectedGroupIds, g.id] : selectedGroupIds.filter((id) => id !== g.id)
+                    )
+                  }
+                  disabled={!can(PERMISSIONS.EXAMS_EDIT)}
+                />
+                <span>{g.name}</span>
+                <span className="text-gray-400">{g.member_count} students</span>
+              </label>
+            ))}
+          </div>
+        )}
+        {can(PERMISSIONS.EXAMS_EDIT) && groupSelection !== null && (
+          <div className="mt-4 flex gap-2">
+            <ActionButton variant="primary" size="sm" onClick={() => groupsMutation.mutate()} loading={groupsMutation.isPending}>
+              Save Assignment
+            </ActionButton>
+            <ActionButton variant="secondary" size="sm" onClick={() => setGroupSelection(null)} disabled={groupsMutation.isPending}>
+              Discard
+            </ActionButton>
+          </div>
+        )}
+      </ModernCard>
+
       {/* Advanced Settings */}
       <ModernCard>
         <div className="mb-6">
@@ -336,11 +538,51 @@ export default function AdminEditExamPage() {
             </label>
             <input
               type="number"
-              min="1"
+              min="0"
               className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-              value={exam.settings?.attempt_limit || 1}
-              onChange={(e) => updateSetting("attempt_limit", Number(e.target.value))}
+              value={attemptPolicy.attempt_limit}
+              onChange={(e) => updateSetting("attempt_limit", Math.max(0, Math.trunc(Number(e.target.value) || 0)))}
             />
+            <p className="text-gray-500 text-xs mt-1">
+              Attempts per student; 0 allows unlimited attempts
+            </p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Cooldown Between Attempts
+            </label>
+            <div className="relative">
+              <input
+                type="number"
+                min="0"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 pr-16"
+                value={attemptPolicy.cooldown_minutes}
+                onChange={(e) => updateSetting("attempt_cooldown_minutes", Math.max(0, Math.trunc(Number(e.target.value) || 0)))}
+              />
+              <span className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-500 text-sm">min</span>
+            </div>
+            <p className="text-gray-500 text-xs mt-1">
+              Counted from the end of the previous attempt
+            </p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Official Score
+            </label>
+            <select
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              value={attemptPolicy.score_policy}
+              onChange={(e) => updateSetting("score_policy", e.target.value)}
+            >
+              {SCORE_POLICIES.map((p) => (
+                <option key={p.value} value={p.value}>{p.label}</option>
+              ))}
+            </select>
+            <p className="text-gray-500 text-xs mt-1">
+              {SCORE_POLICIES.find((p) => p.value === attemptPolicy.score_policy)?.description}
+            </p>
           </div>
 
           <div>
@@ -365,6 +607,56 @@ export default function AdminEditExamPage() {
             <p className="text-gray-500 text-xs mt-1">Minimum percentage required to pass. Leave empty to disable.</p>
           </div>
 
+          <div className="md:col-span-2 lg:col-span-3">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Grade Bands
+            </label>
+            <div className="space-y-2">
+              {gradeBands.map((band, i) => (
+                <div key={i} className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    className="w-40 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    placeholder="Label, e.g. A"
+                    value={band.label ?? ""}
+                    onChange={(e) => setGradeBand(i, { label: e.target.value })}
+                  />
+                  <span className="text-gray-500 text-sm">from</span>
+                  <input
+                    type="number"
+                    min="0"
+                    max="100"
+                    className="w-24 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    value={band.min_percentage ?? ""}
+                    onChange={(e) =>
+                      setGradeBand(i, {
+                        min_percentage: e.target.value === "" ? "" : Math.max(0, Math.min(100, Number(e.target.value))),
+                      })
+                    }
+                  />
+                  <span className="text-gray-500 text-sm">%</span>
+                  <button
+                    type="button"
+                    className="text-sm text-red-600 hover:underline"
+                    onClick={() => updateSetting("grade_bands", gradeBands.filter((_, j) => j !== i))}
+                  >
+                    Remove
+                  </button>
+                </div>
+              ))}
+              <button
+                type="button"
+                className="text-sm text-blue-600 hover:underline"
+                onClick={() => updateSetting("grade_bands", [...gradeBands, { label: "", min_percentage: "" }])}
+              >
+                + Add Band
+              </button>
+            </div>
+            <p className="text-gray-500 text-xs mt-1">
+              Optional. Each result gets the label of the highest band its score reaches, e.g. A from 90%, B from 80%, C from 70%.
+            </p>
+          </div>
+
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
               Auto-save Interval (seconds)
@@ -419,36 +711,512 @@ export default function AdminEditExamPage() {
               </label>
             </div>
           </div>
+
+          <div className="md:col-span-2 lg:col-span-3">
+            <div className="flex items-center gap-3">
+              <input
+                type="checkbox"
+                id="bind-device-edit"
+                className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                checked={exam.settings?.bind_device || false}
+                onChange={(e) => updateSetting("bind_device", e.target.checked)}
+              />
+              <label htmlFor="bind-device-edit" className="text-sm font-medium text-gray-700">
+                Bind Attempts to the Starting Browser
+              </label>
+            </div>
+            <p className="text-gray-500 text-xs mt-1 ml-7">
+              The attempt session only works from the browser it was started in. Code-based students who switch devices re-enter with their code.
+            </p>
+          </div>
+
+          <div className="md:col-span-2 lg:col-span-3">
+            <div className="flex items-center gap-3">
+              <input
+                type="checkbox"
+                id="practice-mode-edit"
+                className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                checked={exam.settings?.practice_mode === true}
+                onChange={(e) => updateSetting("practice_mode", e.target.checked)}
+              />
+              <label htmlFor="practice-mode-edit" className="text-sm font-medium text-gray-700">
+                Practice Mode
+              </label>
+            </div>
+            <p className="text-gray-500 text-xs mt-1 ml-7">
+              Students can check each answer as they go and see the correct answer with the question&apos;s explanation. Use it for ungraded practice only: the answer key is revealed.
+            </p>
+          </div>
+
+          <div className="md:col-span-2 lg:col-span-3">
+            <div className="flex items-center gap-3">
+              <input
+                type="checkbox"
+                id="allow-review-edit"
+                className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                checked={reviewPolicy.enabled}
+                onChange={(e) => updateSetting("allow_review", e.target.checked)}
+              />
+              <label htmlFor="allow-review-edit" className="text-sm font-medium text-gray-700">
+                Answer Review
+              </label>
+            </div>
+            <p className="text-gray-500 text-xs mt-1 ml-7">
+              After submitting, students can reopen their attempt read-only with their code and see their answers, the correct answers, points, grader notes and explanations.
+            </p>
+            {reviewPolicy.enabled && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-3 ml-7">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Review Opens At
+                  </label>
+                  <input
+                    type="datetime-local"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    value={toInputDate(reviewPolicy.release_at)}
+                    onChange={(e) => updateSetting("review_release_at", fromInputDate(e.target.value))}
+                  />
+                  <p className="text-gray-500 text-xs mt-1">Leave empty to open the review as soon as each attempt is submitted.</p>
+                </div>
+                <div className="flex items-center gap-3">
+                  <input
+                    type="checkbox"
+                    id="show-results-edit"
+                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    checked={reviewPolicy.show_score}
+                    onChange={(e) => updateSetting("show_results", e.target.checked)}
+                  />
+                  <label htmlFor="show-results-edit" className="text-sm font-medium text-gray-700">
+                    Show the score in the review
+                  </label>
+                </div>
+              </div>
+            )}
+          </div>
+
+          <div className="md:col-span-2 lg:col-span-3">
+            <div className="flex items-center gap-3">
+              <input
+                type="checkbox"
+                id="lockdown-edit"
+                className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                checked={lockdownPolicy.enabled}
+                onChange={(e) => updateSetting("lockdown", { ...lockdownPolicy, enabled: e.target.checked })}
+              />
+              <label htmlFor="lockdown-edit" className="text-sm font-medium text-gray-700">
+                Full-Screen Lockdown
+              </label>
+            </div>
+            <p className="text-gray-500 text-xs mt-1 ml-7">
+              Questions stay hidden until the student enters full screen. Leaving full screen, switching tabs or navigating away counts as a violation and is reported to the proctor.
+            </p>
+            {lockdownPolicy.enabled && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-3 ml-7">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Violations Allowed
+                  </label>
+                  <input
+                    type="number"
+                    min="1"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    value={lockdownPolicy.max_violations}
+                    onChange={(e) => updateSetting("lockdown", { ...lockdownPolicy, max_violations: Math.max(1, Number(e.target.value) || 1) })}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    When the Limit Is Reached
+                  </label>
+                  <select
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    value={lockdownPolicy.on_limit}
+                    onChange={(e) => updateSetting("lockdown", { ...lockdownPolicy, on_limit: e.target.value as LockdownAction })}
+                  >
+                    {LOCKDOWN_ACTIONS.map((a) => (
+                      <option key={a.value} value={a.value}>{a.label}</option>
+                    ))}
+                  </select>
+                  <p className="text-gray-500 text-xs mt-1">
+                    {LOCKDOWN_ACTIONS.find((a) => a.value === lockdownPolicy.on_limit)?.description}
+                  </p>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      </ModernCard>
+
+      {/* Scoring Policy */}
+      <ModernCard>
+        <div className="mb-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-2">Scoring Policy</h2>
+          <p className="text-gray-600 text-sm">
+            How auto-graded questions earn points. Changes apply to new submissions; regrade the exam to rescore existing results.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Policy
+            </label>
+            <select
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              value={scoringPolicy.mode}
+              onChange={(e) => updateSetting("scoring_policy", { ...scoringPolicy, mode: e.target.value as ScoringMode })}
+            >
+              {SCORING_MODES.map((m) => (
+                <option key={m.value} value={m.value}>{m.label}</option>
+              ))}
+            </select>
+            <p className="text-gray-500 text-xs mt-1">
+              {SCORING_MODES.find((m) => m.value === scoringPolicy.mode)?.description}
+            </p>
+          </div>
+
+          {scoringPolicy.mode === "negative" && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Wrong Answer Penalty
+              </label>
+              <div className="relative">
+                <input
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="5"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 pr-12"
+                  value={Math.round((scoringPolicy.penalty ?? 0) * 100)}
+                  onChange={(e) => {
+                    const pct = Math.max(0, Math.min(100, Number(e.target.value) || 0));
+                    updateSetting("scoring_policy", { ...scoringPolicy, penalty: pct / 100 });
+                  }}
+                />
+                <span className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-500 text-sm">%</span>
+              </div>
+              <p className="text-gray-500 text-xs mt-1">Share of the question&apos;s points deducted for a wrong answer. Total auto points never go below zero.</p>
+            </div>
+          )}
+        </div>
+      </ModernCard>
+
+      {/* Sections */}
+      <ModernCard>
+        <div className="mb-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-2">Sections</h2>
+          <p className="text-gray-600 text-sm">
+            Split the exam into sections taken one after another, each with its own instructions and optional time limit.
+            Questions not assigned to a section, and questions drawn from pools, go to the last section.
+          </p>
+        </div>
+
+        <div className="space-y-6">
+          <div className="flex items-center gap-3">
+            <input
+              type="checkbox"
+              id="sections-enabled"
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              checked={sections.length > 0}
+              onChange={(e) => updateSetting("sections", e.target.checked ? [newSection([])] : [])}
+            />
+            <label htmlFor="sections-enabled" className="text-sm font-medium text-gray-700">
+              Divide this exam into sections
+            </label>
+          </div>
+
+          {sections.length > 0 && (
+            <>
+              <div className="flex items-center gap-3">
+                <input
+                  type="checkbox"
+                  id="sections-return"
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  checked={allowSectionReturn(exam.settings)}
+                  onChange={(e) => updateSetting("allow_section_return", e.target.checked)}
+                />
+                <label htmlFor="sections-return" className="text-sm font-medium text-gray-700">
+                  Allow students to return to earlier sections
+                </label>
+              </div>
+              <p className="text-gray-500 text-xs -mt-4">
+                When off, a section closes for good once the student moves on or its time runs out.
+                When on, students can go back while the section still has time left.
+              </p>
+
+              {sections.map((section, index) => (
+                <div key={section.id} className="border border-gray-200 rounded-lg p-4 space-y-4">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-sm font-semibold text-gray-900">Section {index + 1}</span>
+                    <div className="flex items-center gap-2">
+                      <ActionButton variant="secondary" size="sm" disabled={index === 0} onClick={() => moveSection(index, -1)}>
+                        ↑
+                      </ActionButton>
+                      <ActionButton
+                        variant="secondary"
+                        size="sm"
+                        disabled={index === sections.length - 1}
+                        onClick={() => moveSection(index, 1)}
+                      >
+                        ↓
+                      </ActionButton>
+                      <ActionButton
+                        variant="danger"
+                        size="sm"
+                        onClick={() => updateSetting("sections", sections.filter((_, i) => i !== index))}
+                      >
+                        Remove
+                      </ActionButton>
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div className="md:col-span-2">
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Title</label>
+                      <input
+                        type="text"
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                        value={section.title}
+                        onChange={(e) => updateSection(index, { title: e.target.value })}
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Time Limit (minutes)</label>
+                      <input
+                        type="number"
+                        min="1"
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                        placeholder="untimed"
+                        value={section.duration_minutes ?? ""}
+                        onChange={(e) => updateSection(index, { duration_minutes: Number(e.target.value) || null })}
+                      />
+                    </div>
+                    <div className="md:col-span-3">
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Instructions</label>
+                      <textarea
+                        rows={2}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                        value={section.instructions || ""}
+                        onChange={(e) => updateSection(index, { instructions: e.target.value || null })}
+                      />
+                    </div>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Questions ({section.question_ids.length})
+                    </label>
+                    {(questions || []).length === 0 ? (
+                      <p className="text-sm text-gray-500">This exam has no questions yet.</p>
+                    ) : (
+                      <div className="max-h-48 overflow-y-auto grid grid-cols-1 md:grid-cols-2 gap-1">
+                        {(questions || []).map((q, qi) => {
+                          const owner = sections.findIndex((s) => s.question_ids.includes(q.id));
+                          return (
+                            <label key={q.id} className="flex items-start gap-2 text-sm text-gray-700">
+                              <input
+                                type="checkbox"
+                                className="mt-0.5 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                                checked={owner === index}
+                                onChange={(e) => assignQuestion(index, q.id, e.target.checked)}
+                              />
+                              <span className="truncate">
+                                {qi + 1}. {q.question_text}
+                                {owner !== -1 && owner !== index ? (
+                                  <span className="text-gray-400"> · section {owner + 1}</span>
+                                ) : null}
+                              </span>
+                            </label>
+                          );
+                        })}
+                      </div>
+                    )}
+                  </div>
+                </div>
+              ))}
+
+              <div className="flex items-center justify-between gap-4">
+                <ActionButton variant="secondary" onClick={() => updateSetting("sections", [...sections, newSection(sections)])}>
+                  + Add Section
+                </ActionButton>
+                {exam.duration_minutes && sectionMinutes > exam.duration_minutes ? (
+                  <p className="text-amber-700 text-xs">
+                    Section time limits add up to {sectionMinutes} minutes, more than the exam&apos;s {exam.duration_minutes}-minute duration.
+                  </p>
+                ) : null}
+              </div>
+
+              {sectionProblems.length > 0 && (
+                <ul className="text-sm text-red-600 list-disc pl-5">
+                  {sectionProblems.map((p) => (
+                    <li key={p}>{p}</li>
+                  ))}
+                </ul>
+              )}
+            </>
+          )}
+        </div>
+      </ModernCard>
+
+      {/* Question Pool */}
+      <ModernCard>
+        <div className="mb-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-2">Question Pool</h2>
+          <p className="text-gray-600 text-sm">
+            Draw a different but equivalent set of questions for each student from shared pools.
+            Drawn questions are added after the exam&apos;s own questions.
+          </p>
+        </div>
+
+        <div className="space-y-6">
+          <div className="flex items-center gap-3">
+            <input
+              type="checkbox"
+              id="pool-enabled"
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              checked={Boolean(questionPool.enabled)}
+              onChange={(e) => updatePoolSetting({ enabled: e.target.checked })}
+            />
+            <label htmlFor="pool-enabled" className="text-sm font-medium text-gray-700">
+              Draw questions from pools
+            </label>
+          </div>
+
+          {questionPool.enabled && (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Pools</label>
+                {(pools || []).length === 0 ? (
+                  <p className="text-sm text-gray-500">No question pools yet.</p>
+                ) : (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                    {(pools || []).map((pool) => (
+                      <label key={pool.id} className="flex items-center gap-2 text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                          checked={(questionPool.pool_ids || []).includes(pool.id)}
+                          onChange={(e) => togglePool(pool.id, e.target.checked)}
+                        />
+                        <span>
+                          {pool.name}
+                          {pool.category ? <span className="text-gray-500"> · {pool.category}</span> : null}
+                          <span className="text-gray-500"> ({pool.question_count})</span>
+                        </span>
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Questions per Student
+                  </label>
+                  <input
+                    type="number"
+                    min="1"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    value={questionPool.question_count || ""}
+                    onChange={(e) => updatePoolSetting({ question_count: Number(e.target.value) || 0 })}
+                  />
+                </div>
+
+                <div className="lg:col-span-2">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Tags (optional)
+                  </label>
+                  <input
+                    type="text"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    placeholder="e.g. algebra, chapter-3"
+                    value={(questionPool.tags || []).join(", ")}
+                    onChange={(e) =>
+                      updatePoolSetting({
+                        tags: e.target.value.split(",").map((t) => t.trim()).filter(Boolean),
+                      })
+                    }
+                  />
+                  <p className="text-gray-500 text-xs mt-1">Only draw questions carrying at least one of these tags.</p>
+                </div>
+              </div>
+
+              <div className="flex items-center gap-3">
+                <input
+                  type="checkbox"
+                  id="pool-balance"
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  checked={Boolean(questionPool.balance_by_difficulty)}
+                  onChange={(e) => updatePoolSetting({ balance_by_difficulty: e.target.checked })}
+                />
+                <label htmlFor="pool-balance" className="text-sm font-medium text-gray-700">
+                  Balance by difficulty
+                </label>
+              </div>
+
+              {questionPool.balance_by_difficulty && (
+                <div className="grid grid-cols-3 gap-4">
+                  {(["easy", "medium", "hard"] as const).map((level) => (
+                    <div key={level}>
+                      <label className="block text-sm font-medium text-gray-700 mb-2 capitalize">{level}</label>
+                      <input
+                        type="number"
+                        min="0"
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                        placeholder="auto"
+                        value={questionPool.difficulty_distribution?.[level] ?? ""}
+                        onChange={(e) => {
+                          const next = { easy: 0, medium: 0, hard: 0, ...(questionPool.difficulty_distribution || {}) };
+                          next[level] = Number(e.target.value) || 0;
+                          updatePoolSetting({ difficulty_distribution: next });
+                        }}
+                      />
+                    </div>
+                  ))}
+                  <p className="col-span-3 text-gray-500 text-xs">
+                    Leave empty to split evenly. Shortfalls in a level are filled from the other levels.
+                  </p>
+                </div>
+              )}
+            </>
+          )}
         </div>
       </ModernCard>
 
       {/* Actions */}
       <div className="flex items-center justify-between pt-6 border-t">
-        <ActionButton
-          variant="danger"
-          onClick={handleDelete}
-          loading={deleteMutation.isPending}
-          icon={
-            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-            </svg>
-          }
-        >
-          Delete Exam
-        </ActionButton>
-
-        <ActionButton
-          variant="primary"
-          onClick={() => saveMutation.mutate()}
-          loading={saveMutation.isPending}
-          icon={
-            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
-            </svg>
-          }
-        >
-          Save Changes
-        </ActionButton>
+        {can(PERMISSIONS.EXAMS_DELETE) ? (
+          <ActionButton
+            variant="danger"
+            onClick={handleDelete}
+            loading={deleteMutation.isPending}
+            icon={
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+              </svg>
+            }
+          >
+            Delete Exam
+          </ActionButton>
+        ) : (
+          <span />
+        )}
+
+        {can(PERMISSIONS.EXAMS_EDIT) && (
+          <ActionButton
+            variant="primary"
+            onClick={() => saveMutation.mutate()}
+            loading={saveMutation.isPending}
+            icon={
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+              </svg>
+            }
+          >
+            Save Changes
+          </ActionButton>
+        )}
       </div>
     </div>
   );
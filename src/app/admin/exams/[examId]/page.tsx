@@ -4,6 +4,7 @@ import React from "react";
 import { useQuery } from "@tanstack/react-query";
 import { authFetch } from "@/lib/authFetch";
 import Link from "next/link";
+import ResultReleaseCard from "@/components/admin/ResultReleaseCard";
 
 interface Exam {
   id: string;
@@ -99,6 +100,11 @@ export default function ExamOverviewPage({ params }: { params: Promise<{ examId:
             <Link href={`/admin/results?examId=${examId}`} className="btn btn-outline w-full">
               View Results
             </Link>
+            {exam.status === 'published' && (
+              <Link href={`/admin/exams/${examId}/proctor`} className="btn btn-outline w-full">
+                Proctor Console
+              </Link>
+            )}
           </div>
         </div>
 
@@ -133,6 +139,8 @@ export default function ExamOverviewPage({ params }: { params: Promise<{ examId:
         </div>
       </div>
 
+      <ResultReleaseCard examId={examId} />
+
       {exam.description && (
         <div className="card">
           <h3 className="font-semibold mb-3">Description</h3>
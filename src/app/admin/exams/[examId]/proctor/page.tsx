@@ -0,0 +1,209 @@
+"use client";
+
+import React from "react";
+import Link from "next/link";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { authFetch } from "@/lib/authFetch";
+import { useToast } from "@/components/ToastProvider";
+import ModernCard from "@/components/admin/ModernCard";
+import ModernTable from "@/components/admin/ModernTable";
+import StatsCard from "@/components/admin/StatsCard";
+import ActionButton from "@/components/admin/ActionButton";
+import { useAdmin } from "@/hooks/useAdmin";
+import { PERMISSIONS } from "@/lib/auth/edge-permissions";
+import type { ProctorAction, ProctorActivitySummary } from "@/lib/proctoring";
+
+interface ProctoredAttempt extends ProctorActivitySummary {
+  id: string;
+  student_name: string | null;
+  student_code: string | null;
+  ip_address: string | null;
+  started_at: string;
+  last_saved_at: string | null;
+  answered: number;
+  total: number | null;
+  paused_at: string | null;
+  extra_minutes: number;
+  deadline_at: string | null;
+}
+
+const CONFIRMATIONS: Partial<Record<ProctorAction, string>> = {
+  force_submit: "Submit this attempt now? It is graded with the answers saved so far.",
+  invalidate: "Invalidate this attempt? It ends now and is not graded.",
+};
+
+const DONE_MESSAGES: Record<ProctorAction, string> = {
+  force_submit: "Attempt submitted",
+  pause: "Attempt paused",
+  resume: "Attempt resumed; the paused time was added back",
+  invalidate: "Attempt invalidated",
+  message: "Message sent",
+};
+
+function ago(iso: string | null): string {
+  if (!iso) return "Never";
+  const seconds = Math.max(0, Math.floor((Date.now() - new Date(iso).getTime()) / 1000));
+  if (seconds < 60) return `${seconds}s ago`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ago`;
+  return new Date(iso).toLocaleTimeString();
+}
+
+export default function ProctorConsolePage({ params }: { params: Promise<{ examId: string }> }) {
+  const { examId } = React.use(params);
+  const queryClient = useQueryClient();
+  const toast = useToast();
+  const { can } = useAdmin();
+  const canAct = can(PERMISSIONS.ATTEMPTS_MANAGE);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["admin", "proctor", examId],
+    queryFn: async () => {
+      const res = await authFetch(`/api/admin/exams/${examId}/proctor`);
+      const j = await res.json();
+      if (!res.ok) throw new Error(j?.error || "Load failed");
+      return j as { exam: { id: string; title: string }; now: string; items: ProctoredAttempt[] };
+    },
+    refetchInterval: 5000,
+  });
+
+  const act = async (item: ProctoredAttempt, action: ProctorAction) => {
+    const who = item.student_name || "this student";
+    let message: string | null = null;
+    if (action === "message") {
+      message = window.prompt(`Message to ${who}:`, "");
+      if (!message?.trim()) return;
+    } else if (CONFIRMATIONS[action] && !window.confirm(CONFIRMATIONS[action])) {
+      return;
+    }
+    const reason = action === "force_submit" || action === "invalidate"
+      ? window.prompt("Reason (recorded in the audit log):", "") ?? ""
+      : "";
+    try {
+      const res = await authFetch(`/api/admin/attempts/${item.id}/proctor`, {
+        method: "POST",
+        body: JSON.stringify({ action, message, reason }),
+      });
+      const result = await res.json();
+      if (!res.ok) throw new Error(result?.error || "Action failed");
+      queryClient.invalidateQueries({ queryKey: ["admin", "proctor", examId] });
+      toast.success({ title: DONE_MESSAGES[action], message: `${who} sees it within a few seconds` });
+    } catch (err) {
+      toast.error({ title: "Action Failed", message: err instanceof Error ? err.message : "Unknown error" });
+    }
+  };
+
+  if (error) {
+    return (
+      <ModernCard>
+        <div className="text-center text-red-600">
+          <p className="font-semibold">Error loading proctor console</p>
+          <p className="text-sm mt-1">{(error as Error).message}</p>
+        </div>
+      </ModernCard>
+    );
+  }
+
+  const items = data?.items ?? [];
+  const flagged = items.filter((i) => i.focus_losses > 0 || i.screenshot_events > 0 || i.lockdown_violations > 0 || i.ip_changes.length > 0).length;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Proctor Console</h1>
+          <p className="text-gray-600 mt-1">{data?.exam.title ?? "Loading..."} · refreshes every 5 seconds</p>
+        </div>
+        <Link href={`/admin/exams/${examId}`} className="btn btn-outline">
+          Back to Exam
+        </Link>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <StatsCard title="In Progress" value={items.length} icon={<span>⏱️</span>} color="blue" />
+        <StatsCard title="Paused" value={items.filter((i) => i.paused_at).length} icon={<span>⏸️</span>} color="orange" />
+        <StatsCard title="With Integrity Events" value={flagged} icon={<span>🚩</span>} color="red" />
+      </div>
+
+      <ModernCard>
+        <ModernTable
+          columns={[
+            { key: "student", label: "Student" },
+            { key: "progress", label: "Answered", width: "100px" },
+            { key: "saved", label: "Last Save", width: "110px" },
+            { key: "events", label: "Focus / Screenshot / Lockdown", width: "190px" },
+            { key: "ip", label: "IP", width: "170px" },
+            { key: "time_left", label: "Time Left", width: "100px" },
+            { key: "actions", label: "", width: "260px" },
+          ]}
+          data={items}
+          renderCell={(item: ProctoredAttempt, column) => {
+            switch (column.key) {
+              case "student":
+                return (
+                  <div>
+                    <div className="font-medium text-gray-900">
+                      {item.student_name || <span className="text-gray-400">Anonymous</span>}
+                      {item.paused_at && (
+                        <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
+                          Paused
+                        </span>
+                      )}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {item.student_code ? `${item.student_code} · ` : ""}started {new Date(item.started_at).toLocaleTimeString()}
+                    </div>
+                  </div>
+                );
+              case "progress":
+                return <span className="font-medium">{item.total ? `${item.answered}/${item.total}` : item.answered}</span>;
+              case "saved":
+                return <span className="text-sm">{ago(item.last_saved_at)}</span>;
+              case "events":
+                return (
+                  <span className={item.focus_losses + item.screenshot_events + item.lockdown_violations > 0 ? "font-medium text-red-600" : "text-gray-500"}>
+                    {item.focus_losses} / {item.screenshot_events} / {item.lockdown_violations}
+                  </span>
+                );
+              case "ip":
+                return (
+                  <div>
+                    <code className="bg-gray-100 px-2 py-1 rounded text-xs">{item.ip_address || "Unknown"}</code>
+                    {item.ip_changes.length > 0 && (
+                      <div
+                        className="text-xs text-orange-600 mt-1"
+                        title={item.ip_changes.map((c) => `${c.from ?? "?"} → ${c.to ?? "?"} at ${new Date(c.at).toLocaleTimeString()}`).join("\n")}
+                      >
+                        {item.ip_changes.length} change{item.ip_changes.length === 1 ? "" : "s"}
+                      </div>
+                    )}
+                  </div>
+                );
+              case "time_left": {
+                if (item.paused_at) return <span className="text-gray-500">Stopped</span>;
+                const left = item.deadline_at ? Math.floor((new Date(item.deadline_at).getTime() - Date.now()) / 60000) : null;
+                return <span className="font-medium">{left === null ? "Untimed" : `${Math.max(0, left)}m`}</span>;
+              }
+              case "actions":
+                return canAct ? (
+                  <div className="flex flex-wrap gap-2">
+                    {item.paused_at ? (
+                      <ActionButton variant="success" size="sm" onClick={() => act(item, "resume")}>Resume</ActionButton>
+                    ) : (
+                      <ActionButton variant="warning" size="sm" onClick={() => act(item, "pause")}>Pause</ActionButton>
+                    )}
+                    <ActionButton variant="secondary" size="sm" onClick={() => act(item, "message")}>Message</ActionButton>
+                    <ActionButton variant="primary" size="sm" onClick={() => act(item, "force_submit")}>Submit</ActionButton>
+                    <ActionButton variant="danger" size="sm" onClick={() => act(item, "invalidate")}>Invalidate</ActionButton>
+                  </div>
+                ) : null;
+              default:
+                return null;
+            }
+          }}
+          loading={isLoading}
+          emptyMessage="No attempts in progress for this exam"
+        />
+      </ModernCard>
+    </div>
+  );
+}
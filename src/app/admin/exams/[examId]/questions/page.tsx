@@ -16,6 +16,13 @@ import {
 } from "@dnd-kit/core";
 import { SortableContext, verticalListSortingStrategy, useSortable, arrayMove } from "@dnd-kit/sortable";
 import { CSS } from "@dnd-kit/utilities";
+import ImageAnnotationQuestion from "@/components/ImageAnnotation/ImageAnnotationQuestion";
+import type { AnnotationPoint, ImageAnnotationKey, MatchingOptions, NumericAnswerKey, QuestionRevision, ShortAnswerKey } from "@/lib/types";
+import { DEFAULT_REGION_RADIUS, parseAnnotationKey } from "@/lib/imageAnnotation";
+import { formatNumericKey, parseNumericKey } from "@/lib/numericAnswer";
+import { formatShortAnswerKey, gradeShortAnswer, parseShortAnswerKey } from "@/lib/shortAnswer";
+import { parseMatchingOptions, parseSequenceKey } from "@/lib/sequenceAnswer";
+import { changesGrading, diffRevisions } from "@/lib/questionRevisions";
 // Note: ReactQuill removed due to React 18 compatibility issues
 // Using simple textarea with HTML formatting support instead
 
@@ -23,8 +30,8 @@ interface QuestionRow {
   id: string;
   exam_id: string;
   question_text: string;
-  question_type: "true_false" | "single_choice" | "multiple_choice" | "multi_select" | "paragraph" | "photo_upload";
-  options: string[] | null;
+  question_type: "true_false" | "single_choice" | "multiple_choice" | "multi_select" | "short_answer" | "paragraph" | "photo_upload" | "image_annotation" | "numeric" | "matching" | "ordering";
+  options: string[] | MatchingOptions | null;
   correct_answers: unknown;
   required: boolean;
   points: number;
@@ -32,6 +39,10 @@ interface QuestionRow {
   // Image support
   question_image_url?: string | null;
   option_image_urls?: (string | null)[] | null;
+  // Bumped by the database on every content edit; see question_revisions
+  revision?: number;
+  // Shown to students after they check an answer on a practice exam
+  explanation?: string | null;
 }
 
 export default function AdminQuestionsPage({ params }: { params: Promise<{ examId: string }> }) {
@@ -41,6 +52,7 @@ export default function AdminQuestionsPage({ params }: { params: Promise<{ examI
   
   // Modal states
   const [editingQuestion, setEditingQuestion] = useState<QuestionRow | null>(null);
+  const [historyQuestion, setHistoryQuestion] = useState<QuestionRow | null>(null);
   const [showAddModal, setShowAddModal] = useState(false);
   const [showImportModal, setShowImportModal] = useState(false);
   
@@ -103,10 +115,16 @@ export default function AdminQuestionsPage({ params }: { params: Promise<{ examI
       if (!res.ok) throw new Error(j?.error || "Update failed");
       return j.item as QuestionRow;
     },
-    onSuccess: () => {
+    onSuccess: (item) => {
       qc.invalidateQueries({ queryKey: ["admin", "questions", examId] });
+      qc.invalidateQueries({ queryKey: ["admin", "question-revisions", examId, item.id] });
       setEditingQuestion(null);
-      toast.success({ title: "Question updated", message: "Changes saved successfully" });
+      toast.success({
+        title: "Question updated",
+        message: item.revision && item.revision > 1
+          ? `Saved as revision ${item.revision}. Existing results keep the revision students saw until you regrade with the latest keys.`
+          : "Changes saved successfully",
+      });
     },
     onError: (e: unknown) => toast.error({ title: "Update failed", message: (e as Error)?.message || "Unknown error" }),
   });
@@ -176,6 +194,7 @@ export default function AdminQuestionsPage({ params }: { params: Promise<{ examI
                   question={question}
                   index={index}
                   onEdit={() => setEditingQuestion(question)}
+                  onHistory={() => setHistoryQuestion(question)}
                   onDelete={() => {
                     if (confirm("Delete this question? This cannot be undone.")) {
                       deleteQ.mutate(question.id);
@@ -212,6 +231,14 @@ export default function AdminQuestionsPage({ params }: { params: Promise<{ examI
         />
       )}
 
+      {historyQuestion && (
+        <QuestionHistoryModal
+          examId={examId}
+          question={historyQuestion}
+          onClose={() => setHistoryQuestion(null)}
+        />
+      )}
+
       {showImportModal && (
         <ImportQuestionsModal
           examId={examId}
@@ -231,12 +258,14 @@ function QuestionCard({
   question, 
   index, 
   onEdit, 
+  onHistory,
   onDelete, 
   isDeleting 
 }: { 
   question: QuestionRow; 
   index: number; 
   onEdit: () => void; 
+  onHistory: () => void;
   onDelete: () => void;
   isDeleting: boolean;
 }) {
@@ -256,8 +285,13 @@ function QuestionCard({
       single_choice: "Single Choice",
       multiple_choice: "Multiple Choice", 
       multi_select: "Multi Select",
+      short_answer: "Short Answer",
       paragraph: "Essay/Paragraph",
       photo_upload: "Photo Upload",
+      image_annotation: "Image Annotation",
+      numeric: "Numeric",
+      matching: "Matching",
+      ordering: "Ordering",
     };
     return labels[type as keyof typeof labels] || type;
   };
@@ -268,8 +302,13 @@ function QuestionCard({
       single_choice: "bg-green-100 text-green-800 border-green-200",
       multiple_choice: "bg-purple-100 text-purple-800 border-purple-200",
       multi_select: "bg-orange-100 text-orange-800 border-orange-200",
+      short_answer: "bg-yellow-100 text-yellow-800 border-yellow-200",
       paragraph: "bg-gray-100 text-gray-800 border-gray-200",
       photo_upload: "bg-pink-100 text-pink-800 border-pink-200",
+      image_annotation: "bg-teal-100 text-teal-800 border-teal-200",
+      numeric: "bg-indigo-100 text-indigo-800 border-indigo-200",
+      matching: "bg-cyan-100 text-cyan-800 border-cyan-200",
+      ordering: "bg-lime-100 text-lime-800 border-lime-200",
     };
     return colors[type as keyof typeof colors] || "bg-gray-100 text-gray-800 border-gray-200";
   };
@@ -319,6 +358,11 @@ function QuestionCard({
               <span className="text-sm text-muted-foreground">
                 {question.points} pt{question.points !== 1 ? 's' : ''}
               </span>
+              {(question.revision ?? 1) > 1 && (
+                <span className="badge badge-outline text-xs" title="Question revision">
+                  v{question.revision}
+                </span>
+              )}
             </div>
           </div>
 
@@ -335,18 +379,18 @@ function QuestionCard({
           )}
 
           {/* Options Preview */}
-          {(question.options?.length ?? 0) > 0 && (
+          {choiceList(question.options).length > 0 && (
             <div className="mb-3">
               <div className="text-sm text-muted-foreground mb-1">Options:</div>
               <div className="flex flex-wrap gap-2">
-                {(question.options ?? []).slice(0, 4).map((option, idx) => (
+                {choiceList(question.options).slice(0, 4).map((option, idx) => (
                   <span key={idx} className="badge badge-outline text-xs">
                     {option.length > 20 ? option.substring(0, 20) + "..." : option}
                   </span>
                 ))}
-                {(question.options ?? []).length > 4 && (
+                {choiceList(question.options).length > 4 && (
                   <span className="badge badge-outline text-xs">
-                    +{(question.options ?? []).length - 4} more
+                    +{choiceList(question.options).length - 4} more
                   </span>
                 )}
               </div>
@@ -362,6 +406,13 @@ function QuestionCard({
               </span>
             </div>
           )}
+
+          {question.explanation && (
+            <div className="mb-3">
+              <div className="text-sm text-muted-foreground mb-1">Explanation:</div>
+              <p className="text-sm line-clamp-2">{question.explanation}</p>
+            </div>
+          )}
         </div>
 
         {/* Actions */}
@@ -373,6 +424,13 @@ function QuestionCard({
           >
             ✏️ Edit
           </button>
+          <button
+            onClick={onHistory}
+            className="btn btn-sm btn-outline"
+            title="Revision history"
+          >
+            🕘 History
+          </button>
           <button
             onClick={onDelete}
             disabled={isDeleting}
@@ -392,12 +450,63 @@ function formatCorrectAnswer(question: QuestionRow): string {
   if (question.question_type === "true_false") {
     return String(question.correct_answers);
   }
+  if (question.question_type === "short_answer") {
+    return formatShortAnswerKey(question.correct_answers);
+  }
+  if (question.question_type === "numeric") {
+    return formatNumericKey(question.correct_answers);
+  }
+  if (question.question_type === "image_annotation") {
+    const n = parseAnnotationKey(question.correct_answers).regions.length;
+    return n > 0 ? `${n} target region${n !== 1 ? "s" : ""}` : "";
+  }
+  if (question.question_type === "ordering") {
+    return parseSequenceKey("ordering", question.correct_answers).expected.join(" → ");
+  }
+  if (question.question_type === "matching") {
+    const { left } = parseMatchingOptions(question.options);
+    const { expected } = parseSequenceKey("matching", question.correct_answers);
+    return left.map((l, i) => `${l} → ${expected[i] ?? ""}`).join("; ");
+  }
   if (Array.isArray(question.correct_answers)) {
     return question.correct_answers.join(", ");
   }
   return String(question.correct_answers || "");
 }
 
+// Plain option list; matching questions store {left, right} instead
+function choiceList(options: QuestionRow["options"] | undefined): string[] {
+  return Array.isArray(options) ? options : [];
+}
+
+// Returns an error message for question types whose key needs checking before save
+function validateQuestionForm(formData: Partial<QuestionRow>): string | null {
+  if (formData.question_type === "image_annotation" && !formData.question_image_url) {
+    return "Image annotation questions need a question image";
+  }
+  if (formData.question_type === "ordering") {
+    const items = choiceList(formData.options).map((o) => o.trim());
+    if (items.length < 2 || items.some((o) => !o)) return "Ordering questions need at least two non-empty items";
+    if (new Set(items).size !== items.length) return "Ordering items must be unique";
+  }
+  if (formData.question_type === "matching") {
+    const { left, right } = parseMatchingOptions(formData.options);
+    const { expected } = parseSequenceKey("matching", formData.correct_answers);
+    if (left.length < 2) return "Matching questions need at least two pairs";
+    if (left.some((l, i) => !l.trim() || !expected[i]?.trim())) return "Every matching pair needs both a prompt and an answer";
+    if (expected.some((m) => !right.includes(m))) return "Matching answers are out of sync; re-enter the pairs";
+  }
+  return null;
+}
+
+// Ordering keys are the item list as entered, so derive it at save time
+function withDerivedKey(formData: Partial<QuestionRow>): Partial<QuestionRow> {
+  if (formData.question_type !== "ordering") return formData;
+  const order = choiceList(formData.options).map((o) => o.trim());
+  const partial_credit = parseSequenceKey("ordering", formData.correct_answers).partialCredit;
+  return { ...formData, options: order, correct_answers: { order, partial_credit } };
+}
+
 // Loading State Component
 function LoadingState() {
   return (
@@ -508,7 +617,12 @@ function AddQuestionModal({
       toast.error({ title: "Validation error", message: "Question text is required" });
       return;
     }
-    saveNew.mutate(formData);
+    const invalid = validateQuestionForm(formData);
+    if (invalid) {
+      toast.error({ title: "Validation error", message: invalid });
+      return;
+    }
+    saveNew.mutate(withDerivedKey(formData));
   };
 
   return (
@@ -559,12 +673,13 @@ function EditQuestionModal({
   const [formData, setFormData] = useState<Partial<QuestionRow>>({
     question_text: question.question_text,
     question_type: question.question_type,
-    options: question.options || [],
+    options: question.options ?? [],
     correct_answers: question.correct_answers,
     required: question.required,
     points: question.points,
     question_image_url: question.question_image_url || null,
     option_image_urls: question.option_image_urls || [],
+    explanation: question.explanation ?? null,
   });
 
   const handleSubmit = (e: React.FormEvent) => {
@@ -573,7 +688,12 @@ function EditQuestionModal({
       toast.error({ title: "Validation error", message: "Question text is required" });
       return;
     }
-    onSave(formData);
+    const invalid = validateQuestionForm(formData);
+    if (invalid) {
+      toast.error({ title: "Validation error", message: invalid });
+      return;
+    }
+    onSave(withDerivedKey(formData));
   };
 
   return (
@@ -623,7 +743,7 @@ function QuestionForm({
   const addOption = () => {
     // Use functional update to avoid state overwrite between sequential updates
     setFormData((prev) => {
-      const prevOpts = prev.options || [];
+      const prevOpts = choiceList(prev.options);
       const nextOpts = [...prevOpts, ""];
       const prevImgs = (prev.option_image_urls || []) as (string | null)[];
       const nextImgs = [...prevImgs, null];
@@ -632,7 +752,7 @@ function QuestionForm({
   };
 
   const updateOption = (index: number, value: string) => {
-    const options = [...(formData.options || [])];
+    const options = [...choiceList(formData.options)];
     options[index] = value;
     updateField('options', options);
   };
@@ -640,7 +760,7 @@ function QuestionForm({
   const removeOption = (index: number) => {
     // Use functional update so both arrays stay in sync
     setFormData((prev) => {
-      const nextOpts = [...(prev.options || [])];
+      const nextOpts = [...choiceList(prev.options)];
       if (index >= 0 && index < nextOpts.length) nextOpts.splice(index, 1);
       const nextImgs = [...((prev.option_image_urls || []) as (string | null)[])];
       if (index >= 0 && index < nextImgs.length) nextImgs.splice(index, 1);
@@ -648,7 +768,7 @@ function QuestionForm({
     });
   };
 
-  const needsOptions = ['single_choice', 'multiple_choice', 'multi_select'].includes(formData.question_type || '');
+  const needsOptions = ['single_choice', 'multiple_choice', 'multi_select', 'ordering'].includes(formData.question_type || '');
 
   // Helpers: upload to question-images bucket
   const [uploadingIdx, setUploadingIdx] = useState<number | null>(null);
@@ -681,16 +801,26 @@ function QuestionForm({
           <option value="single_choice">Single Choice (radio buttons - one answer)</option>
           <option value="multiple_choice">Multiple Choice (radio buttons - multiple correct)</option>
           <option value="multi_select">Multi Select (checkboxes - multiple answers)</option>
+          <option value="short_answer">Short Answer (one-line text, auto-graded)</option>
           <option value="paragraph">Essay/Paragraph (text input)</option>
           <option value="photo_upload">Photo Upload (student uploads an image)</option>
+          <option value="image_annotation">Image Annotation (student marks points on the image)</option>
+          <option value="numeric">Numeric (number with tolerance and optional units)</option>
+          <option value="matching">Matching (drag answers onto prompts)</option>
+          <option value="ordering">Ordering (drag items into the right order)</option>
         </select>
         <div className="text-xs text-muted-foreground mt-1">
           {formData.question_type === "single_choice" && "Students can select only one option, and only one is correct."}
           {formData.question_type === "multiple_choice" && "Students can select only one option, but multiple options can be marked as correct."}
           {formData.question_type === "multi_select" && "Students can select multiple options using checkboxes."}
           {formData.question_type === "true_false" && "Simple true or false question."}
+          {formData.question_type === "short_answer" && "Short typed answer; auto-graded against the accepted answers and patterns below."}
           {formData.question_type === "paragraph" && "Open-ended text response question (manually graded)."}
           {formData.question_type === "photo_upload" && "Student will upload a single image as the answer (manually graded)."}
+          {formData.question_type === "image_annotation" && "Student marks points on the question image; auto-graded against the target regions below."}
+          {formData.question_type === "numeric" && "Student types a number (and unit if required); auto-graded within the tolerance below."}
+          {formData.question_type === "matching" && "Student drags each answer onto its prompt; extra answers act as distractors."}
+          {formData.question_type === "ordering" && "Enter the items in the correct order; students see them shuffled and drag them back into place."}
         </div>
       </div>
 
@@ -716,7 +846,9 @@ function QuestionForm({
 
       {/* Question Image */}
       <div>
-        <label className="label">Question Image (optional)</label>
+        <label className="label">
+          Question Image {formData.question_type === "image_annotation" ? "(required)" : "(optional)"}
+        </label>
         {formData.question_image_url ? (
           <div className="flex items-start gap-3">
             <img src={formData.question_image_url} alt="Question" className="max-h-40 rounded border" />
@@ -781,7 +913,7 @@ function QuestionForm({
       {needsOptions && (
         <div>
           <div className="flex items-center justify-between mb-3">
-            <label className="label">Answer Options</label>
+            <label className="label">{formData.question_type === "ordering" ? "Items (in correct order)" : "Answer Options"}</label>
             <button 
               type="button" 
               onClick={addOption}
@@ -791,7 +923,7 @@ function QuestionForm({
             </button>
           </div>
           <div className="space-y-3">
-            {(formData.options || []).map((option, index) => (
+            {choiceList(formData.options).map((option, index) => (
               <div key={index} className="flex gap-3 items-start">
                 <div className="flex-shrink-0 w-8 h-10 bg-gray-100 rounded flex items-center justify-center text-sm font-medium">
                   {String.fromCharCode(65 + index)}
@@ -804,6 +936,7 @@ function QuestionForm({
                     onChange={(e) => updateOption(index, e.target.value)}
                   />
                   {/* Option image controls */}
+                  {formData.question_type !== "ordering" && (
                   <div className="flex items-center gap-3">
                     {(formData.option_image_urls?.[index] ?? null) ? (
                       <div className="flex items-center gap-2">
@@ -862,7 +995,7 @@ function QuestionForm({
                               const url = await uploadImage(f);
                               const imgs = [...((formData.option_image_urls || []) as (string | null)[])];
                               // ensure array length matches
-                              while (imgs.length < (formData.options?.length || 0)) imgs.push(null);
+                              while (imgs.length < choiceList(formData.options).length) imgs.push(null);
                               imgs[index] = url;
                               updateField('option_image_urls', imgs);
                             } catch (err: any) {
@@ -875,6 +1008,7 @@ function QuestionForm({
                       </label>
                     )}
                   </div>
+                  )}
                 </div>
                 <button
                   type="button"
@@ -886,7 +1020,7 @@ function QuestionForm({
                 </button>
               </div>
             ))}
-            {(!formData.options || formData.options.length === 0) && (
+            {choiceList(formData.options).length === 0 && (
               <div className="text-center py-8 text-muted-foreground border-2 border-dashed rounded-lg">
                 No options yet. Click &quot;Add Option&quot; to get started.
               </div>
@@ -909,6 +1043,42 @@ function QuestionForm({
             <option value="true">True</option>
             <option value="false">False</option>
           </select>
+        ) : formData.question_type === "short_answer" ? (
+          <ShortAnswerKeyEditor
+            value={formData.correct_answers}
+            onChange={(key) => updateField('correct_answers', key)}
+          />
+        ) : formData.question_type === "numeric" ? (
+          <NumericKeyEditor
+            value={formData.correct_answers}
+            onChange={(key) => updateField('correct_answers', key)}
+          />
+        ) : formData.question_type === "image_annotation" ? (
+          <ImageAnnotationKeyEditor
+            imageUrl={formData.question_image_url}
+            value={formData.correct_answers}
+            onChange={(key) => updateField('correct_answers', key)}
+          />
+        ) : formData.question_type === "ordering" ? (
+          <div className="space-y-2">
+            <div className="text-sm text-muted-foreground">
+              The order of the items above is the correct answer.
+            </div>
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={parseSequenceKey("ordering", formData.correct_answers).partialCredit}
+                onChange={(e) => updateField('correct_answers', { order: choiceList(formData.options), partial_credit: e.target.checked })}
+              />
+              Partial credit per item in the right position
+            </label>
+          </div>
+        ) : formData.question_type === "matching" ? (
+          <MatchingKeyEditor
+            options={formData.options}
+            value={formData.correct_answers}
+            onChange={(options, key) => setFormData((prev) => ({ ...prev, options, correct_answers: key }))}
+          />
         ) : needsOptions ? (
           <div>
             <div className="text-sm text-muted-foreground mb-2">
@@ -917,7 +1087,7 @@ function QuestionForm({
                 : "Select one or more correct options:"}
             </div>
             <div className="space-y-2 max-h-40 overflow-y-auto">
-              {(formData.options || []).map((option, index) => (
+              {choiceList(formData.options).map((option, index) => (
                 <label key={index} className="flex items-center gap-3 p-2 border rounded hover:bg-gray-50">
                   <input
                     type={formData.question_type === "single_choice" ? "radio" : "checkbox"}
@@ -959,6 +1129,21 @@ function QuestionForm({
       </div>
       )}
 
+      {/* Explanation */}
+      <div>
+        <label className="label">Explanation</label>
+        <textarea
+          className="textarea"
+          rows={3}
+          value={formData.explanation ?? ""}
+          onChange={(e) => updateField('explanation', e.target.value.trim() ? e.target.value : null)}
+          placeholder="Why the correct answer is correct"
+        />
+        <p className="text-xs text-muted-foreground mt-1">
+          Shown to students after they check their answer on a practice exam. Never shown on graded exams.
+        </p>
+      </div>
+
       {/* Settings */}
       <div className="grid grid-cols-2 gap-4">
         <div>
@@ -987,6 +1172,503 @@ function QuestionForm({
   );
 }
 
+// Answer key editor for short_answer questions
+function ShortAnswerKeyEditor({
+  value,
+  onChange,
+}: {
+  value: unknown;
+  onChange: (key: ShortAnswerKey) => void;
+}) {
+  const key = parseShortAnswerKey(value);
+  const [acceptedText, setAcceptedText] = useState(key.accepted.join("\n"));
+  const [patternsText, setPatternsText] = useState((key.patterns || []).join("\n"));
+  const [sample, setSample] = useState("");
+  const lines = (text: string) => text.split("\n").map((l) => l.trim()).filter(Boolean);
+  const update = (patch: Partial<ShortAnswerKey>) => onChange({ ...key, ...patch });
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div>
+          <label className="label">Accepted answers (one per line)</label>
+          <textarea
+            className="textarea"
+            rows={4}
+            dir="auto"
+            value={acceptedText}
+            onChange={(e) => {
+              setAcceptedText(e.target.value);
+              update({ accepted: lines(e.target.value) });
+            }}
+          />
+        </div>
+        <div>
+          <label className="label">Regex patterns (optional, one per line)</label>
+          <textarea
+            className="textarea font-mono"
+            rows={4}
+            dir="ltr"
+            placeholder="^photosynthes[ie]s$"
+            value={patternsText}
+            onChange={(e) => {
+              setPatternsText(e.target.value);
+              update({ patterns: lines(e.target.value) });
+            }}
+          />
+        </div>
+      </div>
+      <div className="flex flex-wrap items-center gap-4 text-sm">
+        <label className="inline-flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={key.case_sensitive ?? false}
+            onChange={(e) => update({ case_sensitive: e.target.checked })}
+          />
+          <span>Case sensitive</span>
+        </label>
+        <label className="inline-flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={key.normalize_whitespace ?? true}
+            onChange={(e) => update({ normalize_whitespace: e.target.checked })}
+          />
+          <span>Ignore extra spaces</span>
+        </label>
+        <label className="inline-flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={key.normalize_arabic ?? true}
+            onChange={(e) => update({ normalize_arabic: e.target.checked })}
+          />
+          <span>Ignore Arabic diacritics, tatweel and letter variants</span>
+        </label>
+        <label className="inline-flex items-center gap-2">
+          <span>Allowed typos</span>
+          <input
+            type="number"
+            min={0}
+            max={10}
+            className="input w-20"
+            value={key.max_distance ?? 0}
+            onChange={(e) => update({ max_distance: Math.max(0, Math.floor(Number(e.target.value) || 0)) })}
+          />
+        </label>
+      </div>
+      <div className="flex items-center gap-3">
+        <input
+          className="input flex-1"
+          dir="auto"
+          placeholder="Try a student answer..."
+          value={sample}
+          onChange={(e) => setSample(e.target.value)}
+        />
+        {sample.trim() && (
+          gradeShortAnswer(sample, key)
+            ? <span className="text-sm text-green-700">✔ Accepted</span>
+            : <span className="text-sm text-red-700">✘ Rejected</span>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// Answer key editor for numeric questions
+function NumericKeyEditor({
+  value,
+  onChange,
+}: {
+  value: unknown;
+  onChange: (key: NumericAnswerKey | null) => void;
+}) {
+  const parsed = parseNumericKey(value);
+  const [valueText, setValueText] = useState(parsed ? String(parsed.value) : "");
+  const [unitsText, setUnitsText] = useState((parsed?.units || []).join(", "));
+  const key: NumericAnswerKey = parsed ?? { value: 0, tolerance: 0, tolerance_type: "absolute", units: [], unit_required: false, sig_figs: null };
+
+  const update = (patch: Partial<NumericAnswerKey>, text = valueText) => {
+    const n = Number(text);
+    onChange(text.trim() !== "" && Number.isFinite(n) ? { ...key, ...patch, value: n } : null);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <div>
+          <label className="label">Expected value</label>
+          <input
+            className="input"
+            inputMode="decimal"
+            placeholder="e.g. 9.81"
+            value={valueText}
+            onChange={(e) => {
+              setValueText(e.target.value);
+              update({}, e.target.value);
+            }}
+          />
+        </div>
+        <div>
+          <label className="label">Tolerance</label>
+          <input
+            type="number"
+            min={0}
+            step="any"
+            className="input"
+            value={key.tolerance ?? 0}
+            onChange={(e) => update({ tolerance: Math.abs(Number(e.target.value) || 0) })}
+          />
+        </div>
+        <div>
+          <label className="label">Tolerance type</label>
+          <select
+            className="select"
+            value={key.tolerance_type || "absolute"}
+            onChange={(e) => update({ tolerance_type: e.target.value as NumericAnswerKey["tolerance_type"] })}
+          >
+            <option value="absolute">Absolute (± value)</option>
+            <option value="relative">Relative (± % of value)</option>
+          </select>
+        </div>
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <div className="sm:col-span-2">
+          <label className="label">Accepted units (comma separated, optional)</label>
+          <input
+            className="input"
+            placeholder="e.g. m/s^2, m/s2"
+            value={unitsText}
+            onChange={(e) => {
+              setUnitsText(e.target.value);
+              update({ units: e.target.value.split(",").map((u) => u.trim()).filter(Boolean) });
+            }}
+          />
+        </div>
+        <div>
+          <label className="label">Significant figures</label>
+          <input
+            type="number"
+            min={0}
+            step={1}
+            className="input"
+            placeholder="Any"
+            value={key.sig_figs ?? ""}
+            onChange={(e) => update({ sig_figs: Number(e.target.value) > 0 ? Math.floor(Number(e.target.value)) : null })}
+          />
+        </div>
+      </div>
+      <label className="inline-flex items-center gap-2 text-sm">
+        <input
+          type="checkbox"
+          checked={key.unit_required ?? false}
+          disabled={(key.units || []).length === 0}
+          onChange={(e) => update({ unit_required: e.target.checked })}
+        />
+        <span>Require a unit (otherwise a bare number is accepted)</span>
+      </label>
+      {!parsed && (
+        <div className="text-xs text-muted-foreground">Enter the expected value to save an answer key.</div>
+      )}
+    </div>
+  );
+}
+
+// Target region editor for image_annotation questions
+function ImageAnnotationKeyEditor({
+  imageUrl,
+  value,
+  onChange,
+}: {
+  imageUrl: string | null | undefined;
+  value: unknown;
+  onChange: (key: ImageAnnotationKey) => void;
+}) {
+  const key = useMemo(() => parseAnnotationKey(value), [value]);
+  const points = useMemo<AnnotationPoint[]>(
+    () => key.regions.map((r, i) => ({ id: r.id, x: r.x, y: r.y, label: r.label || `Region ${i + 1}`, color: "#10b981" })),
+    [key]
+  );
+
+  if (!imageUrl) {
+    return (
+      <div className="text-center py-6 text-muted-foreground border-2 border-dashed rounded-lg">
+        Upload a question image first, then place target regions on it.
+      </div>
+    );
+  }
+
+  const round = (n: number) => Math.round(n * 100) / 100;
+  const setRadius = (id: string, radius: number) =>
+    onChange({ ...key, regions: key.regions.map((r) => (r.id === id ? { ...r, radius } : r)) });
+
+  return (
+    <div className="space-y-3">
+      <div className="text-sm text-muted-foreground">
+        Add a point at the center of each target. A student answer is correct when every region is marked and no point lands outside the regions.
+      </div>
+      <ImageAnnotationQuestion
+        imageUrl={imageUrl}
+        annotations={points}
+        regions={key.regions}
+        tolerance={key.tolerance}
+        maxAnnotations={20}
+        onAnnotationChange={(next) =>
+          onChange({
+            ...key,
+            regions: next.map((p) => ({
+              id: p.id,
+              x: round(p.x),
+              y: round(p.y),
+              radius: key.regions.find((r) => r.id === p.id)?.radius ?? DEFAULT_REGION_RADIUS,
+              label: p.label,
+            })),
+          })
+        }
+      />
+      {key.regions.length > 0 && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          {key.regions.map((r, i) => (
+            <label key={r.id} className="flex items-center gap-2 text-sm">
+              <span className="flex-1 truncate">{r.label || `Region ${i + 1}`} radius (%)</span>
+              <input
+                type="number"
+                min={1}
+                max={50}
+                step={0.5}
+                className="input w-24"
+                value={r.radius}
+                onChange={(e) => setRadius(r.id, Math.max(1, Number(e.target.value) || DEFAULT_REGION_RADIUS))}
+              />
+            </label>
+          ))}
+        </div>
+      )}
+      <label className="flex items-center gap-2 text-sm">
+        <span>Tolerance (% of image, added to every radius)</span>
+        <input
+          type="number"
+          min={0}
+          max={20}
+          step={0.5}
+          className="input w-24"
+          value={key.tolerance ?? 0}
+          onChange={(e) => onChange({ ...key, tolerance: Math.max(0, Number(e.target.value) || 0) })}
+        />
+      </label>
+    </div>
+  );
+}
+
+// Pair editor for matching questions; writes both the options and the key
+function MatchingKeyEditor({
+  options,
+  value,
+  onChange,
+}: {
+  options: QuestionRow["options"] | undefined;
+  value: unknown;
+  onChange: (options: MatchingOptions, key: { matches: string[]; partial_credit: boolean }) => void;
+}) {
+  const initial = parseMatchingOptions(options);
+  const parsedKey = parseSequenceKey("matching", value);
+  const [pairs, setPairs] = useState(() => {
+    const rows = initial.left.map((left, i) => ({ left, right: parsedKey.expected[i] ?? "" }));
+    return rows.length > 0 ? rows : [{ left: "", right: "" }, { left: "", right: "" }];
+  });
+  const [distractorsText, setDistractorsText] = useState(() =>
+    initial.right.filter((r) => !parsedKey.expected.includes(r)).join("\n")
+  );
+  const [partialCredit, setPartialCredit] = useState(parsedKey.partialCredit);
+
+  const emit = (nextPairs = pairs, nextDistractors = distractorsText, nextPartial = partialCredit) => {
+    const matches = nextPairs.map((p) => p.right.trim());
+    const distractors = nextDistractors.split("\n").map((d) => d.trim()).filter(Boolean);
+    onChange(
+      {
+        left: nextPairs.map((p) => p.left.trim()),
+        right: Array.from(new Set([...matches, ...distractors].filter(Boolean))),
+      },
+      { matches, partial_credit: nextPartial }
+    );
+  };
+
+  const updatePair = (index: number, patch: Partial<{ left: string; right: string }>) => {
+    const next = pairs.map((p, i) => (i === index ? { ...p, ...patch } : p));
+    setPairs(next);
+    emit(next);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="text-sm text-muted-foreground">
+        Each prompt is matched with its answer. The same answer may be used for more than one prompt.
+      </div>
+      {pairs.map((pair, index) => (
+        <div key={index} className="flex gap-2 items-center">
+          <input
+            className="input flex-1"
+            placeholder={`Prompt ${index + 1}`}
+            value={pair.left}
+            onChange={(e) => updatePair(index, { left: e.target.value })}
+          />
+          <span className="text-muted-foreground">→</span>
+          <input
+            className="input flex-1"
+            placeholder="Matching answer"
+            value={pair.right}
+            onChange={(e) => updatePair(index, { right: e.target.value })}
+          />
+          <button
+            type="button"
+            className="btn btn-sm btn-destructive"
+            title="Remove pair"
+            disabled={pairs.length <= 2}
+            onClick={() => {
+              const next = pairs.filter((_, i) => i !== index);
+              setPairs(next);
+              emit(next);
+            }}
+          >
+            🗑️
+          </button>
+        </div>
+      ))}
+      <button
+        type="button"
+        className="btn btn-sm btn-outline"
+        onClick={() => {
+          const next = [...pairs, { left: "", right: "" }];
+          setPairs(next);
+          emit(next);
+        }}
+      >
+        ➕ Add Pair
+      </button>
+      <div>
+        <label className="label">Distractors (one per line, optional)</label>
+        <textarea
+          className="textarea"
+          rows={3}
+          placeholder="Extra answers that match no prompt"
+          value={distractorsText}
+          onChange={(e) => {
+            setDistractorsText(e.target.value);
+            emit(pairs, e.target.value);
+          }}
+        />
+      </div>
+      <label className="flex items-center gap-2 text-sm">
+        <input
+          type="checkbox"
+          checked={partialCredit}
+          onChange={(e) => {
+            setPartialCredit(e.target.checked);
+            emit(pairs, distractorsText, e.target.checked);
+          }}
+        />
+        Partial credit per correct pair
+      </label>
+    </div>
+  );
+}
+
+// Revision history with a field-by-field diff between any two revisions
+function QuestionHistoryModal({
+  examId,
+  question,
+  onClose,
+}: {
+  examId: string;
+  question: QuestionRow;
+  onClose: () => void;
+}) {
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["admin", "question-revisions", examId, question.id],
+    queryFn: async () => {
+      const res = await authFetch(`/api/admin/exams/${examId}/questions/${question.id}/revisions`);
+      const j = await res.json();
+      if (!res.ok) throw new Error(j?.error || "Load failed");
+      return (j.items ?? []) as (QuestionRevision & { attempt_count: number })[];
+    },
+  });
+  const revisions = data ?? [];
+  const [fromRev, setFromRev] = useState<number | null>(null);
+  const [toRev, setToRev] = useState<number | null>(null);
+  const to = revisions.find((r) => r.revision === toRev) ?? revisions[0];
+  const from = revisions.find((r) => r.revision === fromRev) ?? revisions[1];
+  const changes = from && to ? diffRevisions(from, to) : [];
+  const latest = revisions[0]?.revision;
+  const onOlder = revisions.filter((r) => r.revision !== latest).reduce((n, r) => n + r.attempt_count, 0);
+
+  return (
+    <Modal title="Revision History" onClose={onClose} size="large">
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-muted-foreground">
+          <span className="spinner" /> Loading revisions...
+        </div>
+      ) : error ? (
+        <div className="text-red-700">{(error as Error).message}</div>
+      ) : revisions.length < 2 ? (
+        <div className="text-muted-foreground">This question has not been edited since it was created.</div>
+      ) : (
+        <div className="space-y-4">
+          <table className="w-full text-sm border">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="p-2 border text-left">Revision</th>
+                <th className="p-2 border text-left">Saved</th>
+                <th className="p-2 border text-left">Attempts shown</th>
+              </tr>
+            </thead>
+            <tbody>
+              {revisions.map((r) => (
+                <tr key={r.id}>
+                  <td className="p-2 border">v{r.revision}{r.revision === latest ? " (current)" : ""}</td>
+                  <td className="p-2 border">{new Date(r.created_at).toLocaleString()}</td>
+                  <td className="p-2 border">{r.attempt_count}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div className="flex flex-wrap items-center gap-3 text-sm">
+            <span>Compare</span>
+            <select className="select w-auto" value={from?.revision ?? ""} onChange={(e) => setFromRev(Number(e.target.value))}>
+              {revisions.map((r) => <option key={r.id} value={r.revision}>v{r.revision}</option>)}
+            </select>
+            <span>with</span>
+            <select className="select w-auto" value={to?.revision ?? ""} onChange={(e) => setToRev(Number(e.target.value))}>
+              {revisions.map((r) => <option key={r.id} value={r.revision}>v{r.revision}</option>)}
+            </select>
+          </div>
+
+          {changes.length === 0 ? (
+            <div className="text-muted-foreground text-sm">No differences between these revisions.</div>
+          ) : (
+            <div className="space-y-3">
+              {changes.map((c) => (
+                <div key={c.field} className="border rounded">
+                  <div className="px-3 py-2 bg-gray-50 border-b text-sm font-medium">{c.label}</div>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 text-xs">
+                    <pre className="p-3 bg-red-50 text-red-900 whitespace-pre-wrap break-words">{c.before}</pre>
+                    <pre className="p-3 bg-green-50 text-green-900 whitespace-pre-wrap break-words">{c.after}</pre>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {changesGrading(changes) && onOlder > 0 && (
+            <div className="rounded border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+              {onOlder} attempt{onOlder !== 1 ? "s were" : " was"} shown an older revision and {onOlder !== 1 ? "are" : "is"} still graded against it.
+              To apply the current key, regrade the exam from Results with &quot;Use latest answer keys&quot; checked.
+            </div>
+          )}
+        </div>
+      )}
+    </Modal>
+  );
+}
+
 // Import Questions Modal Component
 function ImportQuestionsModal({ 
   examId, 
@@ -1112,10 +1794,13 @@ function ImportQuestionsModal({
       let correct: unknown = null;
       if (ci >= 0 && r[ci] != null) {
         const raw = String(r[ci]);
-        if (question_type === "multiple_choice" || question_type === "multi_select") correct = raw.split("|").map((s) => s.trim());
+        if (question_type === "multiple_choice" || question_type === "multi_select" || question_type === "short_answer") correct = raw.split("|").map((s) => s.trim());
         else if (question_type === "true_false") correct = raw.toLowerCase() === "true";
+        else if (question_type === "numeric") correct = parseNumericKey(raw.trim());
         else correct = raw;
       }
+      // Ordering items are listed in the correct order, so the key is the options column
+      if (question_type === "ordering" && options) correct = { order: options };
       const required = ri >= 0 ? String(r[ri]).toLowerCase() !== "false" : true;
       const points = pi >= 0 ? Number(r[pi]) || 1 : 1;
       // Generate UUID using browser's crypto API or fallback to a simple random string
@@ -1261,7 +1946,7 @@ function ImportQuestionsModal({
                     <div className="flex gap-4 text-xs text-muted-foreground">
                       <span>Type: {q.question_type}</span>
                       <span>Points: {q.points}</span>
-                      {q.options && <span>Options: {q.options.length}</span>}
+                      {Array.isArray(q.options) && <span>Options: {q.options.length}</span>}
                     </div>
                   </div>
                 ))}
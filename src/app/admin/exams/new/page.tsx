@@ -250,14 +250,14 @@ export default function AdminNewExamPage() {
             </label>
             <input
               type="number"
-              min="1"
+              min="0"
               max="10"
               className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
               value={form.settings.attempt_limit}
               onChange={(e) => setSetting("attempt_limit", Number(e.target.value))}
             />
             <p className="text-gray-500 text-xs mt-1">
-              How many times a student can attempt the exam
+              How many times a student can attempt the exam; 0 allows unlimited attempts
             </p>
           </div>
 
@@ -11,6 +11,8 @@ import ModernTable from "@/components/admin/ModernTable";
 import SearchInput from "@/components/admin/SearchInput";
 import ActionButton from "@/components/admin/ActionButton";
 import StatusBadge from "@/components/admin/StatusBadge";
+import { useAdmin } from "@/hooks/useAdmin";
+import { PERMISSIONS } from "@/lib/auth/edge-permissions";
 
 interface Exam {
   id: string;
@@ -29,6 +31,7 @@ export default function AdminExamsPage() {
   const [searchQuery, setSearchQuery] = useState("");
   const toast = useToast();
   const queryClient = useQueryClient();
+  const { can } = useAdmin();
   
   const { data, isLoading, error } = useQuery({
     queryKey: ["admin", "exams", searchQuery],
@@ -118,36 +121,44 @@ export default function AdminExamsPage() {
       case "actions":
         return (
           <div className="flex items-center gap-2">
-            <Link href={`/admin/exams/${exam.id}/edit`}>
-              <ActionButton variant="secondary" size="sm">Edit</ActionButton>
-            </Link>
-            <Link href={`/admin/exams/${exam.id}/questions`}>
-              <ActionButton variant="secondary" size="sm">Questions</ActionButton>
-            </Link>
+            {can(PERMISSIONS.EXAMS_EDIT) && (
+              <>
+                <Link href={`/admin/exams/${exam.id}/edit`}>
+                  <ActionButton variant="secondary" size="sm">Edit</ActionButton>
+                </Link>
+                <Link href={`/admin/exams/${exam.id}/questions`}>
+                  <ActionButton variant="secondary" size="sm">Questions</ActionButton>
+                </Link>
+              </>
+            )}
             <Link href={`/admin/exams/${exam.id}/students-codes`}>
               <ActionButton variant="secondary" size="sm">Students</ActionButton>
             </Link>
 
-            <ActionButton
-              variant="secondary"
-              size="sm"
-              onClick={() => duplicateMutation.mutate(exam.id)}
-              loading={duplicateMutation.isPending}
-            >
-              Duplicate
-            </ActionButton>
-            <ActionButton
-              variant="danger"
-              size="sm"
-              onClick={() => {
-                if (confirm(`Are you sure you want to delete "${exam.title}"? This action cannot be undone.`)) {
-                  deleteMutation.mutate(exam.id);
-                }
-              }}
-              loading={deleteMutation.isPending}
-            >
-              Delete
-            </ActionButton>
+            {can(PERMISSIONS.EXAMS_CREATE) && (
+              <ActionButton
+                variant="secondary"
+                size="sm"
+                onClick={() => duplicateMutation.mutate(exam.id)}
+                loading={duplicateMutation.isPending}
+              >
+                Duplicate
+              </ActionButton>
+            )}
+            {can(PERMISSIONS.EXAMS_DELETE) && (
+              <ActionButton
+                variant="danger"
+                size="sm"
+                onClick={() => {
+                  if (confirm(`Are you sure you want to delete "${exam.title}"? This action cannot be undone.`)) {
+                    deleteMutation.mutate(exam.id);
+                  }
+                }}
+                loading={deleteMutation.isPending}
+              >
+                Delete
+              </ActionButton>
+            )}
           </div>
         );
       default:
@@ -179,20 +190,22 @@ export default function AdminExamsPage() {
           <h1 className="text-2xl font-bold text-gray-900">Exam Management</h1>
           <p className="text-gray-600 mt-1">Create, edit, and manage your exams</p>
         </div>
-        <div className="flex items-center gap-3">
-          <Link href="/admin/exams/new">
-            <ActionButton
-              variant="primary"
-              icon={
-                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
-                </svg>
-              }
-            >
-              Create New Exam
-            </ActionButton>
-          </Link>
-        </div>
+        {can(PERMISSIONS.EXAMS_CREATE) && (
+          <div className="flex items-center gap-3">
+            <Link href="/admin/exams/new">
+              <ActionButton
+                variant="primary"
+                icon={
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
+                  </svg>
+                }
+              >
+                Create New Exam
+              </ActionButton>
+            </Link>
+          </div>
+        )}
       </div>
 
       {/* Search and Filters */}
@@ -4,6 +4,8 @@ import Link from "next/link";
 import { usePathname } from "next/navigation";
 import { useState, useEffect, type ReactNode } from "react";
 import AdminGuard from "@/components/AdminGuard/index";
+import { useAdmin } from "@/hooks/useAdmin";
+import { PERMISSIONS } from "@/lib/auth/edge-permissions";
 
 export default function AdminLayout({ children }: { children: ReactNode }) {
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
@@ -40,13 +42,13 @@ export default function AdminLayout({ children }: { children: ReactNode }) {
                       </svg>
                       Dashboard
                     </NavLink>
-                    <NavLink href="/admin/exams">
+                    <NavLink href="/admin/exams" permission={PERMISSIONS.EXAMS_VIEW}>
                       <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
                       </svg>
                       Exams
                     </NavLink>
-                    <NavLink href="/admin/students">
+                    <NavLink href="/admin/students" permission={PERMISSIONS.STUDENTS_VIEW}>
                       <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4.354a4 4 0 110 5.292M15 21H3v-1a6 6 0 0112 0v1zm0 0h6v-1a6 6 0 00-9-5.197m13.5-9a2.5 2.5 0 11-5 0 2.5 2.5 0 015 0z" />
                       </svg>
@@ -56,14 +58,14 @@ export default function AdminLayout({ children }: { children: ReactNode }) {
 
                   {/* Monitoring Group */}
                   <div className="flex items-center gap-1 mr-2 border-l border-gray-200 pl-2">
-                    <NavLink href="/admin/monitoring">
+                    <NavLink href="/admin/monitoring" permission={PERMISSIONS.MONITORING_VIEW}>
                       <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
                       </svg>
                       Monitor
                     </NavLink>
-                    <NavLink href="/admin/results">
+                    <NavLink href="/admin/results" permission={PERMISSIONS.RESULTS_VIEW_ALL}>
                       <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
                       </svg>
@@ -73,13 +75,13 @@ export default function AdminLayout({ children }: { children: ReactNode }) {
 
                   {/* Admin Group */}
                   <div className="flex items-center gap-1 border-l border-gray-200 pl-2">
-                    <NavLink href="/admin/audit">
+                    <NavLink href="/admin/audit" permission={PERMISSIONS.AUDIT_VIEW}>
                       <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
                       </svg>
                       Audit
                     </NavLink>
-                    <NavLink href="/admin/settings">
+                    <NavLink href="/admin/settings" permission={PERMISSIONS.SETTINGS_MANAGE}>
                       <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" />
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
@@ -135,13 +137,13 @@ export default function AdminLayout({ children }: { children: ReactNode }) {
                   </svg>
                   Dashboard
                 </MobileNavLink>
-                <MobileNavLink href="/admin/exams">
+                <MobileNavLink href="/admin/exams" permission={PERMISSIONS.EXAMS_VIEW}>
                   <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
                   </svg>
                   Exams
                 </MobileNavLink>
-                <MobileNavLink href="/admin/students">
+                <MobileNavLink href="/admin/students" permission={PERMISSIONS.STUDENTS_VIEW}>
                   <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4.354a4 4 0 110 5.292M15 21H3v-1a6 6 0 0112 0v1zm0 0h6v-1a6 6 0 00-9-5.197m13.5-9a2.5 2.5 0 11-5 0 2.5 2.5 0 015 0z" />
                   </svg>
@@ -149,14 +151,14 @@ export default function AdminLayout({ children }: { children: ReactNode }) {
                 </MobileNavLink>
 
                 <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-wider pt-4 pb-1 border-t border-gray-100 mt-3">Monitoring</h3>
-                <MobileNavLink href="/admin/monitoring">
+                <MobileNavLink href="/admin/monitoring" permission={PERMISSIONS.MONITORING_VIEW}>
                   <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
                   </svg>
                   Monitor
                 </MobileNavLink>
-                <MobileNavLink href="/admin/results">
+                <MobileNavLink href="/admin/results" permission={PERMISSIONS.RESULTS_VIEW_ALL}>
                   <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
                   </svg>
@@ -164,13 +166,13 @@ export default function AdminLayout({ children }: { children: ReactNode }) {
                 </MobileNavLink>
 
                 <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-wider pt-4 pb-1 border-t border-gray-100 mt-3">Admin</h3>
-                <MobileNavLink href="/admin/audit">
+                <MobileNavLink href="/admin/audit" permission={PERMISSIONS.AUDIT_VIEW}>
                   <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
                   </svg>
                   Audit
                 </MobileNavLink>
-                <MobileNavLink href="/admin/settings">
+                <MobileNavLink href="/admin/settings" permission={PERMISSIONS.SETTINGS_MANAGE}>
                   <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" />
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
@@ -189,10 +191,13 @@ export default function AdminLayout({ children }: { children: ReactNode }) {
   );
 }
 
-function NavLink({ href, children, exact = false }: { href: string; children: ReactNode; exact?: boolean }) {
+function NavLink({ href, children, exact = false, permission }: { href: string; children: ReactNode; exact?: boolean; permission?: string }) {
   const pathname = usePathname();
+  const { can } = useAdmin();
   const isActive = exact ? pathname === href : pathname.startsWith(href);
 
+  if (permission && !can(permission)) return null;
+
   return (
     <Link
       href={href}
@@ -208,10 +213,13 @@ function NavLink({ href, children, exact = false }: { href: string; children: Re
   );
 }
 
-function MobileNavLink({ href, children, exact = false }: { href: string; children: ReactNode; exact?: boolean }) {
+function MobileNavLink({ href, children, exact = false, permission }: { href: string; children: ReactNode; exact?: boolean; permission?: string }) {
   const pathname = usePathname();
+  const { can } = useAdmin();
   const isActive = exact ? pathname === href : pathname.startsWith(href);
 
+  if (permission && !can(permission)) return null;
+
   return (
     <Link
       href={href}
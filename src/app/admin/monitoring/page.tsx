@@ -1,5 +1,6 @@
 "use client";
 
+import Link from "next/link";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { authFetch } from "@/lib/authFetch";
 import { useToast } from "@/components/ToastProvider";
@@ -8,6 +9,8 @@ import ModernTable from "@/components/admin/ModernTable";
 import StatsCard from "@/components/admin/StatsCard";
 import StatusBadge from "@/components/admin/StatusBadge";
 import ActionButton from "@/components/admin/ActionButton";
+import { useAdmin } from "@/hooks/useAdmin";
+import { PERMISSIONS } from "@/lib/auth/edge-permissions";
 
 interface RunningByExam { 
   exam_id: string; 
@@ -24,6 +27,12 @@ interface ActiveItem {
   started_at: string;
 }
 
+interface ActiveAttempt extends ActiveItem {
+  accommodation: string | null;
+  extension_minutes: number;
+  deadline_at: string | null;
+}
+
 interface RecentItem extends ActiveItem { 
   submitted_at: string; 
   completion_status: string | null;
@@ -32,6 +41,7 @@ interface RecentItem extends ActiveItem {
 export default function AdminMonitoringPage() {
   const queryClient = useQueryClient();
   const toast = useToast();
+  const { can } = useAdmin();
   
   const { data, isLoading, error } = useQuery({
     queryKey: ["admin", "monitoring"],
@@ -44,13 +54,36 @@ export default function AdminMonitoringPage() {
         active_count: number;
         submissions_last_60m: number;
         running_by_exam: RunningByExam[];
-        active_list: ActiveItem[];
+        active_list: ActiveAttempt[];
         recent_list: RecentItem[];
       };
     },
     refetchInterval: 5000, // Auto-refresh every 5 seconds
   });
 
+  const extendAttempt = async (item: ActiveAttempt) => {
+    const input = window.prompt(`Extra minutes for ${item.student_name || "this student"}:`, "10");
+    if (input === null) return;
+    const minutes = Number(input);
+    if (!Number.isInteger(minutes) || minutes < 1 || minutes > 600) {
+      toast.error({ title: "Invalid Minutes", message: "Enter a whole number of minutes between 1 and 600" });
+      return;
+    }
+    const reason = window.prompt("Reason (recorded in the audit log):", "") ?? "";
+    try {
+      const res = await authFetch(`/api/admin/attempts/${item.id}/extend`, {
+        method: "POST",
+        body: JSON.stringify({ minutes, reason }),
+      });
+      const result = await res.json();
+      if (!res.ok) throw new Error(result?.error || "Extend failed");
+      queryClient.invalidateQueries({ queryKey: ["admin", "monitoring"] });
+      toast.success({ title: "Time Extended", message: `Added ${minutes} minutes; the student's timer updates within seconds` });
+    } catch (error) {
+      toast.error({ title: "Extend Failed", message: error instanceof Error ? error.message : "Unknown error" });
+    }
+  };
+
   if (error) {
     return (
       <div className="space-y-6">
@@ -78,43 +111,45 @@ export default function AdminMonitoringPage() {
           <p className="text-gray-600 mt-1">Real-time exam activity and system health</p>
         </div>
         <div className="flex items-center gap-4">
-          <ActionButton
-            variant="warning"
-            onClick={async () => {
-              try {
-                const res = await authFetch("/api/admin/cleanup-expired", { method: "POST" });
-                const result = await res.json();
-                if (!res.ok) throw new Error(result.error);
+          {can(PERMISSIONS.ATTEMPTS_MANAGE) && (
+            <ActionButton
+              variant="warning"
+              onClick={async () => {
+                try {
+                  const res = await authFetch("/api/admin/cleanup-expired", { method: "POST" });
+                  const result = await res.json();
+                  if (!res.ok) throw new Error(result.error);
                 
-                // Refresh the data after cleanup
-                queryClient.invalidateQueries({ queryKey: ["admin", "monitoring"] });
+                  // Refresh the data after cleanup
+                  queryClient.invalidateQueries({ queryKey: ["admin", "monitoring"] });
                 
-                if (result.auto_submitted_count > 0) {
-                  toast.success({ 
-                    title: "Cleanup Complete", 
-                    message: `Auto-submitted ${result.auto_submitted_count} expired attempts` 
-                  });
-                } else {
-                  toast.success({ 
-                    title: "Cleanup Complete", 
-                    message: "No expired attempts found" 
+                  if (result.auto_submitted_count > 0) {
+                    toast.success({ 
+                      title: "Cleanup Complete", 
+                      message: `Auto-submitted ${result.auto_submitted_count} expired attempts` 
+                    });
+                  } else {
+                    toast.success({ 
+                      title: "Cleanup Complete", 
+                      message: "No expired attempts found" 
+                    });
+                  }
+                } catch (error: any) {
+                  toast.error({ 
+                    title: "Cleanup Failed", 
+                    message: error.message || "Unknown error" 
                   });
                 }
-              } catch (error: any) {
-                toast.error({ 
-                  title: "Cleanup Failed", 
-                  message: error.message || "Unknown error" 
-                });
+              }}
+              icon={
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                </svg>
               }
-            }}
-            icon={
-              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-              </svg>
-            }
-          >
-            Cleanup Expired
-          </ActionButton>
+            >
+              Cleanup Expired
+            </ActionButton>
+          )}
           <div className="flex items-center gap-2 text-sm text-gray-600">
             <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse"></div>
             <span>
@@ -171,6 +206,9 @@ export default function AdminMonitoringPage() {
                 <div className="flex items-center gap-3">
                   <div className="w-2 h-2 bg-blue-500 rounded-full"></div>
                   <span className="font-medium text-gray-900">{exam.exam_title}</span>
+                  <Link href={`/admin/exams/${exam.exam_id}/proctor`} className="text-sm text-blue-600 hover:underline">
+                    Proctor
+                  </Link>
                 </div>
                 <div className="flex items-center gap-2">
                   <span className="text-2xl font-bold text-blue-600">{exam.count}</span>
@@ -203,9 +241,11 @@ export default function AdminMonitoringPage() {
             { key: "ip", label: "IP Address", width: "150px" },
             { key: "started", label: "Started", width: "150px" },
             { key: "duration", label: "Duration", width: "100px" },
+            { key: "time_left", label: "Time Left", width: "140px" },
+            { key: "actions", label: "", width: "100px" },
           ]}
           data={d?.active_list || []}
-          renderCell={(item: ActiveItem, column) => {
+          renderCell={(item: ActiveAttempt, column) => {
             switch (column.key) {
               case "exam":
                 return (
@@ -244,6 +284,25 @@ export default function AdminMonitoringPage() {
                     )}
                   </div>
                 );
+              case "time_left": {
+                const left = item.deadline_at ? Math.floor((new Date(item.deadline_at).getTime() - Date.now()) / 60000) : null;
+                return (
+                  <div>
+                    <span className="font-medium">{left === null ? "Untimed" : `${Math.max(0, left)}m`}</span>
+                    {(item.accommodation || item.extension_minutes > 0) && (
+                      <div className="text-xs text-gray-500">
+                        {[item.accommodation, item.extension_minutes > 0 ? `+${item.extension_minutes} min live` : null].filter(Boolean).join(" · ")}
+                      </div>
+                    )}
+                  </div>
+                );
+              }
+              case "actions":
+                return can(PERMISSIONS.ATTEMPTS_MANAGE) ? (
+                  <ActionButton variant="secondary" size="sm" onClick={() => extendAttempt(item)}>
+                    + Time
+                  </ActionButton>
+                ) : null;
               default:
                 return null;
             }
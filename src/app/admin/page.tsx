@@ -9,6 +9,8 @@ import StatsCard from "@/components/admin/StatsCard";
 import ModernCard from "@/components/admin/ModernCard";
 import ActionButton from "@/components/admin/ActionButton";
 import StatusBadge from "@/components/admin/StatusBadge";
+import { useAdmin } from "@/hooks/useAdmin";
+import { PERMISSIONS } from "@/lib/auth/edge-permissions";
 
 interface Exam {
   id: string;
@@ -32,6 +34,7 @@ export default function AdminHomePage() {
   const [examFilter, setExamFilter] = useState<'all' | 'draft' | 'published' | 'archived'>('all');
   const toast = useToast();
   const queryClient = useQueryClient();
+  const { can } = useAdmin();
 
   const { data, isLoading, error } = useQuery({
     queryKey: ["admin", "dashboard"],
@@ -258,52 +261,54 @@ export default function AdminHomePage() {
               </p>
             </div>
           </div>
-          <div className="flex items-center gap-2">
-            <ActionButton
-              variant="success"
-              size="sm"
-              onClick={() => enableSystemMutation.mutate()}
-              loading={enableSystemMutation.isPending}
-              disabled={systemMode === 'exam'}
-              className="shadow-sm hover:shadow-md transition-all duration-200 hover:scale-105"
-              icon={
-                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
-                </svg>
-              }
-            >
-              Exam Mode
-            </ActionButton>
-            <ActionButton
-              variant="secondary"
-              size="sm"
-              onClick={() => resultsModeMutation.mutate()}
-              loading={resultsModeMutation.isPending}
-              disabled={systemMode === 'results'}
-              className="shadow-sm hover:shadow-md transition-all duration-200 hover:scale-105"
-              icon={
-                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4" />
-                </svg>
-              }
-            >
-              Results Mode
-            </ActionButton>
-            <ActionButton
-              variant="danger"
-              size="sm"
-              onClick={() => setShowDisableModal(true)}
-              disabled={systemMode === 'disabled'}
-              className="shadow-sm hover:shadow-md transition-all duration-200 hover:scale-105"
-              icon={
-                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M18.364 18.364A9 9 0 005.636 5.636m12.728 12.728L5.636 5.636M5.636 18.364l12.728-12.728" />
-                </svg>
-              }
-            >
-              Disable System
-            </ActionButton>
-          </div>
+          {can(PERMISSIONS.SYSTEM_MANAGE) && (
+            <div className="flex items-center gap-2">
+              <ActionButton
+                variant="success"
+                size="sm"
+                onClick={() => enableSystemMutation.mutate()}
+                loading={enableSystemMutation.isPending}
+                disabled={systemMode === 'exam'}
+                className="shadow-sm hover:shadow-md transition-all duration-200 hover:scale-105"
+                icon={
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+                  </svg>
+                }
+              >
+                Exam Mode
+              </ActionButton>
+              <ActionButton
+                variant="secondary"
+                size="sm"
+                onClick={() => resultsModeMutation.mutate()}
+                loading={resultsModeMutation.isPending}
+                disabled={systemMode === 'results'}
+                className="shadow-sm hover:shadow-md transition-all duration-200 hover:scale-105"
+                icon={
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4" />
+                  </svg>
+                }
+              >
+                Results Mode
+              </ActionButton>
+              <ActionButton
+                variant="danger"
+                size="sm"
+                onClick={() => setShowDisableModal(true)}
+                disabled={systemMode === 'disabled'}
+                className="shadow-sm hover:shadow-md transition-all duration-200 hover:scale-105"
+                icon={
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M18.364 18.364A9 9 0 005.636 5.636m12.728 12.728L5.636 5.636M5.636 18.364l12.728-12.728" />
+                  </svg>
+                }
+              >
+                Disable System
+              </ActionButton>
+            </div>
+          )}
         </div>
       </ModernCard>
 
@@ -375,7 +380,7 @@ export default function AdminHomePage() {
               </svg>
               Currently Active Exam
             </h2>
-          {activeExam && (
+          {activeExam && can(PERMISSIONS.EXAMS_PUBLISH) && (
             <ActionButton
               variant="danger"
               size="sm"
@@ -576,8 +581,8 @@ export default function AdminHomePage() {
               <ExamRow 
                 key={exam.id} 
                 exam={exam} 
-                onPublish={() => publishExamMutation.mutate(exam.id)}
-                onArchive={() => archiveExamMutation.mutate(exam.id)}
+                onPublish={can(PERMISSIONS.EXAMS_PUBLISH) ? () => publishExamMutation.mutate(exam.id) : undefined}
+                onArchive={can(PERMISSIONS.EXAMS_PUBLISH) ? () => archiveExamMutation.mutate(exam.id) : undefined}
                 isPublishing={publishExamMutation.isPending}
                 isArchiving={archiveExamMutation.isPending}
               />
@@ -691,8 +696,8 @@ function ExamRow({
   isArchiving 
 }: { 
   exam: Exam; 
-  onPublish: () => void;
-  onArchive: () => void;
+  onPublish?: () => void;
+  onArchive?: () => void;
   isPublishing: boolean;
   isArchiving: boolean;
 }) {
@@ -734,7 +739,7 @@ function ExamRow({
         </div>
       </div>
       <div className="flex items-center gap-2">
-        {exam.status === 'draft' && (
+        {exam.status === 'draft' && onPublish && (
           <ActionButton
             variant="success"
             size="sm"
@@ -750,7 +755,7 @@ function ExamRow({
             Publish
           </ActionButton>
         )}
-        {exam.status === 'published' && (
+        {exam.status === 'published' && onArchive && (
           <ActionButton
             variant="warning"
             size="sm"
@@ -6,9 +6,18 @@ import Link from "next/link";
 import { authFetch } from "@/lib/authFetch";
 import { useParams } from "next/navigation";
 import StatusBadge from "@/components/admin/StatusBadge";
+import { useAdmin } from "@/hooks/useAdmin";
+import { PERMISSIONS } from "@/lib/auth/edge-permissions";
+import { gradeImageAnnotation, parseAnnotationPoints } from "@/lib/imageAnnotation";
+import { gradeNumeric } from "@/lib/numericAnswer";
+import { gradeShortAnswer } from "@/lib/shortAnswer";
+import { gradeSequence, parseMatchingOptions } from "@/lib/sequenceAnswer";
+import { SCORING_MODES, parseScoringPolicy, scoreQuestion } from "@/lib/scoring";
+import { RISK_BADGE_CLASSES, RISK_LEVEL_LABELS, type IntegrityReport, type TimelineEntry } from "@/lib/integrityRisk";
 
 export default function AdminAttemptDetails() {
   const { attemptId } = useParams<{ attemptId: string }>();
+  const { can } = useAdmin();
 
   const stateQ = useQuery({
     queryKey: ["admin", "attempt", attemptId, "state"],
@@ -109,6 +118,17 @@ export default function AdminAttemptDetails() {
     },
   });
 
+  const integrityQ = useQuery({
+    queryKey: ["admin", "attempt", attemptId, "integrity"],
+    enabled: !!attemptId,
+    queryFn: async () => {
+      const res = await authFetch(`/api/admin/attempts/${attemptId}/integrity`);
+      const j = await res.json();
+      if (!res.ok) throw new Error(j?.error || "Load integrity report failed");
+      return j as { report: IntegrityReport; timeline: TimelineEntry[] };
+    },
+  });
+
   if (!attemptId) {
     return (
       <div className="space-y-4">
@@ -189,6 +209,16 @@ export default function AdminAttemptDetails() {
                 <div><span className="text-gray-600">Score:</span> <span className="font-semibold">{correctCount} of {totalGradable} correct</span></div>
               ) : null;
             })()}
+            {stateQ.data && (() => {
+              const policy = parseScoringPolicy(stateQ.data?.exam?.settings);
+              const label = SCORING_MODES.find((m) => m.value === policy.mode)?.label ?? policy.mode;
+              return (
+                <div>
+                  <span className="text-gray-600">Scoring:</span> {label}
+                  {policy.mode === "negative" ? ` (−${Math.round((policy.penalty ?? 0) * 100)}% per wrong answer)` : ""}
+                </div>
+              );
+            })()}
           </div>
           {Array.isArray(metaQ.data.ips) && metaQ.data.ips.length > 0 && (
             <div className="mt-3">
@@ -286,22 +316,24 @@ export default function AdminAttemptDetails() {
                     </div>
                   );
                 })}
-                <div className="flex items-center gap-2">
-                  <button
-                    onClick={saveManualGrades}
-                    disabled={savingManual}
-                    className="px-3 py-2 rounded bg-blue-600 text-white disabled:opacity-50"
-                  >
-                    {savingManual ? 'Saving…' : 'Save Manual Grades'}
-                  </button>
-                  <button
-                    onClick={regradeThisAttempt}
-                    disabled={regrading}
-                    className="px-3 py-2 rounded border"
-                  >
-                    {regrading ? 'Regrading…' : 'Regrade This Attempt'}
-                  </button>
-                </div>
+                {can(PERMISSIONS.RESULTS_GRADE) && (
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={saveManualGrades}
+                      disabled={savingManual}
+                      className="px-3 py-2 rounded bg-blue-600 text-white disabled:opacity-50"
+                    >
+                      {savingManual ? 'Saving…' : 'Save Manual Grades'}
+                    </button>
+                    <button
+                      onClick={regradeThisAttempt}
+                      disabled={regrading}
+                      className="px-3 py-2 rounded border"
+                    >
+                      {regrading ? 'Regrading…' : 'Regrade This Attempt'}
+                    </button>
+                  </div>
+                )}
               </div>
             </details>
           )}
@@ -402,6 +434,66 @@ export default function AdminAttemptDetails() {
         );
       })()}
 
+      {(() => {
+        if (integrityQ.isLoading) return <div className="p-3">Loading integrity report…</div>;
+        if (integrityQ.error)
+          return (
+            <div className="p-3 text-red-600">{String(((integrityQ.error as any)?.message))}</div>
+          );
+        if (!integrityQ.data) return null;
+        const { report, timeline } = integrityQ.data;
+        return (
+          <details className="bg-white border rounded" open={report.level !== "low"}>
+            <summary className="p-3 cursor-pointer hover:bg-gray-50 flex items-center justify-between">
+              <h2 className="font-semibold">Integrity Risk</h2>
+              <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${RISK_BADGE_CLASSES[report.level]}`}>
+                {report.score}/100 · {RISK_LEVEL_LABELS[report.level]}
+              </span>
+            </summary>
+            <div className="px-3 pb-3 border-t space-y-3">
+              <p className="text-xs text-gray-500 mt-2">
+                Scored from the activity events of this attempt. A high score is a reason to review the timeline, not proof of misconduct.
+              </p>
+              {report.factors.length > 0 ? (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-600">
+                      <th className="py-1 pr-3">Factor</th>
+                      <th className="py-1 pr-3">Points</th>
+                      <th className="py-1">Evidence</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.factors.map((f) => (
+                      <tr key={f.key} className="border-t">
+                        <td className="py-1 pr-3 font-medium">{f.label}</td>
+                        <td className="py-1 pr-3">+{f.points}</td>
+                        <td className="py-1 text-gray-700">{f.detail}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              ) : (
+                <p className="text-gray-500 text-sm">No risk factors were found in the activity of this attempt.</p>
+              )}
+              {timeline.length > 0 && (
+                <ol className="text-xs space-y-1 max-h-80 overflow-auto">
+                  {timeline.map((entry, i) => (
+                    <li key={i} className="flex gap-3">
+                      <span className="text-gray-500 whitespace-nowrap">{new Date(entry.at).toLocaleTimeString()}</span>
+                      <span className={entry.severity === "alert" ? "text-red-700 font-medium" : entry.severity === "warning" ? "text-orange-600" : "text-gray-700"}>
+                        {entry.label}
+                        {entry.detail ? <span className="text-gray-500"> · {entry.detail}</span> : null}
+                      </span>
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </div>
+          </details>
+        );
+      })()}
+
       {(() => {
         if (actQ.isLoading) return <div className="p-3">Loading activity…</div>;
         if (actQ.error)
@@ -565,6 +657,9 @@ export default function AdminAttemptDetails() {
 function PerQuestionTable({ state }: { state: any }) {
   const answers = (state?.answers ?? {}) as Record<string, unknown>;
   const questions = Array.isArray(state?.questions) ? (state.questions as any[]) : [];
+  const policy = parseScoringPolicy(state?.exam?.settings);
+  const manualMap = (state?.manual_grades_map ?? {}) as Record<string, { awarded_points?: number }>;
+  const fmtPts = (n: number) => String(Math.round(n * 100) / 100);
 
   return (
     <div className="overflow-x-auto">
@@ -575,6 +670,7 @@ function PerQuestionTable({ state }: { state: any }) {
             <th className="p-2 border">Type</th>
             <th className="p-2 border">Answer</th>
             <th className="p-2 border">Correct</th>
+            <th className="p-2 border">Points</th>
           </tr>
         </thead>
         <tbody>
@@ -582,11 +678,16 @@ function PerQuestionTable({ state }: { state: any }) {
             const ans = answers[q.id];
             const ok = isCorrect(q, ans);
             const hasAns = hasAnswer(q, ans);
+            const score = scoreQuestion(q, ans, ok, policy);
+            const manualPts = manualMap[q.id]?.awarded_points;
             return (
               <tr key={q.id} className="border-t align-top">
                 <td className="p-2 border text-sm max-w-xl">
                   <div className="font-medium line-clamp-2">{stripHtml(String(q.question_text ?? ""))}</div>
                   <div className="text-xs text-gray-500">{q.id}</div>
+                  {q.revision != null && q.current_revision != null && q.revision !== q.current_revision && (
+                    <div className="text-xs text-amber-700">Graded on revision {q.revision} (current: {q.current_revision})</div>
+                  )}
                 </td>
                 <td className="p-2 border text-sm">{q.question_type}</td>
                 <td className="p-2 border text-sm whitespace-pre-wrap">
@@ -617,6 +718,23 @@ function PerQuestionTable({ state }: { state: any }) {
                         ? <span className="text-green-700">✔</span>
                         : <span className="text-red-700">✘</span>}
                 </td>
+                <td className="p-2 border text-sm whitespace-nowrap">
+                  {ok === null ? (
+                    <>
+                      <div className="font-medium">
+                        {typeof manualPts === "number" ? `${fmtPts(Math.min(manualPts, score.max))} / ${score.max}` : `– / ${score.max}`}
+                      </div>
+                      <div className="text-xs text-gray-500">{typeof manualPts === "number" ? "Manual grade" : "Not graded yet"}</div>
+                    </>
+                  ) : (
+                    <>
+                      <div className={`font-medium ${score.earned < 0 ? "text-red-700" : ""}`}>
+                        {fmtPts(score.earned)} / {score.max}
+                      </div>
+                      <div className="text-xs text-gray-500">{score.derivation}</div>
+                    </>
+                  )}
+                </td>
               </tr>
             );
           })}
@@ -626,9 +744,9 @@ function PerQuestionTable({ state }: { state: any }) {
   );
 }
 
-type QType = "true_false" | "single_choice" | "multiple_choice" | "multi_select" | "paragraph" | "photo_upload";
+type QType = "true_false" | "single_choice" | "multiple_choice" | "multi_select" | "short_answer" | "paragraph" | "photo_upload" | "image_annotation" | "numeric" | "matching" | "ordering";
 function isAutoGradable(t: QType) {
-  return t === "true_false" || t === "single_choice" || t === "multiple_choice" || t === "multi_select";
+  return t === "true_false" || t === "single_choice" || t === "multiple_choice" || t === "multi_select" || t === "short_answer" || t === "image_annotation" || t === "numeric" || t === "matching" || t === "ordering";
 }
 function normStr(s: unknown) {
   return typeof s === "string" ? s.trim() : String(s ?? "");
@@ -666,6 +784,10 @@ function isCorrect(question: any, answer: unknown): boolean | null {
     return ansStr === normStr(corrRaw);
   }
   if (t === "multiple_choice" || t === "multi_select") return arraysEqualIgnoreOrder(answer, correct);
+  if (t === "short_answer") return gradeShortAnswer(answer, correct);
+  if (t === "image_annotation") return gradeImageAnnotation(answer, correct);
+  if (t === "numeric") return gradeNumeric(answer, correct);
+  if (t === "matching" || t === "ordering") return gradeSequence(t, answer, correct);
   return null;
 }
 function hasAnswer(question: any, answer: unknown): boolean {
@@ -673,8 +795,11 @@ function hasAnswer(question: any, answer: unknown): boolean {
   if (t === "true_false") return typeof answer === "boolean";
   if (t === "single_choice") return typeof answer === "string" && normStr(answer) !== "";
   if (t === "multiple_choice" || t === "multi_select") return Array.isArray(answer) && (answer as any[]).length > 0;
-  if (t === "paragraph") return typeof answer === "string" && normStr(answer) !== "";
+  if (t === "paragraph" || t === "short_answer") return typeof answer === "string" && normStr(answer) !== "";
   if (t === "photo_upload") return typeof answer === "string" && normStr(answer) !== "";
+  if (t === "image_annotation") return parseAnnotationPoints(answer).length > 0;
+  if (t === "matching" || t === "ordering") return Array.isArray(answer) && answer.some((x) => typeof x === "string" && x !== "");
+  if (t === "numeric") return (typeof answer === "string" && normStr(answer) !== "") || typeof answer === "number";
   return false;
 }
 function fmtAnswer(question: any, answer: unknown): string {
@@ -682,8 +807,14 @@ function fmtAnswer(question: any, answer: unknown): string {
   if (t === "true_false") return String(Boolean(answer));
   if (t === "single_choice") return normStr(answer);
   if (t === "multiple_choice" || t === "multi_select") return Array.isArray(answer) ? (answer as any[]).join(", ") : "";
-  if (t === "paragraph") return typeof answer === "string" ? answer : String(answer ?? "");
+  if (t === "paragraph" || t === "short_answer") return typeof answer === "string" ? answer : String(answer ?? "");
   if (t === "photo_upload") return typeof answer === "string" ? answer : String(answer ?? "");
+  if (t === "ordering") return Array.isArray(answer) ? answer.map((x, i) => `${i + 1}. ${x}`).join("\n") : "";
+  if (t === "matching") {
+    const left = parseMatchingOptions(question.options).left;
+    return Array.isArray(answer) ? left.map((l, i) => `${l} → ${answer[i] || "—"}`).join("\n") : "";
+  }
+  if (t === "image_annotation") return parseAnnotationPoints(answer).map((p) => `(${Math.round(p.x)}%, ${Math.round(p.y)}%)`).join(", ");
   return String(answer ?? "");
 }
 function stripHtml(s: string) {
@@ -5,6 +5,7 @@ import { useQuery } from "@tanstack/react-query";
 import Link from "next/link";
 import { useParams } from "next/navigation";
 import { authFetch } from "@/lib/authFetch";
+import { FLAG_LABELS, type ItemAnalysisReport, type ItemStats } from "@/lib/itemAnalysis";
 import {
   Chart as ChartJS,
   BarElement,
@@ -17,33 +18,16 @@ import { Bar } from "react-chartjs-2";
 
 ChartJS.register(CategoryScale, LinearScale, BarElement, Tooltip, Legend);
 
-// Minimal shape we rely on from attempt state questions
-type QType = "true_false" | "single_choice" | "multiple_choice" | "multi_select" | "paragraph";
-
-function isAutoGradable(t: QType) {
-  return t === "true_false" || t === "single_choice" || t === "multiple_choice" || t === "multi_select";
-}
-
-function normStr(s: unknown) {
-  return typeof s === "string" ? s.trim() : String(s ?? "");
+function fmt(n: number | null, digits = 2) {
+  return n === null ? "—" : n.toFixed(digits);
 }
 
-function arraysEqualIgnoreOrder(a: unknown, b: unknown) {
-  const aa = Array.isArray(a) ? a.slice().sort() : [] as unknown[];
-  const bb = Array.isArray(b) ? b.slice().sort() : [] as unknown[];
-  if (aa.length !== bb.length) return false;
-  for (let i = 0; i < aa.length; i++) if (aa[i] !== bb[i]) return false;
-  return true;
+function pct(n: number | null) {
+  return n === null ? "—" : `${Math.round(n * 100)}%`;
 }
 
-function isCorrect(question: any, answer: unknown): boolean | null {
-  const t = question.question_type as QType;
-  const correct = question.correct_answers;
-  if (!isAutoGradable(t)) return null; // paragraph or unsupported
-  if (t === "true_false") return Boolean(answer) === Boolean(correct);
-  if (t === "single_choice") return normStr(answer) === normStr(correct);
-  if (t === "multiple_choice" || t === "multi_select") return arraysEqualIgnoreOrder(answer, correct);
-  return null;
+function optionSummary(r: ItemStats) {
+  return (r.options ?? []).map((o) => `${o.option}${o.is_key ? " (key)" : ""}: ${pct(o.rate)}`).join("; ");
 }
 
 export default function AnalysisPage() {
@@ -59,80 +43,14 @@ export default function AnalysisPage() {
     },
   });
 
-  const attemptsQ = useQuery({
-    queryKey: ["admin", "attempts", examId],
+  const analysisQ = useQuery({
     enabled: !!examId,
+    queryKey: ["admin", "item-analysis", examId],
     queryFn: async () => {
-      const id = examId as string;
-      const res = await authFetch(`/api/admin/exams/${id}/attempts`);
+      const res = await authFetch(`/api/admin/exams/${examId}/item-analysis`);
       const j = await res.json();
-      if (!res.ok) throw new Error(j?.error || "Load attempts failed");
-      return (j.items as any[]).filter((a: any) => String(a.completion_status) === "submitted");
-    },
-  });
-
-  const analysisQ = useQuery({
-    enabled: !!attemptsQ.data && !!examId,
-    queryKey: ["admin", "analysis", examId, (attemptsQ.data || []).length],
-    queryFn: async () => {
-      const atts = attemptsQ.data as any[];
-      const ids = atts.map((a) => a.id);
-      // limit concurrency to avoid spamming the server
-      const chunkSize = 10;
-      const results: any[] = [];
-      for (let i = 0; i < ids.length; i += chunkSize) {
-        const chunk = ids.slice(i, i + chunkSize);
-        const part = await Promise.all(
-          chunk.map(async (id) => {
-            const res = await authFetch(`/api/attempts/${id}/state`);
-            const j = await res.json();
-            if (!res.ok) throw new Error(j?.error || `Load state failed for ${id}`);
-            return j;
-          })
-        );
-        results.push(...part);
-      }
-
-      // Aggregate per question
-      type Row = { questionId: string; question_text: string; question_type: QType; autoGradable: boolean; total: number; answered: number; correct: number };
-      const map = new Map<string, Row>();
-      const attemptScores: number[] = [];
-
-      for (const st of results) {
-        const answers = (st.answers ?? {}) as Record<string, unknown>;
-        let totalAuto = 0;
-        let correctAuto = 0;
-        for (const q of st.questions as any[]) {
-          const id = q.id as string;
-          const t = q.question_type as QType;
-          if (!map.has(id)) {
-            map.set(id, { questionId: id, question_text: q.question_text, question_type: t, autoGradable: isAutoGradable(t), total: 0, answered: 0, correct: 0 });
-          }
-          const row = map.get(id)!;
-          row.total += 1;
-          const ans = answers[id];
-          const hasAns = Array.isArray(ans) ? ans.length > 0 : (ans !== null && ans !== undefined && String(ans) !== "");
-          if (hasAns) row.answered += 1;
-          const ok = isCorrect(q, ans);
-          if (ok === true) row.correct += 1;
-          if (row.autoGradable) {
-            totalAuto += 1;
-            if (ok === true) correctAuto += 1;
-          }
-        }
-        const pct = totalAuto ? (correctAuto / totalAuto) * 100 : 0;
-        attemptScores.push(Math.round(pct));
-      }
-
-      const rows = Array.from(map.values());
-      rows.sort((a, b) => a.question_text.localeCompare(b.question_text));
-      const summary = {
-        attempts_considered: ids.length,
-        questions_considered: rows.length,
-        avg_correct_rate: rows.length ? Math.round((rows.reduce((s, r) => s + (r.autoGradable ? r.correct / Math.max(1, r.total) : 0), 0) / rows.filter((r) => r.autoGradable).length) * 100) : 0,
-      };
-
-      return { rows, summary, attempt_scores: attemptScores };
+      if (!res.ok) throw new Error(j?.error || "Load analysis failed");
+      return j as ItemAnalysisReport;
     },
   });
 
@@ -141,7 +59,7 @@ export default function AnalysisPage() {
   return (
     <div className="space-y-4">
       <div className="flex items-center gap-3">
-        <h1 className="text-xl font-semibold">Per-question Analysis</h1>
+        <h1 className="text-xl font-semibold">Item Analysis</h1>
         {selectedExam && <span className="text-sm text-gray-600">{selectedExam.title}</span>}
         <div className="ml-auto flex items-center gap-2">
           <Link href={`/admin/results`} className="btn btn-sm">Back</Link>
@@ -149,13 +67,21 @@ export default function AnalysisPage() {
             <button
               className="btn btn-sm"
               onClick={() => {
-                const header = ["questionId","question_text","question_type","autoGradable","total","answered","correct","correct_rate"].join(",");
-                const lines = analysisQ.data.rows.map((r: any) => {
-                  const rate = r.total ? (r.correct / r.total) : 0;
-                  const esc = (s: string) => '"' + String(s).replace(/"/g, '""') + '"';
-                  return [r.questionId, esc(r.question_text), r.question_type, r.autoGradable, r.total, r.answered, r.correct, rate.toFixed(3)].join(",");
-                });
-                const csv = [header, ...lines].join("\n");
+                const sum = analysisQ.data.summary;
+                const esc = (s: string) => '"' + String(s).replace(/"/g, '""') + '"';
+                const header = ["questionId","question_text","question_type","attempts","answered","p_value","discrimination","omitted_rate","options","flags"].join(",");
+                const lines = analysisQ.data.items.map((r) => [
+                  r.question_id, esc(r.question_text), r.question_type, r.attempts, r.answered,
+                  r.p_value ?? "", r.discrimination ?? "", r.omitted_rate, esc(optionSummary(r)), esc(r.flags.join("|")),
+                ].join(","));
+                const footer = [
+                  "",
+                  `cronbach_alpha,${sum.cronbach_alpha ?? ""}`,
+                  `kr20,${sum.kr20 ?? ""}`,
+                  `reliability_items,${sum.reliability_items}`,
+                  `attempts,${sum.attempts}`,
+                ];
+                const csv = [header, ...lines, ...footer].join("\n");
                 const blob = new Blob([csv], { type: "text/csv;charset=utf-8;" });
                 const url = URL.createObjectURL(blob);
                 const a = document.createElement("a");
@@ -173,19 +99,23 @@ export default function AnalysisPage() {
               className="btn btn-sm"
               onClick={async () => {
                 const XLSX = await import("xlsx");
-                const rows = analysisQ.data.rows.map((r: any) => ({
-                  questionId: r.questionId,
+                const rows = analysisQ.data.items.map((r) => ({
+                  questionId: r.question_id,
                   question: r.question_text,
                   type: r.question_type,
-                  autoGradable: r.autoGradable,
-                  attempts: r.total,
+                  attempts: r.attempts,
                   answered: r.answered,
-                  correct: r.correct,
-                  correct_rate: r.total ? +(r.correct / r.total).toFixed(3) : 0,
+                  p_value: r.p_value,
+                  discrimination: r.discrimination,
+                  omitted_rate: r.omitted_rate,
+                  flags: r.flags.join(", "),
                 }));
-                const ws = XLSX.utils.json_to_sheet(rows);
+                const options = analysisQ.data.items.flatMap((r) =>
+                  (r.options ?? []).map((o) => ({ questionId: r.question_id, option: o.option, key: o.is_key, count: o.count, rate: o.rate }))
+                );
                 const wb = XLSX.utils.book_new();
-                XLSX.utils.book_append_sheet(wb, ws, "Analysis");
+                XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(rows), "Items");
+                XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(options), "Distractors");
                 XLSX.writeFile(wb, `analysis_${examId}.xlsx`);
               }}
             >Export XLSX</button>
@@ -215,9 +145,9 @@ export default function AnalysisPage() {
 
                 const sum = analysisQ.data.summary;
                 const summaryLines = [
-                  `Attempts: ${sum.attempts_considered}`,
-                  `Questions: ${sum.questions_considered}`,
-                  `Avg correct rate: ${sum.avg_correct_rate}%`,
+                  `Attempts: ${sum.attempts}  |  Auto-graded items: ${sum.items}`,
+                  `Mean score: ${fmt(sum.mean_score)}  |  SD: ${fmt(sum.sd_score)}`,
+                  `Cronbach's alpha: ${fmt(sum.cronbach_alpha)}  |  KR-20: ${fmt(sum.kr20)}  (over ${sum.reliability_items} items)`,
                 ];
                 for (const line of summaryLines) {
                   doc.text(line, margin, y);
@@ -226,12 +156,11 @@ export default function AnalysisPage() {
                 y += 6;
 
                 doc.setFontSize(12);
-                doc.text("Per-question summary:", margin, y);
+                doc.text("Item analysis:", margin, y);
                 y += 18;
 
                 const maxWidth = pageWidth - margin * 2;
-                const rows: any[] = analysisQ.data.rows;
-                for (const r of rows) {
+                for (const r of analysisQ.data.items) {
                   // Page break if needed
                   if (y > pageHeight - margin - 40) {
                     doc.addPage();
@@ -243,8 +172,11 @@ export default function AnalysisPage() {
                   doc.setFont(undefined, "normal");
                   y += (Array.isArray(qText) ? qText.length : 1) * 14 + 4;
 
-                  const rate = r.total ? Math.round((r.correct / r.total) * 100) : 0;
-                  const meta = `Type: ${r.question_type}  |  Auto-gradable: ${r.autoGradable ? "Yes" : "No"}  |  Attempts: ${r.total}  |  Answered: ${r.answered}  |  Correct: ${r.correct}  |  Correct %: ${rate}%`;
+                  const meta = [
+                    `Type: ${r.question_type}  |  Attempts: ${r.attempts}  |  Answered: ${r.answered}  |  p: ${fmt(r.p_value)}  |  Discrimination: ${fmt(r.discrimination)}  |  Omitted: ${pct(r.omitted_rate)}`,
+                    r.options ? `Options: ${optionSummary(r)}` : "",
+                    r.flags.length > 0 ? `Flags: ${r.flags.map((f) => FLAG_LABELS[f]).join("; ")}` : "",
+                  ].filter(Boolean).join("\n");
                   const metaLines = doc.splitTextToSize(meta, maxWidth);
                   doc.text(metaLines as string[], margin, y);
                   y += (Array.isArray(metaLines) ? metaLines.length : 1) * 14 + 10;
@@ -257,28 +189,29 @@ export default function AnalysisPage() {
         </div>
       </div>
 
-      {attemptsQ.isLoading && <div className="p-3">Loading attempts…</div>}
-      {attemptsQ.error && <div className="p-3 text-red-600">{String((attemptsQ.error as any)?.message)}</div>}
-
       {analysisQ.isLoading && <div className="p-3">Computing analysis…</div>}
       {analysisQ.error && <div className="p-3 text-red-600">{String((analysisQ.error as any)?.message)}</div>}
 
       {analysisQ.data && (
         <div className="space-y-6">
           <div className="text-sm text-gray-700">
-            Attempts: {analysisQ.data.summary.attempts_considered} · Questions: {analysisQ.data.summary.questions_considered} · Avg correct rate: {analysisQ.data.summary.avg_correct_rate}%
+            Attempts: {analysisQ.data.summary.attempts} · Auto-graded items: {analysisQ.data.summary.items} · Mean score: {fmt(analysisQ.data.summary.mean_score)} (SD {fmt(analysisQ.data.summary.sd_score)}) ·
+            Cronbach&apos;s α: {fmt(analysisQ.data.summary.cronbach_alpha)} · KR-20: {fmt(analysisQ.data.summary.kr20)}
+            {analysisQ.data.summary.reliability_items < analysisQ.data.summary.items && (
+              <span className="text-gray-500"> (reliability over the {analysisQ.data.summary.reliability_items} items every attempt received)</span>
+            )}
           </div>
           {/* Charts */}
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
             {/* Per-question correct rate */}
             <div className="card">
-              <div className="font-medium mb-2">Correct rate by question</div>
+              <div className="font-medium mb-2">Difficulty (p-value) by question</div>
               <Bar
                 data={{
-                  labels: analysisQ.data.rows.map((r: any) => String(r.question_text).slice(0, 40) + (String(r.question_text).length > 40 ? "…" : "")),
+                  labels: analysisQ.data.items.map((r) => String(r.question_text).slice(0, 40) + (String(r.question_text).length > 40 ? "…" : "")),
                   datasets: [{
                     label: "% Correct",
-                    data: analysisQ.data.rows.map((r: any) => (r.total ? Math.round((r.correct / r.total) * 100) : 0)),
+                    data: analysisQ.data.items.map((r) => Math.round((r.p_value ?? 0) * 100)),
                     backgroundColor: "rgba(59,130,246,0.6)",
                   }],
                 }}
@@ -293,7 +226,7 @@ export default function AnalysisPage() {
             <div className="card">
               <div className="font-medium mb-2">Score distribution (auto-gradable)</div>
               {(() => {
-                const scores = analysisQ.data.attempt_scores as number[];
+                const scores = analysisQ.data.attempt_scores;
                 const bins = new Array(11).fill(0); // 0-10, 10-20, ..., 100
                 for (const s of scores) {
                   const idx = Math.min(10, Math.floor(s / 10));
@@ -318,31 +251,45 @@ export default function AnalysisPage() {
                 <tr className="text-left">
                   <th className="p-2 border">Question</th>
                   <th className="p-2 border">Type</th>
-                  <th className="p-2 border">Auto-gradable</th>
                   <th className="p-2 border">Attempts</th>
                   <th className="p-2 border">Answered</th>
-                  <th className="p-2 border">Correct</th>
-                  <th className="p-2 border">Correct %</th>
+                  <th className="p-2 border" title="Mean share of points earned">p-value</th>
+                  <th className="p-2 border" title="Item-rest point-biserial correlation">Discrimination</th>
+                  <th className="p-2 border">Options (selection rate)</th>
+                  <th className="p-2 border">Flags</th>
                 </tr>
               </thead>
               <tbody>
-                {analysisQ.data.rows.map((r: any) => {
-                  const rate = r.total ? Math.round((r.correct / r.total) * 100) : 0;
-                  return (
-                    <tr key={r.questionId} className="border-t align-top">
-                      <td className="p-2 border text-sm max-w-xl">
-                        <div className="font-medium line-clamp-2">{r.question_text}</div>
-                        <div className="text-xs text-gray-500">{r.questionId}</div>
-                      </td>
-                      <td className="p-2 border text-sm">{r.question_type}</td>
-                      <td className="p-2 border text-sm">{r.autoGradable ? "Yes" : "No"}</td>
-                      <td className="p-2 border text-sm">{r.total}</td>
-                      <td className="p-2 border text-sm">{r.answered}</td>
-                      <td className="p-2 border text-sm">{r.correct}</td>
-                      <td className="p-2 border text-sm">{rate}%</td>
-                    </tr>
-                  );
-                })}
+                {analysisQ.data.items.map((r) => (
+                  <tr key={r.question_id} className={`border-t align-top ${r.flags.length > 0 ? "bg-amber-50" : ""}`}>
+                    <td className="p-2 border text-sm max-w-xl">
+                      <div className="font-medium line-clamp-2">{r.question_text}</div>
+                      <div className="text-xs text-gray-500">{r.question_id}</div>
+                    </td>
+                    <td className="p-2 border text-sm">{r.question_type}</td>
+                    <td className="p-2 border text-sm">{r.attempts}</td>
+                    <td className="p-2 border text-sm">{r.answered}</td>
+                    <td className="p-2 border text-sm">{fmt(r.p_value)}</td>
+                    <td className="p-2 border text-sm">{fmt(r.discrimination)}</td>
+                    <td className="p-2 border text-sm">
+                      {r.options ? (
+                        <ul className="space-y-0.5">
+                          {r.options.map((o) => (
+                            <li key={o.option} className={o.is_key ? "font-semibold text-green-700" : ""}>
+                              {o.option}{o.is_key ? " ✓" : ""}: {pct(o.rate)}
+                            </li>
+                          ))}
+                          <li className="text-gray-500">Omitted: {pct(r.omitted_rate)}</li>
+                        </ul>
+                      ) : (
+                        <span className="text-gray-500">Omitted: {pct(r.omitted_rate)}</span>
+                      )}
+                    </td>
+                    <td className="p-2 border text-xs text-amber-800">
+                      {r.flags.map((f) => <div key={f}>{FLAG_LABELS[f]}</div>)}
+                    </td>
+                  </tr>
+                ))}
               </tbody>
             </table>
           </div>
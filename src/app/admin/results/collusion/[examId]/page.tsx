@@ -0,0 +1,192 @@
+"use client";
+
+import { Fragment, useMemo, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { authFetch } from "@/lib/authFetch";
+import { useToast } from "@/components/ToastProvider";
+import type { CollusionPair } from "@/lib/collusion";
+
+interface StoredReport {
+  id: number;
+  status: "running" | "completed" | "failed";
+  attempt_count: number;
+  pair_count: number;
+  pairs: CollusionPair[];
+  error: string | null;
+  created_at: string;
+  completed_at: string | null;
+}
+
+function gap(seconds: number | null) {
+  if (seconds === null) return "—";
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.round(seconds / 60)}m`;
+  return `${Math.round(seconds / 360) / 10}h`;
+}
+
+export default function CollusionPage() {
+  const { examId } = useParams<{ examId: string }>();
+  const queryClient = useQueryClient();
+  const toast = useToast();
+  const [running, setRunning] = useState(false);
+  const [openPair, setOpenPair] = useState<string | null>(null);
+
+  const examsQ = useQuery({
+    queryKey: ["admin", "exams", "all"],
+    queryFn: async () => {
+      const res = await authFetch(`/api/admin/exams`);
+      const j = await res.json();
+      if (!res.ok) throw new Error(j?.error || "Load exams failed");
+      return (j.items as { id: string; title: string }[])?.sort((a, b) => a.title.localeCompare(b.title));
+    },
+  });
+
+  const reportQ = useQuery({
+    enabled: !!examId,
+    queryKey: ["admin", "collusion", examId],
+    queryFn: async () => {
+      const res = await authFetch(`/api/admin/exams/${examId}/collusion`);
+      const j = await res.json();
+      if (!res.ok) throw new Error(j?.error || "Load report failed");
+      return j.report as StoredReport | null;
+    },
+  });
+
+  const selectedExam = useMemo(() => examsQ.data?.find((e) => e.id === (examId as string)) ?? null, [examsQ.data, examId]);
+
+  const runReport = async () => {
+    setRunning(true);
+    try {
+      const res = await authFetch(`/api/admin/exams/${examId}/collusion`, { method: "POST" });
+      const j = await res.json();
+      if (!res.ok) throw new Error(j?.error || "Report failed");
+      toast.success({ title: "Report Complete", message: `${j.flagged_pairs} of ${j.compared_pairs} pairs flagged across ${j.attempts} attempts` });
+      queryClient.invalidateQueries({ queryKey: ["admin", "collusion", examId] });
+    } catch (err) {
+      toast.error({ title: "Report Failed", message: err instanceof Error ? err.message : "Unknown error" });
+      queryClient.invalidateQueries({ queryKey: ["admin", "collusion", examId] });
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const report = reportQ.data;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-3">
+        <h1 className="text-xl font-semibold">Answer Similarity</h1>
+        {selectedExam && <span className="text-sm text-gray-600">{selectedExam.title}</span>}
+        <div className="ml-auto flex items-center gap-2">
+          <Link href={`/admin/results`} className="btn btn-sm">Back</Link>
+          <button className="btn btn-sm" onClick={runReport} disabled={running}>
+            {running ? "Comparing…" : report ? "Run Again" : "Run Report"}
+          </button>
+        </div>
+      </div>
+
+      <p className="text-sm text-gray-600">
+        Compares every pair of submitted attempts: identical wrong choices on choice questions (weighted by how rare the wrong
+        choice is), and near-duplicate short answer and paragraph text. Pairs that also share an IP address or device, or
+        submitted within two minutes of each other, rank higher. A flagged pair is a reason to review, not proof of collusion.
+      </p>
+
+      {reportQ.isLoading && <div className="p-3">Loading report…</div>}
+      {reportQ.error && <div className="p-3 text-red-600">{(reportQ.error as Error).message}</div>}
+      {reportQ.data === null && !running && <div className="p-3 text-gray-600">No report has been run for this exam yet.</div>}
+
+      {report && (
+        <div className="space-y-4">
+          <div className="text-sm text-gray-700">
+            Run {new Date(report.created_at).toLocaleString()} · Status: {report.status} · Attempts: {report.attempt_count} · Flagged pairs: {report.pair_count}
+            {report.error && <span className="text-red-600"> · {report.error}</span>}
+          </div>
+
+          {report.status === "completed" && report.pairs.length === 0 && (
+            <div className="p-3 text-gray-600">No pair of attempts stood out.</div>
+          )}
+
+          {report.pairs.length > 0 && (
+            <div className="card overflow-x-auto">
+              <table className="table">
+                <thead>
+                  <tr className="text-left">
+                    <th className="p-2 border">Score</th>
+                    <th className="p-2 border">Students</th>
+                    <th className="p-2 border" title="Identical wrong choices (exam pair average)">Same Wrong Choices</th>
+                    <th className="p-2 border">Similar Texts</th>
+                    <th className="p-2 border">Same IP</th>
+                    <th className="p-2 border">Same Device</th>
+                    <th className="p-2 border">Submit Gap</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.pairs.map((p) => {
+                    const key = `${p.attempt_a}:${p.attempt_b}`;
+                    const open = openPair === key;
+                    return (
+                      <Fragment key={key}>
+                        <tr
+                          className={`border-t align-top cursor-pointer hover:bg-gray-50 ${p.score >= 50 ? "bg-red-50" : ""}`}
+                          onClick={() => setOpenPair(open ? null : key)}
+                        >
+                          <td className="p-2 border text-sm font-semibold">{p.score}</td>
+                          <td className="p-2 border text-sm">
+                            <Link href={`/admin/results/${p.attempt_a}`} className="text-blue-600 hover:underline" onClick={(e) => e.stopPropagation()}>
+                              {p.student_a || p.attempt_a.slice(0, 8)}
+                            </Link>
+                            {" & "}
+                            <Link href={`/admin/results/${p.attempt_b}`} className="text-blue-600 hover:underline" onClick={(e) => e.stopPropagation()}>
+                              {p.student_b || p.attempt_b.slice(0, 8)}
+                            </Link>
+                          </td>
+                          <td className="p-2 border text-sm">{p.shared_wrong} <span className="text-gray-500">({p.expected_shared_wrong})</span></td>
+                          <td className="p-2 border text-sm">{p.similar_texts}</td>
+                          <td className="p-2 border text-sm">{p.same_ip ? "Yes" : "—"}</td>
+                          <td className="p-2 border text-sm">{p.same_device ? "Yes" : "—"}</td>
+                          <td className="p-2 border text-sm">{gap(p.submit_gap_seconds)}</td>
+                        </tr>
+                        {open && (
+                          <tr>
+                            <td className="p-2 border bg-gray-50" colSpan={7}>
+                              <table className="w-full text-sm">
+                                <thead>
+                                  <tr className="text-left text-gray-600">
+                                    <th className="p-1">Question</th>
+                                    <th className="p-1">{p.student_a || "Attempt A"}</th>
+                                    <th className="p-1">{p.student_b || "Attempt B"}</th>
+                                    <th className="p-1">Evidence</th>
+                                  </tr>
+                                </thead>
+                                <tbody>
+                                  {p.evidence.map((ev) => (
+                                    <tr key={ev.question_id} className="border-t align-top">
+                                      <td className="p-1 max-w-xs"><div className="line-clamp-2">{ev.question_text}</div></td>
+                                      <td className="p-1 whitespace-pre-wrap">{ev.answer_a}</td>
+                                      <td className="p-1 whitespace-pre-wrap">{ev.answer_b}</td>
+                                      <td className="p-1 text-xs text-gray-700">
+                                        {ev.kind === "same_wrong_choice"
+                                          ? `Same wrong choice, made by ${Math.round((ev.chosen_by ?? 0) * 100)}% of attempts`
+                                          : `Text ${Math.round((ev.similarity ?? 0) * 100)}% similar`}
+                                      </td>
+                                    </tr>
+                                  ))}
+                                </tbody>
+                              </table>
+                            </td>
+                          </tr>
+                        )}
+                      </Fragment>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -10,6 +10,9 @@ import ModernTable from "@/components/admin/ModernTable";
 import SearchInput from "@/components/admin/SearchInput";
 import ActionButton from "@/components/admin/ActionButton";
 import StatusBadge from "@/components/admin/StatusBadge";
+import { useAdmin } from "@/hooks/useAdmin";
+import { PERMISSIONS } from "@/lib/auth/edge-permissions";
+import { RISK_BADGE_CLASSES, RISK_LEVEL_LABELS, type RiskLevel } from "@/lib/integrityRisk";
 
 interface Exam {
   id: string;
@@ -20,6 +23,7 @@ interface Exam {
 
 interface Attempt {
   id: string;
+  student_id?: string | null;
   student_name: string | null;
   completion_status: string | null;
   started_at: string | null;
@@ -27,6 +31,15 @@ interface Attempt {
   score_percentage: number | null;
   final_score_percentage?: number | null;
   ip_address: string | null;
+  integrity_score?: number;
+  integrity_level?: RiskLevel;
+  integrity_factors?: string[];
+  attempt_number?: number;
+  attempt_count?: number;
+  official_score?: number | null;
+  is_official?: boolean;
+  official_is_pass?: boolean | null;
+  official_grade?: string | null;
 }
 
 export default function AdminResultsIndex() {
@@ -38,11 +51,14 @@ export default function AdminResultsIndex() {
   const [exportingCsv, setExportingCsv] = useState(false);
   const [exportingXlsx, setExportingXlsx] = useState(false);
   const [regradingAll, setRegradingAll] = useState(false);
-  const [scoreSort, setScoreSort] = useState<"none" | "asc" | "desc">("none");
+  const [applyLatestKeys, setApplyLatestKeys] = useState(false);
+  const [sortBy, setSortBy] = useState<"none" | "asc" | "desc" | "risk_desc" | "risk_asc">("none");
   const [deleteConfirm, setDeleteConfirm] = useState<string | null>(null);
   const [deleting, setDeleting] = useState<string | null>(null);
+  const [granting, setGranting] = useState<string | null>(null);
   
   const toast = useToast();
+  const { can } = useAdmin();
 
   const examsQuery = useQuery({
     queryKey: ["admin", "exams", "all"],
@@ -104,28 +120,19 @@ export default function AdminResultsIndex() {
 
   const sortedAttempts = useMemo(() => {
     const rows = filteredAttempts.slice();
-    if (scoreSort === "none") return rows;
-    if (scoreSort === "asc") {
-      rows.sort((a, b) => {
-        const av = a.score_percentage;
-        const bv = b.score_percentage;
-        if (av === null && bv === null) return 0;
-        if (av === null) return 1; // nulls last
-        if (bv === null) return -1;
-        return (av as number) - (bv as number);
-      });
-    } else if (scoreSort === "desc") {
-      rows.sort((a, b) => {
-        const av = a.score_percentage;
-        const bv = b.score_percentage;
-        if (av === null && bv === null) return 0;
-        if (av === null) return 1; // nulls last
-        if (bv === null) return -1;
-        return (bv as number) - (av as number);
-      });
-    }
+    if (sortBy === "none") return rows;
+    const risk = sortBy === "risk_asc" || sortBy === "risk_desc";
+    const descending = sortBy === "desc" || sortBy === "risk_desc";
+    rows.sort((a, b) => {
+      const av = risk ? a.integrity_score ?? null : a.score_percentage;
+      const bv = risk ? b.integrity_score ?? null : b.score_percentage;
+      if (av === null && bv === null) return 0;
+      if (av === null) return 1; // nulls last
+      if (bv === null) return -1;
+      return descending ? (bv as number) - (av as number) : (av as number) - (bv as number);
+    });
     return rows;
-  }, [filteredAttempts, scoreSort]);
+  }, [filteredAttempts, sortBy]);
 
   const handleExportCsv = async () => {
     setExportingCsv(true);
@@ -156,7 +163,10 @@ export default function AdminResultsIndex() {
     if (!examId) return;
     setRegradingAll(true);
     try {
-      const res = await authFetch(`/api/admin/exams/${examId}/regrade`, { method: 'POST' });
+      const res = await authFetch(`/api/admin/exams/${examId}/regrade`, {
+        method: 'POST',
+        body: JSON.stringify({ apply_latest: applyLatestKeys }),
+      });
       const j = await res.json().catch(() => ({}));
       if (!res.ok) throw new Error(j?.error || 'Regrade failed');
       toast.success({ title: 'Regrade started', message: `Regraded ${j?.result?.regraded_count ?? ''} attempts` });
@@ -179,6 +189,10 @@ export default function AdminResultsIndex() {
         started_at: attempt.started_at ?? "",
         submitted_at: attempt.submitted_at ?? "",
         score_percentage: attempt.score_percentage ?? "",
+        attempt_number: attempt.attempt_number ?? "",
+        official_score: attempt.official_score ?? "",
+        pass: attempt.official_is_pass === true ? "pass" : attempt.official_is_pass === false ? "fail" : "",
+        grade: attempt.official_grade ?? "",
         ip_address: attempt.ip_address ?? "",
       }));
       const ws = XLSX.utils.json_to_sheet(rows);
@@ -220,6 +234,32 @@ export default function AdminResultsIndex() {
     }
   };
 
+  const grantAttempt = async (attempt: Attempt) => {
+    if (!attempt.student_id) return;
+    try {
+      setGranting(attempt.id);
+      const response = await authFetch(`/api/admin/students/${attempt.student_id}/grant-attempt`, {
+        method: 'POST',
+        body: JSON.stringify({ examId }),
+      });
+      const j = await response.json();
+      if (!response.ok) throw new Error(j?.error || 'Failed to grant attempt');
+      toast.success({
+        title: "Attempt Granted",
+        message: j.attempts_remaining === null
+          ? `${attempt.student_name || "The student"} has unlimited attempts`
+          : `${attempt.student_name || "The student"} can now start ${j.attempts_remaining} more attempt(s)`,
+      });
+    } catch (error) {
+      toast.error({
+        title: "Grant Failed",
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    } finally {
+      setGranting(null);
+    }
+  };
+
   const clearFilters = () => {
     setStudentFilter("");
     setStatusFilter("");
@@ -234,8 +274,10 @@ export default function AdminResultsIndex() {
     { key: "started", label: "Started", width: "150px" },
     { key: "submitted", label: "Submitted", width: "150px" },
     { key: "score", label: "Score", width: "100px", align: "center" as const },
+    { key: "official", label: "Official Score", width: "120px", align: "center" as const },
+    { key: "risk", label: "Integrity Risk", width: "130px", align: "center" as const },
     { key: "ip", label: "IP Address", width: "130px" },
-    { key: "actions", label: "Actions", width: "100px" },
+    { key: "actions", label: "Actions", width: "180px" },
   ];
 
   const renderCell = (attempt: Attempt, column: any) => {
@@ -247,7 +289,16 @@ export default function AdminResultsIndex() {
           </code>
         );
       case "student":
-        return attempt.student_name || <span className="text-gray-400">Anonymous</span>;
+        return (
+          <div>
+            {attempt.student_name || <span className="text-gray-400">Anonymous</span>}
+            {(attempt.attempt_count ?? 1) > 1 && (
+              <div className="text-xs text-gray-500">
+                Attempt {attempt.attempt_number} of {attempt.attempt_count}
+              </div>
+            )}
+          </div>
+        );
       case "status":
         const status = attempt.completion_status || "in_progress";
         // Map completion status to StatusBadge status
@@ -290,6 +341,28 @@ export default function AdminResultsIndex() {
             {scoreVal}%
           </span>
         ) : "-";
+      case "official":
+        return attempt.official_score !== null && attempt.official_score !== undefined ? (
+          <span
+            className={`inline-flex items-center gap-1 ${attempt.is_official ? "font-semibold text-gray-900" : "text-gray-500"}`}
+            title={attempt.is_official ? "This attempt counts toward the official score" : "Another attempt sets the official score"}
+          >
+            {attempt.official_score}%
+            {attempt.is_official && <span className="text-amber-500">★</span>}
+            {attempt.official_grade && <span className="text-indigo-700">· {attempt.official_grade}</span>}
+            {attempt.official_is_pass === true && <span className="text-green-600 text-xs">PASS</span>}
+            {attempt.official_is_pass === false && <span className="text-red-600 text-xs">FAIL</span>}
+          </span>
+        ) : "-";
+      case "risk":
+        return attempt.integrity_score !== undefined && attempt.integrity_level ? (
+          <span
+            className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${RISK_BADGE_CLASSES[attempt.integrity_level]}`}
+            title={attempt.integrity_factors?.length ? attempt.integrity_factors.join(", ") : "No risk factors"}
+          >
+            {attempt.integrity_score} · {RISK_LEVEL_LABELS[attempt.integrity_level]}
+          </span>
+        ) : "-";
       case "ip":
         return (
           <code className="bg-gray-100 px-2 py-1 rounded text-xs">
@@ -302,13 +375,25 @@ export default function AdminResultsIndex() {
             <Link href={`/admin/results/${attempt.id}`}>
               <ActionButton variant="secondary" size="sm">View</ActionButton>
             </Link>
-            <ActionButton 
-              variant="danger" 
-              size="sm"
-              onClick={() => setDeleteConfirm(attempt.id)}
-            >
-              Delete
-            </ActionButton>
+            {can(PERMISSIONS.ATTEMPTS_MANAGE) && attempt.student_id && attempt.attempt_number === attempt.attempt_count && (
+              <ActionButton
+                variant="secondary"
+                size="sm"
+                loading={granting === attempt.id}
+                onClick={() => grantAttempt(attempt)}
+              >
+                Grant Attempt
+              </ActionButton>
+            )}
+            {can(PERMISSIONS.ATTEMPTS_DELETE) && (
+              <ActionButton 
+                variant="danger" 
+                size="sm"
+                onClick={() => setDeleteConfirm(attempt.id)}
+              >
+                Delete
+              </ActionButton>
+            )}
           </div>
         );
       default:
@@ -376,18 +461,33 @@ export default function AdminResultsIndex() {
 
         {examId && (
           <div className="flex items-center gap-3 mt-4 pt-4 border-t">
-            <ActionButton
-              variant="secondary"
-              onClick={handleRegradeAll}
-              loading={regradingAll}
-              icon={
-                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v6h6M20 20v-6h-6M5 19A9 9 0 0119 5" />
-                </svg>
-              }
-            >
-              Regrade All Attempts
-            </ActionButton>
+            {can(PERMISSIONS.RESULTS_GRADE) && (
+              <>
+                <ActionButton
+                  variant="secondary"
+                  onClick={handleRegradeAll}
+                  loading={regradingAll}
+                  icon={
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v6h6M20 20v-6h-6M5 19A9 9 0 0119 5" />
+                    </svg>
+                  }
+                >
+                  Regrade All Attempts
+                </ActionButton>
+                <label
+                  className="inline-flex items-center gap-2 text-sm text-gray-700"
+                  title="Off: grade each attempt with the question revisions the student saw. On: apply the current questions and answer keys to every attempt."
+                >
+                  <input
+                    type="checkbox"
+                    checked={applyLatestKeys}
+                    onChange={(e) => setApplyLatestKeys(e.target.checked)}
+                  />
+                  Use latest answer keys
+                </label>
+              </>
+            )}
             <Link href={`/admin/results/analysis/${examId}`}>
               <ActionButton
                 variant="secondary"
@@ -400,30 +500,39 @@ export default function AdminResultsIndex() {
                 View Analysis
               </ActionButton>
             </Link>
-            <ActionButton
-              variant="secondary"
-              onClick={handleExportCsv}
-              loading={exportingCsv}
-              icon={
-                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
-                </svg>
-              }
-            >
-              Export CSV
-            </ActionButton>
-            <ActionButton
-              variant="secondary"
-              onClick={handleExportXlsx}
-              loading={exportingXlsx}
-              icon={
-                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
-                </svg>
-              }
-            >
-              Export Excel
-            </ActionButton>
+            {can(PERMISSIONS.ANALYTICS_VIEW) && (
+              <Link href={`/admin/results/collusion/${examId}`}>
+                <ActionButton variant="secondary">Answer Similarity</ActionButton>
+              </Link>
+            )}
+            {can(PERMISSIONS.RESULTS_EXPORT) && (
+              <>
+                <ActionButton
+                  variant="secondary"
+                  onClick={handleExportCsv}
+                  loading={exportingCsv}
+                  icon={
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+                    </svg>
+                  }
+                >
+                  Export CSV
+                </ActionButton>
+                <ActionButton
+                  variant="secondary"
+                  onClick={handleExportXlsx}
+                  loading={exportingXlsx}
+                  icon={
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+                    </svg>
+                  }
+                >
+                  Export Excel
+                </ActionButton>
+              </>
+            )}
           </div>
         )}
       </ModernCard>
@@ -488,16 +597,18 @@ export default function AdminResultsIndex() {
 
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
-                Sort by Score
+                Sort By
               </label>
               <select
                 className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                value={scoreSort}
-                onChange={(e) => setScoreSort(e.target.value as any)}
+                value={sortBy}
+                onChange={(e) => setSortBy(e.target.value as any)}
               >
                 <option value="none">None</option>
-                <option value="desc">Highest first</option>
-                <option value="asc">Lowest first</option>
+                <option value="desc">Score: highest first</option>
+                <option value="asc">Score: lowest first</option>
+                <option value="risk_desc">Integrity risk: highest first</option>
+                <option value="risk_asc">Integrity risk: lowest first</option>
               </select>
             </div>
             
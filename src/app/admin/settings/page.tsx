@@ -6,6 +6,9 @@ import AdminGuard from "@/components/AdminGuard";
 import { supabaseClient } from "@/lib/supabase/client";
 import LogoUpload from "@/components/admin/LogoUpload";
 import { authFetch } from "@/lib/authFetch";
+import { useAdmin } from "@/hooks/useAdmin";
+import { ADMIN_ROLES, PERMISSIONS } from "@/lib/auth/edge-permissions";
+import { DEFAULT_RESULT_SUBJECT, DEFAULT_RESULT_TEMPLATE, RESULT_PLACEHOLDERS } from "@/lib/resultNotifications";
 
 type AppSettings = {
   id?: string;
@@ -13,6 +16,8 @@ type AppSettings = {
   brand_logo_url?: string | null;
   default_language?: string | null;
   whatsapp_default_template?: string | null;
+  result_notification_template?: string | null;
+  result_notification_subject?: string | null;
   welcome_instructions?: string | null;
   welcome_instructions_ar?: string | null;
   thank_you_title?: string | null;
@@ -28,11 +33,11 @@ type AppSettings = {
 };
 
 type Admin = {
-  id: string;
-  email: string;
+  user_id: string;
+  email: string | null;
   created_at: string;
-  username?: string;
-  raw_user_meta_data?: any;
+  username?: string | null;
+  role: string;
 };
 
 export default function AdminSettingsPage() {
@@ -47,6 +52,8 @@ export default function AdminSettingsPage() {
   const [loadingAdmins, setLoadingAdmins] = useState(false);
   const [newAdminEmail, setNewAdminEmail] = useState("");
   const [addingAdmin, setAddingAdmin] = useState(false);
+  const [newAdminRole, setNewAdminRole] = useState<string>(ADMIN_ROLES[0].name);
+  const { can } = useAdmin();
 
   // Load settings and admins on mount
   useEffect(() => {
@@ -140,7 +147,7 @@ export default function AdminSettingsPage() {
       const res = await authFetch("/api/admin/admins", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ email: newAdminEmail.trim() })
+        body: JSON.stringify({ email: newAdminEmail.trim(), role: newAdminRole })
       });
       
       if (res.ok) {
@@ -178,6 +185,25 @@ export default function AdminSettingsPage() {
     }
   };
 
+  const changeAdminRole = async (adminId: string, role: string) => {
+    try {
+      const res = await authFetch(`/api/admin/admins/${adminId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ role })
+      });
+
+      if (res.ok) {
+        loadAdmins();
+      } else {
+        const error = await res.json();
+        alert(error.error || "Failed to change role");
+      }
+    } catch (err) {
+      alert("Failed to change role");
+    }
+  };
+
   const updateSetting = (key: keyof AppSettings, value: any) => {
     setSettings(prev => ({ ...prev, [key]: value }));
   };
@@ -228,25 +254,27 @@ export default function AdminSettingsPage() {
                 <p className="text-slate-600 text-lg">Configure your exam application settings and preferences</p>
               </div>
               <div className="flex items-center gap-4">
-                <button
-                  onClick={saveSettings}
-                  disabled={saving}
-                  className="bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 disabled:from-gray-400 disabled:to-gray-500 text-white font-semibold py-3 px-6 rounded-xl transition-all duration-200 transform hover:scale-105 disabled:scale-100 disabled:cursor-not-allowed shadow-lg hover:shadow-xl"
-                >
-                  {saving ? (
-                    <span className="flex items-center gap-2">
-                      <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
-                      Saving...
-                    </span>
-                  ) : (
-                    <span className="flex items-center gap-2">
-                      <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
-                      </svg>
-                      Save Changes
-                    </span>
-                  )}
-                </button>
+                {can(PERMISSIONS.SETTINGS_MANAGE) && (
+                  <button
+                    onClick={saveSettings}
+                    disabled={saving}
+                    className="bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 disabled:from-gray-400 disabled:to-gray-500 text-white font-semibold py-3 px-6 rounded-xl transition-all duration-200 transform hover:scale-105 disabled:scale-100 disabled:cursor-not-allowed shadow-lg hover:shadow-xl"
+                  >
+                    {saving ? (
+                      <span className="flex items-center gap-2">
+                        <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+                        Saving...
+                      </span>
+                    ) : (
+                      <span className="flex items-center gap-2">
+                        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+                        </svg>
+                        Save Changes
+                      </span>
+                    )}
+                  </button>
+                )}
               </div>
             </div>
           </div>
@@ -507,6 +535,32 @@ export default function AdminSettingsPage() {
                   />
                 </div>
 
+                <div>
+                  <label className="block text-sm font-semibold text-slate-700 mb-3">Result Notification Template</label>
+                  <textarea
+                    value={settings.result_notification_template || ""}
+                    onChange={(e) => updateSetting("result_notification_template", e.target.value)}
+                    placeholder={DEFAULT_RESULT_TEMPLATE}
+                    rows={3}
+                    className="w-full px-4 py-3 border border-slate-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 resize-none"
+                  />
+                  <p className="text-xs text-slate-500 mt-2">
+                    Sent when an exam&apos;s results are released. Placeholders: {RESULT_PLACEHOLDERS.map((p) => `{${p}}`).join(", ")}
+                  </p>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-semibold text-slate-700 mb-3">Result Email Subject</label>
+                  <input
+                    type="text"
+                    value={settings.result_notification_subject || ""}
+                    onChange={(e) => updateSetting("result_notification_subject", e.target.value)}
+                    placeholder={DEFAULT_RESULT_SUBJECT}
+                    className="w-full px-4 py-3 border border-slate-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                  <p className="text-xs text-slate-500 mt-2">Used for email; {"{exam_title}"} is filled in.</p>
+                </div>
+
                 <div>
                   <label className="block text-sm font-semibold text-slate-700 mb-3">Welcome Instructions (English)</label>
                   <textarea
@@ -586,123 +640,143 @@ export default function AdminSettingsPage() {
             </div>
 
             {/* Administrator Management */}
-            <div className="bg-white rounded-2xl shadow-xl border border-slate-200 p-8">
-              <div className="mb-10">
-                <h2 className="text-2xl font-semibold text-gray-900 mb-3 flex items-center gap-3">
-                  <svg className="w-6 h-6 text-blue-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.8} d="M12 4.354a4 4 0 110 5.292M15 21H3v-1a6 6 0 0112 0v1zm0 0h6v-1a6 6 0 00-9-5.197M13 7a4 4 0 11-8 0 4 4 0 018 0z" />
-                  </svg>
-                  Administrator Management
-                </h2>
-                <p className="text-gray-500 text-md ml-9">Manage users who have administrative access to the system</p>
-              </div>
+            {can(PERMISSIONS.USERS_VIEW) && (
+              <div className="bg-white rounded-2xl shadow-xl border border-slate-200 p-8">
+                <div className="mb-10">
+                  <h2 className="text-2xl font-semibold text-gray-900 mb-3 flex items-center gap-3">
+                    <svg className="w-6 h-6 text-blue-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.8} d="M12 4.354a4 4 0 110 5.292M15 21H3v-1a6 6 0 0112 0v1zm0 0h6v-1a6 6 0 00-9-5.197M13 7a4 4 0 11-8 0 4 4 0 018 0z" />
+                    </svg>
+                    Administrator Management
+                  </h2>
+                  <p className="text-gray-500 text-md ml-9">Manage users who have administrative access to the system</p>
+                </div>
 
-              {/* Account Management Interface */}
-              <div className="bg-white rounded-xl p-8 mb-10 shadow-sm border border-gray-100">
-                <h3 className="text-lg font-medium text-gray-800 mb-6 flex items-center gap-3">
-                  <svg className="w-5 h-5 text-blue-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.8} d="M18 9v3m0 0v3m0-3h3m-3 0h-3m-2-5a4 4 0 11-8 0 4 4 0 018 0zM3 20a6 6 0 0112 0v1H3v-1z" />
-                  </svg>
-                  Create New Admin Account
-                </h3>
-                <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
-                  <div>
-                    <input
-                      type="text"
-                      className="w-full px-4 py-3 border border-gray-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
-                      placeholder="Username (optional)"
-                      value={newAdminEmail}
-                      onChange={(e) => setNewAdminEmail(e.target.value)}
-                    />
-                  </div>
-                  <div>
-                    <input
-                      type="email"
-                      className="w-full px-4 py-3 border border-gray-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
-                      placeholder="Email address"
-                      value={newAdminEmail}
-                      onChange={(e) => setNewAdminEmail(e.target.value)}
-                    />
+                {/* Account Management Interface */}
+                <div className="bg-white rounded-xl p-8 mb-10 shadow-sm border border-gray-100">
+                  <h3 className="text-lg font-medium text-gray-800 mb-6 flex items-center gap-3">
+                    <svg className="w-5 h-5 text-blue-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.8} d="M18 9v3m0 0v3m0-3h3m-3 0h-3m-2-5a4 4 0 11-8 0 4 4 0 018 0zM3 20a6 6 0 0112 0v1H3v-1z" />
+                    </svg>
+                    Create New Admin Account
+                  </h3>
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
+                    <div>
+                      <input
+                        type="text"
+                        className="w-full px-4 py-3 border border-gray-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                        placeholder="Username (optional)"
+                        value={newAdminEmail}
+                        onChange={(e) => setNewAdminEmail(e.target.value)}
+                      />
+                    </div>
+                    <div>
+                      <input
+                        type="email"
+                        className="w-full px-4 py-3 border border-gray-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                        placeholder="Email address"
+                        value={newAdminEmail}
+                        onChange={(e) => setNewAdminEmail(e.target.value)}
+                      />
+                    </div>
+                    <div>
+                      <select
+                        className="w-full px-4 py-3 border border-gray-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                        value={newAdminRole}
+                        onChange={(e) => setNewAdminRole(e.target.value)}
+                        aria-label="Role"
+                      >
+                        {ADMIN_ROLES.map((r) => (
+                          <option key={r.name} value={r.name}>{r.displayName}</option>
+                        ))}
+                      </select>
+                    </div>
                   </div>
-                  <div>
-                    <input
-                      type="password"
-                      className="w-full px-4 py-3 border border-gray-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
-                      placeholder="Password (min 8 characters)"
-                      disabled
-                    />
+                  <div className="flex justify-end">
+                    <button
+                      onClick={addAdmin}
+                      disabled={addingAdmin || !newAdminEmail.trim()}
+                      className="px-8 py-3 rounded-xl text-md font-medium transition-all duration-300 transform hover:scale-105 hover:shadow-md bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white disabled:cursor-not-allowed"
+                    >
+                      {addingAdmin ? "Creating..." : "Create Admin Account"}
+                    </button>
                   </div>
                 </div>
-                <div className="flex justify-end">
-                  <button
-                    onClick={addAdmin}
-                    disabled={addingAdmin || !newAdminEmail.trim()}
-                    className="px-8 py-3 rounded-xl text-md font-medium transition-all duration-300 transform hover:scale-105 hover:shadow-md bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white disabled:cursor-not-allowed"
-                  >
-                    {addingAdmin ? "Creating..." : "Create Admin Account"}
-                  </button>
-                </div>
-              </div>
 
-              {/* Admins Table */}
-              <div className="bg-white rounded-xl border border-gray-100 shadow-sm overflow-hidden">
-                {loadingAdmins ? (
-                  <div className="text-center py-8">
-                    <div className="w-6 h-6 mx-auto border-2 border-blue-200 border-t-blue-600 rounded-full animate-spin"></div>
-                  </div>
-                ) : (
-                  <div className="overflow-x-auto">
-                    <table className="w-full">
-                      <thead className="bg-gray-50 border-b border-gray-200">
-                        <tr>
-                          <th className="px-6 py-4 text-left text-sm font-semibold text-gray-900">Username</th>
-                          <th className="px-6 py-4 text-left text-sm font-semibold text-gray-900">Email</th>
-                          <th className="px-6 py-4 text-left text-sm font-semibold text-gray-900">Added</th>
-                          <th className="px-6 py-4 text-right text-sm font-semibold text-gray-900">Actions</th>
-                        </tr>
-                      </thead>
-                      <tbody className="divide-y divide-gray-200">
-                        {admins.map((admin) => (
-                          <tr key={admin.id} className="hover:bg-gray-50">
-                            <td className="px-6 py-4">
-                              <div className="font-medium text-gray-900">
-                                {admin.username || admin.raw_user_meta_data?.username || 'N/A'}
-                              </div>
-                            </td>
-                            <td className="px-6 py-4">
-                              <div className="font-medium text-gray-900">{admin.email}</div>
-                            </td>
-                            <td className="px-6 py-4">
-                              <div className="text-sm text-gray-500">
-                                {new Date(admin.created_at).toLocaleDateString()}
-                              </div>
-                            </td>
-                            <td className="px-6 py-4 text-right">
-                              <button
-                                onClick={() => removeAdmin(admin.id)}
-                                className="text-red-600 hover:text-red-800 p-2 rounded transition-colors"
-                                title="Remove administrator"
-                              >
-                                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                                </svg>
-                              </button>
-                            </td>
-                          </tr>
-                        ))}
-                        {admins.length === 0 && (
+                {/* Admins Table */}
+                <div className="bg-white rounded-xl border border-gray-100 shadow-sm overflow-hidden">
+                  {loadingAdmins ? (
+                    <div className="text-center py-8">
+                      <div className="w-6 h-6 mx-auto border-2 border-blue-200 border-t-blue-600 rounded-full animate-spin"></div>
+                    </div>
+                  ) : (
+                    <div className="overflow-x-auto">
+                      <table className="w-full">
+                        <thead className="bg-gray-50 border-b border-gray-200">
                           <tr>
-                            <td colSpan={4} className="px-6 py-8 text-center text-gray-500">
-                              No administrators found
-                            </td>
+                            <th className="px-6 py-4 text-left text-sm font-semibold text-gray-900">Username</th>
+                            <th className="px-6 py-4 text-left text-sm font-semibold text-gray-900">Email</th>
+                            <th className="px-6 py-4 text-left text-sm font-semibold text-gray-900">Role</th>
+                            <th className="px-6 py-4 text-left text-sm font-semibold text-gray-900">Added</th>
+                            <th className="px-6 py-4 text-right text-sm font-semibold text-gray-900">Actions</th>
                           </tr>
-                        )}
-                      </tbody>
-                    </table>
-                  </div>
-                )}
+                        </thead>
+                        <tbody className="divide-y divide-gray-200">
+                          {admins.map((admin) => (
+                            <tr key={admin.user_id} className="hover:bg-gray-50">
+                              <td className="px-6 py-4">
+                                <div className="font-medium text-gray-900">
+                                  {admin.username || 'N/A'}
+                                </div>
+                              </td>
+                              <td className="px-6 py-4">
+                                <div className="font-medium text-gray-900">{admin.email}</div>
+                              </td>
+                              <td className="px-6 py-4">
+                                <select
+                                  className="px-3 py-2 border border-gray-200 rounded-lg text-sm"
+                                  value={admin.role}
+                                  disabled={!can(PERMISSIONS.USERS_MANAGE)}
+                                  onChange={(e) => changeAdminRole(admin.user_id, e.target.value)}
+                                  aria-label="Role"
+                                >
+                                  {ADMIN_ROLES.map((r) => (
+                                    <option key={r.name} value={r.name}>{r.displayName}</option>
+                                  ))}
+                                </select>
+                              </td>
+                              <td className="px-6 py-4">
+                                <div className="text-sm text-gray-500">
+                                  {new Date(admin.created_at).toLocaleDateString()}
+                                </div>
+                              </td>
+                              <td className="px-6 py-4 text-right">
+                                <button
+                                  onClick={() => removeAdmin(admin.user_id)}
+                                  className="text-red-600 hover:text-red-800 p-2 rounded transition-colors"
+                                  title="Remove administrator"
+                                >
+                                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                                  </svg>
+                                </button>
+                              </td>
+                            </tr>
+                          ))}
+                          {admins.length === 0 && (
+                            <tr>
+                              <td colSpan={5} className="px-6 py-8 text-center text-gray-500">
+                                No administrators found
+                              </td>
+                            </tr>
+                          )}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </div>
               </div>
-            </div>
+            )}
           </div>
         </div>
       </div>
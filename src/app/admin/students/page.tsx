@@ -4,16 +4,36 @@ import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useMemo, useState, useEffect } from "react";
 import { authFetch } from "@/lib/authFetch";
 import { useToast } from "@/components/ToastProvider";
+import { useAdmin } from "@/hooks/useAdmin";
+import { PERMISSIONS } from "@/lib/auth/edge-permissions";
+import StudentImportPreview from "@/components/admin/StudentImportPreview";
+import type {
+  MessageChannel,
+  MessageDelivery,
+  MessageJob,
+  StudentGroup,
+  StudentImportBatch,
+  StudentImportMatch,
+  StudentImportPlan,
+  StudentImportRow,
+} from "@/lib/types";
 
 interface Student {
   student_id: string;
   code: string;
   student_name: string | null;
   mobile_number: string | null;
+  email?: string | null;
+  guardian_name?: string | null;
+  guardian_mobile?: string | null;
+  guardian_email?: string | null;
   student_created_at: string;
+  time_multiplier?: number | string | null;
+  extra_time_minutes?: number | string | null;
   total_exams_attempted?: number;
   completed_exams?: number;
   in_progress_exams?: number;
+  group_ids?: string[] | null;
 }
 
 export default function GlobalStudentsPage() {
@@ -35,6 +55,7 @@ export default function GlobalStudentsPage() {
   
   const qc = useQueryClient();
   const toast = useToast();
+  const { can } = useAdmin();
   const [actionError, setActionError] = useState<string | null>(null);
   const [settings, setSettings] = useState<any>(null);
   const [isAddingStudent, setIsAddingStudent] = useState(false);
@@ -76,31 +97,6 @@ export default function GlobalStudentsPage() {
     },
   });
 
-  // Reset attempts for a student (removes links in student_exam_attempts)
-  const resetAttempts = useMutation({
-    mutationFn: async ({ id, examId }: { id: string; examId?: string }) => {
-      if (!id || id === 'undefined') {
-        throw new Error("Invalid student ID");
-      }
-      setActionError(null);
-      const res = await authFetch(`/api/admin/students/${id}/reset-attempts`, {
-        method: "POST",
-        body: examId ? JSON.stringify({ examId }) : undefined,
-      });
-      const j = await res.json();
-      if (!res.ok) throw new Error(j?.error || "Reset failed");
-      return j as { deleted_count: number };
-    },
-    onSuccess: (result) => {
-      setActionError(null);
-      qc.invalidateQueries({ queryKey: ["admin", "students", "global"] });
-      toast.success(`Reset ${result.deleted_count || 0} attempt link(s)`);
-    },
-    onError: (error: any) => {
-      setActionError(error?.message || "Failed to reset attempts");
-    },
-  });
-
   const students = data ?? [];
 
   // Fetch app settings to get WhatsApp template
@@ -125,21 +121,205 @@ export default function GlobalStudentsPage() {
 
 
 
+  const { data: groupsData } = useQuery({
+    queryKey: ["admin", "groups"],
+    queryFn: async () => {
+      const res = await authFetch("/api/admin/groups");
+      const j = await res.json();
+      if (!res.ok) throw new Error(j?.error || "Load failed");
+      return (j.items as StudentGroup[]) ?? [];
+    },
+  });
+  const groups = useMemo(() => groupsData ?? [], [groupsData]);
+  const groupName = useMemo(() => new Map(groups.map((g) => [g.id, g.name])), [groups]);
+
   // Filters
   const [q, setQ] = useState("");
+  // "" = all students, "none" = students in no group, otherwise a group id
+  const [groupFilter, setGroupFilter] = useState("");
   const filtered = useMemo(() => {
     const term = q.trim().toLowerCase();
-    if (!term) return students;
-    return students.filter((s) =>
-      [s.student_name, s.mobile_number, s.code]
+    return students.filter((s) => {
+      const ids = s.group_ids ?? [];
+      if (groupFilter === "none" && ids.length > 0) return false;
+      if (groupFilter && groupFilter !== "none" && !ids.includes(groupFilter)) return false;
+      if (!term) return true;
+      return [s.student_name, s.mobile_number, s.code]
         .map((v) => (v || "").toLowerCase())
-        .some((v) => v.includes(term))
-    );
-  }, [students, q]);
+        .some((v) => v.includes(term));
+    });
+  }, [students, q, groupFilter]);
+
+  // Selection for bulk group assignment
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [bulkGroupId, setBulkGroupId] = useState("");
+  const allFilteredSelected = filtered.length > 0 && filtered.every((s) => selected.has(s.student_id));
+  function toggleSelected(id: string) {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  }
+
+  const [newGroupName, setNewGroupName] = useState("");
+  const createGroup = useMutation({
+    mutationFn: async () => {
+      setActionError(null);
+      const res = await authFetch("/api/admin/groups", {
+        method: "POST",
+        body: JSON.stringify({ name: newGroupName }),
+      });
+      const j = await res.json();
+      if (!res.ok) throw new Error(j?.error === "group_name_taken" ? "A group with this name already exists" : j?.error || "Create failed");
+      return j.item as StudentGroup;
+    },
+    onSuccess: (group) => {
+      setNewGroupName("");
+      qc.invalidateQueries({ queryKey: ["admin", "groups"] });
+      toast.success(`Group "${group.name}" created`);
+    },
+    onError: (error: any) => {
+      setActionError(error?.message || "Failed to create group");
+    },
+  });
+
+  const deleteGroup = useMutation({
+    mutationFn: async (id: string) => {
+      setActionError(null);
+      const res = await authFetch(`/api/admin/groups/${id}`, { method: "DELETE" });
+      const j = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(j?.error || "Delete failed");
+      return id;
+    },
+    onSuccess: (id) => {
+      if (groupFilter === id) setGroupFilter("");
+      if (bulkGroupId === id) setBulkGroupId("");
+      qc.invalidateQueries({ queryKey: ["admin", "groups"] });
+      qc.invalidateQueries({ queryKey: ["admin", "students", "global"] });
+    },
+    onError: (error: any) => {
+      setActionError(error?.message || "Failed to delete group");
+    },
+  });
+
+  const bulkMembership = useMutation({
+    mutationFn: async (action: "add" | "remove") => {
+      setActionError(null);
+      const res = await authFetch(`/api/admin/groups/${bulkGroupId}/members`, {
+        method: "POST",
+        body: JSON.stringify({ student_ids: Array.from(selected), action }),
+      });
+      const j = await res.json();
+      if (!res.ok) throw new Error(j?.error || "Update failed");
+      return { action, count: j.count as number };
+    },
+    onSuccess: ({ action, count }) => {
+      setSelected(new Set());
+      qc.invalidateQueries({ queryKey: ["admin", "groups"] });
+      qc.invalidateQueries({ queryKey: ["admin", "students", "global"] });
+      const name = groupName.get(bulkGroupId) ?? "group";
+      toast.success(action === "add" ? `Added ${count} students to ${name}` : `Removed ${count} students from ${name}`);
+    },
+    onError: (error: any) => {
+      setActionError(error?.message || "Failed to update group members");
+    },
+  });
+
+  // Messages to the selected students through the configured providers
+  const [msgChannel, setMsgChannel] = useState<MessageChannel>("whatsapp");
+  const [msgTemplate, setMsgTemplate] = useState<string | null>(null);
+  const [msgSubject, setMsgSubject] = useState("");
+  const [openJobId, setOpenJobId] = useState<string | null>(null);
+  const messageTemplate = msgTemplate ?? (settings?.whatsapp_default_template || "Hello {name}! Your exam code is: {code}");
+
+  const { data: messagesData } = useQuery({
+    queryKey: ["admin", "messages"],
+    queryFn: async () => {
+      const res = await authFetch("/api/admin/messages");
+      const j = await res.json();
+      if (!res.ok) throw new Error(j?.error || "Load failed");
+      return {
+        jobs: (j.items as MessageJob[]) ?? [],
+        channels: (j.channels as { channel: MessageChannel; provider: string | null }[]) ?? [],
+      };
+    },
+    enabled: can(PERMISSIONS.STUDENTS_MANAGE),
+    // Keep counts moving while anything is still queued
+    refetchInterval: (query) => (query.state.data?.jobs.some((job) => job.pending > 0) ? 5000 : false),
+  });
+  const messageJobs = messagesData?.jobs ?? [];
+  const channelProvider = new Map((messagesData?.channels ?? []).map((c) => [c.channel, c.provider]));
+
+  const { data: openDeliveries } = useQuery({
+    queryKey: ["admin", "messages", openJobId],
+    queryFn: async () => {
+      const res = await authFetch(`/api/admin/messages/${openJobId}`);
+      const j = await res.json();
+      if (!res.ok) throw new Error(j?.error || "Load failed");
+      return (j.items as MessageDelivery[]) ?? [];
+    },
+    enabled: !!openJobId,
+    refetchInterval: (query) => (query.state.data?.some((d) => d.status === "pending" || d.status === "sending") ? 5000 : false),
+  });
+
+  const sendMessages = useMutation({
+    mutationFn: async () => {
+      setActionError(null);
+      const res = await authFetch("/api/admin/messages", {
+        method: "POST",
+        body: JSON.stringify({
+          student_ids: Array.from(selected),
+          channel: msgChannel,
+          template: messageTemplate,
+          subject: msgChannel === "email" ? msgSubject : null,
+        }),
+      });
+      const j = await res.json();
+      if (!res.ok) {
+        const reasons: Record<string, string> = {
+          channel_not_configured: "This channel has no provider configured",
+          no_reachable_students: `None of the selected students has ${msgChannel === "email" ? "a valid email" : "a valid mobile number"}`,
+          subject_required: "Enter a subject for the email",
+          template_required: "Enter a message",
+        };
+        throw new Error(reasons[j?.error] || j?.error || "Send failed");
+      }
+      return j as { job_id: string; queued: number; skipped: unknown[] };
+    },
+    onSuccess: (r) => {
+      setSelected(new Set());
+      setOpenJobId(r.job_id);
+      qc.invalidateQueries({ queryKey: ["admin", "messages"] });
+      toast.success(`Queued ${r.queued} messages` + (r.skipped.length > 0 ? `; ${r.skipped.length} students skipped` : ""));
+    },
+    onError: (error: any) => {
+      setActionError(error?.message || "Failed to send messages");
+    },
+  });
+
+  const retryJob = useMutation({
+    mutationFn: async (jobId: string) => {
+      setActionError(null);
+      const res = await authFetch(`/api/admin/messages/${jobId}/retry`, { method: "POST" });
+      const j = await res.json();
+      if (!res.ok) throw new Error(j?.error || "Retry failed");
+      return j as { count: number };
+    },
+    onSuccess: (r) => {
+      qc.invalidateQueries({ queryKey: ["admin", "messages"] });
+      toast.success(`Retrying ${r.count} messages`);
+    },
+    onError: (error: any) => {
+      setActionError(error?.message || "Failed to retry messages");
+    },
+  });
 
   // Add single student
   const [newName, setNewName] = useState("");
   const [newMobile, setNewMobile] = useState("");
+  const [newEmail, setNewEmail] = useState("");
   const [newCode, setNewCode] = useState("");
   const addStudent = useMutation({
     mutationFn: async () => {
@@ -147,6 +327,7 @@ export default function GlobalStudentsPage() {
       const payload = { 
         student_name: newName || null, 
         mobile_number: newMobile || null, 
+        email: newEmail || null,
         code: newCode || undefined 
       };
       const res = await authFetch("/api/admin/students", { 
@@ -160,6 +341,7 @@ export default function GlobalStudentsPage() {
     onSuccess: () => {
       setNewName("");
       setNewMobile("");
+      setNewEmail("");
       setNewCode("");
       setActionError(null);
       qc.invalidateQueries({ queryKey: ["admin", "students", "global"] });
@@ -238,69 +420,150 @@ export default function GlobalStudentsPage() {
     },
   });
 
-  // Import
+  // Import: the file is parsed here, then planned (dry run) and applied on the server
   const [importErrors, setImportErrors] = useState<string[]>([]);
-  const [preview, setPreview] = useState<any[]>([]);
+  const [importRows, setImportRows] = useState<StudentImportRow[]>([]);
+  const [importFileName, setImportFileName] = useState<string | null>(null);
+  const [matchOn, setMatchOn] = useState<StudentImportMatch>("code");
+  const [countryCode, setCountryCode] = useState("");
+  const [plan, setPlan] = useState<StudentImportPlan | null>(null);
+  const [planning, setPlanning] = useState(false);
+  const [committing, setCommitting] = useState(false);
 
   async function handleFile(file: File) {
     setImportErrors([]);
-    setPreview([]);
+    setImportRows([]);
+    setPlan(null);
+    setImportFileName(file.name);
     const name = file.name.toLowerCase();
     try {
+      let rows: unknown[][];
       if (name.endsWith(".csv")) {
-        const txt = await file.text();
-        const rows = await parseCsv(txt);
-        const mapped = mapRows(rows);
-        setPreview(mapped);
+        rows = await parseCsv(await file.text());
       } else if (name.endsWith(".xlsx") || name.endsWith(".xls")) {
-        const buf = await file.arrayBuffer();
-        const rows = await parseXlsx(buf);
-        const mapped = mapRows(rows);
-        setPreview(mapped);
+        rows = await parseXlsx(await file.arrayBuffer());
       } else {
         setImportErrors(["Unsupported file type. Use CSV or XLSX."]);
+        return;
       }
+      const mapped = mapRows(rows);
+      setImportRows(mapped);
+      await planImport(mapped, matchOn, countryCode);
     } catch (e: any) {
       setImportErrors([e?.message || "Import failed"]);
     }
   }
 
-  function mapRows(rows: any[][]) {
-    // header: student_name,mobile_number,code (optional)
+  function mapRows(rows: any[][]): StudentImportRow[] {
+    // header: student_name, mobile_number, code (mobile_number or code required)
     const [header, ...dataRows] = rows;
     if (!header) throw new Error("Empty file");
     const idx = (name: string) => header.findIndex((h: string) => String(h).trim().toLowerCase() === name);
     const ni = idx("student_name");
     const mi = idx("mobile_number");
     const ci = idx("code");
-    if (mi < 0) throw new Error("Missing header: mobile_number");
-    const out = [] as any[];
-    for (const r of dataRows) {
-      const student_name = ni >= 0 ? String(r[ni] ?? "").trim() || null : null;
-      const mobile_number = String(r[mi] ?? "").trim();
-      if (!mobile_number) continue;
-      const code = ci >= 0 ? String(r[ci] ?? "").trim() || undefined : undefined;
-      out.push({ student_name, mobile_number, code });
+    if (mi < 0 && ci < 0) throw new Error("Missing header: mobile_number or code");
+    const cellAt = (r: unknown[], i: number) => (i >= 0 ? String(r[i] ?? "").trim() || null : null);
+    return dataRows
+      .map((r) => ({ student_name: cellAt(r, ni), mobile_number: cellAt(r, mi), code: cellAt(r, ci) }))
+      .filter((r) => r.student_name || r.mobile_number || r.code);
+  }
+
+  async function planImport(rows: StudentImportRow[], match: StudentImportMatch, country: string) {
+    if (!rows.length) return;
+    setPlanning(true);
+    setImportErrors([]);
+    try {
+      const res = await authFetch("/api/admin/students/import", {
+        method: "POST",
+        body: JSON.stringify({ rows, match_on: match, default_country_code: country, dry_run: true }),
+      });
+      const j = await res.json();
+      if (!res.ok) {
+        setPlan(null);
+        setImportErrors([j?.error === "invalid_country_code" ? "Default country code must look like +20" : j?.error || "Import check failed"]);
+        return;
+      }
+      setPlan(j.plan as StudentImportPlan);
+    } finally {
+      setPlanning(false);
     }
-    return out;
+  }
+
+  function cancelImport() {
+    setImportRows([]);
+    setImportFileName(null);
+    setPlan(null);
+    setImportErrors([]);
   }
 
   async function commitImport() {
-    if (!preview.length) return;
-    const res = await authFetch("/api/admin/students/bulk", { 
-      method: "POST", 
-      body: JSON.stringify({ students: preview }) 
-    });
-    const j = await res.json();
-    if (!res.ok) {
-      setImportErrors([j?.error || "Bulk import failed"]);
-      return;
+    if (!plan || !importRows.length) return;
+    setCommitting(true);
+    try {
+      const res = await authFetch("/api/admin/students/import", {
+        method: "POST",
+        body: JSON.stringify({
+          rows: importRows,
+          match_on: matchOn,
+          default_country_code: countryCode,
+          dry_run: false,
+          file_name: importFileName,
+        }),
+      });
+      const j = await res.json();
+      if (!res.ok) {
+        setImportErrors([
+          j?.error === "import_conflict"
+            ? "Students changed while you were reviewing. Check the import again."
+            : j?.error === "nothing_to_import"
+              ? "Nothing to import"
+              : j?.error || "Import failed",
+        ]);
+        if (j?.error === "import_conflict") await planImport(importRows, matchOn, countryCode);
+        return;
+      }
+      const done = j.plan as StudentImportPlan;
+      cancelImport();
+      qc.invalidateQueries({ queryKey: ["admin", "students", "global"] });
+      qc.invalidateQueries({ queryKey: ["admin", "students", "imports"] });
+      toast.success(`Imported ${done.creates.length} new and updated ${done.updates.length} students`);
+    } finally {
+      setCommitting(false);
     }
-    setPreview([]);
-    qc.invalidateQueries({ queryKey: ["admin", "students", "global"] });
-    alert(`Imported ${j.created_count} students`);
   }
 
+  const { data: importBatches } = useQuery({
+    queryKey: ["admin", "students", "imports"],
+    queryFn: async () => {
+      const res = await authFetch("/api/admin/students/import");
+      const j = await res.json();
+      if (!res.ok) throw new Error(j?.error || "Load failed");
+      return (j.items as StudentImportBatch[]) ?? [];
+    },
+  });
+
+  const rollbackImport = useMutation({
+    mutationFn: async (batchId: string) => {
+      setActionError(null);
+      const res = await authFetch(`/api/admin/students/import/${batchId}/rollback`, { method: "POST" });
+      const j = await res.json();
+      if (!res.ok) throw new Error(j?.error || "Rollback failed");
+      return j as { restored: number; deleted: number; kept: number };
+    },
+    onSuccess: (r) => {
+      qc.invalidateQueries({ queryKey: ["admin", "students", "global"] });
+      qc.invalidateQueries({ queryKey: ["admin", "students", "imports"] });
+      toast.success(
+        `Restored ${r.restored} and removed ${r.deleted} students` +
+          (r.kept > 0 ? `; ${r.kept} kept because they have attempts` : "")
+      );
+    },
+    onError: (error: any) => {
+      setActionError(error?.message || "Failed to roll back import");
+    },
+  });
+
   async function parseCsv(text: string): Promise<any[][]> {
     try {
       const Papa = (await import("papaparse")).default;
@@ -381,7 +644,7 @@ export default function GlobalStudentsPage() {
       )}
 
       <div className="card space-y-3">
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
           <div>
             <label className="label">Search</label>
             <input 
@@ -392,30 +655,39 @@ export default function GlobalStudentsPage() {
             />
           </div>
           <div>
-            <label className="label">Import CSV/XLSX (student_name, mobile_number, code)</label>
-            <input 
-              type="file" 
-              accept=".csv,.xlsx,.xls" 
-              onChange={(e) => e.target.files && handleFile(e.target.files[0])} 
-            />
+            <label className="label">Group</label>
+            <select className="input" value={groupFilter} onChange={(e) => setGroupFilter(e.target.value)}>
+              <option value="">All students</option>
+              <option value="none">In no group</option>
+              {groups.map((g) => (
+                <option key={g.id} value={g.id}>{g.name} ({g.member_count})</option>
+              ))}
+            </select>
           </div>
+          {can(PERMISSIONS.STUDENTS_CREATE) && (
+            <div>
+              <label className="label">Import CSV/XLSX (student_name, mobile_number, code)</label>
+              <input 
+                type="file" 
+                accept=".csv,.xlsx,.xls" 
+                onChange={(e) => e.target.files && handleFile(e.target.files[0])} 
+              />
+            </div>
+          )}
           <div className="flex items-end gap-2">
-            {preview.length > 0 && (
-              <button className="btn" onClick={commitImport}>
-                Import {preview.length}
+            {can(PERMISSIONS.STUDENTS_DELETE) && (
+              <button 
+                className="btn btn-destructive" 
+                onClick={() => {
+                  if (confirm("Clear ALL students? This will preserve historical exam data but remove all current students.")) {
+                    clearAll.mutate();
+                  }
+                }}
+                disabled={clearAll.isPending}
+              >
+                {clearAll.isPending ? "Clearing..." : "Clear All"}
               </button>
             )}
-            <button 
-              className="btn btn-destructive" 
-              onClick={() => {
-                if (confirm("Clear ALL students? This will preserve historical exam data but remove all current students.")) {
-                  clearAll.mutate();
-                }
-              }}
-              disabled={clearAll.isPending}
-            >
-              {clearAll.isPending ? "Clearing..." : "Clear All"}
-            </button>
           </div>
         </div>
         {importErrors.length > 0 && (
@@ -425,65 +697,394 @@ export default function GlobalStudentsPage() {
         )}
       </div>
 
-      <div className="card space-y-3">
-        <h2 className="font-semibold">Add Student</h2>
-        <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
-          <div>
-            <label className="label">Name</label>
-            <input 
-              className="input" 
-              value={newName} 
-              onChange={(e) => setNewName(e.target.value)} 
-            />
-          </div>
-          <div>
-            <label className="label">Mobile</label>
-            <input 
-              className="input" 
-              value={newMobile} 
-              onChange={(e) => setNewMobile(e.target.value)} 
-            />
+      {importRows.length > 0 && can(PERMISSIONS.STUDENTS_CREATE) && (
+        <div className="card space-y-3">
+          <div className="flex items-center justify-between">
+            <h2 className="font-semibold">Review Import{importFileName ? `: ${importFileName}` : ""}</h2>
+            {planning && <span className="text-sm text-gray-500">Checking...</span>}
           </div>
-          <div>
-            <label className="label">Code (optional)</label>
-            <input 
-              className="input" 
-              value={newCode} 
-              onChange={(e) => {
-                // Allow only numeric input for 4-digit codes
-                const value = e.target.value.replace(/\D/g, '').slice(0, 4);
-                setNewCode(value);
-              }}
-              placeholder="1234"
-              maxLength={4}
-              inputMode="numeric"
-            />
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <div>
+              <label className="label">Match existing students on</label>
+              <select
+                className="input"
+                value={matchOn}
+                onChange={(e) => {
+                  const v = e.target.value as StudentImportMatch;
+                  setMatchOn(v);
+                  void planImport(importRows, v, countryCode);
+                }}
+                disabled={planning || committing}
+              >
+                <option value="code">Code</option>
+                <option value="mobile_number">Mobile number</option>
+              </select>
+            </div>
+            <div>
+              <label className="label">Default country code</label>
+              <input
+                className="input"
+                placeholder="e.g. +20"
+                value={countryCode}
+                onChange={(e) => setCountryCode(e.target.value)}
+                onBlur={() => void planImport(importRows, matchOn, countryCode)}
+                disabled={planning || committing}
+              />
+            </div>
+            <p className="text-sm text-gray-600 self-end">
+              Mobile numbers are saved in international format. Numbers without a + take the default country code.
+            </p>
           </div>
-          <div className="flex items-end">
-            <button 
-              className="btn btn-primary" 
-              onClick={() => {
-                if (!newMobile.trim()) {
-                  setActionError("Mobile number is required");
-                  return;
-                }
-                addStudent.mutate();
-              }} 
-              disabled={addStudent.isPending}
+          {plan && <StudentImportPreview plan={plan} rows={importRows} />}
+          <div className="flex justify-end gap-2">
+            <button className="btn" onClick={cancelImport} disabled={committing}>
+              Cancel
+            </button>
+            <button
+              className="btn btn-primary"
+              onClick={commitImport}
+              disabled={!plan || planning || committing || plan.creates.length + plan.updates.length === 0}
             >
-              {addStudent.isPending ? "Adding..." : "Add"}
+              {committing ? "Importing..." : `Import ${plan ? plan.creates.length + plan.updates.length : 0} changes`}
             </button>
           </div>
         </div>
+      )}
+
+      {(importBatches ?? []).length > 0 && (
+        <div className="card space-y-2">
+          <h2 className="font-semibold">Recent Imports</h2>
+          <ul className="divide-y divide-gray-100 text-sm">
+            {(importBatches ?? []).map((b) => (
+              <li key={b.id} className="flex items-center justify-between gap-3 py-2">
+                <div>
+                  <span className="font-medium">{b.file_name || "Import"}</span>
+                  <span className="text-gray-500">
+                    {" "}· {new Date(b.created_at).toLocaleString()} · {b.created_count} new, {b.updated_count} updated
+                    {" "}· matched on {b.match_on === "code" ? "code" : "mobile number"}
+                  </span>
+                </div>
+                {b.rolled_back_at ? (
+                  <span className="text-gray-500">Rolled back {new Date(b.rolled_back_at).toLocaleString()}</span>
+                ) : (
+                  can(PERMISSIONS.STUDENTS_DELETE) && (
+                    <button
+                      className="btn btn-destructive"
+                      onClick={() => {
+                        if (confirm("Roll back this import? Updated students get their previous details back and new students without attempts are deleted.")) {
+                          rollbackImport.mutate(b.id);
+                        }
+                      }}
+                      disabled={rollbackImport.isPending}
+                    >
+                      Roll Back
+                    </button>
+                  )
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="card space-y-3">
+        <div className="flex items-center justify-between">
+          <h2 className="font-semibold">Groups</h2>
+          <span className="text-xs text-gray-500">Exams assigned to groups only admit their members; exams without groups are open to every code.</span>
+        </div>
+        {groups.length === 0 ? (
+          <p className="text-sm text-gray-500">No groups yet.</p>
+        ) : (
+          <div className="flex flex-wrap gap-2">
+            {groups.map((g) => (
+              <span key={g.id} className="inline-flex items-center gap-2 px-2.5 py-1 bg-indigo-50 text-indigo-700 rounded-lg text-sm">
+                <button type="button" className="hover:underline" onClick={() => setGroupFilter(g.id)} title="Show members">
+                  {g.name} <span className="text-indigo-400">({g.member_count})</span>
+                </button>
+                {can(PERMISSIONS.STUDENTS_DELETE) && (
+                  <button
+                    type="button"
+                    className="text-indigo-400 hover:text-red-600"
+                    title="Delete group"
+                    aria-label={`Delete group ${g.name}`}
+                    onClick={() => {
+                      if (confirm(`Delete group "${g.name}"? Students stay; exams assigned only to this group become open to every code.`)) {
+                        deleteGroup.mutate(g.id);
+                      }
+                    }}
+                    disabled={deleteGroup.isPending}
+                  >
+                    ×
+                  </button>
+                )}
+              </span>
+            ))}
+          </div>
+        )}
+        {can(PERMISSIONS.STUDENTS_CREATE) && (
+          <div className="flex items-end gap-2">
+            <div className="flex-1 max-w-xs">
+              <label className="label">New group</label>
+              <input
+                className="input"
+                placeholder="e.g. Grade 10 - A"
+                value={newGroupName}
+                onChange={(e) => setNewGroupName(e.target.value)}
+              />
+            </div>
+            <button
+              className="btn btn-primary"
+              onClick={() => createGroup.mutate()}
+              disabled={createGroup.isPending || !newGroupName.trim()}
+            >
+              {createGroup.isPending ? "Creating..." : "Create Group"}
+            </button>
+          </div>
+        )}
       </div>
 
+      {can(PERMISSIONS.STUDENTS_CREATE) && (
+        <div className="card space-y-3">
+          <h2 className="font-semibold">Add Student</h2>
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-3">
+            <div>
+              <label className="label">Name</label>
+              <input 
+                className="input" 
+                value={newName} 
+                onChange={(e) => setNewName(e.target.value)} 
+              />
+            </div>
+            <div>
+              <label className="label">Mobile</label>
+              <input 
+                className="input" 
+                value={newMobile} 
+                onChange={(e) => setNewMobile(e.target.value)} 
+              />
+            </div>
+            <div>
+              <label className="label">Email (optional)</label>
+              <input 
+                className="input" 
+                type="email"
+                value={newEmail} 
+                onChange={(e) => setNewEmail(e.target.value)} 
+              />
+            </div>
+            <div>
+              <label className="label">Code (optional)</label>
+              <input 
+                className="input" 
+                value={newCode} 
+                onChange={(e) => {
+                  // Allow only numeric input for 4-digit codes
+                  const value = e.target.value.replace(/\D/g, '').slice(0, 4);
+                  setNewCode(value);
+                }}
+                placeholder="1234"
+                maxLength={4}
+                inputMode="numeric"
+              />
+            </div>
+            <div className="flex items-end">
+              <button 
+                className="btn btn-primary" 
+                onClick={() => {
+                  if (!newMobile.trim()) {
+                    setActionError("Mobile number is required");
+                    return;
+                  }
+                  addStudent.mutate();
+                }} 
+                disabled={addStudent.isPending}
+              >
+                {addStudent.isPending ? "Adding..." : "Add"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {can(PERMISSIONS.STUDENTS_EDIT) && selected.size > 0 && (
+        <div className="card flex flex-wrap items-center gap-3">
+          <span className="text-sm font-medium">{selected.size} selected</span>
+          <select className="input max-w-xs" value={bulkGroupId} onChange={(e) => setBulkGroupId(e.target.value)}>
+            <option value="">Choose a group...</option>
+            {groups.map((g) => (
+              <option key={g.id} value={g.id}>{g.name}</option>
+            ))}
+          </select>
+          <button
+            className="btn btn-primary"
+            onClick={() => bulkMembership.mutate("add")}
+            disabled={!bulkGroupId || bulkMembership.isPending}
+          >
+            Add to Group
+          </button>
+          <button
+            className="btn"
+            onClick={() => bulkMembership.mutate("remove")}
+            disabled={!bulkGroupId || bulkMembership.isPending}
+          >
+            Remove from Group
+          </button>
+          <button className="btn" onClick={() => setSelected(new Set())}>
+            Clear Selection
+          </button>
+          {can(PERMISSIONS.STUDENTS_MANAGE) && (
+            <div className="w-full border-t border-gray-200 pt-3 grid grid-cols-1 md:grid-cols-4 gap-3">
+              <div>
+                <label className="label">Send via</label>
+                <select className="input" value={msgChannel} onChange={(e) => setMsgChannel(e.target.value as MessageChannel)}>
+                  {(["whatsapp", "sms", "email"] as MessageChannel[]).map((c) => (
+                    <option key={c} value={c} disabled={!channelProvider.get(c)}>
+                      {c === "whatsapp" ? "WhatsApp" : c === "sms" ? "SMS" : "Email"}
+                      {channelProvider.get(c) ? "" : " (not configured)"}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="md:col-span-2 space-y-2">
+                {msgChannel === "email" && (
+                  <input
+                    className="input"
+                    placeholder="Subject"
+                    value={msgSubject}
+                    onChange={(e) => setMsgSubject(e.target.value)}
+                  />
+                )}
+                <textarea
+                  className="input"
+                  rows={2}
+                  value={messageTemplate}
+                  onChange={(e) => setMsgTemplate(e.target.value)}
+                />
+                <p className="text-xs text-gray-500">Placeholders: {"{name}"}, {"{code}"}, {"{mobile}"}, {"{email}"}</p>
+              </div>
+              <div className="flex items-end">
+                <button
+                  className="btn btn-primary"
+                  onClick={() => sendMessages.mutate()}
+                  disabled={sendMessages.isPending || !channelProvider.get(msgChannel) || !messageTemplate.trim()}
+                >
+                  {sendMessages.isPending ? "Sending..." : `Send to ${selected.size}`}
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      {can(PERMISSIONS.STUDENTS_MANAGE) && messageJobs.length > 0 && (
+        <div className="card space-y-2">
+          <h2 className="font-semibold">Messages</h2>
+          <ul className="divide-y divide-gray-100 text-sm">
+            {messageJobs.map((job) => (
+              <li key={job.id} className="py-2 space-y-2">
+                <div className="flex flex-wrap items-center justify-between gap-3">
+                  <div>
+                    <span className="font-medium">
+                      {job.channel === "whatsapp" ? "WhatsApp" : job.channel === "sms" ? "SMS" : "Email"}
+                    </span>
+                    <span className="text-gray-500"> · {job.provider} · {new Date(job.created_at).toLocaleString()}</span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span className="px-2 py-0.5 rounded bg-green-100 text-green-800">{job.sent} sent</span>
+                    {job.pending > 0 && <span className="px-2 py-0.5 rounded bg-blue-100 text-blue-800">{job.pending} pending</span>}
+                    {job.failed > 0 && <span className="px-2 py-0.5 rounded bg-red-100 text-red-800">{job.failed} failed</span>}
+                    <span className="text-gray-500">of {job.total}</span>
+                    {job.failed > 0 && (
+                      <button className="btn" onClick={() => retryJob.mutate(job.id)} disabled={retryJob.isPending}>
+                        Retry Failed
+                      </button>
+                    )}
+                    <button className="btn" onClick={() => setOpenJobId(openJobId === job.id ? null : job.id)}>
+                      {openJobId === job.id ? "Hide" : "Recipients"}
+                    </button>
+                  </div>
+                </div>
+                {openJobId === job.id && (
+                  <div className="border border-gray-200 rounded-lg overflow-x-auto max-h-80">
+                    <table className="min-w-full text-sm">
+                      <thead className="bg-gray-50 text-left text-xs text-gray-500 uppercase">
+                        <tr>
+                          <th className="px-3 py-2">Student</th>
+                          <th className="px-3 py-2">Recipient</th>
+                          <th className="px-3 py-2">Status</th>
+                          <th className="px-3 py-2">Attempts</th>
+                          <th className="px-3 py-2">Detail</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-100">
+                        {(openDeliveries ?? []).map((d) => (
+                          <tr key={d.id}>
+                            <td className="px-3 py-2">
+                              <span className="font-mono">{d.student_code ?? "—"}</span> {d.student_name ?? ""}
+                            </td>
+                            <td className="px-3 py-2 font-mono">{d.recipient}</td>
+                            <td className="px-3 py-2">
+                              <span
+                                className={`px-2 py-0.5 rounded text-xs ${
+                                  d.status === "sent"
+                                    ? "bg-green-100 text-green-800"
+                                    : d.status === "failed"
+                                      ? "bg-red-100 text-red-800"
+                                      : "bg-blue-100 text-blue-800"
+                                }`}
+                              >
+                                {d.status}
+                              </span>
+                            </td>
+                            <td className="px-3 py-2">{d.attempts}</td>
+                            <td className="px-3 py-2 text-gray-500">
+                              {d.status === "sent" && d.sent_at
+                                ? new Date(d.sent_at).toLocaleString()
+                                : d.status === "pending" && d.last_error
+                                  ? `${d.last_error} · next try ${new Date(d.next_attempt_at).toLocaleTimeString()}`
+                                  : d.last_error ?? ""}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       <div className="overflow-x-auto bg-white rounded-lg shadow border border-gray-200">
         <table className="min-w-full divide-y divide-gray-200">
           <thead className="bg-gray-50">
             <tr>
+              {can(PERMISSIONS.STUDENTS_EDIT) && (
+                <th scope="col" className="px-4 py-3">
+                  <input
+                    type="checkbox"
+                    aria-label="Select all shown students"
+                    checked={allFilteredSelected}
+                    onChange={() => {
+                      setSelected((prev) => {
+                        const next = new Set(prev);
+                        for (const st of filtered) {
+                          if (allFilteredSelected) next.delete(st.student_id);
+                          else next.add(st.student_id);
+                        }
+                        return next;
+                      });
+                    }}
+                  />
+                </th>
+              )}
               <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Code</th>
               <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Name</th>
-              <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Mobile</th>
+              <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Mobile / Email</th>
+              <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider" title="Notified with the student when results are released">Guardian</th>
+              <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Groups</th>
+              <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider" title="Time multiplier and extra minutes applied to every exam">Extra Time</th>
               <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Attempts</th>
               <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Created</th>
               <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
@@ -492,7 +1093,7 @@ export default function GlobalStudentsPage() {
           <tbody className="bg-white divide-y divide-gray-200">
             {filtered.length === 0 ? (
               <tr>
-                <td colSpan={6} className="px-6 py-8 text-center text-gray-500">
+                <td colSpan={can(PERMISSIONS.STUDENTS_EDIT) ? 10 : 9} className="px-6 py-8 text-center text-gray-500">
                   <div className="flex flex-col items-center justify-center">
                     <svg className="w-12 h-12 text-gray-400 mb-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M12 4.354a4 4 0 110 5.292M15 21H3v-1a6 6 0 0112 0v1zm0 0h6v-1a6 6 0 00-9-5.197M13 7a4 4 0 11-8 0 4 4 0 018 0z" />
@@ -508,6 +1109,16 @@ export default function GlobalStudentsPage() {
                 const e = edits[studentId] || {};
                 return (
                   <tr key={studentId} className="hover:bg-gray-50 transition-colors duration-150">
+                    {can(PERMISSIONS.STUDENTS_EDIT) && (
+                      <td className="px-4 py-4">
+                        <input
+                          type="checkbox"
+                          aria-label={`Select student ${s.code}`}
+                          checked={selected.has(studentId)}
+                          onChange={() => toggleSelected(studentId)}
+                        />
+                      </td>
+                    )}
                     <td className="px-6 py-4 whitespace-nowrap">
                       <span className="px-2.5 py-1 bg-blue-50 text-blue-700 rounded-lg font-mono font-medium">{s.code}</span>
                     </td>
@@ -524,6 +1135,72 @@ export default function GlobalStudentsPage() {
                         value={e.mobile_number ?? s.mobile_number ?? ""}
                         onChange={(ev) => setEdit(studentId, { mobile_number: ev.target.value })} 
                       />
+                      <input 
+                        type="email"
+                        className="mt-1 w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 text-sm" 
+                        placeholder="Email"
+                        value={e.email ?? s.email ?? ""}
+                        onChange={(ev) => setEdit(studentId, { email: ev.target.value })} 
+                      />
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <input 
+                        className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 text-sm" 
+                        placeholder="Guardian name"
+                        value={e.guardian_name ?? s.guardian_name ?? ""}
+                        onChange={(ev) => setEdit(studentId, { guardian_name: ev.target.value })} 
+                      />
+                      <input 
+                        className="mt-1 w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 text-sm" 
+                        placeholder="Guardian mobile"
+                        value={e.guardian_mobile ?? s.guardian_mobile ?? ""}
+                        onChange={(ev) => setEdit(studentId, { guardian_mobile: ev.target.value })} 
+                      />
+                      <input 
+                        type="email"
+                        className="mt-1 w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 text-sm" 
+                        placeholder="Guardian email"
+                        value={e.guardian_email ?? s.guardian_email ?? ""}
+                        onChange={(ev) => setEdit(studentId, { guardian_email: ev.target.value })} 
+                      />
+                    </td>
+                    <td className="px-6 py-4">
+                      <div className="flex flex-wrap gap-1">
+                        {(s.group_ids ?? []).length === 0 ? (
+                          <span className="text-gray-400 text-sm">—</span>
+                        ) : (
+                          (s.group_ids ?? []).map((gid) => (
+                            <span key={gid} className="px-2 py-0.5 bg-indigo-50 text-indigo-700 rounded text-xs">{groupName.get(gid) ?? "…"}</span>
+                          ))
+                        )}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="flex items-center gap-1">
+                        <span className="text-gray-500 text-sm">×</span>
+                        <input
+                          type="number"
+                          min="1"
+                          max="5"
+                          step="0.25"
+                          className="w-20 p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                          placeholder="1"
+                          title="Duration multiplier, e.g. 1.5 for time and a half"
+                          value={e.time_multiplier ?? s.time_multiplier ?? ""}
+                          onChange={(ev) => setEdit(studentId, { time_multiplier: ev.target.value })}
+                        />
+                        <span className="text-gray-500 text-sm">+</span>
+                        <input
+                          type="number"
+                          min="0"
+                          className="w-20 p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                          placeholder="0"
+                          title="Extra minutes"
+                          value={e.extra_time_minutes ?? s.extra_time_minutes ?? ""}
+                          onChange={(ev) => setEdit(studentId, { extra_time_minutes: ev.target.value })}
+                        />
+                        <span className="text-gray-500 text-sm">min</span>
+                      </div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-center">
                       <div className="flex items-center justify-center gap-2">
@@ -542,52 +1219,39 @@ export default function GlobalStudentsPage() {
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div className="flex items-center gap-2">
-                        <button 
-                          className="inline-flex items-center px-2.5 py-1.5 border border-transparent text-xs font-medium rounded shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50" 
-                          onClick={() => {
-                            const payload = edits[studentId] || {};
-                            if (Object.keys(payload).length > 0) {
-                              saveRow.mutate({ id: studentId, payload });
-                            }
-                          }}
-                          disabled={saveRow.isPending || !edits[studentId] || Object.keys(edits[studentId]).length === 0}
-                        >
-                          <svg className="w-3.5 h-3.5 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
-                          </svg>
-                          {saveRow.isPending ? "Saving..." : "Save"}
-                        </button>
-                        <button 
-                          className="inline-flex items-center px-2.5 py-1.5 border border-transparent text-xs font-medium rounded shadow-sm text-white bg-amber-600 hover:bg-amber-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-amber-500 disabled:opacity-50" 
-                          onClick={() => {
-                            const total = s.total_exams_attempted || 0;
-                            if (total === 0) return;
-                            if (confirm(`Reset attempts for student ${s.code}? This removes per-exam attempt links so they can retake. Historical submissions remain.`)) {
-                              resetAttempts.mutate({ id: studentId });
-                            }
-                          }}
-                          disabled={resetAttempts.isPending || (s.total_exams_attempted || 0) === 0}
-                          title={(s.total_exams_attempted || 0) === 0 ? "No attempts to reset" : "Allow student to retake by clearing attempt links"}
-                        >
-                          <svg className="w-3.5 h-3.5 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9H4m0 0V4m0 5a8.003 8.003 0 0015.356 2H20" />
-                          </svg>
-                          {resetAttempts.isPending ? "Resetting..." : "Reset Attempts"}
-                        </button>
-                        <button 
-                          className="inline-flex items-center px-2.5 py-1.5 border border-transparent text-xs font-medium rounded shadow-sm text-white bg-red-600 hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 disabled:opacity-50" 
-                          onClick={() => { 
-                            if (confirm(`Delete student ${s.code}? Their exam history will be preserved.`)) {
-                              deleteRow.mutate(studentId); 
-                            }
-                          }}
-                          disabled={deleteRow.isPending}
-                        >
-                          <svg className="w-3.5 h-3.5 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                          </svg>
-                          {deleteRow.isPending ? "Deleting..." : "Delete"}
-                        </button>
+                        {can(PERMISSIONS.STUDENTS_EDIT) && (
+                          <button 
+                            className="inline-flex items-center px-2.5 py-1.5 border border-transparent text-xs font-medium rounded shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50" 
+                            onClick={() => {
+                              const payload = edits[studentId] || {};
+                              if (Object.keys(payload).length > 0) {
+                                saveRow.mutate({ id: studentId, payload });
+                              }
+                            }}
+                            disabled={saveRow.isPending || !edits[studentId] || Object.keys(edits[studentId]).length === 0}
+                          >
+                            <svg className="w-3.5 h-3.5 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+                            </svg>
+                            {saveRow.isPending ? "Saving..." : "Save"}
+                          </button>
+                        )}
+                        {can(PERMISSIONS.STUDENTS_DELETE) && (
+                          <button 
+                            className="inline-flex items-center px-2.5 py-1.5 border border-transparent text-xs font-medium rounded shadow-sm text-white bg-red-600 hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 disabled:opacity-50" 
+                            onClick={() => { 
+                              if (confirm(`Delete student ${s.code}? Their exam history will be preserved.`)) {
+                                deleteRow.mutate(studentId); 
+                              }
+                            }}
+                            disabled={deleteRow.isPending}
+                          >
+                            <svg className="w-3.5 h-3.5 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                            </svg>
+                            {deleteRow.isPending ? "Deleting..." : "Delete"}
+                          </button>
+                        )}
                         <button
                           className="inline-flex items-center px-2.5 py-1.5 border border-transparent text-xs font-medium rounded shadow-sm text-white bg-green-600 hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 disabled:opacity-50"
                           onClick={() => sendWhatsApp(s)}
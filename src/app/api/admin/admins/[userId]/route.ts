@@ -1,11 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
 import { requireAdmin, getBearerToken } from "@/lib/admin";
 import { supabaseServer } from "@/lib/supabase/server";
+import { ADMIN_ROLES, PERMISSIONS } from "@/lib/auth/edge-permissions";
+import { auditLog } from "@/lib/audit";
 
 export async function DELETE(req: NextRequest, ctx: { params: Promise<{ userId: string }> }) {
   try {
     const { userId } = await ctx.params;
-    await requireAdmin(req);
+    const admin = await requireAdmin(req, PERMISSIONS.USERS_DELETE);
     const token = await getBearerToken(req);
     const svc = supabaseServer(token || undefined);
     const res = await svc.rpc("admin_remove_admin", { p_user_id: userId });
@@ -13,8 +15,10 @@ export async function DELETE(req: NextRequest, ctx: { params: Promise<{ userId:
       const msg = (res.error.message || "").toLowerCase();
       if (msg.includes("forbidden")) return NextResponse.json({ error: "forbidden" }, { status: 403 });
       if (msg.includes("cannot_remove_last_admin")) return NextResponse.json({ error: "cannot_remove_last_admin" }, { status: 400 });
+      if (msg.includes("cannot_remove_last_super_admin")) return NextResponse.json({ error: "cannot_remove_last_super_admin" }, { status: 400 });
       return NextResponse.json({ error: res.error.message }, { status: 400 });
     }
+    await auditLog(admin.user_id, "remove_admin", { user_id: userId });
     return NextResponse.json({ ok: true });
   } catch (e: any) {
     if (e instanceof Response) return e;
@@ -25,21 +29,45 @@ export async function DELETE(req: NextRequest, ctx: { params: Promise<{ userId:
 export async function PATCH(req: NextRequest, ctx: { params: Promise<{ userId: string }> }) {
   try {
     const { userId } = await ctx.params;
-    await requireAdmin(req);
+    const admin = await requireAdmin(req, PERMISSIONS.USERS_MANAGE);
     const body = await req.json().catch(() => ({}));
     const email = String(body?.email || "").trim();
-    if (!email) return NextResponse.json({ error: "missing_email" }, { status: 400 });
+    const role = body?.role === undefined ? null : String(body.role);
+    if (!email && role === null) return NextResponse.json({ error: "missing_email" }, { status: 400 });
+    if (role !== null && !ADMIN_ROLES.some((r) => r.name === role)) {
+      return NextResponse.json({ error: "invalid_role" }, { status: 400 });
+    }
     const token = await getBearerToken(req);
     const svc = supabaseServer(token || undefined);
-    const res = await svc.rpc("admin_update_admin_email", { p_user_id: userId, p_email: email });
-    if (res.error) {
-      const msg = (res.error.message || "").toLowerCase();
-      if (msg.includes("forbidden")) return NextResponse.json({ error: "forbidden" }, { status: 403 });
-      if (msg.includes("invalid_email")) return NextResponse.json({ error: "invalid_email" }, { status: 400 });
-      if (msg.includes("admin_not_found")) return NextResponse.json({ error: "admin_not_found" }, { status: 404 });
-      return NextResponse.json({ error: res.error.message }, { status: 500 });
+
+    let item: Record<string, unknown> = { user_id: userId };
+    if (email) {
+      const res = await svc.rpc("admin_update_admin_email", { p_user_id: userId, p_email: email });
+      if (res.error) {
+        const msg = (res.error.message || "").toLowerCase();
+        if (msg.includes("forbidden")) return NextResponse.json({ error: "forbidden" }, { status: 403 });
+        if (msg.includes("invalid_email")) return NextResponse.json({ error: "invalid_email" }, { status: 400 });
+        if (msg.includes("admin_not_found")) return NextResponse.json({ error: "admin_not_found" }, { status: 404 });
+        return NextResponse.json({ error: res.error.message }, { status: 500 });
+      }
+      item = { ...item, ...((res.data && res.data[0]) || {}) };
+    }
+    if (role !== null) {
+      const res = await svc.rpc("admin_set_admin_role", { p_user_id: userId, p_role: role });
+      if (res.error) {
+        const msg = (res.error.message || "").toLowerCase();
+        if (msg.includes("forbidden")) return NextResponse.json({ error: "forbidden" }, { status: 403 });
+        if (msg.includes("invalid_role")) return NextResponse.json({ error: "invalid_role" }, { status: 400 });
+        if (msg.includes("admin_not_found")) return NextResponse.json({ error: "admin_not_found" }, { status: 404 });
+        if (msg.includes("cannot_demote_last_super_admin")) {
+          return NextResponse.json({ error: "cannot_demote_last_super_admin" }, { status: 400 });
+        }
+        return NextResponse.json({ error: res.error.message }, { status: 500 });
+      }
+      item = { ...item, ...((res.data && res.data[0]) || {}) };
+      await auditLog(admin.user_id, "set_admin_role", { user_id: userId, role });
     }
-    return NextResponse.json({ item: (res.data && res.data[0]) || null });
+    return NextResponse.json({ item });
   } catch (e: any) {
     if (e instanceof Response) return e;
     return NextResponse.json({ error: e?.message || "unexpected_error" }, { status: 500 });
@@ -1,10 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
 import { requireAdmin, getBearerToken } from "@/lib/admin";
 import { supabaseServer } from "@/lib/supabase/server";
+import { ADMIN_ROLES, PERMISSIONS, ROLES } from "@/lib/auth/edge-permissions";
+import { auditLog } from "@/lib/audit";
 
 export async function GET(req: NextRequest) {
   try {
-    await requireAdmin(req);
+    await requireAdmin(req, PERMISSIONS.USERS_VIEW);
     const token = await getBearerToken(req);
     const svc = supabaseServer(token || undefined);
     const res = await svc.rpc("admin_list_admins");
@@ -22,20 +24,26 @@ export async function GET(req: NextRequest) {
 
 export async function POST(req: NextRequest) {
   try {
-    await requireAdmin(req);
+    const admin = await requireAdmin(req, PERMISSIONS.USERS_MANAGE);
     const body = await req.json().catch(() => ({}));
     const email = String(body?.email || "").trim();
     if (!email) return NextResponse.json({ error: "missing_email" }, { status: 400 });
+    const role = String(body?.role || ROLES.SUPER_ADMIN.name);
+    if (!ADMIN_ROLES.some((r) => r.name === role)) return NextResponse.json({ error: "invalid_role" }, { status: 400 });
     const token = await getBearerToken(req);
     const svc = supabaseServer(token || undefined);
-    const res = await svc.rpc("admin_add_admin_by_email", { p_email: email });
+    const res = await svc.rpc("admin_add_admin_by_email", { p_email: email, p_role: role });
     if (res.error) {
       const msg = (res.error.message || "").toLowerCase();
       if (msg.includes("user_not_found")) return NextResponse.json({ error: "user_not_found" }, { status: 400 });
+      if (msg.includes("invalid_role")) return NextResponse.json({ error: "invalid_role" }, { status: 400 });
+      if (msg.includes("admin_exists")) return NextResponse.json({ error: "admin_exists" }, { status: 409 });
       if (msg.includes("forbidden")) return NextResponse.json({ error: "forbidden" }, { status: 403 });
       return NextResponse.json({ error: res.error.message }, { status: 500 });
     }
-    return NextResponse.json({ item: (res.data && res.data[0]) || null });
+    const item = (res.data && res.data[0]) || null;
+    await auditLog(admin.user_id, "add_admin", { user_id: item?.user_id ?? null, email, role });
+    return NextResponse.json({ item });
   } catch (e: any) {
     if (e instanceof Response) return e;
     return NextResponse.json({ error: e?.message || "unexpected_error" }, { status: 500 });
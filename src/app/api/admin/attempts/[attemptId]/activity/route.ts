@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { requireAdmin, getBearerToken } from "@/lib/admin";
+import { PERMISSIONS } from "@/lib/auth/edge-permissions";
 import { supabaseServer } from "@/lib/supabase/server";
 
 export const dynamic = "force-dynamic";
@@ -13,7 +14,7 @@ export async function GET(
   ctx: { params: Promise<{ attemptId: string }> }
 ) {
   try {
-    await requireAdmin(req);
+    await requireAdmin(req, [PERMISSIONS.RESULTS_VIEW_ALL, PERMISSIONS.MONITORING_VIEW]);
     const { attemptId } = await ctx.params;
     if (!attemptId) {
       return NextResponse.json({ error: "Attempt ID is required" }, { status: 400 });
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/admin";
+import { PERMISSIONS } from "@/lib/auth/edge-permissions";
+import { supabaseServer } from "@/lib/supabase/server";
+import { auditLog } from "@/lib/audit";
+
+// Give an in-progress attempt extra time; the student's timer is updated over SSE
+export async function POST(req: NextRequest, ctx: { params: Promise<{ attemptId: string }> }) {
+  try {
+    const admin = await requireAdmin(req, PERMISSIONS.ATTEMPTS_MANAGE);
+    const { attemptId } = await ctx.params;
+    if (!attemptId) return NextResponse.json({ error: "missing_attempt_id" }, { status: 400 });
+
+    const body = await req.json().catch(() => ({}));
+    const minutes = Number(body?.minutes);
+    if (!Number.isInteger(minutes) || minutes < 1 || minutes > 600) {
+      return NextResponse.json({ error: "invalid_minutes" }, { status: 400 });
+    }
+    const reason = typeof body?.reason === "string" && body.reason.trim() ? body.reason.trim() : null;
+
+    const svc = supabaseServer();
+    const { data, error } = await svc.rpc("extend_attempt", { p_attempt_id: attemptId, p_minutes: minutes });
+    if (error) return NextResponse.json({ error: error.message }, { status: 400 });
+
+    const row = Array.isArray(data) ? data[0] : data;
+    await auditLog(admin.user_id, "extend_attempt", {
+      attempt_id: attemptId,
+      minutes,
+      reason,
+      extra_minutes: row?.extra_minutes ?? null,
+      deadline_at: row?.deadline_at ?? null,
+    });
+    return NextResponse.json({ ok: true, result: row });
+  } catch (e: any) {
+    if (e instanceof Response) return e;
+    return NextResponse.json({ error: e?.message || "unexpected_error" }, { status: 500 });
+  }
+}
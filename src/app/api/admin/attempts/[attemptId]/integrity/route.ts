@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdmin, getBearerToken } from "@/lib/admin";
+import { PERMISSIONS } from "@/lib/auth/edge-permissions";
+import { supabaseServer } from "@/lib/supabase/server";
+import { INTEGRITY_EVENT_TYPES, integrityTimeline, scoreIntegrity } from "@/lib/integrityRisk";
+import type { ActivityEventRow } from "@/lib/proctoring";
+
+export const dynamic = "force-dynamic";
+
+// The attempt's integrity risk score, the factors behind it and the events they came from
+export async function GET(req: NextRequest, ctx: { params: Promise<{ attemptId: string }> }) {
+  try {
+    await requireAdmin(req, [PERMISSIONS.RESULTS_VIEW_ALL, PERMISSIONS.MONITORING_VIEW]);
+    const { attemptId } = await ctx.params;
+    if (!attemptId) return NextResponse.json({ error: "missing_attempt_id" }, { status: 400 });
+
+    const token = await getBearerToken(req);
+    const svc = supabaseServer(token || undefined);
+
+    const attempt = await svc
+      .from("exam_attempts")
+      .select("id, started_at, submitted_at")
+      .eq("id", attemptId)
+      .maybeSingle();
+    if (attempt.error) return NextResponse.json({ error: attempt.error.message }, { status: 400 });
+    if (!attempt.data) return NextResponse.json({ error: "attempt_not_found" }, { status: 404 });
+
+    const { data, error } = await svc
+      .from("attempt_activity_events")
+      .select("attempt_id, event_type, event_time, payload")
+      .eq("attempt_id", attemptId)
+      .in("event_type", INTEGRITY_EVENT_TYPES)
+      .order("event_time", { ascending: true })
+      .limit(5000);
+    if (error) return NextResponse.json({ error: error.message }, { status: 400 });
+
+    const events = (data ?? []) as ActivityEventRow[];
+    return NextResponse.json({
+      report: scoreIntegrity(events, attempt.data),
+      timeline: integrityTimeline(events),
+    });
+  } catch (e: any) {
+    if (e instanceof Response) return e;
+    return NextResponse.json({ error: e?.message || "unexpected_error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/admin";
+import { PERMISSIONS } from "@/lib/auth/edge-permissions";
+import { supabaseServer } from "@/lib/supabase/server";
+import { auditLog } from "@/lib/audit";
+import { isProctorAction } from "@/lib/proctoring";
+
+// Force-submit, pause, resume, invalidate or message a live attempt; the student's page reacts over SSE
+export async function POST(req: NextRequest, ctx: { params: Promise<{ attemptId: string }> }) {
+  try {
+    const admin = await requireAdmin(req, PERMISSIONS.ATTEMPTS_MANAGE);
+    const { attemptId } = await ctx.params;
+    if (!attemptId) return NextResponse.json({ error: "missing_attempt_id" }, { status: 400 });
+
+    const body = await req.json().catch(() => ({}));
+    const action = body?.action;
+    if (!isProctorAction(action)) {
+      return NextResponse.json({ error: "invalid_action" }, { status: 400 });
+    }
+    const message = typeof body?.message === "string" && body.message.trim() ? body.message.trim().slice(0, 1000) : null;
+    if (action === "message" && !message) {
+      return NextResponse.json({ error: "message_required" }, { status: 400 });
+    }
+    const reason = typeof body?.reason === "string" && body.reason.trim() ? body.reason.trim() : null;
+
+    const svc = supabaseServer();
+    const { data, error } = await svc.rpc("proctor_attempt", {
+      p_attempt_id: attemptId,
+      p_action: action,
+      p_message: message,
+      p_admin_id: admin.user_id,
+    });
+    if (error) {
+      const status = error.message?.includes("attempt_not_found") ? 404 : 400;
+      return NextResponse.json({ error: error.message }, { status });
+    }
+
+    const row = Array.isArray(data) ? data[0] : data;
+    await auditLog(admin.user_id, `proctor_${action}`, {
+      attempt_id: attemptId,
+      message,
+      reason,
+      completion_status: row?.completion_status ?? null,
+    });
+    return NextResponse.json({ ok: true, result: row });
+  } catch (e: any) {
+    if (e instanceof Response) return e;
+    return NextResponse.json({ error: e?.message || "unexpected_error" }, { status: 500 });
+  }
+}
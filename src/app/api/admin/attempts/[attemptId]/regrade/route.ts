@@ -1,11 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
 import { requireAdmin } from "@/lib/admin";
+import { PERMISSIONS } from "@/lib/auth/edge-permissions";
 import { supabaseServer } from "@/lib/supabase/server";
 import { auditLog } from "@/lib/audit";
 
 export async function POST(req: NextRequest, ctx: { params: Promise<{ attemptId: string }> }) {
   try {
-    const admin = await requireAdmin(req);
+    const admin = await requireAdmin(req, PERMISSIONS.RESULTS_GRADE);
     const { attemptId } = await ctx.params;
     if (!attemptId) return NextResponse.json({ error: "missing_attempt_id" }, { status: 400 });
 
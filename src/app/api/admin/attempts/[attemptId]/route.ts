@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { supabaseServer } from "@/lib/supabase/server";
 import { requireAdmin } from "@/lib/admin";
+import { PERMISSIONS } from "@/lib/auth/edge-permissions";
 import { auditLog } from "@/lib/audit";
 
 export async function GET(
@@ -8,7 +9,7 @@ export async function GET(
   { params }: { params: Promise<{ attemptId: string }> }
 ) {
   try {
-    await requireAdmin(request);
+    await requireAdmin(request, [PERMISSIONS.RESULTS_VIEW_ALL, PERMISSIONS.MONITORING_VIEW]);
     const { attemptId } = await params;
 
     if (!attemptId) {
@@ -59,7 +60,7 @@ export async function DELETE(
   { params }: { params: Promise<{ attemptId: string }> }
 ) {
   try {
-    const admin = await requireAdmin(request);
+    const admin = await requireAdmin(request, PERMISSIONS.ATTEMPTS_DELETE);
     const { attemptId } = await params;
 
     if (!attemptId) {
@@ -91,8 +92,8 @@ export async function DELETE(
       );
     }
 
-    // Best-effort: remove gating row tied to this attempt_id before deleting the attempt.
-    // This covers legacy attempts where exam_attempts.student_id may be null.
+    // Remove the gating row tied to this attempt_id before deleting the attempt, which
+    // returns the attempt to the student's allowance; their other attempts keep counting.
     {
       const { error: preDelGatingErr } = await supabase
         .from("student_exam_attempts")
@@ -117,41 +118,6 @@ export async function DELETE(
       );
     }
 
-    // If this attempt belonged to a student (code-based access), reset per-exam gating
-    if ((attempt as any).student_id && (attempt as any).exam_id) {
-      const studentId = (attempt as any).student_id as string;
-      const examId = (attempt as any).exam_id as string;
-
-      const { data: resetRows, error: resetError } = await supabase.rpc(
-        "admin_reset_student_attempts",
-        {
-          p_student_id: studentId,
-          p_exam_id: examId,
-        }
-      );
-
-      const deletedCount = Array.isArray(resetRows)
-        ? Number((resetRows[0] as any)?.deleted_count ?? 0)
-        : 0;
-
-      if (resetError || deletedCount === 0) {
-        if (resetError) {
-          console.warn("admin_reset_student_attempts error:", resetError);
-        } else {
-          console.log("admin_reset_student_attempts: no rows deleted (likely pre-delete removal handled it)");
-        }
-        // Fallback: attempt direct delete in case RPC is missing or not applied
-        const { error: directDelErr } = await supabase
-          .from("student_exam_attempts")
-          .delete()
-          .match({ student_id: studentId, exam_id: examId });
-        if (directDelErr) {
-          console.error("Direct gating reset failed:", directDelErr);
-        }
-      } else {
-        console.log("Gating reset via RPC, deleted_count=", deletedCount);
-      }
-    }
     // Log the admin action
     await auditLog(admin.user_id, "delete_attempt", {
       resource_type: "attempt",
@@ -1,57 +1,82 @@
 import { NextRequest, NextResponse } from "next/server";
 import { requireAdmin, getBearerToken } from "@/lib/admin";
+import { PERMISSIONS } from "@/lib/auth/edge-permissions";
 import { supabaseServer } from "@/lib/supabase/server";
 
 export const dynamic = "force-dynamic";
 
 export async function GET(req: NextRequest, ctx: { params: Promise<{ attemptId: string }> }) {
   try {
-    await requireAdmin(req);
+    await requireAdmin(req, [PERMISSIONS.RESULTS_VIEW_ALL, PERMISSIONS.MONITORING_VIEW]);
     const { attemptId } = await ctx.params;
 
     const token = await getBearerToken(req);
     const supabase = supabaseServer(token || undefined);
 
-    // Base state (does not include correct_answers)
-    const { data: state, error } = await supabase.rpc("get_attempt_state", {
+    // Base state (does not include correct_answers); the RPC is service-role only
+    const { data: state, error } = await supabaseServer().rpc("get_attempt_state", {
       p_attempt_id: attemptId,
     });
     if (error) return NextResponse.json({ error: error.message }, { status: 400 });
 
-    // Determine exam_id
-    const examId: string | null = state?.exam?.id ?? null;
-    let ensuredExamId = examId;
-    if (!ensuredExamId) {
-      const att = await supabase
-        .from("exam_attempts")
-        .select("exam_id")
-        .eq("id", attemptId)
-        .maybeSingle();
-      if (att.error) return NextResponse.json({ error: att.error.message }, { status: 400 });
-      ensuredExamId = att.data?.exam_id ?? null;
-    }
+    // Determine exam_id and the pool questions drawn for this attempt
+    const att = await supabase
+      .from("exam_attempts")
+      .select("exam_id, pool_question_ids, question_revisions, key_revisions")
+      .eq("id", attemptId)
+      .maybeSingle();
+    if (att.error) return NextResponse.json({ error: att.error.message }, { status: 400 });
+    const ensuredExamId: string | null = state?.exam?.id ?? att.data?.exam_id ?? null;
+    const poolQuestionIds: string[] = att.data?.pool_question_ids ?? [];
+    // Revisions this attempt is graded against: a regrade's applied keys, else the ones shown
+    const gradedRevisions: Record<string, number> = {
+      ...(att.data?.question_revisions ?? {}),
+      ...(att.data?.key_revisions ?? {}),
+    };
 
     // Fetch questions with correct_answers for admin grading
     if (ensuredExamId) {
-      const qRes = await supabase
+      let qQuery = supabase
         .from("questions")
-        .select("id, question_text, question_type, options, points, required, order_index, correct_answers, created_at")
-        .eq("exam_id", ensuredExamId)
+        .select("id, question_text, question_type, options, points, required, order_index, correct_answers, revision, created_at");
+      qQuery = poolQuestionIds.length > 0
+        ? qQuery.or(`exam_id.eq.${ensuredExamId},id.in.(${poolQuestionIds.join(",")})`)
+        : qQuery.eq("exam_id", ensuredExamId);
+      const qRes = await qQuery
         .order("order_index", { ascending: true, nullsFirst: false })
         .order("created_at", { ascending: true });
 
       if (!qRes.error && Array.isArray(qRes.data)) {
+        // Exam questions first, then pool questions in draw order (same as get_attempt_state)
+        const ordered = [...qRes.data].sort(
+          (a, b) => poolQuestionIds.indexOf(a.id) - poolQuestionIds.indexOf(b.id)
+        );
+        // Overlay the graded revision where the question has been edited since
+        const stale = ordered.filter((q) => gradedRevisions[q.id] != null && gradedRevisions[q.id] !== q.revision);
+        const revRes = stale.length > 0
+          ? await supabase
+              .from("question_revisions")
+              .select("question_id, revision, question_text, question_type, options, points, correct_answers")
+              .in("question_id", stale.map((q) => q.id))
+          : { data: [] };
+        const revisionFor = (id: string) =>
+          (revRes.data ?? []).find((r) => r.question_id === id && r.revision === gradedRevisions[id]);
         // Replace questions array with admin-enriched version
-        const adminQuestions = qRes.data.map((q) => ({
-          id: q.id,
-          question_text: q.question_text,
-          question_type: q.question_type,
-          options: q.options,
-          points: q.points,
-          required: q.required,
-          order_index: q.order_index,
-          correct_answers: q.correct_answers,
-        }));
+        const adminQuestions = ordered.map((live) => {
+          const q = { ...live, ...(revisionFor(live.id) ?? {}) };
+          return {
+            id: live.id,
+            question_text: q.question_text,
+            question_type: q.question_type,
+            options: q.options,
+            points: q.points,
+            required: live.required,
+            order_index: live.order_index,
+            correct_answers: q.correct_answers,
+            revision: gradedRevisions[live.id] ?? live.revision,
+            current_revision: live.revision,
+          };
+        });
         // Load manual grades for this attempt
         const mg = await supabase
           .from("manual_grades")
@@ -1,10 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
 import { requireAdmin } from "@/lib/admin";
+import { PERMISSIONS } from "@/lib/auth/edge-permissions";
 import { supabaseServer } from "@/lib/supabase/server";
 
 export async function GET(req: NextRequest) {
   try {
-    await requireAdmin(req);
+    await requireAdmin(req, PERMISSIONS.AUDIT_VIEW);
     const svc = supabaseServer();
 
     const url = new URL(req.url);
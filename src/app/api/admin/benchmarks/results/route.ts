@@ -3,10 +3,14 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { checkAdmin } from '@/lib/admin';
+import { PERMISSIONS } from '@/lib/auth/edge-permissions';
 import { supabaseServer } from '@/lib/supabase/server';
 import { BenchmarkResult } from '@/lib/benchmarking/performance-benchmarker';
 
 export async function GET(request: NextRequest) {
+  const denied = await checkAdmin(request, PERMISSIONS.SYSTEM_VIEW);
+  if (denied) return denied;
   try {
     const supabase = supabaseServer();
     const { searchParams } = new URL(request.url);
@@ -41,6 +45,8 @@ export async function GET(request: NextRequest) {
 }
 
 export async function POST(request: NextRequest) {
+  const denied = await checkAdmin(request, PERMISSIONS.SYSTEM_MANAGE);
+  if (denied) return denied;
   try {
     const supabase = supabaseServer();
     const results: BenchmarkResult[] = await request.json();
@@ -84,6 +90,8 @@ export async function POST(request: NextRequest) {
 }
 
 export async function DELETE(request: NextRequest) {
+  const denied = await checkAdmin(request, PERMISSIONS.SYSTEM_MANAGE);
+  if (denied) return denied;
   try {
     const supabase = supabaseServer();
     const { searchParams } = new URL(request.url);
@@ -3,11 +3,15 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { checkAdmin } from '@/lib/admin';
+import { PERMISSIONS } from '@/lib/auth/edge-permissions';
 import { performanceBenchmarker, BenchmarkTest } from '@/lib/benchmarking/performance-benchmarker';
 import { loadTester, LoadTestScenario } from '@/lib/benchmarking/load-testing';
 import { regressionDetector } from '@/lib/benchmarking/regression-detector';
 
 export async function POST(request: NextRequest) {
+  const denied = await checkAdmin(request, PERMISSIONS.SYSTEM_MANAGE);
+  if (denied) return denied;
   try {
     const { type, config } = await request.json();
 
@@ -162,6 +166,8 @@ async function runRegressionCheck() {
 }
 
 export async function GET(request: NextRequest) {
+  const denied = await checkAdmin(request, PERMISSIONS.SYSTEM_VIEW);
+  if (denied) return denied;
   try {
     const { searchParams } = new URL(request.url);
     const action = searchParams.get('action');
@@ -206,6 +212,8 @@ export async function GET(request: NextRequest) {
 }
 
 export async function DELETE(request: NextRequest) {
+  const denied = await checkAdmin(request, PERMISSIONS.SYSTEM_MANAGE);
+  if (denied) return denied;
   try {
     const { searchParams } = new URL(request.url);
     const action = searchParams.get('action');
@@ -1,11 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
 import { supabaseServer } from "@/lib/supabase/server";
 import { requireAdmin } from "@/lib/admin";
+import { PERMISSIONS } from "@/lib/auth/edge-permissions";
 import { auditLog } from "@/lib/audit";
 
 export async function GET(request: NextRequest) {
   try {
-    await requireAdmin(request);
+    await requireAdmin(request, [PERMISSIONS.STUDENTS_VIEW, PERMISSIONS.MONITORING_VIEW]);
     const supabase = supabaseServer();
 
     const { data, error } = await supabase
@@ -38,7 +39,7 @@ export async function POST(request: NextRequest) {
     // Step 1: Check admin authentication
     let admin;
     try {
-      admin = await requireAdmin(request);
+      admin = await requireAdmin(request, PERMISSIONS.ATTEMPTS_MANAGE);
       console.log("Admin authenticated:", { user_id: admin.user_id, email: admin.email });
     } catch (authError) {
       console.error("Authentication failed:", authError);
@@ -1,10 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
 import { requireAdmin } from "@/lib/admin";
+import { PERMISSIONS } from "@/lib/auth/edge-permissions";
 import { supabaseServer } from "@/lib/supabase/server";
 
 export async function POST(req: NextRequest) {
   try {
-    await requireAdmin(req);
+    await requireAdmin(req, PERMISSIONS.ATTEMPTS_MANAGE);
     const supabase = supabaseServer();
 
     // Run the cleanup function to auto-submit expired attempts
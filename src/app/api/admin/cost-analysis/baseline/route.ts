@@ -3,10 +3,14 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { checkAdmin } from '@/lib/admin';
+import { PERMISSIONS } from '@/lib/auth/edge-permissions';
 import { supabaseServer } from '@/lib/supabase/server';
 import { CostBreakdown } from '@/lib/benchmarking/cost-analyzer';
 
-export async function GET() {
+export async function GET(request: NextRequest) {
+  const denied = await checkAdmin(request, PERMISSIONS.SYSTEM_VIEW);
+  if (denied) return denied;
   try {
     const supabase = supabaseServer();
 
@@ -40,6 +44,8 @@ export async function GET() {
 }
 
 export async function POST(request: NextRequest) {
+  const denied = await checkAdmin(request, PERMISSIONS.SYSTEM_MANAGE);
+  if (denied) return denied;
   try {
     const supabase = supabaseServer();
     const breakdown: CostBreakdown = await request.json();
@@ -77,7 +83,9 @@ export async function POST(request: NextRequest) {
   }
 }
 
-export async function DELETE() {
+export async function DELETE(request: NextRequest) {
+  const denied = await checkAdmin(request, PERMISSIONS.SYSTEM_MANAGE);
+  if (denied) return denied;
   try {
     const supabase = supabaseServer();
 
@@ -3,10 +3,14 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { checkAdmin } from '@/lib/admin';
+import { PERMISSIONS } from '@/lib/auth/edge-permissions';
 import { supabaseServer } from '@/lib/supabase/server';
 import { CostMetrics } from '@/lib/benchmarking/cost-analyzer';
 
 export async function GET(request: NextRequest) {
+  const denied = await checkAdmin(request, PERMISSIONS.SYSTEM_VIEW);
+  if (denied) return denied;
   try {
     const supabase = supabaseServer();
     const { searchParams } = new URL(request.url);
@@ -39,6 +43,8 @@ export async function GET(request: NextRequest) {
 }
 
 export async function POST(request: NextRequest) {
+  const denied = await checkAdmin(request, PERMISSIONS.SYSTEM_MANAGE);
+  if (denied) return denied;
   try {
     const supabase = supabaseServer();
     const metrics: CostMetrics = await request.json();
@@ -82,6 +88,8 @@ export async function POST(request: NextRequest) {
 }
 
 export async function DELETE(request: NextRequest) {
+  const denied = await checkAdmin(request, PERMISSIONS.SYSTEM_MANAGE);
+  if (denied) return denied;
   try {
     const supabase = supabaseServer();
     const { searchParams } = new URL(request.url);
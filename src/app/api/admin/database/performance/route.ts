@@ -4,12 +4,16 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { checkAdmin } from '@/lib/admin';
+import { PERMISSIONS } from '@/lib/auth/edge-permissions';
 import { performanceMonitor } from '@/lib/database/performance-monitor';
 import { queryOptimizer } from '@/lib/database/query-optimizer';
 import { getBearerToken } from '@/lib/admin';
 import { supabaseServer } from '@/lib/supabase/server';
 
 export async function GET(req: NextRequest) {
+  const denied = await checkAdmin(req, PERMISSIONS.SYSTEM_VIEW);
+  if (denied) return denied;
   try {
     const token = await getBearerToken(req);
     const svc = supabaseServer(token || undefined);
@@ -73,6 +77,8 @@ export async function GET(req: NextRequest) {
 }
 
 export async function POST(req: NextRequest) {
+  const denied = await checkAdmin(req, PERMISSIONS.SYSTEM_MANAGE);
+  if (denied) return denied;
   try {
     const token = await getBearerToken(req);
     const svc = supabaseServer(token || undefined);
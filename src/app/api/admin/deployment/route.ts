@@ -6,6 +6,8 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { checkAdmin } from '@/lib/admin';
+import { PERMISSIONS } from '@/lib/auth/edge-permissions';
 import { DeploymentPipeline, DeploymentPlan } from '@/lib/deployment/deployment-pipeline';
 import { DeploymentHealthChecker, defaultDeploymentHealthConfig } from '@/lib/deployment/health-checks';
 import { trafficRouter } from '@/lib/deployment/traffic-router';
@@ -16,6 +18,8 @@ const deploymentPipeline = new DeploymentPipeline(defaultDeploymentConfig);
 const healthChecker = new DeploymentHealthChecker(defaultDeploymentHealthConfig);
 
 export async function GET(request: NextRequest) {
+  const denied = await checkAdmin(request, PERMISSIONS.SYSTEM_VIEW);
+  if (denied) return denied;
   try {
     const { searchParams } = new URL(request.url);
     const action = searchParams.get('action');
@@ -63,6 +67,8 @@ export async function GET(request: NextRequest) {
 }
 
 export async function POST(request: NextRequest) {
+  const denied = await checkAdmin(request, PERMISSIONS.SYSTEM_MANAGE);
+  if (denied) return denied;
   try {
     const body = await request.json();
     const { action } = body;
@@ -345,6 +351,8 @@ async function handleEmergencyStop(body: any) {
 }
 
 export async function PUT(request: NextRequest) {
+  const denied = await checkAdmin(request, PERMISSIONS.SYSTEM_MANAGE);
+  if (denied) return denied;
   try {
     const body = await request.json();
     const { action } = body;
@@ -439,6 +447,8 @@ async function handleToggleHealthCheck(body: any) {
 }
 
 export async function DELETE(request: NextRequest) {
+  const denied = await checkAdmin(request, PERMISSIONS.SYSTEM_MANAGE);
+  if (denied) return denied;
   try {
     const { searchParams } = new URL(request.url);
     const action = searchParams.get('action');
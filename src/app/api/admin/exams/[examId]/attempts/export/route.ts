@@ -1,10 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
 import { requireAdmin, getBearerToken } from "@/lib/admin";
+import { PERMISSIONS } from "@/lib/auth/edge-permissions";
 import { supabaseServer } from "@/lib/supabase/server";
 
 export async function GET(req: NextRequest, ctx: { params: Promise<{ examId: string }> }) {
   try {
-    await requireAdmin(req);
+    await requireAdmin(req, PERMISSIONS.RESULTS_EXPORT);
     const { examId } = await ctx.params;
     const token = await getBearerToken(req);
     const svc = supabaseServer(token || undefined);
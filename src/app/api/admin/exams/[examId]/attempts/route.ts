@@ -1,10 +1,71 @@
 import { NextRequest, NextResponse } from "next/server";
 import { requireAdmin, getBearerToken } from "@/lib/admin";
+import { PERMISSIONS } from "@/lib/auth/edge-permissions";
 import { supabaseServer } from "@/lib/supabase/server";
+import { INTEGRITY_EVENT_TYPES, scoreIntegrity } from "@/lib/integrityRisk";
+import { parseAttemptPolicy, withAttemptHistory } from "@/lib/attemptPolicy";
+import { gradeResult, parseResultPolicy } from "@/lib/resultRelease";
+import { isPracticeMode } from "@/lib/practice";
+import type { ActivityEventRow } from "@/lib/proctoring";
+
+type ListedAttempt = {
+  id: string;
+  student_id: string | null;
+  started_at: string | null;
+  submitted_at: string | null;
+  score_percentage: number | null;
+  final_score_percentage: number | null;
+};
+
+// Numbers each student's attempts, marks the one exams.settings.score_policy counts, and grades
+// the official score against the pass mark and grade bands. Practice attempts have no official score.
+async function withHistory<T extends ListedAttempt>(svc: ReturnType<typeof supabaseServer>, examId: string, items: T[]) {
+  const { data, error } = await svc.from("exams").select("settings").eq("id", examId).maybeSingle();
+  if (error) throw new Error(error.message);
+  const policy = parseAttemptPolicy(data?.settings);
+  const resultPolicy = parseResultPolicy(data?.settings);
+  const practice = isPracticeMode(data?.settings);
+  return withAttemptHistory(items, policy.score_policy, (a) => {
+    if (practice) return null;
+    const v = a.final_score_percentage ?? a.score_percentage;
+    return v === null || v === undefined ? null : Number(v);
+  }).map((a) => {
+    const graded = gradeResult(a.official_score, resultPolicy);
+    return { ...a, official_is_pass: graded.is_pass, official_grade: graded.grade };
+  });
+}
+
+// Scores each attempt's activity so the results list can sort by integrity risk
+async function withIntegrity<T extends ListedAttempt>(svc: ReturnType<typeof supabaseServer>, items: T[]) {
+  const byAttempt = new Map<string, ActivityEventRow[]>();
+  for (let i = 0; i < items.length; i += 200) {
+    const ids = items.slice(i, i + 200).map((a) => a.id);
+    const { data, error } = await svc
+      .from("attempt_activity_events")
+      .select("attempt_id, event_type, event_time, payload")
+      .in("attempt_id", ids)
+      .in("event_type", INTEGRITY_EVENT_TYPES);
+    if (error) throw new Error(error.message);
+    for (const ev of (data ?? []) as ActivityEventRow[]) {
+      const list = byAttempt.get(ev.attempt_id) ?? [];
+      list.push(ev);
+      byAttempt.set(ev.attempt_id, list);
+    }
+  }
+  return items.map((a) => {
+    const report = scoreIntegrity(byAttempt.get(a.id) ?? [], a);
+    return {
+      ...a,
+      integrity_score: report.score,
+      integrity_level: report.level,
+      integrity_factors: report.factors.slice(0, 3).map((f) => f.label),
+    };
+  });
+}
 
 export async function GET(req: NextRequest, ctx: { params: Promise<{ examId: string }> }) {
   try {
-    await requireAdmin(req);
+    await requireAdmin(req, [PERMISSIONS.RESULTS_VIEW_ALL, PERMISSIONS.MONITORING_VIEW]);
     const { examId } = await ctx.params;
     const token = await getBearerToken(req);
     const svc = supabaseServer(token || undefined);
@@ -12,7 +73,8 @@ export async function GET(req: NextRequest, ctx: { params: Promise<{ examId: str
     // create or replace function admin_list_attempts(p_exam_id uuid) returns setof ...
     const rpc = await svc.rpc("admin_list_attempts", { p_exam_id: examId });
     if (!rpc.error && Array.isArray(rpc.data)) {
-      return NextResponse.json({ items: rpc.data });
+      const items = await withHistory(svc, examId, rpc.data as ListedAttempt[]);
+      return NextResponse.json({ items: await withIntegrity(svc, items) });
     }
     // Log RPC failure for observability
     if (rpc.error) {
@@ -23,13 +85,14 @@ export async function GET(req: NextRequest, ctx: { params: Promise<{ examId: str
     // Fallback: join exam_attempts with students via student_id
     const fb = await svc
       .from("exam_attempts")
-      .select("id, exam_id, ip_address, started_at, submitted_at, completion_status, students(student_name, code), exam_results(score_percentage, final_score_percentage)")
+      .select("id, exam_id, student_id, ip_address, started_at, submitted_at, completion_status, students(student_name, code), exam_results(score_percentage, final_score_percentage)")
       .eq("exam_id", examId)
       .order("started_at", { ascending: false, nullsFirst: true });
     if (!fb.error) {
       const items = (fb.data ?? []).map((a: any) => ({
         id: a.id,
         exam_id: a.exam_id,
+        student_id: a.student_id ?? null,
         started_at: a.started_at,
         submitted_at: a.submitted_at,
         completion_status: a.completion_status,
@@ -38,7 +101,7 @@ export async function GET(req: NextRequest, ctx: { params: Promise<{ examId: str
         score_percentage: a?.exam_results?.score_percentage ?? null,
         final_score_percentage: a?.exam_results?.final_score_percentage ?? null,
       }));
-      return NextResponse.json({ items });
+      return NextResponse.json({ items: await withIntegrity(svc, await withHistory(svc, examId, items)) });
     }
 
     // If neither RPC nor table exists, surface a clear signal to configure backend
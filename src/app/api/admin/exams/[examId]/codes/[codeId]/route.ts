@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { supabaseServer } from "@/lib/supabase/server";
 import { requireAdmin, getBearerToken } from "@/lib/admin";
+import { PERMISSIONS } from "@/lib/auth/edge-permissions";
 
 // GET: Retrieve a specific student for an exam
 export async function GET(
@@ -8,7 +9,7 @@ export async function GET(
   ctx: { params: Promise<{ examId: string; codeId: string }> }
 ) {
   const { examId, codeId } = await ctx.params;
-  await requireAdmin(request);
+  await requireAdmin(request, PERMISSIONS.EXAMS_VIEW);
   const token = await getBearerToken(request);
   const supabase = supabaseServer(token || undefined);
 
@@ -37,6 +38,7 @@ export async function GET(
     `)
     .eq("exam_id", examId)
     .eq("students.code", codeId)
+    .order("started_at", { ascending: false })
     .limit(1);
 
   if (error) {
@@ -92,7 +94,7 @@ export async function DELETE(
   ctx: { params: Promise<{ examId: string; codeId: string }> }
 ) {
   const { examId, codeId } = await ctx.params;
-  await requireAdmin(request);
+  await requireAdmin(request, PERMISSIONS.EXAMS_EDIT);
   const token = await getBearerToken(request);
   const supabase = supabaseServer(token || undefined);
 
@@ -142,7 +144,7 @@ export async function PATCH(
   ctx: { params: Promise<{ examId: string; codeId: string }> }
 ) {
   const { examId, codeId } = await ctx.params;
-  await requireAdmin(request);
+  await requireAdmin(request, PERMISSIONS.EXAMS_EDIT);
   const token = await getBearerToken(request);
   const supabase = supabaseServer(token || undefined);
 
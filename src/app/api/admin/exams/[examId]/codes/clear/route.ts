@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { supabaseServer } from "@/lib/supabase/server";
 import { requireAdmin, getBearerToken } from "@/lib/admin";
+import { PERMISSIONS } from "@/lib/auth/edge-permissions";
 
 // POST: Clear all students from an exam
 export async function POST(
@@ -8,7 +9,7 @@ export async function POST(
   ctx: { params: Promise<{ examId: string }> }
 ) {
   const { examId } = await ctx.params;
-  await requireAdmin(request);
+  await requireAdmin(request, PERMISSIONS.EXAMS_EDIT);
   const token = await getBearerToken(request);
   const supabase = supabaseServer(token || undefined);
 
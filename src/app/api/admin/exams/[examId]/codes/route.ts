@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { supabaseServer } from "@/lib/supabase/server";
 import { requireAdmin, getBearerToken } from "@/lib/admin";
+import { PERMISSIONS } from "@/lib/auth/edge-permissions";
 
 // GET: Retrieve all students for a specific exam
 export async function GET(
@@ -8,7 +9,7 @@ export async function GET(
   { params }: { params: Promise<{ examId: string }> }
 ) {
   const { examId } = await params;
-  await requireAdmin(request);
+  await requireAdmin(request, PERMISSIONS.EXAMS_VIEW);
   const token = await getBearerToken(request);
   const supabase = supabaseServer(token || undefined);
 
@@ -43,7 +44,15 @@ export async function GET(
     return NextResponse.json({ error: "Failed to fetch students" }, { status: 500 });
   }
 
-  const students = (rows || []).map((r: any) => ({
+  // Rows are newest first; a student with several attempts is listed once with their latest
+  const seen = new Set<string>();
+  const latest = (rows || []).filter((r: any) => {
+    if (seen.has(r.student_id)) return false;
+    seen.add(r.student_id);
+    return true;
+  });
+
+  const students = latest.map((r: any) => ({
     exam_id: r.exam_id,
     student_id: r.student_id,
     code: r.students?.code || null,
@@ -65,7 +74,7 @@ export async function POST(
   { params }: { params: Promise<{ examId: string }> }
 ) {
   const { examId } = await params;
-  await requireAdmin(request);
+  await requireAdmin(request, PERMISSIONS.EXAMS_EDIT);
   const token = await getBearerToken(request);
   const supabase = supabaseServer(token || undefined);
   
@@ -0,0 +1,142 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdmin, getBearerToken } from "@/lib/admin";
+import { PERMISSIONS } from "@/lib/auth/edge-permissions";
+import { supabaseServer } from "@/lib/supabase/server";
+import { auditLog } from "@/lib/audit";
+import { detectCollusion, type CollusionAttempt } from "@/lib/collusion";
+
+export const dynamic = "force-dynamic";
+
+type ListedAttempt = {
+  id: string;
+  student_name: string | null;
+  ip_address: string | null;
+  submitted_at: string | null;
+  completion_status: string | null;
+};
+
+// Latest collusion report for the exam, or a specific run with ?report_id=
+export async function GET(req: NextRequest, ctx: { params: Promise<{ examId: string }> }) {
+  try {
+    await requireAdmin(req, PERMISSIONS.ANALYTICS_VIEW);
+    const { examId } = await ctx.params;
+    const token = await getBearerToken(req);
+    const svc = supabaseServer(token || undefined);
+
+    const reportId = req.nextUrl.searchParams.get("report_id");
+    let q = svc
+      .from("collusion_reports")
+      .select("id, status, attempt_count, pair_count, pairs, error, created_at, completed_at")
+      .eq("exam_id", examId);
+    q = reportId ? q.eq("id", reportId) : q.order("id", { ascending: false }).limit(1);
+    const { data, error } = await q.maybeSingle();
+    if (error) return NextResponse.json({ error: error.message }, { status: 400 });
+    return NextResponse.json({ report: data ?? null });
+  } catch (e: any) {
+    if (e instanceof Response) return e;
+    return NextResponse.json({ error: e?.message || "unexpected_error" }, { status: 500 });
+  }
+}
+
+// Runs the pairwise comparison over the exam's submitted attempts and stores the ranked pairs
+export async function POST(req: NextRequest, ctx: { params: Promise<{ examId: string }> }) {
+  try {
+    const admin = await requireAdmin(req, PERMISSIONS.ANALYTICS_VIEW);
+    const { examId } = await ctx.params;
+    const token = await getBearerToken(req);
+    const svc = supabaseServer(token || undefined);
+
+    const exam = await svc.from("exams").select("id").eq("id", examId).maybeSingle();
+    if (exam.error) return NextResponse.json({ error: exam.error.message }, { status: 400 });
+    if (!exam.data) return NextResponse.json({ error: "exam_not_found" }, { status: 404 });
+
+    const running = await svc
+      .from("collusion_reports")
+      .select("id")
+      .eq("exam_id", examId)
+      .eq("status", "running")
+      .gte("created_at", new Date(Date.now() - 10 * 60_000).toISOString())
+      .limit(1);
+    if ((running.data ?? []).length > 0) {
+      return NextResponse.json({ error: "report_already_running" }, { status: 409 });
+    }
+
+    const job = await svc
+      .from("collusion_reports")
+      .insert({ exam_id: examId, created_by: admin.user_id })
+      .select("id")
+      .single();
+    if (job.error) return NextResponse.json({ error: job.error.message }, { status: 400 });
+    const reportId = job.data.id as number;
+
+    try {
+      const listed = await svc.rpc("admin_list_attempts", { p_exam_id: examId });
+      if (listed.error) throw new Error(listed.error.message);
+      const submitted = ((listed.data ?? []) as ListedAttempt[]).filter((a) => a.completion_status === "submitted");
+
+      const details = new Map<string, { answers: Record<string, unknown> | null; device_info: Record<string, unknown> | null; pool_question_ids: string[] | null }>();
+      for (let i = 0; i < submitted.length; i += 200) {
+        const ids = submitted.slice(i, i + 200).map((a) => a.id);
+        const { data, error } = await svc
+          .from("exam_attempts")
+          .select("id, answers, device_info, pool_question_ids")
+          .in("id", ids);
+        if (error) throw new Error(error.message);
+        for (const row of data ?? []) details.set(row.id, row);
+      }
+
+      const poolIds = Array.from(new Set(Array.from(details.values()).flatMap((d) => d.pool_question_ids ?? [])));
+      let qQuery = svc.from("questions").select("id, exam_id, question_text, question_type, correct_answers");
+      qQuery = poolIds.length > 0
+        ? qQuery.or(`exam_id.eq.${examId},id.in.(${poolIds.join(",")})`)
+        : qQuery.eq("exam_id", examId);
+      const qRes = await qQuery;
+      if (qRes.error) throw new Error(qRes.error.message);
+      const questions = qRes.data ?? [];
+      const own = questions.filter((q) => q.exam_id === examId).map((q) => q.id);
+
+      const attempts: CollusionAttempt[] = submitted.map((a) => {
+        const d = details.get(a.id);
+        return {
+          id: a.id,
+          student_name: a.student_name,
+          ip_address: a.ip_address,
+          device_info: d?.device_info ?? null,
+          submitted_at: a.submitted_at,
+          answers: d?.answers ?? {},
+          question_ids: [...own, ...(d?.pool_question_ids ?? [])],
+        };
+      });
+
+      const report = detectCollusion(attempts, questions);
+      const done = await svc
+        .from("collusion_reports")
+        .update({
+          status: "completed",
+          attempt_count: report.attempts,
+          pair_count: report.pairs.length,
+          pairs: report.pairs,
+          completed_at: new Date().toISOString(),
+        })
+        .eq("id", reportId);
+      if (done.error) throw new Error(done.error.message);
+
+      await auditLog(admin.user_id, "collusion_report", {
+        exam_id: examId,
+        report_id: reportId,
+        attempts: report.attempts,
+        flagged_pairs: report.pairs.length,
+      });
+      return NextResponse.json({ report_id: reportId, attempts: report.attempts, compared_pairs: report.compared_pairs, flagged_pairs: report.pairs.length });
+    } catch (err) {
+      await svc
+        .from("collusion_reports")
+        .update({ status: "failed", error: err instanceof Error ? err.message : "unexpected_error", completed_at: new Date().toISOString() })
+        .eq("id", reportId);
+      throw err;
+    }
+  } catch (e: any) {
+    if (e instanceof Response) return e;
+    return NextResponse.json({ error: e?.message || "unexpected_error" }, { status: 500 });
+  }
+}
@@ -1,10 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
 import { requireAdmin, getBearerToken } from "@/lib/admin";
+import { PERMISSIONS } from "@/lib/auth/edge-permissions";
 import { supabaseServer } from "@/lib/supabase/server";
 
 export async function POST(req: NextRequest, ctx: { params: Promise<{ examId: string }> }) {
   try {
-    await requireAdmin(req);
+    await requireAdmin(req, PERMISSIONS.EXAMS_CREATE);
     const { examId } = await ctx.params;
     const token = await getBearerToken(req);
     const svc = supabaseServer(token || undefined);
@@ -39,7 +40,7 @@ export async function POST(req: NextRequest, ctx: { params: Promise<{ examId: st
     // Copy questions
     const { data: qs, error: qErr } = await svc
       .from("questions")
-      .select("id, question_text, question_type, options, correct_answers, points, required, order_index")
+      .select("id, question_text, question_type, options, correct_answers, points, required, order_index, explanation")
       .eq("exam_id", examId)
       .order("order_index", { ascending: true, nullsFirst: true });
     if (qErr) return NextResponse.json({ error: qErr.message }, { status: 400 });
@@ -55,6 +56,7 @@ export async function POST(req: NextRequest, ctx: { params: Promise<{ examId: st
         points: q.points ?? 1,
         required: q.required ?? false,
         order_index: q.order_index,
+        explanation: q.explanation ?? null,
       }));
       const { error: insQErr, count } = await svc
         .from("questions")
@@ -63,6 +65,16 @@ export async function POST(req: NextRequest, ctx: { params: Promise<{ examId: st
       inserted = count ?? rows.length;
     }
 
+    // Keep the copy assigned to the same groups
+    const { data: groups, error: gErr } = await svc.from("exam_groups").select("group_id").eq("exam_id", examId);
+    if (gErr) return NextResponse.json({ error: gErr.message }, { status: 400 });
+    if (groups && groups.length > 0) {
+      const { error: insGErr } = await svc
+        .from("exam_groups")
+        .insert(groups.map((g: { group_id: string }) => ({ exam_id: created.id, group_id: g.group_id })));
+      if (insGErr) return NextResponse.json({ error: insGErr.message }, { status: 400 });
+    }
+
     return NextResponse.json({ item: created, questions_copied: inserted });
   } catch (e: any) {
     if (e instanceof Response) return e;
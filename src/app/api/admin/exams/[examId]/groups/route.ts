@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabase/server";
+import { requireAdmin, getBearerToken } from "@/lib/admin";
+import { PERMISSIONS } from "@/lib/auth/edge-permissions";
+import { auditLog } from "@/lib/audit";
+
+// Groups the exam is assigned to; none means every student code may take it
+export async function GET(req: NextRequest, ctx: { params: Promise<{ examId: string }> }) {
+  try {
+    await requireAdmin(req, PERMISSIONS.EXAMS_VIEW);
+    const { examId } = await ctx.params;
+    const token = await getBearerToken(req);
+    const svc = supabaseServer(token || undefined);
+
+    const { data, error } = await svc.from("exam_groups").select("group_id").eq("exam_id", examId);
+    if (error) return NextResponse.json({ error: error.message }, { status: 400 });
+    return NextResponse.json({ group_ids: (data || []).map((r: { group_id: string }) => r.group_id) });
+  } catch (e: any) {
+    if (e instanceof Response) return e;
+    return NextResponse.json({ error: e?.message || "unexpected_error" }, { status: 500 });
+  }
+}
+
+export async function PUT(req: NextRequest, ctx: { params: Promise<{ examId: string }> }) {
+  try {
+    const admin = await requireAdmin(req, PERMISSIONS.EXAMS_EDIT);
+    const body = await req.json().catch(() => ({}));
+    const { examId } = await ctx.params;
+    if (!Array.isArray(body?.group_ids)) return NextResponse.json({ error: "group_ids_required" }, { status: 400 });
+    const groupIds = Array.from(new Set((body.group_ids as unknown[]).filter((id): id is string => typeof id === "string" && !!id)));
+
+    const token = await getBearerToken(req);
+    const svc = supabaseServer(token || undefined);
+
+    // Replace the assignment: drop groups no longer listed, then add the new ones
+    let del = svc.from("exam_groups").delete().eq("exam_id", examId);
+    if (groupIds.length > 0) del = del.not("group_id", "in", `(${groupIds.join(",")})`);
+    const delRes = await del;
+    if (delRes.error) return NextResponse.json({ error: delRes.error.message }, { status: 400 });
+    if (groupIds.length > 0) {
+      const { error } = await svc
+        .from("exam_groups")
+        .upsert(groupIds.map((group_id) => ({ exam_id: examId, group_id })), {
+          onConflict: "exam_id,group_id",
+          ignoreDuplicates: true,
+        });
+      if (error) return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    await auditLog(admin.user_id, "assign_exam_groups", { exam_id: examId, group_ids: groupIds });
+    return NextResponse.json({ group_ids: groupIds });
+  } catch (e: any) {
+    if (e instanceof Response) return e;
+    return NextResponse.json({ error: e?.message || "unexpected_error" }, { status: 500 });
+  }
+}
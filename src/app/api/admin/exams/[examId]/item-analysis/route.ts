@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdmin, getBearerToken } from "@/lib/admin";
+import { PERMISSIONS } from "@/lib/auth/edge-permissions";
+import { supabaseServer } from "@/lib/supabase/server";
+import { analyzeItems, type AnalysisAttempt, type AnalysisQuestion } from "@/lib/itemAnalysis";
+import { parseScoringPolicy } from "@/lib/scoring";
+
+export const dynamic = "force-dynamic";
+
+// Item analysis over the exam's submitted attempts, each graded against its own question revisions
+export async function GET(req: NextRequest, ctx: { params: Promise<{ examId: string }> }) {
+  try {
+    await requireAdmin(req, PERMISSIONS.ANALYTICS_VIEW);
+    const { examId } = await ctx.params;
+    const token = await getBearerToken(req);
+    const svc = supabaseServer(token || undefined);
+
+    const exam = await svc.from("exams").select("id, settings").eq("id", examId).maybeSingle();
+    if (exam.error) return NextResponse.json({ error: exam.error.message }, { status: 400 });
+    if (!exam.data) return NextResponse.json({ error: "exam_not_found" }, { status: 404 });
+
+    const att = await svc
+      .from("exam_attempts")
+      .select("id, answers, pool_question_ids, question_revisions, key_revisions")
+      .eq("exam_id", examId)
+      .eq("completion_status", "submitted");
+    if (att.error) return NextResponse.json({ error: att.error.message }, { status: 400 });
+    const attempts = att.data ?? [];
+
+    const poolIds = Array.from(new Set(attempts.flatMap((a) => (a.pool_question_ids ?? []) as string[])));
+    let qQuery = svc
+      .from("questions")
+      .select("id, exam_id, question_text, question_type, options, correct_answers, points, revision, order_index, created_at");
+    qQuery = poolIds.length > 0
+      ? qQuery.or(`exam_id.eq.${examId},id.in.(${poolIds.join(",")})`)
+      : qQuery.eq("exam_id", examId);
+    const qRes = await qQuery
+      .order("order_index", { ascending: true, nullsFirst: false })
+      .order("created_at", { ascending: true });
+    if (qRes.error) return NextResponse.json({ error: qRes.error.message }, { status: 400 });
+    const questions = qRes.data ?? [];
+    const live = new Map(questions.map((q) => [q.id, q]));
+
+    // Revisions attempts are graded against: a regrade's applied keys, else the ones shown
+    const graded = attempts.map((a) => ({
+      ...((a.question_revisions ?? {}) as Record<string, number>),
+      ...((a.key_revisions ?? {}) as Record<string, number>),
+    }));
+    const staleIds = Array.from(new Set(graded.flatMap((m) =>
+      Object.entries(m).filter(([id, rev]) => live.has(id) && live.get(id)!.revision !== rev).map(([id]) => id)
+    )));
+    const revRes = staleIds.length > 0
+      ? await svc
+          .from("question_revisions")
+          .select("question_id, revision, question_text, question_type, options, correct_answers, points")
+          .in("question_id", staleIds)
+      : { data: [], error: null };
+    if (revRes.error) return NextResponse.json({ error: revRes.error.message }, { status: 400 });
+    const revisions = new Map((revRes.data ?? []).map((r) => [`${r.question_id}:${r.revision}`, r]));
+
+    const input: AnalysisAttempt[] = attempts.map((a, i) => {
+      const drawn = new Set((a.pool_question_ids ?? []) as string[]);
+      const qs: AnalysisQuestion[] = questions
+        .filter((q) => q.exam_id === examId || drawn.has(q.id))
+        .map((q) => {
+          const rev = revisions.get(`${q.id}:${graded[i][q.id]}`);
+          return { ...q, ...(rev ?? {}), id: q.id };
+        });
+      return { id: a.id, answers: (a.answers ?? {}) as Record<string, unknown>, questions: qs };
+    });
+
+    const report = analyzeItems(input, parseScoringPolicy(exam.data.settings));
+    return NextResponse.json(report);
+  } catch (e: any) {
+    if (e instanceof Response) return e;
+    return NextResponse.json({ error: e?.message || "unexpected_error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdmin, getBearerToken } from "@/lib/admin";
+import { PERMISSIONS } from "@/lib/auth/edge-permissions";
+import { supabaseServer } from "@/lib/supabase/server";
+import { PROCTOR_EVENT_TYPES, summarizeProctorActivity, type ActivityEventRow } from "@/lib/proctoring";
+
+export const dynamic = "force-dynamic";
+
+type AttemptRow = {
+  id: string;
+  student_name: string | null;
+  ip_address: string | null;
+  last_ip: string | null;
+  started_at: string;
+  updated_at: string | null;
+  answers: Record<string, unknown> | null;
+  auto_save_data: { progress?: { answered?: number; total?: number } } | null;
+  paused_at: string | null;
+  extra_minutes: number | null;
+  students: { student_name: string | null; code: string | null } | null;
+};
+
+// In-progress attempts of one exam with what a proctor watches for
+export async function GET(req: NextRequest, ctx: { params: Promise<{ examId: string }> }) {
+  try {
+    await requireAdmin(req, PERMISSIONS.MONITORING_VIEW);
+    const { examId } = await ctx.params;
+    const token = await getBearerToken(req);
+    const svc = supabaseServer(token || undefined);
+
+    const exam = await svc.from("exams").select("id, title, duration_minutes, end_time").eq("id", examId).maybeSingle();
+    if (exam.error) return NextResponse.json({ error: exam.error.message }, { status: 400 });
+    if (!exam.data) return NextResponse.json({ error: "exam_not_found" }, { status: 404 });
+
+    const att = await svc
+      .from("exam_attempts")
+      .select("id, student_name, ip_address, last_ip, started_at, updated_at, answers, auto_save_data, paused_at, extra_minutes, students(student_name, code)")
+      .eq("exam_id", examId)
+      .eq("completion_status", "in_progress")
+      .is("submitted_at", null)
+      .order("started_at", { ascending: true })
+      .limit(500);
+    if (att.error) return NextResponse.json({ error: att.error.message }, { status: 400 });
+    const attempts = (att.data ?? []) as unknown as AttemptRow[];
+
+    const ids = attempts.map((a) => a.id);
+    const [events, deadlines] = await Promise.all([
+      ids.length > 0
+        ? svc
+            .from("attempt_activity_events")
+            .select("attempt_id, event_type, event_time, payload")
+            .in("attempt_id", ids)
+            .in("event_type", PROCTOR_EVENT_TYPES)
+        : Promise.resolve({ data: [], error: null }),
+      Promise.all(ids.map((id) => svc.rpc("attempt_deadline", { p_attempt_id: id }))),
+    ]);
+    if (events.error) return NextResponse.json({ error: events.error.message }, { status: 400 });
+
+    const byAttempt = new Map<string, ActivityEventRow[]>();
+    for (const ev of (events.data ?? []) as ActivityEventRow[]) {
+      const list = byAttempt.get(ev.attempt_id) ?? [];
+      list.push(ev);
+      byAttempt.set(ev.attempt_id, list);
+    }
+
+    const items = attempts.map((a, i) => {
+      const answered = a.auto_save_data?.progress?.answered ?? Object.keys(a.answers ?? {}).length;
+      return {
+        id: a.id,
+        student_name: a.students?.student_name ?? a.student_name ?? null,
+        student_code: a.students?.code ?? null,
+        ip_address: a.last_ip ?? a.ip_address ?? null,
+        started_at: a.started_at,
+        last_saved_at: a.updated_at,
+        answered,
+        total: a.auto_save_data?.progress?.total ?? null,
+        paused_at: a.paused_at,
+        extra_minutes: a.extra_minutes ?? 0,
+        deadline_at: (deadlines[i]?.data as string | null) ?? null,
+        ...summarizeProctorActivity(byAttempt.get(a.id) ?? []),
+      };
+    });
+
+    return NextResponse.json({ exam: exam.data, now: new Date().toISOString(), items });
+  } catch (e: any) {
+    if (e instanceof Response) return e;
+    return NextResponse.json({ error: e?.message || "unexpected_error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabase/server";
+import { requireAdmin, getBearerToken } from "@/lib/admin";
+import { PERMISSIONS } from "@/lib/auth/edge-permissions";
+
+export const dynamic = "force-dynamic";
+
+// Revisions of a question, newest first, with how many of the exam's attempts were shown each one
+export async function GET(req: NextRequest, ctx: { params: Promise<{ examId: string; questionId: string }> }) {
+  try {
+    await requireAdmin(req, PERMISSIONS.EXAMS_VIEW);
+    const { examId, questionId } = await ctx.params;
+    const token = await getBearerToken(req);
+    const svc = supabaseServer(token || undefined);
+
+    const { data, error } = await svc
+      .from("question_revisions")
+      .select("*")
+      .eq("question_id", questionId)
+      .order("revision", { ascending: false });
+    if (error) return NextResponse.json({ error: error.message }, { status: 400 });
+
+    const shown = await svc
+      .from("exam_attempts")
+      .select("question_revisions")
+      .eq("exam_id", examId);
+    if (shown.error) return NextResponse.json({ error: shown.error.message }, { status: 400 });
+
+    const counts = new Map<number, number>();
+    for (const row of shown.data ?? []) {
+      const rev = Number(row.question_revisions?.[questionId]);
+      if (Number.isFinite(rev) && rev > 0) counts.set(rev, (counts.get(rev) ?? 0) + 1);
+    }
+    const items = (data ?? []).map((r) => ({ ...r, attempt_count: counts.get(r.revision) ?? 0 }));
+    return NextResponse.json({ items });
+  } catch (e: any) {
+    if (e instanceof Response) return e;
+    return NextResponse.json({ error: e?.message || "unexpected_error" }, { status: 500 });
+  }
+}
@@ -1,10 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
 import { supabaseServer } from "@/lib/supabase/server";
 import { requireAdmin, getBearerToken } from "@/lib/admin";
+import { PERMISSIONS } from "@/lib/auth/edge-permissions";
 
 export async function PATCH(req: NextRequest, ctx: { params: Promise<{ examId: string; questionId: string }> }) {
   try {
-    await requireAdmin(req);
+    await requireAdmin(req, PERMISSIONS.EXAMS_EDIT);
     const body = await req.json();
     const { examId, questionId } = await ctx.params;
     const token = await getBearerToken(req);
@@ -26,7 +27,7 @@ export async function PATCH(req: NextRequest, ctx: { params: Promise<{ examId: s
 
 export async function DELETE(req: NextRequest, ctx: { params: Promise<{ examId: string; questionId: string }> }) {
   try {
-    await requireAdmin(req);
+    await requireAdmin(req, PERMISSIONS.EXAMS_EDIT);
     const { examId, questionId } = await ctx.params;
     const token = await getBearerToken(req);
     const svc = supabaseServer(token || undefined);
@@ -1,10 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
 import { supabaseServer } from "@/lib/supabase/server";
 import { requireAdmin, getBearerToken } from "@/lib/admin";
+import { PERMISSIONS } from "@/lib/auth/edge-permissions";
 
 export async function GET(_req: NextRequest, ctx: { params: Promise<{ examId: string }> }) {
   try {
-    await requireAdmin(_req);
+    await requireAdmin(_req, PERMISSIONS.EXAMS_VIEW);
     const { examId } = await ctx.params;
     const token = await getBearerToken(_req);
     const svc = supabaseServer(token || undefined);
@@ -23,7 +24,7 @@ export async function GET(_req: NextRequest, ctx: { params: Promise<{ examId: st
 
 export async function POST(req: NextRequest, ctx: { params: Promise<{ examId: string }> }) {
   try {
-    await requireAdmin(req);
+    await requireAdmin(req, PERMISSIONS.EXAMS_EDIT);
     const body = await req.json();
     const { examId } = await ctx.params;
     const token = await getBearerToken(req);
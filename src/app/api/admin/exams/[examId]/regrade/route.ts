@@ -1,19 +1,24 @@
 import { NextRequest, NextResponse } from "next/server";
 import { requireAdmin } from "@/lib/admin";
+import { PERMISSIONS } from "@/lib/auth/edge-permissions";
 import { supabaseServer } from "@/lib/supabase/server";
 import { auditLog } from "@/lib/audit";
 
 export async function POST(req: NextRequest, ctx: { params: Promise<{ examId: string }> }) {
   try {
-    const admin = await requireAdmin(req);
+    const admin = await requireAdmin(req, PERMISSIONS.RESULTS_GRADE);
     const { examId } = await ctx.params;
     if (!examId) return NextResponse.json({ error: "missing_exam_id" }, { status: 400 });
 
+    // apply_latest: grade against the current question revisions instead of the ones students saw
+    const body = await req.json().catch(() => ({}));
+    const applyLatest = body?.apply_latest === true;
+
     const svc = supabaseServer();
-    const { data, error } = await svc.rpc("regrade_exam", { p_exam_id: examId });
+    const { data, error } = await svc.rpc("regrade_exam", { p_exam_id: examId, p_apply_latest: applyLatest });
     if (error) return NextResponse.json({ error: error.message }, { status: 400 });
 
-    await auditLog(admin.user_id, "regrade_exam", { exam_id: examId });
+    await auditLog(admin.user_id, "regrade_exam", { exam_id: examId, apply_latest: applyLatest });
     const row = Array.isArray(data) ? data[0] : data;
     return NextResponse.json({ ok: true, result: row });
   } catch (e: any) {
@@ -0,0 +1,307 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabase/server";
+import { requireAdmin, getBearerToken } from "@/lib/admin";
+import { PERMISSIONS } from "@/lib/auth/edge-permissions";
+import { auditLog } from "@/lib/audit";
+import { renderTemplate } from "@/lib/template";
+import { officialScore, parseAttemptPolicy } from "@/lib/attemptPolicy";
+import { getMessageProvider, isMessageChannel, messagingChannels, resolveRecipient } from "@/lib/messaging";
+import { enqueueMessageJob, processMessageQueue, type QueuedRecipient } from "@/lib/messaging/queue";
+import {
+  DEFAULT_RESULT_SUBJECT,
+  DEFAULT_RESULT_TEMPLATE,
+  isResultAudience,
+  resultTemplateVars,
+} from "@/lib/resultNotifications";
+import { isResultVisibility, resultVisibility } from "@/lib/resultRelease";
+import { isPracticeMode } from "@/lib/practice";
+
+const PAGE_SIZE = 1000;
+const INLINE_BUDGET_MS = 8000;
+
+type GradedAttempt = {
+  id: string;
+  student_id: string;
+  started_at: string | null;
+  exam_results: { score_percentage: number | null; final_score_percentage: number | null } | null;
+  students: {
+    code: string;
+    student_name: string | null;
+    mobile_number: string | null;
+    email: string | null;
+    guardian_name: string | null;
+    guardian_mobile: string | null;
+    guardian_email: string | null;
+  } | null;
+};
+
+// Every graded attempt by a known student, paged past the API's row limit
+async function loadGradedAttempts(svc: ReturnType<typeof supabaseServer>, examId: string): Promise<GradedAttempt[]> {
+  const out: GradedAttempt[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await svc
+      .from("exam_attempts")
+      .select(
+        `id, student_id, started_at,
+         exam_results!inner(score_percentage, final_score_percentage),
+         students(code, student_name, mobile_number, email, guardian_name, guardian_mobile, guardian_email)`
+      )
+      .eq("exam_id", examId)
+      .not("student_id", "is", null)
+      .order("id", { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw new Error(error.message);
+    out.push(...((data ?? []) as unknown as GradedAttempt[]));
+    if (!data || data.length < PAGE_SIZE) return out;
+  }
+}
+
+// The result message templates from app_settings, falling back to the defaults
+async function loadTemplates(svc: ReturnType<typeof supabaseServer>) {
+  const { data, error } = await svc
+    .from("app_settings")
+    .select("result_notification_template, result_notification_subject")
+    .limit(1)
+    .maybeSingle();
+  if (error && error.code !== "42P01") throw new Error(error.message);
+  return {
+    template: data?.result_notification_template?.trim() || DEFAULT_RESULT_TEMPLATE,
+    subject: data?.result_notification_subject?.trim() || DEFAULT_RESULT_SUBJECT,
+  };
+}
+
+const RELEASE_COLUMNS = "id, results_visibility, results_release_at, results_released_at";
+
+// Release settings, what students see now, the notification jobs queued for this exam, and the
+// channels that can send
+export async function GET(req: NextRequest, ctx: { params: Promise<{ examId: string }> }) {
+  try {
+    await requireAdmin(req, [PERMISSIONS.EXAMS_PUBLISH, PERMISSIONS.RESULTS_VIEW_ALL]);
+    const { examId } = await ctx.params;
+    const token = await getBearerToken(req);
+    const svc = supabaseServer(token || undefined);
+
+    const ex = await svc.from("exams").select(RELEASE_COLUMNS).eq("id", examId).maybeSingle();
+    if (ex.error) return NextResponse.json({ error: ex.error.message }, { status: 400 });
+    if (!ex.data) return NextResponse.json({ error: "not_found" }, { status: 404 });
+
+    const jobs = await svc
+      .from("message_job_summary")
+      .select("*")
+      .eq("exam_id", examId)
+      .order("created_at", { ascending: false });
+    if (jobs.error) return NextResponse.json({ error: jobs.error.message }, { status: 400 });
+
+    return NextResponse.json({
+      visibility: ex.data.results_visibility,
+      release_at: ex.data.results_release_at,
+      released_at: ex.data.results_released_at,
+      effective_visibility: resultVisibility(ex.data),
+      jobs: jobs.data ?? [],
+      channels: messagingChannels(),
+      ...(await loadTemplates(svc)),
+    });
+  } catch (e: any) {
+    if (e instanceof Response) return e;
+    return NextResponse.json({ error: e?.message || "unexpected_error" }, { status: 500 });
+  }
+}
+
+// Sets what students see and when: visibility (hidden, released, released_with_details) and an
+// optional release_at embargo. Hiding results, or embargoing them, clears the release.
+export async function PATCH(req: NextRequest, ctx: { params: Promise<{ examId: string }> }) {
+  try {
+    const admin = await requireAdmin(req, PERMISSIONS.EXAMS_PUBLISH);
+    const { examId } = await ctx.params;
+    const body = await req.json().catch(() => ({}));
+    if (!isResultVisibility(body?.visibility)) return NextResponse.json({ error: "invalid_visibility" }, { status: 400 });
+    const releaseAt = body?.release_at ? new Date(body.release_at) : null;
+    if (releaseAt && Number.isNaN(releaseAt.getTime())) {
+      return NextResponse.json({ error: "invalid_release_at" }, { status: 400 });
+    }
+
+    const token = await getBearerToken(req);
+    const svc = supabaseServer(token || undefined);
+    const ex = await svc.from("exams").select(RELEASE_COLUMNS).eq("id", examId).maybeSingle();
+    if (ex.error) return NextResponse.json({ error: ex.error.message }, { status: 400 });
+    if (!ex.data) return NextResponse.json({ error: "not_found" }, { status: 404 });
+
+    const next = {
+      results_visibility: body.visibility,
+      results_release_at: releaseAt ? releaseAt.toISOString() : null,
+    };
+    const visible = resultVisibility(next) !== "hidden";
+    const upd = await svc
+      .from("exams")
+      .update({
+        ...next,
+        results_released_at: visible ? ex.data.results_released_at ?? new Date().toISOString() : null,
+      })
+      .eq("id", examId)
+      .select(RELEASE_COLUMNS)
+      .single();
+    if (upd.error) return NextResponse.json({ error: upd.error.message }, { status: 400 });
+    await auditLog(admin.user_id, "update_result_release", {
+      exam_id: examId,
+      visibility: next.results_visibility,
+      release_at: next.results_release_at,
+      previous_visibility: ex.data.results_visibility,
+      previous_release_at: ex.data.results_release_at,
+    });
+
+    return NextResponse.json({
+      visibility: upd.data.results_visibility,
+      release_at: upd.data.results_release_at,
+      released_at: upd.data.results_released_at,
+      effective_visibility: resultVisibility(upd.data),
+    });
+  } catch (e: any) {
+    if (e instanceof Response) return e;
+    return NextResponse.json({ error: e?.message || "unexpected_error" }, { status: 500 });
+  }
+}
+
+// Releases the exam's results now (lifting any embargo) with the given visibility and, when a
+// channel is given, queues one message per graded student (and/or guardian) with the official
+// score under the exam's score policy. Releasing results that are already out needs resend: true
+// so a double click does not notify everyone twice.
+export async function POST(req: NextRequest, ctx: { params: Promise<{ examId: string }> }) {
+  try {
+    const admin = await requireAdmin(req, PERMISSIONS.EXAMS_PUBLISH);
+    const { examId } = await ctx.params;
+    const body = await req.json().catch(() => ({}));
+    const channel = body?.channel ?? null;
+    if (channel !== null && !isMessageChannel(channel)) {
+      return NextResponse.json({ error: "invalid_channel" }, { status: 400 });
+    }
+    const audience = body?.audience ?? "students";
+    if (!isResultAudience(audience)) return NextResponse.json({ error: "invalid_audience" }, { status: 400 });
+    const visibility = body?.visibility ?? null;
+    if (visibility !== null && (!isResultVisibility(visibility) || visibility === "hidden")) {
+      return NextResponse.json({ error: "invalid_visibility" }, { status: 400 });
+    }
+
+    const provider = channel ? getMessageProvider(channel) : null;
+    if (channel && !provider) return NextResponse.json({ error: "channel_not_configured" }, { status: 400 });
+
+    const token = await getBearerToken(req);
+    const svc = supabaseServer(token || undefined);
+    const ex = await svc
+      .from("exams")
+      .select("id, title, settings, results_visibility, results_release_at, results_released_at")
+      .eq("id", examId)
+      .maybeSingle();
+    if (ex.error) return NextResponse.json({ error: ex.error.message }, { status: 400 });
+    if (!ex.data) return NextResponse.json({ error: "not_found" }, { status: 404 });
+    const wasVisible = resultVisibility(ex.data) !== "hidden";
+    if (wasVisible && ex.data.results_released_at && body?.resend !== true) {
+      return NextResponse.json({ error: "already_released", released_at: ex.data.results_released_at }, { status: 409 });
+    }
+
+    let jobId: string | null = null;
+    const recipients: QueuedRecipient[] = [];
+    const skipped: { student_id: string; code: string; audience: "student" | "guardian"; reason: string }[] = [];
+    if (channel && provider) {
+      // Practice exams are ungraded, so there is no score to notify anyone of
+      const attempts = isPracticeMode(ex.data.settings) ? [] : await loadGradedAttempts(svc, examId);
+      if (attempts.length === 0) return NextResponse.json({ error: "no_results" }, { status: 400 });
+      const { template, subject } = await loadTemplates(svc);
+      const policy = parseAttemptPolicy(ex.data.settings);
+      const byStudent = new Map<string, GradedAttempt[]>();
+      for (const a of attempts) {
+        const list = byStudent.get(a.student_id) ?? [];
+        list.push(a);
+        byStudent.set(a.student_id, list);
+      }
+
+      for (const [studentId, list] of byStudent) {
+        const student = list[0].students;
+        if (!student) continue;
+        const official = officialScore(
+          list.map((a) => {
+            const v = a.exam_results?.final_score_percentage ?? a.exam_results?.score_percentage;
+            return { id: a.id, started_at: a.started_at, score: v === null || v === undefined ? null : Number(v) };
+          }),
+          policy.score_policy
+        );
+        if (official.score === null) continue;
+
+        const vars = resultTemplateVars(
+          { name: student.student_name, code: student.code, guardian_name: student.guardian_name },
+          ex.data,
+          official.score
+        );
+        const targets: { audience: "student" | "guardian"; mobile: string | null; email: string | null }[] = [];
+        if (audience !== "guardians") {
+          targets.push({ audience: "student", mobile: student.mobile_number, email: student.email });
+        }
+        if (audience !== "students") {
+          targets.push({ audience: "guardian", mobile: student.guardian_mobile, email: student.guardian_email });
+        }
+        const sentTo = new Set<string>();
+        for (const t of targets) {
+          const target = resolveRecipient(channel, t);
+          if ("reason" in target) {
+            skipped.push({ student_id: studentId, code: student.code, audience: t.audience, reason: target.reason });
+            continue;
+          }
+          // A guardian sharing the student's number gets the message once
+          if (sentTo.has(target.to)) continue;
+          sentTo.add(target.to);
+          recipients.push({ student_id: studentId, recipient: target.to, body: renderTemplate(template, vars) });
+        }
+      }
+
+      if (recipients.length > 0) {
+        jobId = await enqueueMessageJob(svc, {
+          channel,
+          provider: provider.name,
+          template,
+          subject: channel === "email" ? renderTemplate(subject, { exam_title: ex.data.title }) : null,
+          created_by: admin.user_id,
+          exam_id: examId,
+          recipients,
+        });
+      }
+    }
+
+    // Results that were hidden default to full details; visible ones keep their level
+    const nextVisibility =
+      visibility ?? (ex.data.results_visibility === "hidden" ? "released_with_details" : ex.data.results_visibility);
+    const upd = await svc
+      .from("exams")
+      .update({
+        results_visibility: nextVisibility,
+        results_release_at: null,
+        results_released_at: new Date().toISOString(),
+      })
+      .eq("id", examId)
+      .select("results_released_at")
+      .single();
+    if (upd.error) return NextResponse.json({ error: upd.error.message }, { status: 400 });
+    await auditLog(admin.user_id, "release_results", {
+      exam_id: examId,
+      visibility: nextVisibility,
+      previous_visibility: ex.data.results_visibility,
+      resend: wasVisible && !!ex.data.results_released_at,
+      channel,
+      audience,
+      job_id: jobId,
+      recipient_count: recipients.length,
+      skipped_count: skipped.length,
+    });
+
+    const processed = jobId ? await processMessageQueue(supabaseServer(), { timeBudgetMs: INLINE_BUDGET_MS }) : null;
+    return NextResponse.json({
+      visibility: nextVisibility,
+      released_at: upd.data.results_released_at,
+      job_id: jobId,
+      queued: recipients.length,
+      skipped,
+      processed,
+    });
+  } catch (e: any) {
+    if (e instanceof Response) return e;
+    return NextResponse.json({ error: e?.message || "unexpected_error" }, { status: 500 });
+  }
+}
@@ -1,10 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
 import { supabaseServer } from "@/lib/supabase/server";
 import { requireAdmin, getBearerToken } from "@/lib/admin";
+import { PERMISSIONS } from "@/lib/auth/edge-permissions";
 
 export async function GET(_req: NextRequest, ctx: { params: Promise<{ examId: string }> }) {
   try {
-    await requireAdmin(_req);
+    await requireAdmin(_req, PERMISSIONS.EXAMS_VIEW);
     const { examId } = await ctx.params;
     const token = await getBearerToken(_req);
     const svc = supabaseServer(token || undefined);
@@ -18,7 +19,7 @@ export async function GET(_req: NextRequest, ctx: { params: Promise<{ examId: st
 
 export async function PATCH(req: NextRequest, ctx: { params: Promise<{ examId: string }> }) {
   try {
-    await requireAdmin(req);
+    await requireAdmin(req, PERMISSIONS.EXAMS_EDIT);
     const body = await req.json();
     const { examId } = await ctx.params;
     const token = await getBearerToken(req);
@@ -26,6 +27,10 @@ export async function PATCH(req: NextRequest, ctx: { params: Promise<{ examId: s
 
     // Multiple published exams are allowed; do not auto-archive other exams on update.
 
+    // Result release state only changes through release-results, which audits it; the edit form
+    // sends back the whole exam and would otherwise undo a release made meanwhile
+    for (const key of ["results_visibility", "results_release_at", "results_released_at"]) delete body[key];
+
     const { data, error } = await svc
       .from("exams")
       .update(body)
@@ -42,7 +47,7 @@ export async function PATCH(req: NextRequest, ctx: { params: Promise<{ examId: s
 
 export async function DELETE(req: NextRequest, ctx: { params: Promise<{ examId: string }> }) {
   try {
-    await requireAdmin(req);
+    await requireAdmin(req, PERMISSIONS.EXAMS_DELETE);
     const { examId } = await ctx.params;
     const token = await getBearerToken(req);
     const svc = supabaseServer(token || undefined);
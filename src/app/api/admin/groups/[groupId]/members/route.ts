@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabase/server";
+import { requireAdmin, getBearerToken } from "@/lib/admin";
+import { PERMISSIONS } from "@/lib/auth/edge-permissions";
+import { auditLog } from "@/lib/audit";
+
+// Bulk membership change: { student_ids: string[], action: "add" | "remove" }
+export async function POST(req: NextRequest, ctx: { params: Promise<{ groupId: string }> }) {
+  try {
+    const admin = await requireAdmin(req, PERMISSIONS.STUDENTS_EDIT);
+    const body = await req.json().catch(() => ({}));
+    const { groupId } = await ctx.params;
+    const action = body?.action === "remove" ? "remove" : "add";
+    const studentIds: string[] = Array.isArray(body?.student_ids)
+      ? Array.from(new Set((body.student_ids as unknown[]).filter((id): id is string => typeof id === "string" && !!id)))
+      : [];
+    if (studentIds.length === 0) return NextResponse.json({ error: "students_required" }, { status: 400 });
+
+    const token = await getBearerToken(req);
+    const svc = supabaseServer(token || undefined);
+
+    if (action === "add") {
+      const { error } = await svc
+        .from("student_group_members")
+        .upsert(studentIds.map((student_id) => ({ group_id: groupId, student_id })), {
+          onConflict: "group_id,student_id",
+          ignoreDuplicates: true,
+        });
+      if (error) return NextResponse.json({ error: error.message }, { status: 400 });
+    } else {
+      const { error } = await svc
+        .from("student_group_members")
+        .delete()
+        .eq("group_id", groupId)
+        .in("student_id", studentIds);
+      if (error) return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    await auditLog(admin.user_id, action === "add" ? "add_group_members" : "remove_group_members", {
+      group_id: groupId,
+      count: studentIds.length,
+    });
+    return NextResponse.json({ ok: true, count: studentIds.length });
+  } catch (e: any) {
+    if (e instanceof Response) return e;
+    return NextResponse.json({ error: e?.message || "unexpected_error" }, { status: 500 });
+  }
+}
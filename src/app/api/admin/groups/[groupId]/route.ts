@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabase/server";
+import { requireAdmin, getBearerToken } from "@/lib/admin";
+import { PERMISSIONS } from "@/lib/auth/edge-permissions";
+import { auditLog } from "@/lib/audit";
+
+export async function PATCH(req: NextRequest, ctx: { params: Promise<{ groupId: string }> }) {
+  try {
+    await requireAdmin(req, PERMISSIONS.STUDENTS_EDIT);
+    const body = await req.json();
+    const { groupId } = await ctx.params;
+    const token = await getBearerToken(req);
+    const svc = supabaseServer(token || undefined);
+
+    const patch: Record<string, unknown> = {};
+    if (typeof body?.name === "string") {
+      if (!body.name.trim()) return NextResponse.json({ error: "name_required" }, { status: 400 });
+      patch.name = body.name.trim();
+    }
+    if (body?.description !== undefined) {
+      patch.description = typeof body.description === "string" && body.description.trim() ? body.description.trim() : null;
+    }
+    const { data, error } = await svc
+      .from("student_groups")
+      .update(patch)
+      .eq("id", groupId)
+      .select("*")
+      .single();
+    if (error) {
+      if (error.code === "23505") return NextResponse.json({ error: "group_name_taken" }, { status: 409 });
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    return NextResponse.json({ item: data });
+  } catch (e: any) {
+    if (e instanceof Response) return e;
+    return NextResponse.json({ error: e?.message || "unexpected_error" }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: NextRequest, ctx: { params: Promise<{ groupId: string }> }) {
+  try {
+    const admin = await requireAdmin(req, PERMISSIONS.STUDENTS_DELETE);
+    const { groupId } = await ctx.params;
+    const token = await getBearerToken(req);
+    const svc = supabaseServer(token || undefined);
+
+    // Memberships and exam assignments cascade. An exam left without groups is open to every code again.
+    const { error } = await svc.from("student_groups").delete().eq("id", groupId);
+    if (error) return NextResponse.json({ error: error.message }, { status: 400 });
+
+    await auditLog(admin.user_id, "delete_student_group", { group_id: groupId });
+    return NextResponse.json({ ok: true });
+  } catch (e: any) {
+    if (e instanceof Response) return e;
+    return NextResponse.json({ error: e?.message || "unexpected_error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabase/server";
+import { requireAdmin, getBearerToken } from "@/lib/admin";
+import { PERMISSIONS } from "@/lib/auth/edge-permissions";
+import { auditLog } from "@/lib/audit";
+
+export async function GET(req: NextRequest) {
+  try {
+    await requireAdmin(req, [PERMISSIONS.STUDENTS_VIEW, PERMISSIONS.EXAMS_VIEW]);
+    const token = await getBearerToken(req);
+    const svc = supabaseServer(token || undefined);
+
+    const { data, error } = await svc
+      .from("student_groups")
+      .select("*, student_group_members(count)")
+      .order("name", { ascending: true });
+    if (error) return NextResponse.json({ error: error.message }, { status: 400 });
+
+    const items = (data || []).map(({ student_group_members, ...group }) => ({
+      ...group,
+      member_count: (student_group_members as { count: number }[] | null)?.[0]?.count ?? 0,
+    }));
+    return NextResponse.json({ items });
+  } catch (e: any) {
+    if (e instanceof Response) return e;
+    return NextResponse.json({ error: e?.message || "unexpected_error" }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const admin = await requireAdmin(req, PERMISSIONS.STUDENTS_CREATE);
+    const body = await req.json();
+    const name = typeof body?.name === "string" ? body.name.trim() : "";
+    const description = typeof body?.description === "string" && body.description.trim() ? body.description.trim() : null;
+    if (!name) return NextResponse.json({ error: "name_required" }, { status: 400 });
+
+    const token = await getBearerToken(req);
+    const svc = supabaseServer(token || undefined);
+    const { data, error } = await svc
+      .from("student_groups")
+      .insert({ name, description })
+      .select("*")
+      .single();
+    if (error) {
+      if (error.code === "23505") return NextResponse.json({ error: "group_name_taken" }, { status: 409 });
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    await auditLog(admin.user_id, "create_student_group", { group_id: data.id, name: data.name });
+    return NextResponse.json({ item: { ...data, member_count: 0 } });
+  } catch (e: any) {
+    if (e instanceof Response) return e;
+    return NextResponse.json({ error: e?.message || "unexpected_error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabase/server";
+import { requireAdmin, getBearerToken } from "@/lib/admin";
+import { PERMISSIONS } from "@/lib/auth/edge-permissions";
+import { auditLog } from "@/lib/audit";
+import { processMessageQueue } from "@/lib/messaging/queue";
+
+// Puts a job's failed deliveries back in the queue with a fresh set of attempts
+export async function POST(req: NextRequest, ctx: { params: Promise<{ jobId: string }> }) {
+  try {
+    const admin = await requireAdmin(req, PERMISSIONS.STUDENTS_MANAGE);
+    const { jobId } = await ctx.params;
+    const token = await getBearerToken(req);
+    const svc = supabaseServer(token || undefined);
+
+    const now = new Date().toISOString();
+    const { data, error } = await svc
+      .from("message_deliveries")
+      .update({ status: "pending", attempts: 0, next_attempt_at: now, updated_at: now })
+      .eq("job_id", jobId)
+      .eq("status", "failed")
+      .select("id");
+    if (error) return NextResponse.json({ error: error.message }, { status: 400 });
+
+    const count = data?.length ?? 0;
+    if (count > 0) await auditLog(admin.user_id, "retry_messages", { job_id: jobId, count });
+    const processed = count > 0 ? await processMessageQueue(supabaseServer(), { timeBudgetMs: 8000 }) : null;
+    return NextResponse.json({ count, processed });
+  } catch (e: any) {
+    if (e instanceof Response) return e;
+    return NextResponse.json({ error: e?.message || "unexpected_error" }, { status: 500 });
+  }
+}
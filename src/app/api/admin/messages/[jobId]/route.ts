@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabase/server";
+import { requireAdmin, getBearerToken } from "@/lib/admin";
+import { PERMISSIONS } from "@/lib/auth/edge-permissions";
+import type { MessageDelivery } from "@/lib/types";
+
+// Per-recipient delivery status of a message job
+export async function GET(req: NextRequest, ctx: { params: Promise<{ jobId: string }> }) {
+  try {
+    await requireAdmin(req, [PERMISSIONS.STUDENTS_MANAGE, PERMISSIONS.STUDENTS_VIEW]);
+    const { jobId } = await ctx.params;
+    const token = await getBearerToken(req);
+    const svc = supabaseServer(token || undefined);
+
+    const { data, error } = await svc
+      .from("message_deliveries")
+      .select("id, job_id, student_id, recipient, status, attempts, next_attempt_at, last_error, sent_at, students(code, student_name)")
+      .eq("job_id", jobId)
+      .order("id", { ascending: true });
+    if (error) return NextResponse.json({ error: error.message }, { status: 400 });
+
+    const items: MessageDelivery[] = (data ?? []).map(({ students, ...d }) => {
+      const s = (Array.isArray(students) ? students[0] : students) as { code: string; student_name: string | null } | null;
+      return { ...d, student_code: s?.code ?? null, student_name: s?.student_name ?? null } as MessageDelivery;
+    });
+    return NextResponse.json({ items });
+  } catch (e: any) {
+    if (e instanceof Response) return e;
+    return NextResponse.json({ error: e?.message || "unexpected_error" }, { status: 500 });
+  }
+}
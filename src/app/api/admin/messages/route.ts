@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabase/server";
+import { requireAdmin, getBearerToken } from "@/lib/admin";
+import { PERMISSIONS } from "@/lib/auth/edge-permissions";
+import { auditLog } from "@/lib/audit";
+import { renderTemplate } from "@/lib/template";
+import { getMessageProvider, isMessageChannel, messagingChannels, resolveRecipient } from "@/lib/messaging";
+import { enqueueMessageJob, processMessageQueue, type QueuedRecipient } from "@/lib/messaging/queue";
+
+const MAX_RECIPIENTS = 5000;
+// Student ids per lookup, to keep the request URL short
+const LOOKUP_CHUNK = 200;
+// Sending started inline so small jobs finish before the response; the cron pass does the rest
+const INLINE_BUDGET_MS = 8000;
+
+type StudentContact = {
+  id: string;
+  code: string;
+  student_name: string | null;
+  mobile_number: string | null;
+  email: string | null;
+};
+
+// Recent jobs with delivery counts, and which channels have a provider
+export async function GET(req: NextRequest) {
+  try {
+    await requireAdmin(req, [PERMISSIONS.STUDENTS_MANAGE, PERMISSIONS.STUDENTS_VIEW]);
+    const token = await getBearerToken(req);
+    const svc = supabaseServer(token || undefined);
+
+    const { data, error } = await svc
+      .from("message_job_summary")
+      .select("*")
+      .order("created_at", { ascending: false })
+      .limit(20);
+    if (error) return NextResponse.json({ error: error.message }, { status: 400 });
+    return NextResponse.json({ items: data ?? [], channels: messagingChannels() });
+  } catch (e: any) {
+    if (e instanceof Response) return e;
+    return NextResponse.json({ error: e?.message || "unexpected_error" }, { status: 500 });
+  }
+}
+
+// Queues one message per student rendered from the template ({name}, {code}, {mobile}, {email})
+export async function POST(req: NextRequest) {
+  try {
+    const admin = await requireAdmin(req, PERMISSIONS.STUDENTS_MANAGE);
+    const body = await req.json().catch(() => ({}));
+    const channel = body?.channel;
+    if (!isMessageChannel(channel)) return NextResponse.json({ error: "invalid_channel" }, { status: 400 });
+    const template = typeof body?.template === "string" ? body.template.trim() : "";
+    if (!template) return NextResponse.json({ error: "template_required" }, { status: 400 });
+    const subject = typeof body?.subject === "string" && body.subject.trim() ? body.subject.trim() : null;
+    if (channel === "email" && !subject) return NextResponse.json({ error: "subject_required" }, { status: 400 });
+    const ids: string[] = Array.isArray(body?.student_ids)
+      ? Array.from(new Set(body.student_ids.filter((v: unknown): v is string => typeof v === "string")))
+      : [];
+    if (ids.length === 0) return NextResponse.json({ error: "student_ids_required" }, { status: 400 });
+    if (ids.length > MAX_RECIPIENTS) {
+      return NextResponse.json({ error: "too_many_recipients", max: MAX_RECIPIENTS }, { status: 400 });
+    }
+
+    const provider = getMessageProvider(channel);
+    if (!provider) return NextResponse.json({ error: "channel_not_configured" }, { status: 400 });
+
+    const token = await getBearerToken(req);
+    const svc = supabaseServer(token || undefined);
+    const students: StudentContact[] = [];
+    for (let i = 0; i < ids.length; i += LOOKUP_CHUNK) {
+      const { data, error } = await svc
+        .from("students")
+        .select("id, code, student_name, mobile_number, email")
+        .in("id", ids.slice(i, i + LOOKUP_CHUNK));
+      if (error) return NextResponse.json({ error: error.message }, { status: 400 });
+      students.push(...((data ?? []) as StudentContact[]));
+    }
+
+    const recipients: QueuedRecipient[] = [];
+    const skipped: { student_id: string; code: string; reason: string }[] = [];
+    for (const s of students) {
+      const target = resolveRecipient(channel, { mobile: s.mobile_number, email: s.email });
+      if ("reason" in target) {
+        skipped.push({ student_id: s.id, code: s.code, reason: target.reason });
+        continue;
+      }
+      recipients.push({
+        student_id: s.id,
+        recipient: target.to,
+        body: renderTemplate(template, { name: s.student_name, code: s.code, mobile: s.mobile_number, email: s.email }),
+      });
+    }
+    if (recipients.length === 0) {
+      return NextResponse.json({ error: "no_reachable_students", skipped }, { status: 400 });
+    }
+
+    const jobId = await enqueueMessageJob(svc, {
+      channel,
+      provider: provider.name,
+      template,
+      subject,
+      created_by: admin.user_id,
+      recipients,
+    });
+    await auditLog(admin.user_id, "queue_messages", {
+      job_id: jobId,
+      channel,
+      provider: provider.name,
+      recipient_count: recipients.length,
+      skipped_count: skipped.length,
+    });
+
+    const processed = await processMessageQueue(supabaseServer(), { timeBudgetMs: INLINE_BUDGET_MS });
+    return NextResponse.json({ job_id: jobId, queued: recipients.length, skipped, processed });
+  } catch (e: any) {
+    if (e instanceof Response) return e;
+    return NextResponse.json({ error: e?.message || "unexpected_error" }, { status: 500 });
+  }
+}
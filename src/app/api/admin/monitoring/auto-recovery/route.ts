@@ -5,6 +5,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { requireAdmin } from '@/lib/admin';
+import { PERMISSIONS } from '@/lib/auth/edge-permissions';
 import { 
   autoRecoverySystem, 
   defaultRecoveryConfigs, 
@@ -18,7 +19,7 @@ import { loadBalancer } from '@/lib/monitoring/load-balancer';
 
 export async function GET(request: NextRequest) {
   try {
-    await requireAdmin(request);
+    await requireAdmin(request, PERMISSIONS.SYSTEM_VIEW);
 
     const { searchParams } = new URL(request.url);
     const functionName = searchParams.get('function');
@@ -97,7 +98,7 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
-    await requireAdmin(request);
+    await requireAdmin(request, PERMISSIONS.SYSTEM_MANAGE);
 
     const body = await request.json();
     const { action, function_name, config } = body;
@@ -195,7 +196,7 @@ export async function POST(request: NextRequest) {
 
 export async function PUT(request: NextRequest) {
   try {
-    await requireAdmin(request);
+    await requireAdmin(request, PERMISSIONS.SYSTEM_MANAGE);
 
     const body = await request.json();
     const { function_name, config } = body;
@@ -242,7 +243,7 @@ export async function PUT(request: NextRequest) {
 
 export async function DELETE(request: NextRequest) {
   try {
-    await requireAdmin(request);
+    await requireAdmin(request, PERMISSIONS.SYSTEM_MANAGE);
 
     const { searchParams } = new URL(request.url);
     const functionName = searchParams.get('function');
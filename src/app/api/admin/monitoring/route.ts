@@ -1,10 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
 import { requireAdmin } from "@/lib/admin";
+import { PERMISSIONS } from "@/lib/auth/edge-permissions";
 import { supabaseServer } from "@/lib/supabase/server";
+import { accommodationMinutes, attemptDeadline, describeAccommodation } from "@/lib/timeAccommodations";
 
 export async function GET(req: NextRequest) {
   try {
-    await requireAdmin(req);
+    await requireAdmin(req, PERMISSIONS.MONITORING_VIEW);
     const svc = supabaseServer();
 
     const now = new Date();
@@ -14,7 +16,7 @@ export async function GET(req: NextRequest) {
     // Active attempts (started but not submitted, last 2h window)
     const activeQ = await svc
       .from("exam_attempts")
-      .select("id, exam_id, ip_address, started_at, students(student_name, code)")
+      .select("id, exam_id, ip_address, started_at, extra_minutes, students(student_name, code, time_multiplier, extra_time_minutes)")
       .is("submitted_at", null)
       .gte("started_at", iso2h)
       .order("started_at", { ascending: false })
@@ -42,7 +44,7 @@ export async function GET(req: NextRequest) {
     const examIds = Array.from(new Set([...active.map(a => a.exam_id), ...recent.map(r => r.exam_id)].filter(Boolean)));
     let examMap: Record<string, any> = {};
     if (examIds.length) {
-      const ex = await svc.from("exams").select("id, title").in("id", examIds);
+      const ex = await svc.from("exams").select("id, title, duration_minutes, end_time").in("id", examIds);
       if (ex.error) return NextResponse.json({ error: ex.error.message }, { status: 400 });
       examMap = Object.fromEntries((ex.data ?? []).map((e: any) => [e.id, e]));
     }
@@ -63,14 +65,27 @@ export async function GET(req: NextRequest) {
     })).sort((a, b) => b.count - a.count);
 
     // Decorate lists with titles
-    const active_list = active.map((a) => ({
-      id: a.id,
-      exam_id: a.exam_id,
-      exam_title: examMap[a.exam_id]?.title ?? "Unknown",
-      student_name: (a as any)?.students?.student_name ?? (a as any)?.student_name ?? null,
-      ip_address: a.ip_address ?? null,
-      started_at: a.started_at,
-    }));
+    const active_list = active.map((a) => {
+      const exam = examMap[a.exam_id];
+      const extraMinutes = accommodationMinutes(exam?.duration_minutes, a.students) + (a.extra_minutes ?? 0);
+      const deadline = attemptDeadline({
+        startedAt: a.started_at,
+        durationMinutes: exam?.duration_minutes,
+        endTime: exam?.end_time,
+        extraMinutes,
+      });
+      return {
+        id: a.id,
+        exam_id: a.exam_id,
+        exam_title: exam?.title ?? "Unknown",
+        student_name: (a as any)?.students?.student_name ?? (a as any)?.student_name ?? null,
+        ip_address: a.ip_address ?? null,
+        started_at: a.started_at,
+        accommodation: describeAccommodation(a.students) || null,
+        extension_minutes: a.extra_minutes ?? 0,
+        deadline_at: deadline !== null ? new Date(deadline).toISOString() : null,
+      };
+    });
 
     const recent_list = recent.map((r) => ({
       id: r.id,
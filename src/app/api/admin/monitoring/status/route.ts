@@ -4,11 +4,15 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { checkAdmin } from '@/lib/admin';
+import { PERMISSIONS } from '@/lib/auth/edge-permissions';
 import { getMonitoringInstance } from '@/lib/monitoring/monitoring-init';
 import { healthMonitor } from '@/lib/monitoring/health-monitor';
 import { alertingSystem } from '@/lib/monitoring/alerting-system';
 
 export async function GET(request: NextRequest) {
+  const denied = await checkAdmin(request, PERMISSIONS.SYSTEM_VIEW);
+  if (denied) return denied;
   try {
     const monitoringInstance = getMonitoringInstance();
     
@@ -64,6 +68,8 @@ export async function GET(request: NextRequest) {
 }
 
 export async function POST(request: NextRequest) {
+  const denied = await checkAdmin(request, PERMISSIONS.SYSTEM_MANAGE);
+  if (denied) return denied;
   try {
     const body = await request.json();
     const { action, function_name, rule_id } = body;
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabase/server";
+import { requireAdmin, getBearerToken } from "@/lib/admin";
+import { PERMISSIONS } from "@/lib/auth/edge-permissions";
+
+export async function GET(req: NextRequest, ctx: { params: Promise<{ poolId: string }> }) {
+  try {
+    await requireAdmin(req, PERMISSIONS.EXAMS_VIEW);
+    const { poolId } = await ctx.params;
+    const token = await getBearerToken(req);
+    const svc = supabaseServer(token || undefined);
+    const { data, error } = await svc
+      .from("questions")
+      .select("*")
+      .eq("pool_id", poolId)
+      .order("order_index", { ascending: true, nullsFirst: true });
+    if (error) return NextResponse.json({ error: error.message }, { status: 400 });
+    return NextResponse.json({ items: data });
+  } catch (e: any) {
+    if (e instanceof Response) return e;
+    return NextResponse.json({ error: e?.message || "unexpected_error" }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest, ctx: { params: Promise<{ poolId: string }> }) {
+  try {
+    await requireAdmin(req, PERMISSIONS.EXAMS_EDIT);
+    const body = await req.json();
+    const { poolId } = await ctx.params;
+    const token = await getBearerToken(req);
+    const svc = supabaseServer(token || undefined);
+
+    // Pool questions never belong to an exam directly
+    if (Array.isArray(body?.items)) {
+      const toInsert = body.items.map((q: any) => ({ ...q, exam_id: null, pool_id: poolId }));
+      const { data, error } = await svc.from("questions").insert(toInsert).select("*");
+      if (error) return NextResponse.json({ error: error.message }, { status: 400 });
+      return NextResponse.json({ items: data });
+    } else {
+      const q = { ...body, exam_id: null, pool_id: poolId };
+      const { data, error } = await svc.from("questions").insert(q).select("*").single();
+      if (error) return NextResponse.json({ error: error.message }, { status: 400 });
+      return NextResponse.json({ item: data });
+    }
+  } catch (e: any) {
+    if (e instanceof Response) return e;
+    return NextResponse.json({ error: e?.message || "unexpected_error" }, { status: 500 });
+  }
+}
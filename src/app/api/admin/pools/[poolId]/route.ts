@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabase/server";
+import { requireAdmin, getBearerToken } from "@/lib/admin";
+import { PERMISSIONS } from "@/lib/auth/edge-permissions";
+import { auditLog } from "@/lib/audit";
+import { QuestionPoolManager } from "@/lib/questionPools";
+
+export async function GET(req: NextRequest, ctx: { params: Promise<{ poolId: string }> }) {
+  try {
+    await requireAdmin(req, PERMISSIONS.EXAMS_VIEW);
+    const { poolId } = await ctx.params;
+    const pool = await QuestionPoolManager.getPool(poolId);
+    if (!pool) return NextResponse.json({ error: "not_found" }, { status: 404 });
+
+    return NextResponse.json({
+      item: pool,
+      validation: QuestionPoolManager.validatePool(pool),
+      analysis: QuestionPoolManager.analyzePoolPerformance(pool),
+    });
+  } catch (e: any) {
+    if (e instanceof Response) return e;
+    return NextResponse.json({ error: e?.message || "unexpected_error" }, { status: 500 });
+  }
+}
+
+export async function PATCH(req: NextRequest, ctx: { params: Promise<{ poolId: string }> }) {
+  try {
+    await requireAdmin(req, PERMISSIONS.EXAMS_EDIT);
+    const body = await req.json();
+    const { poolId } = await ctx.params;
+    const token = await getBearerToken(req);
+    const svc = supabaseServer(token || undefined);
+
+    const { name, description, category, tags } = body || {};
+    const { data, error } = await svc
+      .from("question_pools")
+      .update({ name, description, category, tags, updated_at: new Date().toISOString() })
+      .eq("id", poolId)
+      .select("*")
+      .single();
+    if (error) return NextResponse.json({ error: error.message }, { status: 400 });
+    return NextResponse.json({ item: data });
+  } catch (e: any) {
+    if (e instanceof Response) return e;
+    return NextResponse.json({ error: e?.message || "unexpected_error" }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: NextRequest, ctx: { params: Promise<{ poolId: string }> }) {
+  try {
+    const admin = await requireAdmin(req, PERMISSIONS.EXAMS_DELETE);
+    const { poolId } = await ctx.params;
+    const token = await getBearerToken(req);
+    const svc = supabaseServer(token || undefined);
+
+    // Pool questions cascade with the pool; attempts keep their drawn ids for history
+    const { error } = await svc.from("question_pools").delete().eq("id", poolId);
+    if (error) return NextResponse.json({ error: error.message }, { status: 400 });
+
+    await auditLog(admin.user_id, "delete_question_pool", { pool_id: poolId });
+    return NextResponse.json({ ok: true });
+  } catch (e: any) {
+    if (e instanceof Response) return e;
+    return NextResponse.json({ error: e?.message || "unexpected_error" }, { status: 500 });
+  }
+}
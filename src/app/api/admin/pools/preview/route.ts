@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/admin";
+import { PERMISSIONS } from "@/lib/auth/edge-permissions";
+import { QuestionPoolManager } from "@/lib/questionPools";
+
+// Preview the paper a student would draw for a given exams.settings.question_pool.
+// Passing an attempt's seed reproduces the draw made by start_attempt.
+export async function POST(req: NextRequest) {
+  try {
+    await requireAdmin(req, PERMISSIONS.EXAMS_VIEW);
+    const body = await req.json().catch(() => ({}));
+    const seed: string = body?.seed || crypto.randomUUID();
+    const parsed = QuestionPoolManager.fromExamSettings(body?.settings, seed);
+    if (!parsed) return NextResponse.json({ error: "pool_not_configured" }, { status: 400 });
+
+    const questions = await QuestionPoolManager.generateExamQuestions(parsed.criteria, parsed.config);
+    return NextResponse.json({
+      seed,
+      requested: parsed.config.totalQuestions,
+      items: questions,
+    });
+  } catch (e: any) {
+    if (e instanceof Response) return e;
+    return NextResponse.json({ error: e?.message || "unexpected_error" }, { status: 500 });
+  }
+}
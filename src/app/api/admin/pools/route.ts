@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabase/server";
+import { requireAdmin, getBearerToken } from "@/lib/admin";
+import { PERMISSIONS } from "@/lib/auth/edge-permissions";
+import { auditLog } from "@/lib/audit";
+
+export async function GET(req: NextRequest) {
+  try {
+    await requireAdmin(req, PERMISSIONS.EXAMS_VIEW);
+    const token = await getBearerToken(req);
+    const svc = supabaseServer(token || undefined);
+    const url = new URL(req.url);
+    const q = url.searchParams.get("q");
+
+    let query = svc.from("question_pools").select("*, questions(count)").order("name", { ascending: true });
+    if (q) query = query.ilike("name", `%${q}%`);
+    const { data, error } = await query;
+    if (error) return NextResponse.json({ error: error.message }, { status: 400 });
+
+    const items = (data || []).map(({ questions, ...pool }: any) => ({
+      ...pool,
+      question_count: questions?.[0]?.count ?? 0,
+    }));
+    return NextResponse.json({ items });
+  } catch (e: any) {
+    if (e instanceof Response) return e;
+    return NextResponse.json({ error: e?.message || "unexpected_error" }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const admin = await requireAdmin(req, PERMISSIONS.EXAMS_CREATE);
+    const body = await req.json();
+    const { name, description = null, category = null, tags = [] } = body || {};
+    if (!name || !String(name).trim()) return NextResponse.json({ error: "name_required" }, { status: 400 });
+
+    const token = await getBearerToken(req);
+    const svc = supabaseServer(token || undefined);
+    const { data, error } = await svc
+      .from("question_pools")
+      .insert({ name: String(name).trim(), description, category, tags })
+      .select("*")
+      .single();
+    if (error) return NextResponse.json({ error: error.message }, { status: 400 });
+
+    await auditLog(admin.user_id, "create_question_pool", { pool_id: data.id, name: data.name });
+    return NextResponse.json({ item: data });
+  } catch (e: any) {
+    if (e instanceof Response) return e;
+    return NextResponse.json({ error: e?.message || "unexpected_error" }, { status: 500 });
+  }
+}
@@ -4,6 +4,7 @@ import { adminMiddleware } from "@/lib/api/middleware";
 import { AdminMiddleware, AdminTokenHandler } from "@/lib/api/admin-auth-middleware";
 import { supabaseServer } from "@/lib/supabase/server";
 import { requireAdmin, getBearerToken } from "@/lib/admin";
+import { PERMISSIONS } from "@/lib/auth/edge-permissions";
 
 /**
  * Consolidated Admin API Handler
@@ -182,7 +183,7 @@ class AdminAPIHandler extends UnifiedAPIHandler {
   async handle(req: NextRequest): Promise<NextResponse> {
     try {
       // Use existing requireAdmin for authentication
-      await requireAdmin(req);
+      await requireAdmin(req, req.method === "GET" ? PERMISSIONS.ADMIN_READ : PERMISSIONS.ADMIN_WRITE);
       
       // Continue with unified handler processing
       return super.handle(req);
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { requireAdmin, getBearerToken } from "@/lib/admin";
+import { PERMISSIONS } from "@/lib/auth/edge-permissions";
 import { supabaseServer } from "@/lib/supabase/server";
 
 // This API reads/writes a single-row settings table if present.
@@ -7,7 +8,7 @@ import { supabaseServer } from "@/lib/supabase/server";
 
 export async function GET(req: NextRequest) {
   try {
-    await requireAdmin(req);
+    await requireAdmin(req, PERMISSIONS.SETTINGS_VIEW);
     const token = await getBearerToken(req);
     const svc = supabaseServer(process.env.SUPABASE_SERVICE_ROLE_KEY ? undefined : (token || undefined));
     // Try single-row table approach
@@ -25,7 +26,7 @@ export async function GET(req: NextRequest) {
 
 export async function PATCH(req: NextRequest) {
   try {
-    await requireAdmin(req);
+    await requireAdmin(req, PERMISSIONS.SETTINGS_MANAGE);
     const token = await getBearerToken(req);
     const svc = supabaseServer(process.env.SUPABASE_SERVICE_ROLE_KEY ? undefined : (token || undefined));
     const payload = await req.json();
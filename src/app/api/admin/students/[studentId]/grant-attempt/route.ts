@@ -1,13 +1,16 @@
 import { NextRequest, NextResponse } from "next/server";
 import { supabaseServer } from "@/lib/supabase/server";
 import { requireAdmin, getBearerToken } from "@/lib/admin";
+import { PERMISSIONS } from "@/lib/auth/edge-permissions";
+import { auditLog } from "@/lib/audit";
 
+// Grants the student one more attempt on an exam; earlier attempts stay and keep counting
 export async function POST(
   req: NextRequest,
   ctx: { params: Promise<{ studentId: string }> }
 ) {
   try {
-    await requireAdmin(req);
+    const admin = await requireAdmin(req, PERMISSIONS.ATTEMPTS_MANAGE);
     const token = await getBearerToken(req);
     const svc = supabaseServer(token || undefined);
     const { studentId } = await ctx.params;
@@ -25,22 +28,30 @@ export async function POST(
     } catch {
       // ignore if no JSON body
     }
+    if (!examId) {
+      return NextResponse.json({ error: "examId is required" }, { status: 400 });
+    }
 
-    const { data, error } = await svc.rpc("admin_reset_student_attempts", {
+    const { data, error } = await svc.rpc("admin_grant_student_attempt", {
       p_student_id: studentId,
-      p_exam_id: examId ?? null,
+      p_exam_id: examId,
     });
 
     if (error) {
       return NextResponse.json({ error: error.message }, { status: 400 });
     }
 
-    const deleted_count = Array.isArray(data)
-      ? (data[0]?.deleted_count ?? 0)
-      : (data as any)?.deleted_count ?? 0;
+    const row = (Array.isArray(data) ? data[0] : data) as
+      | { extra_attempts: number; attempts_remaining: number | null }
+      | undefined;
+    const extra_attempts = row?.extra_attempts ?? 0;
+    const attempts_remaining = row?.attempts_remaining ?? null;
+
+    await auditLog(admin.user_id, "grant_attempt", { student_id: studentId, exam_id: examId, extra_attempts });
 
-    return NextResponse.json({ deleted_count });
+    return NextResponse.json({ extra_attempts, attempts_remaining });
   } catch (error: any) {
+    if (error instanceof Response) return error;
     return NextResponse.json({ error: error.message }, { status: 500 });
   }
 }
@@ -1,20 +1,43 @@
 import { NextRequest, NextResponse } from "next/server";
 import { supabaseServer } from "@/lib/supabase/server";
 import { requireAdmin, getBearerToken } from "@/lib/admin";
+import { PERMISSIONS } from "@/lib/auth/edge-permissions";
 
 export async function PATCH(req: NextRequest, ctx: { params: Promise<{ studentId: string }> }) {
   try {
-    await requireAdmin(req);
+    await requireAdmin(req, PERMISSIONS.STUDENTS_EDIT);
     const token = await getBearerToken(req);
     const svc = supabaseServer(token || undefined);
     const { studentId } = await ctx.params;
     const body = await req.json();
     
-    const { student_name, mobile_number } = body;
+    const { student_name, mobile_number, email, guardian_name, guardian_mobile, guardian_email, time_multiplier, extra_time_minutes } = body;
     
     const update: any = {};
     if (student_name !== undefined) update.student_name = student_name || null;
     if (mobile_number !== undefined) update.mobile_number = mobile_number || null;
+    if (email !== undefined) update.email = typeof email === "string" && email.trim() ? email.trim() : null;
+    // Guardian contact for result notifications
+    if (guardian_name !== undefined) update.guardian_name = guardian_name || null;
+    if (guardian_mobile !== undefined) update.guardian_mobile = guardian_mobile || null;
+    if (guardian_email !== undefined) {
+      update.guardian_email = typeof guardian_email === "string" && guardian_email.trim() ? guardian_email.trim() : null;
+    }
+    // Time accommodations: empty clears them
+    if (time_multiplier !== undefined) {
+      const m = time_multiplier === null || time_multiplier === "" ? null : Number(time_multiplier);
+      if (m !== null && (!Number.isFinite(m) || m < 1 || m > 5)) {
+        return NextResponse.json({ error: "time_multiplier must be between 1 and 5" }, { status: 400 });
+      }
+      update.time_multiplier = m === 1 ? null : m;
+    }
+    if (extra_time_minutes !== undefined) {
+      const x = extra_time_minutes === null || extra_time_minutes === "" ? null : Number(extra_time_minutes);
+      if (x !== null && (!Number.isInteger(x) || x < 0 || x > 600)) {
+        return NextResponse.json({ error: "extra_time_minutes must be a whole number between 0 and 600" }, { status: 400 });
+      }
+      update.extra_time_minutes = x || null;
+    }
     
     if (Object.keys(update).length === 0) {
       return NextResponse.json({ error: "No fields to update" }, { status: 400 });
@@ -41,7 +64,7 @@ export async function PATCH(req: NextRequest, ctx: { params: Promise<{ studentId
 
 export async function DELETE(req: NextRequest, ctx: { params: Promise<{ studentId: string }> }) {
   try {
-    await requireAdmin(req);
+    await requireAdmin(req, PERMISSIONS.STUDENTS_DELETE);
     const token = await getBearerToken(req);
     const svc = supabaseServer(token || undefined);
     const { studentId } = await ctx.params;
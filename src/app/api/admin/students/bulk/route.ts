@@ -1,11 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
 import { supabaseServer } from "@/lib/supabase/server";
 import { requireAdmin, getBearerToken } from "@/lib/admin";
+import { PERMISSIONS } from "@/lib/auth/edge-permissions";
 import { getCodeFormatSettings, generateRandomCode } from "@/lib/codeGenerator";
 
 export async function POST(req: NextRequest) {
   try {
-    await requireAdmin(req);
+    await requireAdmin(req, PERMISSIONS.STUDENTS_CREATE);
     const token = await getBearerToken(req);
     const svc = supabaseServer(token || undefined);
     const body = await req.json();
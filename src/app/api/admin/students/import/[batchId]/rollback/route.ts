@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabase/server";
+import { requireAdmin, getBearerToken } from "@/lib/admin";
+import { PERMISSIONS } from "@/lib/auth/edge-permissions";
+import { auditLog } from "@/lib/audit";
+
+// Rolls an import batch back: restores updated students and deletes created ones without attempts
+export async function POST(
+  req: NextRequest,
+  ctx: { params: Promise<{ batchId: string }> }
+) {
+  try {
+    const admin = await requireAdmin(req, PERMISSIONS.STUDENTS_DELETE);
+    const { batchId } = await ctx.params;
+    if (!batchId) return NextResponse.json({ error: "missing_batch_id" }, { status: 400 });
+
+    const token = await getBearerToken(req);
+    const svc = supabaseServer(token || undefined);
+    const { data, error } = await svc.rpc("admin_rollback_student_import", {
+      p_batch_id: batchId,
+      p_admin_id: admin.user_id,
+    });
+    if (error) {
+      const status = error.message?.includes("batch_not_found")
+        ? 404
+        : error.message?.includes("batch_already_rolled_back") || error.code === "23505"
+          ? 409
+          : 400;
+      return NextResponse.json({ error: error.message }, { status });
+    }
+
+    const row = (Array.isArray(data) ? data[0] : data) as
+      | { restored: number; deleted: number; kept: number }
+      | undefined;
+    const result = { restored: row?.restored ?? 0, deleted: row?.deleted ?? 0, kept: row?.kept ?? 0 };
+
+    await auditLog(admin.user_id, "rollback_student_import", { batch_id: batchId, ...result });
+    return NextResponse.json(result);
+  } catch (e: any) {
+    if (e instanceof Response) return e;
+    return NextResponse.json({ error: e?.message || "unexpected_error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabase/server";
+import { requireAdmin, getBearerToken } from "@/lib/admin";
+import { PERMISSIONS } from "@/lib/auth/edge-permissions";
+import { auditLog } from "@/lib/audit";
+import { getCodeFormatSettings, generateRandomCode } from "@/lib/codeGenerator";
+import { MAX_IMPORT_ROWS, parseCountryCode, planStudentImport, type ExistingStudent } from "@/lib/studentImport";
+import type { StudentImportMatch, StudentImportRow } from "@/lib/types";
+
+const PAGE_SIZE = 1000;
+
+// Every student, paged past the API's row limit
+async function loadStudents(svc: ReturnType<typeof supabaseServer>): Promise<ExistingStudent[]> {
+  const out: ExistingStudent[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await svc
+      .from("students")
+      .select("id, code, student_name, mobile_number")
+      .order("created_at", { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw new Error(error.message);
+    out.push(...((data ?? []) as ExistingStudent[]));
+    if (!data || data.length < PAGE_SIZE) return out;
+  }
+}
+
+// Recent import batches for rollback
+export async function GET(req: NextRequest) {
+  try {
+    await requireAdmin(req, PERMISSIONS.STUDENTS_VIEW);
+    const token = await getBearerToken(req);
+    const svc = supabaseServer(token || undefined);
+
+    const { data, error } = await svc
+      .from("student_import_batches")
+      .select("id, file_name, match_on, created_count, updated_count, created_by, created_at, rolled_back_at")
+      .order("created_at", { ascending: false })
+      .limit(20);
+    if (error) return NextResponse.json({ error: error.message }, { status: 400 });
+    return NextResponse.json({ items: data ?? [] });
+  } catch (e: any) {
+    if (e instanceof Response) return e;
+    return NextResponse.json({ error: e?.message || "unexpected_error" }, { status: 500 });
+  }
+}
+
+// Plans an import against the current students and, unless dry_run, applies the creates and
+// updates as one batch. Conflicts and invalid rows are skipped either way.
+export async function POST(req: NextRequest) {
+  try {
+    const admin = await requireAdmin(req, PERMISSIONS.STUDENTS_CREATE);
+    const body = await req.json().catch(() => ({}));
+    const rows = body?.rows;
+    if (!Array.isArray(rows) || rows.length === 0) {
+      return NextResponse.json({ error: "rows_required" }, { status: 400 });
+    }
+    if (rows.length > MAX_IMPORT_ROWS) {
+      return NextResponse.json({ error: "too_many_rows", max: MAX_IMPORT_ROWS }, { status: 400 });
+    }
+    const matchOn: StudentImportMatch = body?.match_on === "mobile_number" ? "mobile_number" : "code";
+    const rawCountry = typeof body?.default_country_code === "string" ? body.default_country_code.trim() : "";
+    const defaultCountryCode = parseCountryCode(rawCountry);
+    if (rawCountry && !defaultCountryCode) {
+      return NextResponse.json({ error: "invalid_country_code" }, { status: 400 });
+    }
+    const dryRun = body?.dry_run !== false;
+    const fileName = typeof body?.file_name === "string" ? body.file_name.slice(0, 255) : null;
+
+    const token = await getBearerToken(req);
+    const svc = supabaseServer(token || undefined);
+    const existing = await loadStudents(svc);
+    const codeSettings = await getCodeFormatSettings();
+    const plan = planStudentImport(
+      (rows as StudentImportRow[]).map((r) => ({
+        student_name: r?.student_name,
+        mobile_number: r?.mobile_number,
+        code: r?.code,
+      })),
+      existing,
+      { match_on: matchOn, default_country_code: defaultCountryCode },
+      (taken) => {
+        for (let i = 0; i < 100; i++) {
+          const code = generateRandomCode(codeSettings);
+          if (!taken.has(code)) return code;
+        }
+        return null;
+      }
+    );
+
+    if (dryRun) return NextResponse.json({ plan });
+
+    if (plan.updates.length > 0 && !admin.permissions.includes(PERMISSIONS.STUDENTS_EDIT)) {
+      return NextResponse.json({ error: "forbidden", required: [PERMISSIONS.STUDENTS_EDIT] }, { status: 403 });
+    }
+    if (plan.creates.length === 0 && plan.updates.length === 0) {
+      return NextResponse.json({ error: "nothing_to_import", plan }, { status: 400 });
+    }
+
+    const { data: batchId, error } = await svc.rpc("admin_import_students", {
+      p_creates: plan.creates.map(({ code, student_name, mobile_number }) => ({ code, student_name, mobile_number })),
+      p_updates: plan.updates.map(({ student_id, changes }) => ({
+        student_id,
+        code: changes.code?.to ?? null,
+        student_name: changes.student_name?.to ?? null,
+        mobile_number: changes.mobile_number?.to ?? null,
+      })),
+      p_match_on: matchOn,
+      p_file_name: fileName,
+      p_admin_id: admin.user_id,
+    });
+    if (error) {
+      // Students changed since this plan was made; a new dry run shows the current diff
+      if (error.code === "23505") return NextResponse.json({ error: "import_conflict" }, { status: 409 });
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    await auditLog(admin.user_id, "import_students", {
+      batch_id: batchId,
+      file_name: fileName,
+      match_on: matchOn,
+      created_count: plan.creates.length,
+      updated_count: plan.updates.length,
+      skipped_count: plan.conflicts.length + plan.invalid.length,
+    });
+    return NextResponse.json({ batch_id: batchId, plan });
+  } catch (e: any) {
+    if (e instanceof Response) return e;
+    return NextResponse.json({ error: e?.message || "unexpected_error" }, { status: 500 });
+  }
+}
@@ -1,11 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
 import { supabaseServer } from "@/lib/supabase/server";
 import { requireAdmin, getBearerToken } from "@/lib/admin";
+import { PERMISSIONS } from "@/lib/auth/edge-permissions";
 import { getCodeFormatSettings, generateRandomCode } from "@/lib/codeGenerator";
 
 export async function GET(req: NextRequest) {
   try {
-    await requireAdmin(req);
+    await requireAdmin(req, PERMISSIONS.STUDENTS_VIEW);
     const token = await getBearerToken(req);
     const svc = supabaseServer(token || undefined);
     
@@ -27,12 +28,12 @@ export async function GET(req: NextRequest) {
 
 export async function POST(req: NextRequest) {
   try {
-    await requireAdmin(req);
+    await requireAdmin(req, PERMISSIONS.STUDENTS_CREATE);
     const token = await getBearerToken(req);
     const svc = supabaseServer(token || undefined);
     const body = await req.json();
     
-    const { student_name, mobile_number, code } = body;
+    const { student_name, mobile_number, email, code } = body;
     
     // Generate code if not provided
     let finalCode = code;
@@ -75,6 +76,7 @@ export async function POST(req: NextRequest) {
         code: finalCode,
         student_name: student_name || null,
         mobile_number: mobile_number || null,
+        email: typeof email === "string" && email.trim() ? email.trim() : null,
       })
       .select("*")
       .single();
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { requireAdmin, getBearerToken } from "@/lib/admin";
+import { PERMISSIONS } from "@/lib/auth/edge-permissions";
 import { supabaseServer } from "@/lib/supabase/server";
 
 // POST /api/admin/system/mode
@@ -7,7 +8,7 @@ import { supabaseServer } from "@/lib/supabase/server";
 // Persists tri-state system mode in app_config and updates legacy system_disabled flag for compatibility.
 export async function POST(req: NextRequest) {
   try {
-    await requireAdmin(req);
+    await requireAdmin(req, PERMISSIONS.SYSTEM_MANAGE);
     const token = await getBearerToken(req);
     const svc = supabaseServer(token || undefined);
 
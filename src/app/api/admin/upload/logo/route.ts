@@ -1,27 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
+import { checkAdmin } from "@/lib/admin";
+import { PERMISSIONS } from "@/lib/auth/edge-permissions";
 import { supabaseServer } from "@/lib/supabase/server";
 
-// TODO: Re-enable admin authentication when admin system is fully implemented
-// Currently allowing anyone to upload logos for development purposes
-
 export async function POST(request: NextRequest) {
+  const denied = await checkAdmin(request, PERMISSIONS.SETTINGS_MANAGE);
+  if (denied) return denied;
   try {
-    // TEMPORARY: Skip authentication check for development
-    // TODO: Uncomment and fix when admin authentication is ready
-    /*
-    const authHeader = request.headers.get("authorization");
-    if (!authHeader || !authHeader.startsWith("Bearer ")) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    const token = authHeader.substring(7);
-    const payload = await verifyToken(token);
-    if (!payload) {
-      return NextResponse.json({ error: "Invalid token" }, { status: 401 });
-    }
-    */
-
-    const svc = supabaseServer(); // Use without token for now
+    const svc = supabaseServer();
 
     // Get form data
     const formData = await request.formData();
@@ -97,23 +83,10 @@ export async function POST(request: NextRequest) {
 }
 
 export async function DELETE(request: NextRequest) {
+  const denied = await checkAdmin(request, PERMISSIONS.SETTINGS_MANAGE);
+  if (denied) return denied;
   try {
-    // TEMPORARY: Skip authentication check for development
-    // TODO: Uncomment and fix when admin authentication is ready
-    /*
-    const authHeader = request.headers.get("authorization");
-    if (!authHeader || !authHeader.startsWith("Bearer ")) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    const token = authHeader.substring(7);
-    const payload = await verifyToken(token);
-    if (!payload) {
-      return NextResponse.json({ error: "Invalid token" }, { status: 401 });
-    }
-    */
-
-    const svc = supabaseServer(); // Use without token for now
+    const svc = supabaseServer();
     const { searchParams } = new URL(request.url);
     const fileName = searchParams.get("fileName");
     
@@ -1,8 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
+import { checkAdmin } from "@/lib/admin";
+import { PERMISSIONS } from "@/lib/auth/edge-permissions";
 import { supabaseServer } from "@/lib/supabase/server";
 
-// TEMP: open endpoint similar to logo upload; tighten with requireAdmin later
 export async function POST(request: NextRequest) {
+  const denied = await checkAdmin(request, PERMISSIONS.EXAMS_EDIT);
+  if (denied) return denied;
   try {
     const svc = supabaseServer();
 
@@ -1,17 +1,20 @@
 import { NextRequest, NextResponse } from "next/server";
 import { requireAdmin, getBearerToken } from "@/lib/admin";
+import { ADMIN_ROLES, PERMISSIONS, ROLES } from "@/lib/auth/edge-permissions";
 import { supabaseServer } from "@/lib/supabase/server";
 import { auditLog } from "@/lib/audit";
 
 export async function POST(req: NextRequest) {
   try {
     console.log("[API] POST /api/admin/users - hit");
-    const actor = await requireAdmin(req);
+    const actor = await requireAdmin(req, PERMISSIONS.USERS_CREATE);
     const body = await req.json().catch(() => ({} as any));
     const usernameRaw = typeof body?.username === "string" ? body.username : "";
     const emailRaw = typeof body?.email === "string" ? body.email : "";
     const password = typeof body?.password === "string" ? body.password : "";
     const is_admin = Boolean(body?.is_admin);
+    // New admins start with the least privileged role unless one is given
+    const role = String(body?.role || ROLES.VIEWER.name);
 
     const username = usernameRaw.trim();
     const email = emailRaw.trim();
@@ -21,6 +24,7 @@ export async function POST(req: NextRequest) {
       email_present: Boolean(email),
       password_len: password ? password.length : 0,
       is_admin,
+      role: is_admin ? role : null,
       actor: actor?.user_id || null,
     });
 
@@ -30,6 +34,9 @@ export async function POST(req: NextRequest) {
     if (!password || password.length < 8) {
       return NextResponse.json({ error: "weak_password" }, { status: 400 });
     }
+    if (is_admin && !ADMIN_ROLES.some((r) => r.name === role)) {
+      return NextResponse.json({ error: "invalid_role" }, { status: 400 });
+    }
 
     const token = await getBearerToken(req);
     const svc = supabaseServer(token || undefined);
@@ -38,6 +45,7 @@ export async function POST(req: NextRequest) {
       p_email: email || null,
       p_password: password,
       p_is_admin: is_admin,
+      p_role: role,
     });
 
     if (res.error) {
@@ -45,6 +53,7 @@ export async function POST(req: NextRequest) {
       const msg = (res.error.message || "").toLowerCase();
       if (msg.includes("forbidden")) return NextResponse.json({ error: "forbidden" }, { status: 403 });
       if (msg.includes("weak_password")) return NextResponse.json({ error: "weak_password" }, { status: 400 });
+      if (msg.includes("invalid_role")) return NextResponse.json({ error: "invalid_role" }, { status: 400 });
       if (msg.includes("missing_identifier")) return NextResponse.json({ error: "missing_identifier" }, { status: 400 });
       if (msg.includes("duplicate_username")) return NextResponse.json({ error: "duplicate_username" }, { status: 400 });
       if (msg.includes("duplicate_email")) return NextResponse.json({ error: "duplicate_email" }, { status: 400 });
@@ -60,7 +69,7 @@ export async function POST(req: NextRequest) {
       try {
         const { error: adminError } = await svc
           .from("admin_users")
-          .upsert({ user_id: item.user_id }, { onConflict: "user_id" });
+          .upsert({ user_id: item.user_id, role }, { onConflict: "user_id" });
         if (adminError) {
           console.error("[API] /api/admin/users - admin_users upsert failed:", adminError);
         }
@@ -74,6 +83,7 @@ export async function POST(req: NextRequest) {
         username: username || null,
         email: email || null,
         is_admin,
+        role: is_admin ? role : null,
         user_id: item?.user_id || null,
       });
     } catch {}
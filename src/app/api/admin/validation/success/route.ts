@@ -3,11 +3,15 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { checkAdmin } from '@/lib/admin';
+import { PERMISSIONS } from '@/lib/auth/edge-permissions';
 import { successValidator } from '@/lib/benchmarking/success-validator';
 import { performanceBenchmarker } from '@/lib/benchmarking/performance-benchmarker';
 import { costAnalyzer } from '@/lib/benchmarking/cost-analyzer';
 
 export async function POST(request: NextRequest) {
+  const denied = await checkAdmin(request, PERMISSIONS.SYSTEM_MANAGE);
+  if (denied) return denied;
   try {
     const { action, includeFeatureParity = true } = await request.json();
 
@@ -194,6 +198,8 @@ async function getCriteria() {
 }
 
 export async function GET(request: NextRequest) {
+  const denied = await checkAdmin(request, PERMISSIONS.SYSTEM_VIEW);
+  if (denied) return denied;
   try {
     const { searchParams } = new URL(request.url);
     const type = searchParams.get('type');
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { supabaseServer } from "@/lib/supabase/server";
+import { requireAttemptSession, rotateAttemptSession } from "@/lib/attemptSession";
 
 export const dynamic = "force-dynamic";
 
@@ -30,20 +31,21 @@ export async function POST(
   ctx: { params: Promise<{ attemptId: string }> }
 ) {
   try {
-    const body = await readBody(req);
-    const events: any[] = coerceArray(
-      Array.isArray(body) ? body : body?.events ?? body?.batch
-    );
-
     const { attemptId } = await ctx.params;
 
     if (!attemptId) {
       return NextResponse.json({ error: "missing_attempt_id" }, { status: 400 });
     }
+    const session = await requireAttemptSession(req, attemptId);
+
+    const body = await readBody(req);
+    const events: any[] = coerceArray(
+      Array.isArray(body) ? body : body?.events ?? body?.batch
+    );
 
     if (!Array.isArray(events) || events.length === 0) {
       // Accept no-op to allow beacon calls not to fail
-      return NextResponse.json({ inserted_count: 0 });
+      return rotateAttemptSession(NextResponse.json({ inserted_count: 0 }), session);
     }
 
     const supabase = supabaseServer();
@@ -57,8 +59,9 @@ export async function POST(
     }
 
     const row = Array.isArray(data) ? data[0] : data;
-    return NextResponse.json({ inserted_count: row?.inserted_count ?? 0 });
+    return rotateAttemptSession(NextResponse.json({ inserted_count: row?.inserted_count ?? 0 }), session);
   } catch (e: any) {
+    if (e instanceof Response) return e;
     return NextResponse.json(
       { error: e?.message || "unexpected_error" },
       { status: 500 }
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { RealtimeAttemptManager } from "@/lib/api/realtime-attempt";
+import { requireAttemptSession, rotateAttemptSession } from "@/lib/attemptSession";
 
 export const dynamic = "force-dynamic";
 
@@ -18,6 +19,7 @@ export async function GET(
     if (!attemptId) {
       return NextResponse.json({ error: "missing_attempt_id" }, { status: 400 });
     }
+    const session = await requireAttemptSession(req, attemptId);
 
     const url = new URL(req.url);
     const lastEventId = url.searchParams.get("lastEventId");
@@ -80,7 +82,7 @@ export async function GET(
       }
     });
 
-    return new Response(stream, {
+    return rotateAttemptSession(new Response(stream, {
       headers: {
         'Content-Type': 'text/event-stream',
         'Cache-Control': 'no-cache',
@@ -88,9 +90,10 @@ export async function GET(
         'Access-Control-Allow-Origin': '*',
         'Access-Control-Allow-Headers': 'Cache-Control',
       },
-    });
+    }), session);
 
   } catch (error: any) {
+    if (error instanceof Response) return error;
     console.error('SSE endpoint error:', error);
     return NextResponse.json(
       { error: error.message || "unexpected_error" },
@@ -111,6 +114,7 @@ export async function POST(
     if (!attemptId) {
       return NextResponse.json({ error: "missing_attempt_id" }, { status: 400 });
     }
+    const session = await requireAttemptSession(req, attemptId);
 
     const body = await req.json().catch(() => ({}));
     const { type, data } = body;
@@ -129,13 +133,14 @@ export async function POST(
 
     // This would normally be handled by the RealtimeAttemptManager
     // For now, we'll just acknowledge the event
-    return NextResponse.json({ 
+    return rotateAttemptSession(NextResponse.json({ 
       success: true, 
       event,
       message: "Event queued for broadcast" 
-    });
+    }), session);
 
   } catch (error: any) {
+    if (error instanceof Response) return error;
     return NextResponse.json(
       { error: error.message || "unexpected_error" },
       { status: 500 }
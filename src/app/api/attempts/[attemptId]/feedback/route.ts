@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabase/server";
+import { requireAttemptSession, rotateAttemptSession } from "@/lib/attemptSession";
+import { gradeAnswer } from "@/lib/scoring";
+import { describeAnswerKey, isPracticeMode } from "@/lib/practice";
+import type { QuestionFeedback } from "@/lib/types";
+
+// Check one answer on a practice exam: the verdict, the key and the question's explanation.
+// Nothing is stored; the student may change the answer and check again until they submit.
+export async function POST(
+  req: NextRequest,
+  ctx: { params: Promise<{ attemptId: string }> }
+) {
+  try {
+    const { attemptId } = await ctx.params;
+    const session = await requireAttemptSession(req, attemptId);
+    const body = await req.json().catch(() => ({}));
+    const questionId = typeof body?.question_id === "string" ? body.question_id : "";
+    const answer = body?.answer ?? null;
+    if (!questionId) {
+      return NextResponse.json({ error: "question_required" }, { status: 400 });
+    }
+    if (answer === null || answer === "" || (Array.isArray(answer) && answer.length === 0)) {
+      return NextResponse.json({ error: "answer_required" }, { status: 400 });
+    }
+
+    const supabase = supabaseServer();
+    const { data: attempt, error: attemptErr } = await supabase
+      .from("exam_attempts")
+      .select("id, submitted_at, exams(settings)")
+      .eq("id", attemptId)
+      .maybeSingle();
+    if (attemptErr) return NextResponse.json({ error: attemptErr.message }, { status: 400 });
+    if (!attempt) return NextResponse.json({ error: "attempt_not_found" }, { status: 404 });
+
+    const exam = (Array.isArray(attempt.exams) ? attempt.exams[0] : attempt.exams) as { settings: unknown } | null;
+    if (!isPracticeMode(exam?.settings)) {
+      return NextResponse.json({ error: "not_practice_exam" }, { status: 403 });
+    }
+    if (attempt.submitted_at) {
+      return NextResponse.json({ error: "attempt_already_submitted" }, { status: 409 });
+    }
+
+    // Grade against the revision this attempt was shown
+    const { data: questions, error: qErr } = await supabase.rpc("attempt_questions", {
+      p_attempt_id: attemptId,
+      p_for_grading: true,
+    });
+    if (qErr) return NextResponse.json({ error: qErr.message }, { status: 400 });
+    const question = ((questions ?? []) as { id: string; question_type: string; options: unknown; correct_answers: unknown }[])
+      .find((q) => q.id === questionId);
+    if (!question) return NextResponse.json({ error: "question_not_found" }, { status: 404 });
+
+    const { data: extra } = await supabase
+      .from("questions")
+      .select("explanation")
+      .eq("id", questionId)
+      .maybeSingle();
+
+    const feedback: QuestionFeedback = {
+      question_id: questionId,
+      correct: gradeAnswer(question, answer),
+      correct_answers: question.correct_answers,
+      answer_text: describeAnswerKey(question),
+      explanation: (extra?.explanation as string | null | undefined) || null,
+    };
+    return rotateAttemptSession(NextResponse.json(feedback), session);
+  } catch (e: any) {
+    if (e instanceof Response) return e;
+    return NextResponse.json({ error: e?.message || "unexpected_error" }, { status: 500 });
+  }
+}
@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { supabaseServer } from "@/lib/supabase/server";
+import { requireAttemptSession, rotateAttemptSession } from "@/lib/attemptSession";
+import { parseReviewPolicy, reviewBlocker } from "@/lib/review";
+import { resultVisibility } from "@/lib/resultRelease";
 
 export async function GET(
   req: NextRequest,
@@ -7,6 +10,7 @@ export async function GET(
 ) {
   try {
     const { attemptId } = await params;
+    const session = await requireAttemptSession(req, attemptId);
     const svc = supabaseServer();
 
     // Fetch basic attempt info with exam details (public data only)
@@ -23,7 +27,10 @@ export async function GET(
           description,
           duration_minutes,
           start_time,
-          end_time
+          end_time,
+          settings,
+          results_visibility,
+          results_release_at
         ),
         students(code, student_name)
       `)
@@ -39,7 +46,7 @@ export async function GET(
 
     const examData = (data as any).exams;
 
-    return NextResponse.json({
+    return rotateAttemptSession(NextResponse.json({
       attempt_id: attemptId,
       exam_id: (data as any).exam_id || null,
       student_id: (data as any).student_id || null,
@@ -47,6 +54,10 @@ export async function GET(
       student_name: (data as any).students?.student_name || (data as any).student_name || null,
       exam_title: examData?.title,
       submitted_at: data.submitted_at,
+      // Same gates as the review route: results released with details, then the exam's review policy
+      review_available:
+        resultVisibility(examData) === "released_with_details" &&
+        reviewBlocker(parseReviewPolicy(examData?.settings), data.submitted_at) === null,
       exam: {
         title: examData?.title,
         description: examData?.description,
@@ -54,8 +65,9 @@ export async function GET(
         start_time: examData?.start_time,
         end_time: examData?.end_time,
       }
-    });
+    }), session);
   } catch (e: any) {
+    if (e instanceof Response) return e;
     return NextResponse.json({ error: e?.message || "unexpected_error" }, { status: 500 });
   }
 }
\ No newline at end of file
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabase/server";
+import { requireAttemptSession, rotateAttemptSession } from "@/lib/attemptSession";
+import { isLockdownViolationKind } from "@/lib/lockdown";
+
+// Report a lockdown violation; the server counts it and applies the exam's on-limit action
+export async function POST(
+  req: NextRequest,
+  ctx: { params: Promise<{ attemptId: string }> }
+) {
+  try {
+    const { attemptId } = await ctx.params;
+    const session = await requireAttemptSession(req, attemptId);
+    const body = await req.json().catch(() => ({}));
+    if (!isLockdownViolationKind(body?.kind)) {
+      return NextResponse.json({ error: "invalid_violation" }, { status: 400 });
+    }
+
+    const supabase = supabaseServer();
+    const { data, error } = await supabase.rpc("record_lockdown_violation", {
+      p_attempt_id: attemptId,
+      p_kind: body.kind,
+    });
+    if (error) {
+      const status = error.message?.includes("attempt_already_submitted") ? 409 : 400;
+      return NextResponse.json({ error: error.message }, { status });
+    }
+
+    const row = Array.isArray(data) ? data[0] : data;
+    return rotateAttemptSession(NextResponse.json(row ?? {}), session);
+  } catch (e: any) {
+    if (e instanceof Response) return e;
+    return NextResponse.json({ error: e?.message || "unexpected_error" }, { status: 500 });
+  }
+}
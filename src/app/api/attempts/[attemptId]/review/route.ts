@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabase/server";
+import { parseScoringPolicy } from "@/lib/scoring";
+import { parseReviewPolicy, reviewBlocker, reviewQuestions } from "@/lib/review";
+import { resultVisibility, type ResultReleaseState } from "@/lib/resultRelease";
+import type { AttemptReview, Question } from "@/lib/types";
+
+// Read-only review of a submitted attempt. The attempt session ends at submission, so the
+// student proves ownership with their code instead; attempts without a student cannot be reviewed.
+export async function POST(
+  req: NextRequest,
+  ctx: { params: Promise<{ attemptId: string }> }
+) {
+  try {
+    const { attemptId } = await ctx.params;
+    const body = await req.json().catch(() => ({}));
+    const code = typeof body?.code === "string" ? body.code.trim() : "";
+    if (!code) return NextResponse.json({ error: "code_required" }, { status: 400 });
+
+    const svc = supabaseServer();
+    const { data: attempt, error: attemptErr } = await svc
+      .from("exam_attempts")
+      .select(`
+        id, submitted_at, answers, student_name,
+        exams(title, settings, results_visibility, results_release_at),
+        students(code, student_name),
+        exam_results(score_percentage, final_score_percentage)
+      `)
+      .eq("id", attemptId)
+      .maybeSingle();
+    if (attemptErr) return NextResponse.json({ error: attemptErr.message }, { status: 400 });
+
+    const one = <T,>(v: unknown): T | null => ((Array.isArray(v) ? v[0] : v) as T | undefined) ?? null;
+    const student = one<{ code: string; student_name: string | null }>(attempt?.students);
+    // Same answer for a wrong code as for an unknown attempt
+    if (!attempt || !student || student.code !== code) {
+      return NextResponse.json({ error: "attempt_not_found" }, { status: 404 });
+    }
+
+    const exam = one<{ title: string; settings: unknown } & ResultReleaseState>(attempt.exams);
+    // Review shows scores and the key, so it waits for results released with details
+    const visibility = resultVisibility(exam);
+    if (visibility === "hidden") {
+      const scheduled = exam?.results_visibility !== "hidden" ? exam?.results_release_at : null;
+      return NextResponse.json({ error: "results_not_released", release_at: scheduled ?? undefined }, { status: 403 });
+    }
+    if (visibility !== "released_with_details") return NextResponse.json({ error: "review_not_allowed" }, { status: 403 });
+
+    const policy = parseReviewPolicy(exam?.settings);
+    const blocker = reviewBlocker(policy, attempt.submitted_at);
+    if (blocker) {
+      return NextResponse.json(
+        { error: blocker, release_at: blocker === "review_not_released" ? policy.release_at : undefined },
+        { status: blocker === "attempt_not_submitted" ? 409 : 403 }
+      );
+    }
+
+    // Graded against the revision the attempt was shown, or the one a regrade applied
+    const { data: rows, error: qErr } = await svc.rpc("attempt_questions", {
+      p_attempt_id: attemptId,
+      p_for_grading: true,
+    });
+    if (qErr) return NextResponse.json({ error: qErr.message }, { status: 400 });
+    const questions = ((rows ?? []) as (Question & { correct_answers: unknown; pool_position: number | null; created_at: string })[])
+      .sort((a, b) =>
+        (a.pool_position ?? -1) - (b.pool_position ?? -1) ||
+        (a.order_index ?? Number.MAX_SAFE_INTEGER) - (b.order_index ?? Number.MAX_SAFE_INTEGER) ||
+        a.created_at.localeCompare(b.created_at)
+      );
+    const ids = questions.map((q) => q.id);
+
+    const [explRes, manualRes] = await Promise.all([
+      ids.length > 0
+        ? svc.from("questions").select("id, explanation").in("id", ids)
+        : Promise.resolve({ data: [], error: null }),
+      svc.from("manual_grades").select("question_id, awarded_points, notes").eq("attempt_id", attemptId),
+    ]);
+    if (explRes.error) return NextResponse.json({ error: explRes.error.message }, { status: 400 });
+    if (manualRes.error) return NextResponse.json({ error: manualRes.error.message }, { status: 400 });
+
+    const explanations: Record<string, string | null> = {};
+    for (const r of (explRes.data ?? []) as { id: string; explanation: string | null }[]) explanations[r.id] = r.explanation;
+    const manual: Record<string, { awarded_points: number; notes: string | null }> = {};
+    for (const r of (manualRes.data ?? []) as { question_id: string; awarded_points: number; notes: string | null }[]) {
+      manual[r.question_id] = { awarded_points: Number(r.awarded_points), notes: r.notes };
+    }
+
+    const result = one<{ score_percentage: number | null; final_score_percentage: number | null }>(attempt.exam_results);
+    const rawScore = result?.final_score_percentage ?? result?.score_percentage;
+    const review: AttemptReview = {
+      attempt_id: attemptId,
+      exam_title: exam?.title ?? "",
+      student_name: student.student_name || (attempt.student_name as string | null) || null,
+      submitted_at: attempt.submitted_at as string,
+      score_percentage: policy.show_score && rawScore !== null && rawScore !== undefined ? Number(rawScore) : null,
+      questions: reviewQuestions(
+        questions,
+        (attempt.answers ?? {}) as Record<string, unknown>,
+        manual,
+        explanations,
+        parseScoringPolicy(exam?.settings)
+      ),
+    };
+    return NextResponse.json(review);
+  } catch (e: any) {
+    return NextResponse.json({ error: e?.message || "unexpected_error" }, { status: 500 });
+  }
+}
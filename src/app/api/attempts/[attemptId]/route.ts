@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { supabaseServer } from "@/lib/supabase/server";
 import { attemptOperations } from "@/lib/api/attempt-operations";
+import { requireAttemptSession, rotateAttemptSession } from "@/lib/attemptSession";
 
 export const dynamic = "force-dynamic";
 
@@ -246,6 +247,14 @@ async function handleBatch(req: NextRequest, attemptId: string) {
     const body = await readBody(req);
     const { operation, data } = body || {};
 
+    // The attempt session only covers this attempt
+    if (Array.isArray(data)) {
+      const ids = data.map((item: any) => (item && typeof item === "object" ? item.attempt_id : item));
+      if (ids.some((id) => id !== attemptId)) {
+        return NextResponse.json({ error: "attempt_session_mismatch" }, { status: 403 });
+      }
+    }
+
     switch (operation) {
       case 'batch_save':
         if (!Array.isArray(data)) {
@@ -469,21 +478,23 @@ export async function GET(
     if (!attemptId) {
       return NextResponse.json({ error: "missing_attempt_id" }, { status: 400 });
     }
+    const session = await requireAttemptSession(req, attemptId);
 
     const url = new URL(req.url);
     const action = url.searchParams.get("action");
 
     switch (action) {
       case "info":
-        return handleInfo(attemptId);
+        return rotateAttemptSession(await handleInfo(attemptId), session);
       case "state":
-        return handleState(attemptId);
+        return rotateAttemptSession(await handleState(attemptId), session);
       case "stats":
-        return handleStats(req, attemptId);
+        return rotateAttemptSession(await handleStats(req, attemptId), session);
       default:
         return NextResponse.json({ error: "invalid_action" }, { status: 400 });
     }
   } catch (e: any) {
+    if (e instanceof Response) return e;
     return NextResponse.json(
       { error: e?.message || "unexpected_error" },
       { status: 500 }
@@ -500,6 +511,7 @@ export async function POST(
     if (!attemptId) {
       return NextResponse.json({ error: "missing_attempt_id" }, { status: 400 });
     }
+    const session = await requireAttemptSession(req, attemptId);
 
     const url = new URL(req.url);
     const action = url.searchParams.get("action");
@@ -511,11 +523,11 @@ export async function POST(
       
       switch (bodyAction) {
         case "optimized_save":
-          return handleOptimizedSave(req, attemptId);
+          return rotateAttemptSession(await handleOptimizedSave(req, attemptId), session);
         case "resolve_conflict":
-          return handleConflictResolution(req, attemptId);
+          return rotateAttemptSession(await handleConflictResolution(req, attemptId), session);
         case "force_sync":
-          return handleForceSync(req, attemptId);
+          return rotateAttemptSession(await handleForceSync(req, attemptId), session);
         default:
           return NextResponse.json({ error: "invalid_action" }, { status: 400 });
       }
@@ -523,27 +535,28 @@ export async function POST(
 
     switch (action) {
       case "activity":
-        return handleActivity(req, attemptId);
+        return rotateAttemptSession(await handleActivity(req, attemptId), session);
       case "submit":
-        return handleSubmit(attemptId);
+        return rotateAttemptSession(await handleSubmit(attemptId), session);
       case "upload":
-        return handleUpload(req, attemptId);
+        return rotateAttemptSession(await handleUpload(req, attemptId), session);
       case "batch":
-        return handleBatch(req, attemptId);
+        return rotateAttemptSession(await handleBatch(req, attemptId), session);
       case "optimize":
-        return handleOptimization(req, attemptId);
+        return rotateAttemptSession(await handleOptimization(req, attemptId), session);
       case "realtime":
-        return handleRealtime(req, attemptId);
+        return rotateAttemptSession(await handleRealtime(req, attemptId), session);
       case "optimized_save":
-        return handleOptimizedSave(req, attemptId);
+        return rotateAttemptSession(await handleOptimizedSave(req, attemptId), session);
       case "resolve_conflict":
-        return handleConflictResolution(req, attemptId);
+        return rotateAttemptSession(await handleConflictResolution(req, attemptId), session);
       case "force_sync":
-        return handleForceSync(req, attemptId);
+        return rotateAttemptSession(await handleForceSync(req, attemptId), session);
       default:
         return NextResponse.json({ error: "invalid_action" }, { status: 400 });
     }
   } catch (e: any) {
+    if (e instanceof Response) return e;
     return NextResponse.json(
       { error: e?.message || "unexpected_error" },
       { status: 500 }
@@ -560,17 +573,19 @@ export async function PATCH(
     if (!attemptId) {
       return NextResponse.json({ error: "missing_attempt_id" }, { status: 400 });
     }
+    const session = await requireAttemptSession(req, attemptId);
 
     const url = new URL(req.url);
     const action = url.searchParams.get("action");
 
     switch (action) {
       case "save":
-        return handleSave(req, attemptId);
+        return rotateAttemptSession(await handleSave(req, attemptId), session);
       default:
         return NextResponse.json({ error: "invalid_action" }, { status: 400 });
     }
   } catch (e: any) {
+    if (e instanceof Response) return e;
     return NextResponse.json(
       { error: e?.message || "unexpected_error" },
       { status: 500 }
@@ -1,16 +1,19 @@
 import { NextRequest, NextResponse } from "next/server";
 import { supabaseServer } from "@/lib/supabase/server";
+import { requireAttemptSession, rotateAttemptSession } from "@/lib/attemptSession";
+import { getClientIp } from "@/lib/ip";
 
 export async function PATCH(
   req: NextRequest,
   ctx: { params: Promise<{ attemptId: string }> }
 ) {
   try {
+    const { attemptId } = await ctx.params;
+    const session = await requireAttemptSession(req, attemptId);
     const body = await req.json().catch(() => ({}));
     const { answers, auto_save_data, expected_version } = body || {};
 
     const supabase = supabaseServer();
-    const { attemptId } = await ctx.params;
     const { data, error } = await supabase.rpc("save_attempt", {
       p_attempt_id: attemptId,
       p_answers: answers ?? {},
@@ -31,9 +34,14 @@ export async function PATCH(
       return NextResponse.json({ error: error.message }, { status: 400 });
     }
 
+    // Best-effort: proctors see IP changes during the attempt
+    const ipRes = await supabase.rpc("record_attempt_ip", { p_attempt_id: attemptId, p_ip: getClientIp(req.headers) });
+    if (ipRes.error) console.warn("record_attempt_ip failed", ipRes.error.message);
+
     const row = Array.isArray(data) ? data[0] : data;
-    return NextResponse.json({ new_version: row?.new_version ?? null });
+    return rotateAttemptSession(NextResponse.json({ new_version: row?.new_version ?? null }), session);
   } catch (e: any) {
+    if (e instanceof Response) return e;
     return NextResponse.json(
       { error: e?.message || "unexpected_error" },
       { status: 500 }
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { supabaseServer } from "@/lib/supabase/server";
+import { requireAttemptSession, rotateAttemptSession } from "@/lib/attemptSession";
+
+const NAVIGATION_ERRORS = ["section_locked", "section_closed", "invalid_section"];
+
+// Move a sectioned attempt to another section; returns the refreshed attempt state
+export async function POST(
+  req: NextRequest,
+  ctx: { params: Promise<{ attemptId: string }> }
+) {
+  try {
+    const { attemptId } = await ctx.params;
+    const session = await requireAttemptSession(req, attemptId);
+    const body = await req.json().catch(() => ({}));
+    const target = Number(body?.section);
+    if (!Number.isInteger(target)) {
+      return NextResponse.json({ error: "invalid_section" }, { status: 400 });
+    }
+
+    const supabase = supabaseServer();
+    const { data, error } = await supabase.rpc("advance_section", {
+      p_attempt_id: attemptId,
+      p_target: target,
+    });
+
+    if (error) {
+      const code = NAVIGATION_ERRORS.find((c) => error.message?.includes(c));
+      if (code) {
+        const latest = await supabase.rpc("get_attempt_state", { p_attempt_id: attemptId });
+        return NextResponse.json({ error: code, latest: latest.data }, { status: 409 });
+      }
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    return rotateAttemptSession(NextResponse.json(data), session);
+  } catch (e: any) {
+    if (e instanceof Response) return e;
+    return NextResponse.json({ error: e?.message || "unexpected_error" }, { status: 500 });
+  }
+}
@@ -1,11 +1,14 @@
 import { NextRequest, NextResponse } from "next/server";
 import { RealtimeAttemptManager } from "@/lib/api/realtime-attempt";
+import { requireAttemptSession, rotateAttemptSession } from "@/lib/attemptSession";
 
 export const dynamic = "force-dynamic";
 
 /**
  * Server-Sent Events endpoint for real-time attempt monitoring
- * Usage: GET /api/attempts/[attemptId]/sse?connectionId=xxx
+ * Usage: GET /api/attempts/[attemptId]/sse?connectionId=xxx&lastEventId=123
+ * Proctor actions after the Last-Event-ID header (sent by EventSource on reconnect) or the
+ * lastEventId parameter (kept by the page across reloads) are replayed.
  */
 export async function GET(
   req: NextRequest,
@@ -20,15 +23,20 @@ export async function GET(
     if (!attemptId) {
       return NextResponse.json({ error: "missing_attempt_id" }, { status: 400 });
     }
+    const session = await requireAttemptSession(req, attemptId);
+    const lastEventId = Number(req.headers.get("last-event-id") ?? url.searchParams.get("lastEventId"));
 
     // Create real-time manager instance
     const realtimeManager = new RealtimeAttemptManager();
 
-    // Create SSE stream
-    const stream = await realtimeManager.createSSEStream(attemptId, connectionId);
+    // Create SSE stream; it ends once the attempt is resumed under another session
+    const stream = await realtimeManager.createSSEStream(attemptId, connectionId, {
+      sessionId: session.sessionId,
+      lastEventId: Number.isSafeInteger(lastEventId) && lastEventId > 0 ? lastEventId : null,
+    });
 
     // Return SSE response
-    return new Response(stream, {
+    return rotateAttemptSession(new Response(stream, {
       headers: {
         "Content-Type": "text/event-stream",
         "Cache-Control": "no-cache",
@@ -37,9 +45,10 @@ export async function GET(
         "Access-Control-Allow-Methods": "GET",
         "Access-Control-Allow-Headers": "Cache-Control"
       }
-    });
+    }), session);
 
   } catch (error: any) {
+    if (error instanceof Response) return error;
     console.error("SSE endpoint error:", error);
     return NextResponse.json(
       { error: error.message || "sse_error" },
@@ -1,21 +1,24 @@
 import { NextRequest, NextResponse } from "next/server";
 import { supabaseServer } from "@/lib/supabase/server";
+import { requireAttemptSession, rotateAttemptSession } from "@/lib/attemptSession";
 
 export const dynamic = "force-dynamic";
 
 export async function GET(
-  _req: NextRequest,
+  req: NextRequest,
   ctx: { params: Promise<{ attemptId: string }> }
 ) {
   try {
-    const supabase = supabaseServer();
     const { attemptId } = await ctx.params;
+    const session = await requireAttemptSession(req, attemptId);
+    const supabase = supabaseServer();
     const { data, error } = await supabase.rpc("get_attempt_state", {
       p_attempt_id: attemptId,
     });
     if (error) return NextResponse.json({ error: error.message }, { status: 400 });
-    return NextResponse.json(data);
+    return rotateAttemptSession(NextResponse.json(data), session);
   } catch (e: any) {
+    if (e instanceof Response) return e;
     return NextResponse.json({ error: e?.message || "unexpected_error" }, { status: 500 });
   }
 }
@@ -1,13 +1,16 @@
 import { NextRequest, NextResponse } from "next/server";
 import { supabaseServer } from "@/lib/supabase/server";
+import { requireAttemptSession, rotateAttemptSession } from "@/lib/attemptSession";
+import { resultVisibility, type ResultReleaseState } from "@/lib/resultRelease";
 
 export async function POST(
-  _req: NextRequest,
+  req: NextRequest,
   ctx: { params: Promise<{ attemptId: string }> }
 ) {
   try {
-    const supabase = supabaseServer();
     const { attemptId } = await ctx.params;
+    const session = await requireAttemptSession(req, attemptId);
+    const supabase = supabaseServer();
     const { data, error } = await supabase.rpc("submit_attempt", {
       p_attempt_id: attemptId,
     });
@@ -29,12 +32,23 @@ export async function POST(
       // Non-fatal: proceed to return submission summary
     }
     const row = Array.isArray(data) ? data[0] : data;
-    return NextResponse.json({
+    // The score only goes back to the student once the exam's results are released
+    const { data: attempt } = await supabase
+      .from("exam_attempts")
+      .select("exams(results_visibility, results_release_at)")
+      .eq("id", attemptId)
+      .maybeSingle();
+    const exams: unknown = attempt?.exams;
+    const exam = ((Array.isArray(exams) ? exams[0] : exams) ?? null) as ResultReleaseState | null;
+    const released = !!exam && resultVisibility(exam) !== "hidden";
+    return rotateAttemptSession(NextResponse.json({
       total_questions: row?.total_questions ?? 0,
-      correct_count: row?.correct_count ?? 0,
-      score_percentage: row?.score_percentage ?? 0,
-    });
+      ...(released
+        ? { correct_count: row?.correct_count ?? 0, score_percentage: row?.score_percentage ?? 0 }
+        : {}),
+    }), session);
   } catch (e: any) {
+    if (e instanceof Response) return e;
     return NextResponse.json({ error: e?.message || "unexpected_error" }, { status: 500 });
   }
 }
@@ -1,10 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
 import { supabaseServer } from "@/lib/supabase/server";
+import { requireAttemptSession, rotateAttemptSession } from "@/lib/attemptSession";
 
 export async function POST(request: NextRequest, ctx: { params: Promise<{ attemptId: string }> }) {
   try {
     const { attemptId } = await ctx.params;
     if (!attemptId) return NextResponse.json({ error: "missing_attempt_id" }, { status: 400 });
+    const session = await requireAttemptSession(request, attemptId);
 
     const formData = await request.formData();
     const file = formData.get("image") as File | null;
@@ -51,8 +53,9 @@ export async function POST(request: NextRequest, ctx: { params: Promise<{ attemp
     const url = urlData?.publicUrl;
     if (!url) return NextResponse.json({ error: "url_error" }, { status: 500 });
 
-    return NextResponse.json({ ok: true, url, path });
+    return rotateAttemptSession(NextResponse.json({ ok: true, url, path }), session);
   } catch (e: any) {
+    if (e instanceof Response) return e;
     return NextResponse.json({ error: e?.message || "unexpected_error" }, { status: 500 });
   }
 }
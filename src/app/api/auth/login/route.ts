@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { supabaseServer } from "@/lib/supabase/server";
 import { SignJWT } from "jose";
+import { ROLES, permissionsForRole } from "@/lib/auth/edge-permissions";
 
 function getAuthSecret() {
   return (
@@ -40,11 +41,14 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: "forbidden" }, { status: 403 });
     }
 
+    const role = (row.role as string | null) || ROLES.SUPER_ADMIN.name;
     const payload = {
       sub: row.user_id as string,
       email: row.email as string | null,
       username: row.username as string | null,
       is_admin: true,
+      role,
+      permissions: permissionsForRole(role),
     };
 
     const secret = new TextEncoder().encode(getAuthSecret());
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { timingSafeEqual } from "crypto";
+import { supabaseServer } from "@/lib/supabase/server";
+import { processMessageQueue } from "@/lib/messaging/queue";
+
+export const dynamic = "force-dynamic";
+
+function authorized(req: NextRequest, secret: string): boolean {
+  const header = req.headers.get("authorization") || "";
+  const given = Buffer.from(header.startsWith("Bearer ") ? header.slice(7) : "");
+  const expected = Buffer.from(secret);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+// Called by the scheduled function with CRON_SECRET; sends due queued messages
+export async function POST(req: NextRequest) {
+  try {
+    const secret = process.env.CRON_SECRET;
+    if (!secret) return NextResponse.json({ error: "scheduler_not_configured" }, { status: 503 });
+    if (!authorized(req, secret)) return NextResponse.json({ error: "unauthorized" }, { status: 401 });
+
+    const result = await processMessageQueue(supabaseServer());
+    return NextResponse.json({ ran_at: new Date().toISOString(), ...result });
+  } catch (e: any) {
+    console.error("Message queue error:", e);
+    return NextResponse.json({ error: e?.message || "unexpected_error" }, { status: 500 });
+  }
+}
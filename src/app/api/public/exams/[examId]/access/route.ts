@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { cookies, headers } from "next/headers";
 import { supabaseServer } from "@/lib/supabase/server";
 import { getClientIp } from "@/lib/ip";
+import { issueAttemptSession } from "@/lib/attemptSession";
 
 export async function POST(
   req: NextRequest,
@@ -133,10 +134,16 @@ export async function POST(
       maxAge: 60 * 60 * 3, // 3h safe default
     });
 
-    return NextResponse.json({ 
+    const res = NextResponse.json({ 
       attemptId,
       studentName: finalStudentName 
     });
+    // The attempt routes only answer to the holder of this session token
+    res.headers.append(
+      "Set-Cookie",
+      await issueAttemptSession(req.headers.get("user-agent"), attemptId, row.session_id, row.bind_device === true)
+    );
+    return res;
   } catch (e: any) {
     return NextResponse.json(
       { error: e?.message || "unexpected_error" },
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { supabaseServer } from "@/lib/supabase/server";
 import { getCodeFormatSettings, validateCodeFormat } from "@/lib/codeGenerator";
+import { attemptsAllowed, parseAttemptPolicy } from "@/lib/attemptPolicy";
 
 export const dynamic = "force-dynamic";
 export const revalidate = 0;
@@ -43,7 +44,7 @@ export async function GET(req: NextRequest) {
     // 2) Fetch all published code-based exams
     const { data: exams, error: exErr } = await svc
       .from("exams")
-      .select("id, title, description, duration_minutes, start_time, end_time, status, access_type")
+      .select("id, title, description, duration_minutes, start_time, end_time, status, access_type, settings")
       .eq("status", "published")
       .eq("access_type", "code_based")
       .order("created_at", { ascending: false });
@@ -53,7 +54,26 @@ export async function GET(req: NextRequest) {
       return NextResponse.json({ valid: false, exams: [] }, { status: 500 });
     }
 
-    const examIds = (exams || []).map((e: any) => e.id);
+    // Exams assigned to groups only show to their members; unassigned exams show to everyone
+    const [assigned, memberships] = await Promise.all([
+      svc.from("exam_groups").select("exam_id, group_id").in("exam_id", (exams || []).map((e: { id: string }) => e.id)),
+      svc.from("student_group_members").select("group_id").eq("student_id", studentId),
+    ]);
+    if (assigned.error || memberships.error) {
+      console.error("by-code groups error:", assigned.error || memberships.error);
+      return NextResponse.json({ valid: false, exams: [] }, { status: 500 });
+    }
+    const myGroups = new Set((memberships.data || []).map((m: { group_id: string }) => m.group_id));
+    const examGroups = new Map<string, string[]>();
+    for (const row of (assigned.data || []) as { exam_id: string; group_id: string }[]) {
+      examGroups.set(row.exam_id, [...(examGroups.get(row.exam_id) ?? []), row.group_id]);
+    }
+    const visible = (exams || []).filter((e: { id: string }) => {
+      const groups = examGroups.get(e.id);
+      return !groups || groups.some((g) => myGroups.has(g));
+    });
+
+    const examIds = visible.map((e: any) => e.id);
 
     // Early return if no exams
     if (!examIds.length) {
@@ -63,25 +83,44 @@ export async function GET(req: NextRequest) {
     // 3) Fetch student's attempts per exam
     const { data: attempts, error: attErr } = await svc
       .from("student_exam_attempts")
-      .select("exam_id, status, attempt_id")
+      .select("exam_id, status, attempt_id, started_at")
       .eq("student_id", studentId)
-      .in("exam_id", examIds);
+      .in("exam_id", examIds)
+      .order("started_at", { ascending: true });
 
     if (attErr) {
       console.error("by-code attempts error:", attErr);
       // Non-fatal - continue without attempt statuses
     }
 
+    // Latest attempt per exam, and how many the student has used
     const attemptsMap = new Map<string, { status: string | null; attempt_id: string | null }>();
+    const usedMap = new Map<string, number>();
     for (const row of attempts || []) {
       attemptsMap.set((row as any).exam_id, {
         status: (row as any).status || null,
         attempt_id: (row as any).attempt_id || null,
       });
+      const examId = (row as { exam_id: string }).exam_id;
+      usedMap.set(examId, (usedMap.get(examId) ?? 0) + 1);
+    }
+
+    // Attempts granted by an admin on top of each exam's attempt_limit
+    const { data: extras, error: extraErr } = await svc
+      .from("student_exam_extra_attempts")
+      .select("exam_id, extra_attempts")
+      .eq("student_id", studentId)
+      .in("exam_id", examIds);
+    if (extraErr) {
+      console.error("by-code extra attempts error:", extraErr);
+      // Non-fatal - continue without granted attempts
     }
+    const extraMap = new Map<string, number>(
+      ((extras || []) as { exam_id: string; extra_attempts: number }[]).map((row) => [row.exam_id, Number(row.extra_attempts) || 0])
+    );
 
     const now = new Date();
-    const result = (exams || []).map((e: any) => {
+    const result = visible.map((e: any) => {
       const start = e.start_time ? new Date(e.start_time) : null;
       const end = e.end_time ? new Date(e.end_time) : null;
       const not_started = !!(start && now < start);
@@ -90,6 +129,9 @@ export async function GET(req: NextRequest) {
       const at = attemptsMap.get(e.id) || { status: null, attempt_id: null };
       const attempt_status = (at.status as "in_progress" | "completed" | null) || null;
       const already_attempted = attempt_status === "in_progress" || attempt_status === "completed";
+      const allowed = attemptsAllowed(parseAttemptPolicy(e.settings), extraMap.get(e.id) ?? 0);
+      const attempts_used = usedMap.get(e.id) ?? 0;
+      const attempts_remaining = allowed === null ? null : Math.max(0, allowed - attempts_used);
       return {
         id: e.id,
         title: e.title,
@@ -105,6 +147,8 @@ export async function GET(req: NextRequest) {
         attempt_status,
         attempt_id: at.attempt_id,
         already_attempted,
+        attempts_used,
+        attempts_remaining,
       };
     });
 
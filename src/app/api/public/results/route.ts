@@ -1,6 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
 import { supabaseServer } from "@/lib/supabase/server";
 import { getCodeFormatSettings, validateCodeFormat } from "@/lib/codeGenerator";
+import { parseAttemptPolicy, withAttemptHistory } from "@/lib/attemptPolicy";
+import { parseReviewPolicy, reviewBlocker } from "@/lib/review";
+import { gradeResult, parseResultPolicy, resultVisibility } from "@/lib/resultRelease";
+import { isPracticeMode } from "@/lib/practice";
 
 export async function GET(request: NextRequest) {
   try {
@@ -54,8 +58,8 @@ export async function GET(request: NextRequest) {
       query = svc
         .from("exam_attempts")
         .select(
-          `id, exam_id, completion_status, submitted_at,
-           exams(title, settings),
+          `id, exam_id, student_id, completion_status, started_at, submitted_at,
+           exams(title, settings, results_visibility, results_release_at),
            students(student_name, code),
            exam_results!inner(score_percentage)`
         )
@@ -67,8 +71,8 @@ export async function GET(request: NextRequest) {
       query = svc
         .from("exam_attempts")
         .select(
-          `id, exam_id, completion_status, submitted_at,
-           exams(title, settings),
+          `id, exam_id, student_id, completion_status, started_at, submitted_at,
+           exams(title, settings, results_visibility, results_release_at),
            exam_results!inner(score_percentage),
            student_exam_attempts!inner(
              students!inner(student_name, code)
@@ -97,7 +101,7 @@ export async function GET(request: NextRequest) {
     
     console.log(`Query returned ${data?.length || 0} results`);
 
-    const items = (data || []).map((row: any) => {
+    const rows = (data || []).map((row: any) => {
       // derive student info depending on mode and join shape (object vs array)
       let student_name = "Anonymous";
       let student_code = "";
@@ -114,27 +118,105 @@ export async function GET(request: NextRequest) {
         student_name = stuObj?.student_name || student_name;
         student_code = stuObj?.code || student_code;
       }
-      // compute pass/fail based on exam.settings.pass_percentage
       const rawScore = row.exam_results?.score_percentage;
       const score_percentage = rawScore === null || rawScore === undefined ? null : Number(rawScore);
-      const passThresholdRaw = row.exams?.settings?.pass_percentage;
-      const pass_threshold = passThresholdRaw === null || passThresholdRaw === undefined ? null : Number(passThresholdRaw);
-      const is_pass = (typeof score_percentage === 'number' && !Number.isNaN(score_percentage) && typeof pass_threshold === 'number' && !Number.isNaN(pass_threshold))
-        ? score_percentage >= pass_threshold
-        : null;
       return {
-        id: row.id,
-        exam_id: row.exam_id,
+        id: row.id as string,
+        exam_id: row.exam_id as string,
+        student_id: (row.student_id as string | null) ?? null,
         exam_title: row.exams?.title || "Unknown Exam",
+        settings: row.exams?.settings ?? null,
+        results_visibility: (row.exams?.results_visibility as string | null) ?? null,
+        results_release_at: (row.exams?.results_release_at as string | null) ?? null,
         student_name,
         student_code,
         completion_status: row.completion_status,
+        started_at: (row.started_at as string | null) ?? null,
         submitted_at: row.submitted_at,
         score_percentage,
-        pass_threshold,
-        is_pass,
       };
-    });
+    }).filter((r) => !isPracticeMode(r.settings)); // practice exams are ungraded
+
+    // One item per student and exam: the official score under exams.settings.score_policy,
+    // with every graded attempt listed as history. Results under embargo (exams.results_visibility
+    // and results_release_at) only say they are pending; "released" leaves out history and review.
+    const byExam = new Map<string, typeof rows>();
+    for (const r of rows) {
+      const list = byExam.get(r.exam_id) ?? [];
+      list.push(r);
+      byExam.set(r.exam_id, list);
+    }
+    const items = [];
+    for (const examRows of byExam.values()) {
+      const policy = parseAttemptPolicy(examRows[0].settings);
+      const review = parseReviewPolicy(examRows[0].settings);
+      const resultPolicy = parseResultPolicy(examRows[0].settings);
+      const visibility = resultVisibility(examRows[0]);
+      const ranked = withAttemptHistory(examRows, policy.score_policy, (r) => r.score_percentage);
+      const byStudent = new Map<string, typeof ranked>();
+      for (const r of ranked) {
+        const key = r.student_id ?? r.id;
+        const list = byStudent.get(key) ?? [];
+        list.push(r);
+        byStudent.set(key, list);
+      }
+      for (const attempts of byStudent.values()) {
+        attempts.sort((a, b) => a.attempt_number - b.attempt_number);
+        const latest = attempts[attempts.length - 1];
+        const official = attempts.find((a) => a.is_official) ?? latest;
+        if (visibility === "hidden") {
+          items.push({
+            id: latest.id,
+            exam_id: latest.exam_id,
+            exam_title: latest.exam_title,
+            student_name: latest.student_name,
+            student_code: latest.student_code,
+            completion_status: latest.completion_status,
+            submitted_at: latest.submitted_at,
+            score_percentage: null,
+            pass_threshold: null,
+            is_pass: null,
+            grade: null,
+            results_pending: true,
+            // Only a scheduled release has a date to show
+            release_at: latest.results_visibility === "hidden" ? null : latest.results_release_at,
+            review_available: false,
+            attempts: [],
+          });
+          continue;
+        }
+        const score_percentage = latest.official_score;
+        const { is_pass, grade } = gradeResult(score_percentage, resultPolicy);
+        const details = visibility === "released_with_details";
+        items.push({
+          id: official.id,
+          exam_id: latest.exam_id,
+          exam_title: latest.exam_title,
+          student_name: latest.student_name,
+          student_code: latest.student_code,
+          completion_status: latest.completion_status,
+          submitted_at: latest.submitted_at,
+          score_percentage,
+          pass_threshold: resultPolicy.pass_percentage,
+          is_pass,
+          grade,
+          results_pending: false,
+          release_at: null,
+          score_policy: policy.score_policy,
+          review_available: details && reviewBlocker(review, official.submitted_at) === null,
+          attempts: !details ? [] : attempts.map((a) => ({
+            id: a.id,
+            attempt_number: a.attempt_number,
+            submitted_at: a.submitted_at,
+            score_percentage: a.score_percentage,
+            is_official: a.is_official,
+            // The review page still asks for the student's code
+            review_available: reviewBlocker(review, a.submitted_at) === null,
+          })),
+        });
+      }
+    }
+    items.sort((a, b) => new Date(b.submitted_at ?? 0).getTime() - new Date(a.submitted_at ?? 0).getTime());
 
     return NextResponse.json({ items });
   } catch (error) {
@@ -3,6 +3,9 @@ import { UnifiedAPIHandler, APIRequest, APIResponse } from "@/lib/api/unified-ha
 import { supabaseServer } from "@/lib/supabase/server";
 import { getCodeFormatSettings, validateCodeFormat } from "@/lib/codeGenerator";
 import { getClientIp } from "@/lib/ip";
+import { issueAttemptSession } from "@/lib/attemptSession";
+import { gradeResult, parseResultPolicy, resultVisibility } from "@/lib/resultRelease";
+import { isPracticeMode } from "@/lib/practice";
 import { cookies, headers } from "next/headers";
 import { 
   getCachedSystemMode, 
@@ -234,7 +237,7 @@ class PublicAPIHandler extends UnifiedAPIHandler {
           .from("exam_attempts")
           .select(
             `id, exam_id, completion_status, submitted_at,
-             exams(title, settings),
+             exams(title, settings, results_visibility, results_release_at),
              students(student_name, code),
              exam_results!inner(score_percentage)`
           )
@@ -247,7 +250,7 @@ class PublicAPIHandler extends UnifiedAPIHandler {
           .from("exam_attempts")
           .select(
             `id, exam_id, completion_status, submitted_at,
-             exams(title, settings),
+             exams(title, settings, results_visibility, results_release_at),
              exam_results!inner(score_percentage),
              student_exam_attempts!inner(
                students!inner(student_name, code)
@@ -277,6 +280,8 @@ class PublicAPIHandler extends UnifiedAPIHandler {
       console.log(`Query returned ${data?.length || 0} results`);
 
       const items = (data || []).map((row: any) => {
+        // Practice exams are ungraded and never appear in results
+        if (isPracticeMode(row.exams?.settings)) return null;
         // derive student info depending on mode and join shape (object vs array)
         let student_name = "Anonymous";
         let student_code = "";
@@ -294,14 +299,12 @@ class PublicAPIHandler extends UnifiedAPIHandler {
           student_code = stuObj?.code || student_code;
         }
         
-        // compute pass/fail based on exam.settings.pass_percentage
+        // Results under embargo only say they are pending
+        const pending = resultVisibility(row.exams) === "hidden";
         const rawScore = row.exam_results?.score_percentage;
-        const score_percentage = rawScore === null || rawScore === undefined ? null : Number(rawScore);
-        const passThresholdRaw = row.exams?.settings?.pass_percentage;
-        const pass_threshold = passThresholdRaw === null || passThresholdRaw === undefined ? null : Number(passThresholdRaw);
-        const is_pass = (typeof score_percentage === 'number' && !Number.isNaN(score_percentage) && typeof pass_threshold === 'number' && !Number.isNaN(pass_threshold))
-          ? score_percentage >= pass_threshold
-          : null;
+        const score_percentage = pending || rawScore === null || rawScore === undefined ? null : Number(rawScore);
+        const resultPolicy = parseResultPolicy(row.exams?.settings);
+        const { is_pass, grade } = gradeResult(score_percentage, resultPolicy);
           
         return {
           id: row.id,
@@ -312,10 +315,12 @@ class PublicAPIHandler extends UnifiedAPIHandler {
           completion_status: row.completion_status,
           submitted_at: row.submitted_at,
           score_percentage,
-          pass_threshold,
+          pass_threshold: pending ? null : resultPolicy.pass_percentage,
           is_pass,
+          grade,
+          results_pending: pending,
         };
-      });
+      }).filter((item) => item !== null);
 
       return { data: { items } };
     } catch (error) {
@@ -548,15 +553,14 @@ class PublicAPIHandler extends UnifiedAPIHandler {
         }
       }
 
-      // Note: Cookie setting would need to be handled at the Next.js level
-      // This is a limitation of the unified handler approach
+      // Responses carry a single Set-Cookie here, so only the attempt session token is set
       return { 
         data: { 
           attemptId,
           studentName: finalStudentName 
         },
         headers: {
-          'Set-Cookie': `attemptId=${attemptId}; HttpOnly; Secure=${process.env.NODE_ENV === 'production'}; SameSite=Lax; Path=/; Max-Age=${60 * 60 * 3}`
+          'Set-Cookie': await issueAttemptSession(request.headers['user-agent'], attemptId, row.session_id, row.bind_device === true)
         }
       };
     } catch (e: any) {
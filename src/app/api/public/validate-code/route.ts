@@ -15,7 +15,7 @@ export async function GET(request: NextRequest) {
 
     const svc = supabaseServer();
 
-    // When examId is provided, validate the code within that exam scope and ensure it's unused
+    // When examId is provided, validate the code within that exam scope and ensure it has an attempt left
     if (examId) {
       // 1) Find student by global code
       const { data: stuRows, error: stuErr } = await svc
@@ -38,12 +38,24 @@ export async function GET(request: NextRequest) {
 
       const studentId = (stuRows[0] as { id: string }).id;
 
-      // 2) Ensure no prior attempt for this student+exam via student_exam_attempts
-      const { count: attCount, error: attErr } = await svc
-        .from("student_exam_attempts")
-        .select("id", { count: "exact", head: true })
-        .eq("exam_id", examId)
-        .eq("student_id", studentId);
+      // 2) Exams assigned to groups only admit their members
+      const { data: assigned, error: assignErr } = await svc.rpc("student_assigned_to_exam", {
+        p_exam_id: examId,
+        p_student_id: studentId,
+      });
+      if (assignErr) {
+        console.error("validate-code assignment error:", assignErr);
+        return NextResponse.json({ valid: false }, { status: 500 });
+      }
+      if (assigned === false) {
+        return NextResponse.json({ valid: false, reason: "not_assigned" });
+      }
+
+      // 3) Ensure the student has an attempt left on this exam (null = unlimited)
+      const { data: remaining, error: attErr } = await svc.rpc("student_attempts_remaining", {
+        p_exam_id: examId,
+        p_student_id: studentId,
+      });
 
       if (attErr) {
         if (attErr.code === "42P01" || attErr.code === "42703") {
@@ -53,7 +65,7 @@ export async function GET(request: NextRequest) {
         return NextResponse.json({ valid: false }, { status: 500 });
       }
 
-      if ((attCount ?? 0) > 0) {
+      if (typeof remaining === "number" && remaining <= 0) {
         return NextResponse.json({ valid: false, reason: "used" });
       }
       return NextResponse.json({ valid: true });
@@ -4,6 +4,7 @@ import { Suspense, useEffect, useState } from "react";
 import { useRouter, usePathname, useSearchParams } from "next/navigation";
 import { AdminGuardProps } from "./types";
 import { authFetch } from "@/lib/authFetch";
+import { AdminSessionContext, type AdminSessionInfo } from "@/hooks/useAdmin";
 
 function AdminGuardInner({ children }: AdminGuardProps) {
   const router = useRouter();
@@ -11,6 +12,7 @@ function AdminGuardInner({ children }: AdminGuardProps) {
   const searchParams = useSearchParams();
   const [checking, setChecking] = useState(true);
   const [allowed, setAllowed] = useState(false);
+  const [session, setSession] = useState<AdminSessionInfo | null>(null);
 
   useEffect(() => {
     let cancelled = false;
@@ -18,6 +20,9 @@ function AdminGuardInner({ children }: AdminGuardProps) {
       try {
         const res = await authFetch("/api/admin/whoami");
         if (!cancelled && res.ok) {
+          const data = await res.json().catch(() => ({}));
+          if (cancelled) return;
+          setSession(data.user ?? null);
           setAllowed(true);
         } else if (!cancelled) {
           const qs = searchParams?.toString();
@@ -49,7 +54,7 @@ function AdminGuardInner({ children }: AdminGuardProps) {
   }
 
   if (!allowed) return null;
-  return <>{children}</>;
+  return <AdminSessionContext.Provider value={session}>{children}</AdminSessionContext.Provider>;
 }
 
 export default function AdminGuard(props: AdminGuardProps) {
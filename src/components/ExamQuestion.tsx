@@ -2,11 +2,15 @@
 
 import React, { useId } from "react";
 import { clsx } from "clsx";
-import type { Question, QuestionType } from "@/lib/types";
+import type { AnnotationPoint, Question, QuestionFeedback, QuestionType } from "@/lib/types";
 import { useStudentLocale } from "@/components/public/PublicLocaleProvider";
 import { t as translate } from "@/i18n/student";
+import ImageAnnotationInput from "@/components/ExamQuestion/inputs/ImageAnnotationInput";
+import OrderingInput from "@/components/ExamQuestion/inputs/OrderingInput";
+import MatchingInput from "@/components/ExamQuestion/inputs/MatchingInput";
+import { parseMatchingOptions } from "@/lib/sequenceAnswer";
 
-export type AnswerValue = string | boolean | string[] | null;
+export type AnswerValue = string | boolean | string[] | AnnotationPoint[] | null;
 
 export default function ExamQuestion({
   q,
@@ -15,6 +19,10 @@ export default function ExamQuestion({
   disabled,
   onSave,
   attemptId,
+  feedback,
+  onCheck,
+  checking,
+  reviewing,
 }: {
   q: Question;
   value: AnswerValue;
@@ -22,6 +30,12 @@ export default function ExamQuestion({
   disabled?: boolean;
   onSave?: () => void;
   attemptId?: string | null;
+  // Practice exams: the last checked verdict for the current answer, and how to ask for one
+  feedback?: QuestionFeedback | null;
+  onCheck?: () => void;
+  checking?: boolean;
+  // Post-exam review: the feedback is final, so the verdict does not invite another try
+  reviewing?: boolean;
 }) {
   const id = useId();
   const qType = q.question_type as QuestionType;
@@ -44,9 +58,21 @@ export default function ExamQuestion({
     onChange(null);
   };
   
+  // Options the key marks correct, for highlighting choice questions once checked
+  const keyOptions = new Set(
+    feedback
+      ? (Array.isArray(feedback.correct_answers) ? feedback.correct_answers : [feedback.correct_answers]).map((x) => JSON.stringify(x))
+      : []
+  );
+  const optionClass = (opt: string | boolean, isSelected: boolean) => {
+    if (feedback && keyOptions.has(JSON.stringify(opt))) return 'border-green-500 bg-green-50';
+    if (feedback && isSelected) return 'border-red-500 bg-red-50';
+    return isSelected ? 'border-blue-500 bg-blue-50' : 'border-[var(--border)] hover:border-[var(--ring)] hover:bg-[var(--muted)]/50';
+  };
+
   // Check if question is answered
   const isAnswered = () => {
-    if (qType === "paragraph") {
+    if (qType === "paragraph" || qType === "short_answer") {
       return typeof value === "string" && value.trim().length > 0;
     } else if (qType === "true_false") {
       return typeof value === "boolean";
@@ -119,6 +145,46 @@ export default function ExamQuestion({
       <div className="mt-4">
         {renderInput(qType)}
       </div>
+      {onCheck && !feedback && (
+        <button
+          type="button"
+          className="btn btn-outline"
+          onClick={onCheck}
+          disabled={disabled || checking || !isAnswered()}
+        >
+          {checking ? translate(locale, 'checking_answer') : translate(locale, 'check_answer')}
+        </button>
+      )}
+      {feedback && (
+        <div
+          role="status"
+          className={clsx(
+            "rounded-lg border p-4 space-y-2 text-sm",
+            feedback.correct === true && "border-green-300 bg-green-50 text-green-900",
+            feedback.correct === false && "border-red-300 bg-red-50 text-red-900",
+            feedback.correct === null && "border-[var(--border)] bg-[var(--muted)]"
+          )}
+        >
+          <p className="font-semibold">
+            {feedback.correct === true
+              ? translate(locale, reviewing ? 'review_correct' : 'feedback_correct')
+              : feedback.correct === false
+                ? translate(locale, reviewing ? 'review_incorrect' : 'feedback_incorrect')
+                : translate(locale, reviewing ? 'review_manual' : 'feedback_manual')}
+          </p>
+          {feedback.answer_text && (
+            <p dir="auto">
+              <span className="font-medium">{translate(locale, 'feedback_answer')}</span> {feedback.answer_text}
+            </p>
+          )}
+          {feedback.explanation && (
+            <div>
+              <p className="font-medium">{translate(locale, 'feedback_explanation')}</p>
+              <p className="whitespace-pre-line" dir="auto">{feedback.explanation}</p>
+            </div>
+          )}
+        </div>
+      )}
     </div>
   );
 
@@ -129,9 +195,7 @@ export default function ExamQuestion({
         const v = value as boolean | null | undefined;
         return (
           <div className="grid grid-cols-1 sm:grid-cols-2 gap-3" role="radiogroup" aria-labelledby={legendId}>
-            <label className={`flex items-center gap-3 p-4 border rounded-lg cursor-pointer transition-all ${
-              v === true ? 'border-blue-500 bg-blue-50' : 'border-[var(--border)] hover:border-[var(--ring)] hover:bg-[var(--muted)]/50'
-            }`}>
+            <label className={`flex items-center gap-3 p-4 border rounded-lg cursor-pointer transition-all ${optionClass(true, v === true)}`}>
               <input
                 type="radio"
                 name={id}
@@ -143,9 +207,7 @@ export default function ExamQuestion({
               />
               <span className="font-medium">{translate(locale, 'true')}</span>
             </label>
-            <label className={`flex items-center gap-3 p-4 border rounded-lg cursor-pointer transition-all ${
-              v === false ? 'border-blue-500 bg-blue-50' : 'border-[var(--border)] hover:border-[var(--ring)] hover:bg-[var(--muted)]/50'
-            }`}>
+            <label className={`flex items-center gap-3 p-4 border rounded-lg cursor-pointer transition-all ${optionClass(false, v === false)}`}>
               <input
                 type="radio"
                 name={id}
@@ -169,9 +231,7 @@ export default function ExamQuestion({
               const optionLetter = String.fromCharCode(65 + idx); // A, B, C, D...
               const isSelected = v === opt;
               return (
-                <label key={idx} className={`flex items-start gap-4 p-4 border rounded-lg cursor-pointer transition-all ${
-                  isSelected ? 'border-blue-500 bg-blue-50' : 'border-[var(--border)] hover:border-[var(--ring)] hover:bg-[var(--muted)]/50'
-                }`}>
+                <label key={idx} className={`flex items-start gap-4 p-4 border rounded-lg cursor-pointer transition-all ${optionClass(opt, isSelected)}`}>
                   <input
                     type="radio"
                     name={id}
@@ -215,9 +275,7 @@ export default function ExamQuestion({
               const optionLetter = String.fromCharCode(65 + idx); // A, B, C, D...
               const isSelected = v.includes(opt);
               return (
-                <label key={idx} className={`flex items-start gap-4 p-4 border rounded-lg cursor-pointer transition-all ${
-                  isSelected ? 'border-blue-500 bg-blue-50' : 'border-[var(--border)] hover:border-[var(--ring)] hover:bg-[var(--muted)]/50'
-                }`}>
+                <label key={idx} className={`flex items-start gap-4 p-4 border rounded-lg cursor-pointer transition-all ${optionClass(opt, isSelected)}`}>
                   <input
                     type="checkbox"
                     disabled={disabled}
@@ -346,6 +404,116 @@ export default function ExamQuestion({
           </div>
         );
       }
+      case "short_answer": {
+        const v = typeof value === "string" ? value : "";
+        return (
+          <input
+            type="text"
+            className={clsx(
+              "w-full border border-[var(--border)] rounded-lg p-3 text-[var(--foreground)] bg-[var(--input)] transition-all",
+              "focus:border-[var(--ring)] focus:ring-2 focus:ring-[var(--ring)]/20 focus:outline-none",
+              disabled && "opacity-70 cursor-not-allowed"
+            )}
+            disabled={disabled}
+            value={v}
+            onChange={(e) => handleChange(e.target.value)}
+            aria-labelledby={legendId}
+            aria-required={q.required || undefined}
+            placeholder={translate(locale, 'type_answer_here')}
+            dir="auto"
+            autoComplete="off"
+            spellCheck={false}
+            autoCorrect="off"
+            autoCapitalize="off"
+            translate="no"
+          />
+        );
+      }
+      case "numeric": {
+        const v = typeof value === "string" ? value : "";
+        return (
+          <div className="space-y-2">
+            <input
+              type="text"
+              inputMode="decimal"
+              className={clsx(
+                "w-full max-w-sm border border-[var(--border)] rounded-lg p-3 text-[var(--foreground)] bg-[var(--input)] font-mono transition-all",
+                "focus:border-[var(--ring)] focus:ring-2 focus:ring-[var(--ring)]/20 focus:outline-none",
+                disabled && "opacity-70 cursor-not-allowed"
+              )}
+              disabled={disabled}
+              value={v}
+              onChange={(e) => handleChange(e.target.value)}
+              aria-labelledby={legendId}
+              aria-required={q.required || undefined}
+              placeholder={translate(locale, 'numeric_answer_placeholder')}
+              dir="ltr"
+              autoComplete="off"
+              spellCheck={false}
+              translate="no"
+            />
+            <p className="text-xs text-[var(--muted-foreground)]">{translate(locale, 'numeric_answer_hint')}</p>
+          </div>
+        );
+      }
+      case "ordering": {
+        const items = Array.isArray(q.options) ? q.options : [];
+        const v = Array.isArray(value) ? (value as string[]) : null;
+        return (
+          <OrderingInput
+            items={items}
+            value={v}
+            onChange={(val) => handleChange(val)}
+            disabled={disabled}
+            required={q.required}
+            id={id}
+            legendId={legendId}
+            labels={{ hint: translate(locale, 'ordering_hint'), confirm: translate(locale, 'ordering_keep_order') }}
+          />
+        );
+      }
+      case "matching": {
+        const { left, right } = parseMatchingOptions(q.options);
+        const v = Array.isArray(value) ? (value as string[]) : [];
+        return (
+          <MatchingInput
+            left={left}
+            right={right}
+            value={v}
+            onChange={(val) => handleChange(val.some((x) => x !== "") ? val : null)}
+            disabled={disabled}
+            required={q.required}
+            id={id}
+            legendId={legendId}
+            labels={{ hint: translate(locale, 'matching_hint'), choose: translate(locale, 'matching_choose') }}
+          />
+        );
+      }
+      case "image_annotation": {
+        const v = Array.isArray(value) ? (value as AnnotationPoint[]) : [];
+        return (
+          <ImageAnnotationInput
+            imageUrl={q.question_image_url || null}
+            value={v}
+            onChange={(points) => handleChange(points.length > 0 ? points : null)}
+            disabled={disabled}
+            required={q.required}
+            id={id}
+            legendId={legendId}
+            labels={{
+              unavailable: translate(locale, 'image_not_available'),
+              hint: translate(locale, 'image_annotation_hint'),
+              add: translate(locale, 'image_annotation_add'),
+              adding: translate(locale, 'image_annotation_adding'),
+              clear: translate(locale, 'image_annotation_clear'),
+              count: translate(locale, 'image_annotation_count'),
+              overlay: translate(locale, 'image_annotation_overlay'),
+              list_title: translate(locale, 'image_annotation_list_title'),
+              label_placeholder: translate(locale, 'image_annotation_label_placeholder'),
+            }}
+          />
+        );
+      }
       default:
         return <div>{translate(locale, 'unsupported_question_type')}</div>;
     }
@@ -3,6 +3,13 @@ import TrueFalseInput from "./inputs/TrueFalseInput";
 import SingleChoiceInput from "./inputs/SingleChoiceInput";
 import MultiSelectInput from "./inputs/MultiSelectInput";
 import ParagraphInput from "./inputs/ParagraphInput";
+import ImageAnnotationInput from "./inputs/ImageAnnotationInput";
+import NumericInput from "./inputs/NumericInput";
+import ShortAnswerInput from "./inputs/ShortAnswerInput";
+import OrderingInput from "./inputs/OrderingInput";
+import MatchingInput from "./inputs/MatchingInput";
+import type { AnnotationPoint } from "@/lib/types";
+import { parseMatchingOptions } from "@/lib/sequenceAnswer";
 
 export default function InputRenderer({
   type,
@@ -73,6 +80,77 @@ export default function InputRenderer({
         />
       );
     }
+    case "short_answer": {
+      const v = typeof value === "string" ? value : "";
+      return (
+        <ShortAnswerInput
+          value={v}
+          onChange={(val) => onChange(val)}
+          disabled={disabled}
+          required={q.required}
+          id={legendId}
+          legendId={legendId}
+        />
+      );
+    }
+    case "numeric": {
+      const v = typeof value === "string" ? value : "";
+      return (
+        <NumericInput
+          value={v}
+          onChange={(val) => onChange(val)}
+          disabled={disabled}
+          required={q.required}
+          id={legendId}
+          legendId={legendId}
+        />
+      );
+    }
+    case "ordering": {
+      const items = Array.isArray(q.options) ? q.options : [];
+      const v = Array.isArray(value) ? (value as string[]) : null;
+      return (
+        <OrderingInput
+          items={items}
+          value={v}
+          onChange={(val) => onChange(val)}
+          disabled={disabled}
+          required={q.required}
+          id={legendId}
+          legendId={legendId}
+        />
+      );
+    }
+    case "matching": {
+      const { left, right } = parseMatchingOptions(q.options);
+      const v = Array.isArray(value) ? (value as string[]) : [];
+      return (
+        <MatchingInput
+          left={left}
+          right={right}
+          value={v}
+          onChange={(val) => onChange(val.some((x) => x !== "") ? val : null)}
+          disabled={disabled}
+          required={q.required}
+          id={legendId}
+          legendId={legendId}
+        />
+      );
+    }
+    case "image_annotation": {
+      const v = Array.isArray(value) ? (value as AnnotationPoint[]) : [];
+      return (
+        <ImageAnnotationInput
+          imageUrl={q.question_image_url || null}
+          value={v}
+          onChange={(val) => onChange(val.length > 0 ? val : null)}
+          disabled={disabled}
+          required={q.required}
+          id={legendId}
+          legendId={legendId}
+        />
+      );
+    }
     default:
       return <div>Unsupported question type</div>;
   }
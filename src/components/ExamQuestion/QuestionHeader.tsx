@@ -52,8 +52,8 @@ export default function QuestionHeader({
         </div>
       </div>
       
-      {/* Question image (optional) */}
-      {q.question_image_url && (
+      {/* Question image (optional); annotation questions draw it in the input */}
+      {q.question_image_url && q.question_type !== "image_annotation" && (
         <div className="mt-2">
           <img
             src={q.question_image_url}
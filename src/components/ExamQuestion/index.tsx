@@ -31,7 +31,7 @@ export default function ExamQuestion({
   
   // Check if question is answered
   const isAnswered = () => {
-    if (t === "paragraph") {
+    if (t === "paragraph" || t === "short_answer") {
       return typeof value === "string" && value.trim().length > 0;
     } else if (t === "true_false") {
       return typeof value === "boolean";
@@ -0,0 +1,32 @@
+import ImageAnnotationQuestion from "@/components/ImageAnnotation/ImageAnnotationQuestion";
+import { ImageAnnotationInputProps } from "../types";
+
+export default function ImageAnnotationInput({
+  imageUrl,
+  value,
+  onChange,
+  disabled,
+  legendId,
+  labels
+}: ImageAnnotationInputProps) {
+  if (!imageUrl) {
+    return (
+      <div className="text-sm text-[var(--muted-foreground)]">{labels?.unavailable ?? "Image not available"}</div>
+    );
+  }
+
+  return (
+    <div className="space-y-2" role="group" aria-labelledby={legendId}>
+      <p className="text-sm text-[var(--muted-foreground)] select-none">
+        {labels?.hint ?? "Click \"Add Annotation\", then click the image to mark each answer point."}
+      </p>
+      <ImageAnnotationQuestion
+        imageUrl={imageUrl}
+        annotations={value}
+        onAnnotationChange={onChange}
+        readonly={disabled}
+        labels={labels}
+      />
+    </div>
+  );
+}
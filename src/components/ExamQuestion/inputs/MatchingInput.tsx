@@ -0,0 +1,141 @@
+import {
+  DndContext,
+  PointerSensor,
+  KeyboardSensor,
+  useSensor,
+  useSensors,
+  useDraggable,
+  useDroppable,
+  type DragEndEvent,
+} from "@dnd-kit/core";
+import { CSS } from "@dnd-kit/utilities";
+import { MatchingInputProps } from "../types";
+
+function AnswerChip({ item, disabled, used }: { item: string; disabled?: boolean; used: boolean }) {
+  const { attributes, listeners, setNodeRef, transform, isDragging } = useDraggable({ id: `right:${item}`, disabled });
+  const style: React.CSSProperties = {
+    transform: CSS.Translate.toString(transform),
+    opacity: isDragging ? 0.6 : undefined,
+    zIndex: isDragging ? 10 : undefined,
+  };
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={style}
+      {...attributes}
+      {...listeners}
+      className={`px-3 py-2 border rounded-lg bg-[var(--card)] text-sm select-none touch-none ${
+        used ? "border-blue-300 text-[var(--muted-foreground)]" : "border-[var(--border)]"
+      } ${disabled ? "opacity-70 cursor-not-allowed" : "cursor-grab active:cursor-grabbing hover:border-[var(--ring)]"}`}
+      dir="auto"
+    >
+      {item}
+    </div>
+  );
+}
+
+function MatchSlot({
+  index,
+  prompt,
+  selected,
+  right,
+  disabled,
+  choose,
+  onSelect,
+}: {
+  index: number;
+  prompt: string;
+  selected: string;
+  right: string[];
+  disabled?: boolean;
+  choose: string;
+  onSelect: (val: string) => void;
+}) {
+  const { setNodeRef, isOver } = useDroppable({ id: `left:${index}`, disabled });
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 items-center">
+      <div className="p-3 rounded-lg bg-[var(--muted)]/50 leading-relaxed" dir="auto">{prompt}</div>
+      <div
+        ref={setNodeRef}
+        className={`rounded-lg border-2 border-dashed p-1 transition-colors ${
+          isOver ? "border-blue-500 bg-blue-50" : selected ? "border-blue-300" : "border-[var(--border)]"
+        }`}
+      >
+        <select
+          className="w-full bg-transparent p-2 rounded focus:outline-none"
+          value={selected}
+          disabled={disabled}
+          onChange={(e) => onSelect(e.target.value)}
+          aria-label={prompt}
+          dir="auto"
+        >
+          <option value="">{choose}</option>
+          {right.map((r) => (
+            <option key={r} value={r}>{r}</option>
+          ))}
+        </select>
+      </div>
+    </div>
+  );
+}
+
+export default function MatchingInput({
+  left,
+  right,
+  value,
+  onChange,
+  disabled,
+  legendId,
+  labels
+}: MatchingInputProps) {
+  const sensors = useSensors(
+    useSensor(PointerSensor, { activationConstraint: { distance: 5 } }),
+    useSensor(KeyboardSensor)
+  );
+  const current = left.map((_, i) => value[i] ?? "");
+
+  const assign = (index: number, item: string) => {
+    const next = current.slice();
+    next[index] = item;
+    onChange(next);
+  };
+
+  const onDragEnd = (event: DragEndEvent) => {
+    const { active, over } = event;
+    if (disabled || !over) return;
+    const item = String(active.id).replace(/^right:/, "");
+    const index = Number(String(over.id).replace(/^left:/, ""));
+    if (Number.isInteger(index) && index >= 0 && index < left.length) assign(index, item);
+  };
+
+  return (
+    <div className="space-y-4" role="group" aria-labelledby={legendId}>
+      <p className="text-sm text-[var(--muted-foreground)] select-none">
+        {labels?.hint ?? "Drag each answer onto its match, or pick it from the list."}
+      </p>
+      <DndContext sensors={sensors} onDragEnd={onDragEnd}>
+        <div className="flex flex-wrap gap-2">
+          {right.map((item) => (
+            <AnswerChip key={item} item={item} disabled={disabled} used={current.includes(item)} />
+          ))}
+        </div>
+        <div className="space-y-2">
+          {left.map((prompt, i) => (
+            <MatchSlot
+              key={i}
+              index={i}
+              prompt={prompt}
+              selected={current[i]}
+              right={right}
+              disabled={disabled}
+              choose={labels?.choose ?? "Choose…"}
+              onSelect={(val) => assign(i, val)}
+            />
+          ))}
+        </div>
+      </DndContext>
+    </div>
+  );
+}
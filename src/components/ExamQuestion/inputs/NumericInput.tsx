@@ -0,0 +1,36 @@
+import { clsx } from "clsx";
+import { NumericInputProps } from "../types";
+
+export default function NumericInput({
+  value,
+  onChange,
+  disabled,
+  required,
+  legendId
+}: NumericInputProps) {
+  return (
+    <div className="space-y-2">
+      <input
+        type="text"
+        inputMode="decimal"
+        className={clsx(
+          "w-full max-w-sm border border-[var(--border)] rounded-lg p-3 text-[var(--foreground)] bg-[var(--input)] font-mono transition-all",
+          "focus:border-[var(--ring)] focus:ring-2 focus:ring-[var(--ring)]/20 focus:outline-none",
+          disabled && "opacity-70 cursor-not-allowed"
+        )}
+        disabled={disabled}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        aria-labelledby={legendId}
+        aria-required={required || undefined}
+        placeholder="e.g. 9.81 m/s^2"
+        dir="ltr"
+        autoComplete="off"
+        spellCheck={false}
+      />
+      <p className="text-xs text-[var(--muted-foreground)]">
+        Enter a number, followed by its unit if the question asks for one.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+import {
+  DndContext,
+  closestCenter,
+  PointerSensor,
+  KeyboardSensor,
+  useSensor,
+  useSensors,
+  type DragEndEvent,
+} from "@dnd-kit/core";
+import {
+  SortableContext,
+  verticalListSortingStrategy,
+  useSortable,
+  arrayMove,
+  sortableKeyboardCoordinates,
+} from "@dnd-kit/sortable";
+import { CSS } from "@dnd-kit/utilities";
+import { OrderingInputProps } from "../types";
+
+function SortableItem({ id, index, disabled }: { id: string; index: number; disabled?: boolean }) {
+  const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({ id, disabled });
+  const style: React.CSSProperties = {
+    transform: CSS.Transform.toString(transform),
+    transition,
+    opacity: isDragging ? 0.6 : undefined,
+  };
+
+  return (
+    <li
+      ref={setNodeRef}
+      style={style}
+      {...attributes}
+      {...listeners}
+      className={`flex items-center gap-3 p-3 border border-[var(--border)] rounded-lg bg-[var(--card)] select-none touch-none ${
+        disabled ? "opacity-70 cursor-not-allowed" : "cursor-grab active:cursor-grabbing hover:border-[var(--ring)]"
+      }`}
+    >
+      <span className="w-6 h-6 rounded-full bg-[var(--muted)] text-[var(--muted-foreground)] flex items-center justify-center text-xs font-medium">
+        {index + 1}
+      </span>
+      <span className="flex-1 leading-relaxed" dir="auto">{id}</span>
+      <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" className="text-[var(--muted-foreground)]" aria-hidden="true">
+        <line x1="4" y1="9" x2="20" y2="9" />
+        <line x1="4" y1="15" x2="20" y2="15" />
+      </svg>
+    </li>
+  );
+}
+
+export default function OrderingInput({
+  items,
+  value,
+  onChange,
+  disabled,
+  legendId,
+  labels
+}: OrderingInputProps) {
+  const sensors = useSensors(
+    useSensor(PointerSensor, { activationConstraint: { distance: 5 } }),
+    useSensor(KeyboardSensor, { coordinateGetter: sortableKeyboardCoordinates })
+  );
+  // Saved order if it still covers the current items, otherwise the presented order
+  const current =
+    value && value.length === items.length && items.every((it) => value.includes(it)) ? value : items;
+
+  const onDragEnd = (event: DragEndEvent) => {
+    const { active, over } = event;
+    if (disabled || !over || active.id === over.id) return;
+    const from = current.indexOf(String(active.id));
+    const to = current.indexOf(String(over.id));
+    if (from < 0 || to < 0) return;
+    onChange(arrayMove(current, from, to));
+  };
+
+  return (
+    <div className="space-y-3" role="group" aria-labelledby={legendId}>
+      <p className="text-sm text-[var(--muted-foreground)] select-none">
+        {labels?.hint ?? "Drag the items into the correct order."}
+      </p>
+      <DndContext sensors={sensors} collisionDetection={closestCenter} onDragEnd={onDragEnd}>
+        <SortableContext items={current} strategy={verticalListSortingStrategy}>
+          <ol className="space-y-2">
+            {current.map((item, index) => (
+              <SortableItem key={item} id={item} index={index} disabled={disabled} />
+            ))}
+          </ol>
+        </SortableContext>
+      </DndContext>
+      {!value && !disabled && items.length > 0 && (
+        <button type="button" className="btn btn-outline" onClick={() => onChange(current)}>
+          {labels?.confirm ?? "Keep this order"}
+        </button>
+      )}
+    </div>
+  );
+}
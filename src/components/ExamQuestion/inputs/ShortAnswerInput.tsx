@@ -0,0 +1,30 @@
+import { clsx } from "clsx";
+import { ShortAnswerInputProps } from "../types";
+
+export default function ShortAnswerInput({
+  value,
+  onChange,
+  disabled,
+  required,
+  legendId
+}: ShortAnswerInputProps) {
+  return (
+    <input
+      type="text"
+      className={clsx(
+        "w-full border border-[var(--border)] rounded-lg p-3 text-[var(--foreground)] bg-[var(--input)] transition-all",
+        "focus:border-[var(--ring)] focus:ring-2 focus:ring-[var(--ring)]/20 focus:outline-none",
+        disabled && "opacity-70 cursor-not-allowed"
+      )}
+      disabled={disabled}
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      aria-labelledby={legendId}
+      aria-required={required || undefined}
+      placeholder="Type your answer here..."
+      dir="auto"
+      autoComplete="off"
+      spellCheck={false}
+    />
+  );
+}
@@ -1,6 +1,7 @@
-import { Question, QuestionType } from "@/lib/types";
+import { AnnotationPoint, Question, QuestionType } from "@/lib/types";
+import type { ImageAnnotationLabels } from "@/components/ImageAnnotation/ImageAnnotationQuestion";
 
-export type AnswerValue = string | boolean | string[] | null;
+export type AnswerValue = string | boolean | string[] | AnnotationPoint[] | null;
 
 export interface ExamQuestionProps {
   q: Question;
@@ -69,6 +70,24 @@ export interface ParagraphInputProps {
   legendId: string;
 }
 
+export interface ShortAnswerInputProps {
+  value: string;
+  onChange: (val: string) => void;
+  disabled?: boolean;
+  required?: boolean;
+  id: string;
+  legendId: string;
+}
+
+export interface NumericInputProps {
+  value: string;
+  onChange: (val: string) => void;
+  disabled?: boolean;
+  required?: boolean;
+  id: string;
+  legendId: string;
+}
+
 export interface PhotoUploadInputProps {
   value: string;
   onChange: (val: string | null) => void;
@@ -77,4 +96,39 @@ export interface PhotoUploadInputProps {
   id: string;
   legendId: string;
   attemptId?: string;
-}
\ No newline at end of file
+}
+
+export interface ImageAnnotationInputProps {
+  imageUrl: string | null;
+  value: AnnotationPoint[];
+  onChange: (val: AnnotationPoint[]) => void;
+  disabled?: boolean;
+  required?: boolean;
+  id: string;
+  legendId: string;
+  labels?: ImageAnnotationLabels & { unavailable?: string; hint?: string };
+}
+
+export interface OrderingInputProps {
+  items: string[];
+  value: string[] | null;
+  onChange: (val: string[]) => void;
+  disabled?: boolean;
+  required?: boolean;
+  id: string;
+  legendId: string;
+  labels?: { hint?: string; confirm?: string };
+}
+
+export interface MatchingInputProps {
+  left: string[];
+  right: string[];
+  // Right item chosen for each left item, by position ("" when unmatched)
+  value: string[];
+  onChange: (val: string[]) => void;
+  disabled?: boolean;
+  required?: boolean;
+  id: string;
+  legendId: string;
+  labels?: { hint?: string; choose?: string };
+}
@@ -1,24 +1,33 @@
 "use client";
 
 import React, { useState, useRef, useCallback, useEffect } from 'react';
+import type { AnnotationPoint, AnnotationRegion } from '@/lib/types';
 
-interface AnnotationPoint {
-  id: string;
-  x: number;
-  y: number;
-  label: string;
-  color: string;
+// Student-facing text; {count} and {max} are filled in where shown
+export interface ImageAnnotationLabels {
+  add?: string;
+  adding?: string;
+  clear?: string;
+  count?: string;
+  overlay?: string;
+  list_title?: string;
+  label_placeholder?: string;
 }
 
 interface ImageAnnotationQuestionProps {
   imageUrl: string;
-  question: string;
+  question?: string;
   annotations?: AnnotationPoint[];
+  // Target regions drawn as outlines (admin editor / review only)
+  regions?: AnnotationRegion[];
+  // Added to each region's radius when drawing the outline
+  tolerance?: number;
   onAnnotationChange?: (annotations: AnnotationPoint[]) => void;
   readonly?: boolean;
   showLabels?: boolean;
   maxAnnotations?: number;
   className?: string;
+  labels?: ImageAnnotationLabels;
 }
 
 const ANNOTATION_COLORS = [
@@ -26,15 +35,22 @@ const ANNOTATION_COLORS = [
   '#06b6d4', '#3b82f6', '#8b5cf6', '#ec4899'
 ];
 
+// Stable defaults so the sync effect below doesn't loop on a fresh [] every render
+const NO_ANNOTATIONS: AnnotationPoint[] = [];
+const NO_REGIONS: AnnotationRegion[] = [];
+
 export default function ImageAnnotationQuestion({
   imageUrl,
   question,
-  annotations = [],
+  annotations = NO_ANNOTATIONS,
+  regions = NO_REGIONS,
+  tolerance = 0,
   onAnnotationChange,
   readonly = false,
   showLabels = true,
   maxAnnotations = 10,
-  className = ""
+  className = "",
+  labels
 }: ImageAnnotationQuestionProps) {
   const [currentAnnotations, setCurrentAnnotations] = useState<AnnotationPoint[]>(annotations);
   const [selectedAnnotation, setSelectedAnnotation] = useState<string | null>(null);
@@ -43,6 +59,8 @@ export default function ImageAnnotationQuestion({
   const [imageDimensions, setImageDimensions] = useState({ width: 0, height: 0 });
   const imageRef = useRef<HTMLImageElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
+  const fill = (text: string) =>
+    text.replace('{count}', String(currentAnnotations.length)).replace('{max}', String(maxAnnotations));
 
   // Update annotations when prop changes
   useEffect(() => {
@@ -115,15 +133,18 @@ export default function ImageAnnotationQuestion({
   return (
     <div className={`space-y-4 ${className}`}>
       {/* Question */}
-      <div className="bg-slate-50 rounded-xl p-4 border border-slate-200">
-        <h3 className="text-lg font-semibold text-slate-800 mb-2">Image Annotation Question</h3>
-        <p className="text-slate-700">{question}</p>
-      </div>
+      {question && (
+        <div className="bg-slate-50 rounded-xl p-4 border border-slate-200">
+          <h3 className="text-lg font-semibold text-slate-800 mb-2">Image Annotation Question</h3>
+          <p className="text-slate-700">{question}</p>
+        </div>
+      )}
 
       {/* Controls */}
       {!readonly && (
         <div className="flex flex-wrap items-center gap-3 p-4 bg-white rounded-xl border border-slate-200">
           <button
+            type="button"
             onClick={() => setIsAddingAnnotation(!isAddingAnnotation)}
             disabled={currentAnnotations.length >= maxAnnotations}
             className={`flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-colors ${
@@ -135,10 +156,13 @@ export default function ImageAnnotationQuestion({
             <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
             </svg>
-            {isAddingAnnotation ? 'Click on image to add point' : 'Add Annotation'}
+            {isAddingAnnotation
+              ? labels?.adding ?? 'Click on image to add point'
+              : labels?.add ?? 'Add Annotation'}
           </button>
 
           <button
+            type="button"
             onClick={clearAllAnnotations}
             disabled={currentAnnotations.length === 0}
             className="flex items-center gap-2 px-4 py-2 rounded-lg font-medium bg-red-100 text-red-700 hover:bg-red-200 disabled:bg-slate-300 disabled:text-slate-500 disabled:cursor-not-allowed transition-colors"
@@ -146,20 +170,21 @@ export default function ImageAnnotationQuestion({
             <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
             </svg>
-            Clear All
+            {labels?.clear ?? 'Clear All'}
           </button>
 
           <div className="text-sm text-slate-600">
-            {currentAnnotations.length} / {maxAnnotations} annotations
+            {fill(labels?.count ?? '{count} / {max} annotations')}
           </div>
         </div>
       )}
 
       {/* Image with Annotations */}
-      <div className="bg-white rounded-xl border border-slate-200 overflow-hidden">
+      {/* The wrapper shrinks to the image so percentages map onto image pixels */}
+      <div className="bg-white rounded-xl border border-slate-200 overflow-hidden text-center">
         <div
           ref={containerRef}
-          className={`relative inline-block w-full ${
+          className={`relative inline-block max-w-full align-top ${
             isAddingAnnotation ? 'cursor-crosshair' : 'cursor-default'
           }`}
           onClick={handleImageClick}
@@ -168,11 +193,25 @@ export default function ImageAnnotationQuestion({
             ref={imageRef}
             src={imageUrl}
             alt="Annotation target"
-            className="w-full h-auto max-h-96 object-contain"
+            className="block max-w-full h-auto max-h-96"
             onLoad={handleImageLoad}
             draggable={false}
           />
 
+          {/* Target regions */}
+          {imageLoaded && regions.map((region) => (
+            <div
+              key={region.id}
+              className="absolute rounded-full border-2 border-dashed border-emerald-500 bg-emerald-400/20 pointer-events-none"
+              style={{
+                left: `${region.x - region.radius - tolerance}%`,
+                top: `${region.y - region.radius - tolerance}%`,
+                width: `${(region.radius + tolerance) * 2}%`,
+                height: `${(region.radius + tolerance) * 2}%`,
+              }}
+            />
+          ))}
+
           {/* Annotation Points */}
           {imageLoaded && currentAnnotations.map((annotation) => (
             <div
@@ -208,6 +247,7 @@ export default function ImageAnnotationQuestion({
               {/* Remove button (appears on hover) */}
               {!readonly && selectedAnnotation === annotation.id && (
                 <button
+                  type="button"
                   onClick={(e) => {
                     e.stopPropagation();
                     removeAnnotation(annotation.id);
@@ -226,7 +266,7 @@ export default function ImageAnnotationQuestion({
           {isAddingAnnotation && (
             <div className="absolute inset-0 bg-blue-500 bg-opacity-10 flex items-center justify-center">
               <div className="bg-white px-4 py-2 rounded-lg shadow-lg text-sm font-medium text-slate-700">
-                Click anywhere on the image to add an annotation point
+                {labels?.overlay ?? 'Click anywhere on the image to add an annotation point'}
               </div>
             </div>
           )}
@@ -240,7 +280,7 @@ export default function ImageAnnotationQuestion({
             <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 7h.01M7 3h5c.512 0 1.024.195 1.414.586l7 7a2 2 0 010 2.828l-7 7a2 2 0 01-2.828 0l-7-7A1.994 1.994 0 013 12V7a4 4 0 014-4z" />
             </svg>
-            Annotations ({currentAnnotations.length})
+            {fill(labels?.list_title ?? 'Annotations ({count})')}
           </h4>
           
           <div className="space-y-2">
@@ -267,7 +307,7 @@ export default function ImageAnnotationQuestion({
                     value={annotation.label}
                     onChange={(e) => updateAnnotationLabel(annotation.id, e.target.value)}
                     className="flex-1 px-3 py-1 border border-slate-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                    placeholder="Enter annotation label"
+                    placeholder={labels?.label_placeholder ?? "Enter annotation label"}
                   />
                 ) : (
                   <span className="flex-1 text-slate-700">{annotation.label}</span>
@@ -281,6 +321,7 @@ export default function ImageAnnotationQuestion({
                 {/* Remove button */}
                 {!readonly && (
                   <button
+                    type="button"
                     onClick={(e) => {
                       e.stopPropagation();
                       removeAnnotation(annotation.id);
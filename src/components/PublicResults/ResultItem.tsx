@@ -7,6 +7,9 @@ export interface ResultItemData {
   score_percentage: number | null;
   is_pass?: boolean | null;
   pass_threshold?: number | null;
+  grade?: string | null;
+  results_pending?: boolean;
+  release_at?: string | null;
 }
 
 interface ResultItemProps {
@@ -19,6 +22,13 @@ function ResultItem({ result }: ResultItemProps) {
   ), [result.submitted_at]);
 
   const scoreBadge = useMemo(() => {
+    if (result.results_pending) {
+      return (
+        <span className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-gray-100 text-gray-700">
+          Results pending
+        </span>
+      );
+    }
     if (typeof result.score_percentage !== 'number') return null;
     const cls = result.score_percentage >= 80
       ? 'bg-green-50 text-green-700'
@@ -30,7 +40,7 @@ function ResultItem({ result }: ResultItemProps) {
         {result.score_percentage}%
       </div>
     );
-  }, [result.score_percentage]);
+  }, [result.results_pending, result.score_percentage]);
 
   const passBadge = useMemo(() => {
     if (result.is_pass === true) {
@@ -53,15 +63,8 @@ function ResultItem({ result }: ResultItemProps) {
         </span>
       );
     }
-    if (typeof result.score_percentage === 'number' && typeof result.pass_threshold === 'number') {
-      return result.score_percentage >= result.pass_threshold ? (
-        <span className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-green-100 text-green-800">PASS</span>
-      ) : (
-        <span className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-red-100 text-red-800">FAIL</span>
-      );
-    }
     return null;
-  }, [result.is_pass, result.score_percentage, result.pass_threshold]);
+  }, [result.is_pass]);
 
   return (
     <li className="py-4" key={result.id}>
@@ -69,10 +72,18 @@ function ResultItem({ result }: ResultItemProps) {
         <div style={{ paddingInlineEnd: '1rem' }}>
           <div className="font-semibold text-gray-900">{result.exam_title}</div>
           <div className="text-sm text-gray-500">{submittedAtText}</div>
+          {result.results_pending && result.release_at && (
+            <div className="text-sm text-gray-500">Results will be released on {new Date(result.release_at).toLocaleString()}.</div>
+          )}
         </div>
         <div className="flex items-center gap-3">
           {scoreBadge ?? <span className="text-gray-400">-</span>}
           {passBadge}
+          {result.grade && (
+            <span className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-indigo-100 text-indigo-800">
+              Grade: {result.grade}
+            </span>
+          )}
         </div>
       </div>
     </li>
@@ -9,4 +9,8 @@ export interface ExamResult {
   score_percentage: number | null;
   is_pass?: boolean | null;
   pass_threshold?: number | null;
+  grade?: string | null;
+  // Results not released yet; release_at is set when the release is scheduled
+  results_pending?: boolean;
+  release_at?: string | null;
 }
@@ -6,6 +6,8 @@ export default function Timer({
   startedAt,
   durationMinutes,
   examEndsAt,
+  sectionEndsAt,
+  extraMinutes = 0,
   onExpire,
   onWarning,
   disabled,
@@ -13,6 +15,10 @@ export default function Timer({
   startedAt: string;
   durationMinutes: number | null;
   examEndsAt: string | null;
+  // End of the current section's time limit, for sectioned exams
+  sectionEndsAt?: string | null;
+  // Accommodation and live extensions; extends both the duration and the exam end time
+  extraMinutes?: number;
   onExpire: () => void;
   onWarning?: (minutesLeft: number) => void;
   disabled?: boolean;
@@ -29,7 +35,7 @@ export default function Timer({
         const startTime = new Date(startedAt).getTime();
         // Check if date parsing was successful
         if (!isNaN(startTime)) {
-          deadlines.push(startTime + durationMinutes * 60_000);
+          deadlines.push(startTime + (durationMinutes + extraMinutes) * 60_000);
         }
       }
       
@@ -37,7 +43,14 @@ export default function Timer({
         const endTime = new Date(examEndsAt).getTime();
         // Check if date parsing was successful
         if (!isNaN(endTime)) {
-          deadlines.push(endTime);
+          deadlines.push(endTime + extraMinutes * 60_000);
+        }
+      }
+
+      if (sectionEndsAt) {
+        const sectionEnd = new Date(sectionEndsAt).getTime();
+        if (!isNaN(sectionEnd)) {
+          deadlines.push(sectionEnd);
         }
       }
     } catch (error) {
@@ -47,7 +60,7 @@ export default function Timer({
     
     if (deadlines.length === 0) return null;
     return Math.min(...deadlines);
-  }, [startedAt, durationMinutes, examEndsAt]);
+  }, [startedAt, durationMinutes, examEndsAt, sectionEndsAt, extraMinutes]);
 
   useEffect(() => {
     const id = setInterval(() => setNow(Date.now()), 1000);
@@ -65,7 +78,7 @@ export default function Timer({
     const isReallyExpired = remainingMs === 0 && Date.now() >= deadline;
     
     if (isReallyExpired && hasBeenRunning) {
-      console.log("Timer expired, submitting exam");
+      console.log("Timer expired");
       firedRef.current = true;
       // Add a small delay to prevent race conditions
       setTimeout(() => {
@@ -0,0 +1,251 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { authFetch } from "@/lib/authFetch";
+import { useToast } from "@/components/ToastProvider";
+import { RESULT_AUDIENCES } from "@/lib/resultNotifications";
+import { RESULT_VISIBILITIES } from "@/lib/resultRelease";
+import type { MessageChannel, MessageJob, ResultAudience, ResultVisibility } from "@/lib/types";
+
+const CHANNEL_LABELS: Record<MessageChannel, string> = { whatsapp: "WhatsApp", sms: "SMS", email: "Email" };
+
+const ERRORS: Record<string, string> = {
+  no_results: "No graded attempts to notify about yet",
+  channel_not_configured: "This channel has no provider configured",
+  already_released: "Results were already released",
+  invalid_release_at: "Enter a valid release time",
+};
+
+interface ReleaseState {
+  visibility: ResultVisibility;
+  release_at: string | null;
+  released_at: string | null;
+  effective_visibility: ResultVisibility;
+  jobs: MessageJob[];
+  channels: { channel: MessageChannel; provider: string | null }[];
+  template: string;
+  subject: string;
+}
+
+function toInputDate(iso?: string | null) {
+  if (!iso) return "";
+  const date = new Date(iso);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+function fromInputDate(s: string) {
+  if (!s) return null;
+  return new Date(s).toISOString();
+}
+
+function statusText(data: ReleaseState): string {
+  if (data.effective_visibility === "hidden") {
+    return data.visibility !== "hidden" && data.release_at
+      ? `Embargoed until ${new Date(data.release_at).toLocaleString()}`
+      : "Hidden from students";
+  }
+  const level = RESULT_VISIBILITIES.find((v) => v.value === data.effective_visibility)?.label ?? "";
+  return data.released_at ? `Released ${new Date(data.released_at).toLocaleString()} · ${level}` : `Visible to students · ${level}`;
+}
+
+// Controls what students see of an exam's results and when, releases them, and notifies students
+// and guardians through the message queue
+export default function ResultReleaseCard({ examId }: { examId: string }) {
+  const toast = useToast();
+  const qc = useQueryClient();
+  const [visibilityDraft, setVisibilityDraft] = useState<ResultVisibility | null>(null);
+  const [releaseAtDraft, setReleaseAtDraft] = useState<string | null>(null);
+  const [channel, setChannel] = useState<MessageChannel | "">("");
+  const [audience, setAudience] = useState<ResultAudience>("students");
+  const [error, setError] = useState<string | null>(null);
+
+  const { data } = useQuery({
+    queryKey: ["admin", "exam", examId, "release-results"],
+    queryFn: async () => {
+      const res = await authFetch(`/api/admin/exams/${examId}/release-results`);
+      const j = await res.json();
+      if (!res.ok) throw new Error(j?.error || "Load failed");
+      return j as ReleaseState;
+    },
+    refetchInterval: (query) => (query.state.data?.jobs.some((job) => job.pending > 0) ? 5000 : false),
+  });
+
+  const visibility = visibilityDraft ?? data?.visibility ?? "released_with_details";
+  const releaseAt = releaseAtDraft ?? data?.release_at ?? null;
+  const dirty = !!data && (visibility !== data.visibility || releaseAt !== data.release_at);
+
+  const onSaved = () => {
+    setVisibilityDraft(null);
+    setReleaseAtDraft(null);
+    qc.invalidateQueries({ queryKey: ["admin", "exam", examId, "release-results"] });
+  };
+
+  const saveSettings = useMutation({
+    mutationFn: async () => {
+      setError(null);
+      const res = await authFetch(`/api/admin/exams/${examId}/release-results`, {
+        method: "PATCH",
+        body: JSON.stringify({ visibility, release_at: visibility === "hidden" ? null : releaseAt }),
+      });
+      const j = await res.json();
+      if (!res.ok) throw new Error(ERRORS[j?.error] || j?.error || "Save failed");
+      return j;
+    },
+    onSuccess: () => {
+      onSaved();
+      toast.success("Result release settings saved");
+    },
+    onError: (error: any) => {
+      setError(error?.message || "Failed to save result release settings");
+    },
+  });
+
+  const release = useMutation({
+    mutationFn: async () => {
+      setError(null);
+      const resend = !!data?.released_at && data.effective_visibility !== "hidden";
+      if (resend && !confirm("Results were already released. Release again and send the notifications again?")) return null;
+      const res = await authFetch(`/api/admin/exams/${examId}/release-results`, {
+        method: "POST",
+        body: JSON.stringify({
+          visibility: visibility === "hidden" ? null : visibility,
+          channel: channel || null,
+          audience,
+          resend,
+        }),
+      });
+      const j = await res.json();
+      if (!res.ok) throw new Error(ERRORS[j?.error] || j?.error || "Release failed");
+      return j as { queued: number; skipped: unknown[] };
+    },
+    onSuccess: (r) => {
+      if (!r) return;
+      onSaved();
+      qc.invalidateQueries({ queryKey: ["admin", "messages"] });
+      toast.success(
+        channel
+          ? `Results released; ${r.queued} notifications queued` + (r.skipped.length > 0 ? `, ${r.skipped.length} skipped` : "")
+          : "Results released"
+      );
+    },
+    onError: (error: any) => {
+      setError(error?.message || "Failed to release results");
+    },
+  });
+
+  const provider = new Map((data?.channels ?? []).map((c) => [c.channel, c.provider]));
+  const jobs = data?.jobs ?? [];
+
+  return (
+    <div className="card space-y-3">
+      <h3 className="font-semibold">Results Release</h3>
+      <p className="text-sm text-gray-600">{data ? statusText(data) : "Loading..."}</p>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <div>
+          <label className="label">Students see</label>
+          <select
+            className="input"
+            value={visibility}
+            onChange={(e) => setVisibilityDraft(e.target.value as ResultVisibility)}
+          >
+            {RESULT_VISIBILITIES.map((v) => (
+              <option key={v.value} value={v.value}>
+                {v.label}
+              </option>
+            ))}
+          </select>
+          <p className="text-xs text-gray-500 mt-1">{RESULT_VISIBILITIES.find((v) => v.value === visibility)?.description}</p>
+        </div>
+        <div>
+          <label className="label">Release at (optional)</label>
+          <input
+            type="datetime-local"
+            className="input"
+            value={toInputDate(releaseAt)}
+            onChange={(e) => setReleaseAtDraft(fromInputDate(e.target.value) ?? "")}
+            disabled={visibility === "hidden"}
+          />
+          <p className="text-xs text-gray-500 mt-1">Results stay hidden until this time.</p>
+        </div>
+        <div className="flex items-start">
+          <button
+            className="btn w-full"
+            onClick={() => saveSettings.mutate()}
+            disabled={saveSettings.isPending || !dirty}
+          >
+            {saveSettings.isPending ? "Saving..." : "Save"}
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3 border-t border-gray-200 pt-3">
+        <div>
+          <label className="label">Notify via</label>
+          <select className="input" value={channel} onChange={(e) => setChannel(e.target.value as MessageChannel | "")}>
+            <option value="">Don&apos;t notify</option>
+            {(Object.keys(CHANNEL_LABELS) as MessageChannel[]).map((c) => (
+              <option key={c} value={c} disabled={!provider.get(c)}>
+                {CHANNEL_LABELS[c]}
+                {provider.get(c) ? "" : " (not configured)"}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="label">Recipients</label>
+          <select
+            className="input"
+            value={audience}
+            onChange={(e) => setAudience(e.target.value as ResultAudience)}
+            disabled={!channel}
+          >
+            {RESULT_AUDIENCES.map((a) => (
+              <option key={a.value} value={a.value}>
+                {a.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="flex items-end">
+          <button className="btn btn-primary w-full" onClick={() => release.mutate()} disabled={release.isPending || !data}>
+            {release.isPending
+              ? "Releasing..."
+              : data?.released_at && data.effective_visibility !== "hidden"
+                ? "Release Again"
+                : "Release Now"}
+          </button>
+        </div>
+      </div>
+      {channel && data && (
+        <div className="text-xs text-gray-500 space-y-1">
+          {channel === "email" && <p>Subject: {data.subject}</p>}
+          <p className="whitespace-pre-wrap">Message: {data.template}</p>
+          <p>The template and subject are set under Settings → Messages & Templates.</p>
+        </div>
+      )}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {jobs.length > 0 && (
+        <ul className="divide-y divide-gray-100 text-sm">
+          {jobs.map((job) => (
+            <li key={job.id} className="py-2 flex flex-wrap items-center justify-between gap-2">
+              <span>
+                {CHANNEL_LABELS[job.channel]}
+                <span className="text-gray-500"> · {new Date(job.created_at).toLocaleString()}</span>
+              </span>
+              <span className="flex items-center gap-2">
+                <span className="px-2 py-0.5 rounded bg-green-100 text-green-800">{job.sent} sent</span>
+                {job.pending > 0 && <span className="px-2 py-0.5 rounded bg-blue-100 text-blue-800">{job.pending} pending</span>}
+                {job.failed > 0 && <span className="px-2 py-0.5 rounded bg-red-100 text-red-800">{job.failed} failed</span>}
+                <span className="text-gray-500">of {job.total}</span>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+"use client";
+
+import type { StudentImportField, StudentImportIssue, StudentImportPlan, StudentImportRow } from "@/lib/types";
+
+const REASONS: Record<string, string> = {
+  invalid_code: "Code contains spaces",
+  invalid_mobile_number: "Not a valid phone number (use +country code, or set a default country code)",
+  mobile_required: "Mobile number is required",
+  code_generation_failed: "Could not generate a unique code",
+  duplicate_in_file: "Appears earlier in the file",
+  ambiguous_match: "Matches several students",
+  code_taken: "Code belongs to another student",
+};
+
+const FIELDS: Record<StudentImportField, string> = {
+  student_name: "Name",
+  mobile_number: "Mobile",
+  code: "Code",
+};
+
+// Rows shown per section; the counts always cover the whole file
+const SHOWN = 100;
+
+interface StudentImportPreviewProps {
+  plan: StudentImportPlan;
+  rows: StudentImportRow[];
+}
+
+function IssueList({ title, issues, tone }: { title: string; issues: StudentImportIssue[]; tone: "amber" | "red" }) {
+  if (issues.length === 0) return null;
+  const color = tone === "amber" ? "text-amber-800 bg-amber-50 border-amber-200" : "text-red-800 bg-red-50 border-red-200";
+  return (
+    <div className={`rounded-lg border p-3 text-sm ${color}`}>
+      <p className="font-medium mb-1">{title} ({issues.length}) — skipped</p>
+      <ul className="space-y-0.5">
+        {issues.slice(0, SHOWN).map((i) => (
+          <li key={`${i.row}-${i.reason}`}>
+            Row {i.row}: {REASONS[i.reason] ?? i.reason}
+            {i.detail ? <span className="font-mono"> ({i.detail})</span> : null}
+          </li>
+        ))}
+      </ul>
+      {issues.length > SHOWN && <p className="mt-1 opacity-75">…and {issues.length - SHOWN} more</p>}
+    </div>
+  );
+}
+
+export default function StudentImportPreview({ plan, rows }: StudentImportPreviewProps) {
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2 text-sm">
+        <span className="px-2 py-1 rounded bg-green-100 text-green-800">{plan.creates.length} new</span>
+        <span className="px-2 py-1 rounded bg-blue-100 text-blue-800">{plan.updates.length} updated</span>
+        <span className="px-2 py-1 rounded bg-gray-100 text-gray-700">{plan.unchanged} unchanged</span>
+        <span className="px-2 py-1 rounded bg-amber-100 text-amber-800">{plan.conflicts.length} conflicts</span>
+        <span className="px-2 py-1 rounded bg-red-100 text-red-800">{plan.invalid.length} invalid</span>
+        <span className="px-2 py-1 text-gray-500">of {plan.total} rows</span>
+      </div>
+
+      {plan.updates.length > 0 && (
+        <div className="border border-gray-200 rounded-lg overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50 text-left text-xs text-gray-500 uppercase">
+              <tr>
+                <th className="px-3 py-2">Row</th>
+                <th className="px-3 py-2">Student</th>
+                <th className="px-3 py-2">Changes</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {plan.updates.slice(0, SHOWN).map((u) => (
+                <tr key={u.student_id}>
+                  <td className="px-3 py-2 text-gray-500">{u.row}</td>
+                  <td className="px-3 py-2 font-mono">{u.code}</td>
+                  <td className="px-3 py-2">
+                    {(Object.keys(u.changes) as StudentImportField[]).map((f) => (
+                      <div key={f}>
+                        <span className="text-gray-500">{FIELDS[f]}:</span>{" "}
+                        <span className="line-through text-gray-400">{u.changes[f]?.from || "—"}</span>{" "}
+                        → <span className="text-gray-900">{u.changes[f]?.to}</span>
+                      </div>
+                    ))}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {plan.updates.length > SHOWN && (
+            <div className="bg-gray-50 px-3 py-2 text-sm text-gray-500">Showing {SHOWN} of {plan.updates.length} updates</div>
+          )}
+        </div>
+      )}
+
+      {plan.creates.length > 0 && (
+        <div className="border border-gray-200 rounded-lg overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50 text-left text-xs text-gray-500 uppercase">
+              <tr>
+                <th className="px-3 py-2">Row</th>
+                <th className="px-3 py-2">Name</th>
+                <th className="px-3 py-2">Mobile</th>
+                <th className="px-3 py-2">Code</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {plan.creates.slice(0, SHOWN).map((c) => (
+                <tr key={c.row}>
+                  <td className="px-3 py-2 text-gray-500">{c.row}</td>
+                  <td className="px-3 py-2">{c.student_name || "-"}</td>
+                  <td className="px-3 py-2 font-mono">{c.mobile_number}</td>
+                  <td className="px-3 py-2 font-mono">{String(rows[c.row - 1]?.code ?? "").trim() ? c.code : "(Auto)"}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {plan.creates.length > SHOWN && (
+            <div className="bg-gray-50 px-3 py-2 text-sm text-gray-500">Showing {SHOWN} of {plan.creates.length} new students</div>
+          )}
+        </div>
+      )}
+
+      <IssueList title="Conflicts" issues={plan.conflicts} tone="amber" />
+      <IssueList title="Invalid rows" issues={plan.invalid} tone="red" />
+    </div>
+  );
+}
@@ -531,6 +531,12 @@ export default function ExamEntry({
           case "attempt_limit_reached":
             setError(t(locale, "err_attempt_limit_reached"));
             break;
+          case "attempt_cooldown":
+            setError(t(locale, "err_attempt_cooldown"));
+            break;
+          case "exam_not_assigned":
+            setError(t(locale, "err_exam_not_assigned"));
+            break;
           case "ip_not_whitelisted":
             setError(t(locale, "err_ip_not_whitelisted"));
             break;
@@ -21,6 +21,9 @@ interface ByCodeExamItem {
   ended: boolean;
   attempt_status: "in_progress" | "completed" | null;
   attempt_id: string | null;
+  attempts_used?: number;
+  // null when the exam allows unlimited attempts
+  attempts_remaining?: number | null;
 }
 
 export default function MultiExamEntry() {
@@ -196,7 +199,7 @@ export default function MultiExamEntry() {
       // In single exam mode, if there's exactly one exam, go directly to it
       if (!isMultiExamMode && items.length === 1) {
         const exam = items[0];
-        if (exam.is_active && !exam.not_started && !exam.ended && exam.attempt_status !== "completed") {
+        if (exam.is_active && !exam.not_started && !exam.ended && (exam.attempt_status !== "completed" || exam.attempts_remaining !== 0)) {
           await startOrContinueExam(exam.id);
           return;
         }
@@ -247,6 +250,12 @@ export default function MultiExamEntry() {
           case "attempt_limit_reached":
             setError(t(locale, "err_attempt_limit_reached"));
             break;
+          case "attempt_cooldown":
+            setError(t(locale, "err_attempt_cooldown"));
+            break;
+          case "exam_not_assigned":
+            setError(t(locale, "err_exam_not_assigned"));
+            break;
           case "ip_not_whitelisted":
             setError(t(locale, "err_ip_not_whitelisted"));
             break;
@@ -384,9 +393,12 @@ export default function MultiExamEntry() {
 
               <div className="grid grid-cols-1 gap-4">
                 {exams?.map((ex) => {
-                  const isCompleted = ex.attempt_status === "completed";
+                  const canRetake = ex.attempt_status === "completed" && ex.attempts_remaining !== 0;
+                  const isCompleted = ex.attempt_status === "completed" && !canRetake;
                   const isDisabled = ex.ended || ex.not_started || isCompleted;
-                  const actionLabel = ex.attempt_status === "in_progress" ? t(locale, "continue_to_exam") : t(locale, "start_exam");
+                  const actionLabel = ex.attempt_status === "in_progress"
+                    ? t(locale, "continue_to_exam")
+                    : canRetake ? t(locale, "retake_exam") : t(locale, "start_exam");
                   return (
                     <div key={ex.id} className="border border-gray-200 rounded-lg p-4 bg-white shadow-sm">
                       <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
@@ -416,6 +428,11 @@ export default function MultiExamEntry() {
                           {isCompleted && (
                             <span className="px-2 py-1 text-xs rounded bg-gray-100 text-gray-700 border border-gray-200">{t(locale, "completed")}</span>
                           )}
+                          {canRetake && typeof ex.attempts_remaining === "number" && (
+                            <span className="px-2 py-1 text-xs rounded bg-blue-50 text-blue-700 border border-blue-200">
+                              {t(locale, "attempts_left", { count: ex.attempts_remaining })}
+                            </span>
+                          )}
                           <button
                             disabled={isDisabled || startingExamId === ex.id}
                             onClick={() => startOrContinueExam(ex.id)}
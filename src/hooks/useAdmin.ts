@@ -1,12 +1,29 @@
 "use client";
 
-import { useState } from "react";
+import { createContext, useContext } from "react";
+
+export type AdminSessionInfo = {
+  user_id: string;
+  email: string | null;
+  username?: string | null;
+  role: string;
+  permissions: string[];
+};
+
+// Filled by AdminGuard from /api/admin/whoami
+export const AdminSessionContext = createContext<AdminSessionInfo | null>(null);
 
 export function useAdmin() {
-  const [loading] = useState(false);
-  const [isAdmin] = useState(true);
-  const [email] = useState<string | null>(null);
-  const [userId] = useState<string | null>("dev-admin");
+  const session = useContext(AdminSessionContext);
+  const permissions = session?.permissions ?? [];
 
-  return { loading, isAdmin, email, userId } as const;
+  return {
+    loading: session === null,
+    isAdmin: session !== null,
+    email: session?.email ?? null,
+    userId: session?.user_id ?? null,
+    role: session?.role ?? null,
+    // UI hint only; every /api/admin route checks the permission again
+    can: (permission: string) => permissions.includes(permission),
+  } as const;
 }
@@ -0,0 +1,92 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { LockdownViolationKind } from '@/lib/lockdown';
+
+interface LockdownOptions {
+  enabled: boolean;
+  onViolation: (kind: LockdownViolationKind) => void;
+}
+
+// Leaving full screen by switching tabs fires both events; count it once
+const VIOLATION_DEBOUNCE_MS = 1500;
+
+/**
+ * Full-screen lockdown for an attempt: tracks full screen, blocks leaving the page and the
+ * back button, and reports each exit. Call `release` before navigating away on purpose.
+ */
+export function useLockdown({ enabled, onViolation }: LockdownOptions) {
+  const [isFullscreen, setIsFullscreen] = useState(false);
+  const [supported, setSupported] = useState(true);
+  const onViolationRef = useRef(onViolation);
+  const lastViolationRef = useRef(0);
+  const releasedRef = useRef(false);
+
+  useEffect(() => { onViolationRef.current = onViolation; }, [onViolation]);
+
+  const report = useCallback((kind: LockdownViolationKind) => {
+    if (releasedRef.current) return;
+    const now = Date.now();
+    if (now - lastViolationRef.current < VIOLATION_DEBOUNCE_MS) return;
+    lastViolationRef.current = now;
+    onViolationRef.current(kind);
+  }, []);
+
+  useEffect(() => {
+    if (!enabled) return;
+    releasedRef.current = false;
+    setSupported(typeof document.documentElement.requestFullscreen === 'function');
+    setIsFullscreen(!!document.fullscreenElement);
+
+    const handleFullscreenChange = () => {
+      const full = !!document.fullscreenElement;
+      setIsFullscreen(full);
+      if (!full) report('fullscreen_exit');
+    };
+    const handleVisibilityChange = () => {
+      if (document.hidden) report('tab_hidden');
+    };
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+      if (releasedRef.current) return;
+      e.preventDefault();
+      e.returnValue = '';
+    };
+    // An extra history entry swallows the back button
+    window.history.pushState(null, '', window.location.href);
+    const handlePopState = () => {
+      if (releasedRef.current) return;
+      window.history.pushState(null, '', window.location.href);
+      report('navigation');
+    };
+    const handleContextMenu = (e: MouseEvent) => e.preventDefault();
+
+    document.addEventListener('fullscreenchange', handleFullscreenChange);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    document.addEventListener('contextmenu', handleContextMenu);
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    window.addEventListener('popstate', handlePopState);
+
+    return () => {
+      document.removeEventListener('fullscreenchange', handleFullscreenChange);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      document.removeEventListener('contextmenu', handleContextMenu);
+      window.removeEventListener('beforeunload', handleBeforeUnload);
+      window.removeEventListener('popstate', handlePopState);
+    };
+  }, [enabled, report]);
+
+  const enterFullscreen = useCallback(async () => {
+    try {
+      await document.documentElement.requestFullscreen();
+    } catch {
+      // Refused (no user gesture, or blocked by the browser); the gate stays up
+    }
+  }, []);
+
+  const release = useCallback(() => {
+    releasedRef.current = true;
+    if (document.fullscreenElement) document.exitFullscreen().catch(() => {});
+  }, []);
+
+  return { isFullscreen, supported, enterFullscreen, release };
+}
@@ -78,6 +78,8 @@ const dict: Record<StudentLocale, Record<string, string>> = {
     err_exam_not_started: "This exam has not started yet",
     err_exam_ended: "This exam has ended",
     err_attempt_limit_reached: "You have reached the maximum number of attempts for this exam",
+    err_attempt_cooldown: "Please wait a little longer before starting another attempt on this exam",
+    err_exam_not_assigned: "This exam is not assigned to your class or group",
     err_ip_not_whitelisted: "Your location is not authorized to take this exam",
     err_ip_blacklisted: "Your location is blocked from taking this exam",
     // Results page strings
@@ -100,8 +102,55 @@ const dict: Record<StudentLocale, Record<string, string>> = {
     no_results_found: "No results found.",
     pass: "PASS",
     fail: "FAIL",
+    attempt_n: "Attempt {n}",
+    attempts_left: "Attempts left: {count}",
+    retake_exam: "Retake Exam",
+    score_policy_best: "Your best attempt counts",
+    score_policy_last: "Your latest attempt counts",
+    score_policy_average: "The average of your attempts counts",
+    score_policy_first: "Your first attempt counts",
+    results_pending: "Results pending",
+    results_release_on: "Results will be released on {date}.",
+    results_not_released: "Results for this exam have not been released yet.",
+    grade_label: "Grade: {grade}",
     // Attempt page & question component additions
     no_attempt_found: "No exam attempt found.",
+    attempt_session_lost: "This exam session is no longer valid in this browser. Open the exam again from its link to continue.",
+    exam_paused: "Your exam has been paused by the proctor",
+    exam_paused_hint: "Your timer is stopped. The paused time is given back when the exam resumes.",
+    proctor_message: "Message from the proctor",
+    attempt_invalidated: "This attempt was ended by the proctor and will not be graded.",
+    lockdown_title: "This exam runs in full screen",
+    lockdown_hint: "Leaving full screen, switching tabs or navigating away is recorded and reported to the proctor.",
+    lockdown_enter: "Enter full screen",
+    lockdown_warning: "You left the exam. This was recorded ({count} of {max}).",
+    lockdown_limit_pause: "At {max}, your exam is paused until a proctor resumes it.",
+    lockdown_limit_submit: "At {max}, your exam is submitted automatically.",
+    lockdown_paused: "You reached the limit of {max} violations. Your exam is paused until a proctor resumes it.",
+    practice_mode_banner: "Practice mode: check each answer as you go. You can change an answer and check it again.",
+    check_answer: "Check Answer",
+    checking_answer: "Checking...",
+    feedback_correct: "Correct!",
+    feedback_incorrect: "Not quite. Change your answer and check again.",
+    feedback_manual: "This question is marked by your instructor. Compare your answer with the explanation.",
+    feedback_answer: "Correct answer:",
+    feedback_explanation: "Explanation",
+    review_answers: "Review Answers",
+    review_title: "Answer Review",
+    review_enter_code: "Enter your code to review your answers.",
+    review_open: "Open Review",
+    review_not_allowed: "Answer review is not available for this exam.",
+    review_not_released: "Answer review opens on {date}.",
+    review_not_submitted: "This attempt has not been submitted yet.",
+    review_not_found: "No attempt matches this code.",
+    review_score: "Your score: {score}%",
+    review_points: "Points: {earned} / {max}",
+    review_points_pending: "Awaiting grading ({max} points)",
+    review_notes: "Grader's note",
+    review_correct: "Correct",
+    review_incorrect: "Incorrect",
+    review_manual: "Graded by your instructor",
+    review_not_answered: "You did not answer this question.",
     question_of_total: "Question {current} of {total}",
     x_answered: "{count} answered",
     offline: "Offline",
@@ -142,6 +191,21 @@ const dict: Record<StudentLocale, Record<string, string>> = {
     be_detailed: "Be as detailed as possible",
     characters_count: "{count} characters",
     unsupported_question_type: "Unsupported question type",
+    image_annotation_hint: "Click \"Add Annotation\", then click the image to mark each answer point.",
+    image_not_available: "Image not available",
+    image_annotation_add: "Add Annotation",
+    image_annotation_adding: "Click on image to add point",
+    image_annotation_clear: "Clear All",
+    image_annotation_count: "{count} / {max} annotations",
+    image_annotation_overlay: "Click anywhere on the image to add an annotation point",
+    image_annotation_list_title: "Annotations ({count})",
+    image_annotation_label_placeholder: "Enter annotation label",
+    numeric_answer_placeholder: "e.g. 9.81 m/s^2",
+    numeric_answer_hint: "Enter a number, followed by its unit if the question asks for one.",
+    ordering_hint: "Drag the items into the correct order.",
+    ordering_keep_order: "Keep this order",
+    matching_hint: "Drag each answer onto its match, or pick it from the list.",
+    matching_choose: "Choose…",
     points: "Points:",
     home: "Home",
     results: "Results",
@@ -165,6 +229,16 @@ const dict: Record<StudentLocale, Record<string, string>> = {
     five_minutes_remaining: "Only 5 minutes remaining! Please submit your exam soon.",
     one_minute_remaining: "Only 1 minute remaining! The exam will auto-submit soon.",
     understood: "Understood",
+
+    // Sections
+    section_of_total: "Section {current} of {total}",
+    next_section: "Next Section",
+    next_section_confirm: "Move to the next section? You can come back while its time lasts.",
+    next_section_confirm_locked: "Move to the next section? You will not be able to return to this section.",
+    section_time_up: "Time for this section is up. Moving to the next section.",
+    section_unavailable: "That section is no longer available.",
+    section_closed_label: "Closed",
+    time_extended: "You have been given {minutes} more minutes.",
   },
   ar: {
     loading_exam: "جاري تحميل الاختبار...",
@@ -224,6 +298,8 @@ const dict: Record<StudentLocale, Record<string, string>> = {
     err_exam_not_started: "لم يبدأ هذا الاختبار بعد",
     err_exam_ended: "انتهى هذا الاختبار",
     err_attempt_limit_reached: "لقد وصلت إلى الحد الأقصى لعدد المحاولات لهذا الاختبار",
+    err_attempt_cooldown: "يرجى الانتظار قليلًا قبل بدء محاولة أخرى في هذا الاختبار",
+    err_exam_not_assigned: "هذا الاختبار غير مخصص لفصلك أو مجموعتك",
     err_ip_not_whitelisted: "موقعك غير مُصرّح له بأداء هذا الاختبار",
     err_ip_blacklisted: "موقعك محظور من أداء هذا الاختبار",
     // Results page strings
@@ -246,8 +322,55 @@ const dict: Record<StudentLocale, Record<string, string>> = {
     no_results_found: "لم يتم العثور على نتائج.",
     pass: "ناجح",
     fail: "راسب",
+    attempt_n: "المحاولة {n}",
+    attempts_left: "المحاولات المتبقية: {count}",
+    retake_exam: "إعادة الاختبار",
+    score_policy_best: "تُحتسب أفضل محاولة لك",
+    score_policy_last: "تُحتسب آخر محاولة لك",
+    score_policy_average: "يُحتسب متوسط محاولاتك",
+    score_policy_first: "تُحتسب محاولتك الأولى",
+    results_pending: "النتائج قيد الانتظار",
+    results_release_on: "ستُعلن النتائج في {date}.",
+    results_not_released: "لم تُعلن نتائج هذا الاختبار بعد.",
+    grade_label: "التقدير: {grade}",
     // Attempt page & question component additions
     no_attempt_found: "لم يتم العثور على محاولة للاختبار.",
+    attempt_session_lost: "لم تعد جلسة الاختبار صالحة في هذا المتصفح. افتح الاختبار من رابطه مرة أخرى للمتابعة.",
+    exam_paused: "أوقف المراقب اختبارك مؤقتًا",
+    exam_paused_hint: "المؤقت متوقف. ستُعاد إليك مدة الإيقاف عند استئناف الاختبار.",
+    proctor_message: "رسالة من المراقب",
+    attempt_invalidated: "أنهى المراقب هذه المحاولة ولن يتم تصحيحها.",
+    lockdown_title: "يعمل هذا الاختبار في وضع ملء الشاشة",
+    lockdown_hint: "يُسجَّل الخروج من ملء الشاشة أو تبديل علامات التبويب أو مغادرة الصفحة ويُبلَّغ به المراقب.",
+    lockdown_enter: "الدخول إلى ملء الشاشة",
+    lockdown_warning: "غادرت الاختبار. تم تسجيل ذلك ({count} من {max}).",
+    lockdown_limit_pause: "عند الوصول إلى {max} يتوقف اختبارك مؤقتًا حتى يستأنفه المراقب.",
+    lockdown_limit_submit: "عند الوصول إلى {max} يُسلَّم اختبارك تلقائيًا.",
+    lockdown_paused: "وصلت إلى الحد الأقصى ({max}) من المخالفات. اختبارك متوقف مؤقتًا حتى يستأنفه المراقب.",
+    practice_mode_banner: "وضع التدريب: تحقّق من كل إجابة أثناء الحل. يمكنك تغيير الإجابة والتحقق منها مجددًا.",
+    check_answer: "تحقّق من الإجابة",
+    checking_answer: "جارٍ التحقق...",
+    feedback_correct: "إجابة صحيحة!",
+    feedback_incorrect: "ليست صحيحة تمامًا. غيّر إجابتك وتحقّق مجددًا.",
+    feedback_manual: "يصحّح المعلم هذا السؤال. قارن إجابتك بالشرح.",
+    feedback_answer: "الإجابة الصحيحة:",
+    feedback_explanation: "الشرح",
+    review_answers: "مراجعة الإجابات",
+    review_title: "مراجعة الإجابات",
+    review_enter_code: "أدخل رمزك لمراجعة إجاباتك.",
+    review_open: "فتح المراجعة",
+    review_not_allowed: "مراجعة الإجابات غير متاحة لهذا الاختبار.",
+    review_not_released: "تُتاح مراجعة الإجابات في {date}.",
+    review_not_submitted: "لم يتم تسليم هذه المحاولة بعد.",
+    review_not_found: "لا توجد محاولة مطابقة لهذا الرمز.",
+    review_score: "درجتك: {score}%",
+    review_points: "الدرجات: {earned} / {max}",
+    review_points_pending: "بانتظار التصحيح ({max} درجات)",
+    review_notes: "ملاحظة المصحّح",
+    review_correct: "صحيح",
+    review_incorrect: "غير صحيح",
+    review_manual: "يصحّحه المعلم",
+    review_not_answered: "لم تُجب عن هذا السؤال.",
     question_of_total: "السؤال {current} من {total}",
     x_answered: "{count} تمت الإجابة",
     offline: "غير متصل",
@@ -288,6 +411,21 @@ const dict: Record<StudentLocale, Record<string, string>> = {
     be_detailed: "كن مفصلًا قدر الإمكان",
     characters_count: "{count} حرف",
     unsupported_question_type: "نوع السؤال غير مدعوم",
+    image_annotation_hint: "اضغط \"إضافة علامة\" ثم اضغط على الصورة لتحديد كل نقطة إجابة.",
+    image_not_available: "الصورة غير متاحة",
+    image_annotation_add: "إضافة علامة",
+    image_annotation_adding: "اضغط على الصورة لإضافة نقطة",
+    image_annotation_clear: "مسح الكل",
+    image_annotation_count: "{count} / {max} علامات",
+    image_annotation_overlay: "اضغط في أي مكان على الصورة لإضافة نقطة",
+    image_annotation_list_title: "العلامات ({count})",
+    image_annotation_label_placeholder: "اكتب اسم العلامة",
+    numeric_answer_placeholder: "مثال: 9.81 m/s^2",
+    numeric_answer_hint: "اكتب الرقم، ثم الوحدة إذا طلبها السؤال.",
+    ordering_hint: "اسحب العناصر لترتيبها بالترتيب الصحيح.",
+    ordering_keep_order: "اعتماد هذا الترتيب",
+    matching_hint: "اسحب كل إجابة إلى ما يناسبها، أو اخترها من القائمة.",
+    matching_choose: "اختر…",
     points: "الدرجات:",
     home: "الصفحة الرئيسية",
     results: "النتائج",
@@ -311,6 +449,16 @@ const dict: Record<StudentLocale, Record<string, string>> = {
     five_minutes_remaining: "باقي 5 دقائق فقط! يرجى تسليم الامتحان قريباً.",
     one_minute_remaining: "باقي دقيقة واحدة فقط! سيتم تسليم الامتحان تلقائياً قريباً.",
     understood: "مفهوم",
+
+    // Sections
+    section_of_total: "القسم {current} من {total}",
+    next_section: "القسم التالي",
+    next_section_confirm: "الانتقال إلى القسم التالي؟ يمكنك العودة ما دام وقته متاحًا.",
+    next_section_confirm_locked: "الانتقال إلى القسم التالي؟ لن تتمكن من العودة إلى هذا القسم.",
+    section_time_up: "انتهى وقت هذا القسم. جارٍ الانتقال إلى القسم التالي.",
+    section_unavailable: "هذا القسم لم يعد متاحًا.",
+    section_closed_label: "مغلق",
+    time_extended: "تم منحك {minutes} دقيقة إضافية.",
   },
 };
 
@@ -0,0 +1,91 @@
+import { officialScore, parseAttemptPolicy, withAttemptHistory, type ScoredAttempt } from "@/lib/attemptPolicy";
+import type { ScorePolicy } from "@/lib/types";
+
+// Listed out of start order on purpose; a2 and a4 tie on the best score
+const ATTEMPTS: ScoredAttempt[] = [
+  { id: "a3", started_at: "2026-03-03T09:00:00Z", score: 55 },
+  { id: "a1", started_at: "2026-03-01T09:00:00Z", score: 60 },
+  { id: "a4", started_at: "2026-03-04T09:00:00Z", score: 80 },
+  { id: "a2", started_at: "2026-03-02T09:00:00Z", score: 80 },
+  { id: "a5", started_at: "2026-03-05T09:00:00Z", score: null },
+];
+
+describe("officialScore", () => {
+  it.each([
+    ["best", 80, ["a2"]],
+    ["last", 80, ["a4"]],
+    ["first", 60, ["a1"]],
+    ["average", 68.75, ["a1", "a2", "a3", "a4"]],
+  ] as [ScorePolicy, number, string[]][])("%s takes %d from %j", (policy, score, ids) => {
+    expect(officialScore(ATTEMPTS, policy)).toEqual({ score, attempt_ids: ids });
+  });
+
+  it.each([
+    ["no attempts", []],
+    ["only ungraded attempts", [{ id: "x", started_at: "2026-03-01T09:00:00Z", score: null }]],
+    ["non-finite scores", [{ id: "x", started_at: "2026-03-01T09:00:00Z", score: NaN }]],
+  ] as [string, ScoredAttempt[]][])("has no score with %s", (_name, attempts) => {
+    for (const policy of ["best", "last", "first", "average"] as ScorePolicy[]) {
+      expect(officialScore(attempts, policy)).toEqual({ score: null, attempt_ids: [] });
+    }
+  });
+
+  it("rounds the average to two decimals", () => {
+    const attempts = [70, 80, 81].map((score, i) => ({ id: `a${i}`, started_at: `2026-03-0${i + 1}T09:00:00Z`, score }));
+    expect(officialScore(attempts, "average").score).toBe(77);
+    attempts[2].score = 80.5;
+    expect(officialScore(attempts, "average").score).toBe(76.83);
+  });
+
+  it("treats attempts without a start time as earliest", () => {
+    const attempts = [
+      { id: "later", started_at: "2026-03-02T09:00:00Z", score: 90 },
+      { id: "unknown", started_at: null, score: 90 },
+    ];
+    expect(officialScore(attempts, "best").attempt_ids).toEqual(["unknown"]);
+    expect(officialScore(attempts, "last").attempt_ids).toEqual(["later"]);
+  });
+});
+
+describe("withAttemptHistory", () => {
+  const rows = [
+    { id: "s1-b", student_id: "s1", started_at: "2026-03-02T09:00:00Z", score: 90 },
+    { id: "open", student_id: null, started_at: "2026-03-01T08:00:00Z", score: 40 },
+    { id: "s1-a", student_id: "s1", started_at: "2026-03-01T09:00:00Z", score: 70 },
+    { id: "s2-a", student_id: "s2", started_at: "2026-03-01T10:00:00Z", score: null },
+    { id: "open-2", student_id: null, started_at: "2026-03-01T08:30:00Z", score: 50 },
+  ];
+
+  it.each([
+    ["best", { "s1-a": [1, 2, 90, false], "s1-b": [2, 2, 90, true] }],
+    ["first", { "s1-a": [1, 2, 70, true], "s1-b": [2, 2, 70, false] }],
+    ["last", { "s1-a": [1, 2, 90, false], "s1-b": [2, 2, 90, true] }],
+    ["average", { "s1-a": [1, 2, 80, true], "s1-b": [2, 2, 80, true] }],
+  ] as [ScorePolicy, Record<string, [number, number, number, boolean]>][])(
+    "numbers each student's attempts and marks the official one under %s",
+    (policy, expected) => {
+      const out = withAttemptHistory(rows, policy, (r) => r.score);
+      expect(out.map((r) => r.id)).toEqual(rows.map((r) => r.id));
+      const byId = new Map(out.map((r) => [r.id, r]));
+      for (const [id, [attempt_number, attempt_count, official_score, is_official]] of Object.entries(expected)) {
+        expect(byId.get(id)).toMatchObject({ attempt_number, attempt_count, official_score, is_official });
+      }
+      // Attempts without a student stand alone; an ungraded attempt has no official score
+      expect(byId.get("open")).toMatchObject({ attempt_number: 1, attempt_count: 1, official_score: 40, is_official: true });
+      expect(byId.get("open-2")).toMatchObject({ attempt_number: 1, attempt_count: 1, official_score: 50, is_official: true });
+      expect(byId.get("s2-a")).toMatchObject({ attempt_number: 1, attempt_count: 1, official_score: null, is_official: false });
+    }
+  );
+});
+
+describe("parseAttemptPolicy", () => {
+  it.each([
+    [null, { attempt_limit: 1, cooldown_minutes: 0, score_policy: "best" }],
+    [{ attempt_limit: 0 }, { attempt_limit: 0, cooldown_minutes: 0, score_policy: "best" }],
+    [{ attempt_limit: "3", attempt_cooldown_minutes: 15.7, score_policy: "average" }, { attempt_limit: 3, cooldown_minutes: 15, score_policy: "average" }],
+    [{ attempt_limit: -2, attempt_cooldown_minutes: -5, score_policy: "worst" }, { attempt_limit: 1, cooldown_minutes: 0, score_policy: "best" }],
+    [{ attempt_limit: "many" }, { attempt_limit: 1, cooldown_minutes: 0, score_policy: "best" }],
+  ])("reads %j", (settings, expected) => {
+    expect(parseAttemptPolicy(settings)).toEqual(expected);
+  });
+});
@@ -0,0 +1,32 @@
+import { readFileSync } from "fs";
+import path from "path";
+import { PGlite } from "@electric-sql/pglite";
+import { fuzzystrmatch } from "@electric-sql/pglite/contrib/fuzzystrmatch";
+
+const RPC_FILE = path.join(process.cwd(), "db", "rpc_functions.sql");
+
+/** The CREATE OR REPLACE FUNCTION statement for public.<name> in db/rpc_functions.sql */
+export function functionSource(name: string): string {
+  const sql = readFileSync(RPC_FILE, "utf8");
+  const match = new RegExp(`CREATE OR REPLACE FUNCTION public\\.${name}\\([\\s\\S]*?\\$function\\$;`).exec(sql);
+  if (!match) throw new Error(`public.${name} not found in db/rpc_functions.sql`);
+  return match[0];
+}
+
+/**
+ * In-process Postgres with the given functions loaded as written in db/rpc_functions.sql.
+ * `setup` runs first, for any tables the functions read.
+ */
+export async function sqlFunctions(names: string[], setup = ""): Promise<PGlite> {
+  const db = new PGlite({ extensions: { fuzzystrmatch } });
+  await db.exec("CREATE SCHEMA IF NOT EXISTS extensions; CREATE EXTENSION IF NOT EXISTS fuzzystrmatch;");
+  if (setup) await db.exec(setup);
+  for (const name of names) await db.exec(functionSource(name));
+  return db;
+}
+
+/** Calls a single-value SQL expression with JSON-encoded parameters, e.g. `public.f($1::jsonb)` */
+export async function sqlValue<T>(db: PGlite, expr: string, params: unknown[]): Promise<T> {
+  const res = await db.query<{ v: T }>(`SELECT ${expr} AS v`, params);
+  return res.rows[0].v;
+}
@@ -0,0 +1,90 @@
+import type { PGlite } from "@electric-sql/pglite";
+import { gradeNumeric, sigFigRange } from "@/lib/numericAnswer";
+import { sqlFunctions, sqlValue } from "./helpers/sqlFunctions";
+
+const G = { value: 9.81, tolerance: 0.05, units: ["m/s^2", "m s^-2"] };
+
+// [answer, key, expected]; every row is graded by both gradeNumeric and public.grade_numeric
+const CASES: [unknown, unknown, boolean][] = [
+  ["9.81", G, true],
+  ["9.85 m/s^2", G, true],
+  ["9.87 m/s^2", G, false],
+  ["9.81 M/S^2", G, true],
+  ["9.81 m s^-2", G, true],
+  ["9.81 km/h", G, false],
+  ["9.81", { ...G, unit_required: true }, false],
+  ["9.81 m/s^2", { ...G, unit_required: true }, true],
+  [9.81, G, true],
+  ["  +9.81  ", G, true],
+  ["\t9.81 m/s^2\n", G, true],
+  ["9.81\n", { ...G, unit_required: true }, false],
+  ["٩٫٨١", G, true],
+  ["۹.۸۱ m/s^2", G, true],
+  ["nine", G, false],
+  ["", G, false],
+  [null, G, false],
+  [true, G, false],
+  [["9.81"], G, false],
+  // Float rounding at the edge of the tolerance must agree with exact numeric math
+  ["9.9", { value: 9.8, tolerance: 0.1 }, true],
+  ["0.3", { value: 0.1, tolerance: 0.2 }, true],
+  ["-3.5", { value: -3.5 }, true],
+  ["-3.4", { value: -3.5 }, false],
+  ["1.2e3", { value: 1200 }, true],
+  [".5", { value: 0.5 }, true],
+  ["105", { value: 100, tolerance: 5, tolerance_type: "relative" }, true],
+  ["106", { value: 100, tolerance: 5, tolerance_type: "relative" }, false],
+  ["-95", { value: -100, tolerance: 5, tolerance_type: "relative" }, true],
+  ["42", { value: 42, tolerance: -1 }, true],
+  ["42", 42, true],
+  ["42", "42", true],
+  ["42", { value: "forty-two" }, false],
+  ["42", { tolerance: 1 }, false],
+  ["42", [42], false],
+  // Significant figures; whole numbers with trailing zeros are ambiguous
+  ["1200", { value: 1200, sig_figs: 2 }, true],
+  ["1200", { value: 1200, sig_figs: 4 }, true],
+  ["1200", { value: 1200, sig_figs: 5 }, false],
+  ["1200.", { value: 1200, sig_figs: 2 }, false],
+  ["1200.", { value: 1200, sig_figs: 4 }, true],
+  ["0.0050", { value: 0.005, sig_figs: 2 }, true],
+  ["0.005", { value: 0.005, sig_figs: 2 }, false],
+  ["0.00", { value: 0, sig_figs: 2 }, true],
+  ["3.14", { value: 3.14159, tolerance: 0.01, sig_figs: 3 }, true],
+  ["3.142", { value: 3.14159, tolerance: 0.01, sig_figs: 3 }, false],
+  ["3.14", { value: 3.14159, tolerance: 0.01, sig_figs: 2.9 }, false],
+];
+
+describe("gradeNumeric vs grade_numeric", () => {
+  let db: PGlite;
+
+  beforeAll(async () => {
+    db = await sqlFunctions(["grade_numeric"]);
+  });
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  it.each(CASES)("%j against %j is %s", async (answer, key, expected) => {
+    expect(gradeNumeric(answer, key)).toBe(expected);
+    const sql = await sqlValue<boolean>(db, "public.grade_numeric($1::jsonb, $2::jsonb)", [
+      answer === null ? null : JSON.stringify(answer),
+      JSON.stringify(key),
+    ]);
+    expect(sql).toBe(expected);
+  });
+});
+
+describe("sigFigRange", () => {
+  it.each([
+    ["1200", [2, 4]],
+    ["1200.", [4, 4]],
+    ["1.20e3", [3, 3]],
+    ["-0.0050", [2, 2]],
+    ["0", [1, 1]],
+    ["0.000", [3, 3]],
+  ] as [string, [number, number]][])("%s has %j significant figures", (text, range) => {
+    expect(sigFigRange(text)).toEqual(range);
+  });
+});
@@ -0,0 +1,104 @@
+import type { PGlite } from "@electric-sql/pglite";
+import {
+  QuestionPoolManager,
+  type PoolDifficulty,
+  type PoolQuestion,
+  type PoolSelectionCriteria,
+  type QuestionPool,
+} from "@/lib/questionPools";
+import { sqlFunctions, sqlValue } from "./helpers/sqlFunctions";
+
+// Previews (generateExamQuestions with a seed) must draw the same questions in the same order
+// as draw_pool_questions() does when the attempt starts.
+
+const POOL_A = "00000000-0000-4000-8000-00000000000a";
+const POOL_B = "00000000-0000-4000-8000-00000000000b";
+
+const QUESTIONS: { id: string; pool_id: string; difficulty: PoolDifficulty | null; tags: string[] }[] = [
+  ["easy", ["algebra"]],
+  ["easy", ["geometry"]],
+  ["easy", []],
+  ["medium", ["algebra"]],
+  [null, ["algebra", "geometry"]],
+  ["medium", []],
+  ["medium", ["geometry"]],
+  ["hard", ["algebra"]],
+  ["hard", []],
+  [null, []],
+  ["easy", ["algebra"]],
+  ["hard", ["geometry"]],
+].map(([difficulty, tags], i) => ({
+  id: `00000000-0000-4000-8000-${String(i + 1).padStart(12, "0")}`,
+  pool_id: i % 3 === 2 ? POOL_B : POOL_A,
+  difficulty: difficulty as PoolDifficulty | null,
+  tags: tags as string[],
+}));
+
+const POOLS = [POOL_A, POOL_B].map((id) => ({
+  id,
+  name: id,
+  tags: [],
+  questions: QUESTIONS.filter((q) => q.pool_id === id) as unknown as PoolQuestion[],
+  created_at: "2026-01-01T00:00:00Z",
+  updated_at: "2026-01-01T00:00:00Z",
+})) as QuestionPool[];
+
+const SETUP = `
+  CREATE TABLE public.questions (id uuid PRIMARY KEY, pool_id uuid, difficulty text, tags text[]);
+  INSERT INTO public.questions (id, pool_id, difficulty, tags) VALUES
+  ${QUESTIONS.map(
+    (q) =>
+      `('${q.id}', '${q.pool_id}', ${q.difficulty ? `'${q.difficulty}'` : "NULL"}, ARRAY[${q.tags.map((t) => `'${t}'`).join(",")}]::text[])`
+  ).join(",\n  ")};
+`;
+
+const CASES: [string, Record<string, unknown>][] = [
+  ["plain count", { pool_ids: [POOL_A, POOL_B], question_count: 5 }],
+  ["one pool", { pool_ids: [POOL_B], question_count: 3 }],
+  ["more than eligible", { pool_ids: [POOL_A, POOL_B], question_count: 50 }],
+  ["tag filter", { pool_ids: [POOL_A, POOL_B], question_count: 4, tags: ["algebra"] }],
+  ["balanced", { pool_ids: [POOL_A, POOL_B], question_count: 7, balance_by_difficulty: true }],
+  ["balanced, remainder 1", { pool_ids: [POOL_A, POOL_B], question_count: 4, balance_by_difficulty: true }],
+  ["explicit quotas", { pool_ids: [POOL_A, POOL_B], question_count: 6, difficulty_distribution: { easy: 3, medium: 2, hard: 1 } }],
+  ["quota shortfall topped up", { pool_ids: [POOL_A, POOL_B], question_count: 6, difficulty_distribution: { easy: 0, medium: 1, hard: 5 } }],
+  ["quotas with tags", { pool_ids: [POOL_A, POOL_B], question_count: 3, tags: ["geometry"], difficulty_distribution: { easy: 1, medium: 1, hard: 1 } }],
+];
+const SEEDS = ["attempt-1", "attempt-2", "8f0c2b7e-5d1a-4c3b-9e6f-1a2b3c4d5e6f"];
+
+describe("QuestionPoolManager seeded draws vs draw_pool_questions", () => {
+  let db: PGlite;
+
+  beforeAll(async () => {
+    db = await sqlFunctions(["draw_pool_questions"], SETUP);
+    // Pools come from the table above instead of Supabase
+    const loader = QuestionPoolManager as unknown as {
+      getQuestionPools: (criteria: PoolSelectionCriteria) => Promise<QuestionPool[]>;
+    };
+    jest
+      .spyOn(loader, "getQuestionPools")
+      .mockImplementation(async (criteria) => POOLS.filter((p) => criteria.poolIds?.includes(p.id)));
+  });
+
+  afterAll(async () => {
+    jest.restoreAllMocks();
+    await db.close();
+  });
+
+  const table = CASES.flatMap(([name, pool]) => SEEDS.map((seed) => [name, seed, pool] as const));
+
+  it.each(table)("%s (seed %s)", async (_name, seed, pool) => {
+    const settings = { question_pool: { enabled: true, ...pool } };
+    const parsed = QuestionPoolManager.fromExamSettings(settings, seed);
+    expect(parsed).not.toBeNull();
+    const drawn = await QuestionPoolManager.generateExamQuestions(parsed!.criteria, parsed!.config);
+
+    const expected = await sqlValue<string[]>(db, "public.draw_pool_questions($1::jsonb, $2)", [settings, seed]);
+    expect(drawn.map((q) => q.id)).toEqual(expected);
+  });
+
+  it("returns nothing to draw when pools are disabled", async () => {
+    const settings = { question_pool: { enabled: false, pool_ids: [POOL_A], question_count: 3 } };
+    expect(QuestionPoolManager.fromExamSettings(settings, "seed")).toBeNull();
+    expect(await sqlValue(db, "public.draw_pool_questions($1::jsonb, $2)", [settings, "seed"])).toBeNull();
+  });
+});
@@ -0,0 +1,82 @@
+import { gradeResult, parseResultPolicy, resultVisibility } from "@/lib/resultRelease";
+import type { ResultPolicy } from "@/lib/types";
+
+const BANDS: ResultPolicy = {
+  pass_percentage: 50,
+  grade_bands: [
+    { label: "A", min_percentage: 90 },
+    { label: "B", min_percentage: 75 },
+    { label: "C", min_percentage: 50 },
+    { label: "F", min_percentage: 0 },
+  ],
+};
+
+describe("gradeResult", () => {
+  it.each([
+    [100, BANDS, true, "A"],
+    [90, BANDS, true, "A"],
+    [89.99, BANDS, true, "B"],
+    [75, BANDS, true, "B"],
+    [50, BANDS, true, "C"],
+    [49.99, BANDS, false, "F"],
+    [0, BANDS, false, "F"],
+    [-5, BANDS, false, null],
+    [null, BANDS, null, null],
+    [NaN, BANDS, null, null],
+    [Infinity, BANDS, null, null],
+    [80, { pass_percentage: null, grade_bands: BANDS.grade_bands }, null, "B"],
+    [80, { pass_percentage: 85, grade_bands: [] }, false, null],
+    [85, { pass_percentage: 85, grade_bands: [] }, true, null],
+    [80, { pass_percentage: null, grade_bands: [] }, null, null],
+  ] as [number | null, ResultPolicy, boolean | null, string | null][])(
+    "%d with %j is pass %s, grade %s",
+    (score, policy, is_pass, grade) => {
+      expect(gradeResult(score, policy)).toEqual({ is_pass, grade });
+    }
+  );
+
+  it("grades against bands as saved in exam settings", () => {
+    const policy = parseResultPolicy({
+      pass_percentage: "60",
+      grade_bands: [
+        { label: "Pass", min_percentage: 60 },
+        { label: " Distinction ", min_percentage: "85" },
+        { label: "", min_percentage: 95 },
+        { label: "Broken", min_percentage: "abc" },
+      ],
+    });
+    expect(policy).toEqual({
+      pass_percentage: 60,
+      grade_bands: [
+        { label: "Distinction", min_percentage: 85 },
+        { label: "Pass", min_percentage: 60 },
+      ],
+    });
+    expect(gradeResult(97, policy)).toEqual({ is_pass: true, grade: "Distinction" });
+    expect(gradeResult(59, policy)).toEqual({ is_pass: false, grade: null });
+  });
+
+  it.each([null, undefined, "x", {}, { pass_percentage: "" }, { pass_percentage: null, grade_bands: "A" }])(
+    "has no policy in %j",
+    (settings) => {
+      expect(parseResultPolicy(settings)).toEqual({ pass_percentage: null, grade_bands: [] });
+    }
+  );
+});
+
+describe("resultVisibility", () => {
+  const now = new Date("2026-06-01T12:00:00Z");
+
+  it.each([
+    [null, "released_with_details"],
+    [{}, "released_with_details"],
+    [{ results_visibility: "bogus" }, "released_with_details"],
+    [{ results_visibility: "hidden" }, "hidden"],
+    [{ results_visibility: "released" }, "released"],
+    [{ results_visibility: "released", results_release_at: "2026-06-01T12:00:01Z" }, "hidden"],
+    [{ results_visibility: "released", results_release_at: "2026-06-01T12:00:00Z" }, "released"],
+    [{ results_visibility: "released_with_details", results_release_at: "2026-05-01T00:00:00Z" }, "released_with_details"],
+  ])("%j is %s", (exam, expected) => {
+    expect(resultVisibility(exam, now)).toBe(expected);
+  });
+});
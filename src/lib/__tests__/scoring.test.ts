@@ -0,0 +1,161 @@
+import type { PGlite } from "@electric-sql/pglite";
+import { gradeAnswer, hasAnswerKey, parseScoringPolicy, scoreQuestion } from "@/lib/scoring";
+import { sqlFunctions, sqlValue } from "./helpers/sqlFunctions";
+
+// The review page scores each question with scoreQuestion; the stored result comes from
+// public.calculate_result_for_attempt. Both must agree, question by question.
+
+const uuid = (n: number) => `00000000-0000-4000-8000-${String(n).padStart(12, "0")}`;
+const EXAM = uuid(1);
+
+// attempt_questions() is replaced by a table of the questions each attempt was shown
+const SETUP = `
+  CREATE TABLE public.exams (id uuid PRIMARY KEY, settings jsonb NOT NULL DEFAULT '{}'::jsonb);
+  CREATE TABLE public.exam_attempts (id uuid PRIMARY KEY, exam_id uuid NOT NULL, answers jsonb NOT NULL DEFAULT '{}'::jsonb);
+  CREATE TABLE public.attempt_question_rows (attempt_id uuid, id uuid, question_type text, correct_answers jsonb, points integer);
+  CREATE TABLE public.manual_grades (attempt_id uuid, question_id uuid, awarded_points numeric);
+  CREATE TABLE public.exam_results (
+    attempt_id uuid PRIMARY KEY, total_questions integer, correct_count integer, score_percentage numeric,
+    auto_points numeric, manual_points numeric, max_points numeric, final_score_percentage numeric, calculated_at timestamptz
+  );
+  CREATE FUNCTION public.attempt_questions(p_attempt_id uuid, p_for_grading boolean DEFAULT false)
+  RETURNS TABLE(id uuid, question_type text, correct_answers jsonb, points integer)
+  LANGUAGE sql AS $$
+    SELECT q.id, q.question_type, q.correct_answers, q.points FROM public.attempt_question_rows q WHERE q.attempt_id = p_attempt_id
+  $$;
+`;
+
+const GRADERS = ["normalize_answer_text", "grade_short_answer", "grade_numeric", "grade_positional", "grade_image_annotation"];
+
+type Question = { question_type: string; correct_answers: unknown; points: number };
+
+// [name, question, answer]; each is graded next to a correct 10-point question so penalties show
+const CASES: [string, Question, unknown][] = [
+  ["right single choice", { question_type: "single_choice", correct_answers: ["a"], points: 2 }, "a"],
+  ["wrong single choice", { question_type: "single_choice", correct_answers: ["a"], points: 2 }, "b"],
+  ["unanswered single choice", { question_type: "single_choice", correct_answers: ["a"], points: 2 }, null],
+  ["wrong multi select", { question_type: "multi_select", correct_answers: ["a", "b"], points: 2 }, ["a"]],
+  ["wrong numeric", { question_type: "numeric", correct_answers: { value: 5 }, points: 1 }, "4"],
+  ["wrong keyed short answer", { question_type: "short_answer", correct_answers: { accepted: ["osmosis"] }, points: 2 }, "diffusion"],
+  ["wrong pattern-only short answer", { question_type: "short_answer", correct_answers: { patterns: ["^osmo"] }, points: 2 }, "diffusion"],
+  ["keyless short answer", { question_type: "short_answer", correct_answers: { accepted: [], case_sensitive: false }, points: 2 }, "diffusion"],
+  ["blank-keyed short answer", { question_type: "short_answer", correct_answers: ["  "], points: 2 }, "diffusion"],
+  ["short answer without a key", { question_type: "short_answer", correct_answers: null, points: 2 }, "diffusion"],
+  ["single choice without a key", { question_type: "single_choice", correct_answers: [], points: 2 }, "a"],
+  ["paragraph", { question_type: "paragraph", correct_answers: null, points: 3 }, "An essay"],
+];
+
+describe("scoreQuestion vs calculate_result_for_attempt under negative marking", () => {
+  const settings = { scoring_policy: { mode: "negative", penalty: 0.5 } };
+  const policy = parseScoringPolicy(settings);
+  let db: PGlite;
+
+  beforeAll(async () => {
+    db = await sqlFunctions([...GRADERS, "has_answer_key", "calculate_result_for_attempt"], SETUP);
+    await db.query("INSERT INTO public.exams (id, settings) VALUES ($1, $2::jsonb)", [EXAM, JSON.stringify(settings)]);
+  });
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  it.each(CASES.map((c, i) => [...c, i] as const))("%s", async (_name, question, answer, i) => {
+    const attemptId = uuid(100 + i);
+    const anchorId = uuid(200 + i);
+    const questionId = uuid(300 + i);
+    const answers: Record<string, unknown> = { [anchorId]: "a" };
+    if (answer !== null) answers[questionId] = answer;
+    await db.query("INSERT INTO public.exam_attempts (id, exam_id, answers) VALUES ($1, $2, $3::jsonb)", [
+      attemptId,
+      EXAM,
+      JSON.stringify(answers),
+    ]);
+    await db.query(
+      `INSERT INTO public.attempt_question_rows (attempt_id, id, question_type, correct_answers, points)
+       VALUES ($1, $2, 'single_choice', '["a"]'::jsonb, 10), ($1, $3, $4, $5::jsonb, $6)`,
+      [attemptId, anchorId, questionId, question.question_type, JSON.stringify(question.correct_answers), question.points]
+    );
+
+    const expected = 10 + scoreQuestion(question, answer, gradeAnswer(question, answer), policy).earned;
+    const sql = await sqlValue<string>(db, "(public.calculate_result_for_attempt($1::uuid)).auto_points", [attemptId]);
+    expect(Number(sql)).toBeCloseTo(expected, 6);
+  });
+
+  it("does not penalize a keyless short answer", () => {
+    const question = { question_type: "short_answer", correct_answers: { accepted: [] }, points: 2 };
+    expect(scoreQuestion(question, "diffusion", gradeAnswer(question, "diffusion"), policy).earned).toBe(0);
+  });
+});
+
+describe("calculate_result_for_attempt on practice exams", () => {
+  const practiceExam = uuid(2);
+  const attemptId = uuid(400);
+  let db: PGlite;
+
+  beforeAll(async () => {
+    db = await sqlFunctions([...GRADERS, "has_answer_key", "calculate_result_for_attempt"], SETUP);
+    await db.query("INSERT INTO public.exams (id, settings) VALUES ($1, $2::jsonb)", [
+      practiceExam,
+      JSON.stringify({ practice_mode: true }),
+    ]);
+    await db.query("INSERT INTO public.exam_attempts (id, exam_id, answers) VALUES ($1, $2, $3::jsonb)", [
+      attemptId,
+      practiceExam,
+      JSON.stringify({ [uuid(401)]: "a" }),
+    ]);
+    await db.query(
+      `INSERT INTO public.attempt_question_rows (attempt_id, id, question_type, correct_answers, points)
+       VALUES ($1, $2, 'single_choice', '["a"]'::jsonb, 1), ($1, $3, 'single_choice', '["a"]'::jsonb, 1)`,
+      [attemptId, uuid(401), uuid(402)]
+    );
+  });
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  it("scores the attempt but stores no result, removing any from before", async () => {
+    await db.query("INSERT INTO public.exam_results (attempt_id, score_percentage) VALUES ($1, 100)", [attemptId]);
+    const score = await sqlValue<string>(db, "(public.calculate_result_for_attempt($1::uuid)).final_score_percentage", [attemptId]);
+    expect(Number(score)).toBe(50);
+    const stored = await sqlValue<number>(db, "(SELECT count(*)::int FROM public.exam_results WHERE attempt_id = $1)", [attemptId]);
+    expect(stored).toBe(0);
+  });
+});
+
+describe("hasAnswerKey vs has_answer_key", () => {
+  let db: PGlite;
+
+  beforeAll(async () => {
+    db = await sqlFunctions(["has_answer_key"]);
+  });
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  it.each([
+    ["single_choice", ["a"], true],
+    ["single_choice", [], false],
+    ["true_false", true, true],
+    ["numeric", { value: 5 }, true],
+    ["numeric", {}, false],
+    ["matching", { matches: ["x"] }, true],
+    ["short_answer", "osmosis", true],
+    ["short_answer", " ", false],
+    ["short_answer", ["osmosis", 3], true],
+    ["short_answer", [3], false],
+    ["short_answer", { accepted: [" "], patterns: ["^os"] }, true],
+    ["short_answer", { accepted: [], max_distance: 1 }, false],
+    ["short_answer", null, false],
+    ["paragraph", ["anything"], false],
+    ["photo_upload", null, false],
+  ] as [string, unknown, boolean][])("%s keyed by %j is %s", async (type, key, expected) => {
+    expect(hasAnswerKey({ question_type: type, correct_answers: key })).toBe(expected);
+    const sql = await sqlValue<boolean>(db, "public.has_answer_key($1, $2::jsonb)", [
+      type,
+      key === null ? null : JSON.stringify(key),
+    ]);
+    expect(sql).toBe(expected);
+  });
+});
@@ -0,0 +1,64 @@
+import type { PGlite } from "@electric-sql/pglite";
+import { gradeSequence, parseSequenceKey, positionalFraction } from "@/lib/sequenceAnswer";
+import { sqlFunctions, sqlValue } from "./helpers/sqlFunctions";
+
+const ORDER = { order: ["Mercury", "Venus", "Earth", "Mars"], partial_credit: true };
+const MATCHES = { matches: ["Paris", "Rome", "Madrid"] };
+
+// [question type, answer, key, expected share]; every row is scored by both positionalFraction
+// and public.grade_positional
+const CASES: ["ordering" | "matching", unknown, unknown, number][] = [
+  ["ordering", ["Mercury", "Venus", "Earth", "Mars"], ORDER, 1],
+  ["ordering", ["Venus", "Mercury", "Earth", "Mars"], ORDER, 0.5],
+  ["ordering", ["Mars", "Earth", "Venus", "Mercury"], ORDER, 0],
+  ["ordering", [" Mercury ", "Venus\t", "Earth", "Mars"], ORDER, 1],
+  ["ordering", ["Mercury", "Venus"], ORDER, 0.5],
+  ["ordering", ["Mercury", "Venus", "Earth", "Mars", "Jupiter"], ORDER, 1],
+  ["ordering", ["mercury", "venus", "earth", "mars"], ORDER, 0],
+  ["ordering", [], ORDER, 0],
+  ["ordering", null, ORDER, 0],
+  ["ordering", "Mercury", ORDER, 0],
+  ["ordering", ["a", "b", "c"], ["a", "b", "x"], 2 / 3],
+  ["ordering", ["a", "b"], { matches: ["a", "b"] }, 0],
+  ["ordering", ["a"], { order: [] }, 0],
+  ["ordering", ["a"], null, 0],
+  ["matching", ["Paris", "Rome", "Madrid"], MATCHES, 1],
+  ["matching", ["Paris", "", "Madrid"], MATCHES, 2 / 3],
+  ["matching", ["Rome", "Paris", ""], MATCHES, 0],
+  ["matching", ["Paris", "Rome", "Madrid"], { order: ["Paris", "Rome", "Madrid"] }, 0],
+  ["matching", [1, 2], ["1", "2"], 1],
+];
+
+describe("positionalFraction vs grade_positional", () => {
+  let db: PGlite;
+
+  beforeAll(async () => {
+    db = await sqlFunctions(["grade_positional"]);
+  });
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  it.each(CASES)("%s %j against %j scores %d", async (type, answer, key, expected) => {
+    const fraction = positionalFraction(answer, parseSequenceKey(type, key).expected);
+    expect(fraction).toBeCloseTo(expected, 10);
+    const sql = await sqlValue<number | string>(db, "public.grade_positional($1::jsonb, $2::jsonb, $3)", [
+      answer === null ? null : JSON.stringify(answer),
+      key === null ? null : JSON.stringify(key),
+      type === "matching" ? "matches" : "order",
+    ]);
+    expect(Number(sql)).toBeCloseTo(expected, 10);
+  });
+});
+
+describe("gradeSequence", () => {
+  it.each([
+    ["ordering", ["Mercury", "Venus", "Earth", "Mars"], ORDER, true],
+    ["ordering", ["Venus", "Mercury", "Earth", "Mars"], ORDER, false],
+    ["ordering", [], { order: [] }, false],
+    ["matching", ["Paris", "Rome", "Madrid"], MATCHES, true],
+  ] as [string, unknown, unknown, boolean][])("%s %j against %j is %s", (type, answer, key, expected) => {
+    expect(gradeSequence(type, answer, key)).toBe(expected);
+  });
+});
@@ -0,0 +1,100 @@
+import type { PGlite } from "@electric-sql/pglite";
+import { gradeShortAnswer } from "@/lib/shortAnswer";
+import { normalizeAnswerText } from "@/lib/textUtils";
+import { sqlFunctions, sqlValue } from "./helpers/sqlFunctions";
+
+// [text, case sensitive, normalize whitespace, normalize arabic, expected]
+const NORMALIZE: [string, boolean, boolean, boolean, string][] = [
+  ["  Photo   Synthesis ", false, true, true, "photo synthesis"],
+  ["\tPhoto\n\nSynthesis\r\n", false, true, true, "photo synthesis"],
+  ["  Photo   Synthesis ", true, true, true, "Photo   Synthesis".replace(/\s+/g, " ")],
+  ["  Photo   Synthesis ", false, false, true, "photo   synthesis"],
+  ["\tPhoto\n", false, false, true, "photo"],
+  ["مُحَمَّد", false, true, true, "محمد"],
+  ["أحمد إبراهيم آمنة ٱلله", false, true, true, "احمد ابراهيم امنه الله"],
+  ["مكتبة مصطفى", false, true, true, "مكتبه مصطفي"],
+  ["الـــعـــرب", false, true, true, "العرب"],
+  ["٣٫١٤ و ۲۰", false, true, true, "3.14 و 20"],
+  ["مُحَمَّد ٣", false, true, false, "مُحَمَّد ٣"],
+  ["ÉCOLE", false, true, true, "école"],
+  ["", false, true, true, ""],
+];
+
+const KEY = { accepted: ["Photosynthesis", "photo-synthesis"], max_distance: 2 };
+
+// [answer, key, expected]; every row is graded by both gradeShortAnswer and public.grade_short_answer
+const GRADE: [unknown, unknown, boolean][] = [
+  ["photosynthesis", KEY, true],
+  ["  PHOTOSYNTHESIS  ", KEY, true],
+  ["\tphotosynthesis\n", KEY, true],
+  ["fotosynthesis", KEY, true],
+  ["fotosyntesis", KEY, false],
+  ["fotosintesis", KEY, false],
+  ["photo synthesis", KEY, true],
+  ["PHOTOSYNTHESIS", { ...KEY, case_sensitive: true }, false],
+  ["Photosynthesis", { ...KEY, case_sensitive: true }, true],
+  ["photosynthesis", { accepted: ["Photosynthesis"] }, true],
+  ["photosynthesiss", { accepted: ["Photosynthesis"] }, false],
+  ["photosynthesiss", { accepted: ["Photosynthesis"], max_distance: 1.9 }, true],
+  ["photosynthesiss", { accepted: ["Photosynthesis"], max_distance: -1 }, false],
+  ["photosynthesiss", { accepted: ["Photosynthesis"], max_distance: "x" }, false],
+  ["new  york", { accepted: ["New York"] }, true],
+  ["new  york", { accepted: ["New York"], normalize_whitespace: false }, false],
+  ["القاهره", { accepted: ["القاهرة"] }, true],
+  ["القاهره", { accepted: ["القاهرة"], normalize_arabic: false }, false],
+  ["القاهرا", { accepted: ["القاهرة"], max_distance: 1 }, true],
+  ["Paris", "paris", true],
+  ["Lyon", ["Paris", "Lyon"], true],
+  ["Nice", ["Paris", "Lyon"], false],
+  ["Paris", ["", "  ", "Paris"], true],
+  ["", { accepted: [""] }, false],
+  ["   ", { accepted: ["   "] }, false],
+  ["\t\n", { accepted: ["\t"] }, false],
+  ["Paris", { accepted: ["\n", "paris"] }, true],
+  [null, { accepted: ["x"] }, false],
+  [42, { accepted: ["42"] }, false],
+  [["Paris"], { accepted: ["Paris"] }, false],
+  ["Paris", 42, false],
+  ["Paris", null, false],
+  ["Paris", { accepted: [42, "paris"] }, true],
+  // Patterns run on the normalized answer
+  ["H2O", { patterns: ["^h2o$"] }, true],
+  ["H2O", { patterns: ["^h2o$"], case_sensitive: true }, false],
+  ["  water   H2O ", { patterns: ["^water h2o$"] }, true],
+  ["The answer is 42", { patterns: ["\\d+"] }, true],
+  ["no digits", { patterns: ["\\d+"] }, false],
+  ["abc", { patterns: ["(unclosed", "b"] }, true],
+  ["abc", { patterns: ["(unclosed"] }, false],
+  ["٤٢", { patterns: ["^42$"] }, true],
+];
+
+describe("short answer grading vs SQL", () => {
+  let db: PGlite;
+
+  beforeAll(async () => {
+    db = await sqlFunctions(["normalize_answer_text", "grade_short_answer"]);
+  });
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  describe("normalizeAnswerText vs normalize_answer_text", () => {
+    it.each(NORMALIZE)("%j (case %s, whitespace %s, arabic %s)", async (text, caseSensitive, whitespace, arabic, expected) => {
+      expect(normalizeAnswerText(text, { caseSensitive, normalizeWhitespace: whitespace, normalizeArabic: arabic })).toBe(expected);
+      const sql = await sqlValue<string>(db, "public.normalize_answer_text($1, $2, $3, $4)", [text, caseSensitive, whitespace, arabic]);
+      expect(sql).toBe(expected);
+    });
+  });
+
+  describe("gradeShortAnswer vs grade_short_answer", () => {
+    it.each(GRADE)("%j against %j is %s", async (answer, key, expected) => {
+      expect(gradeShortAnswer(answer, key)).toBe(expected);
+      const sql = await sqlValue<boolean>(db, "public.grade_short_answer($1::jsonb, $2::jsonb)", [
+        answer === null ? null : JSON.stringify(answer),
+        key === null ? null : JSON.stringify(key),
+      ]);
+      expect(sql).toBe(expected);
+    });
+  });
+});
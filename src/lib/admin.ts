@@ -1,11 +1,14 @@
 import { NextRequest, NextResponse } from "next/server";
 import { jwtVerify } from "jose";
+import { ROLES, permissionsForRole } from "@/lib/auth/edge-permissions";
 
 type AdminTokenPayload = {
   sub: string;
   email?: string | null;
   username?: string | null;
   is_admin?: boolean;
+  role?: string;
+  permissions?: string[];
   iat?: number;
   exp?: number;
 };
@@ -24,23 +27,59 @@ export async function getBearerToken(_req: NextRequest): Promise<string | null>
   return null;
 }
 
-export async function requireAdmin(req: NextRequest): Promise<{ user_id: string; email: string | null; username?: string | null }>
+export type AdminSession = {
+  user_id: string;
+  email: string | null;
+  username?: string | null;
+  role: string;
+  permissions: string[];
+};
+
+/**
+ * Verifies the admin cookie. When `permission` is given the token must carry it
+ * (any of them, for a list); otherwise any admin role passes. Tokens minted
+ * before roles existed carry none and are treated as super admin.
+ */
+export async function requireAdmin(req: NextRequest, permission?: string | string[]): Promise<AdminSession>
 {
   const cookie = req.cookies.get("auth_token")?.value;
   if (!cookie) {
     throw NextResponse.json({ error: "unauthorized" }, { status: 401 });
   }
 
+  let p: AdminTokenPayload;
   try {
     const secret = new TextEncoder().encode(getAuthSecret());
     const { payload } = await jwtVerify(cookie, secret);
-    const p = payload as AdminTokenPayload;
-    if (!p?.sub || p.is_admin !== true) {
-      throw NextResponse.json({ error: "forbidden" }, { status: 403 });
-    }
-    return { user_id: p.sub, email: p.email ?? null, username: p.username ?? undefined };
+    p = payload as AdminTokenPayload;
   } catch (e) {
     // Invalid/expired token
     throw NextResponse.json({ error: "unauthorized" }, { status: 401 });
   }
+  if (!p?.sub || p.is_admin !== true) {
+    throw NextResponse.json({ error: "forbidden" }, { status: 403 });
+  }
+
+  const role = p.role || ROLES.SUPER_ADMIN.name;
+  const permissions = Array.isArray(p.permissions) ? p.permissions : permissionsForRole(role);
+  const required = permission === undefined ? [] : Array.isArray(permission) ? permission : [permission];
+  if (required.length > 0 && !required.some((perm) => permissions.includes(perm))) {
+    throw NextResponse.json({ error: "forbidden", required }, { status: 403 });
+  }
+
+  return { user_id: p.sub, email: p.email ?? null, username: p.username ?? undefined, role, permissions };
+}
+
+/**
+ * requireAdmin for handlers whose catch blocks don't pass a thrown Response
+ * through: returns the 401/403 response to send, or null when allowed.
+ */
+export async function checkAdmin(req: NextRequest, permission?: string | string[]): Promise<Response | null> {
+  try {
+    await requireAdmin(req, permission);
+    return null;
+  } catch (e) {
+    if (e instanceof Response) return e;
+    throw e;
+  }
 }
@@ -1,5 +1,6 @@
 import { supabaseServer } from "@/lib/supabase/server";
 import { attemptOperations, AttemptState } from "./attempt-operations";
+import type { ProctorAction, ProctorEvent } from "@/lib/proctoring";
 
 export interface RealtimeConfig {
   interval?: number;
@@ -330,9 +331,16 @@ export class RealtimeAttemptManager {
   }
 
   /**
-   * Server-Sent Events endpoint for real-time updates
+   * Server-Sent Events endpoint for real-time updates. When a session id is given the
+   * stream ends as soon as the attempt moves to another session. Proctor actions after
+   * lastEventId (the last one the client received) are replayed.
    */
-  async createSSEStream(attemptId: string, connectionId: string): Promise<ReadableStream> {
+  async createSSEStream(
+    attemptId: string,
+    connectionId: string,
+    options: { sessionId?: string; lastEventId?: number | null } = {}
+  ): Promise<ReadableStream> {
+    const { sessionId } = options;
     // Initialize connection
     await this.initializeRealtimeMonitoring(attemptId, connectionId);
 
@@ -356,9 +364,110 @@ export class RealtimeAttemptManager {
           controller.enqueue(new TextEncoder().encode(heartbeatEvent));
         }, 30000); // 30 second heartbeat
 
+        // The attempt was resumed elsewhere: tell this client and stop streaming to it
+        let closed = false;
+        const endSuperseded = () => {
+          if (closed) return;
+          closed = true;
+          cleanup();
+          controller.enqueue(new TextEncoder().encode(`data: ${JSON.stringify({
+            type: 'session_superseded',
+            timestamp: Date.now()
+          })}\n\n`));
+          controller.close();
+        };
+        const sessionCurrent = async () => {
+          if (closed) return false;
+          if (!sessionId) return true;
+          const { data } = await this.supabase
+            .from('exam_attempts')
+            .select('session_id')
+            .eq('id', attemptId)
+            .maybeSingle();
+          if ((data as { session_id?: string | null } | null)?.session_id === sessionId) return true;
+          endSuperseded();
+          return false;
+        };
+
+        // Push live time extensions. Admin extensions may land on another server
+        // instance, so poll the attempt row rather than relying on in-memory broadcast.
+        let lastExtension: number | null = null;
+        const pollExtension = async () => {
+          try {
+            const { data } = await this.supabase
+              .from('exam_attempts')
+              .select('extra_minutes, session_id')
+              .eq('id', attemptId)
+              .maybeSingle();
+            if (!data) return;
+            const row = data as { extra_minutes?: number | null; session_id?: string | null };
+            if (sessionId && row.session_id !== sessionId) {
+              endSuperseded();
+              return;
+            }
+            if (closed) return;
+            const extension = Number(row.extra_minutes ?? 0);
+            if (lastExtension !== null && extension !== lastExtension) {
+              const [extra, deadline] = await Promise.all([
+                this.supabase.rpc('attempt_extra_minutes', { p_attempt_id: attemptId }),
+                this.supabase.rpc('attempt_deadline', { p_attempt_id: attemptId })
+              ]);
+              const extendedEvent = `data: ${JSON.stringify({
+                type: 'time_extended',
+                added_minutes: extension - lastExtension,
+                extra_minutes: extra.data ?? extension,
+                deadline_at: deadline.data ?? null,
+                timestamp: Date.now()
+              })}\n\n`;
+              if (closed) return;
+              controller.enqueue(new TextEncoder().encode(extendedEvent));
+            }
+            lastExtension = extension;
+          } catch (error) {
+            console.error('Failed to poll attempt extension:', error);
+          }
+        };
+        void pollExtension();
+        const extensionPoll = setInterval(pollExtension, 5000);
+
+        // Proctor actions (pause, resume, message, force submit, invalidate) are rows in
+        // proctor_actions. Each is sent with its id as the SSE event id, so a reconnecting
+        // client resumes after the last action it saw and none sent while it was away are lost.
+        let lastActionId = options.lastEventId ?? 0;
+        const pollProctorActions = async () => {
+          try {
+            if (!(await sessionCurrent())) return;
+            const { data } = await this.supabase
+              .from('proctor_actions')
+              .select('id, action, message, created_at')
+              .eq('attempt_id', attemptId)
+              .gt('id', lastActionId)
+              .order('id', { ascending: true });
+            const rows = (data ?? []) as { id: number; action: ProctorAction; message: string | null; created_at: string }[];
+            for (const row of rows) {
+              if (closed) return;
+              const event: ProctorEvent = {
+                type: 'proctor',
+                id: row.id,
+                action: row.action,
+                message: row.message,
+                timestamp: new Date(row.created_at).getTime()
+              };
+              controller.enqueue(new TextEncoder().encode(`id: ${row.id}\ndata: ${JSON.stringify(event)}\n\n`));
+              lastActionId = row.id;
+            }
+          } catch (error) {
+            console.error('Failed to poll proctor actions:', error);
+          }
+        };
+        void pollProctorActions();
+        const proctorPoll = setInterval(pollProctorActions, 3000);
+
         // Clean up on close
         const cleanup = () => {
           clearInterval(heartbeat);
+          clearInterval(extensionPoll);
+          clearInterval(proctorPoll);
           this.cleanupConnection(connectionId);
         };
 
@@ -0,0 +1,108 @@
+import type { AttemptPolicy, ScorePolicy } from "@/lib/types";
+
+// Defaults mirror public.student_attempts_remaining in db/rpc_functions.sql; keep both in sync.
+
+export const SCORE_POLICIES: { value: ScorePolicy; label: string; description: string }[] = [
+  { value: "best", label: "Best attempt", description: "The highest-scoring attempt counts." },
+  { value: "last", label: "Latest attempt", description: "The most recent attempt counts, even if it scored lower." },
+  { value: "average", label: "Average", description: "The mean of all graded attempts counts." },
+  { value: "first", label: "First attempt", description: "Only the first attempt counts; later ones are practice." },
+];
+
+export function parseAttemptPolicy(settings: unknown): AttemptPolicy {
+  const obj = settings && typeof settings === "object" ? (settings as Record<string, unknown>) : {};
+  const limit = Math.trunc(Number(obj.attempt_limit ?? 1));
+  const cooldown = Math.trunc(Number(obj.attempt_cooldown_minutes ?? 0));
+  return {
+    attempt_limit: Number.isFinite(limit) && limit >= 0 ? limit : 1,
+    cooldown_minutes: Number.isFinite(cooldown) && cooldown > 0 ? cooldown : 0,
+    score_policy: SCORE_POLICIES.some((p) => p.value === obj.score_policy) ? (obj.score_policy as ScorePolicy) : "best",
+  };
+}
+
+/** Attempts a student may start in total, counting any granted by an admin; null when unlimited */
+export function attemptsAllowed(policy: AttemptPolicy, extraAttempts = 0): number | null {
+  return policy.attempt_limit === 0 ? null : policy.attempt_limit + extraAttempts;
+}
+
+export interface ScoredAttempt {
+  id: string;
+  started_at: string | null;
+  score: number | null;
+}
+
+export interface OfficialScore {
+  score: number | null;
+  // Attempts the official score was taken from; every graded attempt under "average"
+  attempt_ids: string[];
+}
+
+function time(iso: string | null): number {
+  return iso ? new Date(iso).getTime() : 0;
+}
+
+export function officialScore(attempts: ScoredAttempt[], policy: ScorePolicy): OfficialScore {
+  const graded = attempts
+    .filter((a): a is ScoredAttempt & { score: number } => typeof a.score === "number" && Number.isFinite(a.score))
+    .sort((a, b) => time(a.started_at) - time(b.started_at));
+  if (graded.length === 0) return { score: null, attempt_ids: [] };
+  switch (policy) {
+    case "first":
+      return { score: graded[0].score, attempt_ids: [graded[0].id] };
+    case "last": {
+      const last = graded[graded.length - 1];
+      return { score: last.score, attempt_ids: [last.id] };
+    }
+    case "average": {
+      const mean = graded.reduce((s, a) => s + a.score, 0) / graded.length;
+      return { score: Math.round(mean * 100) / 100, attempt_ids: graded.map((a) => a.id) };
+    }
+    default: {
+      // Earliest attempt wins a tie
+      const best = graded.reduce((m, a) => (a.score > m.score ? a : m));
+      return { score: best.score, attempt_ids: [best.id] };
+    }
+  }
+}
+
+export interface AttemptHistoryFields {
+  attempt_number: number;
+  attempt_count: number;
+  official_score: number | null;
+  is_official: boolean;
+}
+
+/**
+ * Numbers each student's attempts in start order and applies the score policy per student.
+ * Attempts without a student_id (open and IP-restricted exams) stand alone.
+ */
+export function withAttemptHistory<T extends { id: string; student_id: string | null; started_at: string | null }>(
+  items: T[],
+  policy: ScorePolicy,
+  score: (item: T) => number | null
+): (T & AttemptHistoryFields)[] {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const key = item.student_id ?? `attempt:${item.id}`;
+    const list = groups.get(key) ?? [];
+    list.push(item);
+    groups.set(key, list);
+  }
+  const fields = new Map<string, AttemptHistoryFields>();
+  for (const list of groups.values()) {
+    const ordered = list.slice().sort((a, b) => time(a.started_at) - time(b.started_at));
+    const official = officialScore(
+      ordered.map((a) => ({ id: a.id, started_at: a.started_at, score: score(a) })),
+      policy
+    );
+    ordered.forEach((a, i) => {
+      fields.set(a.id, {
+        attempt_number: i + 1,
+        attempt_count: ordered.length,
+        official_score: official.score,
+        is_official: official.attempt_ids.includes(a.id),
+      });
+    });
+  }
+  return items.map((item) => ({ ...item, ...fields.get(item.id)! }));
+}
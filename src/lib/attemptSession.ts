@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from "next/server";
+import { SignJWT, jwtVerify } from "jose";
+import { supabaseServer } from "@/lib/supabase/server";
+
+// Student access to /api/attempts/[attemptId]/* is carried by a short-lived token
+// in an httpOnly cookie scoped to that attempt's API path. Every attempt route
+// verifies it and answers with a fresh one, so an active exam never expires while
+// an idle leaked token soon does.
+
+export const ATTEMPT_SESSION_COOKIE = "attempt_session";
+const TOKEN_TTL_SECONDS = 20 * 60;
+
+type AttemptTokenPayload = {
+  sub: string;
+  typ: "attempt";
+  // Session id stored on the attempt; a re-entry issues a new one
+  sid: string;
+  // Hash of the user agent when the exam binds attempts to a device
+  dev?: string;
+};
+
+export type AttemptSession = {
+  attemptId: string;
+  sessionId: string;
+  device?: string;
+};
+
+function getAuthSecret() {
+  return (
+    process.env.AUTH_SECRET ||
+    process.env.NEXTAUTH_SECRET ||
+    "dev-secret-do-not-use-in-prod"
+  );
+}
+
+async function deviceHash(userAgent: string | null | undefined): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(userAgent || ""));
+  return Buffer.from(digest).toString("base64url");
+}
+
+async function signAttemptToken(session: AttemptSession): Promise<string> {
+  const payload: AttemptTokenPayload = { sub: session.attemptId, typ: "attempt", sid: session.sessionId };
+  if (session.device) payload.dev = session.device;
+  return new SignJWT(payload)
+    .setProtectedHeader({ alg: "HS256" })
+    .setIssuedAt()
+    .setExpirationTime(`${TOKEN_TTL_SECONDS}s`)
+    .sign(new TextEncoder().encode(getAuthSecret()));
+}
+
+function cookieHeader(attemptId: string, token: string): string {
+  return `${ATTEMPT_SESSION_COOKIE}=${token}; Path=/api/attempts/${attemptId}; HttpOnly; SameSite=Strict; Max-Age=${TOKEN_TTL_SECONDS}${process.env.NODE_ENV === "production" ? "; Secure" : ""}`;
+}
+
+/**
+ * Builds the Set-Cookie value for a session just opened by start_attempt_v2.
+ * With `bindDevice` the token only works from the same browser.
+ */
+export async function issueAttemptSession(
+  userAgent: string | null | undefined,
+  attemptId: string,
+  sessionId: string,
+  bindDevice: boolean
+): Promise<string> {
+  const session: AttemptSession = { attemptId, sessionId };
+  if (bindDevice) session.device = await deviceHash(userAgent);
+  return cookieHeader(attemptId, await signAttemptToken(session));
+}
+
+/**
+ * Verifies the attempt cookie for `attemptId`. Throws a 401 JSON response when
+ * the token is missing, expired, for another attempt or replaced by a newer
+ * session, and a 403 when it was issued to another device.
+ */
+export async function requireAttemptSession(req: NextRequest, attemptId: string): Promise<AttemptSession> {
+  const cookie = req.cookies.get(ATTEMPT_SESSION_COOKIE)?.value;
+  if (!cookie) {
+    throw NextResponse.json({ error: "attempt_session_required" }, { status: 401 });
+  }
+
+  let p: AttemptTokenPayload;
+  try {
+    const { payload } = await jwtVerify(cookie, new TextEncoder().encode(getAuthSecret()));
+    p = payload as AttemptTokenPayload;
+  } catch {
+    throw NextResponse.json({ error: "attempt_session_expired" }, { status: 401 });
+  }
+  if (p.typ !== "attempt" || p.sub !== attemptId || !p.sid) {
+    throw NextResponse.json({ error: "attempt_session_required" }, { status: 401 });
+  }
+  if (p.dev && p.dev !== (await deviceHash(req.headers.get("user-agent")))) {
+    throw NextResponse.json({ error: "attempt_device_mismatch" }, { status: 403 });
+  }
+
+  const { data, error } = await supabaseServer()
+    .from("exam_attempts")
+    .select("session_id")
+    .eq("id", attemptId)
+    .maybeSingle();
+  if (error) {
+    throw NextResponse.json({ error: error.message }, { status: 400 });
+  }
+  if (!data || data.session_id !== p.sid) {
+    throw NextResponse.json({ error: "attempt_session_superseded" }, { status: 401 });
+  }
+
+  return { attemptId, sessionId: p.sid, device: p.dev };
+}
+
+/** Attaches a freshly signed token for the same session to `res`. */
+export async function rotateAttemptSession<T extends Response>(res: T, session: AttemptSession): Promise<T> {
+  res.headers.append("Set-Cookie", cookieHeader(session.attemptId, await signAttemptToken(session)));
+  return res;
+}
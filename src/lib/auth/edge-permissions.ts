@@ -44,7 +44,12 @@ export const PERMISSIONS = {
   RESULTS_VIEW_ALL: 'results:view_all',
   RESULTS_VIEW_OWN: 'results:view_own',
   RESULTS_EXPORT: 'results:export',
+  RESULTS_GRADE: 'results:grade',
   ANALYTICS_VIEW: 'analytics:view',
+
+  // Live attempts (extend time, reset, block entries)
+  ATTEMPTS_MANAGE: 'attempts:manage',
+  ATTEMPTS_DELETE: 'attempts:delete',
   
   // Audit and monitoring
   AUDIT_VIEW: 'audit:view',
@@ -85,7 +90,10 @@ export const ROLES = {
       PERMISSIONS.STUDENTS_DELETE,
       PERMISSIONS.RESULTS_VIEW_ALL,
       PERMISSIONS.RESULTS_EXPORT,
+      PERMISSIONS.RESULTS_GRADE,
       PERMISSIONS.ANALYTICS_VIEW,
+      PERMISSIONS.ATTEMPTS_MANAGE,
+      PERMISSIONS.ATTEMPTS_DELETE,
       PERMISSIONS.AUDIT_VIEW,
       PERMISSIONS.MONITORING_VIEW,
       PERMISSIONS.SETTINGS_MANAGE,
@@ -126,6 +134,61 @@ export const ROLES = {
       PERMISSIONS.ANALYTICS_VIEW
     ]
   },
+  EXAM_AUTHOR: {
+    name: 'exam_author',
+    displayName: 'Exam Author',
+    permissions: [
+      PERMISSIONS.ADMIN_READ,
+      PERMISSIONS.EXAMS_CREATE,
+      PERMISSIONS.EXAMS_EDIT,
+      PERMISSIONS.EXAMS_DELETE,
+      PERMISSIONS.EXAMS_PUBLISH,
+      PERMISSIONS.EXAMS_VIEW,
+      PERMISSIONS.STUDENTS_VIEW,
+      PERMISSIONS.RESULTS_VIEW_ALL,
+      PERMISSIONS.ANALYTICS_VIEW,
+      PERMISSIONS.SETTINGS_VIEW
+    ]
+  },
+  GRADER: {
+    name: 'grader',
+    displayName: 'Grader',
+    permissions: [
+      PERMISSIONS.ADMIN_READ,
+      PERMISSIONS.EXAMS_VIEW,
+      PERMISSIONS.STUDENTS_VIEW,
+      PERMISSIONS.RESULTS_VIEW_ALL,
+      PERMISSIONS.RESULTS_EXPORT,
+      PERMISSIONS.RESULTS_GRADE,
+      PERMISSIONS.ANALYTICS_VIEW,
+      PERMISSIONS.SETTINGS_VIEW
+    ]
+  },
+  PROCTOR: {
+    name: 'proctor',
+    displayName: 'Proctor',
+    permissions: [
+      PERMISSIONS.ADMIN_READ,
+      PERMISSIONS.EXAMS_VIEW,
+      PERMISSIONS.STUDENTS_VIEW,
+      PERMISSIONS.MONITORING_VIEW,
+      PERMISSIONS.ATTEMPTS_MANAGE,
+      PERMISSIONS.SETTINGS_VIEW
+    ]
+  },
+  VIEWER: {
+    name: 'viewer',
+    displayName: 'Viewer',
+    permissions: [
+      PERMISSIONS.ADMIN_READ,
+      PERMISSIONS.EXAMS_VIEW,
+      PERMISSIONS.STUDENTS_VIEW,
+      PERMISSIONS.RESULTS_VIEW_ALL,
+      PERMISSIONS.ANALYTICS_VIEW,
+      PERMISSIONS.MONITORING_VIEW,
+      PERMISSIONS.SETTINGS_VIEW
+    ]
+  },
   USER: {
     name: 'user',
     displayName: 'User',
@@ -136,6 +199,27 @@ export const ROLES = {
   }
 } as const;
 
+/**
+ * Roles that can be stored on an admin_users row (see the admin_users.role check in db/schema.sql)
+ */
+export const ADMIN_ROLES = [
+  ROLES.SUPER_ADMIN,
+  ROLES.EXAM_AUTHOR,
+  ROLES.GRADER,
+  ROLES.PROCTOR,
+  ROLES.VIEWER
+] as const;
+
+export type AdminRoleName = (typeof ADMIN_ROLES)[number]['name'];
+
+/**
+ * Permissions granted to a role name; unknown roles get none
+ */
+export function permissionsForRole(role: string): string[] {
+  const match = Object.values(ROLES).find(r => r.name === role);
+  return match ? [...match.permissions] : [];
+}
+
 /**
  * Permission cache for fast lookups
  */
@@ -0,0 +1,232 @@
+import { gradeAnswer } from "@/lib/scoring";
+import { normalizeAnswerText } from "@/lib/textUtils";
+
+// Pairwise answer-similarity screening over an exam's submitted attempts. Pairs are ranked
+// by how unusual their shared wrong choices and near-identical written answers are, then
+// corroborated by a shared IP, device or submission time. A flagged pair needs review,
+// not a verdict.
+
+export interface CollusionQuestion {
+  id: string;
+  question_text: string;
+  question_type: string;
+  correct_answers?: unknown;
+}
+
+export interface CollusionAttempt {
+  id: string;
+  student_name: string | null;
+  ip_address: string | null;
+  device_info: Record<string, unknown> | null;
+  submitted_at: string | null;
+  answers: Record<string, unknown>;
+  // Questions this attempt was given; pool exams draw different sets per attempt
+  question_ids: string[];
+}
+
+export type EvidenceKind = "same_wrong_choice" | "similar_text";
+
+export interface PairEvidence {
+  question_id: string;
+  question_text: string;
+  kind: EvidenceKind;
+  answer_a: string;
+  answer_b: string;
+  // Jaccard similarity of the two answers' shingles (similar_text only)
+  similarity: number | null;
+  // Share of attempts that chose this same wrong answer (same_wrong_choice only)
+  chosen_by: number | null;
+}
+
+export interface CollusionPair {
+  attempt_a: string;
+  attempt_b: string;
+  student_a: string | null;
+  student_b: string | null;
+  score: number;
+  shared_wrong: number;
+  // Mean identical wrong choices over every pair in the exam, for comparison
+  expected_shared_wrong: number;
+  similar_texts: number;
+  same_ip: boolean;
+  same_device: boolean;
+  submit_gap_seconds: number | null;
+  evidence: PairEvidence[];
+}
+
+export interface CollusionReport {
+  attempts: number;
+  compared_pairs: number;
+  pairs: CollusionPair[];
+}
+
+const CHOICE_TYPES = new Set(["single_choice", "true_false", "multiple_choice", "multi_select"]);
+const TEXT_TYPES = new Set(["short_answer", "paragraph"]);
+
+// Written answers at least this similar count as near-duplicates
+export const TEXT_SIMILARITY_THRESHOLD = 0.6;
+// Shorter written answers are too generic to compare
+const MIN_TEXT_LENGTH = 20;
+// Submissions this close together corroborate a flagged pair
+const CLOSE_SUBMIT_SECONDS = 120;
+const MAX_PAIRS = 200;
+
+function answerKey(answer: unknown): string | null {
+  if (answer === null || answer === undefined || answer === "") return null;
+  if (Array.isArray(answer)) return answer.length ? JSON.stringify(answer.map(String).sort()) : null;
+  return JSON.stringify(answer);
+}
+
+function displayAnswer(answer: unknown, max = 300): string {
+  const s = Array.isArray(answer) ? answer.map(String).join(", ") : String(answer ?? "");
+  return s.length > max ? `${s.slice(0, max)}…` : s;
+}
+
+/** Word 3-gram shingles, or character 5-grams for answers under ten words */
+export function shingles(text: string): Set<string> {
+  const norm = normalizeAnswerText(text).replace(/[^\p{L}\p{N}\s]/gu, "");
+  const words = norm.split(" ").filter(Boolean);
+  const out = new Set<string>();
+  if (words.length >= 10) {
+    for (let i = 0; i + 3 <= words.length; i++) out.add(words.slice(i, i + 3).join(" "));
+  } else {
+    const joined = words.join(" ");
+    for (let i = 0; i + 5 <= joined.length; i++) out.add(joined.slice(i, i + 5));
+  }
+  return out;
+}
+
+export function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const s of a) if (b.has(s)) shared++;
+  return shared / (a.size + b.size - shared);
+}
+
+function deviceKey(info: Record<string, unknown> | null): string | null {
+  if (!info) return null;
+  const screen = (info.screen ?? {}) as Record<string, unknown>;
+  const gpu = (info.gpu ?? {}) as Record<string, unknown>;
+  const ua = typeof info.userAgent === "string" ? info.userAgent : null;
+  if (!ua) return null;
+  return [ua, `${screen.width ?? "?"}x${screen.height ?? "?"}`, gpu.renderer ?? "", info.timezone ?? ""].join("|");
+}
+
+export function detectCollusion(attempts: CollusionAttempt[], questions: CollusionQuestion[]): CollusionReport {
+  const choiceQs = questions.filter((q) => CHOICE_TYPES.has(q.question_type));
+  const textQs = questions.filter((q) => TEXT_TYPES.has(q.question_type));
+  const given = attempts.map((a) => new Set(a.question_ids));
+
+  // Wrong choices per attempt, and how many attempts made each one
+  const wrong = attempts.map(() => new Map<string, string>());
+  const wrongCounts = new Map<string, number>();
+  for (const q of choiceQs) {
+    attempts.forEach((a, i) => {
+      if (!given[i].has(q.id)) return;
+      const key = answerKey(a.answers[q.id]);
+      if (key === null || gradeAnswer(q, a.answers[q.id]) !== false) return;
+      wrong[i].set(q.id, key);
+      wrongCounts.set(`${q.id}:${key}`, (wrongCounts.get(`${q.id}:${key}`) ?? 0) + 1);
+    });
+  }
+
+  const texts = attempts.map((a, i) => {
+    const m = new Map<string, Set<string>>();
+    for (const q of textQs) {
+      const v = a.answers[q.id];
+      if (!given[i].has(q.id) || typeof v !== "string" || normalizeAnswerText(v).length < MIN_TEXT_LENGTH) continue;
+      m.set(q.id, shingles(v));
+    }
+    return m;
+  });
+  const devices = attempts.map((a) => deviceKey(a.device_info));
+
+  type Raw = { i: number; j: number; shared: string[]; rarity: number; similar: { id: string; sim: number }[] };
+  const raws: Raw[] = [];
+  let sharedSum = 0;
+  let sharedSqSum = 0;
+  let compared = 0;
+  for (let i = 0; i < attempts.length; i++) {
+    for (let j = i + 1; j < attempts.length; j++) {
+      compared++;
+      const shared: string[] = [];
+      let rarity = 0;
+      for (const [qid, key] of wrong[i]) {
+        if (wrong[j].get(qid) !== key) continue;
+        shared.push(qid);
+        rarity += 1 - (wrongCounts.get(`${qid}:${key}`)! - 2) / Math.max(1, attempts.length - 2);
+      }
+      sharedSum += shared.length;
+      sharedSqSum += shared.length * shared.length;
+      const similar: { id: string; sim: number }[] = [];
+      for (const [qid, sh] of texts[i]) {
+        const other = texts[j].get(qid);
+        if (!other) continue;
+        const sim = jaccard(sh, other);
+        if (sim >= TEXT_SIMILARITY_THRESHOLD) similar.push({ id: qid, sim });
+      }
+      if (shared.length >= 2 || similar.length > 0) raws.push({ i, j, shared, rarity, similar });
+    }
+  }
+
+  const mean = compared ? sharedSum / compared : 0;
+  const sd = compared ? Math.sqrt(Math.max(0, sharedSqSum / compared - mean * mean)) : 0;
+  const byId = new Map(questions.map((q) => [q.id, q]));
+
+  const pairs: CollusionPair[] = [];
+  for (const r of raws) {
+    const a = attempts[r.i];
+    const b = attempts[r.j];
+    // Identical wrong choices only count when well above what the exam's pairs share anyway
+    const z = sd > 0 ? (r.shared.length - mean) / sd : r.shared.length > mean ? 3 : 0;
+    const choicePoints = r.shared.length >= 2 && z >= 2 ? Math.min(50, 8 * r.rarity + 4 * z) : 0;
+    const textPoints = Math.min(40, r.similar.reduce((s, t) => s + 20 * t.sim, 0));
+    if (choicePoints + textPoints === 0) continue;
+
+    const sameIp = !!a.ip_address && a.ip_address === b.ip_address;
+    const sameDevice = devices[r.i] !== null && devices[r.i] === devices[r.j];
+    const gap = a.submitted_at && b.submitted_at
+      ? Math.round(Math.abs(new Date(a.submitted_at).getTime() - new Date(b.submitted_at).getTime()) / 1000)
+      : null;
+    const corroboration = (sameIp ? 10 : 0) + (sameDevice ? 10 : 0) + (gap !== null && gap <= CLOSE_SUBMIT_SECONDS ? 5 : 0);
+
+    const evidence: PairEvidence[] = [
+      ...r.shared.map((qid): PairEvidence => ({
+        question_id: qid,
+        question_text: byId.get(qid)?.question_text ?? "",
+        kind: "same_wrong_choice",
+        answer_a: displayAnswer(a.answers[qid]),
+        answer_b: displayAnswer(b.answers[qid]),
+        similarity: null,
+        chosen_by: Math.round((wrongCounts.get(`${qid}:${wrong[r.i].get(qid)}`)! / attempts.length) * 100) / 100,
+      })),
+      ...r.similar.map((t): PairEvidence => ({
+        question_id: t.id,
+        question_text: byId.get(t.id)?.question_text ?? "",
+        kind: "similar_text",
+        answer_a: displayAnswer(a.answers[t.id]),
+        answer_b: displayAnswer(b.answers[t.id]),
+        similarity: Math.round(t.sim * 100) / 100,
+        chosen_by: null,
+      })),
+    ];
+
+    pairs.push({
+      attempt_a: a.id,
+      attempt_b: b.id,
+      student_a: a.student_name,
+      student_b: b.student_name,
+      score: Math.min(100, Math.round(choicePoints + textPoints + corroboration)),
+      shared_wrong: r.shared.length,
+      expected_shared_wrong: Math.round(mean * 100) / 100,
+      similar_texts: r.similar.length,
+      same_ip: sameIp,
+      same_device: sameDevice,
+      submit_gap_seconds: gap,
+      evidence,
+    });
+  }
+
+  pairs.sort((x, y) => y.score - x.score);
+  return { attempts: attempts.length, compared_pairs: compared, pairs: pairs.slice(0, MAX_PAIRS) };
+}
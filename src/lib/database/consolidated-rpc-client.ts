@@ -312,8 +312,8 @@ export class OptimizedRPCOperations {
     return this.client.adminManager('regrade_attempt', { attemptId });
   }
 
-  async resetStudentAttempts(studentId: string, examId?: string) {
-    return this.client.adminManager('reset_student_attempts', { studentId, examId });
+  async grantStudentAttempt(studentId: string, examId: string) {
+    return this.client.adminManager('grant_student_attempt', { studentId, examId });
   }
 
   async cleanupExpiredAttempts() {
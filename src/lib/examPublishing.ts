@@ -0,0 +1,50 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { getCodeFormatSettings } from "@/lib/codeGenerator";
+import { QuestionPoolManager } from "@/lib/questionPools";
+
+export interface PublishBlocker {
+  error: string;
+  message?: string;
+}
+
+/**
+ * Why an exam cannot be published yet, or null when it can. Shared by the publish
+ * route and the exam scheduler so both apply the same rules.
+ */
+export async function publishBlocker(svc: SupabaseClient, exam: { id: string; settings: Record<string, unknown> | null }): Promise<PublishBlocker | null> {
+  // Require at least one question before publishing (exams drawing from pools need none of their own)
+  const pool = QuestionPoolManager.parsePoolSettings(exam.settings);
+  if (pool) {
+    const pq = await svc
+      .from("questions")
+      .select("id", { count: "exact", head: true })
+      .in("pool_id", pool.pool_ids);
+    if (pq.error) return { error: pq.error.message };
+    if ((pq.count ?? 0) < pool.question_count) {
+      return { error: "pool_too_small", message: `Selected pools contain ${pq.count ?? 0} questions but ${pool.question_count} are drawn per student.` };
+    }
+  } else {
+    const q = await svc.from("questions").select("id", { count: "exact", head: true }).eq("exam_id", exam.id);
+    if (q.error) return { error: q.error.message };
+    if ((q.count ?? 0) < 1) return { error: "no_questions" };
+  }
+
+  // In single exam mode only one exam can be published at a time
+  const settings = await getCodeFormatSettings();
+  if (!settings.enable_multi_exam) {
+    const publishedExams = await svc
+      .from("exams")
+      .select("id")
+      .eq("status", "published")
+      .neq("id", exam.id);
+    if (publishedExams.error) return { error: publishedExams.error.message };
+    if (publishedExams.data && publishedExams.data.length > 0) {
+      return {
+        error: "single_exam_mode_restriction",
+        message: "Only one exam can be published in single exam mode. Please archive other published exams first.",
+      };
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,106 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { auditLog } from "@/lib/audit";
+import { publishBlocker } from "@/lib/examPublishing";
+import type { ScheduleError } from "@/lib/types";
+
+// One pass of the exam scheduler: publishes opted-in exams at start_time, closes them at end_time,
+// submits attempts past their deadline and records scheduled result releases. Run by the Netlify scheduled function
+// (netlify/functions/exam-scheduler.mts) or locally with `npm run scheduler:run`.
+
+// audit_logs.actor for every transition the scheduler makes
+export const SCHEDULER_ACTOR = "scheduler";
+
+export type SchedulerTransitionKind = "publish" | "publish_failed" | "close" | "auto_submit" | "release_results";
+
+export interface SchedulerTransition {
+  kind: SchedulerTransitionKind;
+  exam_id: string;
+  attempt_id?: string;
+  detail?: string;
+}
+
+type ScheduledExam = {
+  id: string;
+  title: string;
+  settings: Record<string, unknown> | null;
+  start_time: string | null;
+  end_time: string | null;
+};
+
+export async function runExamScheduler(svc: SupabaseClient, now = new Date()): Promise<SchedulerTransition[]> {
+  const iso = now.toISOString();
+  const transitions: SchedulerTransition[] = [];
+  const record = async (t: SchedulerTransition, meta: Record<string, unknown>) => {
+    transitions.push(t);
+    await auditLog(SCHEDULER_ACTOR, `scheduler_${t.kind}`, { exam_id: t.exam_id, ...meta });
+  };
+
+  // Publish drafts whose window has opened
+  const due = await svc
+    .from("exams")
+    .select("id, title, settings, start_time, end_time")
+    .eq("status", "draft")
+    .eq("settings->>auto_schedule", "true")
+    .lte("start_time", iso)
+    .or(`end_time.is.null,end_time.gt.${iso}`);
+  if (due.error) throw new Error(due.error.message);
+  for (const exam of (due.data ?? []) as ScheduledExam[]) {
+    if (exam.settings?.schedule_error) continue;
+    const blocker = await publishBlocker(svc, exam);
+    if (blocker) {
+      const reason = blocker.message || blocker.error;
+      const upd = await svc
+        .from("exams")
+        .update({ settings: { ...(exam.settings ?? {}), schedule_error: { reason, at: iso } satisfies ScheduleError } })
+        .eq("id", exam.id);
+      if (upd.error) throw new Error(upd.error.message);
+      await record({ kind: "publish_failed", exam_id: exam.id, detail: reason }, { title: exam.title, reason });
+      continue;
+    }
+    const upd = await svc
+      .from("exams")
+      .update({ status: "published" })
+      .eq("id", exam.id)
+      .eq("status", "draft")
+      .select("id");
+    if (upd.error) throw new Error(upd.error.message);
+    if ((upd.data ?? []).length === 0) continue; // published by someone else meanwhile
+    await record({ kind: "publish", exam_id: exam.id }, { title: exam.title, start_time: exam.start_time });
+  }
+
+  // Submit and grade attempts past their deadline instead of leaving them in progress
+  const expired = await svc.rpc("auto_submit_expired_attempts");
+  if (expired.error) throw new Error(expired.error.message);
+  for (const row of (expired.data ?? []) as { attempt_id: string; exam_id: string }[]) {
+    await record({ kind: "auto_submit", exam_id: row.exam_id, attempt_id: row.attempt_id }, { attempt_id: row.attempt_id });
+  }
+
+  // Close published exams whose window has ended. Attempts with extra time keep saving until
+  // their own deadline; closing only stops new attempts from starting.
+  const ended = await svc
+    .from("exams")
+    .update({ status: "archived" })
+    .eq("status", "published")
+    .eq("settings->>auto_schedule", "true")
+    .lte("end_time", iso)
+    .select("id, title, end_time");
+  if (ended.error) throw new Error(ended.error.message);
+  for (const exam of ended.data ?? []) {
+    await record({ kind: "close", exam_id: exam.id }, { title: exam.title, end_time: exam.end_time });
+  }
+
+  // Results whose embargo has passed are already visible (see resultVisibility); record the release
+  // once so the exam shows it as released and the audit log has it
+  const released = await svc
+    .from("exams")
+    .update({ results_released_at: iso, results_release_at: null })
+    .neq("results_visibility", "hidden")
+    .lte("results_release_at", iso)
+    .select("id, title, results_visibility");
+  if (released.error) throw new Error(released.error.message);
+  for (const exam of released.data ?? []) {
+    await record({ kind: "release_results", exam_id: exam.id }, { title: exam.title, visibility: exam.results_visibility });
+  }
+
+  return transitions;
+}
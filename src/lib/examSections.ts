@@ -0,0 +1,48 @@
+import type { ExamSection } from "@/lib/types";
+
+// Reads exams.settings.sections as resolved by public.attempt_sections; keep both in sync.
+
+export function parseSections(settings: unknown): ExamSection[] {
+  const raw = settings && typeof settings === "object" ? (settings as Record<string, unknown>).sections : null;
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter((s): s is Record<string, unknown> => !!s && typeof s === "object")
+    .map((s, i) => {
+      const duration = Number(s.duration_minutes);
+      return {
+        id: typeof s.id === "string" && s.id ? s.id : `section-${i + 1}`,
+        title: typeof s.title === "string" ? s.title : "",
+        instructions: typeof s.instructions === "string" && s.instructions ? s.instructions : null,
+        duration_minutes: Number.isInteger(duration) && duration > 0 ? duration : null,
+        question_ids: Array.isArray(s.question_ids) ? s.question_ids.map((id) => String(id)) : [],
+      };
+    });
+}
+
+export function allowSectionReturn(settings: unknown): boolean {
+  return !!settings && typeof settings === "object" && (settings as Record<string, unknown>).allow_section_return === true;
+}
+
+export function newSection(existing: ExamSection[]): ExamSection {
+  let n = existing.length + 1;
+  while (existing.some((s) => s.id === `section-${n}`)) n++;
+  return { id: `section-${n}`, title: `Section ${existing.length + 1}`, instructions: null, duration_minutes: null, question_ids: [] };
+}
+
+/**
+ * Problems that would make the section layout behave differently from what the
+ * admin sees: a question listed twice only counts in its first section.
+ */
+export function sectionIssues(sections: ExamSection[]): string[] {
+  const issues: string[] = [];
+  const seen = new Map<string, number>();
+  sections.forEach((s, i) => {
+    if (!s.title.trim()) issues.push(`Section ${i + 1} needs a title.`);
+    for (const id of s.question_ids) {
+      const first = seen.get(id);
+      if (first !== undefined && first !== i) issues.push(`A question is in both section ${first + 1} and section ${i + 1}.`);
+      else seen.set(id, i);
+    }
+  });
+  return issues;
+}
@@ -0,0 +1,61 @@
+import type { AnnotationRegion, ImageAnnotationKey } from "@/lib/types";
+
+// Mirrors public.grade_image_annotation in db/rpc_functions.sql; keep both in sync.
+
+export const DEFAULT_REGION_RADIUS = 5;
+export const DEFAULT_ANNOTATION_TOLERANCE = 2;
+
+function num(v: unknown): number | null {
+  const n = typeof v === "number" ? v : typeof v === "string" && v.trim() !== "" ? Number(v) : NaN;
+  return Number.isFinite(n) ? n : null;
+}
+
+export function parseAnnotationKey(raw: unknown): ImageAnnotationKey {
+  const obj = raw && typeof raw === "object" && !Array.isArray(raw) ? (raw as Record<string, unknown>) : {};
+  const regions: AnnotationRegion[] = [];
+  const list = Array.isArray(obj.regions) ? obj.regions : [];
+  list.forEach((r, idx) => {
+    if (!r || typeof r !== "object") return;
+    const rr = r as Record<string, unknown>;
+    const x = num(rr.x);
+    const y = num(rr.y);
+    if (x === null || y === null) return;
+    regions.push({
+      id: typeof rr.id === "string" && rr.id ? rr.id : `region-${idx + 1}`,
+      x,
+      y,
+      radius: num(rr.radius) ?? DEFAULT_REGION_RADIUS,
+      label: typeof rr.label === "string" ? rr.label : undefined,
+    });
+  });
+  return { regions, tolerance: num(obj.tolerance) ?? DEFAULT_ANNOTATION_TOLERANCE };
+}
+
+export function parseAnnotationPoints(raw: unknown): { x: number; y: number }[] {
+  if (!Array.isArray(raw)) return [];
+  const points: { x: number; y: number }[] = [];
+  for (const p of raw) {
+    if (!p || typeof p !== "object") continue;
+    const x = num((p as Record<string, unknown>).x);
+    const y = num((p as Record<string, unknown>).y);
+    if (x !== null && y !== null) points.push({ x, y });
+  }
+  return points;
+}
+
+function hits(point: { x: number; y: number }, region: AnnotationRegion, tolerance: number) {
+  return Math.hypot(point.x - region.x, point.y - region.y) <= region.radius + tolerance;
+}
+
+/**
+ * Correct when every target region has at least one point inside it and no point
+ * falls outside all regions. Tolerance is added to each region's radius.
+ */
+export function gradeImageAnnotation(answer: unknown, key: unknown): boolean {
+  const { regions, tolerance = DEFAULT_ANNOTATION_TOLERANCE } = parseAnnotationKey(key);
+  const points = parseAnnotationPoints(answer);
+  if (regions.length === 0 || points.length === 0) return false;
+  const everyRegionHit = regions.every((r) => points.some((p) => hits(p, r, tolerance)));
+  const noStrayPoints = points.every((p) => regions.some((r) => hits(p, r, tolerance)));
+  return everyRegionHit && noStrayPoints;
+}
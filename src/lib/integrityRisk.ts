@@ -0,0 +1,256 @@
+import { SCREENSHOT_EVENT_TYPES, type ActivityEventRow } from "@/lib/proctoring";
+
+// Turns an attempt's attempt_activity_events into an integrity risk score from 0 to 100.
+// Each factor adds capped points and says why, so a reviewer can check the evidence on
+// the attempt's timeline. A high score is a prompt to review, not proof of misconduct.
+
+export type RiskLevel = "low" | "medium" | "high";
+
+export type RiskFactorKey =
+  | "tab_switches"
+  | "time_away"
+  | "paste_bursts"
+  | "rapid_answers"
+  | "ip_changes"
+  | "device_changes"
+  | "blocked_copy"
+  | "lockdown_violations";
+
+export interface RiskFactor {
+  key: RiskFactorKey;
+  label: string;
+  points: number;
+  detail: string;
+}
+
+export interface IntegrityReport {
+  score: number;
+  level: RiskLevel;
+  factors: RiskFactor[];
+}
+
+export interface TimelineEntry {
+  at: string;
+  type: string;
+  label: string;
+  severity: "info" | "warning" | "alert";
+  detail: string | null;
+}
+
+// Event types the engine reads; paste, copy_blocked and question_answered are logged by the attempt page
+export const INTEGRITY_EVENT_TYPES = [
+  "exam_started",
+  "tab_switch",
+  "security_violation",
+  "screenshot_attempt",
+  "devices_detected",
+  "ip_changed",
+  "paste",
+  "copy_blocked",
+  "question_answered",
+  "lockdown_violation",
+];
+
+export const RISK_LEVEL_LABELS: Record<RiskLevel, string> = {
+  low: "Low",
+  medium: "Medium",
+  high: "High",
+};
+
+// Badge colours shared by the results list and the attempt detail page
+export const RISK_BADGE_CLASSES: Record<RiskLevel, string> = {
+  low: "bg-green-100 text-green-800",
+  medium: "bg-yellow-100 text-yellow-800",
+  high: "bg-red-100 text-red-800",
+};
+
+// An answer this soon after the previous one counts as rapid
+const RAPID_ANSWER_MS = 5_000;
+// Pastes this close together form a burst
+const PASTE_BURST_WINDOW_MS = 60_000;
+const LARGE_PASTE_CHARS = 200;
+
+function time(iso: string): number {
+  return new Date(iso).getTime();
+}
+
+function num(v: unknown): number {
+  const n = Number(v);
+  return Number.isFinite(n) ? n : 0;
+}
+
+function formatDuration(ms: number): string {
+  const s = Math.round(ms / 1000);
+  if (s < 60) return `${s}s`;
+  const m = Math.floor(s / 60);
+  return s % 60 ? `${m}m ${s % 60}s` : `${m}m`;
+}
+
+function deviceKey(payload: Record<string, unknown> | null): string | null {
+  const info = payload?.deviceInfo as Record<string, unknown> | undefined;
+  if (!info || typeof info.userAgent !== "string") return null;
+  return `${info.userAgent}|${info.screenWidth ?? "?"}x${info.screenHeight ?? "?"}`;
+}
+
+export function riskLevel(score: number): RiskLevel {
+  if (score >= 50) return "high";
+  if (score >= 25) return "medium";
+  return "low";
+}
+
+/**
+ * Scores one attempt. `events` may come in any order; an absence still open at the
+ * end is closed at `submitted_at`, or now for a live attempt.
+ */
+export function scoreIntegrity(
+  events: ActivityEventRow[],
+  attempt: { started_at: string | null; submitted_at: string | null }
+): IntegrityReport {
+  const sorted = events.slice().sort((a, b) => time(a.event_time) - time(b.event_time));
+  const endedAt = attempt.submitted_at ? time(attempt.submitted_at) : Date.now();
+  const factors: RiskFactor[] = [];
+  const add = (key: RiskFactorKey, label: string, points: number, detail: string) => {
+    if (points > 0) factors.push({ key, label, points: Math.round(points), detail });
+  };
+
+  // Tab switches and time spent away from the exam
+  let switches = 0;
+  let awayMs = 0;
+  let longestAwayMs = 0;
+  let hiddenSince: number | null = null;
+  for (const ev of sorted) {
+    if (ev.event_type !== "tab_switch") continue;
+    if (ev.payload?.hidden === false) {
+      if (hiddenSince !== null) {
+        const ms = Math.max(0, time(ev.event_time) - hiddenSince);
+        awayMs += ms;
+        longestAwayMs = Math.max(longestAwayMs, ms);
+        hiddenSince = null;
+      }
+    } else if (hiddenSince === null) {
+      switches++;
+      hiddenSince = time(ev.event_time);
+    }
+  }
+  if (hiddenSince !== null) {
+    const ms = Math.max(0, endedAt - hiddenSince);
+    awayMs += ms;
+    longestAwayMs = Math.max(longestAwayMs, ms);
+  }
+  add("tab_switches", "Tab switches", Math.min(25, switches * 3), `Left the exam tab ${switches} time${switches === 1 ? "" : "s"}`);
+  add(
+    "time_away",
+    "Time away",
+    Math.min(25, awayMs / 20_000),
+    `${formatDuration(awayMs)} away in total, longest ${formatDuration(longestAwayMs)}`
+  );
+
+  // Paste bursts: several pastes within a minute, or a single large paste
+  const pastes = sorted.filter((ev) => ev.event_type === "paste");
+  let bursts = 0;
+  let burstStart = -1;
+  for (let i = 0; i < pastes.length; i++) {
+    const windowStart = pastes.findIndex((p) => time(pastes[i].event_time) - time(p.event_time) <= PASTE_BURST_WINDOW_MS);
+    if (i - windowStart + 1 >= 3 && windowStart > burstStart) {
+      bursts++;
+      burstStart = i;
+    }
+  }
+  const largePastes = pastes.filter((p) => num(p.payload?.length) >= LARGE_PASTE_CHARS).length;
+  add(
+    "paste_bursts",
+    "Paste bursts",
+    Math.min(20, bursts * 5 + largePastes * 5),
+    `${pastes.length} paste${pastes.length === 1 ? "" : "s"}: ${bursts} burst${bursts === 1 ? "" : "s"}, ${largePastes} of ${LARGE_PASTE_CHARS}+ characters`
+  );
+
+  // Answer-time anomalies: many questions answered seconds apart
+  const answers = sorted.filter((ev) => ev.event_type === "question_answered");
+  let previous = attempt.started_at ? time(attempt.started_at) : null;
+  let rapid = 0;
+  for (const ev of answers) {
+    const at = time(ev.event_time);
+    if (previous !== null && at - previous < RAPID_ANSWER_MS) rapid++;
+    previous = at;
+  }
+  if (answers.length >= 5 && rapid >= 3 && rapid / answers.length >= 0.3) {
+    add(
+      "rapid_answers",
+      "Rapid answers",
+      Math.min(15, (rapid / answers.length) * 20),
+      `${rapid} of ${answers.length} answers came under ${RAPID_ANSWER_MS / 1000}s after the previous one`
+    );
+  }
+
+  // Network and device changes mid-attempt
+  const ipChanges = sorted.filter((ev) => ev.event_type === "ip_changed");
+  add(
+    "ip_changes",
+    "IP changes",
+    Math.min(20, ipChanges.length * 10),
+    ipChanges.map((ev) => `${ev.payload?.from ?? "?"} → ${ev.payload?.to ?? "?"}`).join(", ")
+  );
+  const devices = new Set(sorted.map((ev) => deviceKey(ev.payload)).filter((k): k is string => k !== null));
+  add(
+    "device_changes",
+    "Device changes",
+    Math.min(20, (devices.size - 1) * 15),
+    `Activity came from ${devices.size} different browsers or screens`
+  );
+
+  const blocked = sorted.filter((ev) => ev.event_type === "copy_blocked" || SCREENSHOT_EVENT_TYPES.includes(ev.event_type)).length;
+  add("blocked_copy", "Blocked copy", Math.min(10, blocked * 2), `${blocked} blocked copy or capture attempt${blocked === 1 ? "" : "s"}`);
+
+  const lockdownViolations = sorted.filter((ev) => ev.event_type === "lockdown_violation").length;
+  add(
+    "lockdown_violations",
+    "Lockdown violations",
+    Math.min(20, lockdownViolations * 5),
+    `Left full screen or the exam page ${lockdownViolations} time${lockdownViolations === 1 ? "" : "s"}`
+  );
+
+  factors.sort((a, b) => b.points - a.points);
+  const score = Math.min(100, factors.reduce((s, f) => s + f.points, 0));
+  return { score, level: riskLevel(score), factors };
+}
+
+/** The events behind the score, oldest first, labelled for the attempt timeline */
+export function integrityTimeline(events: ActivityEventRow[]): TimelineEntry[] {
+  return events
+    .slice()
+    .sort((a, b) => time(a.event_time) - time(b.event_time))
+    .map((ev): TimelineEntry => {
+      const p = ev.payload ?? {};
+      switch (ev.event_type) {
+        case "exam_started":
+          return { at: ev.event_time, type: ev.event_type, label: "Exam started", severity: "info", detail: null };
+        case "tab_switch":
+          return p.hidden === false
+            ? { at: ev.event_time, type: ev.event_type, label: "Returned to the exam", severity: "info", detail: null }
+            : { at: ev.event_time, type: ev.event_type, label: "Left the exam tab", severity: "warning", detail: null };
+        case "paste":
+          return {
+            at: ev.event_time,
+            type: ev.event_type,
+            label: "Pasted text",
+            severity: num(p.length) >= LARGE_PASTE_CHARS ? "alert" : "warning",
+            detail: `${num(p.length)} characters`,
+          };
+        case "copy_blocked":
+          return { at: ev.event_time, type: ev.event_type, label: "Copy blocked", severity: "warning", detail: null };
+        case "security_violation":
+        case "screenshot_attempt":
+          return { at: ev.event_time, type: ev.event_type, label: "Capture attempt blocked", severity: "alert", detail: typeof p.type === "string" ? p.type : null };
+        case "devices_detected":
+          return { at: ev.event_time, type: ev.event_type, label: "Media devices detected", severity: "info", detail: `${num(p.count)} devices` };
+        case "ip_changed":
+          return { at: ev.event_time, type: ev.event_type, label: "IP address changed", severity: "alert", detail: `${p.from ?? "?"} → ${p.to ?? "?"}` };
+        case "lockdown_violation":
+          return { at: ev.event_time, type: ev.event_type, label: "Lockdown violation", severity: "alert", detail: typeof p.kind === "string" ? p.kind.replace(/_/g, " ") : null };
+        case "question_answered":
+          return { at: ev.event_time, type: ev.event_type, label: "Answered a question", severity: "info", detail: typeof p.question_id === "string" ? p.question_id.slice(0, 8) : null };
+        default:
+          return { at: ev.event_time, type: ev.event_type, label: ev.event_type, severity: "info", detail: null };
+      }
+    });
+}
@@ -0,0 +1,231 @@
+import type { ScoringPolicy } from "@/lib/types";
+import { gradeAnswer, scoreQuestion } from "@/lib/scoring";
+
+// Classical test theory item statistics over submitted attempts.
+
+export interface AnalysisQuestion {
+  id: string;
+  question_text: string;
+  question_type: string;
+  options?: unknown;
+  correct_answers?: unknown;
+  points?: number | null;
+}
+
+export interface AnalysisAttempt {
+  id: string;
+  answers: Record<string, unknown>;
+  // Questions at the revision this attempt is graded against
+  questions: AnalysisQuestion[];
+}
+
+export interface OptionStat {
+  option: string;
+  is_key: boolean;
+  count: number;
+  rate: number;
+}
+
+export type ItemFlag =
+  | "too_easy"
+  | "too_hard"
+  | "low_discrimination"
+  | "negative_discrimination"
+  | "distractor_over_key"
+  | "unused_distractor";
+
+export interface ItemStats {
+  question_id: string;
+  question_text: string;
+  question_type: string;
+  attempts: number;
+  answered: number;
+  // Mean item score as a share of the item's points (proportion correct for 0/1 items)
+  p_value: number | null;
+  // Item-rest point-biserial correlation; null when it cannot be computed
+  discrimination: number | null;
+  omitted_rate: number;
+  options: OptionStat[] | null;
+  flags: ItemFlag[];
+}
+
+export interface ItemAnalysisSummary {
+  attempts: number;
+  items: number;
+  // Items every attempt was given; reliability is computed over these only
+  reliability_items: number;
+  mean_score: number | null;
+  sd_score: number | null;
+  cronbach_alpha: number | null;
+  // Only when every reliability item is scored 0/1
+  kr20: number | null;
+}
+
+export interface ItemAnalysisReport {
+  summary: ItemAnalysisSummary;
+  items: ItemStats[];
+  // Per attempt: share of its auto-graded items' credit earned, 0-100
+  attempt_scores: number[];
+}
+
+export const FLAG_LABELS: Record<ItemFlag, string> = {
+  too_easy: "Too easy (p > 0.90)",
+  too_hard: "Too hard (p < 0.20)",
+  low_discrimination: "Low discrimination (< 0.20)",
+  negative_discrimination: "Negative discrimination",
+  distractor_over_key: "A distractor is picked more than the key",
+  unused_distractor: "A distractor is picked by under 5%",
+};
+
+const CHOICE_TYPES = new Set(["true_false", "single_choice", "multiple_choice", "multi_select"]);
+
+function mean(xs: number[]): number {
+  return xs.reduce((s, x) => s + x, 0) / xs.length;
+}
+
+// Population variance, as used by KR-20 and alpha
+function variance(xs: number[]): number {
+  const m = mean(xs);
+  return xs.reduce((s, x) => s + (x - m) ** 2, 0) / xs.length;
+}
+
+function correlation(xs: number[], ys: number[]): number | null {
+  if (xs.length < 3) return null;
+  const vx = variance(xs);
+  const vy = variance(ys);
+  if (vx === 0 || vy === 0) return null;
+  const mx = mean(xs);
+  const my = mean(ys);
+  const cov = xs.reduce((s, x, i) => s + (x - mx) * (ys[i] - my), 0) / xs.length;
+  return cov / Math.sqrt(vx * vy);
+}
+
+function isAnswered(answer: unknown): boolean {
+  if (answer === null || answer === undefined) return false;
+  if (Array.isArray(answer)) return answer.length > 0;
+  if (typeof answer === "string") return answer.trim() !== "";
+  return true;
+}
+
+function optionList(q: AnalysisQuestion): string[] {
+  if (q.question_type === "true_false") return ["true", "false"];
+  return Array.isArray(q.options) ? q.options.map((o) => String(o)) : [];
+}
+
+function keySet(q: AnalysisQuestion): Set<string> {
+  const k = q.correct_answers;
+  return new Set((Array.isArray(k) ? k : k === null || k === undefined ? [] : [k]).map((x) => String(x)));
+}
+
+function picked(answer: unknown): string[] {
+  if (!isAnswered(answer)) return [];
+  return Array.isArray(answer) ? answer.map((x) => String(x)) : [String(answer)];
+}
+
+const round3 = (n: number | null) => (n === null ? null : Math.round(n * 1000) / 1000);
+
+/**
+ * Item score is the share of the question's points earned under the exam's scoring
+ * policy, floored at zero. Manually graded questions are left out.
+ */
+export function analyzeItems(attempts: AnalysisAttempt[], policy: ScoringPolicy): ItemAnalysisReport {
+  // scores[attemptIndex][questionId]
+  const scores: Map<string, number>[] = [];
+  const byQuestion = new Map<string, { question: AnalysisQuestion; answers: unknown[]; attemptIdx: number[] }>();
+
+  attempts.forEach((attempt, ai) => {
+    const row = new Map<string, number>();
+    for (const q of attempt.questions) {
+      const correct = gradeAnswer(q, attempt.answers[q.id]);
+      if (correct === null) continue;
+      const answer = attempt.answers[q.id];
+      const { earned, max } = scoreQuestion(q, answer, correct, policy);
+      row.set(q.id, max > 0 ? Math.max(0, earned) / max : 0);
+      const entry = byQuestion.get(q.id) ?? { question: q, answers: [], attemptIdx: [] };
+      entry.answers.push(answer);
+      entry.attemptIdx.push(ai);
+      byQuestion.set(q.id, entry);
+    }
+    scores.push(row);
+  });
+
+  const totals = scores.map((row) => [...row.values()].reduce((s, x) => s + x, 0));
+
+  const items: ItemStats[] = [...byQuestion.values()].map(({ question, answers, attemptIdx }) => {
+    const itemScores = attemptIdx.map((ai) => scores[ai].get(question.id) ?? 0);
+    const rest = attemptIdx.map((ai, i) => totals[ai] - itemScores[i]);
+    const n = itemScores.length;
+    const answered = answers.filter(isAnswered).length;
+    const p = n > 0 ? mean(itemScores) : null;
+    const r = correlation(itemScores, rest);
+
+    let options: OptionStat[] | null = null;
+    if (CHOICE_TYPES.has(question.question_type)) {
+      const key = keySet(question);
+      options = optionList(question).map((option) => {
+        const count = answers.filter((a) => picked(a).includes(option)).length;
+        return { option, is_key: key.has(option), count, rate: n > 0 ? count / n : 0 };
+      });
+    }
+
+    const flags: ItemFlag[] = [];
+    if (p !== null && n >= 5) {
+      if (p > 0.9) flags.push("too_easy");
+      if (p < 0.2) flags.push("too_hard");
+    }
+    if (r !== null) {
+      if (r < 0) flags.push("negative_discrimination");
+      else if (r < 0.2) flags.push("low_discrimination");
+    }
+    if (options && n >= 5) {
+      const keyRate = Math.max(0, ...options.filter((o) => o.is_key).map((o) => o.rate));
+      const distractors = options.filter((o) => !o.is_key);
+      if (distractors.some((o) => o.rate > keyRate)) flags.push("distractor_over_key");
+      if (question.question_type !== "true_false" && distractors.some((o) => o.rate < 0.05)) flags.push("unused_distractor");
+    }
+
+    return {
+      question_id: question.id,
+      question_text: question.question_text,
+      question_type: question.question_type,
+      attempts: n,
+      answered,
+      p_value: round3(p),
+      discrimination: round3(r),
+      omitted_rate: round3(n > 0 ? (n - answered) / n : 0) ?? 0,
+      options: options?.map((o) => ({ ...o, rate: round3(o.rate) ?? 0 })) ?? null,
+      flags,
+    };
+  });
+
+  // Reliability needs a complete score matrix, so use only items every attempt was given
+  const common = items.filter((it) => it.attempts === attempts.length).map((it) => it.question_id);
+  let alpha: number | null = null;
+  let kr20: number | null = null;
+  if (attempts.length >= 2 && common.length >= 2) {
+    const k = common.length;
+    const matrix = scores.map((row) => common.map((id) => row.get(id) ?? 0));
+    const commonTotals = matrix.map((xs) => xs.reduce((s, x) => s + x, 0));
+    const totalVar = variance(commonTotals);
+    if (totalVar > 0) {
+      const itemVars = common.map((_, j) => variance(matrix.map((xs) => xs[j])));
+      alpha = (k / (k - 1)) * (1 - itemVars.reduce((s, v) => s + v, 0) / totalVar);
+      // For 0/1 items the item variance is p(1 - p), so KR-20 equals alpha
+      if (matrix.every((xs) => xs.every((x) => x === 0 || x === 1))) kr20 = alpha;
+    }
+  }
+
+  return {
+    summary: {
+      attempts: attempts.length,
+      items: items.length,
+      reliability_items: common.length,
+      mean_score: round3(totals.length > 0 ? mean(totals) : null),
+      sd_score: round3(totals.length > 0 ? Math.sqrt(variance(totals)) : null),
+      cronbach_alpha: round3(alpha),
+      kr20: round3(kr20),
+    },
+    items,
+    attempt_scores: scores.map((row, i) => (row.size > 0 ? Math.round((totals[i] / row.size) * 100) : 0)),
+  };
+}
@@ -0,0 +1,30 @@
+import type { LockdownAction, LockdownPolicy } from "@/lib/types";
+
+// Defaults mirror public.record_lockdown_violation in db/rpc_functions.sql; keep both in sync.
+
+export const LOCKDOWN_ACTIONS: { value: LockdownAction; label: string; description: string }[] = [
+  { value: "warn", label: "Warn only", description: "The student is warned each time and every violation is logged." },
+  { value: "pause", label: "Pause the attempt", description: "The clock stops until a proctor resumes the attempt from the proctor console." },
+  { value: "submit", label: "Submit the attempt", description: "The attempt is submitted with the answers saved so far." },
+];
+
+export const DEFAULT_MAX_VIOLATIONS = 3;
+
+// What the attempt page reports as a lockdown_violation activity event
+export const LOCKDOWN_VIOLATION_KINDS = ["fullscreen_exit", "tab_hidden", "navigation"] as const;
+export type LockdownViolationKind = (typeof LOCKDOWN_VIOLATION_KINDS)[number];
+
+export function isLockdownViolationKind(value: unknown): value is LockdownViolationKind {
+  return typeof value === "string" && (LOCKDOWN_VIOLATION_KINDS as readonly string[]).includes(value);
+}
+
+export function parseLockdownPolicy(settings: unknown): LockdownPolicy {
+  const raw = settings && typeof settings === "object" ? (settings as Record<string, unknown>).lockdown : null;
+  const obj = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+  const max = Math.trunc(Number(obj.max_violations));
+  return {
+    enabled: obj.enabled === true,
+    max_violations: Number.isFinite(max) && max >= 1 ? max : DEFAULT_MAX_VIOLATIONS,
+    on_limit: LOCKDOWN_ACTIONS.some((a) => a.value === obj.on_limit) ? (obj.on_limit as LockdownAction) : "warn",
+  };
+}
@@ -0,0 +1,78 @@
+import type { MessageChannel } from "@/lib/types";
+import type { MessageProvider } from "./provider";
+import { whatsAppProvider } from "./whatsapp";
+import { smsGatewayProvider } from "./sms";
+import { smtpProvider } from "./smtp";
+import { mockProvider } from "./mock";
+import { normalizePhone } from "@/lib/studentImport";
+
+export type { MessageProvider, OutgoingMessage, SendResult } from "./provider";
+
+export const MESSAGE_CHANNELS: MessageChannel[] = ["whatsapp", "sms", "email"];
+
+export function isMessageChannel(v: unknown): v is MessageChannel {
+  return typeof v === "string" && (MESSAGE_CHANNELS as string[]).includes(v);
+}
+
+const EMAIL_RE = /^[^\s@<>]+@[^\s@<>]+\.[^\s@<>]+$/;
+
+/**
+ * Where a message on the channel goes for a contact: the E.164 mobile number or the email address,
+ * or the reason (no_email, invalid_email, no_mobile_number, invalid_mobile_number) it cannot be sent.
+ */
+export function resolveRecipient(
+  channel: MessageChannel,
+  contact: { mobile: string | null; email: string | null }
+): { to: string } | { reason: string } {
+  if (channel === "email") {
+    const email = contact.email?.trim();
+    if (!email) return { reason: "no_email" };
+    return EMAIL_RE.test(email) ? { to: email } : { reason: "invalid_email" };
+  }
+  if (!contact.mobile?.trim()) return { reason: "no_mobile_number" };
+  const to = normalizePhone(contact.mobile, null);
+  return to ? { to } : { reason: "invalid_mobile_number" };
+}
+
+function env(name: string): string | null {
+  const v = process.env[name]?.trim();
+  return v ? v : null;
+}
+
+/**
+ * The provider configured for a channel, or null when it is not set up. MESSAGING_PROVIDER=mock
+ * routes every channel to the mock provider.
+ */
+export function getMessageProvider(channel: MessageChannel): MessageProvider | null {
+  if (env("MESSAGING_PROVIDER") === "mock") return mockProvider(channel);
+  switch (channel) {
+    case "whatsapp": {
+      const token = env("WHATSAPP_TOKEN");
+      const phoneNumberId = env("WHATSAPP_PHONE_ID");
+      if (!token || !phoneNumberId) return null;
+      return whatsAppProvider({ token, phoneNumberId, apiVersion: env("WHATSAPP_API_VERSION") ?? "v21.0" });
+    }
+    case "sms": {
+      const url = env("SMS_GATEWAY_URL");
+      if (!url) return null;
+      return smsGatewayProvider({ url, token: env("SMS_GATEWAY_TOKEN"), senderId: env("SMS_SENDER_ID") });
+    }
+    case "email": {
+      const host = env("SMTP_HOST");
+      const from = env("SMTP_FROM");
+      if (!host || !from) return null;
+      return smtpProvider({
+        host,
+        port: Number(env("SMTP_PORT") ?? 587) || 587,
+        user: env("SMTP_USER"),
+        password: env("SMTP_PASSWORD"),
+        from,
+      });
+    }
+  }
+}
+
+/** Each channel with the provider that would send on it, for the admin UI */
+export function messagingChannels(): { channel: MessageChannel; provider: string | null }[] {
+  return MESSAGE_CHANNELS.map((channel) => ({ channel, provider: getMessageProvider(channel)?.name ?? null }));
+}
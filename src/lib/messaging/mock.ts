@@ -0,0 +1,22 @@
+import type { MessageChannel } from "@/lib/types";
+import type { MessageProvider, OutgoingMessage } from "./provider";
+
+// Local stand-in for every channel (MESSAGING_PROVIDER=mock). Messages are logged and kept in
+// memory; recipients containing "fail" fail without retry and "retry" fail with one.
+
+export const mockOutbox: (OutgoingMessage & { channel: MessageChannel; at: string })[] = [];
+
+export function mockProvider(channel: MessageChannel): MessageProvider {
+  return {
+    name: "mock",
+    channel,
+    ratePerSecond: 50,
+    async send(message: OutgoingMessage) {
+      if (message.to.includes("fail")) return { ok: false, error: "mock_failure", retryable: false };
+      if (message.to.includes("retry")) return { ok: false, error: "mock_transient_failure", retryable: true };
+      mockOutbox.push({ ...message, channel, at: new Date().toISOString() });
+      console.log(`[mock ${channel}] to ${message.to}: ${message.body}`);
+      return { ok: true, provider_message_id: `mock-${mockOutbox.length}` };
+    },
+  };
+}
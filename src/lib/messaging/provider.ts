@@ -0,0 +1,32 @@
+import type { MessageChannel } from "@/lib/types";
+
+// A way to deliver one rendered message to one recipient. Providers never throw for delivery
+// problems; they report whether the failure is worth retrying and the queue decides.
+
+export interface OutgoingMessage {
+  // E.164 phone number for whatsapp and sms, an address for email
+  to: string;
+  body: string;
+  subject?: string | null;
+}
+
+export type SendResult =
+  | { ok: true; provider_message_id: string | null }
+  | { ok: false; error: string; retryable: boolean };
+
+export interface MessageProvider {
+  name: string;
+  channel: MessageChannel;
+  // Most messages this provider may send per second
+  ratePerSecond: number;
+  send(message: OutgoingMessage): Promise<SendResult>;
+}
+
+/** Retry rate limits, server errors and network failures; anything else is the request's fault */
+export function httpFailure(status: number, detail: string): SendResult {
+  return { ok: false, error: `${status}: ${detail}`.slice(0, 500), retryable: status === 429 || status >= 500 };
+}
+
+export function networkFailure(e: unknown): SendResult {
+  return { ok: false, error: e instanceof Error ? e.message : String(e), retryable: true };
+}
@@ -0,0 +1,139 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { MessageChannel } from "@/lib/types";
+import { getMessageProvider, type MessageProvider, type SendResult } from "./index";
+
+// Queued sends: a message_jobs row per send and a message_deliveries row per recipient. Each pass
+// claims due deliveries (claim_message_deliveries leases them for five minutes, so a crashed pass
+// is picked up again), sends them at the provider's rate and reschedules retryable failures.
+// Passes run right after a job is queued and from /api/cron/message-queue.
+
+export const MAX_DELIVERY_ATTEMPTS = 5;
+const RETRY_BASE_SECONDS = 30;
+const INSERT_CHUNK = 500;
+
+/** Seconds to wait before the next try after the given number of attempts: 30s, 1m, 2m, 4m */
+export function retryDelaySeconds(attempts: number): number {
+  return RETRY_BASE_SECONDS * 2 ** Math.max(0, attempts - 1);
+}
+
+export interface QueuedRecipient {
+  student_id: string | null;
+  recipient: string;
+  body: string;
+}
+
+export async function enqueueMessageJob(
+  svc: SupabaseClient,
+  job: {
+    channel: MessageChannel;
+    provider: string;
+    template: string;
+    subject: string | null;
+    created_by: string | null;
+    exam_id?: string | null;
+    recipients: QueuedRecipient[];
+  }
+): Promise<string> {
+  const { data, error } = await svc
+    .from("message_jobs")
+    .insert({
+      channel: job.channel,
+      provider: job.provider,
+      template: job.template,
+      subject: job.subject,
+      created_by: job.created_by,
+      exam_id: job.exam_id ?? null,
+    })
+    .select("id")
+    .single();
+  if (error) throw new Error(error.message);
+
+  for (let i = 0; i < job.recipients.length; i += INSERT_CHUNK) {
+    const rows = job.recipients.slice(i, i + INSERT_CHUNK).map((r) => ({ job_id: data.id, ...r }));
+    const ins = await svc.from("message_deliveries").insert(rows);
+    if (ins.error) {
+      await svc.from("message_jobs").delete().eq("id", data.id);
+      throw new Error(ins.error.message);
+    }
+  }
+  return data.id as string;
+}
+
+type ClaimedDelivery = {
+  id: number;
+  recipient: string;
+  body: string;
+  attempts: number;
+  channel: MessageChannel;
+  subject: string | null;
+};
+
+export interface QueuePassResult {
+  sent: number;
+  retrying: number;
+  failed: number;
+}
+
+export async function processMessageQueue(
+  svc: SupabaseClient,
+  opts: { timeBudgetMs?: number; batchSize?: number } = {}
+): Promise<QueuePassResult> {
+  const deadline = Date.now() + (opts.timeBudgetMs ?? 20_000);
+  const result: QueuePassResult = { sent: 0, retrying: 0, failed: 0 };
+  const providers = new Map<MessageChannel, MessageProvider | null>();
+  const lastSent = new Map<MessageChannel, number>();
+
+  while (Date.now() < deadline) {
+    const { data, error } = await svc.rpc("claim_message_deliveries", { p_limit: opts.batchSize ?? 50 });
+    if (error) throw new Error(error.message);
+    const claimed = (data ?? []) as ClaimedDelivery[];
+    if (claimed.length === 0) break;
+
+    for (const d of claimed) {
+      // Out of time: hand the rest back untouched for the next pass
+      if (Date.now() >= deadline) {
+        const upd = await svc
+          .from("message_deliveries")
+          .update({ status: "pending", attempts: d.attempts - 1, next_attempt_at: new Date().toISOString() })
+          .eq("id", d.id);
+        if (upd.error) throw new Error(upd.error.message);
+        continue;
+      }
+
+      if (!providers.has(d.channel)) providers.set(d.channel, getMessageProvider(d.channel));
+      const provider = providers.get(d.channel) ?? null;
+      let outcome: SendResult;
+      if (!provider) {
+        outcome = { ok: false, error: "channel_not_configured", retryable: true };
+      } else {
+        const gap = 1000 / provider.ratePerSecond - (Date.now() - (lastSent.get(d.channel) ?? 0));
+        if (gap > 0) await new Promise((resolve) => setTimeout(resolve, gap));
+        lastSent.set(d.channel, Date.now());
+        outcome = await provider.send({ to: d.recipient, body: d.body, subject: d.subject });
+      }
+
+      const now = new Date();
+      let update: Record<string, unknown>;
+      if (outcome.ok) {
+        result.sent += 1;
+        update = { status: "sent", sent_at: now.toISOString(), provider_message_id: outcome.provider_message_id, last_error: null };
+      } else if (outcome.retryable && d.attempts < MAX_DELIVERY_ATTEMPTS) {
+        result.retrying += 1;
+        update = {
+          status: "pending",
+          last_error: outcome.error,
+          next_attempt_at: new Date(now.getTime() + retryDelaySeconds(d.attempts) * 1000).toISOString(),
+        };
+      } else {
+        result.failed += 1;
+        update = { status: "failed", last_error: outcome.error };
+      }
+      const upd = await svc
+        .from("message_deliveries")
+        .update({ ...update, updated_at: now.toISOString() })
+        .eq("id", d.id);
+      if (upd.error) throw new Error(upd.error.message);
+    }
+  }
+  return result;
+}
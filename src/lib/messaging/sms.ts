@@ -0,0 +1,42 @@
+import { httpFailure, networkFailure, type MessageProvider, type OutgoingMessage } from "./provider";
+
+// Generic HTTP SMS gateway: POSTs {to, from, message} as JSON with an optional bearer token and
+// reads the gateway's message id from "id" or "message_id" in the response.
+
+export interface SmsGatewayConfig {
+  url: string;
+  token: string | null;
+  senderId: string | null;
+}
+
+export function smsGatewayProvider(cfg: SmsGatewayConfig): MessageProvider {
+  return {
+    name: "sms_gateway",
+    channel: "sms",
+    ratePerSecond: 5,
+    async send(message: OutgoingMessage) {
+      try {
+        const res = await fetch(cfg.url, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            ...(cfg.token ? { Authorization: `Bearer ${cfg.token}` } : {}),
+          },
+          body: JSON.stringify({ to: message.to, from: cfg.senderId, message: message.body }),
+        });
+        const text = await res.text();
+        if (!res.ok) return httpFailure(res.status, text || res.statusText);
+        let id: string | null = null;
+        try {
+          const data = JSON.parse(text);
+          id = data?.id ?? data?.message_id ?? null;
+        } catch {
+          // gateways that answer with plain text
+        }
+        return { ok: true, provider_message_id: id === null ? null : String(id) };
+      } catch (e) {
+        return networkFailure(e);
+      }
+    },
+  };
+}
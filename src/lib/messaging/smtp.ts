@@ -0,0 +1,194 @@
+import net from "node:net";
+import tls from "node:tls";
+import { randomUUID } from "node:crypto";
+import { networkFailure, type MessageProvider, type OutgoingMessage, type SendResult } from "./provider";
+
+// Plain-text email over SMTP, one connection per message. Port 465 uses implicit TLS; other
+// ports upgrade with STARTTLS when the server offers it. AUTH LOGIN is used when a user is set.
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  user: string | null;
+  password: string | null;
+  from: string;
+}
+
+const TIMEOUT_MS = 20_000;
+
+interface SmtpReply {
+  code: number;
+  text: string;
+}
+
+class SmtpReplyError extends Error {
+  constructor(public reply: SmtpReply, step: string) {
+    super(`${step}: ${reply.code} ${reply.text}`.slice(0, 500));
+  }
+}
+
+// Reads complete (possibly multi-line) replies off a socket in order
+function replyReader(socket: net.Socket) {
+  let buffer = "";
+  let lines: string[] = [];
+  const ready: SmtpReply[] = [];
+  let waiting: { resolve: (r: SmtpReply) => void; reject: (e: Error) => void } | null = null;
+  let failure: Error | null = null;
+
+  const onData = (chunk: Buffer) => {
+    buffer += chunk.toString("utf8");
+    let i: number;
+    while ((i = buffer.indexOf("\r\n")) >= 0) {
+      const line = buffer.slice(0, i);
+      buffer = buffer.slice(i + 2);
+      lines.push(line.slice(4));
+      if (/^\d{3}(?: |$)/.test(line)) {
+        const reply = { code: Number(line.slice(0, 3)), text: lines.join(" ").trim() };
+        lines = [];
+        if (waiting) {
+          waiting.resolve(reply);
+          waiting = null;
+        } else {
+          ready.push(reply);
+        }
+      }
+    }
+  };
+  const onEnd = (e?: Error) => {
+    failure = e ?? new Error("smtp_connection_closed");
+    waiting?.reject(failure);
+    waiting = null;
+  };
+  const onClose = () => onEnd();
+  socket.on("data", onData);
+  socket.on("error", onEnd);
+  socket.on("close", onClose);
+
+  return {
+    next(): Promise<SmtpReply> {
+      const r = ready.shift();
+      if (r) return Promise.resolve(r);
+      if (failure) return Promise.reject(failure);
+      return new Promise((resolve, reject) => (waiting = { resolve, reject }));
+    },
+    detach() {
+      socket.off("data", onData);
+      socket.off("error", onEnd);
+      socket.off("close", onClose);
+    },
+  };
+}
+
+function connect(cfg: SmtpConfig): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket =
+      cfg.port === 465
+        ? tls.connect({ host: cfg.host, port: cfg.port, servername: cfg.host }, () => resolve(socket))
+        : net.connect({ host: cfg.host, port: cfg.port }, () => resolve(socket));
+    socket.setTimeout(TIMEOUT_MS, () => socket.destroy(new Error("smtp_timeout")));
+    socket.once("error", reject);
+  });
+}
+
+function upgrade(socket: net.Socket, host: string): Promise<tls.TLSSocket> {
+  return new Promise((resolve, reject) => {
+    const secure = tls.connect({ socket, servername: host }, () => resolve(secure));
+    secure.setTimeout(TIMEOUT_MS, () => secure.destroy(new Error("smtp_timeout")));
+    secure.once("error", reject);
+  });
+}
+
+// One header line (no injected headers), RFC 2047 encoded so Arabic subjects survive
+function encodeHeader(value: string): string {
+  const line = value.replace(/[\r\n]+/g, " ");
+  return /^[\x20-\x7e]*$/.test(line) ? line : `=?UTF-8?B?${Buffer.from(line, "utf8").toString("base64")}?=`;
+}
+
+function addressOf(from: string): string {
+  return from.match(/<([^>]+)>/)?.[1] ?? from.trim();
+}
+
+function buildMessage(cfg: SmtpConfig, message: OutgoingMessage): string {
+  const body = Buffer.from(message.body, "utf8").toString("base64").replace(/(.{76})/g, "$1\r\n");
+  const domain = addressOf(cfg.from).split("@")[1] || cfg.host;
+  return [
+    `From: ${cfg.from}`,
+    `To: ${encodeHeader(message.to)}`,
+    `Subject: ${encodeHeader(message.subject || "")}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    "MIME-Version: 1.0",
+    "Content-Type: text/plain; charset=UTF-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    body,
+  ].join("\r\n");
+}
+
+async function deliver(cfg: SmtpConfig, message: OutgoingMessage): Promise<string | null> {
+  let socket: net.Socket = await connect(cfg);
+  let reader = replyReader(socket);
+  try {
+    const expect = async (step: string, ...codes: number[]) => {
+      const reply = await reader.next();
+      if (!codes.includes(reply.code)) throw new SmtpReplyError(reply, step);
+      return reply;
+    };
+    const command = (line: string) => socket.write(`${line}\r\n`);
+
+    await expect("greeting", 220);
+    command(`EHLO ${addressOf(cfg.from).split("@")[1] || "localhost"}`);
+    const ehlo = await expect("ehlo", 250);
+
+    if (!(socket instanceof tls.TLSSocket) && /STARTTLS/i.test(ehlo.text)) {
+      command("STARTTLS");
+      await expect("starttls", 220);
+      reader.detach();
+      socket = await upgrade(socket, cfg.host);
+      reader = replyReader(socket);
+      command(`EHLO ${addressOf(cfg.from).split("@")[1] || "localhost"}`);
+      await expect("ehlo", 250);
+    }
+
+    if (cfg.user) {
+      command("AUTH LOGIN");
+      await expect("auth", 334);
+      command(Buffer.from(cfg.user).toString("base64"));
+      await expect("auth", 334);
+      command(Buffer.from(cfg.password ?? "").toString("base64"));
+      await expect("auth", 235);
+    }
+
+    command(`MAIL FROM:<${addressOf(cfg.from)}>`);
+    await expect("mail_from", 250);
+    command(`RCPT TO:<${message.to}>`);
+    await expect("rcpt_to", 250, 251);
+    command("DATA");
+    await expect("data", 354);
+    socket.write(`${buildMessage(cfg, message)}\r\n.\r\n`);
+    const queued = await expect("data", 250);
+    command("QUIT");
+    return queued.text || null;
+  } finally {
+    reader.detach();
+    socket.on("error", () => {}); // nothing is waiting on the connection any more
+    socket.end();
+  }
+}
+
+export function smtpProvider(cfg: SmtpConfig): MessageProvider {
+  return {
+    name: "smtp",
+    channel: "email",
+    ratePerSecond: 2,
+    async send(message: OutgoingMessage): Promise<SendResult> {
+      try {
+        return { ok: true, provider_message_id: await deliver(cfg, message) };
+      } catch (e) {
+        // 4xx replies are temporary by definition; 5xx are permanent
+        if (e instanceof SmtpReplyError) return { ok: false, error: e.message, retryable: e.reply.code < 500 };
+        return networkFailure(e);
+      }
+    },
+  };
+}
@@ -0,0 +1,37 @@
+import { httpFailure, networkFailure, type MessageProvider, type OutgoingMessage } from "./provider";
+
+// WhatsApp Cloud API text messages. Outside the 24-hour customer service window WhatsApp only
+// delivers approved templates, so business-initiated sends may fail with a 4xx from Meta.
+
+export interface WhatsAppConfig {
+  token: string;
+  phoneNumberId: string;
+  apiVersion: string;
+}
+
+export function whatsAppProvider(cfg: WhatsAppConfig): MessageProvider {
+  return {
+    name: "whatsapp_cloud",
+    channel: "whatsapp",
+    ratePerSecond: 20,
+    async send(message: OutgoingMessage) {
+      try {
+        const res = await fetch(`https://graph.facebook.com/${cfg.apiVersion}/${cfg.phoneNumberId}/messages`, {
+          method: "POST",
+          headers: { Authorization: `Bearer ${cfg.token}`, "Content-Type": "application/json" },
+          body: JSON.stringify({
+            messaging_product: "whatsapp",
+            to: message.to.replace(/^\+/, ""),
+            type: "text",
+            text: { body: message.body },
+          }),
+        });
+        const data = await res.json().catch(() => ({}));
+        if (!res.ok) return httpFailure(res.status, data?.error?.message || res.statusText);
+        return { ok: true, provider_message_id: data?.messages?.[0]?.id ?? null };
+      } catch (e) {
+        return networkFailure(e);
+      }
+    },
+  };
+}
@@ -0,0 +1,90 @@
+import type { NumericAnswerKey } from "@/lib/types";
+import { normalizeDigits } from "@/lib/textUtils";
+
+// Mirrors public.grade_numeric in db/rpc_functions.sql; keep both in sync.
+
+const NUMBER_RE = /^([+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?)\s*(.*)$/;
+
+function num(v: unknown): number | null {
+  const n = typeof v === "number" ? v : typeof v === "string" && v.trim() !== "" ? Number(v) : NaN;
+  return Number.isFinite(n) ? n : null;
+}
+
+export function normalizeUnit(s: string): string {
+  return s.replace(/\s+/g, "").toLowerCase();
+}
+
+export function parseNumericKey(raw: unknown): NumericAnswerKey | null {
+  const obj = raw && typeof raw === "object" && !Array.isArray(raw) ? (raw as Record<string, unknown>) : { value: raw };
+  const value = num(obj.value);
+  if (value === null) return null;
+  const units = Array.isArray(obj.units)
+    ? obj.units.map((u) => String(u ?? "").trim()).filter(Boolean)
+    : [];
+  const sig = num(obj.sig_figs);
+  return {
+    value,
+    tolerance: Math.abs(num(obj.tolerance) ?? 0),
+    tolerance_type: obj.tolerance_type === "relative" ? "relative" : "absolute",
+    units,
+    unit_required: obj.unit_required === true,
+    sig_figs: sig !== null && sig > 0 ? Math.floor(sig) : null,
+  };
+}
+
+export function parseNumericAnswer(raw: unknown): { number: string; value: number; unit: string } | null {
+  if (typeof raw === "number") return Number.isFinite(raw) ? { number: String(raw), value: raw, unit: "" } : null;
+  if (typeof raw !== "string") return null;
+  const m = NUMBER_RE.exec(normalizeDigits(raw.trim()));
+  if (!m) return null;
+  return { number: m[1], value: Number(m[1]), unit: m[2].trim() };
+}
+
+/**
+ * Significant figures written in a number as [min, max]. Trailing zeros of a
+ * whole number without a decimal point are ambiguous ("1200" is 2 to 4).
+ */
+export function sigFigRange(numberText: string): [number, number] {
+  const mantissa = numberText.replace(/^[+-]/, "").toLowerCase().split("e")[0];
+  const hasPoint = mantissa.includes(".");
+  const digits = mantissa.replace(".", "").replace(/^0+/, "");
+  if (digits === "") {
+    const n = Math.max(1, (mantissa.split(".")[1] || "").length);
+    return [n, n];
+  }
+  if (hasPoint) return [digits.length, digits.length];
+  return [digits.replace(/0+$/, "").length, digits.length];
+}
+
+export function gradeNumeric(answer: unknown, rawKey: unknown): boolean {
+  const key = parseNumericKey(rawKey);
+  const ans = parseNumericAnswer(answer);
+  if (!key || !ans) return false;
+
+  const units = key.units || [];
+  if (ans.unit) {
+    if (!units.some((u) => normalizeUnit(u) === normalizeUnit(ans.unit))) return false;
+  } else if (units.length > 0 && key.unit_required) {
+    return false;
+  }
+
+  if (key.sig_figs) {
+    const [min, max] = sigFigRange(ans.number);
+    if (key.sig_figs < min || key.sig_figs > max) return false;
+  }
+
+  const tol = key.tolerance ?? 0;
+  const allowed = key.tolerance_type === "relative" ? (Math.abs(key.value) * tol) / 100 : tol;
+  // Small epsilon so float rounding agrees with the exact numeric math in SQL
+  return Math.abs(ans.value - key.value) <= allowed + 1e-9 * Math.max(1, Math.abs(key.value));
+}
+
+export function formatNumericKey(rawKey: unknown): string {
+  const key = parseNumericKey(rawKey);
+  if (!key) return "";
+  let out = String(key.value);
+  if (key.tolerance) out += key.tolerance_type === "relative" ? ` ± ${key.tolerance}%` : ` ± ${key.tolerance}`;
+  if (key.units && key.units.length > 0) out += ` ${key.units[0]}`;
+  if (key.sig_figs) out += ` (${key.sig_figs} s.f.)`;
+  return out;
+}
@@ -0,0 +1,38 @@
+import { formatNumericKey } from "@/lib/numericAnswer";
+import { parseSequenceKey, parseMatchingOptions } from "@/lib/sequenceAnswer";
+import { parseShortAnswerKey } from "@/lib/shortAnswer";
+
+// Practice exams (exams.settings.practice_mode) let students check each answer as they go and
+// see the key with the admin's explanation. Exams that are not practice never reveal the key.
+
+export function isPracticeMode(settings: unknown): boolean {
+  return !!settings && typeof settings === "object" && (settings as Record<string, unknown>).practice_mode === true;
+}
+
+/** The answer key in words for the feedback panel; null when there is nothing to show */
+export function describeAnswerKey(question: { question_type: string; options?: unknown; correct_answers?: unknown }): string | null {
+  const key = question.correct_answers;
+  if (key === null || key === undefined) return null;
+  switch (question.question_type) {
+    case "paragraph":
+    case "photo_upload":
+    case "image_annotation":
+      return null;
+    case "true_false":
+      return typeof key === "boolean" ? String(key) : null;
+    case "short_answer":
+      return parseShortAnswerKey(key).accepted.join(" / ") || null;
+    case "numeric":
+      return formatNumericKey(key) || null;
+    case "ordering":
+      return parseSequenceKey("ordering", key).expected.join(" → ") || null;
+    case "matching": {
+      const { left } = parseMatchingOptions(question.options);
+      const { expected } = parseSequenceKey("matching", key);
+      return left.map((l, i) => `${l} → ${expected[i] ?? ""}`).join("; ") || null;
+    }
+    default:
+      if (Array.isArray(key)) return key.map(String).join(", ") || null;
+      return String(key) || null;
+  }
+}
@@ -0,0 +1,55 @@
+// Shared between the proctor console API, its page and the student attempt page.
+
+export const PROCTOR_ACTIONS = ["force_submit", "pause", "resume", "invalidate", "message"] as const;
+export type ProctorAction = (typeof PROCTOR_ACTIONS)[number];
+
+export function isProctorAction(value: unknown): value is ProctorAction {
+  return typeof value === "string" && (PROCTOR_ACTIONS as readonly string[]).includes(value);
+}
+
+// Sent on the attempt's SSE stream when a proctor acts on it
+export interface ProctorEvent {
+  type: "proctor";
+  id: number;
+  action: ProctorAction;
+  message: string | null;
+  timestamp: number;
+}
+
+// attempt_activity_events types the console summarizes
+export const SCREENSHOT_EVENT_TYPES = ["security_violation", "screenshot_attempt"];
+export const PROCTOR_EVENT_TYPES = ["tab_switch", "ip_changed", "lockdown_violation", ...SCREENSHOT_EVENT_TYPES];
+
+export interface ActivityEventRow {
+  attempt_id: string;
+  event_type: string;
+  event_time: string;
+  payload: Record<string, unknown> | null;
+}
+
+export interface ProctorActivitySummary {
+  focus_losses: number;
+  screenshot_events: number;
+  lockdown_violations: number;
+  ip_changes: { from: string | null; to: string | null; at: string }[];
+  last_event_at: string | null;
+}
+
+/** Counts focus losses (the page going hidden), screenshot events, lockdown violations and IP changes for one attempt */
+export function summarizeProctorActivity(events: ActivityEventRow[]): ProctorActivitySummary {
+  const summary: ProctorActivitySummary = { focus_losses: 0, screenshot_events: 0, lockdown_violations: 0, ip_changes: [], last_event_at: null };
+  for (const ev of events) {
+    if (ev.event_type === "tab_switch" && ev.payload?.hidden !== false) summary.focus_losses++;
+    else if (SCREENSHOT_EVENT_TYPES.includes(ev.event_type)) summary.screenshot_events++;
+    else if (ev.event_type === "lockdown_violation") summary.lockdown_violations++;
+    else if (ev.event_type === "ip_changed") {
+      summary.ip_changes.push({
+        from: typeof ev.payload?.from === "string" ? ev.payload.from : null,
+        to: typeof ev.payload?.to === "string" ? ev.payload.to : null,
+        at: ev.event_time,
+      });
+    }
+    if (!summary.last_event_at || ev.event_time > summary.last_event_at) summary.last_event_at = ev.event_time;
+  }
+  return summary;
+}
@@ -3,46 +3,53 @@
  * Manages question selection, randomization, and pool-based exam generation
  */
 
+import { createHash } from "crypto";
+import { supabaseServer } from "@/lib/supabase/server";
+import type { Question } from "@/lib/types";
+import { parseMatchingOptions } from "@/lib/sequenceAnswer";
+
+export type PoolDifficulty = 'easy' | 'medium' | 'hard';
+
+export const POOL_DIFFICULTIES: PoolDifficulty[] = ['easy', 'medium', 'hard'];
+
 export interface QuestionPool {
   id: string;
   name: string;
-  description?: string;
-  category: string;
-  difficulty: 'easy' | 'medium' | 'hard';
+  description?: string | null;
+  category?: string | null;
   tags: string[];
-  questions: Question[];
+  questions: PoolQuestion[];
   created_at: string;
   updated_at: string;
 }
 
-export interface Question {
-  id: string;
-  type: 'multiple_choice' | 'true_false' | 'short_answer' | 'essay' | 'image_annotation';
-  question: string;
-  options?: string[];
-  correct_answer?: string | string[];
-  points: number;
-  difficulty: 'easy' | 'medium' | 'hard';
+/**
+ * A question stored in a pool: a regular questions row with pool_id set and exam_id null
+ */
+export interface PoolQuestion extends Question {
+  pool_id: string;
+  difficulty: PoolDifficulty | null;
   tags: string[];
-  image_url?: string;
-  annotations?: AnnotationPoint[];
-  usage_count: number;
+  usage_count?: number;
   success_rate?: number;
-  average_time?: number;
 }
 
-export interface AnnotationPoint {
-  id: string;
-  x: number;
-  y: number;
-  label: string;
-  color: string;
+/**
+ * Shape of exams.settings.question_pool, read by draw_pool_questions() in start_attempt
+ */
+export interface QuestionPoolSettings {
+  enabled: boolean;
+  pool_ids: string[];
+  question_count: number;
+  tags?: string[];
+  balance_by_difficulty?: boolean;
+  difficulty_distribution?: Record<PoolDifficulty, number> | null;
 }
 
 export interface PoolSelectionCriteria {
   poolIds?: string[];
   categories?: string[];
-  difficulties?: ('easy' | 'medium' | 'hard')[];
+  difficulties?: PoolDifficulty[];
   tags?: string[];
   questionCount: number;
   balanceByDifficulty?: boolean;
@@ -60,6 +67,8 @@ export interface ExamConfiguration {
   categoryDistribution?: Record<string, number>;
   randomizeOrder: boolean;
   preventRepeats: boolean;
+  // Same seed as exam_attempts.auto_save_data.seed reproduces that attempt's draw
+  seed?: string;
 }
 
 export class QuestionPoolManager {
@@ -69,63 +78,164 @@ export class QuestionPoolManager {
   static async generateExamQuestions(
     criteria: PoolSelectionCriteria,
     config: ExamConfiguration
-  ): Promise<Question[]> {
+  ): Promise<PoolQuestion[]> {
     // Get available question pools
     const pools = await this.getQuestionPools(criteria);
-    
+
     // Collect all eligible questions
     let eligibleQuestions = this.collectEligibleQuestions(pools, criteria);
-    
+
     // Filter out previously used questions if required
     if (criteria.excludeUsedQuestions && criteria.studentId) {
       eligibleQuestions = await this.filterUsedQuestions(eligibleQuestions, criteria.studentId);
     }
-    
+
     // Select questions based on configuration
     const selectedQuestions = this.selectQuestions(eligibleQuestions, config);
-    
+
     // Randomize order if required
     if (config.randomizeOrder) {
-      this.shuffleArray(selectedQuestions);
+      return this.orderQuestions(selectedQuestions, config.seed);
     }
-    
+
     return selectedQuestions;
   }
 
+  /**
+   * Build selection criteria and configuration from exams.settings.question_pool.
+   * Returns null when the exam does not draw from pools.
+   */
+  static fromExamSettings(
+    settings: Record<string, unknown> | null | undefined,
+    seed?: string
+  ): { criteria: PoolSelectionCriteria; config: ExamConfiguration } | null {
+    const pool = this.parsePoolSettings(settings);
+    if (!pool) return null;
+
+    const difficultyDistribution = pool.difficulty_distribution
+      ?? (pool.balance_by_difficulty ? this.balancedDistribution(pool.question_count) : undefined);
+
+    return {
+      criteria: {
+        poolIds: pool.pool_ids,
+        tags: pool.tags && pool.tags.length > 0 ? pool.tags : undefined,
+        questionCount: pool.question_count,
+        balanceByDifficulty: pool.balance_by_difficulty,
+      },
+      config: {
+        totalQuestions: pool.question_count,
+        difficultyDistribution,
+        randomizeOrder: true,
+        preventRepeats: true,
+        seed,
+      },
+    };
+  }
+
+  /**
+   * Read and normalize settings.question_pool; null when disabled or incomplete
+   */
+  static parsePoolSettings(settings: Record<string, unknown> | null | undefined): QuestionPoolSettings | null {
+    const raw = settings?.question_pool as Partial<QuestionPoolSettings> | undefined;
+    if (!raw || typeof raw !== 'object' || !raw.enabled) return null;
+
+    const poolIds = Array.isArray(raw.pool_ids) ? raw.pool_ids.filter((id) => typeof id === 'string') : [];
+    const count = Math.floor(Number(raw.question_count) || 0);
+    if (poolIds.length === 0 || count <= 0) return null;
+
+    const dist = raw.difficulty_distribution;
+    return {
+      enabled: true,
+      pool_ids: poolIds,
+      question_count: count,
+      tags: Array.isArray(raw.tags) ? raw.tags.filter((t) => typeof t === 'string') : [],
+      balance_by_difficulty: Boolean(raw.balance_by_difficulty),
+      difficulty_distribution: dist && typeof dist === 'object'
+        ? {
+            easy: Math.max(0, Number(dist.easy) || 0),
+            medium: Math.max(0, Number(dist.medium) || 0),
+            hard: Math.max(0, Number(dist.hard) || 0),
+          }
+        : null,
+    };
+  }
+
+  /**
+   * Even split across difficulties; remainder goes to medium then easy (matches draw_pool_questions)
+   */
+  static balancedDistribution(totalQuestions: number): Record<PoolDifficulty, number> {
+    const base = Math.floor(totalQuestions / 3);
+    const rest = totalQuestions % 3;
+    return {
+      easy: base + (rest === 2 ? 1 : 0),
+      medium: base + (rest >= 1 ? 1 : 0),
+      hard: base,
+    };
+  }
+
+  /**
+   * Load a single pool with its questions
+   */
+  static async getPool(poolId: string): Promise<QuestionPool | null> {
+    const pools = await this.getQuestionPools({ poolIds: [poolId], questionCount: 0 });
+    return pools[0] ?? null;
+  }
+
   /**
    * Get question pools based on criteria
    */
   private static async getQuestionPools(criteria: PoolSelectionCriteria): Promise<QuestionPool[]> {
-    // This would typically fetch from your database
-    // For now, returning mock data structure
-    return [];
+    const svc = supabaseServer();
+
+    let poolQuery = svc.from("question_pools").select("*");
+    if (criteria.poolIds && criteria.poolIds.length > 0) poolQuery = poolQuery.in("id", criteria.poolIds);
+    if (criteria.categories && criteria.categories.length > 0) poolQuery = poolQuery.in("category", criteria.categories);
+    const { data: pools, error } = await poolQuery;
+    if (error) throw new Error(error.message);
+    if (!pools || pools.length === 0) return [];
+
+    const { data: questions, error: qErr } = await svc
+      .from("questions")
+      .select("*")
+      .in("pool_id", pools.map((p) => p.id))
+      .order("order_index", { ascending: true, nullsFirst: false })
+      .order("created_at", { ascending: true });
+    if (qErr) throw new Error(qErr.message);
+
+    return pools.map((pool) => ({
+      ...pool,
+      tags: pool.tags ?? [],
+      questions: (questions ?? [])
+        .filter((q) => q.pool_id === pool.id)
+        .map((q) => ({ ...q, tags: q.tags ?? [] }) as PoolQuestion),
+    })) as QuestionPool[];
   }
 
   /**
    * Collect questions from pools that match criteria
    */
   private static collectEligibleQuestions(
-    pools: QuestionPool[], 
+    pools: QuestionPool[],
     criteria: PoolSelectionCriteria
-  ): Question[] {
-    const questions: Question[] = [];
-    
+  ): PoolQuestion[] {
+    const questions: PoolQuestion[] = [];
+
     for (const pool of pools) {
       for (const question of pool.questions) {
         // Check difficulty filter
-        if (criteria.difficulties && !criteria.difficulties.includes(question.difficulty)) {
+        if (criteria.difficulties && !criteria.difficulties.includes(this.difficultyOf(question))) {
           continue;
         }
-        
+
         // Check tags filter
         if (criteria.tags && !criteria.tags.some(tag => question.tags.includes(tag))) {
           continue;
         }
-        
+
         questions.push(question);
       }
     }
-    
+
     return questions;
   }
 
@@ -133,89 +243,94 @@ export class QuestionPoolManager {
    * Filter out questions already used by student
    */
   private static async filterUsedQuestions(
-    questions: Question[], 
+    questions: PoolQuestion[],
     studentId: string
-  ): Promise<Question[]> {
-    // This would check against student's question history
-    // Implementation depends on your database structure
-    return questions;
+  ): Promise<PoolQuestion[]> {
+    const svc = supabaseServer();
+    const { data, error } = await svc
+      .from("exam_attempts")
+      .select("pool_question_ids")
+      .eq("student_id", studentId)
+      .not("pool_question_ids", "is", null);
+    if (error || !data) return questions;
+
+    const used = new Set<string>(data.flatMap((row) => (row.pool_question_ids as string[] | null) ?? []));
+    const unused = questions.filter((q) => !used.has(q.id));
+    // Never starve a draw: fall back to the full set if the student has seen everything
+    return unused.length > 0 ? unused : questions;
   }
 
   /**
    * Select questions based on exam configuration
    */
   private static selectQuestions(
-    questions: Question[], 
+    questions: PoolQuestion[],
     config: ExamConfiguration
-  ): Question[] {
+  ): PoolQuestion[] {
     if (config.difficultyDistribution) {
       return this.selectByDifficultyDistribution(questions, config);
     }
-    
+
     if (config.categoryDistribution) {
       return this.selectByCategoryDistribution(questions, config);
     }
-    
+
     // Simple random selection
-    this.shuffleArray(questions);
-    return questions.slice(0, config.totalQuestions);
+    return this.orderQuestions(questions, config.seed).slice(0, config.totalQuestions);
   }
 
   /**
-   * Select questions maintaining difficulty distribution
+   * Select questions maintaining difficulty distribution.
+   * Any shortfall in a difficulty bucket is topped up from the remaining questions.
    */
   private static selectByDifficultyDistribution(
-    questions: Question[], 
+    questions: PoolQuestion[],
     config: ExamConfiguration
-  ): Question[] {
+  ): PoolQuestion[] {
     const { difficultyDistribution } = config;
     if (!difficultyDistribution) return [];
 
-    const selected: Question[] = [];
+    const selected: PoolQuestion[] = [];
     const questionsByDifficulty = this.groupByDifficulty(questions);
 
-    // Select easy questions
-    const easyQuestions = questionsByDifficulty.easy || [];
-    this.shuffleArray(easyQuestions);
-    selected.push(...easyQuestions.slice(0, difficultyDistribution.easy));
-
-    // Select medium questions
-    const mediumQuestions = questionsByDifficulty.medium || [];
-    this.shuffleArray(mediumQuestions);
-    selected.push(...mediumQuestions.slice(0, difficultyDistribution.medium));
+    for (const difficulty of POOL_DIFFICULTIES) {
+      const bucket = this.orderQuestions(questionsByDifficulty[difficulty] || [], config.seed);
+      selected.push(...bucket.slice(0, difficultyDistribution[difficulty]));
+    }
 
-    // Select hard questions
-    const hardQuestions = questionsByDifficulty.hard || [];
-    this.shuffleArray(hardQuestions);
-    selected.push(...hardQuestions.slice(0, difficultyDistribution.hard));
+    if (selected.length < config.totalQuestions) {
+      const chosen = new Set(selected.map((q) => q.id));
+      const rest = this.orderQuestions(questions.filter((q) => !chosen.has(q.id)), config.seed);
+      selected.push(...rest.slice(0, config.totalQuestions - selected.length));
+      return selected;
+    }
 
-    return selected;
+    return this.orderQuestions(selected, config.seed).slice(0, config.totalQuestions);
   }
 
   /**
    * Select questions maintaining category distribution
    */
   private static selectByCategoryDistribution(
-    questions: Question[], 
+    questions: PoolQuestion[],
     config: ExamConfiguration
-  ): Question[] {
+  ): PoolQuestion[] {
     const { categoryDistribution } = config;
     if (!categoryDistribution) return [];
 
-    const selected: Question[] = [];
-    
+    const selected: PoolQuestion[] = [];
+
     // Group questions by their first tag (assuming first tag is category)
     const questionsByCategory = questions.reduce((acc, question) => {
       const category = question.tags[0] || 'uncategorized';
       if (!acc[category]) acc[category] = [];
       acc[category].push(question);
       return acc;
-    }, {} as Record<string, Question[]>);
+    }, {} as Record<string, PoolQuestion[]>);
 
     // Select from each category
     for (const [category, count] of Object.entries(categoryDistribution)) {
-      const categoryQuestions = questionsByCategory[category] || [];
-      this.shuffleArray(categoryQuestions);
+      const categoryQuestions = this.orderQuestions(questionsByCategory[category] || [], config.seed);
       selected.push(...categoryQuestions.slice(0, count));
     }
 
@@ -225,22 +340,42 @@ export class QuestionPoolManager {
   /**
    * Group questions by difficulty
    */
-  private static groupByDifficulty(questions: Question[]): Record<string, Question[]> {
+  private static groupByDifficulty(questions: PoolQuestion[]): Record<string, PoolQuestion[]> {
     return questions.reduce((acc, question) => {
-      if (!acc[question.difficulty]) acc[question.difficulty] = [];
-      acc[question.difficulty].push(question);
+      const difficulty = this.difficultyOf(question);
+      if (!acc[difficulty]) acc[difficulty] = [];
+      acc[difficulty].push(question);
       return acc;
-    }, {} as Record<string, Question[]>);
+    }, {} as Record<string, PoolQuestion[]>);
+  }
+
+  /**
+   * Questions without a difficulty are treated as medium (same as draw_pool_questions)
+   */
+  private static difficultyOf(question: PoolQuestion): PoolDifficulty {
+    return question.difficulty ?? 'medium';
   }
 
   /**
-   * Shuffle array in place using Fisher-Yates algorithm
+   * Order questions randomly. With a seed the order is md5(seed:id), the same
+   * key draw_pool_questions() sorts by, so previews match real attempts.
    */
-  private static shuffleArray<T>(array: T[]): void {
+  private static orderQuestions(questions: PoolQuestion[], seed?: string): PoolQuestion[] {
+    if (seed) {
+      const keyed = questions.map((q) => ({
+        q,
+        key: createHash("md5").update(`${seed}:${q.id}`).digest("hex"),
+      }));
+      keyed.sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0));
+      return keyed.map((k) => k.q);
+    }
+
+    const array = questions.slice();
     for (let i = array.length - 1; i > 0; i--) {
       const j = Math.floor(Math.random() * (i + 1));
       [array[i], array[j]] = [array[j], array[i]];
     }
+    return array;
   }
 
   /**
@@ -249,11 +384,11 @@ export class QuestionPoolManager {
   static analyzePoolPerformance(pool: QuestionPool): {
     averageSuccessRate: number;
     difficultyDistribution: Record<string, number>;
-    mostUsedQuestions: Question[];
-    leastUsedQuestions: Question[];
+    mostUsedQuestions: PoolQuestion[];
+    leastUsedQuestions: PoolQuestion[];
   } {
     const questions = pool.questions;
-    
+
     // Calculate average success rate
     const questionsWithSuccessRate = questions.filter(q => q.success_rate !== undefined);
     const averageSuccessRate = questionsWithSuccessRate.length > 0
@@ -262,12 +397,13 @@ export class QuestionPoolManager {
 
     // Calculate difficulty distribution
     const difficultyDistribution = questions.reduce((acc, q) => {
-      acc[q.difficulty] = (acc[q.difficulty] || 0) + 1;
+      const difficulty = this.difficultyOf(q);
+      acc[difficulty] = (acc[difficulty] || 0) + 1;
       return acc;
     }, {} as Record<string, number>);
 
     // Find most and least used questions
-    const sortedByUsage = [...questions].sort((a, b) => b.usage_count - a.usage_count);
+    const sortedByUsage = [...questions].sort((a, b) => (b.usage_count ?? 0) - (a.usage_count ?? 0));
     const mostUsedQuestions = sortedByUsage.slice(0, 5);
     const leastUsedQuestions = sortedByUsage.slice(-5).reverse();
 
@@ -283,7 +419,7 @@ export class QuestionPoolManager {
    * Suggest optimal question distribution for exam
    */
   static suggestOptimalDistribution(
-    availableQuestions: Question[],
+    availableQuestions: PoolQuestion[],
     totalQuestions: number,
     targetDifficulty: 'balanced' | 'easy' | 'challenging'
   ): ExamConfiguration['difficultyDistribution'] {
@@ -294,7 +430,7 @@ export class QuestionPoolManager {
     };
 
     const ratios = distributions[targetDifficulty];
-    
+
     return {
       easy: Math.round(totalQuestions * ratios.easy),
       medium: Math.round(totalQuestions * ratios.medium),
@@ -320,26 +456,37 @@ export class QuestionPoolManager {
 
     // Check question validity
     for (const question of pool.questions) {
-      if (!question.question.trim()) {
+      if (!question.question_text?.trim()) {
         errors.push(`Question ${question.id} has empty question text`);
       }
 
-      if (question.type === 'multiple_choice' && (!question.options || question.options.length < 2)) {
-        errors.push(`Multiple choice question ${question.id} needs at least 2 options`);
+      const needsOptions = ['single_choice', 'multiple_choice', 'multi_select', 'ordering'].includes(question.question_type);
+      if (needsOptions && (!Array.isArray(question.options) || question.options.length < 2)) {
+        errors.push(`Choice question ${question.id} needs at least 2 options`);
+      }
+
+      if (question.question_type === 'matching' && parseMatchingOptions(question.options).left.length < 2) {
+        errors.push(`Matching question ${question.id} needs at least 2 pairs`);
+      }
+
+      if (question.question_type === 'image_annotation' && !question.question_image_url) {
+        errors.push(`Image annotation question ${question.id} needs a question image`);
       }
 
-      if (!question.correct_answer) {
+      const manual = ['paragraph', 'photo_upload'].includes(question.question_type);
+      if (!manual && (question.correct_answers === null || question.correct_answers === undefined)) {
         warnings.push(`Question ${question.id} has no correct answer defined`);
       }
 
-      if (question.points <= 0) {
+      if ((question.points ?? 1) <= 0) {
         warnings.push(`Question ${question.id} has zero or negative points`);
       }
     }
 
     // Check difficulty distribution
     const difficultyCount = pool.questions.reduce((acc, q) => {
-      acc[q.difficulty] = (acc[q.difficulty] || 0) + 1;
+      const difficulty = this.difficultyOf(q);
+      acc[difficulty] = (acc[difficulty] || 0) + 1;
       return acc;
     }, {} as Record<string, number>);
 
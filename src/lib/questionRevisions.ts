@@ -0,0 +1,37 @@
+import type { QuestionRevision } from "@/lib/types";
+
+export const REVISION_FIELDS: { field: keyof QuestionRevision; label: string }[] = [
+  { field: "question_text", label: "Question text" },
+  { field: "question_type", label: "Type" },
+  { field: "options", label: "Options" },
+  { field: "correct_answers", label: "Correct answer" },
+  { field: "points", label: "Points" },
+  { field: "question_image_url", label: "Question image" },
+  { field: "option_image_urls", label: "Option images" },
+];
+
+export interface RevisionChange {
+  field: keyof QuestionRevision;
+  label: string;
+  before: string;
+  after: string;
+}
+
+function show(v: unknown): string {
+  if (v === null || v === undefined || v === "") return "—";
+  return typeof v === "string" ? v : JSON.stringify(v, null, 2);
+}
+
+// Fields that differ between two revisions of the same question, in display order
+export function diffRevisions(from: QuestionRevision, to: QuestionRevision): RevisionChange[] {
+  return REVISION_FIELDS.flatMap(({ field, label }) => {
+    const before = show(from[field]);
+    const after = show(to[field]);
+    return before === after ? [] : [{ field, label, before, after }];
+  });
+}
+
+// Whether the change affects grading of attempts already taken
+export function changesGrading(changes: RevisionChange[]): boolean {
+  return changes.some((c) => c.field === "correct_answers" || c.field === "points" || c.field === "question_type" || c.field === "options");
+}
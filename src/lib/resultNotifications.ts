@@ -0,0 +1,55 @@
+import type { ResultAudience } from "@/lib/types";
+import { gradeResult, parseResultPolicy } from "@/lib/resultRelease";
+
+// Result notifications: when an exam's results are released, each graded student (and/or their
+// guardian) gets one message with the student's official score, rendered from
+// app_settings.result_notification_template.
+
+export const RESULT_AUDIENCES: { value: ResultAudience; label: string }[] = [
+  { value: "students", label: "Students" },
+  { value: "guardians", label: "Guardians" },
+  { value: "both", label: "Students and guardians" },
+];
+
+export const DEFAULT_RESULT_TEMPLATE = "Hello {name}, your result in {exam_title} is {score}% ({pass_status}).";
+export const DEFAULT_RESULT_SUBJECT = "Your result: {exam_title}";
+export const RESULT_PLACEHOLDERS = [
+  "name",
+  "code",
+  "exam_title",
+  "score",
+  "pass_status",
+  "pass_percentage",
+  "grade",
+  "guardian_name",
+];
+
+export function isResultAudience(v: unknown): v is ResultAudience {
+  return RESULT_AUDIENCES.some((a) => a.value === v);
+}
+
+export interface ResultRecipient {
+  name: string | null;
+  code: string;
+  guardian_name: string | null;
+}
+
+/** Placeholder values for one student's result message */
+export function resultTemplateVars(
+  student: ResultRecipient,
+  exam: { title: string; settings: unknown },
+  score: number
+): Record<string, string | number | null> {
+  const policy = parseResultPolicy(exam.settings);
+  const graded = gradeResult(score, policy);
+  return {
+    name: student.name,
+    code: student.code,
+    guardian_name: student.guardian_name,
+    exam_title: exam.title,
+    score: Math.round(score * 100) / 100,
+    pass_status: graded.is_pass === null ? "" : graded.is_pass ? "Pass" : "Fail",
+    pass_percentage: policy.pass_percentage,
+    grade: graded.grade,
+  };
+}
@@ -0,0 +1,63 @@
+import type { GradeBand, ResultPolicy, ResultVisibility } from "@/lib/types";
+
+// Result release: exams.results_visibility says what students may see once results are out and
+// exams.results_release_at embargoes them until a set time (the exam scheduler then records the
+// release). Pass/fail and grade bands come from exams.settings and are applied on the server.
+
+export const RESULT_VISIBILITIES: { value: ResultVisibility; label: string; description: string }[] = [
+  { value: "hidden", label: "Hidden", description: "Students see that their results are pending." },
+  { value: "released", label: "Score only", description: "Students see their score, pass/fail and grade." },
+  {
+    value: "released_with_details",
+    label: "Score and details",
+    description: "Students also see every attempt and can review their answers if review is allowed.",
+  },
+];
+
+export function isResultVisibility(v: unknown): v is ResultVisibility {
+  return RESULT_VISIBILITIES.some((r) => r.value === v);
+}
+
+export interface ResultReleaseState {
+  results_visibility?: string | null;
+  results_release_at?: string | null;
+}
+
+/** What students see right now; anything under an embargo that has not passed is hidden */
+export function resultVisibility(exam: ResultReleaseState | null | undefined, now = new Date()): ResultVisibility {
+  if (exam?.results_release_at && new Date(exam.results_release_at).getTime() > now.getTime()) return "hidden";
+  // Exams from before the release workflow showed results as soon as they were computed
+  return isResultVisibility(exam?.results_visibility) ? exam.results_visibility : "released_with_details";
+}
+
+export function parseResultPolicy(settings: unknown): ResultPolicy {
+  const obj = settings && typeof settings === "object" ? (settings as Record<string, unknown>) : {};
+  const pass = obj.pass_percentage === null || obj.pass_percentage === undefined || obj.pass_percentage === ""
+    ? NaN
+    : Number(obj.pass_percentage);
+  const bands = Array.isArray(obj.grade_bands) ? obj.grade_bands : [];
+  return {
+    pass_percentage: Number.isFinite(pass) ? pass : null,
+    grade_bands: bands
+      .map((b) => ({
+        label: typeof b?.label === "string" ? b.label.trim() : "",
+        min_percentage: Number(b?.min_percentage),
+      }))
+      .filter((b): b is GradeBand => b.label !== "" && Number.isFinite(b.min_percentage))
+      .sort((a, b) => b.min_percentage - a.min_percentage),
+  };
+}
+
+export interface GradedResult {
+  is_pass: boolean | null;
+  grade: string | null;
+}
+
+/** Pass/fail against pass_percentage and the grade band the score falls in; null where not configured */
+export function gradeResult(score: number | null, policy: ResultPolicy): GradedResult {
+  if (score === null || !Number.isFinite(score)) return { is_pass: null, grade: null };
+  return {
+    is_pass: policy.pass_percentage === null ? null : score >= policy.pass_percentage,
+    grade: policy.grade_bands.find((b) => score >= b.min_percentage)?.label ?? null,
+  };
+}
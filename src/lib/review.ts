@@ -0,0 +1,59 @@
+import type { Question, ReviewPolicy, ReviewQuestion, ScoringPolicy } from "@/lib/types";
+import { gradeAnswer, scoreQuestion } from "@/lib/scoring";
+import { describeAnswerKey } from "@/lib/practice";
+
+// Post-exam review: students reopen a submitted attempt read-only with their code and see
+// their answers next to the key, the points earned, grader notes and explanations.
+
+export function parseReviewPolicy(settings: unknown): ReviewPolicy {
+  const obj = settings && typeof settings === "object" ? (settings as Record<string, unknown>) : {};
+  const release = typeof obj.review_release_at === "string" && obj.review_release_at.trim() ? obj.review_release_at : null;
+  return {
+    enabled: obj.allow_review === true,
+    release_at: release && !Number.isNaN(new Date(release).getTime()) ? release : null,
+    show_score: obj.show_results !== false,
+  };
+}
+
+/** Why the attempt cannot be reviewed yet, or null when it can */
+export function reviewBlocker(policy: ReviewPolicy, submittedAt: string | null, now = new Date()): string | null {
+  if (!policy.enabled) return "review_not_allowed";
+  if (!submittedAt) return "attempt_not_submitted";
+  if (policy.release_at && new Date(policy.release_at).getTime() > now.getTime()) return "review_not_released";
+  return null;
+}
+
+type GradedQuestion = Question & { correct_answers: unknown };
+
+/**
+ * The review of each question in the order the attempt showed them. Paragraph and photo
+ * questions take their points from the manual grade and have none until they are graded.
+ */
+export function reviewQuestions(
+  questions: GradedQuestion[],
+  answers: Record<string, unknown>,
+  manual: Record<string, { awarded_points: number; notes: string | null }>,
+  explanations: Record<string, string | null>,
+  policy: ScoringPolicy
+): ReviewQuestion[] {
+  return questions.map((q) => {
+    const answer = answers[q.id] ?? null;
+    const correct = gradeAnswer(q, answer);
+    const grade = manual[q.id];
+    const auto = scoreQuestion(q, answer, correct, policy);
+    const { correct_answers, ...question } = q;
+    return {
+      question,
+      answer,
+      feedback: {
+        question_id: q.id,
+        correct,
+        correct_answers,
+        answer_text: describeAnswerKey(q),
+        explanation: explanations[q.id] || null,
+      },
+      earned_points: correct !== null ? auto.earned : grade ? Math.min(Number(grade.awarded_points), auto.max) : null,
+      notes: grade?.notes || null,
+    };
+  });
+}
@@ -0,0 +1,143 @@
+import type { ScoringMode, ScoringPolicy } from "@/lib/types";
+import { gradeSequence, sequencePartialCredit } from "@/lib/sequenceAnswer";
+import { gradeImageAnnotation } from "@/lib/imageAnnotation";
+import { gradeNumeric } from "@/lib/numericAnswer";
+import { gradeShortAnswer, parseShortAnswerKey } from "@/lib/shortAnswer";
+
+// Mirrors the `graded` and `scored` CTEs of public.calculate_result_for_attempt; keep both in sync.
+
+export const SCORING_MODES: { value: ScoringMode; label: string; description: string }[] = [
+  { value: "all_or_nothing", label: "All or nothing", description: "Full points only for a completely correct answer." },
+  { value: "partial", label: "Proportional partial credit", description: "Multi-answer questions earn the share of correct options picked; extra picks dilute the credit." },
+  { value: "right_minus_wrong", label: "Right minus wrong", description: "Multi-answer questions: each wrong pick cancels one correct pick (never below zero)." },
+  { value: "negative", label: "Negative marking", description: "A wrong answer loses a share of the question's points; unanswered questions score zero." },
+];
+
+export const DEFAULT_PENALTY = 0.25;
+
+export function parseScoringPolicy(settings: unknown): ScoringPolicy {
+  const raw = settings && typeof settings === "object" ? (settings as Record<string, unknown>).scoring_policy : null;
+  const obj = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+  const mode = SCORING_MODES.some((m) => m.value === obj.mode) ? (obj.mode as ScoringMode) : "all_or_nothing";
+  const penalty = Number(obj.penalty);
+  return {
+    mode,
+    penalty: Number.isFinite(penalty) && obj.penalty !== null && obj.penalty !== "" ? Math.min(1, Math.max(0, penalty)) : DEFAULT_PENALTY,
+  };
+}
+
+export interface QuestionScore {
+  earned: number;
+  max: number;
+  derivation: string;
+}
+
+function isAnswered(answer: unknown): boolean {
+  if (answer === null || answer === undefined) return false;
+  if (Array.isArray(answer)) return answer.length > 0;
+  if (typeof answer === "string") return answer.trim() !== "";
+  return true;
+}
+
+function toSet(v: unknown): Set<string> {
+  return new Set(Array.isArray(v) ? v.map((x) => String(x)) : []);
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/** Grader verdict for one question: null for manually graded types, false when unanswered. */
+export function gradeAnswer(question: { question_type: string; correct_answers?: unknown }, answer: unknown): boolean | null {
+  const t = question.question_type;
+  const key = question.correct_answers;
+  switch (t) {
+    case "paragraph":
+    case "photo_upload":
+      return null;
+    case "true_false":
+    case "single_choice": {
+      if (answer === null || answer === undefined) return false;
+      const k = Array.isArray(key) && key.length === 1 ? key[0] : key;
+      return JSON.stringify(answer) === JSON.stringify(k ?? null);
+    }
+    case "multiple_choice":
+    case "multi_select": {
+      const a = [...toSet(answer)].sort();
+      const k = [...toSet(key)].sort();
+      return a.length === k.length && a.every((x, i) => x === k[i]);
+    }
+    case "image_annotation":
+      return gradeImageAnnotation(answer, key);
+    case "numeric":
+      return gradeNumeric(answer, key);
+    case "short_answer":
+      return gradeShortAnswer(answer, key);
+    case "matching":
+    case "ordering":
+      return gradeSequence(t, answer, key);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Whether the question has a key the auto-grader can mark answers against; a keyless short
+ * answer is left to a manual grader. Mirrors public.has_answer_key.
+ */
+export function hasAnswerKey(question: { question_type: string; correct_answers?: unknown }): boolean {
+  const t = question.question_type;
+  const key = question.correct_answers;
+  if (t === "paragraph" || t === "photo_upload" || key === null || key === undefined) return false;
+  if (t === "short_answer") {
+    const parsed = parseShortAnswerKey(key);
+    return parsed.accepted.length > 0 || (parsed.patterns?.length ?? 0) > 0;
+  }
+  if (Array.isArray(key)) return key.length > 0;
+  if (typeof key === "object") return Object.keys(key).length > 0;
+  if (typeof key === "string") return key.trim() !== "";
+  return true;
+}
+
+/**
+ * Points earned for one auto-graded question under the exam's policy.
+ * `correct` is the grader's verdict (null for manually graded questions).
+ */
+export function scoreQuestion(
+  question: { question_type: string; points?: number | null; correct_answers?: unknown },
+  answer: unknown,
+  correct: boolean | null,
+  policy: ScoringPolicy
+): QuestionScore {
+  const max = question.points ?? 1;
+  if (correct === null) return { earned: 0, max, derivation: "Manually graded" };
+  if (correct) return { earned: max, max, derivation: `Correct: ${max} / ${max}` };
+
+  if (question.question_type === "matching" || question.question_type === "ordering") {
+    const share = sequencePartialCredit(question.question_type, answer, question.correct_answers) ?? 0;
+    if (share > 0) {
+      const earned = max * share;
+      return { earned, max, derivation: `Per-${question.question_type === "matching" ? "pair" : "position"} credit: ${round2(share * 100)}% × ${max} = ${round2(earned)}` };
+    }
+  }
+
+  const multi = question.question_type === "multiple_choice" || question.question_type === "multi_select";
+  const key = toSet(question.correct_answers);
+  if (multi && key.size > 0 && (policy.mode === "partial" || policy.mode === "right_minus_wrong")) {
+    const picked = toSet(answer);
+    const hits = [...picked].filter((p) => key.has(p)).length;
+    const wrong = picked.size - hits;
+    if (policy.mode === "partial") {
+      const denom = Math.max(key.size, picked.size);
+      const earned = (max * hits) / denom;
+      return { earned, max, derivation: `Partial: ${hits} correct of max(${key.size} keyed, ${picked.size} picked) × ${max} = ${round2(earned)}` };
+    }
+    const earned = (max * Math.max(0, hits - wrong)) / key.size;
+    return { earned, max, derivation: `Right − wrong: max(0, ${hits} − ${wrong}) / ${key.size} × ${max} = ${round2(earned)}` };
+  }
+
+  if (policy.mode === "negative" && isAnswered(answer) && hasAnswerKey(question)) {
+    const penalty = policy.penalty ?? DEFAULT_PENALTY;
+    const earned = -max * penalty;
+    return { earned, max, derivation: `Wrong: −${penalty} × ${max} = ${round2(earned)}` };
+  }
+  return { earned: 0, max, derivation: isAnswered(answer) ? "Wrong: 0" : "Unanswered: 0" };
+}
@@ -0,0 +1,49 @@
+import type { MatchingOptions } from "@/lib/types";
+
+// Matching and ordering answers are string arrays compared position by position.
+// Mirrors public.grade_positional in db/rpc_functions.sql; keep both in sync.
+
+export interface SequenceKey {
+  expected: string[];
+  partialCredit: boolean;
+}
+
+function strArray(v: unknown): string[] {
+  return Array.isArray(v) ? v.map((x) => (x === null || x === undefined ? "" : String(x))) : [];
+}
+
+export function parseSequenceKey(questionType: string, raw: unknown): SequenceKey {
+  if (Array.isArray(raw)) return { expected: strArray(raw), partialCredit: false };
+  const obj = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+  return {
+    expected: strArray(questionType === "matching" ? obj.matches : obj.order),
+    partialCredit: obj.partial_credit === true,
+  };
+}
+
+export function parseMatchingOptions(raw: unknown): MatchingOptions {
+  const obj = raw && typeof raw === "object" && !Array.isArray(raw) ? (raw as Record<string, unknown>) : {};
+  return { left: strArray(obj.left), right: strArray(obj.right) };
+}
+
+// Share (0..1) of expected positions the answer gets right
+export function positionalFraction(answer: unknown, expected: string[]): number {
+  if (expected.length === 0) return 0;
+  const given = strArray(answer);
+  let hits = 0;
+  expected.forEach((want, i) => {
+    if (i < given.length && given[i].trim() === want.trim()) hits++;
+  });
+  return hits / expected.length;
+}
+
+export function gradeSequence(questionType: string, answer: unknown, rawKey: unknown): boolean {
+  const key = parseSequenceKey(questionType, rawKey);
+  return key.expected.length > 0 && positionalFraction(answer, key.expected) === 1;
+}
+
+// Partial credit share for a not fully correct answer, or null when the question doesn't allow it
+export function sequencePartialCredit(questionType: string, answer: unknown, rawKey: unknown): number | null {
+  const key = parseSequenceKey(questionType, rawKey);
+  return key.partialCredit ? positionalFraction(answer, key.expected) : null;
+}
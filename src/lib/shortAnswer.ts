@@ -0,0 +1,85 @@
+import type { ShortAnswerKey } from "@/lib/types";
+import { normalizeAnswerText, type AnswerNormalizationOptions } from "@/lib/textUtils";
+
+// Mirrors public.grade_short_answer in db/rpc_functions.sql; keep both in sync.
+
+// Longer strings are compared exactly (fuzzystrmatch's levenshtein limit)
+const MAX_FUZZY_LENGTH = 255;
+
+function strList(v: unknown): string[] {
+  if (typeof v === "string") return v.trim() ? [v] : [];
+  if (!Array.isArray(v)) return [];
+  return v.filter((x): x is string => typeof x === "string" && x.trim() !== "");
+}
+
+export function parseShortAnswerKey(raw: unknown): ShortAnswerKey {
+  if (typeof raw === "string" || Array.isArray(raw)) return { accepted: strList(raw) };
+  const obj = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+  const dist = Number(obj.max_distance);
+  return {
+    accepted: strList(obj.accepted),
+    patterns: strList(obj.patterns),
+    case_sensitive: obj.case_sensitive === true,
+    normalize_whitespace: obj.normalize_whitespace !== false,
+    normalize_arabic: obj.normalize_arabic !== false,
+    max_distance: Number.isFinite(dist) && dist > 0 ? Math.floor(dist) : 0,
+  };
+}
+
+// Levenshtein distance over code points so Arabic and emoji count as one char each
+export function levenshtein(a: string, b: string): number {
+  const s = Array.from(a);
+  const t = Array.from(b);
+  if (s.length === 0) return t.length;
+  if (t.length === 0) return s.length;
+  let prev = Array.from({ length: t.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= s.length; i++) {
+    const cur = [i];
+    for (let j = 1; j <= t.length; j++) {
+      cur[j] = Math.min(prev[j] + 1, cur[j - 1] + 1, prev[j - 1] + (s[i - 1] === t[j - 1] ? 0 : 1));
+    }
+    prev = cur;
+  }
+  return prev[t.length];
+}
+
+export function gradeShortAnswer(answer: unknown, rawKey: unknown): boolean {
+  if (typeof answer !== "string" || answer.trim() === "") return false;
+  const key = parseShortAnswerKey(rawKey);
+  const opts: AnswerNormalizationOptions = {
+    caseSensitive: key.case_sensitive,
+    normalizeWhitespace: key.normalize_whitespace,
+    normalizeArabic: key.normalize_arabic,
+  };
+  const given = normalizeAnswerText(answer, opts);
+  const maxDistance = key.max_distance ?? 0;
+
+  for (const accepted of key.accepted) {
+    const want = normalizeAnswerText(accepted, opts);
+    if (given === want) return true;
+    if (
+      maxDistance > 0 &&
+      Array.from(given).length <= MAX_FUZZY_LENGTH &&
+      Array.from(want).length <= MAX_FUZZY_LENGTH &&
+      levenshtein(given, want) <= maxDistance
+    ) {
+      return true;
+    }
+  }
+
+  for (const pattern of key.patterns || []) {
+    try {
+      if (new RegExp(pattern, key.case_sensitive ? "" : "i").test(given)) return true;
+    } catch {
+      // invalid patterns never match (the SQL grader skips them too)
+    }
+  }
+  return false;
+}
+
+export function formatShortAnswerKey(rawKey: unknown): string {
+  const key = parseShortAnswerKey(rawKey);
+  const parts = [...key.accepted];
+  for (const p of key.patterns || []) parts.push(`/${p}/`);
+  return parts.join(" | ");
+}
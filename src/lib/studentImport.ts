@@ -0,0 +1,142 @@
+import type {
+  StudentImportField,
+  StudentImportIssue,
+  StudentImportMatch,
+  StudentImportPlan,
+  StudentImportRow,
+  StudentImportUpdate,
+} from "@/lib/types";
+
+// Server-side planning for student imports. Each row either creates a student, updates the one it
+// matches (blank cells keep the stored value), changes nothing, or is reported and skipped.
+
+export interface ExistingStudent {
+  id: string;
+  code: string;
+  student_name: string | null;
+  mobile_number: string | null;
+}
+
+export const MAX_IMPORT_ROWS = 5000;
+
+const ARABIC_DIGITS = /[\u0660-\u0669\u06F0-\u06F9]/g;
+
+function asciiDigits(s: string): string {
+  return s.replace(ARABIC_DIGITS, (d) => String(d.charCodeAt(0) & 0xf));
+}
+
+/** Country calling code digits from "+20", "0020" or "20"; null when blank or not a code */
+export function parseCountryCode(input: unknown): string | null {
+  if (typeof input !== "string") return null;
+  const digits = asciiDigits(input.trim()).replace(/^(\+|00)/, "");
+  return /^[1-9]\d{0,2}$/.test(digits) ? digits : null;
+}
+
+/**
+ * A phone number in E.164 (+ and 8-15 digits). Numbers without an international prefix take the
+ * default country code after dropping their trunk 0; without one they are rejected.
+ */
+export function normalizePhone(raw: string, defaultCountryCode: string | null): string | null {
+  let s = asciiDigits(raw.trim()).replace(/[\s\-().\u200E\u200F]/g, "");
+  if (s.startsWith("00")) s = `+${s.slice(2)}`;
+  if (!s.startsWith("+")) {
+    if (!defaultCountryCode) return null;
+    s = `+${defaultCountryCode}${s.replace(/^0+/, "")}`;
+  }
+  return /^\+[1-9]\d{7,14}$/.test(s) ? s : null;
+}
+
+function cell(v: unknown): string | null {
+  if (v === null || v === undefined) return null;
+  const s = String(v).trim();
+  return s === "" ? null : s;
+}
+
+/**
+ * The diff an import would apply. newCode returns an unused code (or null when none can be
+ * generated) for created students without one; codes it returns are reserved for later rows.
+ */
+export function planStudentImport(
+  rows: StudentImportRow[],
+  existing: ExistingStudent[],
+  opts: { match_on: StudentImportMatch; default_country_code: string | null },
+  newCode: (taken: Set<string>) => string | null
+): StudentImportPlan {
+  const plan: StudentImportPlan = {
+    match_on: opts.match_on,
+    total: rows.length,
+    creates: [],
+    updates: [],
+    unchanged: 0,
+    conflicts: [],
+    invalid: [],
+  };
+
+  const byCode = new Map(existing.map((s) => [s.code, s]));
+  const byMobile = new Map<string, ExistingStudent[]>();
+  for (const s of existing) {
+    if (!s.mobile_number) continue;
+    const key = normalizePhone(s.mobile_number, opts.default_country_code) ?? s.mobile_number;
+    byMobile.set(key, [...(byMobile.get(key) ?? []), s]);
+  }
+  const taken = new Set(byCode.keys());
+  const seen = new Set<string>();
+
+  rows.forEach((r, i) => {
+    const row = i + 1;
+    const skip = (list: StudentImportIssue[], reason: string, detail?: string) => {
+      list.push({ row, reason, ...(detail ? { detail } : {}) });
+    };
+    const name = cell(r.student_name);
+    const code = cell(r.code);
+    const rawMobile = cell(r.mobile_number);
+    const mobile = rawMobile ? normalizePhone(rawMobile, opts.default_country_code) : null;
+
+    if (code && /\s/.test(code)) return skip(plan.invalid, "invalid_code", code);
+    if (rawMobile && !mobile) return skip(plan.invalid, "invalid_mobile_number", rawMobile);
+
+    const key = opts.match_on === "code" ? code : mobile;
+    if (!key && opts.match_on === "mobile_number") return skip(plan.invalid, "mobile_required");
+    if (key) {
+      if (seen.has(key)) return skip(plan.conflicts, "duplicate_in_file", key);
+      seen.add(key);
+    }
+
+    let match: ExistingStudent | undefined;
+    if (key && opts.match_on === "code") {
+      match = byCode.get(key);
+    } else if (key) {
+      const found = byMobile.get(key) ?? [];
+      if (found.length > 1) return skip(plan.conflicts, "ambiguous_match", found.map((s) => s.code).join(", "));
+      match = found[0];
+    }
+
+    if (!match) {
+      if (!mobile) return skip(plan.invalid, "mobile_required");
+      if (code && taken.has(code)) return skip(plan.conflicts, "code_taken", code);
+      const finalCode = code ?? newCode(taken);
+      if (!finalCode) return skip(plan.invalid, "code_generation_failed");
+      taken.add(finalCode);
+      plan.creates.push({ row, code: finalCode, student_name: name, mobile_number: mobile });
+      return;
+    }
+
+    const current = match;
+    const changes: StudentImportUpdate["changes"] = {};
+    const set = (field: StudentImportField, to: string | null) => {
+      if (to !== null && to !== current[field]) changes[field] = { from: current[field], to };
+    };
+    set("student_name", name);
+    set("mobile_number", mobile);
+    if (opts.match_on === "mobile_number" && code && code !== current.code) {
+      if (taken.has(code)) return skip(plan.conflicts, "code_taken", code);
+      taken.add(code);
+      set("code", code);
+    }
+
+    if (Object.keys(changes).length === 0) plan.unchanged += 1;
+    else plan.updates.push({ row, student_id: current.id, code: current.code, changes });
+  });
+
+  return plan;
+}
@@ -31,4 +31,36 @@ export function getTextAlignment(text: string): 'left' | 'right' | 'start' {
   } else {
     return 'start'; // Let browser decide
   }
-}
\ No newline at end of file
+}
+// Arabic-Indic and Persian digits plus the Arabic decimal separator
+export function normalizeDigits(text: string): string {
+  return text
+    .replace(/[٠-٩]/g, (d) => String(d.charCodeAt(0) - 0x0660))
+    .replace(/[۰-۹]/g, (d) => String(d.charCodeAt(0) - 0x06f0))
+    .replace(/٫/g, '.');
+}
+
+// Harakat, superscript alef and tatweel
+export function stripArabicDiacritics(text: string): string {
+  return text.replace(/[ً-ْٰـ]/g, '');
+}
+
+// Folds letter variants students commonly interchange: أ إ آ ٱ → ا, ى → ي, ة → ه
+export function normalizeArabicLetters(text: string): string {
+  return text.replace(/[أإآٱ]/g, 'ا').replace(/ى/g, 'ي').replace(/ة/g, 'ه');
+}
+
+export interface AnswerNormalizationOptions {
+  caseSensitive?: boolean;
+  normalizeWhitespace?: boolean;
+  normalizeArabic?: boolean;
+}
+
+// Keep in sync with public.normalize_answer_text in db/rpc_functions.sql
+export function normalizeAnswerText(text: string, opts: AnswerNormalizationOptions = {}): string {
+  let out = text.trim();
+  if (opts.normalizeWhitespace !== false) out = out.replace(/\s+/g, ' ');
+  if (opts.normalizeArabic !== false) out = normalizeDigits(normalizeArabicLetters(stripArabicDiacritics(out)));
+  if (!opts.caseSensitive) out = out.toLowerCase();
+  return out;
+}
@@ -0,0 +1,36 @@
+// Mirrors public.attempt_extra_minutes / public.attempt_deadline in db/rpc_functions.sql; keep both in sync.
+
+export interface TimeAccommodation {
+  time_multiplier?: number | null;
+  extra_time_minutes?: number | null;
+}
+
+/** Minutes a student's accommodation adds to an exam of the given duration */
+export function accommodationMinutes(durationMinutes: number | null | undefined, acc: TimeAccommodation | null | undefined): number {
+  if (!acc) return 0;
+  const multiplier = Number(acc.time_multiplier ?? 1);
+  const scaled = durationMinutes && multiplier > 1 ? Math.ceil(durationMinutes * (multiplier - 1)) : 0;
+  return scaled + Math.max(0, Number(acc.extra_time_minutes ?? 0) || 0);
+}
+
+/** Epoch ms the attempt must be submitted by, or null for untimed exams */
+export function attemptDeadline(opts: {
+  startedAt: string;
+  durationMinutes: number | null | undefined;
+  endTime: string | null | undefined;
+  extraMinutes: number;
+}): number | null {
+  const deadlines: number[] = [];
+  const extraMs = opts.extraMinutes * 60_000;
+  if (opts.durationMinutes) deadlines.push(new Date(opts.startedAt).getTime() + opts.durationMinutes * 60_000 + extraMs);
+  if (opts.endTime) deadlines.push(new Date(opts.endTime).getTime() + extraMs);
+  const valid = deadlines.filter((d) => !isNaN(d));
+  return valid.length > 0 ? Math.min(...valid) : null;
+}
+
+export function describeAccommodation(acc: TimeAccommodation | null | undefined): string {
+  const parts: string[] = [];
+  if (acc?.time_multiplier && Number(acc.time_multiplier) > 1) parts.push(`×${Number(acc.time_multiplier)}`);
+  if (acc?.extra_time_minutes) parts.push(`+${acc.extra_time_minutes} min`);
+  return parts.join(" ");
+}
@@ -5,13 +5,63 @@ export type QuestionType =
   | "multi_select"
   | "short_answer"
   | "paragraph"
-  | "photo_upload";
+  | "photo_upload"
+  | "image_annotation"
+  | "numeric"
+  | "matching"
+  | "ordering";
+
+// Image annotation: coordinates are percentages (0-100) of the rendered image
+export interface AnnotationPoint {
+  id: string;
+  x: number;
+  y: number;
+  label: string;
+  color: string;
+}
+
+export interface AnnotationRegion {
+  id: string;
+  x: number;
+  y: number;
+  radius: number;
+  label?: string;
+}
+
+// Stored in questions.correct_answers for image_annotation questions
+export interface ImageAnnotationKey {
+  regions: AnnotationRegion[];
+  tolerance?: number;
+}
+
+// Stored in questions.correct_answers for short_answer questions. A plain string
+// or string array is also accepted and treated as the accepted list with defaults.
+export interface ShortAnswerKey {
+  accepted: string[];
+  patterns?: string[];
+  case_sensitive?: boolean;
+  normalize_whitespace?: boolean;
+  normalize_arabic?: boolean;
+  max_distance?: number;
+}
+
+// Stored in questions.correct_answers for numeric questions.
+// Relative tolerance is a percentage of the expected value.
+export interface NumericAnswerKey {
+  value: number;
+  tolerance?: number;
+  tolerance_type?: "absolute" | "relative";
+  units?: string[];
+  unit_required?: boolean;
+  sig_figs?: number | null;
+}
 
 export interface Question {
   id: string;
   question_text: string;
   question_type: QuestionType;
-  options?: string[] | null;
+  // Matching questions store both columns; every other type stores a list
+  options?: string[] | MatchingOptions | null;
   correct_answers?: unknown;
   points: number;
   required: boolean;
@@ -19,6 +69,139 @@ export interface Question {
   // Optional image support
   question_image_url?: string | null;
   option_image_urls?: (string | null)[] | null;
+  // Revision the attempt was shown (questions.revision at attempt start)
+  revision?: number;
+  // Admin-authored; students only see it through practice feedback and post-exam review
+  explanation?: string | null;
+}
+
+// One checked answer on a practice exam (exams.settings.practice_mode), from /api/attempts/[attemptId]/feedback
+export interface QuestionFeedback {
+  question_id: string;
+  // null for manually graded types (paragraph, photo upload)
+  correct: boolean | null;
+  correct_answers: unknown;
+  // The key in words, e.g. the accepted answer or the expected order
+  answer_text: string | null;
+  explanation: string | null;
+}
+
+// Immutable snapshot in public.question_revisions, written by trigger on every content edit
+export interface QuestionRevision {
+  id: string;
+  question_id: string;
+  revision: number;
+  question_text: string;
+  question_type: QuestionType;
+  options: string[] | MatchingOptions | null;
+  correct_answers: unknown;
+  points: number | null;
+  question_image_url: string | null;
+  option_image_urls: (string | null)[] | null;
+  created_at: string;
+}
+
+// questions.options for matching questions; right may include distractors
+export interface MatchingOptions {
+  left: string[];
+  right: string[];
+}
+
+// questions.correct_answers for matching (right item per left, by position) and
+// ordering (items in the correct order). A plain string array is also accepted.
+export interface MatchingKey {
+  matches: string[];
+  partial_credit?: boolean;
+}
+
+export interface OrderingKey {
+  order: string[];
+  partial_credit?: boolean;
+}
+
+// exams.settings.scoring_policy; penalty is a fraction of the question's points
+export type ScoringMode = "all_or_nothing" | "partial" | "right_minus_wrong" | "negative";
+
+export interface ScoringPolicy {
+  mode: ScoringMode;
+  penalty?: number;
+}
+
+export type LockdownAction = "warn" | "pause" | "submit";
+
+// exams.settings.lockdown
+export interface LockdownPolicy {
+  enabled: boolean;
+  max_violations: number;
+  on_limit: LockdownAction;
+}
+
+// exams.settings.score_policy: which attempt counts when a student may take an exam more than once
+export type ScorePolicy = "best" | "last" | "average" | "first";
+
+// exams.settings.attempt_limit (0 = unlimited), attempt_cooldown_minutes and score_policy
+export interface AttemptPolicy {
+  attempt_limit: number;
+  cooldown_minutes: number;
+  score_policy: ScorePolicy;
+}
+
+// exams.settings.schedule_error: set when the scheduler fails to publish an exam; the exam is
+// skipped until an admin clears it
+export interface ScheduleError {
+  reason: string;
+  at: string;
+}
+
+// exams.settings.allow_review, review_release_at and show_results
+export interface ReviewPolicy {
+  enabled: boolean;
+  // Review opens at this time; until then only the submission is confirmed
+  release_at: string | null;
+  // Whether the review shows the overall score
+  show_score: boolean;
+}
+
+// One question of a student's post-exam review, from /api/attempts/[attemptId]/review
+export interface ReviewQuestion {
+  question: Question;
+  answer: unknown;
+  feedback: QuestionFeedback;
+  // Manual grade when there is one, else the auto-graded points; null while awaiting a manual grade
+  earned_points: number | null;
+  notes: string | null;
+}
+
+export interface AttemptReview {
+  attempt_id: string;
+  exam_title: string;
+  student_name: string | null;
+  submitted_at: string;
+  score_percentage: number | null;
+  questions: ReviewQuestion[];
+}
+
+// exams.settings.sections; questions not listed in any section join the last one
+export interface ExamSection {
+  id: string;
+  title: string;
+  instructions?: string | null;
+  duration_minutes?: number | null;
+  question_ids: string[];
+}
+
+export type SectionStatus = "active" | "open" | "upcoming" | "closed";
+
+// A section as resolved for one attempt by get_attempt_state
+export interface AttemptSection {
+  index: number;
+  id: string;
+  title: string;
+  instructions: string | null;
+  duration_minutes: number | null;
+  question_ids: string[];
+  status: SectionStatus;
+  remaining_seconds: number | null;
 }
 
 export interface ExamInfo {
@@ -42,4 +225,130 @@ export interface AttemptState {
   completion_status: "in_progress" | "submitted" | "abandoned" | "invalid";
   submitted_at: string | null;
   questions: Question[];
+  sections?: AttemptSection[];
+  current_section?: number | null;
+  // Accommodation plus live extensions, in minutes, and the resulting deadline
+  extra_minutes?: number;
+  deadline_at?: string | null;
+  // Set while a proctor has the attempt paused
+  paused_at?: string | null;
+}
+
+// public.student_groups with its member count; exams assigned to groups (exam_groups) only
+// admit members of those groups
+export interface StudentGroup {
+  id: string;
+  name: string;
+  description: string | null;
+  created_at: string;
+  member_count: number;
+}
+
+// Student import (/api/admin/students/import): rows are matched to existing students on code or
+// mobile number, then planned as creates and updates; conflicts and invalid rows are skipped
+export type StudentImportMatch = "code" | "mobile_number";
+
+export interface StudentImportRow {
+  student_name?: string | null;
+  mobile_number?: string | null;
+  code?: string | null;
+}
+
+export interface StudentImportCreate {
+  row: number;
+  code: string;
+  student_name: string | null;
+  mobile_number: string;
+}
+
+export type StudentImportField = "code" | "student_name" | "mobile_number";
+
+export interface StudentImportUpdate {
+  row: number;
+  student_id: string;
+  code: string;
+  changes: Partial<Record<StudentImportField, { from: string | null; to: string }>>;
+}
+
+// row is 1-based over the file's data rows
+export interface StudentImportIssue {
+  row: number;
+  reason: string;
+  detail?: string;
+}
+
+export interface StudentImportPlan {
+  match_on: StudentImportMatch;
+  total: number;
+  creates: StudentImportCreate[];
+  updates: StudentImportUpdate[];
+  unchanged: number;
+  conflicts: StudentImportIssue[];
+  invalid: StudentImportIssue[];
+}
+
+// public.student_import_batches; a committed import that can be rolled back once
+export interface StudentImportBatch {
+  id: string;
+  file_name: string | null;
+  match_on: StudentImportMatch;
+  created_count: number;
+  updated_count: number;
+  created_by: string | null;
+  created_at: string;
+  rolled_back_at: string | null;
+}
+
+// Channels a MessageProvider (src/lib/messaging) delivers on
+export type MessageChannel = "whatsapp" | "sms" | "email";
+
+export type MessageDeliveryStatus = "pending" | "sending" | "sent" | "failed";
+
+// public.message_job_summary: a queued send with its per-status recipient counts
+export interface MessageJob {
+  id: string;
+  channel: MessageChannel;
+  provider: string;
+  subject: string | null;
+  template: string;
+  created_by: string | null;
+  created_at: string;
+  total: number;
+  pending: number;
+  sent: number;
+  failed: number;
+  // Set on result notifications queued by releasing an exam's results
+  exam_id: string | null;
+}
+
+// public.message_deliveries: one recipient of a job
+export interface MessageDelivery {
+  id: number;
+  job_id: string;
+  student_id: string | null;
+  recipient: string;
+  status: MessageDeliveryStatus;
+  attempts: number;
+  next_attempt_at: string;
+  last_error: string | null;
+  sent_at: string | null;
+  student_code?: string | null;
+  student_name?: string | null;
+}
+
+// Who is notified when an exam's results are released
+export type ResultAudience = "students" | "guardians" | "both";
+
+// Who sees an exam's results: no one, the score, or the score with attempt history and answer review
+export type ResultVisibility = "hidden" | "released" | "released_with_details";
+
+// exams.settings.grade_bands: the highest band whose minimum the score reaches names the grade
+export interface GradeBand {
+  label: string;
+  min_percentage: number;
+}
+
+export interface ResultPolicy {
+  pass_percentage: number | null;
+  grade_bands: GradeBand[];
 }